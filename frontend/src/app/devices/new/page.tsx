@@ -19,6 +19,13 @@ export default function NewDevicePage() {
   const [statusCheckInterval, setStatusCheckInterval] = useState<NodeJS.Timeout | null>(null)
   const [qrRefreshInterval, setQrRefreshInterval] = useState<NodeJS.Timeout | null>(null)
   const [qrRefreshKey, setQrRefreshKey] = useState(0)
+  const [linkMethod, setLinkMethod] = useState<'qr' | 'phone'>('qr')
+  const [phoneNumber, setPhoneNumber] = useState('')
+  const [pairingCode, setPairingCode] = useState('')
+  const [pairingExpiresAt, setPairingExpiresAt] = useState(0)
+  const [pairingLoading, setPairingLoading] = useState(false)
+  const [pairingError, setPairingError] = useState('')
+  const [now, setNow] = useState(Date.now())
   
   // Use ref to prevent multiple device creations
   const isCreatingDevice = useRef(false)
@@ -154,6 +161,15 @@ export default function NewDevicePage() {
     }
   }, [authStatus, deviceId])
 
+  // Pairing code countdown - tick every second while a code is shown
+  useEffect(() => {
+    if (!pairingCode || authStatus !== 'qr') return
+
+    const interval = setInterval(() => setNow(Date.now()), 1000)
+
+    return () => clearInterval(interval)
+  }, [pairingCode, authStatus])
+
   // Cleanup intervals on unmount
   useEffect(() => {
     return () => {
@@ -202,9 +218,52 @@ export default function NewDevicePage() {
     throw new Error('Timeout waiting for device to initialize. Please try again.')
   }
 
+  const requestPairingCode = async () => {
+    if (!deviceId || !phoneNumber.trim()) return
+
+    setPairingLoading(true)
+    setPairingError('')
+
+    try {
+      const response = await fetch(`/backend-api/v1/devices/${deviceId}/pair`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'x-api-key': process.env.NEXT_PUBLIC_API_KEY || 'test-api-key-123'
+        },
+        body: JSON.stringify({ phoneNumber: phoneNumber.trim() })
+      })
+
+      const result = await response.json().catch(() => ({}))
+
+      if (!response.ok) {
+        throw new Error(result.error || `Failed to get pairing code: ${response.statusText}`)
+      }
+
+      setPairingCode(result.data.pairingCode)
+      setPairingExpiresAt(result.data.expiresAt)
+      setNow(Date.now())
+    } catch (err) {
+      console.error('Pairing code request failed:', err)
+      setPairingError(err instanceof Error ? err.message : 'Failed to get pairing code')
+    } finally {
+      setPairingLoading(false)
+    }
+  }
+
+  const switchLinkMethod = (method: 'qr' | 'phone') => {
+    setLinkMethod(method)
+    setPairingCode('')
+    setPairingError('')
+  }
+
+  const pairingSecondsLeft = Math.max(0, Math.ceil((pairingExpiresAt - now) / 1000))
+  const pairingExpired = !!pairingCode && pairingSecondsLeft === 0
+
   const retryCreation = () => {
     setError('')
     setDeviceId('')
+    setPairingCode('')
     isCreatingDevice.current = false // Reset guard flag
     createDeviceAndGetQR()
   }
@@ -237,7 +296,9 @@ export default function NewDevicePage() {
             Authenticate Device
           </h1>
           <p className="mt-2 text-gray-600 dark:text-gray-400">
-            Scan this QR code with WhatsApp on your phone to authenticate the device
+            {linkMethod === 'qr'
+              ? 'Scan this QR code with WhatsApp on your phone to authenticate the device'
+              : 'Enter the pairing code in WhatsApp on your phone to authenticate the device'}
           </p>
         </div>
 
@@ -253,7 +314,7 @@ export default function NewDevicePage() {
                 </div>
               )}
 
-              {authStatus === 'qr' && deviceId && (
+              {authStatus === 'qr' && deviceId && linkMethod === 'qr' && (
                 <div className="p-8 bg-white rounded-lg border-2 border-gray-200">
                   <img 
                     key={qrRefreshKey}
@@ -267,6 +328,75 @@ export default function NewDevicePage() {
                 </div>
               )}
 
+              {/* Pairing Code Display */}
+              {authStatus === 'qr' && deviceId && linkMethod === 'phone' && (
+                <div className="w-full max-w-md space-y-4">
+                  {!pairingCode && (
+                    <>
+                      <label htmlFor="phoneNumber" className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                        Phone number of the WhatsApp account, with country code
+                      </label>
+                      <div className="flex space-x-2">
+                        <input
+                          id="phoneNumber"
+                          type="tel"
+                          value={phoneNumber}
+                          onChange={(e) => setPhoneNumber(e.target.value)}
+                          onKeyDown={(e) => { if (e.key === 'Enter') requestPairingCode() }}
+                          placeholder="+34 600 111 222"
+                          className="flex-1 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 dark:bg-gray-800 dark:border-gray-600 dark:text-white"
+                        />
+                        <button
+                          onClick={requestPairingCode}
+                          disabled={pairingLoading || !phoneNumber.trim()}
+                          className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors disabled:opacity-50"
+                        >
+                          {pairingLoading ? 'Requesting...' : 'Get code'}
+                        </button>
+                      </div>
+                    </>
+                  )}
+
+                  {pairingCode && (
+                    <div className="p-8 bg-white rounded-lg border-2 border-gray-200 flex flex-col items-center space-y-3">
+                      <p className={`text-4xl font-mono font-bold tracking-widest ${pairingExpired ? 'text-gray-300 line-through' : 'text-gray-900'}`}>
+                        {pairingCode.slice(0, 4)}-{pairingCode.slice(4)}
+                      </p>
+                      {pairingExpired ? (
+                        <p className="text-sm text-red-600">This code has expired</p>
+                      ) : (
+                        <p className="text-sm text-gray-500">
+                          Expires in {Math.floor(pairingSecondsLeft / 60)}:{String(pairingSecondsLeft % 60).padStart(2, '0')}
+                        </p>
+                      )}
+                      <button
+                        onClick={requestPairingCode}
+                        disabled={pairingLoading}
+                        className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors disabled:opacity-50"
+                      >
+                        {pairingLoading ? 'Requesting...' : 'Get a new code'}
+                      </button>
+                      <p className="text-xs text-gray-500 text-center">
+                        On your phone open WhatsApp, go to Linked devices, tap Link a device, then Link with phone number instead, and enter this code.
+                      </p>
+                    </div>
+                  )}
+
+                  {pairingError && (
+                    <p className="text-sm text-red-600 text-center">{pairingError}</p>
+                  )}
+                </div>
+              )}
+
+              {authStatus === 'qr' && deviceId && (
+                <button
+                  onClick={() => switchLinkMethod(linkMethod === 'qr' ? 'phone' : 'qr')}
+                  className="text-sm text-blue-600 hover:text-blue-700"
+                >
+                  {linkMethod === 'qr' ? 'Link with phone number instead' : 'Scan a QR code instead'}
+                </button>
+              )}
+
 
               {/* Status Messages */}
               <div className="text-center">
@@ -80,7 +80,7 @@ function adaptBackendDevice(backendDevice: BackendDevice): Device & { statusConf
   
   return {
     id: backendDevice.deviceId,
-    name: backendDevice.clientName || backendDevice.name || `Device ${backendDevice.deviceId.slice(0, 8)}`,
+    name: backendDevice.name || backendDevice.clientName || `Device ${backendDevice.deviceId.slice(0, 8)}`,
     waDeviceId: backendDevice.deviceId,
     phoneNumber: backendDevice.phoneNumber,
     status: statusConfig.status,
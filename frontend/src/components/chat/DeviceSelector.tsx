@@ -73,9 +73,9 @@ export function DeviceSelector({
 
   const formatDeviceName = (device: BackendDevice) => {
     if (device.phoneNumber) {
-      return `${device.clientName || device.name || 'Device'} (${device.phoneNumber})`;
+      return `${device.name || device.clientName || 'Device'} (${device.phoneNumber})`;
     }
-    return device.clientName || device.name || `Device ${device.deviceId.slice(0, 8)}`;
+    return device.name || device.clientName || `Device ${device.deviceId.slice(0, 8)}`;
   };
 
   const getSelectionSummary = () => {
@@ -143,7 +143,7 @@ export function DeviceSelector({
               return (
                 <Chip
                   key={deviceId}
-                  label={device.phoneNumber || device.clientName || device.name || 'Device'}
+                  label={device.phoneNumber || device.name || device.clientName || 'Device'}
                   size="small"
                   onDelete={() => handleToggleDevice(deviceId)}
                   className="bg-blue-100 text-blue-800"
@@ -214,7 +214,7 @@ export function DeviceSelector({
                       />
                       <Box className="min-w-0 flex-1">
                         <Typography variant="body2" className="font-medium truncate">
-                          {device.clientName || device.name || 'Device'}
+                          {device.name || device.clientName || 'Device'}
                         </Typography>
                         {device.phoneNumber && (
                           <Typography variant="caption" className="text-gray-500 block">
@@ -243,7 +243,9 @@ export function MessageThread({ selectedChat, onShowDetails, onBackToChats, isMo
         : (backendMsg.id as any)?._serialized || (backendMsg.id as any)?.id || messageId;
       attachmentUrl = backendAPI.getMediaUrl(deviceId!, extractedMessageId, 'audio');
       duration = backendMsg.duration;
-      if (!messageText) {
+      if (!messageText && backendMsg.transcript) {
+        messageText = `🎤 ${backendMsg.transcript}`;
+      } else if (!messageText) {
         const durationText = duration ? ` (${Math.floor(duration / 60)}:${(duration % 60).toString().padStart(2, '0')})` : '';
         messageText = `🎤 Voice message${durationText}`;
       }
@@ -285,6 +287,11 @@ export function MessageThread({ selectedChat, onShowDetails, onBackToChats, isMo
       messageText = `📄 ${backendMsg.type || 'Message'}`;
     }
 
+    // Show the translation of messages from translated chats under the original
+    if (backendMsg.translatedBody && messageText) {
+      messageText = `${messageText}\n\n🌐 ${backendMsg.translatedBody}`;
+    }
+
     // Extract from and to fields from the backend message structure
     const from = (backendMsg._data?.from || (typeof backendMsg.id === 'object' && (backendMsg.id as any).remote) || (backendMsg.fromMe ? 'me' : '')) as string;
     const to = (backendMsg._data?.to || chatId) as string | undefined;
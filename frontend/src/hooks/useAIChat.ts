@@ -88,7 +88,8 @@ export const useAIChat = () => {
               const data: StreamResponse = JSON.parse(line.slice(6));
               
               if (data.type === 'chunk') {
-                const currentResponse = data.fullResponse || '';
+                // The backend's analyze stream only sends the new content of each chunk
+                const currentResponse = data.fullResponse ?? fullResponse + (data.content || '');
                 setStreamingResponse(currentResponse);
                 fullResponse = currentResponse;
                 
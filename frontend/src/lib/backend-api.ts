@@ -6,7 +6,10 @@
 interface BackendDevice {
   id?: string // For frontend compatibility
   deviceId: string // Backend uses deviceId
-  name?: string // Backend may not have name field
+  name?: string | null // Set when the device was created or updated
+  labels?: string[]
+  metadata?: Record<string, string>
+  owner?: string | null
   clientName: string | null
   phoneNumber: string | null
   status: 'ready' | 'qr' | 'error' | 'disconnected' | 'connecting' | 'loading'
@@ -74,6 +77,9 @@ interface BackendMessage {
   deprecatedMms3Url?: string
   mimetype?: string
   duration?: number // For audio/video messages
+  transcript?: string // For transcribed voice notes
+  translatedBody?: string // For messages from chats with translation on
+  originalBody?: string // For messages sent with translateTo, before translation
   title?: string // For URL previews
   links?: Array<{ link: string; isSuspicious: boolean }>
   quotedMessage?: BackendMessage // Enhanced quoted message
@@ -195,6 +201,29 @@ class BackendAPIService {
     return data.data || data
   }
 
+  /**
+   * Change a device's name, labels, metadata or owner
+   */
+  async updateDevice(deviceId: string, changes: {
+    name?: string | null
+    labels?: string[]
+    metadata?: Record<string, string | null>
+    owner?: string | null
+  }): Promise<BackendDevice> {
+    const response = await this.makeRequest(`/devices/${deviceId}`, {
+      method: 'PATCH',
+      body: JSON.stringify(changes),
+    })
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({ error: 'Unknown error' }))
+      throw new Error(errorData.error || `HTTP ${response.status}: ${response.statusText}`)
+    }
+
+    const data = await response.json()
+    return data.data || data
+  }
+
   /**
    * Delete a device
    */
@@ -326,6 +326,21 @@
  *           enum: [single_chat, all_chats]
  *           description: Scope of the search
  *           example: "all_chats"
+ *         source:
+ *           type: string
+ *           enum: [index, recent_chats]
+ *           description: Whether the message index or a scan of recent chats answered the search
+ *         pagination:
+ *           type: object
+ *           description: Cursor pagination (message index only)
+ *           properties:
+ *             limit:
+ *               type: integer
+ *             nextCursor:
+ *               type: string
+ *               nullable: true
+ *             hasMore:
+ *               type: boolean
  * 
  *     ErrorResponse:
  *       type: object
@@ -65,6 +65,35 @@ export const cacheOperationDurationHistogram = new client.Histogram({
   registers: [register],
 });
 
+// AI usage metrics; cost is estimated from the AI price table
+export const aiTokensCounter = new client.Counter({
+  name: `${config.metrics.prometheus.prefix}ai_tokens_total`,
+  help: 'Total number of AI tokens used',
+  labelNames: ['provider', 'model', 'api_key', 'device_id', 'type'],
+  registers: [register],
+});
+
+export const aiRequestsCounter = new client.Counter({
+  name: `${config.metrics.prometheus.prefix}ai_requests_total`,
+  help: 'Total number of AI completions',
+  labelNames: ['provider', 'model', 'api_key', 'device_id'],
+  registers: [register],
+});
+
+export const aiCostCounter = new client.Counter({
+  name: `${config.metrics.prometheus.prefix}ai_cost_usd_total`,
+  help: 'Estimated cost of AI completions in USD',
+  labelNames: ['provider', 'model', 'api_key', 'device_id'],
+  registers: [register],
+});
+
+export const aiBudgetExceededCounter = new client.Counter({
+  name: `${config.metrics.prometheus.prefix}ai_budget_exceeded_total`,
+  help: 'Total number of AI completions blocked or downgraded by a budget',
+  labelNames: ['scope', 'action'],
+  registers: [register],
+});
+
 // Export the register for metrics endpoint
 export { register };
 
@@ -106,6 +135,32 @@ export class MetricsService {
     }
   }
 
+  static recordAIUsage(
+    labels: { provider: string; model: string; apiKeyId?: string; deviceId?: string },
+    promptTokens: number,
+    completionTokens: number,
+    cost: number
+  ): void {
+    if (config.metrics.prometheus.enabled) {
+      const metricLabels = {
+        provider: labels.provider,
+        model: labels.model,
+        api_key: labels.apiKeyId || 'none',
+        device_id: labels.deviceId || 'none',
+      };
+      aiTokensCounter.inc({ ...metricLabels, type: 'prompt' }, promptTokens);
+      aiTokensCounter.inc({ ...metricLabels, type: 'completion' }, completionTokens);
+      aiRequestsCounter.inc(metricLabels);
+      aiCostCounter.inc(metricLabels, cost);
+    }
+  }
+
+  static incrementAIBudgetExceeded(scope: 'apiKey' | 'device' | 'provider', action: 'block' | 'downgrade'): void {
+    if (config.metrics.prometheus.enabled) {
+      aiBudgetExceededCounter.inc({ scope, action });
+    }
+  }
+
   static async getMetrics(): Promise<string> {
     return register.metrics();
   }
@@ -56,6 +56,22 @@
  *         timestamp:
  *           type: integer
  *           format: int64
+ *     DevicePairingCodePayload:
+ *       type: object
+ *       properties:
+ *         deviceId:
+ *           type: string
+ *         pairingCode:
+ *           type: string
+ *           example: ABCD1234
+ *         phoneNumber:
+ *           type: string
+ *         expiresAt:
+ *           type: integer
+ *           format: int64
+ *         timestamp:
+ *           type: integer
+ *           format: int64
  *     DeviceReadyPayload:
  *       type: object
  *       properties:
@@ -89,6 +105,23 @@
  *         timestamp:
  *           type: integer
  *           format: int64
+ *     MessageTranslatedPayload:
+ *       type: object
+ *       properties:
+ *         deviceId:
+ *           type: string
+ *         messageId:
+ *           type: string
+ *         chatId:
+ *           type: string
+ *         translatedBody:
+ *           type: string
+ *         detectedLanguage:
+ *           type: string
+ *           example: es
+ *         timestamp:
+ *           type: integer
+ *           format: int64
  *     DeviceDisconnectedPayload:
  *       type: object
  *       properties:
@@ -79,8 +79,8 @@ export let io: SocketIOServer<ClientToServerEvents, ServerToClientEvents, InterS
 export const initializeSocketIO = (httpServer: HttpServer): SocketIOServer => {
   io = new SocketIOServer(httpServer, socketConfig);
 
-  // Set up Redis adapter for Socket.IO clustering
-  if (process.env.NODE_ENV === 'production') {
+  // Set up Redis adapter for Socket.IO clustering, so events reach clients connected to any node
+  if (process.env.NODE_ENV === 'production' || process.env.CLUSTER_ENABLED === 'true') {
     try {
       const redisClient = getRedisClient();
       const pubClient = redisClient.duplicate();
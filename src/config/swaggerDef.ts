@@ -82,6 +82,50 @@ const swaggerDefinition = {
       name: 'WebSocket',
       description: 'Real-time Socket.IO gateway for device events and status updates.',
     },
+    {
+      name: 'Webhooks',
+      description: 'Signed webhook subscriptions with retries and delivery replay.',
+    },
+    {
+      name: 'API Keys',
+      description: 'Scoped, device-restricted API key management.',
+    },
+    {
+      name: 'Scheduled Messages',
+      description: 'List, reschedule and cancel messages queued for a later time or a cron schedule.',
+    },
+    {
+      name: 'Campaigns',
+      description: 'Broadcast campaigns with templated messages and per-recipient delivery tracking.',
+    },
+    {
+      name: 'Auto-reply Rules',
+      description: 'Declarative auto-responders that reply, forward, tag or call a webhook on inbound messages.',
+    },
+    {
+      name: 'AI Agent',
+      description: 'AI answers to inbound messages, sent automatically or held as drafts for approval.',
+    },
+    {
+      name: 'Digests',
+      description: 'Scheduled AI summaries of chosen chats, delivered to a chat or webhook.',
+    },
+    {
+      name: 'Device Pools',
+      description: 'Groups of devices that share sends, with sticky routing per recipient and failover.',
+    },
+    {
+      name: 'Translation',
+      description: 'Per-chat translation of inbound and outbound messages, with a glossary for product names.',
+    },
+    {
+      name: 'Recipient Policy',
+      description: 'Per-recipient limits and quiet hours that the message queue applies before sending.',
+    },
+    {
+      name: 'Reconnection',
+      description: 'Automatic restarts of disconnected, failed or hung WhatsApp clients with exponential backoff.',
+    },
   ],
   components: {
     schemas: joiToSwagger(schemas as Schemas).swagger,
@@ -1,5 +1,184 @@
 import Joi from 'joi';
 import { Request, Response, NextFunction } from 'express';
+import { GRANTABLE_API_KEY_SCOPES } from '../services/ApiKeyService';
+import { CAMPAIGN_RECIPIENT_STATUSES } from '../services/CampaignService';
+import { isValidCronExpression } from '../utils/cron';
+
+// Future ISO timestamp, or a cron expression for recurring messages
+const sendAtSchema = Joi.alternatives()
+  .try(
+    Joi.date().iso().greater('now'),
+    Joi.string().trim().custom((value, helpers) => (isValidCronExpression(value) ? value : helpers.error('any.invalid')))
+  )
+  .messages({
+    'alternatives.match': '"sendAt" must be a future ISO 8601 timestamp or a valid 5-field cron expression',
+  });
+
+const timeOfDaySchema = Joi.string().pattern(/^([01]\d|2[0-3]):[0-5]\d$/).messages({
+  'string.pattern.base': '{{#label}} must be a time in HH:mm format',
+});
+
+// Auto-reply rule conditions; every condition that is set must match
+const timezoneSchema = Joi.string().custom((value, helpers) => {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: value });
+    return value;
+  } catch {
+    return helpers.message({ custom: '{{#label}} must be an IANA timezone such as Europe/Berlin' });
+  }
+});
+
+const autoReplyConditionsSchema = Joi.object({
+  senders: Joi.array().items(Joi.string().min(1)).max(500),
+  chats: Joi.array().items(Joi.string().min(1)).max(500),
+  chatType: Joi.string().valid('private', 'group'),
+  keywords: Joi.array().items(Joi.string().min(1).max(200)).max(100),
+  pattern: Joi.string().max(500).custom((value, helpers) => {
+    try {
+      new RegExp(value, 'i');
+      return value;
+    } catch {
+      return helpers.message({ custom: '"pattern" must be a valid regular expression' });
+    }
+  }),
+  messageTypes: Joi.array().items(Joi.string()).min(1),
+  businessHours: Joi.object({
+    timezone: timezoneSchema.required(),
+    days: Joi.array().items(Joi.number().integer().min(0).max(6)).min(1).unique().default([1, 2, 3, 4, 5]),
+    start: timeOfDaySchema.required(),
+    end: timeOfDaySchema.required(),
+    when: Joi.string().valid('open', 'closed').default('open'),
+  }),
+});
+
+const autoReplyActionSchema = Joi.object({
+  type: Joi.string().valid('reply', 'forward', 'tag', 'webhook').required(),
+  template: Joi.string().min(1).max(4096).when('type', { is: 'reply', then: Joi.required() }),
+  quote: Joi.boolean().when('type', { is: 'reply', then: Joi.optional(), otherwise: Joi.forbidden() }),
+  to: Joi.string().when('type', { is: 'forward', then: Joi.required(), otherwise: Joi.forbidden() }),
+  tag: Joi.string().min(1).max(100).when('type', { is: 'tag', then: Joi.required(), otherwise: Joi.forbidden() }),
+  url: Joi.string().uri({ scheme: ['http', 'https'] }).when('type', { is: 'webhook', then: Joi.required(), otherwise: Joi.forbidden() }),
+  secret: Joi.string().min(16).max(256).when('type', { is: 'webhook', then: Joi.optional(), otherwise: Joi.forbidden() }),
+});
+
+const autoReplyRuleFields = {
+  name: Joi.string().min(1).max(200),
+  enabled: Joi.boolean(),
+  priority: Joi.number().integer().min(0).max(10000),
+  stopOnMatch: Joi.boolean(),
+  cooldownSeconds: Joi.number().integer().min(0).max(30 * 24 * 3600),
+  conditions: autoReplyConditionsSchema,
+  actions: Joi.array().items(autoReplyActionSchema).min(1).max(10),
+};
+
+const createAutoReplyRuleSchema = Joi.object({
+  ...autoReplyRuleFields,
+  name: autoReplyRuleFields.name.required(),
+  conditions: autoReplyConditionsSchema.default({}),
+  actions: autoReplyRuleFields.actions.required(),
+});
+
+// Names of AI providers, including ones registered at runtime
+const aiProviderNameSchema = Joi.string().pattern(/^[a-z0-9][a-z0-9_-]{0,49}$/).messages({
+  'string.pattern.base': '{{#label}} must be lowercase letters, digits, "-" or "_" (max 50 characters)',
+});
+
+// ISO 639-1 code, optionally with a region or script, e.g. "es", "pt-BR", "zh-Hant"
+const languageCodeSchema = Joi.string().pattern(/^[a-z]{2,3}(-[A-Za-z0-9]{2,8})?$/).messages({
+  'string.pattern.base': '{{#label}} must be a language code such as "es" or "pt-BR"',
+});
+
+const usageDateSchema = Joi.string().pattern(/^\d{4}-\d{2}-\d{2}$/).messages({
+  'string.pattern.base': '{{#label}} must be a date in YYYY-MM-DD format',
+});
+
+const aiProviderFields = {
+  baseUrl: Joi.string().uri({ scheme: ['http', 'https'] }),
+  apiKey: Joi.string().max(500).allow(''),
+  model: Joi.string().min(1).max(200),
+  maxTokens: Joi.number().integer().min(1).max(200000),
+  temperature: Joi.number().min(0).max(2),
+  timeout: Joi.number().integer().min(1000).max(600000),
+  headers: Joi.object().pattern(Joi.string().max(100), Joi.string().max(1000)).max(20),
+  streamUsage: Joi.boolean(),
+  fallback: Joi.array().items(aiProviderNameSchema).max(10).unique(),
+};
+
+const digestScheduleFields = {
+  name: Joi.string().min(1).max(100),
+  chatIds: Joi.array().items(Joi.string().min(1).max(100)).min(1).max(50).unique(),
+  cron: Joi.string().trim().custom((value, helpers) => (isValidCronExpression(value) ? value : helpers.error('any.invalid'))).messages({
+    'any.invalid': '"cron" must be a valid 5-field cron expression',
+  }),
+  periodHours: Joi.number().integer().min(1).max(168),
+  messageLimit: Joi.number().integer().min(1).max(1000),
+  prompt: Joi.string().max(2000).allow(''),
+  includeMetadata: Joi.boolean(),
+  provider: aiProviderNameSchema,
+  model: Joi.string().max(200),
+  targetChatId: Joi.string().min(1).max(100).allow(null),
+  webhookUrl: Joi.string().uri({ scheme: ['http', 'https'] }).allow(null),
+  webhookSecret: Joi.string().min(16).max(256).allow(null),
+  skipEmpty: Joi.boolean(),
+  enabled: Joi.boolean(),
+};
+
+const devicePoolFields = {
+  name: Joi.string().min(1).max(100),
+  deviceIds: Joi.array().items(Joi.string().min(1).max(100)).min(1).max(50).unique(),
+  sticky: Joi.boolean(),
+};
+
+const recipientPolicyFields = {
+  enabled: Joi.boolean(),
+  action: Joi.string().valid('defer', 'reject'),
+  neverRepliedLimit: Joi.number().integer().min(1).max(100),
+  newConversationsPerDay: Joi.number().integer().min(0).max(10000),
+  unansweredLimit: Joi.number().integer().min(1).max(100),
+  unansweredCooldownMinutes: Joi.number().integer().min(1).max(30 * 24 * 60),
+  quietHours: Joi.object({
+    start: timeOfDaySchema.required(),
+    end: timeOfDaySchema.required(),
+  }),
+  timezone: timezoneSchema,
+};
+
+const deadLetterFilterFields = {
+  ids: Joi.array().items(Joi.string().pattern(/^dlq_[a-f0-9]{16}$/)).min(1).max(1000).unique(),
+  deviceId: Joi.string().min(1).max(100),
+  before: Joi.date().iso(),
+  all: Joi.boolean().valid(true), // Required to act on every dead letter
+};
+
+const aiAgentFields = {
+  enabled: Joi.boolean(),
+  mode: Joi.string().valid('auto', 'draft'),
+  systemPrompt: Joi.string().min(1).max(8000),
+  knowledge: Joi.string().allow('').max(20000),
+  contextMessages: Joi.number().integer().min(1).max(50),
+  provider: aiProviderNameSchema,
+  model: Joi.string().max(200),
+  maxTokens: Joi.number().integer().min(1).max(4000),
+  temperature: Joi.number().min(0).max(2),
+  includeGroups: Joi.boolean(),
+  handoffKeyword: Joi.string().min(1).max(50),
+  handoffMessage: Joi.string().min(1).max(4096),
+  dailyTokenLimit: Joi.number().integer().min(0),
+  dailyCostLimit: Joi.number().min(0),
+  pricing: Joi.object({
+    promptPer1k: Joi.number().min(0).required(),
+    completionPer1k: Joi.number().min(0).required(),
+  }),
+};
+
+const deviceLabelSchema = Joi.string().trim().min(1).max(50);
+const deviceMetadataKeySchema = Joi.string().min(1).max(50);
+
+const deviceProfileFields = {
+  name: Joi.string().trim().min(1).max(100),
+  labels: Joi.array().items(deviceLabelSchema).max(20),
+  owner: Joi.string().trim().min(1).max(100),
+};
 
 // Common validation schemas
 export const schemas = {
@@ -46,6 +225,30 @@ export const schemas = {
     id: Joi.string().required(),
   }),
 
+  createDevice: Joi.object({
+    ...deviceProfileFields,
+    metadata: Joi.object().pattern(deviceMetadataKeySchema, Joi.string().max(500)).max(20),
+  }),
+
+  updateDevice: Joi.object({
+    name: deviceProfileFields.name.allow(null),
+    labels: deviceProfileFields.labels,
+    // Merged into the existing metadata; null removes a key
+    metadata: Joi.object().pattern(deviceMetadataKeySchema, Joi.string().max(500).allow(null)).max(20),
+    owner: deviceProfileFields.owner.allow(null),
+  }).min(1),
+
+  listDevices: Joi.object({
+    status: Joi.string().valid('initializing', 'qr', 'ready', 'disconnected', 'error'),
+    label: Joi.array().items(deviceLabelSchema).single(), // Repeat for devices with all of the labels
+    owner: Joi.string().trim().min(1).max(100),
+  }),
+
+  pairDevice: Joi.object({
+    // International format; spaces, dashes, brackets and a leading + are dropped
+    phoneNumber: Joi.string().replace(/[\s()+.-]/g, '').pattern(/^\d{7,15}$/).required(),
+  }),
+
   // Group Schemas
   groupId: Joi.object({
     groupId: Joi.string().required(),
@@ -55,6 +258,30 @@ export const schemas = {
     inviteCode: Joi.string().optional(),
     inviteLink: Joi.string().optional().uri(),
   }).xor('inviteCode', 'inviteLink'),
+
+  groupParticipants: Joi.object({
+    participants: Joi.array().items(Joi.string().trim().min(1)).min(1).max(256).unique().required(),
+  }),
+
+  addGroupParticipants: Joi.object({
+    participants: Joi.array().items(Joi.string().trim().min(1)).min(1).max(256).unique().required(),
+    autoSendInvite: Joi.boolean().default(true),
+    inviteComment: Joi.string().max(1024).allow('').default(''),
+  }),
+
+  groupSubject: Joi.object({
+    subject: Joi.string().trim().required().min(1).max(100),
+  }),
+
+  groupDescription: Joi.object({
+    description: Joi.string().required().allow('').max(2048),
+  }),
+
+  groupSettings: Joi.object({
+    announce: Joi.boolean().optional(),
+    editInfoAdminsOnly: Joi.boolean().optional(),
+  }).or('announce', 'editInfoAdminsOnly'),
+
   // Message Schemas
   sendMessage: Joi.object({
     to: Joi.string().required().min(10).max(15).pattern(/^\d+$/),
@@ -126,11 +353,27 @@ export const schemas = {
     messageLimit: Joi.number().integer().min(1).max(1000).default(100),
     analysisType: Joi.string().valid('comprehensive', 'sentiment', 'summary', 'issues', 'custom').default('comprehensive'),
     includeMetadata: Joi.boolean().default(true),
-    provider: Joi.string().valid('openai', 'openrouter', 'xai', 'custom').optional(),
+    provider: aiProviderNameSchema.optional(),
     model: Joi.string().optional(),
     customQuery: Joi.string().min(10).max(1000).optional(),
   }),
 
+  transcribeMessage: Joi.object({
+    force: Joi.boolean().default(false), // Transcribe again even when a transcript is stored
+  }),
+
+  extractChatData: Joi.object({
+    schema: Joi.object().unknown(true).required(), // JSON Schema, checked by the controller
+    instructions: Joi.string().max(2000).optional(),
+    messageLimit: Joi.number().integer().min(1).max(5000).default(100),
+    since: Joi.date().iso().optional(),
+    until: Joi.date().iso().when('since', { is: Joi.exist(), then: Joi.date().min(Joi.ref('since')) }).optional(),
+    includeMetadata: Joi.boolean().default(false),
+    chunked: Joi.boolean().default(false),
+    provider: aiProviderNameSchema.optional(),
+    model: Joi.string().optional(),
+  }),
+
   searchChats: Joi.object({
     q: Joi.string().required().min(1).max(100),
     limit: Joi.number().integer().min(1).max(50).default(10),
@@ -151,9 +394,131 @@ export const schemas = {
       description: Joi.string().optional()
     }).optional(),
     quotedMessageId: Joi.string().optional(),
-    mentions: Joi.array().items(Joi.string()).optional()
+    mentions: Joi.array().items(Joi.string()).optional(),
+    sendAt: sendAtSchema.optional(),
+    translateTo: Joi.alternatives().try(Joi.string().valid('auto'), languageCodeSchema).optional()
   }).or('text', 'media', 'location'),
 
+  scheduledMessageId: Joi.object({
+    id: Joi.string().optional(), // Device ID from parent route
+    queueId: Joi.string().required().pattern(/^msg_\d+_[a-z0-9]+$/),
+  }),
+
+  rescheduleMessage: Joi.object({
+    sendAt: sendAtSchema.required(),
+  }),
+
+  searchMessages: Joi.object({
+    query: Joi.string().min(1).max(500).optional(),
+    chatId: Joi.string().optional(),
+    sender: Joi.string().optional(),
+    from: Joi.date().iso().optional(),
+    to: Joi.date().iso().optional(),
+    hasMedia: Joi.boolean().optional(),
+    type: Joi.string().optional(),
+    fromMe: Joi.boolean().optional(),
+    limit: Joi.number().integer().min(1).max(100).default(50),
+    cursor: Joi.string().max(500).optional(),
+  }),
+
+  // Delivery status timeline, by WhatsApp message ID or queue ID
+  messageStatusTimeline: Joi.object({
+    id: Joi.string().optional(), // Device ID from parent route
+    messageId: Joi.string().required().max(200),
+  }),
+
+  // Campaign Schemas
+  createCampaign: Joi.object({
+    name: Joi.string().required().min(1).max(200),
+    text: Joi.string().min(1).max(4096).when('media', { is: Joi.exist(), then: Joi.optional(), otherwise: Joi.required() }),
+    media: Joi.object({
+      mimetype: Joi.string().required(),
+      data: Joi.string().required(),
+      filename: Joi.string().optional()
+    }).optional(),
+    recipients: Joi.array().items(Joi.object({
+      to: Joi.string().required(),
+      variables: Joi.object().pattern(Joi.string(), Joi.alternatives().try(Joi.string().allow(''), Joi.number())).optional()
+    })).min(1),
+    csv: Joi.string().min(1),
+    paused: Joi.boolean().default(false),
+  }).xor('recipients', 'csv'),
+
+  campaignId: Joi.object({
+    id: Joi.string().optional(), // Device ID from parent route
+    campaignId: Joi.string().required().pattern(/^cmp_[a-f0-9]{16}$/),
+  }),
+
+  campaignRecipients: Joi.object({
+    status: Joi.string().valid(...CAMPAIGN_RECIPIENT_STATUSES).optional(),
+    limit: Joi.number().integer().min(1).max(1000).default(100),
+    offset: Joi.number().integer().min(0).default(0),
+  }),
+
+  // Auto-reply Rule Schemas
+  createAutoReplyRule: createAutoReplyRuleSchema,
+
+  updateAutoReplyRule: Joi.object(autoReplyRuleFields).min(1),
+
+  autoReplyRuleId: Joi.object({
+    id: Joi.string().optional(), // Device ID from parent route
+    ruleId: Joi.string().required().pattern(/^rule_[a-f0-9]{16}$/),
+  }),
+
+  testAutoReplyRules: Joi.object({
+    message: Joi.object({
+      from: Joi.string().required(),
+      chatId: Joi.string().optional(),
+      name: Joi.string().optional(),
+      body: Joi.string().allow('').default(''),
+      type: Joi.string().default('chat'),
+    }).required(),
+    at: Joi.date().iso().optional(),
+    ruleId: Joi.string().pattern(/^rule_[a-f0-9]{16}$/).optional(),
+    rule: createAutoReplyRuleSchema.optional(),
+  }).oxor('ruleId', 'rule'),
+
+  chatTags: Joi.object({
+    tag: Joi.string().max(100).optional(),
+  }),
+
+  chatTag: Joi.object({
+    id: Joi.string().optional(), // Device ID from parent route
+    chatId: Joi.string().required(),
+    tag: Joi.string().required().max(100),
+  }),
+
+  // AI Agent Schemas
+  setAIAgentConfig: Joi.object({
+    ...aiAgentFields,
+    systemPrompt: aiAgentFields.systemPrompt.required(),
+  }),
+
+  updateAIAgentConfig: Joi.object(aiAgentFields).min(1),
+
+  aiAgentChat: Joi.object({
+    id: Joi.string().optional(), // Device ID from parent route
+    chatId: Joi.string().required(),
+  }),
+
+  updateAIAgentChat: Joi.object({
+    enabled: Joi.boolean().allow(null),
+    handedOff: Joi.boolean(),
+  }).min(1),
+
+  aiAgentDrafts: Joi.object({
+    chatId: Joi.string().optional(),
+  }),
+
+  aiAgentDraftId: Joi.object({
+    id: Joi.string().optional(), // Device ID from parent route
+    draftId: Joi.string().required().pattern(/^draft_[a-f0-9]{16}$/),
+  }),
+
+  approveAIAgentDraft: Joi.object({
+    text: Joi.string().min(1).max(4096).optional(),
+  }),
+
   forwardUnifiedMessage: Joi.object({
     messageId: Joi.string().required(),
     to: Joi.string().required(),
@@ -192,6 +557,220 @@ export const schemas = {
     mentionAll: Joi.boolean().default(false)
   }),
 
+  // AI Provider Schemas
+  createAIProvider: Joi.object({
+    name: aiProviderNameSchema.required(),
+    ...aiProviderFields,
+    baseUrl: aiProviderFields.baseUrl.required(),
+    model: aiProviderFields.model.required(),
+  }),
+
+  updateAIProvider: Joi.object(aiProviderFields).min(1),
+
+  aiProviderName: Joi.object({
+    provider: aiProviderNameSchema.required(),
+  }),
+
+  // AI Usage Schemas
+  aiUsageReport: Joi.object({
+    from: usageDateSchema.optional(),
+    to: usageDateSchema.optional(),
+    groupBy: Joi.string().valid('apiKey', 'device', 'provider').default('provider'),
+    id: Joi.string().max(200).optional(),
+  }),
+
+  aiBudgetTarget: Joi.object({
+    scope: Joi.string().valid('apiKey', 'device', 'provider').required(),
+    id: Joi.string().required().max(200),
+  }),
+
+  setAIBudget: Joi.object({
+    monthlyTokenLimit: Joi.number().integer().min(1),
+    monthlyCostLimit: Joi.number().positive(),
+    action: Joi.string().valid('block', 'downgrade').default('block'),
+    downgradeProvider: aiProviderNameSchema.when('action', { is: 'downgrade', then: Joi.required(), otherwise: Joi.forbidden() }),
+    downgradeModel: Joi.string().max(200).when('action', { is: 'downgrade', otherwise: Joi.forbidden() }),
+  }).or('monthlyTokenLimit', 'monthlyCostLimit'),
+
+  setAIPrices: Joi.object({
+    prices: Joi.array().items(Joi.object({
+      provider: aiProviderNameSchema.required(),
+      model: Joi.string().max(200),
+      promptPer1k: Joi.number().min(0).required(),
+      completionPer1k: Joi.number().min(0).required(),
+    })).max(1000).unique((a, b) => a.provider === b.provider && a.model === b.model).required(),
+  }),
+
+  // Digest Schemas
+  createDigestSchedule: Joi.object({
+    ...digestScheduleFields,
+    name: digestScheduleFields.name.required(),
+    chatIds: digestScheduleFields.chatIds.required(),
+  }),
+
+  updateDigestSchedule: Joi.object(digestScheduleFields).min(1),
+
+  digestScheduleId: Joi.object({
+    id: Joi.string().optional(), // Device ID from parent route
+    scheduleId: Joi.string().required().pattern(/^schedule_[a-f0-9]{16}$/),
+  }),
+
+  digestId: Joi.object({
+    id: Joi.string().optional(), // Device ID from parent route
+    digestId: Joi.string().required().pattern(/^digest_[a-f0-9]{16}$/),
+  }),
+
+  listDigests: Joi.object({
+    scheduleId: Joi.string().pattern(/^schedule_[a-f0-9]{16}$/).optional(),
+    limit: Joi.number().integer().min(1).max(100).default(20),
+  }),
+
+  // Device Pool Schemas
+  createDevicePool: Joi.object({
+    ...devicePoolFields,
+    name: devicePoolFields.name.required(),
+    deviceIds: devicePoolFields.deviceIds.required(),
+  }),
+
+  updateDevicePool: Joi.object(devicePoolFields).min(1),
+
+  devicePoolId: Joi.object({
+    poolId: Joi.string().required().pattern(/^pool_[a-f0-9]{16}$/),
+  }),
+
+  // Dead Letter Schemas
+  listDeadLetters: Joi.object({
+    deviceId: deadLetterFilterFields.deviceId,
+    before: deadLetterFilterFields.before,
+    limit: Joi.number().integer().min(1).max(1000).default(100),
+    offset: Joi.number().integer().min(0).default(0),
+  }),
+
+  deadLetterId: Joi.object({
+    deadLetterId: Joi.string().required().pattern(/^dlq_[a-f0-9]{16}$/),
+  }),
+
+  retryDeadLetter: Joi.object({
+    targetDeviceId: Joi.string().min(1).max(100),
+  }),
+
+  retryDeadLetters: Joi.object({
+    ...deadLetterFilterFields,
+    targetDeviceId: Joi.string().min(1).max(100),
+  }).or('ids', 'deviceId', 'before', 'all'),
+
+  purgeDeadLetters: Joi.object(deadLetterFilterFields).or('ids', 'deviceId', 'before', 'all'),
+
+  // Recipient Policy Schemas
+  setRecipientPolicy: Joi.object(recipientPolicyFields).and('unansweredLimit', 'unansweredCooldownMinutes'),
+
+  // null removes a rule
+  updateRecipientPolicy: Joi.object({
+    ...recipientPolicyFields,
+    neverRepliedLimit: recipientPolicyFields.neverRepliedLimit.allow(null),
+    newConversationsPerDay: recipientPolicyFields.newConversationsPerDay.allow(null),
+    unansweredLimit: recipientPolicyFields.unansweredLimit.allow(null),
+    unansweredCooldownMinutes: recipientPolicyFields.unansweredCooldownMinutes.allow(null),
+    quietHours: recipientPolicyFields.quietHours.allow(null),
+  }).min(1),
+
+  policyRecipient: Joi.object({
+    id: Joi.string().optional(), // Device ID from parent route
+    chatId: Joi.string().required(),
+  }),
+
+  updatePolicyRecipient: Joi.object({
+    timezone: timezoneSchema.allow(null).required(),
+  }),
+
+  // Reconnect Policy Schemas
+  setReconnectPolicy: Joi.object({
+    enabled: Joi.boolean(),
+    maxAttempts: Joi.number().integer().min(0).max(1000),
+    initialDelay: Joi.number().integer().min(1000).max(60 * 60 * 1000),
+    maxDelay: Joi.number().integer().min(1000).max(24 * 60 * 60 * 1000),
+    multiplier: Joi.number().min(1).max(10),
+    hangTimeout: Joi.alternatives().try(Joi.number().valid(0), Joi.number().integer().min(60000).max(24 * 60 * 60 * 1000)), // 0 never restarts hung clients
+    reconnectOnLogout: Joi.boolean(),
+  }),
+
+  // Translation Schemas
+  translationChat: Joi.object({
+    id: Joi.string().optional(), // Device ID from parent route
+    chatId: Joi.string().required(),
+  }),
+
+  updateTranslationChat: Joi.object({
+    enabled: Joi.boolean(),
+    language: languageCodeSchema,
+    customerLanguage: languageCodeSchema.allow(null),
+    provider: aiProviderNameSchema,
+    model: Joi.string().max(200),
+  }).min(1),
+
+  setTranslationGlossary: Joi.object({
+    entries: Joi.array().items(Joi.object({
+      term: Joi.string().trim().min(1).max(100).required(),
+      translations: Joi.object().pattern(languageCodeSchema, Joi.string().trim().min(1).max(100)).max(20).optional(),
+    })).max(200).unique('term').required(),
+  }),
+
+  // Webhook Schemas
+  createWebhook: Joi.object({
+    url: Joi.string().required().uri({ scheme: ['http', 'https'] }),
+    events: Joi.array().items(Joi.string().valid('message', 'message_ack', 'device_state', 'group_update', 'message_transcribed')).min(1).unique().required(),
+    secret: Joi.string().optional().min(16).max(256),
+    deviceIds: Joi.array().items(Joi.string()).optional(),
+    description: Joi.string().optional().max(255),
+    active: Joi.boolean().default(true),
+  }),
+
+  updateWebhook: Joi.object({
+    url: Joi.string().optional().uri({ scheme: ['http', 'https'] }),
+    events: Joi.array().items(Joi.string().valid('message', 'message_ack', 'device_state', 'group_update', 'message_transcribed')).min(1).unique().optional(),
+    secret: Joi.string().optional().min(16).max(256),
+    deviceIds: Joi.array().items(Joi.string()).optional(),
+    description: Joi.string().optional().max(255).allow(''),
+    active: Joi.boolean().optional(),
+  }).min(1),
+
+  webhookId: Joi.object({
+    webhookId: Joi.string().required(),
+  }),
+
+  webhookDeliveryId: Joi.object({
+    webhookId: Joi.string().required(),
+    deliveryId: Joi.string().required(),
+  }),
+
+  webhookDeliveries: Joi.object({
+    limit: Joi.number().integer().min(1).max(200).default(50),
+    status: Joi.string().valid('pending', 'delivered', 'failed').optional(),
+  }),
+
+  // API Key Schemas
+  createApiKey: Joi.object({
+    label: Joi.string().required().min(1).max(100),
+    scopes: Joi.array().items(Joi.string().valid(...GRANTABLE_API_KEY_SCOPES)).min(1).unique().required(),
+    deviceIds: Joi.array().items(Joi.string()).optional(),
+    expiresAt: Joi.date().greater('now').optional(),
+  }),
+
+  updateApiKey: Joi.object({
+    label: Joi.string().optional().min(1).max(100),
+    scopes: Joi.array().items(Joi.string().valid(...GRANTABLE_API_KEY_SCOPES)).min(1).unique().optional(),
+    deviceIds: Joi.array().items(Joi.string()).optional(),
+    expiresAt: Joi.date().greater('now').optional().allow(null),
+  }).min(1),
+
+  rotateApiKey: Joi.object({
+    gracePeriodSeconds: Joi.number().integer().min(0).max(604800).default(0), // Up to 7 days
+  }),
+
+  apiKeyId: Joi.object({
+    keyId: Joi.string().required().pattern(/^[a-f0-9]{16}$/),
+  }),
+
   // Example request schemas
   exampleMessage: Joi.object({
     message: Joi.string().required().min(1).max(500),
@@ -0,0 +1,280 @@
+import { Request, Response } from 'express';
+import { DeviceManager, AIService, AIAgentService } from '../services';
+import { logError } from '../config/logger';
+
+const deviceManager = DeviceManager.getInstance();
+const aiAgentService = AIAgentService.getInstance();
+
+const sendNotConfigured = (res: Response): void => {
+  res.status(404).json({
+    success: false,
+    error: 'AI agent is not configured for this device',
+  });
+};
+
+const formatChatId = (id: string): string => (id.includes('@') ? id : `${id.replace(/\D/g, '')}@c.us`);
+
+/**
+ * Reject providers that have no API key, since the agent would only fail once messages arrive
+ */
+const checkProvider = (provider: string | undefined, res: Response): boolean => {
+  if (!provider || AIService.getInstance().getAvailableProviders().includes(provider)) {
+    return true;
+  }
+
+  res.status(400).json({
+    success: false,
+    error: `AI provider '${provider}' is not configured`,
+    available: AIService.getInstance().getAvailableProviders(),
+  });
+  return false;
+};
+
+/**
+ * GET /api/v1/devices/:id/ai-agent
+ * Get the agent configuration with today's usage
+ */
+export const getConfig = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const config = await aiAgentService.getAgentConfig(req.params.id);
+
+    if (!config) {
+      sendNotConfigured(res);
+      return;
+    }
+
+    res.json({
+      success: true,
+      data: {
+        ...config,
+        usage: await aiAgentService.getUsage(req.params.id),
+      },
+    });
+  } catch (error: any) {
+    logError(`Error getting AI agent configuration for device ${req.params.id}:`, error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to get AI agent configuration',
+      details: process.env.NODE_ENV === 'development' ? error.message : undefined,
+    });
+  }
+};
+
+/**
+ * PUT /api/v1/devices/:id/ai-agent
+ * Create or replace the agent configuration
+ */
+export const setConfig = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { id } = req.params;
+
+    if (!deviceManager.getDevice(id)) {
+      res.status(404).json({ success: false, error: 'Device not found' });
+      return;
+    }
+    if (!checkProvider(req.body.provider, res)) return;
+
+    const config = await aiAgentService.setAgentConfig(id, req.body);
+
+    res.json({
+      success: true,
+      message: 'AI agent configured successfully',
+      data: config,
+    });
+  } catch (error: any) {
+    logError(`Error configuring AI agent for device ${req.params.id}:`, error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to configure AI agent',
+      details: process.env.NODE_ENV === 'development' ? error.message : undefined,
+    });
+  }
+};
+
+/**
+ * PATCH /api/v1/devices/:id/ai-agent
+ * Update some settings of an existing configuration
+ */
+export const updateConfig = async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!checkProvider(req.body.provider, res)) return;
+
+    const config = await aiAgentService.updateAgentConfig(req.params.id, req.body);
+
+    if (!config) {
+      sendNotConfigured(res);
+      return;
+    }
+
+    res.json({
+      success: true,
+      message: 'AI agent updated successfully',
+      data: config,
+    });
+  } catch (error: any) {
+    logError(`Error updating AI agent for device ${req.params.id}:`, error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to update AI agent',
+      details: process.env.NODE_ENV === 'development' ? error.message : undefined,
+    });
+  }
+};
+
+/**
+ * DELETE /api/v1/devices/:id/ai-agent
+ * Remove the configuration, chat settings and pending drafts
+ */
+export const deleteConfig = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const deleted = await aiAgentService.deleteAgentConfig(req.params.id);
+
+    if (!deleted) {
+      sendNotConfigured(res);
+      return;
+    }
+
+    res.json({
+      success: true,
+      message: 'AI agent removed successfully',
+    });
+  } catch (error: any) {
+    logError(`Error removing AI agent for device ${req.params.id}:`, error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to remove AI agent',
+      details: process.env.NODE_ENV === 'development' ? error.message : undefined,
+    });
+  }
+};
+
+/**
+ * GET /api/v1/devices/:id/ai-agent/chats
+ * List chats with their own agent setting or that were handed off
+ */
+export const listChats = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const chats = await aiAgentService.listChats(req.params.id);
+
+    res.json({
+      success: true,
+      data: chats,
+    });
+  } catch (error: any) {
+    logError(`Error listing AI agent chats for device ${req.params.id}:`, error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to list AI agent chats',
+      details: process.env.NODE_ENV === 'development' ? error.message : undefined,
+    });
+  }
+};
+
+/**
+ * PATCH /api/v1/devices/:id/ai-agent/chats/:chatId
+ * Switch the agent on or off for a chat, or resume it after a handoff
+ */
+export const updateChat = async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!(await aiAgentService.getAgentConfig(req.params.id))) {
+      sendNotConfigured(res);
+      return;
+    }
+
+    const chat = await aiAgentService.updateChat(req.params.id, formatChatId(req.params.chatId), req.body);
+
+    res.json({
+      success: true,
+      message: 'Chat updated successfully',
+      data: chat,
+    });
+  } catch (error: any) {
+    logError(`Error updating AI agent chat for device ${req.params.id}:`, error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to update chat',
+      details: process.env.NODE_ENV === 'development' ? error.message : undefined,
+    });
+  }
+};
+
+/**
+ * GET /api/v1/devices/:id/ai-agent/drafts
+ * List answers waiting for approval
+ */
+export const listDrafts = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const chatId = req.query.chatId ? formatChatId(req.query.chatId as string) : undefined;
+    const drafts = await aiAgentService.listDrafts(req.params.id, chatId);
+
+    res.json({
+      success: true,
+      data: drafts,
+    });
+  } catch (error: any) {
+    logError(`Error listing AI agent drafts for device ${req.params.id}:`, error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to list drafts',
+      details: process.env.NODE_ENV === 'development' ? error.message : undefined,
+    });
+  }
+};
+
+/**
+ * POST /api/v1/devices/:id/ai-agent/drafts/:draftId/approve
+ * Send a draft, optionally with edited text
+ */
+export const approveDraft = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const result = await aiAgentService.approveDraft(req.params.id, req.params.draftId, req.body.text);
+
+    if (result.status === 'not_found') {
+      res.status(404).json({ success: false, error: 'Draft not found' });
+      return;
+    }
+
+    res.json({
+      success: true,
+      message: 'Draft approved and queued for sending',
+      data: {
+        queueId: result.queueId,
+        draft: result.draft,
+      },
+    });
+  } catch (error: any) {
+    logError(`Error approving AI agent draft ${req.params.draftId}:`, error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to approve draft',
+      details: process.env.NODE_ENV === 'development' ? error.message : undefined,
+    });
+  }
+};
+
+/**
+ * DELETE /api/v1/devices/:id/ai-agent/drafts/:draftId
+ * Reject a draft without sending it
+ */
+export const rejectDraft = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const rejected = await aiAgentService.rejectDraft(req.params.id, req.params.draftId);
+
+    if (!rejected) {
+      res.status(404).json({ success: false, error: 'Draft not found' });
+      return;
+    }
+
+    res.json({
+      success: true,
+      message: 'Draft rejected',
+    });
+  } catch (error: any) {
+    logError(`Error rejecting AI agent draft ${req.params.draftId}:`, error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to reject draft',
+      details: process.env.NODE_ENV === 'development' ? error.message : undefined,
+    });
+  }
+};
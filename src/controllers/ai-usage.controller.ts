@@ -0,0 +1,149 @@
+import { Request, Response } from 'express';
+import { AIService, AIUsageService } from '../services';
+import { listUsageDates } from '../services/AIUsageService';
+import { logError } from '../config/logger';
+
+const aiUsageService = AIUsageService.getInstance();
+
+const MAX_REPORT_DAYS = 366;
+
+/**
+ * GET /api/v1/ai/usage
+ * Token usage and estimated cost between two UTC days, grouped by API key, device or provider.
+ * Defaults to the current month.
+ */
+export const getUsageReport = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const today = new Date().toISOString().slice(0, 10);
+    const from = (req.query.from as string) || `${today.slice(0, 7)}-01`;
+    const to = (req.query.to as string) || today;
+
+    if (isNaN(Date.parse(from)) || isNaN(Date.parse(to)) || from > to) {
+      res.status(400).json({ success: false, error: '"from" and "to" must be valid dates, with "from" not after "to"' });
+      return;
+    }
+    if (listUsageDates(from, to).length > MAX_REPORT_DAYS) {
+      res.status(400).json({ success: false, error: `A report can cover at most ${MAX_REPORT_DAYS} days` });
+      return;
+    }
+
+    const report = await aiUsageService.getReport({
+      from,
+      to,
+      groupBy: req.query.groupBy as 'apiKey' | 'device' | 'provider',
+      id: req.query.id as string | undefined,
+    });
+
+    res.json({ success: true, data: report });
+  } catch (error: any) {
+    logError('Error getting AI usage report:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to get AI usage report',
+      details: process.env.NODE_ENV === 'development' ? error.message : undefined,
+    });
+  }
+};
+
+/**
+ * GET /api/v1/ai/budgets
+ * All budgets with this month's usage
+ */
+export const listBudgets = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const budgets = await aiUsageService.listBudgets();
+    res.json({ success: true, data: budgets });
+  } catch (error: any) {
+    logError('Error listing AI budgets:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to list AI budgets',
+      details: process.env.NODE_ENV === 'development' ? error.message : undefined,
+    });
+  }
+};
+
+/**
+ * PUT /api/v1/ai/budgets/:scope/:id
+ * Create or replace the monthly budget of an API key, device or provider
+ */
+export const setBudget = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { downgradeProvider } = req.body;
+    if (downgradeProvider && !AIService.getInstance().getAvailableProviders().includes(downgradeProvider)) {
+      res.status(400).json({
+        success: false,
+        error: `AI provider '${downgradeProvider}' is not configured`,
+        available: AIService.getInstance().getAvailableProviders(),
+      });
+      return;
+    }
+
+    const budget = await aiUsageService.setBudget(req.params.scope as 'apiKey' | 'device' | 'provider', req.params.id, req.body);
+    res.json({ success: true, message: 'AI budget saved', data: budget });
+  } catch (error: any) {
+    logError(`Error setting AI budget for ${req.params.scope} ${req.params.id}:`, error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to set AI budget',
+      details: process.env.NODE_ENV === 'development' ? error.message : undefined,
+    });
+  }
+};
+
+/**
+ * DELETE /api/v1/ai/budgets/:scope/:id
+ */
+export const deleteBudget = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const deleted = await aiUsageService.deleteBudget(req.params.scope as 'apiKey' | 'device' | 'provider', req.params.id);
+
+    if (!deleted) {
+      res.status(404).json({ success: false, error: 'AI budget not found' });
+      return;
+    }
+
+    res.json({ success: true, message: 'AI budget deleted' });
+  } catch (error: any) {
+    logError(`Error deleting AI budget for ${req.params.scope} ${req.params.id}:`, error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to delete AI budget',
+      details: process.env.NODE_ENV === 'development' ? error.message : undefined,
+    });
+  }
+};
+
+/**
+ * GET /api/v1/ai/prices
+ */
+export const getPrices = async (req: Request, res: Response): Promise<void> => {
+  try {
+    res.json({ success: true, data: await aiUsageService.getPrices() });
+  } catch (error: any) {
+    logError('Error getting AI prices:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to get AI prices',
+      details: process.env.NODE_ENV === 'development' ? error.message : undefined,
+    });
+  }
+};
+
+/**
+ * PUT /api/v1/ai/prices
+ * Replace the price table used to estimate cost
+ */
+export const setPrices = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const prices = await aiUsageService.setPrices(req.body.prices);
+    res.json({ success: true, message: 'AI prices saved', data: prices });
+  } catch (error: any) {
+    logError('Error setting AI prices:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to set AI prices',
+      details: process.env.NODE_ENV === 'development' ? error.message : undefined,
+    });
+  }
+};
@@ -1,120 +1,24 @@
 import { Request, Response } from 'express';
-import { DeviceManager } from '../services/DeviceManager';
-import { AIService, AIMessage } from '../services/AIService';
+import { Chat, Message } from 'whatsapp-web.js';
+import { DeviceManager, Device } from '../services/DeviceManager';
+import { AIService, AIMessage, AIStreamChunk } from '../services/AIService';
+import { AIBudgetExceededError } from '../services/AIUsageService';
+import { ExtractionService } from '../services/ExtractionService';
+import { TranscriptionService } from '../services/TranscriptionService';
 import { logger } from '../config';
+import { buildAnalysisMessages } from '../utils/chatAnalysis';
+import { checkJsonSchema } from '../utils/jsonSchema';
+import { AIStreamEvent } from '../types/socket.types';
 
-const formatMessagesForAI = (messages: any[], includeMetadata: boolean) => {
-  return messages.map(msg => {
-    const from = msg.fromMe ? 'Me' : msg.from.split('@')[0];
-    let content = `${from}: ${msg.body}`;
-    if (includeMetadata) {
-      content += ` (timestamp: ${new Date(msg.timestamp * 1000).toISOString()}`;
-      if (msg.isForwarded) content += ', forwarded';
-      if (msg.hasQuotedMsg) content += ', replied';
-      content += ')';
-    }
-    return content;
-  }).join('\n');
-};
-
-const getAnalysisPrompt = (analysisType: string, customQuery?: string): string => {
-  const basePrompt = `You are WhatsAppAnalyst, an AI assistant specialized in analyzing WhatsApp conversations. Always respond with a structured JSON format.`;
-  
-  // Handle custom queries
-  if (analysisType === 'custom' && customQuery) {
-    return `${basePrompt} Answer the following specific question about the conversation: "${customQuery}". 
-    Provide your response in JSON format like this:
-    {
-      "query": "${customQuery}",
-      "answer": "your detailed answer here",
-      "supporting_evidence": ["specific examples from the conversation"],
-      "confidence_level": "high/medium/low",
-      "additional_insights": "any other relevant observations"
-    }`;
-  }
-  
-  switch (analysisType) {
-    case 'sentiment':
-      return `${basePrompt} Analyze the sentiment and emotional tone of the conversation. Return JSON with:
-      {
-        "overall_sentiment": "positive/negative/neutral",
-        "sentiment_score": -1 to 1,
-        "sentiment_breakdown": {
-          "positive_messages": number,
-          "negative_messages": number,
-          "neutral_messages": number
-        },
-        "emotional_journey": ["sentiment changes over time"],
-        "key_emotional_triggers": ["list of topics that caused sentiment shifts"]
-      }`;
-    
-    case 'summary':
-      return `${basePrompt} Provide a concise summary of the conversation. Return JSON with:
-      {
-        "main_topics": ["list of main discussion topics"],
-        "conversation_purpose": "what was this conversation about",
-        "key_decisions": ["decisions made or actions agreed upon"],
-        "participants": ["who was involved"],
-        "duration_analysis": "conversation flow and timing"
-      }`;
-    
-    case 'issues':
-      return `${basePrompt} Focus on identifying customer service issues and problems. Return JSON with:
-      {
-        "identified_issues": [{
-          "issue": "description",
-          "severity": "low/medium/high",
-          "resolved": true/false,
-          "resolution_quality": "poor/fair/good/excellent"
-        }],
-        "response_effectiveness": {
-          "avg_response_time": "estimated",
-          "completeness_score": 1-10,
-          "helpfulness_score": 1-10
-        },
-        "missed_opportunities": ["what could have been handled better"]
-      }`;
-    
-    default: // comprehensive
-      return `${basePrompt} Provide a comprehensive analysis of this WhatsApp conversation. Return JSON with:
-      {
-        "conversation_summary": {
-          "main_topics": ["list"],
-          "purpose": "overall purpose",
-          "outcome": "what was achieved"
-        },
-        "sentiment_analysis": {
-          "overall_sentiment": "positive/negative/neutral",
-          "sentiment_score": -1 to 1,
-          "emotional_highlights": ["key emotional moments"]
-        },
-        "communication_quality": {
-          "response_time_assessment": "fast/moderate/slow",
-          "clarity_score": 1-10,
-          "professionalism_score": 1-10
-        },
-        "issues_and_resolutions": {
-          "problems_identified": ["list"],
-          "resolution_success": true/false,
-          "outstanding_issues": ["unresolved items"]
-        },
-        "improvement_suggestions": ["actionable recommendations"],
-        "key_metrics": {
-          "total_messages": number,
-          "participants": number,
-          "conversation_length": "estimated duration"
-        }
-      }`;
-  }
-};
+// Most messages fetched to cover the time window of an extraction
+const MAX_EXTRACTION_MESSAGES = 5000;
 
 export const getProviders = async (req: Request, res: Response): Promise<void> => {
   try {
     const aiService = AIService.getInstance();
-    const providers = aiService.getAvailableProviders();
     const defaultProvider = process.env.AI_PROVIDER || 'openrouter';
     
-    const providerInfo = providers.map(provider => aiService.getProviderInfo(provider));
+    const providerInfo = await aiService.listProviders();
     
     res.json({ 
       success: true, 
@@ -129,6 +33,126 @@ export const getProviders = async (req: Request, res: Response): Promise<void> =
   }
 };
 
+/**
+ * GET /api/v1/ai/providers/:provider
+ */
+export const getProvider = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const provider = await AIService.getInstance().getProviderDetails(req.params.provider);
+    if (!provider) {
+      res.status(404).json({ success: false, error: 'AI provider not found' });
+      return;
+    }
+
+    res.json({ success: true, data: provider });
+  } catch (error: any) {
+    logger.error('Error getting AI provider:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to get AI provider',
+      details: process.env.NODE_ENV === 'development' ? error.message : undefined
+    });
+  }
+};
+
+/**
+ * POST /api/v1/ai/providers
+ * Register an OpenAI-compatible provider, such as an Ollama or llama.cpp server
+ */
+export const createProvider = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const provider = await AIService.getInstance().createProvider(req.body);
+    if (!provider) {
+      res.status(409).json({ success: false, error: `AI provider '${req.body.name}' already exists` });
+      return;
+    }
+
+    res.status(201).json({ success: true, message: 'AI provider registered', data: provider });
+  } catch (error: any) {
+    logger.error('Error creating AI provider:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to create AI provider',
+      details: process.env.NODE_ENV === 'development' ? error.message : undefined
+    });
+  }
+};
+
+/**
+ * PATCH /api/v1/ai/providers/:provider
+ */
+export const updateProvider = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const result = await AIService.getInstance().updateProvider(req.params.provider, req.body);
+
+    if (result.status === 'not_found') {
+      res.status(404).json({ success: false, error: 'AI provider not found' });
+      return;
+    }
+    if (result.status === 'read_only') {
+      res.status(409).json({ success: false, error: 'AI providers configured through environment variables cannot be changed' });
+      return;
+    }
+
+    res.json({ success: true, message: 'AI provider updated', data: result.provider });
+  } catch (error: any) {
+    logger.error('Error updating AI provider:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to update AI provider',
+      details: process.env.NODE_ENV === 'development' ? error.message : undefined
+    });
+  }
+};
+
+/**
+ * DELETE /api/v1/ai/providers/:provider
+ */
+export const deleteProvider = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const status = await AIService.getInstance().deleteProvider(req.params.provider);
+
+    if (status === 'not_found') {
+      res.status(404).json({ success: false, error: 'AI provider not found' });
+      return;
+    }
+    if (status === 'read_only') {
+      res.status(409).json({ success: false, error: 'AI providers configured through environment variables cannot be deleted' });
+      return;
+    }
+
+    res.json({ success: true, message: 'AI provider deleted' });
+  } catch (error: any) {
+    logger.error('Error deleting AI provider:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to delete AI provider',
+      details: process.env.NODE_ENV === 'development' ? error.message : undefined
+    });
+  }
+};
+
+/**
+ * GET /api/v1/ai/providers/:provider/models
+ * Models the provider serves, from its /models endpoint
+ */
+export const getProviderModels = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const aiService = AIService.getInstance();
+    if (!(await aiService.getProviderDetails(req.params.provider))) {
+      res.status(404).json({ success: false, error: 'AI provider not found' });
+      return;
+    }
+
+    const models = await aiService.listModels(req.params.provider);
+    res.json({ success: true, data: { provider: req.params.provider, models } });
+  } catch (error: any) {
+    logger.error('Error listing AI provider models:', error);
+    // The provider itself failed or could not be reached
+    res.status(502).json({ success: false, error: 'Failed to list models', details: error.message });
+  }
+};
+
 export const testProvider = async (req: Request, res: Response): Promise<void> => {
   try {
     const { provider } = req.params;
@@ -143,62 +167,246 @@ export const testProvider = async (req: Request, res: Response): Promise<void> =
   }
 };
 
+/**
+ * Get the request's device, sending the error response and returning null when it isn't ready
+ */
+const getReadyDevice = (req: Request, res: Response): Device | null => {
+  const deviceManager = DeviceManager.getInstance();
+  const device = deviceManager.getDevice(req.params.id);
+  if (!device) {
+    res.status(404).json({ success: false, error: 'Device not found' });
+    return null;
+  }
+
+  if (device.status !== 'ready') {
+    res.status(400).json({ 
+      success: false, 
+      error: `Device is not ready. Current status: ${device.status}`,
+      currentStatus: device.status
+    });
+    return null;
+  }
+
+  return device;
+};
+
+/**
+ * Check the device and request, then load the chat and build the analysis prompt.
+ * Sends the error response and returns null when the analysis can't run.
+ */
+const prepareAnalysis = async (req: Request, res: Response): Promise<AIMessage[] | null> => {
+  const device = getReadyDevice(req, res);
+  if (!device) return null;
+
+  const { messageLimit, analysisType, includeMetadata, customQuery } = req.body;
+  
+  // Validate custom query requirement
+  if (analysisType === 'custom' && !customQuery) {
+    res.status(400).json({ 
+      success: false, 
+      error: 'customQuery is required when analysisType is "custom"' 
+    });
+    return null;
+  }
+  
+  const chat = await device.client.getChatById(req.params.chatId);
+  const messages = await TranscriptionService.getInstance().addTranscripts(
+    req.params.id,
+    await chat.fetchMessages({ limit: messageLimit })
+  );
+
+  return buildAnalysisMessages(messages, { analysisType, includeMetadata, customQuery });
+};
+
 export const analyzeChat = async (req: Request, res: Response): Promise<void> => {
   try {
-    const deviceManager = DeviceManager.getInstance();
-    const device = deviceManager.getDevice(req.params.id);
-    if (!device) {
-      res.status(404).json({ success: false, error: 'Device not found' });
+    const aiMessages = await prepareAnalysis(req, res);
+    if (!aiMessages) return;
+
+    const response = await AIService.getInstance().generateCompletion({
+      messages: aiMessages,
+      provider: req.body.provider,
+      model: req.body.model,
+      temperature: 0,
+      context: { apiKeyId: req.apiKey?.id, deviceId: req.params.id }
+    });
+
+    res.json({ success: true, data: response });
+
+  } catch (error) {
+    if (error instanceof AIBudgetExceededError) {
+      res.status(429).json({ success: false, error: error.message });
       return;
     }
+    logger.error('Error analyzing chat:', error);
+    res.status(500).json({ success: false, error: 'Failed to analyze chat' });
+  }
+};
 
-    if (device.status !== 'ready') {
-      res.status(400).json({ 
-        success: false, 
-        error: `Device is not ready. Current status: ${device.status}`,
-        currentStatus: device.status
-      });
-      return;
+/**
+ * POST /api/v1/devices/:id/chats/:chatId/analyze/stream
+ * Same as analyzeChat, streamed as Server-Sent Events. Closing the connection cancels the completion.
+ */
+export const analyzeChatStream = async (req: Request, res: Response): Promise<void> => {
+  let aiMessages: AIMessage[] | null;
+  try {
+    aiMessages = await prepareAnalysis(req, res);
+    if (!aiMessages) return;
+  } catch (error) {
+    logger.error('Error analyzing chat:', error);
+    res.status(500).json({ success: false, error: 'Failed to analyze chat' });
+    return;
+  }
+
+  const abortController = new AbortController();
+  res.on('close', () => {
+    if (!res.writableEnded) abortController.abort();
+  });
+
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    'Connection': 'keep-alive',
+    'X-Accel-Buffering': 'no' // Stop nginx from buffering the stream
+  });
+  const send = (event: AIStreamEvent) => res.write(`data: ${JSON.stringify(event)}\n\n`);
+
+  const aiService = AIService.getInstance();
+  const { provider, model } = aiService.getProviderInfo(req.body.provider);
+  send({ type: 'start', provider, model: req.body.model || model });
+
+  let fullResponse = '';
+  let usage: AIStreamChunk['usage'];
+  let finishReason: string | undefined;
+  let answeredBy: { provider?: string; model?: string } = {};
+
+  try {
+    const stream = aiService.streamCompletion({
+      messages: aiMessages,
+      provider: req.body.provider,
+      model: req.body.model,
+      temperature: 0,
+      context: { apiKeyId: req.apiKey?.id, deviceId: req.params.id }
+    }, abortController.signal);
+
+    for await (const chunk of stream) {
+      usage = chunk.usage || usage;
+      finishReason = chunk.finishReason || finishReason;
+      // A fallback provider may have answered instead of the requested one
+      answeredBy = { provider: chunk.provider, model: chunk.model || answeredBy.model };
+      if (chunk.content) {
+        fullResponse += chunk.content;
+        send({ type: 'chunk', content: chunk.content });
+      }
     }
 
-    const { messageLimit, analysisType, includeMetadata, provider, model, customQuery } = req.body;
-    
-    // Validate custom query requirement
-    if (analysisType === 'custom' && !customQuery) {
-      res.status(400).json({ 
-        success: false, 
-        error: 'customQuery is required when analysisType is "custom"' 
-      });
+    send({ type: 'complete', content: fullResponse, finishReason, usage, ...answeredBy });
+  } catch (error: any) {
+    if (abortController.signal.aborted) {
+      logger.info(`Chat analysis stream cancelled by the client for device ${req.params.id}`);
+    } else {
+      logger.error('Error streaming chat analysis:', error);
+      send({ type: 'error', error: error.message || 'Failed to analyze chat' });
+    }
+  } finally {
+    res.end();
+  }
+};
+
+/**
+ * Fetch a chat's last `limit` messages, or with `since` as many more as it takes to reach back to it,
+ * up to MAX_EXTRACTION_MESSAGES. Messages are oldest first.
+ * @returns The messages, and whether older messages of the window were left out
+ */
+const fetchMessagesSince = async (chat: Chat, limit: number, since?: Date): Promise<{ messages: Message[]; truncated: boolean }> => {
+  const reachesSince = (messages: Message[]) => !since || messages.length === 0 || messages[0].timestamp * 1000 < since.getTime();
+
+  let messages = await chat.fetchMessages({ limit });
+  while (messages.length === limit && limit < MAX_EXTRACTION_MESSAGES && !reachesSince(messages)) {
+    limit = Math.min(limit * 4, MAX_EXTRACTION_MESSAGES);
+    messages = await chat.fetchMessages({ limit });
+  }
+
+  // Fewer messages than asked for means the chat has no older ones
+  return { messages, truncated: messages.length === limit && !reachesSince(messages) };
+};
+
+/**
+ * POST /api/v1/devices/:id/chats/:chatId/extract
+ * Extract data matching a JSON Schema from a chat, retrying until the model's answer validates
+ */
+export const extractChatData = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { schema, instructions, messageLimit, since, until, includeMetadata, chunked, provider, model } = req.body;
+
+    const problems = checkJsonSchema(schema);
+    if (problems.length > 0) {
+      res.status(400).json({ success: false, error: 'Unsupported JSON Schema', details: problems });
       return;
     }
-    
-    const chat = await device.client.getChatById(req.params.chatId);
-    const messages = await chat.fetchMessages({ limit: messageLimit });
-    const formattedMessages = formatMessagesForAI(messages, includeMetadata);
 
-    const aiService = AIService.getInstance();
-    const aiMessages: AIMessage[] = [
-      {
-        role: 'system',
-        content: getAnalysisPrompt(analysisType, customQuery)
-      },
-      {
-        role: 'user',
-        content: `Please analyze the following WhatsApp conversation:\n\n${formattedMessages}`
-      }
-    ];
+    const device = getReadyDevice(req, res);
+    if (!device) return;
 
-    const response = await aiService.generateCompletion({
-      messages: aiMessages,
+    const chat = await device.client.getChatById(req.params.chatId);
+    const fetched = await fetchMessagesSince(chat, messageLimit, since);
+    const messages = await TranscriptionService.getInstance().addTranscripts(
+      req.params.id,
+      fetched.messages
+        .filter(message => (!since || message.timestamp * 1000 >= since.getTime()) && (!until || message.timestamp * 1000 <= until.getTime()))
+    );
+
+    const result = await ExtractionService.getInstance().extract(messages, {
+      schema,
+      instructions,
+      includeMetadata,
+      chunked,
       provider,
       model,
-      temperature: 0
+      context: { apiKeyId: req.apiKey?.id, deviceId: req.params.id }
     });
 
-    res.json({ success: true, data: response });
+    if (result.status === 'too_long') {
+      res.status(413).json({
+        success: false,
+        error: chunked
+          ? `The conversation needs ${result.chunkCount} chunks, more than allowed. Use a shorter time window`
+          : 'The conversation is too long for one request. Set "chunked": true or use a shorter time window',
+        chunkCount: result.chunkCount
+      });
+      return;
+    }
+
+    if (result.status === 'invalid') {
+      res.status(422).json({
+        success: false,
+        error: `The model's answer did not match the schema after ${result.attempts} attempts`,
+        details: result.errors,
+        answer: result.answer
+      });
+      return;
+    }
+
+    res.json({
+      success: true,
+      data: {
+        data: result.data,
+        messageCount: result.messageCount,
+        truncated: fetched.truncated,
+        chunks: result.chunks,
+        attempts: result.attempts,
+        provider: result.provider,
+        model: result.model,
+        usage: result.usage
+      }
+    });
 
   } catch (error) {
-    logger.error('Error analyzing chat:', error);
-    res.status(500).json({ success: false, error: 'Failed to analyze chat' });
+    if (error instanceof AIBudgetExceededError) {
+      res.status(429).json({ success: false, error: error.message });
+      return;
+    }
+    logger.error('Error extracting chat data:', error);
+    res.status(500).json({ success: false, error: 'Failed to extract chat data' });
   }
 };
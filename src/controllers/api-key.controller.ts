@@ -0,0 +1,237 @@
+import { Request, Response } from 'express';
+import { ApiKeyService, ApiKeyInfo, ApiKeyScope, hasScope } from '../services/ApiKeyService';
+import { logError, logInfo } from '../config/logger';
+
+const apiKeyService = ApiKeyService.getInstance();
+
+/**
+ * A key may only grant or manage scopes it holds itself
+ */
+const findUngrantableScopes = (caller: ApiKeyInfo | undefined, scopes: ApiKeyScope[]): ApiKeyScope[] =>
+  scopes.filter(scope => !caller || !hasScope(caller.scopes, scope));
+
+const sendScopeError = (res: Response, scopes: ApiKeyScope[]): void => {
+  res.status(403).json({
+    success: false,
+    error: `Cannot grant or manage scope(s) the current API key does not have: ${scopes.join(', ')}`,
+    code: 'INSUFFICIENT_SCOPE',
+  });
+};
+
+const toTimestamp = (value?: Date | string | null): number | null | undefined => {
+  if (value === null) return null;
+  return value ? new Date(value).getTime() : undefined;
+};
+
+/**
+ * POST /api/v1/api-keys
+ * Create a scoped API key. The secret is only returned in this response.
+ */
+export const createApiKey = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { label, scopes, deviceIds, expiresAt } = req.body;
+
+    const ungrantable = findUngrantableScopes(req.apiKey, scopes);
+    if (ungrantable.length > 0) {
+      sendScopeError(res, ungrantable);
+      return;
+    }
+
+    const { key, apiKey } = await apiKeyService.createKey({
+      label,
+      scopes,
+      deviceIds,
+      expiresAt: toTimestamp(expiresAt) || undefined,
+    });
+
+    logInfo(`API key ${key.id} created by ${req.apiKey?.id}`);
+    res.status(201).json({
+      success: true,
+      message: 'API key created successfully. Store the key now, it cannot be retrieved again.',
+      data: { ...key, apiKey },
+    });
+  } catch (error: any) {
+    logError('Error creating API key:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to create API key',
+      details: process.env.NODE_ENV === 'development' ? error.message : undefined,
+    });
+  }
+};
+
+/**
+ * GET /api/v1/api-keys
+ * List API keys (without secrets)
+ */
+export const listApiKeys = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const keys = await apiKeyService.listKeys();
+
+    res.json({
+      success: true,
+      data: keys,
+    });
+  } catch (error: any) {
+    logError('Error listing API keys:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to list API keys',
+      details: process.env.NODE_ENV === 'development' ? error.message : undefined,
+    });
+  }
+};
+
+/**
+ * GET /api/v1/api-keys/:keyId
+ * Get a single API key (without secret)
+ */
+export const getApiKey = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const key = await apiKeyService.getKey(req.params.keyId);
+
+    if (!key) {
+      res.status(404).json({
+        success: false,
+        error: 'API key not found',
+      });
+      return;
+    }
+
+    res.json({
+      success: true,
+      data: key,
+    });
+  } catch (error: any) {
+    logError(`Error getting API key ${req.params.keyId}:`, error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to get API key',
+      details: process.env.NODE_ENV === 'development' ? error.message : undefined,
+    });
+  }
+};
+
+/**
+ * PATCH /api/v1/api-keys/:keyId
+ * Update label, scopes, device restrictions or expiry
+ */
+export const updateApiKey = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const existing = await apiKeyService.getKey(req.params.keyId);
+
+    if (!existing) {
+      res.status(404).json({
+        success: false,
+        error: 'API key not found',
+      });
+      return;
+    }
+
+    const ungrantable = findUngrantableScopes(req.apiKey, [...existing.scopes, ...(req.body.scopes || [])]);
+    if (ungrantable.length > 0) {
+      sendScopeError(res, ungrantable);
+      return;
+    }
+
+    const key = await apiKeyService.updateKey(existing.id, {
+      ...req.body,
+      expiresAt: toTimestamp(req.body.expiresAt),
+    });
+
+    res.json({
+      success: true,
+      message: 'API key updated successfully',
+      data: key,
+    });
+  } catch (error: any) {
+    logError(`Error updating API key ${req.params.keyId}:`, error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to update API key',
+      details: process.env.NODE_ENV === 'development' ? error.message : undefined,
+    });
+  }
+};
+
+/**
+ * DELETE /api/v1/api-keys/:keyId
+ * Revoke an API key immediately
+ */
+export const revokeApiKey = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const existing = await apiKeyService.getKey(req.params.keyId);
+
+    if (!existing) {
+      res.status(404).json({
+        success: false,
+        error: 'API key not found',
+      });
+      return;
+    }
+
+    const ungrantable = findUngrantableScopes(req.apiKey, existing.scopes);
+    if (ungrantable.length > 0) {
+      sendScopeError(res, ungrantable);
+      return;
+    }
+
+    await apiKeyService.revokeKey(existing.id);
+
+    logInfo(`API key ${existing.id} revoked by ${req.apiKey?.id}`);
+    res.json({
+      success: true,
+      message: 'API key revoked successfully',
+    });
+  } catch (error: any) {
+    logError(`Error revoking API key ${req.params.keyId}:`, error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to revoke API key',
+      details: process.env.NODE_ENV === 'development' ? error.message : undefined,
+    });
+  }
+};
+
+/**
+ * POST /api/v1/api-keys/:keyId/rotate
+ * Issue a new secret, optionally keeping the old one valid for a grace period
+ */
+export const rotateApiKey = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const existing = await apiKeyService.getKey(req.params.keyId);
+
+    if (!existing) {
+      res.status(404).json({
+        success: false,
+        error: 'API key not found',
+      });
+      return;
+    }
+
+    const ungrantable = findUngrantableScopes(req.apiKey, existing.scopes);
+    if (ungrantable.length > 0) {
+      sendScopeError(res, ungrantable);
+      return;
+    }
+
+    const gracePeriodSeconds: number = req.body?.gracePeriodSeconds || 0;
+    const result = await apiKeyService.rotateKey(existing.id, gracePeriodSeconds * 1000);
+
+    logInfo(`API key ${existing.id} rotated by ${req.apiKey?.id}`);
+    res.json({
+      success: true,
+      message: gracePeriodSeconds > 0
+        ? `API key rotated. The previous key stays valid for ${gracePeriodSeconds} seconds.`
+        : 'API key rotated. The previous key is no longer valid.',
+      data: { ...result!.key, apiKey: result!.apiKey },
+    });
+  } catch (error: any) {
+    logError(`Error rotating API key ${req.params.keyId}:`, error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to rotate API key',
+      details: process.env.NODE_ENV === 'development' ? error.message : undefined,
+    });
+  }
+};
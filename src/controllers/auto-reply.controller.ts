@@ -0,0 +1,249 @@
+import { Request, Response } from 'express';
+import { DeviceManager, AutoReplyService, AutoReplyMessage } from '../services';
+import { logError } from '../config/logger';
+
+const deviceManager = DeviceManager.getInstance();
+const autoReplyService = AutoReplyService.getInstance();
+
+const sendNotFound = (res: Response): void => {
+  res.status(404).json({
+    success: false,
+    error: 'Rule not found',
+  });
+};
+
+const formatChatId = (id: string): string => (id.includes('@') ? id : `${id.replace(/\D/g, '')}@c.us`);
+
+/**
+ * POST /api/v1/devices/:id/rules
+ * Create an auto-reply rule
+ */
+export const createRule = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { id } = req.params;
+
+    if (!deviceManager.getDevice(id)) {
+      res.status(404).json({ success: false, error: 'Device not found' });
+      return;
+    }
+
+    const { maxRulesPerDevice } = autoReplyService.getConfig();
+    if ((await autoReplyService.listRules(id)).length >= maxRulesPerDevice) {
+      res.status(409).json({
+        success: false,
+        error: `A device can have at most ${maxRulesPerDevice} rules`,
+      });
+      return;
+    }
+
+    const rule = await autoReplyService.createRule(id, req.body);
+
+    res.status(201).json({
+      success: true,
+      message: 'Rule created successfully',
+      data: rule,
+    });
+  } catch (error: any) {
+    logError(`Error creating auto-reply rule for device ${req.params.id}:`, error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to create rule',
+      details: process.env.NODE_ENV === 'development' ? error.message : undefined,
+    });
+  }
+};
+
+/**
+ * GET /api/v1/devices/:id/rules
+ * List a device's rules in evaluation order
+ */
+export const listRules = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const rules = await autoReplyService.listRules(req.params.id);
+
+    res.json({
+      success: true,
+      data: rules,
+    });
+  } catch (error: any) {
+    logError(`Error listing auto-reply rules for device ${req.params.id}:`, error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to list rules',
+      details: process.env.NODE_ENV === 'development' ? error.message : undefined,
+    });
+  }
+};
+
+/**
+ * GET /api/v1/devices/:id/rules/:ruleId
+ */
+export const getRule = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const rule = await autoReplyService.getRule(req.params.id, req.params.ruleId);
+
+    if (!rule) {
+      sendNotFound(res);
+      return;
+    }
+
+    res.json({
+      success: true,
+      data: rule,
+    });
+  } catch (error: any) {
+    logError(`Error getting auto-reply rule ${req.params.ruleId}:`, error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to get rule',
+      details: process.env.NODE_ENV === 'development' ? error.message : undefined,
+    });
+  }
+};
+
+/**
+ * PATCH /api/v1/devices/:id/rules/:ruleId
+ * Update a rule. Conditions and actions are replaced as a whole.
+ */
+export const updateRule = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const result = await autoReplyService.updateRule(req.params.id, req.params.ruleId, req.body);
+
+    if (result.status === 'not_found') {
+      sendNotFound(res);
+      return;
+    }
+
+    res.json({
+      success: true,
+      message: 'Rule updated successfully',
+      data: result.rule,
+    });
+  } catch (error: any) {
+    logError(`Error updating auto-reply rule ${req.params.ruleId}:`, error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to update rule',
+      details: process.env.NODE_ENV === 'development' ? error.message : undefined,
+    });
+  }
+};
+
+/**
+ * DELETE /api/v1/devices/:id/rules/:ruleId
+ */
+export const deleteRule = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const deleted = await autoReplyService.deleteRule(req.params.id, req.params.ruleId);
+
+    if (!deleted) {
+      sendNotFound(res);
+      return;
+    }
+
+    res.json({
+      success: true,
+      message: 'Rule deleted successfully',
+    });
+  } catch (error: any) {
+    logError(`Error deleting auto-reply rule ${req.params.ruleId}:`, error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to delete rule',
+      details: process.env.NODE_ENV === 'development' ? error.message : undefined,
+    });
+  }
+};
+
+/**
+ * POST /api/v1/devices/:id/rules/test
+ * Dry run: show which rules a message would match and the actions they would take, without running them
+ */
+export const testRules = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const { message, at, ruleId, rule } = req.body;
+
+    if (ruleId && !(await autoReplyService.getRule(id, ruleId))) {
+      sendNotFound(res);
+      return;
+    }
+
+    const from = formatChatId(message.from);
+    const chatId = message.chatId ? formatChatId(message.chatId) : from;
+    const input: AutoReplyMessage = {
+      chatId,
+      from,
+      name: message.name,
+      body: message.body,
+      type: message.type,
+      isGroup: chatId.endsWith('@g.us'),
+    };
+
+    const results = await autoReplyService.testRules(id, input, { at, ruleId, rule });
+
+    res.json({
+      success: true,
+      data: {
+        matched: results.some(result => result.matched),
+        rules: results,
+      },
+    });
+  } catch (error: any) {
+    logError(`Error testing auto-reply rules for device ${req.params.id}:`, error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to test rules',
+      details: process.env.NODE_ENV === 'development' ? error.message : undefined,
+    });
+  }
+};
+
+/**
+ * GET /api/v1/devices/:id/rules/tags
+ * Chats tagged by rules, optionally only those with a given tag
+ */
+export const getChatTags = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const tags = await autoReplyService.getChatTags(req.params.id, req.query.tag as string | undefined);
+
+    res.json({
+      success: true,
+      data: tags,
+    });
+  } catch (error: any) {
+    logError(`Error getting chat tags for device ${req.params.id}:`, error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to get chat tags',
+      details: process.env.NODE_ENV === 'development' ? error.message : undefined,
+    });
+  }
+};
+
+/**
+ * DELETE /api/v1/devices/:id/rules/tags/:chatId/:tag
+ */
+export const removeChatTag = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { id, chatId, tag } = req.params;
+    const removed = await autoReplyService.removeChatTag(id, chatId, tag);
+
+    if (!removed) {
+      res.status(404).json({ success: false, error: 'Tag not found on this chat' });
+      return;
+    }
+
+    res.json({
+      success: true,
+      message: 'Tag removed successfully',
+    });
+  } catch (error: any) {
+    logError(`Error removing chat tag for device ${req.params.id}:`, error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to remove chat tag',
+      details: process.env.NODE_ENV === 'development' ? error.message : undefined,
+    });
+  }
+};
@@ -0,0 +1,326 @@
+import { Request, Response } from 'express';
+import { DeviceManager, CampaignService, Campaign, CampaignStats } from '../services';
+import {
+  CampaignRecipientInput,
+  CampaignUpdateResult,
+  findMissingVariables,
+  parseRecipientsCsv,
+} from '../services/CampaignService';
+import { logError } from '../config/logger';
+
+const deviceManager = DeviceManager.getInstance();
+const campaignService = CampaignService.getInstance();
+
+/**
+ * Campaign view without the (potentially large) media payload
+ */
+const toCampaignView = (campaign: Campaign, stats?: CampaignStats) => {
+  const { media, ...view } = campaign;
+  return {
+    ...view,
+    media: media ? { mimetype: media.mimetype, filename: media.filename } : undefined,
+    stats,
+  };
+};
+
+const formatRecipient = (to: string): string => {
+  const trimmed = to.trim();
+  return trimmed.includes('@') ? trimmed : `${trimmed.replace(/\D/g, '')}@c.us`;
+};
+
+const sendNotFound = (res: Response): void => {
+  res.status(404).json({
+    success: false,
+    error: 'Campaign not found',
+  });
+};
+
+const sendTransitionResult = (res: Response, result: CampaignUpdateResult, action: string): void => {
+  if (result.status === 'not_found') {
+    sendNotFound(res);
+    return;
+  }
+
+  if (result.status === 'invalid_state') {
+    res.status(409).json({
+      success: false,
+      error: `Cannot ${action} a campaign that is ${result.campaign!.status}`,
+    });
+    return;
+  }
+
+  res.json({
+    success: true,
+    message: `Campaign ${result.campaign!.status}`,
+    data: toCampaignView(result.campaign!),
+  });
+};
+
+/**
+ * POST /api/v1/devices/:id/campaigns
+ * Create a broadcast campaign from a JSON or CSV recipient list
+ */
+export const createCampaign = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const { name, text = '', media, csv, paused } = req.body;
+
+    if (!deviceManager.getDevice(id)) {
+      res.status(404).json({ success: false, error: 'Device not found' });
+      return;
+    }
+
+    let input: CampaignRecipientInput[];
+    try {
+      input = csv ? parseRecipientsCsv(csv) : req.body.recipients;
+    } catch (error: any) {
+      res.status(400).json({ success: false, error: `Invalid CSV: ${error.message}` });
+      return;
+    }
+
+    // Normalize numbers and drop duplicate recipients, keeping the first occurrence
+    const seen = new Set<string>();
+    const recipients: CampaignRecipientInput[] = [];
+    const invalid: number[] = [];
+    input.forEach((recipient, index) => {
+      const to = formatRecipient(recipient.to || '');
+      if (to === '@c.us') {
+        invalid.push(index + 1);
+        return;
+      }
+      if (seen.has(to)) return;
+      seen.add(to);
+
+      const variables = Object.fromEntries(
+        Object.entries(recipient.variables || {}).map(([key, value]) => [key, String(value)])
+      );
+      recipients.push({ to, variables });
+    });
+
+    if (invalid.length > 0) {
+      res.status(400).json({
+        success: false,
+        error: `Recipient(s) without a valid phone number or chat ID at row(s): ${invalid.slice(0, 10).join(', ')}`,
+      });
+      return;
+    }
+
+    const { maxRecipients } = campaignService.getConfig();
+    if (recipients.length === 0 || recipients.length > maxRecipients) {
+      res.status(400).json({
+        success: false,
+        error: `A campaign needs between 1 and ${maxRecipients} recipients, got ${recipients.length}`,
+      });
+      return;
+    }
+
+    const missing = recipients
+      .map(recipient => ({ to: recipient.to, missing: findMissingVariables(text, recipient.variables) }))
+      .filter(entry => entry.missing.length > 0);
+    if (missing.length > 0) {
+      res.status(400).json({
+        success: false,
+        error: `${missing.length} recipient(s) are missing template variables`,
+        details: missing.slice(0, 10),
+      });
+      return;
+    }
+
+    const campaign = await campaignService.createCampaign({ deviceId: id, name, text, media, recipients, paused });
+
+    res.status(201).json({
+      success: true,
+      message: `Campaign created with ${recipients.length} recipient(s)`,
+      data: {
+        ...toCampaignView(campaign),
+        duplicatesRemoved: input.length - recipients.length,
+      },
+    });
+  } catch (error: any) {
+    logError(`Error creating campaign for device ${req.params.id}:`, error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to create campaign',
+      details: process.env.NODE_ENV === 'development' ? error.message : undefined,
+    });
+  }
+};
+
+/**
+ * GET /api/v1/devices/:id/campaigns
+ * List a device's campaigns, newest first
+ */
+export const listCampaigns = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const campaigns = await campaignService.listCampaigns(req.params.id);
+
+    res.json({
+      success: true,
+      data: campaigns.map(campaign => toCampaignView(campaign)),
+    });
+  } catch (error: any) {
+    logError(`Error listing campaigns for device ${req.params.id}:`, error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to list campaigns',
+      details: process.env.NODE_ENV === 'development' ? error.message : undefined,
+    });
+  }
+};
+
+/**
+ * GET /api/v1/devices/:id/campaigns/:campaignId
+ * Get a campaign with per-status recipient counts
+ */
+export const getCampaign = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { id, campaignId } = req.params;
+    const campaign = await campaignService.getCampaign(id, campaignId);
+
+    if (!campaign) {
+      sendNotFound(res);
+      return;
+    }
+
+    const stats = await campaignService.getStats(campaignId);
+
+    res.json({
+      success: true,
+      data: toCampaignView(campaign, stats),
+    });
+  } catch (error: any) {
+    logError(`Error getting campaign ${req.params.campaignId}:`, error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to get campaign',
+      details: process.env.NODE_ENV === 'development' ? error.message : undefined,
+    });
+  }
+};
+
+/**
+ * GET /api/v1/devices/:id/campaigns/:campaignId/recipients
+ * Per-recipient status, optionally filtered by status
+ */
+export const getCampaignRecipients = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { id, campaignId } = req.params;
+    const { status, limit = 100, offset = 0 } = req.query as { status?: string; limit?: number; offset?: number };
+
+    const campaign = await campaignService.getCampaign(id, campaignId);
+    if (!campaign) {
+      sendNotFound(res);
+      return;
+    }
+
+    const recipients = (await campaignService.getRecipients(campaignId))
+      .filter(recipient => !status || recipient.status === status);
+
+    res.json({
+      success: true,
+      data: recipients.slice(offset, offset + limit),
+      pagination: {
+        total: recipients.length,
+        limit,
+        offset,
+        hasMore: offset + limit < recipients.length,
+      },
+    });
+  } catch (error: any) {
+    logError(`Error getting recipients for campaign ${req.params.campaignId}:`, error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to get campaign recipients',
+      details: process.env.NODE_ENV === 'development' ? error.message : undefined,
+    });
+  }
+};
+
+/**
+ * POST /api/v1/devices/:id/campaigns/:campaignId/pause
+ * Stop handing new recipients to the message queue
+ */
+export const pauseCampaign = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const result = await campaignService.pauseCampaign(req.params.id, req.params.campaignId);
+    sendTransitionResult(res, result, 'pause');
+  } catch (error: any) {
+    logError(`Error pausing campaign ${req.params.campaignId}:`, error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to pause campaign',
+      details: process.env.NODE_ENV === 'development' ? error.message : undefined,
+    });
+  }
+};
+
+/**
+ * POST /api/v1/devices/:id/campaigns/:campaignId/resume
+ * Continue a paused campaign
+ */
+export const resumeCampaign = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const result = await campaignService.resumeCampaign(req.params.id, req.params.campaignId);
+    sendTransitionResult(res, result, 'resume');
+  } catch (error: any) {
+    logError(`Error resuming campaign ${req.params.campaignId}:`, error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to resume campaign',
+      details: process.env.NODE_ENV === 'development' ? error.message : undefined,
+    });
+  }
+};
+
+/**
+ * POST /api/v1/devices/:id/campaigns/:campaignId/cancel
+ * Cancel every recipient that has not been queued yet
+ */
+export const cancelCampaign = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const result = await campaignService.cancelCampaign(req.params.id, req.params.campaignId);
+    sendTransitionResult(res, result, 'cancel');
+  } catch (error: any) {
+    logError(`Error cancelling campaign ${req.params.campaignId}:`, error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to cancel campaign',
+      details: process.env.NODE_ENV === 'development' ? error.message : undefined,
+    });
+  }
+};
+
+/**
+ * DELETE /api/v1/devices/:id/campaigns/:campaignId
+ * Delete a completed or cancelled campaign and its recipient log
+ */
+export const deleteCampaign = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const result = await campaignService.deleteCampaign(req.params.id, req.params.campaignId);
+
+    if (result.status === 'not_found') {
+      sendNotFound(res);
+      return;
+    }
+
+    if (result.status === 'invalid_state') {
+      res.status(409).json({
+        success: false,
+        error: `Cannot delete a campaign that is ${result.campaign!.status}. Cancel it first.`,
+      });
+      return;
+    }
+
+    res.json({
+      success: true,
+      message: 'Campaign deleted successfully',
+    });
+  } catch (error: any) {
+    logError(`Error deleting campaign ${req.params.campaignId}:`, error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to delete campaign',
+      details: process.env.NODE_ENV === 'development' ? error.message : undefined,
+    });
+  }
+};
@@ -1,19 +1,34 @@
 import { Request, Response } from 'express';
-import { DeviceManager } from '../services/DeviceManager';
+import { DeviceManager, Device, DeviceProfile } from '../services/DeviceManager';
 import logger, { logError, logInfo } from '../config/logger';
 import QRCode from 'qrcode';
+import { canAccessDevice } from '../services/ApiKeyService';
 
 const deviceManager = DeviceManager.getInstance();
 
+// Name, labels, metadata and owner as returned by every device endpoint
+const profileFields = (device: DeviceProfile) => ({
+  name: device.name || null,
+  labels: device.labels || [],
+  metadata: device.metadata || {},
+  owner: device.owner || null,
+});
+
 export class DeviceController {
   /**
    * POST /api/v1/devices
-   * Create a new WhatsApp device
+   * Create a new WhatsApp device, owned by the creating API key unless an owner is given
    */
   public static async createDevice(req: Request, res: Response): Promise<void> {
     try {
       logInfo('Creating new device');
-      const device = await deviceManager.createDevice();
+      const { name, labels, metadata, owner } = req.body || {};
+      const device = await deviceManager.createDevice({
+        name,
+        labels,
+        metadata,
+        owner: owner || req.apiKey?.id,
+      });
       
       res.status(201).json({
         success: true,
@@ -24,6 +39,7 @@ export class DeviceController {
           lastSeen: device.lastSeen,
           phoneNumber: device.phoneNumber || null,
           clientName: device.clientName || null,
+          ...profileFields(device),
         },
       });
     } catch (error) {
@@ -37,22 +53,28 @@ export class DeviceController {
 
   /**
    * GET /api/v1/devices
-   * List all devices
+   * List all devices, optionally filtered by status, labels and owner
    */
   public static async listDevices(req: Request, res: Response): Promise<void> {
     try {
       logger.debug('Listing all devices');
-      const devices = await deviceManager.listDevices();
+      const { status, label, owner } = req.query as { status?: Device['status']; label?: string[]; owner?: string };
+      const devices = await deviceManager.listDevices({ status, labels: label, owner });
+      // Keys restricted to specific devices only see those devices
+      const visibleDevices = req.apiKey
+        ? devices.filter(device => !!device.id && canAccessDevice(req.apiKey!, device.id))
+        : devices;
       
       res.json({
         success: true,
-        data: devices.map(device => ({
+        data: visibleDevices.map(device => ({
           deviceId: device.id,
           status: device.status,
           createdAt: device.createdAt,
           lastSeen: device.lastSeen,
           phoneNumber: device.phoneNumber || null,
           clientName: device.clientName || null,
+          ...profileFields(device),
         })),
       });
     } catch (error) {
@@ -88,6 +110,7 @@ export class DeviceController {
         lastSeen: device.lastSeen,
         phoneNumber: device.phoneNumber || null,
         clientName: device.clientName || null,
+        ...profileFields(device),
       };
       
 
@@ -108,6 +131,12 @@ export class DeviceController {
         }
       }
 
+      // Pairing code requested through POST /pair, until it expires
+      if (device.status === 'qr' && device.pairingCode && (device.pairingCodeExpiresAt || 0) > Date.now()) {
+        responseData.pairingCode = device.pairingCode;
+        responseData.pairingCodeExpiresAt = device.pairingCodeExpiresAt;
+      }
+
       res.json({
         success: true,
         data: responseData,
@@ -121,6 +150,46 @@ export class DeviceController {
     }
   }
 
+  /**
+   * PATCH /api/v1/devices/:id
+   * Change the name, labels, metadata or owner of a device
+   */
+  public static async updateDevice(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      const device = await deviceManager.updateDevice(id, req.body);
+
+      if (!device) {
+        res.status(404).json({
+          success: false,
+          error: 'Device not found',
+        });
+        return;
+      }
+
+      logInfo(`Device ${id} updated`);
+      res.json({
+        success: true,
+        data: {
+          deviceId: device.id,
+          status: device.status,
+          createdAt: device.createdAt,
+          lastSeen: device.lastSeen,
+          phoneNumber: device.phoneNumber || null,
+          clientName: device.clientName || null,
+          ...profileFields(device),
+        },
+      });
+    } catch (error: any) {
+      logError('Error updating device', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to update device',
+        details: process.env.NODE_ENV === 'development' ? error.message : undefined,
+      });
+    }
+  }
+
   /**
    * DELETE /api/v1/devices/:id
    * Graceful logout and cleanup of device
@@ -183,6 +252,7 @@ export class DeviceController {
           lastSeen: device.lastSeen,
           phoneNumber: device.phoneNumber || null,
           clientName: device.clientName || null,
+          ...profileFields(device),
           qrCode: device.qrCode,
         },
       });
@@ -279,6 +349,52 @@ export class DeviceController {
     }
   }
 
+  /**
+   * POST /api/v1/devices/:id/pair
+   * Get a pairing code to link the device from the phone, instead of scanning the QR code
+   */
+  public static async pairDevice(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      const { phoneNumber } = req.body;
+
+      const result = await deviceManager.requestPairingCode(id, phoneNumber);
+
+      if (result.status === 'not_found') {
+        res.status(404).json({
+          success: false,
+          error: 'Device not found',
+        });
+        return;
+      }
+
+      if (result.status === 'not_pairable') {
+        res.status(409).json({
+          success: false,
+          error: result.error,
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        data: {
+          deviceId: id,
+          pairingCode: result.pairingCode,
+          phoneNumber,
+          expiresAt: result.expiresAt,
+        },
+      });
+    } catch (error: any) {
+      logError('Error requesting pairing code', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to get pairing code',
+        details: process.env.NODE_ENV === 'development' ? error.message : undefined,
+      });
+    }
+  }
+
   /**
    * POST /api/v1/devices/:id/contacts
    * Get contacts for a device with optional search and filtering
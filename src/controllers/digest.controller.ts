@@ -0,0 +1,238 @@
+import { Request, Response } from 'express';
+import { DeviceManager, AIService, DigestService } from '../services';
+import { logError } from '../config/logger';
+import { getNextCronOccurrence } from '../utils/cron';
+
+const deviceManager = DeviceManager.getInstance();
+const digestService = DigestService.getInstance();
+
+const formatChatId = (id: string): string => (id.includes('@') ? id : `${id.replace(/\D/g, '')}@c.us`);
+
+/**
+ * Accept phone numbers as well as chat IDs
+ */
+const normalizeChats = (body: any): any => ({
+  ...body,
+  ...(body.chatIds ? { chatIds: body.chatIds.map(formatChatId) } : {}),
+  ...(body.targetChatId ? { targetChatId: formatChatId(body.targetChatId) } : {}),
+});
+
+/**
+ * Reject valid expressions that can't happen, such as "0 0 31 2 *"
+ */
+const checkCron = (cron: string | undefined, res: Response): boolean => {
+  if (!cron || getNextCronOccurrence(cron)) {
+    return true;
+  }
+
+  res.status(400).json({ success: false, error: `Schedule "${cron}" never matches a future time` });
+  return false;
+};
+
+const checkProvider = (provider: string | undefined, res: Response): boolean => {
+  if (!provider || AIService.getInstance().getAvailableProviders().includes(provider)) {
+    return true;
+  }
+
+  res.status(400).json({
+    success: false,
+    error: `AI provider '${provider}' is not configured`,
+    available: AIService.getInstance().getAvailableProviders(),
+  });
+  return false;
+};
+
+/**
+ * GET /api/v1/devices/:id/digests
+ * Stored digests, newest first
+ */
+export const listDigests = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const digests = await digestService.listDigests(req.params.id, {
+      scheduleId: req.query.scheduleId as string | undefined,
+      limit: Number(req.query.limit),
+    });
+
+    res.json({ success: true, data: digests });
+  } catch (error: any) {
+    logError(`Error listing digests for device ${req.params.id}:`, error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to list digests',
+      details: process.env.NODE_ENV === 'development' ? error.message : undefined,
+    });
+  }
+};
+
+/**
+ * GET /api/v1/devices/:id/digests/:digestId
+ */
+export const getDigest = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const digest = await digestService.getDigest(req.params.id, req.params.digestId);
+
+    if (!digest) {
+      res.status(404).json({ success: false, error: 'Digest not found' });
+      return;
+    }
+
+    res.json({ success: true, data: digest });
+  } catch (error: any) {
+    logError(`Error getting digest ${req.params.digestId}:`, error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to get digest',
+      details: process.env.NODE_ENV === 'development' ? error.message : undefined,
+    });
+  }
+};
+
+/**
+ * GET /api/v1/devices/:id/digests/schedules
+ */
+export const listSchedules = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const schedules = await digestService.listSchedules(req.params.id);
+    res.json({ success: true, data: schedules });
+  } catch (error: any) {
+    logError(`Error listing digest schedules for device ${req.params.id}:`, error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to list digest schedules',
+      details: process.env.NODE_ENV === 'development' ? error.message : undefined,
+    });
+  }
+};
+
+/**
+ * POST /api/v1/devices/:id/digests/schedules
+ */
+export const createSchedule = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { id } = req.params;
+
+    if (!deviceManager.getDevice(id)) {
+      res.status(404).json({ success: false, error: 'Device not found' });
+      return;
+    }
+    if (!checkCron(req.body.cron, res) || !checkProvider(req.body.provider, res)) return;
+
+    const schedule = await digestService.createSchedule(id, normalizeChats(req.body));
+
+    res.status(201).json({
+      success: true,
+      message: 'Digest schedule created successfully',
+      data: schedule,
+    });
+  } catch (error: any) {
+    logError(`Error creating digest schedule for device ${req.params.id}:`, error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to create digest schedule',
+      details: process.env.NODE_ENV === 'development' ? error.message : undefined,
+    });
+  }
+};
+
+/**
+ * GET /api/v1/devices/:id/digests/schedules/:scheduleId
+ */
+export const getSchedule = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const schedule = await digestService.getSchedule(req.params.id, req.params.scheduleId);
+
+    if (!schedule) {
+      res.status(404).json({ success: false, error: 'Digest schedule not found' });
+      return;
+    }
+
+    res.json({ success: true, data: schedule });
+  } catch (error: any) {
+    logError(`Error getting digest schedule ${req.params.scheduleId}:`, error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to get digest schedule',
+      details: process.env.NODE_ENV === 'development' ? error.message : undefined,
+    });
+  }
+};
+
+/**
+ * PATCH /api/v1/devices/:id/digests/schedules/:scheduleId
+ */
+export const updateSchedule = async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!checkCron(req.body.cron, res) || !checkProvider(req.body.provider, res)) return;
+
+    const result = await digestService.updateSchedule(req.params.id, req.params.scheduleId, normalizeChats(req.body));
+
+    if (result.status === 'not_found') {
+      res.status(404).json({ success: false, error: 'Digest schedule not found' });
+      return;
+    }
+
+    res.json({
+      success: true,
+      message: 'Digest schedule updated successfully',
+      data: result.schedule,
+    });
+  } catch (error: any) {
+    logError(`Error updating digest schedule ${req.params.scheduleId}:`, error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to update digest schedule',
+      details: process.env.NODE_ENV === 'development' ? error.message : undefined,
+    });
+  }
+};
+
+/**
+ * DELETE /api/v1/devices/:id/digests/schedules/:scheduleId
+ */
+export const deleteSchedule = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const deleted = await digestService.deleteSchedule(req.params.id, req.params.scheduleId);
+
+    if (!deleted) {
+      res.status(404).json({ success: false, error: 'Digest schedule not found' });
+      return;
+    }
+
+    res.json({ success: true, message: 'Digest schedule deleted successfully' });
+  } catch (error: any) {
+    logError(`Error deleting digest schedule ${req.params.scheduleId}:`, error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to delete digest schedule',
+      details: process.env.NODE_ENV === 'development' ? error.message : undefined,
+    });
+  }
+};
+
+/**
+ * POST /api/v1/devices/:id/digests/schedules/:scheduleId/run
+ * Make and deliver a digest right away; the schedule's next run is unchanged
+ */
+export const runSchedule = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const result = await digestService.runSchedule(req.params.id, req.params.scheduleId);
+
+    if (result.status === 'not_found') {
+      res.status(404).json({ success: false, error: 'Digest schedule not found' });
+      return;
+    }
+    if (result.status === 'device_not_ready') {
+      res.status(409).json({ success: false, error: result.error });
+      return;
+    }
+
+    res.json({ success: true, message: 'Digest created', data: result.digest });
+  } catch (error: any) {
+    logError(`Error running digest schedule ${req.params.scheduleId}:`, error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to run digest schedule',
+      details: process.env.NODE_ENV === 'development' ? error.message : undefined,
+    });
+  }
+};
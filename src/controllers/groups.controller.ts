@@ -5,6 +5,68 @@ import { logError, logInfo } from '../config/logger';
 
 const deviceManager = DeviceManager.getInstance();
 
+type ParticipantStatus =
+  | 'added'
+  | 'already_member'
+  | 'invite_sent'
+  | 'privacy_blocked'
+  | 'not_on_whatsapp'
+  | 'recently_left'
+  | 'group_full'
+  | 'removed'
+  | 'promoted'
+  | 'demoted'
+  | 'not_a_member'
+  | 'unchanged'
+  | 'failed';
+
+interface ParticipantResult {
+  participantId: string;
+  status: ParticipantStatus;
+  code: number | null;
+  message: string;
+  inviteSent?: boolean;
+}
+
+/**
+ * Normalize a phone number or contact ID to a WhatsApp user ID
+ */
+const formatParticipantId = (participant: string): string => {
+  const trimmed = participant.trim();
+  return trimmed.includes('@') ? trimmed : `${trimmed}@c.us`;
+};
+
+/**
+ * Map the per-participant code returned by GroupChat.addParticipants to a status
+ */
+const mapAddParticipantStatus = (code: number, inviteSent: boolean): ParticipantStatus => {
+  switch (code) {
+    case 200:
+      return 'added';
+    case 409:
+      return 'already_member';
+    case 403:
+    case 417:
+      // Participant restricts who can add them; an invite may have been sent instead
+      return inviteSent ? 'invite_sent' : 'privacy_blocked';
+    case 404:
+      return 'not_on_whatsapp';
+    case 408:
+      return 'recently_left';
+    case 419:
+      return 'group_full';
+    default:
+      return 'failed';
+  }
+};
+
+const summarizeResults = (results: ParticipantResult[]): Record<string, number> => {
+  return results.reduce((summary, { status }) => {
+    summary[status] = (summary[status] || 0) + 1;
+    return summary;
+  }, {} as Record<string, number>);
+};
+
 export class GroupsController {
   /**
    * POST /api/v1/devices/:id/groups/:groupId/join
@@ -177,55 +239,428 @@ export class GroupsController {
     }
   }
 
+
   /**
-   * POST /api/v1/devices/:id/groups/:groupId/participants/add
-   * Add participants to a group (Future stub)
+   * Resolve the ready device and group chat for a participant/settings request.
+   * Writes the error response itself and returns null when the group can't be used.
    */
-  public static async addParticipants(req: Request, res: Response): Promise<void> {
-    // Future implementation stub
-    res.status(501).json({
+  private static async resolveGroup(
+    req: Request,
+    res: Response
+  ): Promise<{ deviceId: string; groupId: string; group: GroupChat } | null> {
+    const { id: deviceId, groupId } = req.params;
+
+    const device = deviceManager.getDevice(deviceId);
+    if (!device) {
+      res.status(404).json({
+        success: false,
+        error: 'Device not found',
+      });
+      return null;
+    }
+
+    if (device.status !== 'ready') {
+      res.status(400).json({
+        success: false,
+        error: 'Device is not ready. Please ensure the device is connected to WhatsApp.',
+      });
+      return null;
+    }
+
+    const chat = await device.client.getChatById(groupId);
+    if (!chat || !chat.isGroup) {
+      res.status(404).json({
+        success: false,
+        error: 'Group not found',
+      });
+      return null;
+    }
+
+    return { deviceId, groupId, group: chat as GroupChat };
+  }
+
+  /**
+   * Map a WhatsApp error to a response for group admin operations
+   */
+  private static handleGroupError(res: Response, groupId: string, action: string, whatsappError: any): void {
+    logError(`WhatsApp error when trying to ${action} for group ${groupId}`, whatsappError);
+
+    let errorMessage = `Failed to ${action}`;
+    if (whatsappError.message?.includes('admin')) {
+      errorMessage = 'Device must be a group admin to perform this action';
+    } else if (whatsappError.message?.includes('not found')) {
+      errorMessage = 'Group not found';
+    }
+
+    res.status(400).json({
       success: false,
-      error: 'Not implemented yet',
-      message: 'Add participants functionality will be implemented in a future version',
+      error: errorMessage,
+      details: whatsappError.message,
     });
   }
 
+  /**
+   * POST /api/v1/devices/:id/groups/:groupId/participants/add
+   * Add participants to a group, reporting the outcome for each participant
+   */
+  public static async addParticipants(req: Request, res: Response): Promise<void> {
+    try {
+      const { participants, autoSendInvite, inviteComment } = req.body;
+
+      const resolved = await GroupsController.resolveGroup(req, res);
+      if (!resolved) return;
+      const { deviceId, groupId, group } = resolved;
+
+      logInfo(`Device ${deviceId} adding ${participants.length} participant(s) to group ${groupId}`);
+
+      try {
+        const participantIds: string[] = participants.map(formatParticipantId);
+        const result = await group.addParticipants(participantIds, {
+          autoSendInviteV4: autoSendInvite,
+          comment: inviteComment,
+        });
+
+        // whatsapp-web.js returns a plain string when the whole operation is rejected
+        if (typeof result === 'string') {
+          res.status(400).json({
+            success: false,
+            error: result.includes('admin rights')
+              ? 'Device must be a group admin to perform this action'
+              : 'Failed to add participants',
+            details: result,
+          });
+          return;
+        }
+
+        const results: ParticipantResult[] = participantIds.map(participantId => {
+          const entry = (result as Record<string, any>)[participantId];
+          return {
+            participantId,
+            status: entry ? mapAddParticipantStatus(entry.code, entry.isInviteV4Sent) : 'failed',
+            code: entry?.code ?? null,
+            message: entry?.message ?? 'No result returned for participant',
+            inviteSent: !!entry?.isInviteV4Sent,
+          };
+        });
+
+        const added = results.filter(r => r.status === 'added').length;
+        logInfo(`Device ${deviceId} added ${added}/${results.length} participant(s) to group ${groupId}`);
+
+        res.status(200).json({
+          success: true,
+          data: {
+            deviceId,
+            groupId,
+            results,
+            summary: summarizeResults(results),
+          },
+        });
+      } catch (whatsappError: any) {
+        GroupsController.handleGroupError(res, groupId, 'add participants', whatsappError);
+      }
+    } catch (error) {
+      logError('Error adding group participants', error);
+      res.status(500).json({
+        success: false,
+        error: 'Internal server error while adding participants',
+      });
+    }
+  }
+
   /**
    * POST /api/v1/devices/:id/groups/:groupId/participants/remove
-   * Remove participants from a group (Future stub)
+   * Remove participants from a group
    */
   public static async removeParticipants(req: Request, res: Response): Promise<void> {
-    // Future implementation stub
-    res.status(501).json({
-      success: false,
-      error: 'Not implemented yet',
-      message: 'Remove participants functionality will be implemented in a future version',
-    });
+    try {
+      const { participants } = req.body;
+
+      const resolved = await GroupsController.resolveGroup(req, res);
+      if (!resolved) return;
+      const { deviceId, groupId, group } = resolved;
+
+      logInfo(`Device ${deviceId} removing ${participants.length} participant(s) from group ${groupId}`);
+
+      try {
+        const participantIds: string[] = participants.map(formatParticipantId);
+        const memberIds = new Set(group.participants.map(p => p.id._serialized));
+
+        // removeParticipants silently skips non-members, so report them explicitly
+        const toRemove = participantIds.filter(p => memberIds.has(p));
+        if (toRemove.length > 0) {
+          await group.removeParticipants(toRemove);
+        }
+
+        const results: ParticipantResult[] = participantIds.map(participantId =>
+          memberIds.has(participantId)
+            ? { participantId, status: 'removed', code: 200, message: 'The participant was removed successfully' }
+            : { participantId, status: 'not_a_member', code: 404, message: 'The participant is not a group member' }
+        );
+
+        res.status(200).json({
+          success: true,
+          data: {
+            deviceId,
+            groupId,
+            results,
+            summary: summarizeResults(results),
+          },
+        });
+      } catch (whatsappError: any) {
+        GroupsController.handleGroupError(res, groupId, 'remove participants', whatsappError);
+      }
+    } catch (error) {
+      logError('Error removing group participants', error);
+      res.status(500).json({
+        success: false,
+        error: 'Internal server error while removing participants',
+      });
+    }
+  }
+
+  /**
+   * POST /api/v1/devices/:id/groups/:groupId/participants/promote
+   * Promote participants to group admins
+   */
+  public static async promoteParticipants(req: Request, res: Response): Promise<void> {
+    await GroupsController.changeParticipantRole(req, res, 'promote');
+  }
+
+  /**
+   * POST /api/v1/devices/:id/groups/:groupId/participants/demote
+   * Demote group admins to regular participants
+   */
+  public static async demoteParticipants(req: Request, res: Response): Promise<void> {
+    await GroupsController.changeParticipantRole(req, res, 'demote');
+  }
+
+  /**
+   * Shared implementation for promote/demote
+   */
+  private static async changeParticipantRole(
+    req: Request,
+    res: Response,
+    action: 'promote' | 'demote'
+  ): Promise<void> {
+    try {
+      const { participants } = req.body;
+
+      const resolved = await GroupsController.resolveGroup(req, res);
+      if (!resolved) return;
+      const { deviceId, groupId, group } = resolved;
+
+      logInfo(`Device ${deviceId} attempting to ${action} ${participants.length} participant(s) in group ${groupId}`);
+
+      try {
+        const participantIds: string[] = participants.map(formatParticipantId);
+        const members = new Map(group.participants.map(p => [p.id._serialized, p]));
+
+        const eligible = participantIds.filter(p => {
+          const member = members.get(p);
+          return member && (action === 'promote' ? !member.isAdmin : member.isAdmin && !member.isSuperAdmin);
+        });
+
+        if (eligible.length > 0) {
+          if (action === 'promote') {
+            await group.promoteParticipants(eligible);
+          } else {
+            await group.demoteParticipants(eligible);
+          }
+        }
+
+        const results: ParticipantResult[] = participantIds.map(participantId => {
+          const member = members.get(participantId);
+          if (!member) {
+            return { participantId, status: 'not_a_member', code: 404, message: 'The participant is not a group member' };
+          }
+          if (eligible.includes(participantId)) {
+            return {
+              participantId,
+              status: action === 'promote' ? 'promoted' : 'demoted',
+              code: 200,
+              message: `The participant was ${action}d successfully`,
+            };
+          }
+          if (action === 'demote' && member.isSuperAdmin) {
+            return { participantId, status: 'unchanged', code: 403, message: 'The group creator cannot be demoted' };
+          }
+          return {
+            participantId,
+            status: 'unchanged',
+            code: 409,
+            message: action === 'promote' ? 'The participant is already an admin' : 'The participant is not an admin',
+          };
+        });
+
+        res.status(200).json({
+          success: true,
+          data: {
+            deviceId,
+            groupId,
+            results,
+            summary: summarizeResults(results),
+          },
+        });
+      } catch (whatsappError: any) {
+        GroupsController.handleGroupError(res, groupId, `${action} participants`, whatsappError);
+      }
+    } catch (error) {
+      logError(`Error trying to ${action} group participants`, error);
+      res.status(500).json({
+        success: false,
+        error: `Internal server error while trying to ${action} participants`,
+      });
+    }
   }
 
   /**
    * PUT /api/v1/devices/:id/groups/:groupId/subject
-   * Set group subject/name (Future stub)
+   * Set group subject/name
    */
   public static async setGroupSubject(req: Request, res: Response): Promise<void> {
-    // Future implementation stub
-    res.status(501).json({
-      success: false,
-      error: 'Not implemented yet',
-      message: 'Set group subject functionality will be implemented in a future version',
-    });
+    try {
+      const { subject } = req.body;
+
+      const resolved = await GroupsController.resolveGroup(req, res);
+      if (!resolved) return;
+      const { deviceId, groupId, group } = resolved;
+
+      try {
+        const updated = await group.setSubject(subject);
+        if (!updated) {
+          res.status(403).json({
+            success: false,
+            error: 'Group subject could not be updated. The device may lack permission to edit group info.',
+          });
+          return;
+        }
+
+        logInfo(`Device ${deviceId} updated subject of group ${groupId}`);
+
+        res.status(200).json({
+          success: true,
+          data: {
+            deviceId,
+            groupId,
+            subject,
+            message: 'Group subject updated successfully',
+          },
+        });
+      } catch (whatsappError: any) {
+        GroupsController.handleGroupError(res, groupId, 'set group subject', whatsappError);
+      }
+    } catch (error) {
+      logError('Error setting group subject', error);
+      res.status(500).json({
+        success: false,
+        error: 'Internal server error while setting group subject',
+      });
+    }
   }
 
   /**
    * PUT /api/v1/devices/:id/groups/:groupId/description
-   * Set group description (Future stub)
+   * Set group description
    */
   public static async setGroupDescription(req: Request, res: Response): Promise<void> {
-    // Future implementation stub
-    res.status(501).json({
-      success: false,
-      error: 'Not implemented yet',
-      message: 'Set group description functionality will be implemented in a future version',
-    });
+    try {
+      const { description } = req.body;
+
+      const resolved = await GroupsController.resolveGroup(req, res);
+      if (!resolved) return;
+      const { deviceId, groupId, group } = resolved;
+
+      try {
+        const updated = await group.setDescription(description);
+        if (!updated) {
+          res.status(403).json({
+            success: false,
+            error: 'Group description could not be updated. The device may lack permission to edit group info.',
+          });
+          return;
+        }
+
+        logInfo(`Device ${deviceId} updated description of group ${groupId}`);
+
+        res.status(200).json({
+          success: true,
+          data: {
+            deviceId,
+            groupId,
+            description,
+            message: 'Group description updated successfully',
+          },
+        });
+      } catch (whatsappError: any) {
+        GroupsController.handleGroupError(res, groupId, 'set group description', whatsappError);
+      }
+    } catch (error) {
+      logError('Error setting group description', error);
+      res.status(500).json({
+        success: false,
+        error: 'Internal server error while setting group description',
+      });
+    }
+  }
+
+  /**
+   * PUT /api/v1/devices/:id/groups/:groupId/settings
+   * Update group settings (announce-only messaging, admin-only info editing)
+   */
+  public static async updateGroupSettings(req: Request, res: Response): Promise<void> {
+    try {
+      const { announce, editInfoAdminsOnly } = req.body;
+
+      const resolved = await GroupsController.resolveGroup(req, res);
+      if (!resolved) return;
+      const { deviceId, groupId, group } = resolved;
+
+      try {
+        const settings: Record<string, boolean> = {};
+
+        if (announce !== undefined) {
+          if (!(await group.setMessagesAdminsOnly(announce))) {
+            res.status(403).json({
+              success: false,
+              error: 'Group settings could not be updated. The device must be a group admin.',
+            });
+            return;
+          }
+          settings.announce = announce;
+        }
+
+        if (editInfoAdminsOnly !== undefined) {
+          if (!(await group.setInfoAdminsOnly(editInfoAdminsOnly))) {
+            res.status(403).json({
+              success: false,
+              error: 'Group settings could not be updated. The device must be a group admin.',
+              data: { applied: settings },
+            });
+            return;
+          }
+          settings.editInfoAdminsOnly = editInfoAdminsOnly;
+        }
+
+        logInfo(`Device ${deviceId} updated settings of group ${groupId}`, settings);
+
+        res.status(200).json({
+          success: true,
+          data: {
+            deviceId,
+            groupId,
+            settings,
+            message: 'Group settings updated successfully',
+          },
+        });
+      } catch (whatsappError: any) {
+        GroupsController.handleGroupError(res, groupId, 'update group settings', whatsappError);
+      }
+    } catch (error) {
+      logError('Error updating group settings', error);
+      res.status(500).json({
+        success: false,
+        error: 'Internal server error while updating group settings',
+      });
+    }
   }
 }
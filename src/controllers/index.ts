@@ -8,4 +8,16 @@ export * as ChatController from './chat.controller';
 export * as AIController from './ai.controller';
 export * as AnalyticsController from './analytics.controller';
 export * as QueueController from './queue.controller';
+export * as WebhookController from './webhook.controller';
+export * as ApiKeyController from './api-key.controller';
+export * as ScheduledMessageController from './scheduled-message.controller';
+export * as CampaignController from './campaign.controller';
+export * as AutoReplyController from './auto-reply.controller';
+export * as AIAgentController from './ai-agent.controller';
+export * as AIUsageController from './ai-usage.controller';
+export * as DigestController from './digest.controller';
+export * as TranslationController from './translation.controller';
+export * as PoolController from './pool.controller';
+export * as RecipientPolicyController from './recipient-policy.controller';
+export * as ReconnectController from './reconnect.controller';
 export { CacheController } from './cache.controller';
@@ -1,8 +1,12 @@
 import { Request, Response } from 'express';
 import { DeviceManager } from '../services/DeviceManager';
+import { MessageStoreService } from '../services/MessageStoreService';
+import { TranscriptionService, isTranscribable } from '../services/TranscriptionService';
 import { logError, logInfo } from '../config/logger';
 
 const deviceManager = DeviceManager.getInstance();
+const messageStore = MessageStoreService.getInstance();
+const transcriptionService = TranscriptionService.getInstance();
 
 /**
  * Download media from a message
@@ -27,29 +31,11 @@ export const downloadMedia = async (req: Request, res: Response): Promise<void>
       return;
     }
 
-    // Find the message across recent chats
+    // Find the message through the message index, scanning recent chats if it is not indexed
     let targetMessage = null;
-    let sourceChat = null;
 
     try {
-      // Try to find the message by searching recent chats
-      const chats = await device.client.getChats();
-      
-      for (const chat of chats.slice(0, 50)) { // Search in recent 50 chats
-        try {
-          const messages = await chat.fetchMessages({ limit: 100 });
-          const message = messages.find(msg => msg.id._serialized === messageId);
-          
-          if (message) {
-            targetMessage = message;
-            sourceChat = chat;
-            break;
-          }
-        } catch (error) {
-          // Continue searching in other chats if this one fails
-          continue;
-        }
-      }
+      targetMessage = await messageStore.findMessage(id, device.client, messageId);
     } catch (error) {
       logError('Error searching for message:', error);
       res.status(500).json({ 
@@ -146,25 +132,11 @@ export const getMediaThumbnail = async (req: Request, res: Response): Promise<vo
       return;
     }
 
-    // Find the message
+    // Find the message through the message index, scanning recent chats if it is not indexed
     let targetMessage = null;
 
     try {
-      const chats = await device.client.getChats();
-      
-      for (const chat of chats.slice(0, 50)) {
-        try {
-          const messages = await chat.fetchMessages({ limit: 100 });
-          const message = messages.find(msg => msg.id._serialized === messageId);
-          
-          if (message) {
-            targetMessage = message;
-            break;
-          }
-        } catch (error) {
-          continue;
-        }
-      }
+      targetMessage = await messageStore.findMessage(id, device.client, messageId);
     } catch (error) {
       logError('Error searching for message:', error);
       res.status(500).json({ 
@@ -284,6 +256,34 @@ export const getMediaInfo = async (req: Request, res: Response): Promise<void> =
       return;
     }
 
+    // Indexed messages are answered without touching the browser, even while the device is offline
+    const stored = await messageStore.getMessage(id, messageId).catch(() => null);
+    if (stored) {
+      if (!stored.hasMedia) {
+        res.status(400).json({ 
+          success: false, 
+          error: 'Message does not contain media' 
+        });
+        return;
+      }
+
+      res.json({
+        success: true,
+        data: {
+          messageId: stored.messageId,
+          hasMedia: true,
+          type: stored.type,
+          mimetype: stored.mediaMimetype,
+          filename: stored.mediaFilename,
+          filesize: stored.mediaSize,
+          downloadUrl: `/api/v1/devices/${id}/messages/${messageId}/media/download`,
+          thumbnailUrl: `/api/v1/devices/${id}/messages/${messageId}/media/thumbnail`,
+          infoUrl: `/api/v1/devices/${id}/messages/${messageId}/media/info`,
+        }
+      });
+      return;
+    }
+
     if (device.status !== 'ready') {
       res.status(400).json({ 
         success: false, 
@@ -293,25 +293,11 @@ export const getMediaInfo = async (req: Request, res: Response): Promise<void> =
       return;
     }
 
-    // Find the message
+    // Find the message through the message index, scanning recent chats if it is not indexed
     let targetMessage = null;
 
     try {
-      const chats = await device.client.getChats();
-      
-      for (const chat of chats.slice(0, 50)) {
-        try {
-          const messages = await chat.fetchMessages({ limit: 100 });
-          const message = messages.find(msg => msg.id._serialized === messageId);
-          
-          if (message) {
-            targetMessage = message;
-            break;
-          }
-        } catch (error) {
-          continue;
-        }
-      }
+      targetMessage = await messageStore.findMessage(id, device.client, messageId);
     } catch (error) {
       logError('Error searching for message:', error);
       res.status(500).json({ 
@@ -370,3 +356,109 @@ export const getMediaInfo = async (req: Request, res: Response): Promise<void> =
     });
   }
 };
+
+/**
+ * Get the transcript of a voice note or audio message, without transcribing it
+ * GET /api/v1/devices/:id/messages/:messageId/transcript
+ */
+export const getTranscript = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { id, messageId } = req.params;
+
+    if (!deviceManager.getDevice(id)) {
+      res.status(404).json({ success: false, error: 'Device not found' });
+      return;
+    }
+
+    const transcript = await transcriptionService.getTranscript(id, messageId);
+    if (!transcript) {
+      res.status(404).json({ success: false, error: 'Transcript not found' });
+      return;
+    }
+
+    res.json({ success: true, data: transcript });
+
+  } catch (error) {
+    logError('Error in getTranscript controller:', error);
+    res.status(500).json({ 
+      success: false, 
+      error: 'Internal server error',
+      details: process.env.NODE_ENV === 'development' ? (error as any).message : undefined
+    });
+  }
+};
+
+/**
+ * Transcribe a voice note or audio message, answering with the stored transcript when there is one
+ * POST /api/v1/devices/:id/messages/:messageId/transcript
+ */
+export const transcribeMessage = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { id, messageId } = req.params;
+
+    if (!transcriptionService.isEnabled()) {
+      res.status(503).json({ success: false, error: 'Transcription is not configured, set TRANSCRIPTION_BACKEND' });
+      return;
+    }
+
+    const device = deviceManager.getDevice(id);
+    if (!device) {
+      res.status(404).json({ success: false, error: 'Device not found' });
+      return;
+    }
+
+    if (!req.body.force) {
+      const cached = await transcriptionService.getTranscript(id, messageId);
+      if (cached) {
+        res.json({ success: true, data: cached });
+        return;
+      }
+    }
+
+    if (device.status !== 'ready') {
+      res.status(400).json({ 
+        success: false, 
+        error: `Device is not ready. Current status: ${device.status}`,
+        currentStatus: device.status
+      });
+      return;
+    }
+
+    const targetMessage = await messageStore.findMessage(id, device.client, messageId);
+    if (!targetMessage) {
+      res.status(404).json({ 
+        success: false, 
+        error: 'Message not found or not accessible' 
+      });
+      return;
+    }
+
+    if (!isTranscribable(targetMessage)) {
+      res.status(400).json({ 
+        success: false, 
+        error: 'Message is not a voice note or audio message' 
+      });
+      return;
+    }
+
+    try {
+      const transcript = await transcriptionService.transcribeMessage(id, targetMessage, { force: req.body.force });
+      res.json({ success: true, data: transcript });
+    } catch (error) {
+      logError(`Error transcribing message ${messageId}:`, error);
+      res.status(502).json({ 
+        success: false, 
+        error: 'Failed to transcribe message',
+        details: (error as any).message
+      });
+    }
+
+  } catch (error) {
+    logError('Error in transcribeMessage controller:', error);
+    res.status(500).json({ 
+      success: false, 
+      error: 'Internal server error',
+      details: process.env.NODE_ENV === 'development' ? (error as any).message : undefined
+    });
+  }
+};
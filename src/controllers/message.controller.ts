@@ -1,12 +1,18 @@
 import { Request, Response } from 'express';
 import { MessageMedia, MessageSendOptions, Location } from 'whatsapp-web.js';
-import { DeviceManager, MessageQueueService, DeviceHealthService } from '../services';
+import { DeviceManager, ClusterService, MessageQueueService, DeviceHealthService, MessageSchedule, MessageStatusService, MessageStoreService, StoredMessage, MessageSearchFilters, TranslationService, AIBudgetExceededError } from '../services';
+import { OutgoingTranslation } from '../services/TranslationService';
+import { hasScope } from '../services/ApiKeyService';
+import { decodeMessageCursor } from '../services/MessageStoreService';
 import { logError, logInfo } from '../config/logger';
 import { formatMessages } from '../utils/messageFormatter';
 
 const deviceManager = DeviceManager.getInstance();
 const messageQueueService = MessageQueueService.getInstance();
 const deviceHealthService = DeviceHealthService.getInstance();
+const messageStatusService = MessageStatusService.getInstance();
+const messageStore = MessageStoreService.getInstance();
+const translationService = TranslationService.getInstance();
 
 /**
  * Message Controller
@@ -33,11 +39,16 @@ export const sendMessage = async (req: Request, res: Response): Promise<void> =>
       type = 'text',
       priority = 'normal',
       useQueue = true,  // New option to choose queue vs direct
-      enableTyping = true  // New option for typing indicator
+      enableTyping = true,  // New option for typing indicator
+      sendAt,  // ISO timestamp (Date after validation) or cron expression
+      translateTo  // Language code, or 'auto' for the chat's customer language
     } = req.body;
+    // Set when the send was addressed to a device pool, which picked this device
+    const pool: { poolId: string; sticky: boolean } | undefined = res.locals.pool;
 
     const device = deviceManager.getDevice(id);
-    if (!device) {
+    // A pool may pick a device another cluster node runs; the message is queued here and that node sends it
+    if (!device && !(pool && await ClusterService.getInstance().isOwnedElsewhere(id))) {
       res.status(404).json({ success: false, error: 'Device not found' });
       return;
     }
@@ -116,9 +127,84 @@ export const sendMessage = async (req: Request, res: Response): Promise<void> =>
       return;
     }
 
+    // Translate text and captions before they are queued; the original is kept for audit
+    let translation: OutgoingTranslation | undefined;
+    if (translateTo && messageType !== 'location' && messageContent) {
+      if (!req.apiKey || !hasScope(req.apiKey.scopes, 'ai:use')) {
+        res.status(403).json({
+          success: false,
+          error: 'API key is missing required scope(s): ai:use',
+          code: 'INSUFFICIENT_SCOPE'
+        });
+        return;
+      }
+
+      const language = translateTo === 'auto'
+        ? await translationService.getCustomerLanguage(id, formattedTo)
+        : translateTo;
+
+      if (!language) {
+        res.status(400).json({
+          success: false,
+          error: 'No language is known for this chat yet. Set its customer language or pass a language code in translateTo.'
+        });
+        return;
+      }
+
+      try {
+        translation = await translationService.translateOutgoing(id, formattedTo, messageContent, language, {
+          apiKeyId: req.apiKey?.id,
+          deviceId: id
+        });
+      } catch (error: any) {
+        if (error instanceof AIBudgetExceededError) {
+          res.status(429).json({ success: false, error: error.message });
+          return;
+        }
+        logError('Error translating outgoing message:', error);
+        res.status(502).json({ success: false, error: 'Failed to translate the message', details: error.message });
+        return;
+      }
+      messageContent = translation.text;
+    }
+
     let result;
 
-    if (useQueue) {
+    if (sendAt) {
+      // Scheduled messages always go through the queue
+      const schedule: MessageSchedule = sendAt instanceof Date
+        ? { sendAt: sendAt.getTime() }
+        : { recurrence: sendAt };
+
+      const messageId = await messageQueueService.queueMessage({
+        deviceId: id,
+        to: formattedTo,
+        type: messageType === 'location' ? 'media' : messageType,
+        content: messageContent,
+        mediaBase64: mediaData,
+        mediaType: mediaType,
+        options: sendOptions,
+        priority: priority as 'high' | 'normal' | 'low',
+        maxAttempts: 3,
+        translation,
+        poolId: pool?.poolId
+      }, schedule);
+
+      const scheduledMessage = await messageQueueService.getScheduledMessage(id, messageId);
+
+      res.status(202).json({
+        success: true,
+        message: schedule.recurrence ? 'Recurring message scheduled successfully' : 'Message scheduled successfully',
+        data: {
+          messageId,
+          status: 'scheduled',
+          scheduledAt: scheduledMessage?.scheduledAt,
+          recurrence: schedule.recurrence,
+          translation,
+          pool: pool && { ...pool, deviceId: id }
+        }
+      });
+    } else if (useQueue || !device) {
       // Use queue system - Recommended for reliability
       const messageId = await messageQueueService.queueMessage({
         deviceId: id,
@@ -129,7 +215,9 @@ export const sendMessage = async (req: Request, res: Response): Promise<void> =>
         mediaType: mediaType,
         options: sendOptions,
         priority: priority as 'high' | 'normal' | 'low',
-        maxAttempts: 3
+        maxAttempts: 3,
+        translation,
+        poolId: pool?.poolId
       });
 
       const queueStatus = await messageQueueService.getQueueStatus();
@@ -138,6 +226,8 @@ export const sendMessage = async (req: Request, res: Response): Promise<void> =>
       result = {
         messageId,
         status: 'queued',
+        translation,
+        pool: pool && { ...pool, deviceId: id },
         queue: {
           pending: queueStatus.pending,
           processing: queueStatus.processing,
@@ -178,6 +268,10 @@ export const sendMessage = async (req: Request, res: Response): Promise<void> =>
       } else {
         message = await device.client.sendMessage(formattedTo, messageContent, sendOptions);
       }
+
+      if (translation && message?.id?._serialized) {
+        await translationService.saveOutgoing(id, message.id._serialized, formattedTo, translation);
+      }
       
       result = {
         message,
@@ -185,6 +279,8 @@ export const sendMessage = async (req: Request, res: Response): Promise<void> =>
         recipient: formattedTo,
         hasMentions: mentions && mentions.length > 0,
         isReply: !!quotedMessageId,
+        translation,
+        pool: pool && { ...pool, deviceId: id },
         status: 'sent'
       };
 
@@ -194,7 +290,7 @@ export const sendMessage = async (req: Request, res: Response): Promise<void> =>
       });
     }
 
-    logInfo(`Message ${useQueue ? 'queued' : 'sent'} from device ${deviceManager.getFormattedDeviceId(id)} to ${formattedTo}`);
+    logInfo(`Message ${useQueue || !device ? 'queued' : 'sent'} from device ${deviceManager.getFormattedDeviceId(id)} to ${formattedTo}`);
 
   } catch (error: any) {
     logError('Error in message sending:', error);
@@ -226,25 +322,8 @@ export const forwardMessage = async (req: Request, res: Response): Promise<void>
       formattedTo = `${to}@c.us`;
     }
 
-    // Find the original message
-    let originalMessage;
-    if (fromChatId) {
-      const sourceChat = await device.client.getChatById(fromChatId);
-      const messages = await sourceChat.fetchMessages({ limit: 100 });
-      originalMessage = messages.find(msg => msg.id._serialized === messageId);
-    } else {
-      // Search across all recent chats
-      const chats = await device.client.getChats();
-      for (const chat of chats.slice(0, 20)) {
-        try {
-          const messages = await chat.fetchMessages({ limit: 50 });
-          originalMessage = messages.find(msg => msg.id._serialized === messageId);
-          if (originalMessage) break;
-        } catch (err) {
-          continue;
-        }
-      }
-    }
+    // Find the original message through the message index, falling back to recent chats
+    const originalMessage = await messageStore.findMessage(id, device.client, messageId, fromChatId);
 
     if (!originalMessage) {
       res.status(404).json({ success: false, error: 'Message not found' });
@@ -321,24 +400,8 @@ export const deleteMessage = async (req: Request, res: Response): Promise<void>
       return;
     }
 
-    // Find the message to delete
-    let messageToDelete;
-    if (fromChatId) {
-      const chat = await device.client.getChatById(fromChatId);
-      const messages = await chat.fetchMessages({ limit: 100 });
-      messageToDelete = messages.find(msg => msg.id._serialized === messageId);
-    } else {
-      const chats = await device.client.getChats();
-      for (const chat of chats.slice(0, 20)) {
-        try {
-          const messages = await chat.fetchMessages({ limit: 50 });
-          messageToDelete = messages.find(msg => msg.id._serialized === messageId);
-          if (messageToDelete) break;
-        } catch (err) {
-          continue;
-        }
-      }
-    }
+    // Find the message to delete through the message index, falling back to recent chats
+    const messageToDelete = await messageStore.findMessage(id, device.client, messageId, fromChatId);
 
     if (!messageToDelete) {
       res.status(404).json({ success: false, error: 'Message not found' });
@@ -368,13 +431,67 @@ export const deleteMessage = async (req: Request, res: Response): Promise<void>
 };
 
 /**
- * Search messages
+ * Search result view of an indexed message
+ */
+const toSearchResult = (deviceId: string, message: StoredMessage) => ({
+  messageId: message.messageId,
+  chatId: message.chatId,
+  sender: message.sender,
+  body: message.body,
+  timestamp: message.timestamp,
+  fromMe: message.fromMe,
+  type: message.type,
+  hasMedia: message.hasMedia,
+  mediaInfo: message.hasMedia ? {
+    mimetype: message.mediaMimetype,
+    filename: message.mediaFilename,
+    filesize: message.mediaSize,
+    downloadUrl: `/api/v1/devices/${deviceId}/messages/${message.messageId}/media/download`
+  } : undefined,
+  isForwarded: message.isForwarded,
+  quotedMessageId: message.quotedMessageId
+});
+
+/**
+ * GET /api/v1/devices/:id/messages/search
+ * Search messages through the message index, or recent chats when no index is configured
  */
 export const searchMessages = async (req: Request, res: Response): Promise<void> => {
   try {
     const { id } = req.params;
     const { query, limit = 50, chatId } = req.query;
 
+    if (messageStore.isEnabled()) {
+      const filters = req.query as unknown as MessageSearchFilters;
+
+      if (!deviceManager.getDevice(id)) {
+        res.status(404).json({ success: false, error: 'Device not found' });
+        return;
+      }
+
+      if (filters.cursor && !decodeMessageCursor(filters.cursor)) {
+        res.status(400).json({ success: false, error: 'Invalid cursor' });
+        return;
+      }
+
+      const page = await messageStore.searchMessages(id, filters);
+
+      res.json({
+        success: true,
+        data: page.messages.map(message => toSearchResult(id, message)),
+        query: query || null,
+        totalResults: page.messages.length,
+        searchScope: chatId ? 'single_chat' : 'all_chats',
+        source: 'index',
+        pagination: {
+          limit: filters.limit,
+          nextCursor: page.nextCursor,
+          hasMore: page.nextCursor !== null
+        }
+      });
+      return;
+    }
+
     if (!query) {
       res.status(400).json({ success: false, error: 'Search query is required' });
       return;
@@ -466,7 +583,8 @@ export const searchMessages = async (req: Request, res: Response): Promise<void>
       data: searchResults,
       query: query,
       totalResults: searchResults.length,
-      searchScope: chatId ? 'single_chat' : 'all_chats'
+      searchScope: chatId ? 'single_chat' : 'all_chats',
+      source: 'recent_chats'
     });
 
   } catch (error: any) {
@@ -491,6 +609,7 @@ export const getMessageStatus = async (req: Request, res: Response): Promise<voi
     const deviceStatus = await messageQueueService.getDeviceStatus(id);
     const deviceHealth = await deviceHealthService.getDeviceHealth(id);
     const safetyCheck = await deviceHealthService.isSafeToSendMessage(id);
+    const delivery = messageId ? await messageStatusService.getTimeline(id, messageId as string) : null;
 
     res.json({
       success: true,
@@ -505,6 +624,7 @@ export const getMessageStatus = async (req: Request, res: Response): Promise<voi
           warnings: deviceHealth.warnings
         } : null,
         safety: safetyCheck,
+        delivery,
         timestamp: Date.now()
       }
     });
@@ -518,3 +638,35 @@ export const getMessageStatus = async (req: Request, res: Response): Promise<voi
     });
   }
 };
+
+/**
+ * GET /api/v1/devices/:id/messages/:messageId/status
+ * Delivery status timeline of a sent message, by WhatsApp message ID or queue ID
+ */
+export const getMessageStatusTimeline = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { id, messageId } = req.params;
+    const timeline = await messageStatusService.getTimeline(id, messageId);
+
+    if (!timeline) {
+      res.status(404).json({
+        success: false,
+        error: 'No delivery status recorded for this message'
+      });
+      return;
+    }
+
+    res.json({
+      success: true,
+      data: timeline
+    });
+
+  } catch (error: any) {
+    logError(`Error getting status timeline for message ${req.params.messageId}:`, error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to get message status timeline.',
+      details: process.env.NODE_ENV === 'development' ? error.message : undefined
+    });
+  }
+};
@@ -0,0 +1,176 @@
+import { Request, Response } from 'express';
+import { DeviceManager, DevicePoolService } from '../services';
+import { logError } from '../config/logger';
+import { sendMessage as sendDeviceMessage } from './message.controller';
+
+const deviceManager = DeviceManager.getInstance();
+const devicePoolService = DevicePoolService.getInstance();
+
+/**
+ * Reject device IDs that don't exist, since sends could never use them. Devices other cluster nodes run are only stored here.
+ */
+const checkDevices = async (deviceIds: string[] | undefined, res: Response): Promise<boolean> => {
+  const unknown: string[] = [];
+  for (const deviceId of deviceIds || []) {
+    if (!deviceManager.getDevice(deviceId) && !(await deviceManager.getStoredDevice(deviceId))) {
+      unknown.push(deviceId);
+    }
+  }
+  if (unknown.length === 0) {
+    return true;
+  }
+
+  res.status(400).json({ success: false, error: `Unknown device(s): ${unknown.join(', ')}` });
+  return false;
+};
+
+/**
+ * GET /api/v1/pools
+ */
+export const listPools = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const pools = await devicePoolService.listPools();
+    res.json({ success: true, data: pools });
+  } catch (error: any) {
+    logError('Error listing device pools:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to list device pools',
+      details: process.env.NODE_ENV === 'development' ? error.message : undefined,
+    });
+  }
+};
+
+/**
+ * POST /api/v1/pools
+ */
+export const createPool = async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!(await checkDevices(req.body.deviceIds, res))) return;
+
+    const pool = await devicePoolService.createPool(req.body);
+
+    res.status(201).json({
+      success: true,
+      message: 'Device pool created successfully',
+      data: pool,
+    });
+  } catch (error: any) {
+    logError('Error creating device pool:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to create device pool',
+      details: process.env.NODE_ENV === 'development' ? error.message : undefined,
+    });
+  }
+};
+
+/**
+ * GET /api/v1/pools/:poolId
+ * The pool with the current state of each device
+ */
+export const getPool = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const pool = await devicePoolService.getPool(req.params.poolId);
+
+    if (!pool) {
+      res.status(404).json({ success: false, error: 'Device pool not found' });
+      return;
+    }
+
+    const devices = await devicePoolService.getPoolStatus(pool);
+    res.json({ success: true, data: { ...pool, devices } });
+  } catch (error: any) {
+    logError(`Error getting device pool ${req.params.poolId}:`, error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to get device pool',
+      details: process.env.NODE_ENV === 'development' ? error.message : undefined,
+    });
+  }
+};
+
+/**
+ * PATCH /api/v1/pools/:poolId
+ */
+export const updatePool = async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!(await checkDevices(req.body.deviceIds, res))) return;
+
+    const pool = await devicePoolService.updatePool(req.params.poolId, req.body);
+
+    if (!pool) {
+      res.status(404).json({ success: false, error: 'Device pool not found' });
+      return;
+    }
+
+    res.json({
+      success: true,
+      message: 'Device pool updated successfully',
+      data: pool,
+    });
+  } catch (error: any) {
+    logError(`Error updating device pool ${req.params.poolId}:`, error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to update device pool',
+      details: process.env.NODE_ENV === 'development' ? error.message : undefined,
+    });
+  }
+};
+
+/**
+ * DELETE /api/v1/pools/:poolId
+ */
+export const deletePool = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const deleted = await devicePoolService.deletePool(req.params.poolId);
+
+    if (!deleted) {
+      res.status(404).json({ success: false, error: 'Device pool not found' });
+      return;
+    }
+
+    res.json({ success: true, message: 'Device pool deleted successfully' });
+  } catch (error: any) {
+    logError(`Error deleting device pool ${req.params.poolId}:`, error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to delete device pool',
+      details: process.env.NODE_ENV === 'development' ? error.message : undefined,
+    });
+  }
+};
+
+/**
+ * POST /api/v1/pools/:poolId/messages/send
+ * Pick a device from the pool and send from it, like POST /devices/:id/messages/send
+ */
+export const sendMessage = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const to = req.body.to.trim();
+    const recipient = to.includes('@') ? to : `${to}@c.us`;
+
+    const selection = await devicePoolService.selectDevice(req.params.poolId, recipient);
+
+    if (selection.status === 'not_found') {
+      res.status(404).json({ success: false, error: 'Device pool not found' });
+      return;
+    }
+    if (selection.status === 'unavailable') {
+      res.status(503).json({ success: false, error: selection.reason });
+      return;
+    }
+
+    req.params.id = selection.deviceId!;
+    res.locals.pool = { poolId: req.params.poolId, sticky: selection.sticky };
+    await sendDeviceMessage(req, res);
+  } catch (error: any) {
+    logError(`Error sending through device pool ${req.params.poolId}:`, error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to send message.',
+      details: process.env.NODE_ENV === 'development' ? error.message : undefined,
+    });
+  }
+};
@@ -1,9 +1,32 @@
 import { Request, Response } from 'express';
-import { MessageQueueService, DeviceHealthService } from '../services';
+import { MessageQueueService, DeviceHealthService, DeviceManager, DeadLetter, DeadLetterFilter } from '../services';
 import { logError, logInfo } from '../config/logger';
 
 const messageQueueService = MessageQueueService.getInstance();
 const deviceHealthService = DeviceHealthService.getInstance();
+const deviceManager = DeviceManager.getInstance();
+
+/**
+ * Filter of the bulk dead-letter endpoints; all: true leaves it empty so it matches every dead letter
+ */
+const toDeadLetterFilter = (body: { ids?: string[]; deviceId?: string; before?: Date }): DeadLetterFilter => ({
+  ids: body.ids,
+  deviceId: body.deviceId,
+  before: body.before?.getTime(),
+});
+
+/**
+ * Reject a retry device that doesn't exist, since the message could never leave the queue.
+ * Devices other cluster nodes run are only stored here.
+ */
+const checkTargetDevice = async (targetDeviceId: string | undefined, res: Response): Promise<boolean> => {
+  if (!targetDeviceId || deviceManager.getDevice(targetDeviceId) || await deviceManager.getStoredDevice(targetDeviceId)) {
+    return true;
+  }
+
+  res.status(400).json({ success: false, error: `Unknown device: ${targetDeviceId}` });
+  return false;
+};
 
 /**
  * GET /api/v1/queue/status
@@ -303,3 +326,164 @@ export const getBlockingPreventionDashboard = async (req: Request, res: Response
     });
   }
 };
+
+/**
+ * GET /api/v1/queue/dead-letters
+ * List messages that failed every attempt, most recent first. Media is left out; get a dead letter for it.
+ */
+export const listDeadLetters = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { deviceId, before, limit = 100, offset = 0 } = req.query as { deviceId?: string; before?: Date; limit?: number; offset?: number };
+
+    const deadLetters = await messageQueueService.getDeadLetters({ deviceId, before: before?.getTime() });
+
+    res.json({
+      success: true,
+      data: deadLetters.slice(offset, offset + limit).map((deadLetter: DeadLetter) => ({
+        ...deadLetter,
+        message: { ...deadLetter.message, mediaBase64: undefined },
+      })),
+      pagination: {
+        total: deadLetters.length,
+        limit,
+        offset,
+        hasMore: offset + limit < deadLetters.length,
+      },
+    });
+  } catch (error: any) {
+    logError('Error listing dead letters:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to list dead letters',
+      details: process.env.NODE_ENV === 'development' ? error.message : undefined
+    });
+  }
+};
+
+/**
+ * GET /api/v1/queue/dead-letters/:deadLetterId
+ */
+export const getDeadLetter = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const deadLetter = await messageQueueService.getDeadLetter(req.params.deadLetterId);
+
+    if (!deadLetter) {
+      res.status(404).json({ success: false, error: 'Dead letter not found' });
+      return;
+    }
+
+    res.json({ success: true, data: deadLetter });
+  } catch (error: any) {
+    logError(`Error getting dead letter ${req.params.deadLetterId}:`, error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to get dead letter',
+      details: process.env.NODE_ENV === 'development' ? error.message : undefined
+    });
+  }
+};
+
+/**
+ * POST /api/v1/queue/dead-letters/:deadLetterId/retry
+ * Queue a dead letter again, optionally from another device
+ */
+export const retryDeadLetter = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { targetDeviceId } = req.body;
+    if (!(await checkTargetDevice(targetDeviceId, res))) return;
+
+    const result = await messageQueueService.retryDeadLetter(req.params.deadLetterId, targetDeviceId);
+
+    if (result.status === 'not_found') {
+      res.status(404).json({ success: false, error: 'Dead letter not found' });
+      return;
+    }
+
+    res.status(202).json({
+      success: true,
+      message: 'Dead letter queued again',
+      data: { queueId: result.queueId },
+    });
+  } catch (error: any) {
+    logError(`Error retrying dead letter ${req.params.deadLetterId}:`, error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to retry dead letter',
+      details: process.env.NODE_ENV === 'development' ? error.message : undefined
+    });
+  }
+};
+
+/**
+ * DELETE /api/v1/queue/dead-letters/:deadLetterId
+ */
+export const purgeDeadLetter = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const purged = await messageQueueService.purgeDeadLetter(req.params.deadLetterId);
+
+    if (!purged) {
+      res.status(404).json({ success: false, error: 'Dead letter not found' });
+      return;
+    }
+
+    res.json({ success: true, message: 'Dead letter purged successfully' });
+  } catch (error: any) {
+    logError(`Error purging dead letter ${req.params.deadLetterId}:`, error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to purge dead letter',
+      details: process.env.NODE_ENV === 'development' ? error.message : undefined
+    });
+  }
+};
+
+/**
+ * POST /api/v1/queue/dead-letters/retry
+ * Queue again every dead letter matching the filter
+ */
+export const retryDeadLetters = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { targetDeviceId } = req.body;
+    if (!(await checkTargetDevice(targetDeviceId, res))) return;
+
+    const retried = await messageQueueService.retryDeadLetters(toDeadLetterFilter(req.body), targetDeviceId);
+
+    logInfo(`Dead letters retried: ${retried} messages queued again`);
+
+    res.status(202).json({
+      success: true,
+      message: 'Dead letters queued again',
+      data: { retried },
+    });
+  } catch (error: any) {
+    logError('Error retrying dead letters:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to retry dead letters',
+      details: process.env.NODE_ENV === 'development' ? error.message : undefined
+    });
+  }
+};
+
+/**
+ * POST /api/v1/queue/dead-letters/purge
+ * Delete every dead letter matching the filter
+ */
+export const purgeDeadLetters = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const purged = await messageQueueService.purgeDeadLetters(toDeadLetterFilter(req.body));
+
+    res.json({
+      success: true,
+      message: 'Dead letters purged successfully',
+      data: { purged },
+    });
+  } catch (error: any) {
+    logError('Error purging dead letters:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to purge dead letters',
+      details: process.env.NODE_ENV === 'development' ? error.message : undefined
+    });
+  }
+};
@@ -0,0 +1,174 @@
+import { Request, Response } from 'express';
+import { DeviceManager, RecipientPolicyService } from '../services';
+import { logError } from '../config/logger';
+
+const deviceManager = DeviceManager.getInstance();
+const recipientPolicyService = RecipientPolicyService.getInstance();
+
+const sendNotConfigured = (res: Response): void => {
+  res.status(404).json({
+    success: false,
+    error: 'Recipient policy is not configured for this device',
+  });
+};
+
+const formatChatId = (id: string): string => (id.includes('@') ? id : `${id.replace(/\D/g, '')}@c.us`);
+
+/**
+ * GET /api/v1/devices/:id/recipient-policy
+ */
+export const getPolicy = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const policy = await recipientPolicyService.getPolicy(req.params.id);
+
+    if (!policy) {
+      sendNotConfigured(res);
+      return;
+    }
+
+    res.json({ success: true, data: policy });
+  } catch (error: any) {
+    logError(`Error getting recipient policy for device ${req.params.id}:`, error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to get recipient policy',
+      details: process.env.NODE_ENV === 'development' ? error.message : undefined,
+    });
+  }
+};
+
+/**
+ * PUT /api/v1/devices/:id/recipient-policy
+ * Create or replace the policy
+ */
+export const setPolicy = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { id } = req.params;
+
+    if (!deviceManager.getDevice(id)) {
+      res.status(404).json({ success: false, error: 'Device not found' });
+      return;
+    }
+
+    const policy = await recipientPolicyService.setPolicy(id, req.body);
+
+    res.json({
+      success: true,
+      message: 'Recipient policy set successfully',
+      data: policy,
+    });
+  } catch (error: any) {
+    logError(`Error setting recipient policy for device ${req.params.id}:`, error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to set recipient policy',
+      details: process.env.NODE_ENV === 'development' ? error.message : undefined,
+    });
+  }
+};
+
+/**
+ * PATCH /api/v1/devices/:id/recipient-policy
+ * Change some rules of an existing policy; rules set to null are removed
+ */
+export const updatePolicy = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const policy = await recipientPolicyService.updatePolicy(req.params.id, req.body);
+
+    if (!policy) {
+      sendNotConfigured(res);
+      return;
+    }
+
+    res.json({
+      success: true,
+      message: 'Recipient policy updated successfully',
+      data: policy,
+    });
+  } catch (error: any) {
+    logError(`Error updating recipient policy for device ${req.params.id}:`, error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to update recipient policy',
+      details: process.env.NODE_ENV === 'development' ? error.message : undefined,
+    });
+  }
+};
+
+/**
+ * DELETE /api/v1/devices/:id/recipient-policy
+ */
+export const deletePolicy = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const deleted = await recipientPolicyService.deletePolicy(req.params.id);
+
+    if (!deleted) {
+      sendNotConfigured(res);
+      return;
+    }
+
+    res.json({ success: true, message: 'Recipient policy removed successfully' });
+  } catch (error: any) {
+    logError(`Error removing recipient policy for device ${req.params.id}:`, error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to remove recipient policy',
+      details: process.env.NODE_ENV === 'development' ? error.message : undefined,
+    });
+  }
+};
+
+/**
+ * GET /api/v1/devices/:id/recipient-policy/recipients/:chatId
+ * What the device knows about a recipient, and whether a message to them would go out now
+ */
+export const getRecipient = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const chatId = formatChatId(req.params.chatId);
+
+    const [policy, state] = await Promise.all([
+      recipientPolicyService.getPolicy(id),
+      recipientPolicyService.getRecipient(id, chatId),
+    ]);
+
+    res.json({
+      success: true,
+      data: {
+        ...(state || { chatId, sent: 0, unanswered: 0 }),
+        timezone: policy ? recipientPolicyService.getRecipientTimezone(policy, chatId, state) : state?.timezone,
+        policyDecision: await recipientPolicyService.checkMessage(id, chatId),
+      },
+    });
+  } catch (error: any) {
+    logError(`Error getting policy recipient for device ${req.params.id}:`, error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to get recipient',
+      details: process.env.NODE_ENV === 'development' ? error.message : undefined,
+    });
+  }
+};
+
+/**
+ * PATCH /api/v1/devices/:id/recipient-policy/recipients/:chatId
+ * Set the timezone quiet hours use for a recipient
+ */
+export const updateRecipient = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const state = await recipientPolicyService.setRecipientTimezone(req.params.id, formatChatId(req.params.chatId), req.body.timezone);
+
+    res.json({
+      success: true,
+      message: 'Recipient updated successfully',
+      data: state,
+    });
+  } catch (error: any) {
+    logError(`Error updating policy recipient for device ${req.params.id}:`, error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to update recipient',
+      details: process.env.NODE_ENV === 'development' ? error.message : undefined,
+    });
+  }
+};
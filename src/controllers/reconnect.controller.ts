@@ -0,0 +1,150 @@
+import { Request, Response } from 'express';
+import { DeviceManager, DeviceSupervisorService } from '../services';
+import { logError } from '../config/logger';
+
+const deviceManager = DeviceManager.getInstance();
+const supervisor = DeviceSupervisorService.getInstance();
+
+const sendDeviceNotFound = (res: Response): void => {
+  res.status(404).json({
+    success: false,
+    error: 'Device not found',
+  });
+};
+
+/**
+ * GET /api/v1/devices/:id/reconnect
+ * Restarts since the device was last ready, and the policy they follow
+ */
+export const getStatus = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { id } = req.params;
+    const device = deviceManager.getDevice(id);
+
+    if (!device) {
+      sendDeviceNotFound(res);
+      return;
+    }
+
+    res.json({
+      success: true,
+      data: {
+        status: device.status,
+        ...supervisor.getState(id),
+        policy: await supervisor.getPolicy(id),
+      },
+    });
+  } catch (error: any) {
+    logError(`Error getting reconnect status for device ${req.params.id}:`, error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to get reconnect status',
+      details: process.env.NODE_ENV === 'development' ? error.message : undefined,
+    });
+  }
+};
+
+/**
+ * POST /api/v1/devices/:id/reconnect
+ * Restart the WhatsApp client now, also after the supervisor gave up
+ */
+export const reconnect = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { id } = req.params;
+
+    if (!(await supervisor.reconnectNow(id))) {
+      sendDeviceNotFound(res);
+      return;
+    }
+
+    res.status(202).json({
+      success: true,
+      message: 'Device is reconnecting',
+      data: supervisor.getState(id),
+    });
+  } catch (error: any) {
+    logError(`Error reconnecting device ${req.params.id}:`, error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to reconnect device',
+      details: process.env.NODE_ENV === 'development' ? error.message : undefined,
+    });
+  }
+};
+
+/**
+ * GET /api/v1/devices/:id/reconnect/policy
+ */
+export const getPolicy = async (req: Request, res: Response): Promise<void> => {
+  try {
+    res.json({ success: true, data: await supervisor.getPolicy(req.params.id) });
+  } catch (error: any) {
+    logError(`Error getting reconnect policy for device ${req.params.id}:`, error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to get reconnect policy',
+      details: process.env.NODE_ENV === 'development' ? error.message : undefined,
+    });
+  }
+};
+
+/**
+ * PUT /api/v1/devices/:id/reconnect/policy
+ * Replace the device's own settings; settings left out follow the defaults
+ */
+export const setPolicy = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { id } = req.params;
+
+    if (!deviceManager.getDevice(id)) {
+      sendDeviceNotFound(res);
+      return;
+    }
+
+    const policy = await supervisor.setPolicy(id, req.body);
+
+    res.json({
+      success: true,
+      message: 'Reconnect policy set successfully',
+      data: policy,
+    });
+  } catch (error: any) {
+    logError(`Error setting reconnect policy for device ${req.params.id}:`, error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to set reconnect policy',
+      details: process.env.NODE_ENV === 'development' ? error.message : undefined,
+    });
+  }
+};
+
+/**
+ * DELETE /api/v1/devices/:id/reconnect/policy
+ * Go back to the default settings
+ */
+export const deletePolicy = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const deleted = await supervisor.deletePolicy(req.params.id);
+
+    if (!deleted) {
+      res.status(404).json({
+        success: false,
+        error: 'Device has no reconnect policy of its own',
+      });
+      return;
+    }
+
+    res.json({
+      success: true,
+      message: 'Reconnect policy removed, the device follows the defaults',
+      data: await supervisor.getPolicy(req.params.id),
+    });
+  } catch (error: any) {
+    logError(`Error removing reconnect policy for device ${req.params.id}:`, error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to remove reconnect policy',
+      details: process.env.NODE_ENV === 'development' ? error.message : undefined,
+    });
+  }
+};
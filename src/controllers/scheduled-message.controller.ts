@@ -0,0 +1,151 @@
+import { Request, Response } from 'express';
+import { MessageQueueService, QueuedMessage, MessageSchedule } from '../services';
+import { logError } from '../config/logger';
+
+const messageQueueService = MessageQueueService.getInstance();
+
+/**
+ * Scheduled message view without the (potentially large) media payload
+ */
+const toScheduledMessageView = (message: QueuedMessage) => {
+  const { mediaBase64, delay, scheduled, ...view } = message;
+  return {
+    ...view,
+    hasMedia: !!mediaBase64,
+  };
+};
+
+const toSchedule = (sendAt: Date | string): MessageSchedule =>
+  sendAt instanceof Date ? { sendAt: sendAt.getTime() } : { recurrence: sendAt };
+
+/**
+ * GET /api/v1/devices/:id/scheduled
+ * List pending scheduled messages for a device, soonest first
+ */
+export const listScheduledMessages = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const messages = await messageQueueService.getScheduledMessages(req.params.id);
+
+    res.json({
+      success: true,
+      data: messages.map(toScheduledMessageView),
+    });
+  } catch (error: any) {
+    logError(`Error listing scheduled messages for device ${req.params.id}:`, error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to list scheduled messages',
+      details: process.env.NODE_ENV === 'development' ? error.message : undefined,
+    });
+  }
+};
+
+/**
+ * GET /api/v1/devices/:id/scheduled/:queueId
+ * Get a single scheduled message
+ */
+export const getScheduledMessage = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { id, queueId } = req.params;
+    const message = await messageQueueService.getScheduledMessage(id, queueId);
+
+    if (!message) {
+      res.status(404).json({
+        success: false,
+        error: 'Scheduled message not found',
+      });
+      return;
+    }
+
+    res.json({
+      success: true,
+      data: toScheduledMessageView(message),
+    });
+  } catch (error: any) {
+    logError(`Error getting scheduled message ${req.params.queueId}:`, error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to get scheduled message',
+      details: process.env.NODE_ENV === 'development' ? error.message : undefined,
+    });
+  }
+};
+
+/**
+ * PATCH /api/v1/devices/:id/scheduled/:queueId
+ * Move a scheduled message to a new time or recurrence
+ */
+export const rescheduleMessage = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { id, queueId } = req.params;
+    const result = await messageQueueService.rescheduleScheduledMessage(id, queueId, toSchedule(req.body.sendAt));
+
+    if (result.status === 'not_found') {
+      res.status(404).json({
+        success: false,
+        error: 'Scheduled message not found',
+      });
+      return;
+    }
+
+    if (result.status === 'sending') {
+      res.status(409).json({
+        success: false,
+        error: 'Message is already being sent and can no longer be rescheduled',
+      });
+      return;
+    }
+
+    res.json({
+      success: true,
+      message: 'Message rescheduled successfully',
+      data: toScheduledMessageView(result.message!),
+    });
+  } catch (error: any) {
+    logError(`Error rescheduling message ${req.params.queueId}:`, error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to reschedule message',
+      details: process.env.NODE_ENV === 'development' ? error.message : undefined,
+    });
+  }
+};
+
+/**
+ * DELETE /api/v1/devices/:id/scheduled/:queueId
+ * Cancel a scheduled message (and every future occurrence of a recurring one)
+ */
+export const cancelScheduledMessage = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { id, queueId } = req.params;
+    const result = await messageQueueService.cancelScheduledMessage(id, queueId);
+
+    if (result === 'not_found') {
+      res.status(404).json({
+        success: false,
+        error: 'Scheduled message not found',
+      });
+      return;
+    }
+
+    if (result === 'sending') {
+      res.status(409).json({
+        success: false,
+        error: 'Message is already being sent and can no longer be cancelled',
+      });
+      return;
+    }
+
+    res.json({
+      success: true,
+      message: 'Scheduled message cancelled successfully',
+    });
+  } catch (error: any) {
+    logError(`Error cancelling scheduled message ${req.params.queueId}:`, error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to cancel scheduled message',
+      details: process.env.NODE_ENV === 'development' ? error.message : undefined,
+    });
+  }
+};
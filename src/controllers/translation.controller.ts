@@ -0,0 +1,177 @@
+import { Request, Response } from 'express';
+import { AIService, TranslationService } from '../services';
+import { logError } from '../config/logger';
+
+const translationService = TranslationService.getInstance();
+
+const formatChatId = (id: string): string => (id.includes('@') ? id : `${id.replace(/\D/g, '')}@c.us`);
+
+const checkEnabled = (res: Response): boolean => {
+  if (translationService.isEnabled()) {
+    return true;
+  }
+
+  res.status(503).json({ success: false, error: 'Translation needs Redis, which is disabled' });
+  return false;
+};
+
+const checkProvider = (provider: string | undefined, res: Response): boolean => {
+  if (!provider || AIService.getInstance().getAvailableProviders().includes(provider)) {
+    return true;
+  }
+
+  res.status(400).json({
+    success: false,
+    error: `AI provider '${provider}' is not configured`,
+    available: AIService.getInstance().getAvailableProviders(),
+  });
+  return false;
+};
+
+/**
+ * GET /api/v1/devices/:id/translation/chats
+ * Chats with translation settings, most recently changed first
+ */
+export const listChats = async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!checkEnabled(res)) return;
+
+    const chats = await translationService.listChats(req.params.id);
+    res.json({ success: true, data: chats });
+  } catch (error: any) {
+    logError(`Error listing translated chats for device ${req.params.id}:`, error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to list translated chats',
+      details: process.env.NODE_ENV === 'development' ? error.message : undefined,
+    });
+  }
+};
+
+/**
+ * GET /api/v1/devices/:id/translation/chats/:chatId
+ */
+export const getChat = async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!checkEnabled(res)) return;
+
+    const chat = await translationService.getChat(req.params.id, formatChatId(req.params.chatId));
+
+    if (!chat) {
+      res.status(404).json({ success: false, error: 'Translation is not set up for this chat' });
+      return;
+    }
+
+    res.json({ success: true, data: chat });
+  } catch (error: any) {
+    logError(`Error getting translation settings for chat ${req.params.chatId}:`, error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to get translation settings',
+      details: process.env.NODE_ENV === 'development' ? error.message : undefined,
+    });
+  }
+};
+
+/**
+ * PATCH /api/v1/devices/:id/translation/chats/:chatId
+ * Set up translation for a chat, or change its settings
+ */
+export const updateChat = async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!checkEnabled(res) || !checkProvider(req.body.provider, res)) return;
+
+    const { id } = req.params;
+    const chatId = formatChatId(req.params.chatId);
+
+    if (!req.body.language && !(await translationService.getChat(id, chatId))) {
+      res.status(400).json({ success: false, error: 'language is required to set up translation for a chat' });
+      return;
+    }
+
+    const chat = await translationService.updateChat(id, chatId, req.body);
+
+    res.json({
+      success: true,
+      message: 'Translation settings updated successfully',
+      data: chat,
+    });
+  } catch (error: any) {
+    logError(`Error updating translation settings for chat ${req.params.chatId}:`, error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to update translation settings',
+      details: process.env.NODE_ENV === 'development' ? error.message : undefined,
+    });
+  }
+};
+
+/**
+ * DELETE /api/v1/devices/:id/translation/chats/:chatId
+ * Stop translating a chat and forget its detected language. Stored translations are kept.
+ */
+export const deleteChat = async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!checkEnabled(res)) return;
+
+    const deleted = await translationService.deleteChat(req.params.id, formatChatId(req.params.chatId));
+
+    if (!deleted) {
+      res.status(404).json({ success: false, error: 'Translation is not set up for this chat' });
+      return;
+    }
+
+    res.json({ success: true, message: 'Translation settings removed successfully' });
+  } catch (error: any) {
+    logError(`Error removing translation settings for chat ${req.params.chatId}:`, error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to remove translation settings',
+      details: process.env.NODE_ENV === 'development' ? error.message : undefined,
+    });
+  }
+};
+
+/**
+ * GET /api/v1/devices/:id/translation/glossary
+ */
+export const getGlossary = async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!checkEnabled(res)) return;
+
+    const glossary = await translationService.getGlossary(req.params.id);
+    res.json({ success: true, data: glossary });
+  } catch (error: any) {
+    logError(`Error getting translation glossary for device ${req.params.id}:`, error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to get glossary',
+      details: process.env.NODE_ENV === 'development' ? error.message : undefined,
+    });
+  }
+};
+
+/**
+ * PUT /api/v1/devices/:id/translation/glossary
+ * Replace the glossary used for every translated chat of the device
+ */
+export const setGlossary = async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!checkEnabled(res)) return;
+
+    const glossary = await translationService.setGlossary(req.params.id, req.body.entries);
+
+    res.json({
+      success: true,
+      message: 'Glossary updated successfully',
+      data: glossary,
+    });
+  } catch (error: any) {
+    logError(`Error setting translation glossary for device ${req.params.id}:`, error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to update glossary',
+      details: process.env.NODE_ENV === 'development' ? error.message : undefined,
+    });
+  }
+};
@@ -0,0 +1,260 @@
+import { Request, Response } from 'express';
+import { WebhookService, WebhookSubscription } from '../services/WebhookService';
+import { logError } from '../config/logger';
+
+const webhookService = WebhookService.getInstance();
+
+/**
+ * Hide all but the last few characters of a subscription's signing secret
+ */
+const maskSubscription = (subscription: WebhookSubscription) => ({
+  ...subscription,
+  secret: `****${subscription.secret.slice(-4)}`,
+});
+
+/**
+ * POST /api/v1/webhooks
+ * Create a webhook subscription. The signing secret is only returned here.
+ */
+export const createWebhook = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const subscription = await webhookService.createSubscription(req.body);
+
+    res.status(201).json({
+      success: true,
+      message: 'Webhook subscription created successfully',
+      data: subscription,
+    });
+  } catch (error: any) {
+    logError('Error creating webhook subscription:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to create webhook subscription',
+      details: process.env.NODE_ENV === 'development' ? error.message : undefined,
+    });
+  }
+};
+
+/**
+ * GET /api/v1/webhooks
+ * List all webhook subscriptions
+ */
+export const listWebhooks = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const subscriptions = await webhookService.listSubscriptions();
+
+    res.json({
+      success: true,
+      data: subscriptions.map(maskSubscription),
+    });
+  } catch (error: any) {
+    logError('Error listing webhook subscriptions:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to list webhook subscriptions',
+      details: process.env.NODE_ENV === 'development' ? error.message : undefined,
+    });
+  }
+};
+
+/**
+ * GET /api/v1/webhooks/:webhookId
+ * Get a single webhook subscription
+ */
+export const getWebhook = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const subscription = await webhookService.getSubscription(req.params.webhookId);
+
+    if (!subscription) {
+      res.status(404).json({
+        success: false,
+        error: 'Webhook not found',
+      });
+      return;
+    }
+
+    res.json({
+      success: true,
+      data: maskSubscription(subscription),
+    });
+  } catch (error: any) {
+    logError(`Error getting webhook ${req.params.webhookId}:`, error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to get webhook subscription',
+      details: process.env.NODE_ENV === 'development' ? error.message : undefined,
+    });
+  }
+};
+
+/**
+ * PATCH /api/v1/webhooks/:webhookId
+ * Update a webhook subscription
+ */
+export const updateWebhook = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const subscription = await webhookService.updateSubscription(req.params.webhookId, req.body);
+
+    if (!subscription) {
+      res.status(404).json({
+        success: false,
+        error: 'Webhook not found',
+      });
+      return;
+    }
+
+    res.json({
+      success: true,
+      message: 'Webhook subscription updated successfully',
+      data: maskSubscription(subscription),
+    });
+  } catch (error: any) {
+    logError(`Error updating webhook ${req.params.webhookId}:`, error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to update webhook subscription',
+      details: process.env.NODE_ENV === 'development' ? error.message : undefined,
+    });
+  }
+};
+
+/**
+ * DELETE /api/v1/webhooks/:webhookId
+ * Delete a webhook subscription and its delivery log
+ */
+export const deleteWebhook = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const deleted = await webhookService.deleteSubscription(req.params.webhookId);
+
+    if (!deleted) {
+      res.status(404).json({
+        success: false,
+        error: 'Webhook not found',
+      });
+      return;
+    }
+
+    res.json({
+      success: true,
+      message: 'Webhook subscription deleted successfully',
+    });
+  } catch (error: any) {
+    logError(`Error deleting webhook ${req.params.webhookId}:`, error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to delete webhook subscription',
+      details: process.env.NODE_ENV === 'development' ? error.message : undefined,
+    });
+  }
+};
+
+/**
+ * POST /api/v1/webhooks/:webhookId/test
+ * Queue a test event for a webhook subscription
+ */
+export const testWebhook = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const subscription = await webhookService.getSubscription(req.params.webhookId);
+
+    if (!subscription) {
+      res.status(404).json({
+        success: false,
+        error: 'Webhook not found',
+      });
+      return;
+    }
+
+    const delivery = await webhookService.sendTestEvent(subscription.id);
+
+    res.status(202).json({
+      success: true,
+      message: 'Test event queued for delivery',
+      data: delivery,
+    });
+  } catch (error: any) {
+    logError(`Error sending test event to webhook ${req.params.webhookId}:`, error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to send test event',
+      details: process.env.NODE_ENV === 'development' ? error.message : undefined,
+    });
+  }
+};
+
+/**
+ * GET /api/v1/webhooks/:webhookId/deliveries
+ * Get the delivery log for a webhook subscription
+ */
+export const getWebhookDeliveries = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const subscription = await webhookService.getSubscription(req.params.webhookId);
+
+    if (!subscription) {
+      res.status(404).json({
+        success: false,
+        error: 'Webhook not found',
+      });
+      return;
+    }
+
+    const { limit, status } = req.query as { limit?: string; status?: 'pending' | 'delivered' | 'failed' };
+    const deliveries = await webhookService.getDeliveries(subscription.id, {
+      limit: limit ? Number(limit) : undefined,
+      status,
+    });
+
+    res.json({
+      success: true,
+      data: deliveries,
+    });
+  } catch (error: any) {
+    logError(`Error getting deliveries for webhook ${req.params.webhookId}:`, error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to get webhook deliveries',
+      details: process.env.NODE_ENV === 'development' ? error.message : undefined,
+    });
+  }
+};
+
+/**
+ * POST /api/v1/webhooks/:webhookId/deliveries/:deliveryId/replay
+ * Re-send a previous delivery
+ */
+export const replayWebhookDelivery = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { webhookId, deliveryId } = req.params;
+    const subscription = await webhookService.getSubscription(webhookId);
+
+    if (!subscription) {
+      res.status(404).json({
+        success: false,
+        error: 'Webhook not found',
+      });
+      return;
+    }
+
+    const replay = await webhookService.replayDelivery(webhookId, deliveryId);
+
+    if (!replay) {
+      res.status(404).json({
+        success: false,
+        error: 'Delivery not found',
+      });
+      return;
+    }
+
+    res.status(202).json({
+      success: true,
+      message: 'Delivery queued for replay',
+      data: replay,
+    });
+  } catch (error: any) {
+    logError(`Error replaying delivery ${req.params.deliveryId}:`, error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to replay webhook delivery',
+      details: process.env.NODE_ENV === 'development' ? error.message : undefined,
+    });
+  }
+};
@@ -15,8 +15,9 @@ import {
 // No-op rate limiter for development
 const apiRateLimiter = (req: any, res: any, next: any) => next();
 import { PORT } from './config/constants';
-import { DeviceManager, MessageQueueService, DeviceHealthService } from './services';
+import { DeviceManager, MessageQueueService, DeviceHealthService, WebhookService, CampaignService, MessageStatusService, DigestService, TranslationService, ClusterService, DeviceSupervisorService } from './services';
 import routes from './routes';
+import { emitMessageDeadLetter } from './sockets';
 
 // Initialize exception handlers
 uncaughtExceptionHandler();
@@ -122,12 +123,59 @@ initializeRedis().then(async () => {
     const deviceHealthService = DeviceHealthService.getInstance();
     
     logger.info('Blocking prevention services initialized successfully');
+
+    // Tell connected clients when a queued message fails for good
+    messageQueueService.onDeadLetter(deadLetter => emitMessageDeadLetter({
+      deviceId: deadLetter.message.deviceId,
+      deadLetterId: deadLetter.id,
+      queueId: deadLetter.message.id,
+      to: deadLetter.message.to,
+      error: deadLetter.error,
+      attempts: deadLetter.message.attemptHistory?.length || 0,
+      timestamp: deadLetter.failedAt,
+    }));
+
+    // Start webhook outbox delivery before devices begin emitting events
+    WebhookService.getInstance();
+
+    // Resume dispatching running broadcast campaigns
+    CampaignService.getInstance();
+
+    // Start linking queued messages to their delivery status timeline
+    MessageStatusService.getInstance();
+
+    // Start running scheduled chat digests
+    DigestService.getInstance();
+
+    // Keep the original text of translated messages once the queue sends them
+    TranslationService.getInstance();
     
+    // Restart clients that disconnect, fail to start or hang
+    DeviceSupervisorService.getInstance().start();
+
+    // Join the cluster before restoring, so devices other nodes run are left to them
+    const cluster = ClusterService.getInstance();
+    await cluster.start();
+
     // Restore devices from Redis after services are ready
     const deviceManager = DeviceManager.getInstance();
     await deviceManager.restoreDevicesFromRedis();
     const restoredDevices = deviceManager.getAllDevices();
     logger.info(`Device restoration completed: ${restoredDevices.length} device(s) restored from Redis`);
+
+    if (cluster.isEnabled()) {
+      // Hand devices over to the other nodes right away instead of after the lease expires
+      const leaveCluster = async () => {
+        try {
+          await deviceManager.releaseAllDevices();
+        } catch (error) {
+          logger.error('Failed to leave the cluster:', error);
+        }
+        process.exit(0);
+      };
+      process.once('SIGTERM', leaveCluster);
+      process.once('SIGINT', leaveCluster);
+    }
     
   } catch (error) {
     logger.error('Failed to initialize blocking prevention services or restore devices:', error);
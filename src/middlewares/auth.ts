@@ -1,36 +1,50 @@
 import { Request, Response, NextFunction } from 'express';
 import logger, { logWarn, logError } from '../config/logger';
+import {
+  ApiKeyService,
+  ApiKeyInfo,
+  ApiKeyScope,
+  ApiKeyAuthResult,
+  ROOT_API_KEY,
+  hasScope,
+  canAccessDevice,
+  isDeviceRestricted,
+} from '../services/ApiKeyService';
+
+declare global {
+  namespace Express {
+    interface Request {
+      apiKey?: ApiKeyInfo;
+    }
+  }
+}
+
+/**
+ * Resolve a presented key: the API_KEY environment variable is the root key
+ * with every scope, anything else is looked up in the API key store.
+ */
+export const resolveApiKey = async (providedApiKey: string): Promise<ApiKeyAuthResult> => {
+  const rootApiKey = process.env.API_KEY;
+  if (rootApiKey && providedApiKey === rootApiKey) {
+    return { valid: true, key: ROOT_API_KEY };
+  }
+  return ApiKeyService.getInstance().authenticate(providedApiKey);
+};
 
 /**
  * API Key Authentication Middleware
  * 
- * This middleware validates the x-api-key header against the API_KEY environment variable.
- * If the API key is missing, invalid, or doesn't match, it returns a 401 Unauthorized response.
- * 
- * Usage:
- * - Apply to routes that require API key authentication
- * - Ensure API_KEY is set in environment variables
+ * This middleware validates the x-api-key header against the API_KEY environment
+ * variable and the scoped keys managed through /api/v1/api-keys.
+ * If the API key is missing, invalid or expired, it returns a 401 Unauthorized response.
+ * The resolved key is attached to req.apiKey for requireScope and requireDeviceAccess.
  * 
  * @param req - Express request object
  * @param res - Express response object  
  * @param next - Express next function
  */
-export const apiKeyAuth = (req: Request, res: Response, next: NextFunction): void => {
+export const apiKeyAuth = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
   try {
-    // Get API key from environment variables
-    const expectedApiKey = process.env.API_KEY;
-    
-    // Check if API_KEY is configured
-    if (!expectedApiKey) {
-      logError('API_KEY environment variable is not configured');
-      res.status(500).json({
-        success: false,
-        error: 'Server configuration error',
-        code: 'CONFIG_ERROR'
-      });
-      return;
-    }
-
     // Get API key from request headers
     const providedApiKey = req.headers['x-api-key'] as string;
     
@@ -46,18 +60,20 @@ export const apiKeyAuth = (req: Request, res: Response, next: NextFunction): voi
     }
 
     // Validate API key
-    if (providedApiKey !== expectedApiKey) {
-      logWarn(`Invalid API key attempt for ${req.method} ${req.path} from IP: ${req.ip}`);
+    const result = await resolveApiKey(providedApiKey);
+    if (!result.valid) {
+      logWarn(`${result.reason === 'expired' ? 'Expired' : 'Invalid'} API key attempt for ${req.method} ${req.path} from IP: ${req.ip}`);
       res.status(401).json({
         success: false,
-        error: 'Invalid API key provided.',
-        code: 'INVALID_API_KEY'
+        error: result.reason === 'expired' ? 'API key has expired.' : 'Invalid API key provided.',
+        code: result.reason === 'expired' ? 'EXPIRED_API_KEY' : 'INVALID_API_KEY'
       });
       return;
     }
 
     // API key is valid, log successful authentication and proceed
-    logger.debug(`Valid API key authenticated for ${req.method} ${req.path} from IP: ${req.ip}`);
+    req.apiKey = result.key;
+    logger.debug(`Valid API key ${result.key.id} authenticated for ${req.method} ${req.path} from IP: ${req.ip}`);
     next();
     
   } catch (error) {
@@ -70,6 +86,59 @@ export const apiKeyAuth = (req: Request, res: Response, next: NextFunction): voi
   }
 };
 
+/**
+ * Scope Middleware
+ * 
+ * Rejects the request with 403 unless the authenticated key has every given scope.
+ * Must run after apiKeyAuth.
+ */
+export const requireScope = (...scopes: ApiKeyScope[]) => {
+  return (req: Request, res: Response, next: NextFunction): void => {
+    const missing = scopes.filter(scope => !req.apiKey || !hasScope(req.apiKey.scopes, scope));
+
+    if (missing.length > 0) {
+      logWarn(`API key ${req.apiKey?.id} missing scope(s) ${missing.join(', ')} for ${req.method} ${req.originalUrl}`);
+      res.status(403).json({
+        success: false,
+        error: `API key is missing required scope(s): ${missing.join(', ')}`,
+        code: 'INSUFFICIENT_SCOPE'
+      });
+      return;
+    }
+
+    next();
+  };
+};
+
+/**
+ * Device Access Middleware
+ * 
+ * Rejects the request with 403 when the authenticated key is restricted to other
+ * devices than the one in req.params[paramName]. Without a param name the key
+ * must not be restricted at all, for routes that span every device.
+ */
+export const requireDeviceAccess = (paramName?: string) => {
+  return (req: Request, res: Response, next: NextFunction): void => {
+    const key = req.apiKey;
+    const deviceId = paramName ? req.params[paramName] : undefined;
+    const allowed = !!key && (deviceId ? canAccessDevice(key, deviceId) : !isDeviceRestricted(key));
+
+    if (!allowed) {
+      logWarn(`API key ${key?.id} denied access to ${deviceId ? `device ${deviceId}` : 'all devices'} for ${req.method} ${req.originalUrl}`);
+      res.status(403).json({
+        success: false,
+        error: deviceId
+          ? 'API key is not allowed to access this device'
+          : 'API key is restricted to specific devices and cannot access this resource',
+        code: 'DEVICE_NOT_ALLOWED'
+      });
+      return;
+    }
+
+    next();
+  };
+};
+
 /**
  * Optional API Key Authentication Middleware
  * 
@@ -81,18 +150,19 @@ export const apiKeyAuth = (req: Request, res: Response, next: NextFunction): voi
  * @param res - Express response object  
  * @param next - Express next function
  */
-export const optionalApiKeyAuth = (req: Request, res: Response, next: NextFunction): void => {
+export const optionalApiKeyAuth = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
   try {
     // Extend Request interface to include authenticated property
     (req as any).authenticated = false;
     
-    const expectedApiKey = process.env.API_KEY;
     const providedApiKey = req.headers['x-api-key'] as string;
     
-    // If API key is configured and provided, validate it
-    if (expectedApiKey && providedApiKey) {
-      if (providedApiKey === expectedApiKey) {
+    // If an API key is provided, validate it
+    if (providedApiKey) {
+      const result = await resolveApiKey(providedApiKey);
+      if (result.valid) {
         (req as any).authenticated = true;
+        req.apiKey = result.key;
         logger.debug(`Optional API key authenticated for ${req.method} ${req.path} from IP: ${req.ip}`);
       } else {
         logWarn(`Invalid optional API key attempt for ${req.method} ${req.path} from IP: ${req.ip}`);
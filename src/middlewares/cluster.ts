@@ -0,0 +1,102 @@
+import { Request, Response, NextFunction } from 'express';
+import axios from 'axios';
+import { logWarn, logError } from '../config/logger';
+import { ClusterService, FORWARDED_BY_HEADER } from '../services/ClusterService';
+
+// Request headers passed on to the owner node; the API key is checked again there
+const FORWARDED_REQUEST_HEADERS = ['x-api-key', 'authorization', 'content-type', 'accept', 'accept-language', 'user-agent'];
+
+// Owner response headers passed back to the caller
+const FORWARDED_RESPONSE_HEADERS = ['content-type', 'content-disposition', 'content-length', 'cache-control', 'retry-after'];
+
+/**
+ * Device Owner Forwarding Middleware
+ *
+ * In a cluster each device runs on one node. Calls for a device another node runs are forwarded
+ * to that node and its response is streamed back, so clients can use any node behind the load balancer.
+ * Calls for devices nobody runs, and calls already forwarded once, are handled here.
+ *
+ * @param req - Express request object with the device ID in req.params.id
+ * @param res - Express response object
+ * @param next - Express next function
+ */
+export const forwardToDeviceOwner = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  const cluster = ClusterService.getInstance();
+  if (!cluster.isEnabled() || req.headers[FORWARDED_BY_HEADER]) {
+    next();
+    return;
+  }
+
+  let owner;
+  try {
+    owner = await cluster.getDeviceOwner(req.params.id);
+  } catch (error) {
+    logError(`Failed to look up the owner of device ${req.params.id}:`, error);
+    next();
+    return;
+  }
+
+  if (!owner || owner.id === cluster.getNodeId()) {
+    next();
+    return;
+  }
+
+  if (!owner.url) {
+    logWarn(`Device ${req.params.id} is leased to cluster node ${owner.id}, which has no URL`);
+    res.status(503).json({
+      success: false,
+      error: 'The cluster node running this device is unavailable, try again shortly',
+      code: 'DEVICE_OWNER_UNAVAILABLE',
+    });
+    return;
+  }
+
+  const headers: Record<string, string> = { [FORWARDED_BY_HEADER]: cluster.getNodeId() };
+  for (const name of FORWARDED_REQUEST_HEADERS) {
+    const value = req.headers[name];
+    if (typeof value === 'string') headers[name] = value;
+  }
+
+  // JSON and form bodies were already parsed; anything else, such as uploads, is still unread and streamed as is
+  const hasBody = !!req.headers['transfer-encoding'] || parseInt(req.headers['content-length'] || '0') > 0;
+  const parsed = !!req.is('application/json') || !!req.is('application/x-www-form-urlencoded');
+  let data: unknown;
+  if (hasBody && parsed) {
+    data = req.body;
+    headers['content-type'] = 'application/json';
+  } else if (hasBody) {
+    data = req;
+    if (req.headers['content-length']) headers['content-length'] = req.headers['content-length'];
+  }
+
+  try {
+    const response = await axios.request({
+      method: req.method,
+      url: `${owner.url.replace(/\/$/, '')}${req.originalUrl}`,
+      headers,
+      data,
+      responseType: 'stream',
+      timeout: cluster.getConfig().forwardTimeout,
+      maxBodyLength: Infinity,
+      maxContentLength: Infinity,
+      maxRedirects: 0,
+      validateStatus: () => true,
+    });
+
+    res.status(response.status);
+    for (const name of FORWARDED_RESPONSE_HEADERS) {
+      const value = response.headers[name];
+      if (value !== undefined) res.setHeader(name, value as string);
+    }
+    res.setHeader('x-bridge-node', owner.id);
+    response.data.pipe(res);
+  } catch (error: any) {
+    logError(`Failed to forward ${req.method} ${req.originalUrl} to cluster node ${owner.id}:`, error);
+    res.status(502).json({
+      success: false,
+      error: 'Could not reach the cluster node running this device',
+      code: 'DEVICE_OWNER_UNREACHABLE',
+      details: process.env.NODE_ENV === 'development' ? error.message : undefined,
+    });
+  }
+};
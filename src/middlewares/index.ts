@@ -2,7 +2,7 @@
 // This file serves as a central export point for all middlewares
 
 // Authentication middleware
-export { default as apiKeyAuth, optionalApiKeyAuth } from './auth';
+export { default as apiKeyAuth, optionalApiKeyAuth, requireScope, requireDeviceAccess } from './auth';
 
 // Rate limiting middleware
 export {
@@ -33,3 +33,6 @@ export { validate } from '../config/validation';
 
 // Socket.IO authentication middleware
 export { socketAuth } from './socket.auth';
+
+// Cluster forwarding middleware
+export { forwardToDeviceOwner } from './cluster';
@@ -1,20 +1,17 @@
 import { Socket } from 'socket.io';
 import { logger } from '../config';
 import { ExtendedError } from 'socket.io/dist/namespace';
+import { resolveApiKey } from './auth';
+import { hasScope, canAccessDevice } from '../services/ApiKeyService';
 
 /**
  * Socket.IO authentication middleware
- * Validates the apiKey query parameter
+ * Validates the apiKey query parameter against the same keys as the REST API.
+ * Device namespaces (/device/{deviceId}) require the devices:read scope and
+ * access to that device.
  */
-export const socketAuth = (socket: Socket, next: (err?: ExtendedError) => void): void => {
+export const socketAuth = async (socket: Socket, next: (err?: ExtendedError) => void): Promise<void> => {
   try {
-    const expectedApiKey = process.env.API_KEY;
-    
-    if (!expectedApiKey) {
-      logger.error('API_KEY environment variable is not configured for socket authentication');
-      return next(new Error('Server configuration error'));
-    }
-
     const providedApiKey = socket.handshake.query.apiKey as string;
     
     if (!providedApiKey) {
@@ -22,11 +19,25 @@ export const socketAuth = (socket: Socket, next: (err?: ExtendedError) => void):
       return next(new Error('API key is required'));
     }
 
-    if (providedApiKey !== expectedApiKey) {
-      logger.warn(`Socket authentication failed - Invalid API key for socket: ${socket.id}`);
-      return next(new Error('Invalid API key'));
+    const result = await resolveApiKey(providedApiKey);
+    if (!result.valid) {
+      logger.warn(`Socket authentication failed - ${result.reason === 'expired' ? 'Expired' : 'Invalid'} API key for socket: ${socket.id}`);
+      return next(new Error(result.reason === 'expired' ? 'API key has expired' : 'Invalid API key'));
+    }
+
+    const deviceMatch = /^\/device\/([\w-]+)$/.exec(socket.nsp.name);
+    if (deviceMatch) {
+      if (!hasScope(result.key.scopes, 'devices:read')) {
+        logger.warn(`Socket authentication failed - API key ${result.key.id} lacks devices:read for socket: ${socket.id}`);
+        return next(new Error('API key is missing required scope: devices:read'));
+      }
+      if (!canAccessDevice(result.key, deviceMatch[1])) {
+        logger.warn(`Socket authentication failed - API key ${result.key.id} not allowed for device ${deviceMatch[1]}: ${socket.id}`);
+        return next(new Error('API key is not allowed to access this device'));
+      }
     }
 
+    socket.data.apiKey = result.key;
     logger.debug(`Socket authenticated successfully: ${socket.id}`);
     next();
   } catch (error) {
@@ -0,0 +1,394 @@
+import { Router } from 'express';
+import { AIAgentController } from '../controllers';
+import { validate, requireScope } from '../middlewares';
+import { schemas } from '../config/validation';
+
+const router = Router({ mergeParams: true });
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     AIAgentSettings:
+ *       type: object
+ *       properties:
+ *         enabled:
+ *           type: boolean
+ *           default: false
+ *           description: Answer in every private chat. When false, the agent only answers in chats enabled one by one.
+ *         mode:
+ *           type: string
+ *           enum: [auto, draft]
+ *           default: draft
+ *           description: Send answers through the message queue (auto) or hold them for approval (draft)
+ *         systemPrompt:
+ *           type: string
+ *           example: "You are the assistant of Acme Bakery. Answer briefly and politely."
+ *         knowledge:
+ *           type: string
+ *           description: Reference text added to the system prompt, such as opening hours or prices
+ *         contextMessages:
+ *           type: integer
+ *           default: 10
+ *           maximum: 50
+ *           description: Number of recent chat messages sent as context
+ *         provider:
+ *           type: string
+ *           description: A configured provider, such as openai or a provider registered at /api/v1/ai/providers. Defaults to AI_PROVIDER
+ *         model:
+ *           type: string
+ *           description: Defaults to the provider's model
+ *         maxTokens:
+ *           type: integer
+ *           default: 500
+ *         temperature:
+ *           type: number
+ *           default: 0.3
+ *         includeGroups:
+ *           type: boolean
+ *           default: false
+ *           description: Also answer in groups when enabled is true
+ *         handoffKeyword:
+ *           type: string
+ *           example: "human"
+ *           description: Whole-word, case-insensitive. Stops the agent in the chat until it is resumed.
+ *         handoffMessage:
+ *           type: string
+ *           example: "Thanks! A colleague will get back to you shortly."
+ *         dailyTokenLimit:
+ *           type: integer
+ *           description: Stop answering for the rest of the UTC day once this many tokens were used. 0 means no limit.
+ *         dailyCostLimit:
+ *           type: number
+ *           description: Same as dailyTokenLimit, in USD. Requires pricing.
+ *         pricing:
+ *           type: object
+ *           required: [promptPer1k, completionPer1k]
+ *           properties:
+ *             promptPer1k:
+ *               type: number
+ *               example: 0.00015
+ *             completionPer1k:
+ *               type: number
+ *               example: 0.0006
+ *
+ *     AIAgentDraft:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: string
+ *           example: "draft_3f9a1c2b4d5e6f70"
+ *         deviceId:
+ *           type: string
+ *         chatId:
+ *           type: string
+ *         inReplyTo:
+ *           type: string
+ *           description: ID of the message being answered
+ *         incomingBody:
+ *           type: string
+ *         text:
+ *           type: string
+ *         model:
+ *           type: string
+ *         usage:
+ *           type: object
+ *           properties:
+ *             promptTokens:
+ *               type: integer
+ *             completionTokens:
+ *               type: integer
+ *             totalTokens:
+ *               type: integer
+ *             cost:
+ *               type: number
+ *         createdAt:
+ *           type: number
+ */
+
+/**
+ * @swagger
+ * /api/v1/devices/{id}/ai-agent:
+ *   get:
+ *     summary: Get the AI agent configuration
+ *     description: Includes today's token and cost usage in `usage`.
+ *     tags: [AI Agent]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Device ID
+ *     responses:
+ *       200:
+ *         description: Configuration
+ *       404:
+ *         description: AI agent is not configured for this device
+ *       500:
+ *         description: Internal server error
+ *   put:
+ *     summary: Create or replace the AI agent configuration
+ *     tags: [AI Agent]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Device ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             allOf:
+ *               - $ref: '#/components/schemas/AIAgentSettings'
+ *               - type: object
+ *                 required: [systemPrompt]
+ *     responses:
+ *       200:
+ *         description: AI agent configured
+ *       400:
+ *         description: Validation error or the provider is not configured
+ *       404:
+ *         description: Device not found
+ *       500:
+ *         description: Internal server error
+ *   patch:
+ *     summary: Update the AI agent configuration
+ *     description: Accepts the same fields as PUT and keeps the ones that are not sent.
+ *     tags: [AI Agent]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Device ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/AIAgentSettings'
+ *     responses:
+ *       200:
+ *         description: AI agent updated
+ *       400:
+ *         description: Validation error or the provider is not configured
+ *       404:
+ *         description: AI agent is not configured for this device
+ *       500:
+ *         description: Internal server error
+ *   delete:
+ *     summary: Remove the AI agent
+ *     description: Also removes chat settings and pending drafts. Usage history is kept.
+ *     tags: [AI Agent]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Device ID
+ *     responses:
+ *       200:
+ *         description: AI agent removed
+ *       404:
+ *         description: AI agent is not configured for this device
+ *       500:
+ *         description: Internal server error
+ */
+router.get('/', requireScope('ai:use'), AIAgentController.getConfig);
+router.put('/',
+  requireScope('ai:use'),
+  validate(schemas.setAIAgentConfig, 'body'),
+  AIAgentController.setConfig
+);
+router.patch('/',
+  requireScope('ai:use'),
+  validate(schemas.updateAIAgentConfig, 'body'),
+  AIAgentController.updateConfig
+);
+router.delete('/', requireScope('ai:use'), AIAgentController.deleteConfig);
+
+/**
+ * @swagger
+ * /api/v1/devices/{id}/ai-agent/chats:
+ *   get:
+ *     summary: List chats with their own AI agent setting or that were handed off
+ *     tags: [AI Agent]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Device ID
+ *     responses:
+ *       200:
+ *         description: Chats, most recently changed first
+ *       500:
+ *         description: Internal server error
+ *
+ * /api/v1/devices/{id}/ai-agent/chats/{chatId}:
+ *   patch:
+ *     summary: Enable or disable the AI agent for a chat, or resume it after a handoff
+ *     tags: [AI Agent]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Device ID
+ *       - in: path
+ *         name: chatId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Chat ID or phone number
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               enabled:
+ *                 type: boolean
+ *                 nullable: true
+ *                 description: Overrides the device setting for this chat; null goes back to the device setting
+ *               handedOff:
+ *                 type: boolean
+ *                 description: false resumes the agent after a handoff; true hands the chat to a human
+ *     responses:
+ *       200:
+ *         description: Chat updated
+ *       404:
+ *         description: AI agent is not configured for this device
+ *       500:
+ *         description: Internal server error
+ */
+router.get('/chats', requireScope('ai:use'), AIAgentController.listChats);
+router.patch('/chats/:chatId',
+  requireScope('ai:use'),
+  validate(schemas.aiAgentChat, 'params'),
+  validate(schemas.updateAIAgentChat, 'body'),
+  AIAgentController.updateChat
+);
+
+/**
+ * @swagger
+ * /api/v1/devices/{id}/ai-agent/drafts:
+ *   get:
+ *     summary: List AI answers waiting for approval
+ *     tags: [AI Agent]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Device ID
+ *       - in: query
+ *         name: chatId
+ *         schema:
+ *           type: string
+ *         description: Only drafts for this chat
+ *     responses:
+ *       200:
+ *         description: Drafts, oldest first
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/AIAgentDraft'
+ *       500:
+ *         description: Internal server error
+ */
+router.get('/drafts',
+  requireScope('messages:read'),
+  validate(schemas.aiAgentDrafts, 'query'),
+  AIAgentController.listDrafts
+);
+
+/**
+ * @swagger
+ * /api/v1/devices/{id}/ai-agent/drafts/{draftId}/approve:
+ *   post:
+ *     summary: Approve a draft and queue it for sending
+ *     tags: [AI Agent]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Device ID
+ *       - in: path
+ *         name: draftId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               text:
+ *                 type: string
+ *                 description: Send this text instead of the drafted one
+ *     responses:
+ *       200:
+ *         description: Draft queued; `queueId` can be used with the message status endpoints
+ *       404:
+ *         description: Draft not found
+ *       500:
+ *         description: Internal server error
+ *
+ * /api/v1/devices/{id}/ai-agent/drafts/{draftId}:
+ *   delete:
+ *     summary: Reject a draft
+ *     tags: [AI Agent]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Device ID
+ *       - in: path
+ *         name: draftId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Draft rejected
+ *       404:
+ *         description: Draft not found
+ *       500:
+ *         description: Internal server error
+ */
+router.post('/drafts/:draftId/approve',
+  requireScope('messages:send'),
+  validate(schemas.aiAgentDraftId, 'params'),
+  validate(schemas.approveAIAgentDraft, 'body'),
+  AIAgentController.approveDraft
+);
+router.delete('/drafts/:draftId',
+  requireScope('messages:send'),
+  validate(schemas.aiAgentDraftId, 'params'),
+  AIAgentController.rejectDraft
+);
+
+export default router;
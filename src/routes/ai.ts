@@ -1,10 +1,13 @@
 import { Router } from 'express';
-import { AIController } from '../controllers';
-import { validate } from '../middlewares';
+import { AIController, AIUsageController } from '../controllers';
+import { validate, requireScope, requireDeviceAccess } from '../middlewares';
 import { schemas } from '../config/validation';
 
 const router = Router();
 
+// All ai routes require the ai:use scope
+router.use(requireScope('ai:use'));
+
 /**
  * @swagger
  * /api/v1/ai/providers:
@@ -31,18 +34,238 @@ const router = Router();
  *                     available:
  *                       type: array
  *                       items:
+ *                         $ref: '#/components/schemas/AIProvider'
+ *       500:
+ *         description: Internal server error
+ */
+router.get('/providers', AIController.getProviders);
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     AIProviderInput:
+ *       type: object
+ *       properties:
+ *         baseUrl:
+ *           type: string
+ *           description: OpenAI-compatible API base URL, without /chat/completions
+ *           example: "http://192.168.1.20:11434/v1"
+ *         apiKey:
+ *           type: string
+ *           description: Sent as a Bearer token. Leave out for servers without authentication.
+ *         model:
+ *           type: string
+ *           description: Default model
+ *           example: "llama3.1:8b"
+ *         maxTokens:
+ *           type: integer
+ *           description: Default max_tokens (AI_MAX_TOKENS when not set)
+ *         temperature:
+ *           type: number
+ *           description: Default temperature (AI_TEMPERATURE when not set)
+ *         timeout:
+ *           type: integer
+ *           description: Request timeout in milliseconds
+ *           default: 60000
+ *         headers:
+ *           type: object
+ *           additionalProperties:
+ *             type: string
+ *           description: Extra HTTP headers
+ *         streamUsage:
+ *           type: boolean
+ *           description: Ask for token usage when streaming (stream_options.include_usage)
+ *         fallback:
+ *           type: array
+ *           items:
+ *             type: string
+ *           description: Providers to try in order when this one fails (AI_FALLBACK_PROVIDERS when not set)
+ *           example: ["openrouter"]
+ *     AIProvider:
+ *       type: object
+ *       properties:
+ *         provider:
+ *           type: string
+ *         source:
+ *           type: string
+ *           enum: [env, runtime]
+ *         baseUrl:
+ *           type: string
+ *         model:
+ *           type: string
+ *         maxTokens:
+ *           type: integer
+ *         temperature:
+ *           type: number
+ *         timeout:
+ *           type: integer
+ *         fallback:
+ *           type: array
+ *           items:
+ *             type: string
+ *         hasApiKey:
+ *           type: boolean
+ *         available:
+ *           type: boolean
+ *         createdAt:
+ *           type: integer
+ *         updatedAt:
+ *           type: integer
+ * /api/v1/ai/providers:
+ *   post:
+ *     summary: Register an OpenAI-compatible AI provider
+ *     description: Requires the ai:admin scope. The provider is stored in Redis and shared by all instances.
+ *     tags: [AI]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             allOf:
+ *               - $ref: '#/components/schemas/AIProviderInput'
+ *               - type: object
+ *                 required: [name, baseUrl, model]
+ *                 properties:
+ *                   name:
+ *                     type: string
+ *                     pattern: '^[a-z0-9][a-z0-9_-]{0,49}$'
+ *                     example: "ollama"
+ *     responses:
+ *       201:
+ *         description: Provider registered
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   $ref: '#/components/schemas/AIProvider'
+ *       400:
+ *         description: Invalid request
+ *       409:
+ *         description: A provider with this name already exists
+ */
+router.post('/providers', requireScope('ai:admin'), requireDeviceAccess(), validate(schemas.createAIProvider, 'body'), AIController.createProvider);
+
+/**
+ * @swagger
+ * /api/v1/ai/providers/{provider}:
+ *   get:
+ *     summary: Get an AI provider
+ *     tags: [AI]
+ *     parameters:
+ *       - in: path
+ *         name: provider
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Provider details. The API key is never returned.
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   $ref: '#/components/schemas/AIProvider'
+ *       404:
+ *         description: Provider not found
+ *   patch:
+ *     summary: Update a runtime AI provider
+ *     description: Requires the ai:admin scope. Providers configured through environment variables are read-only.
+ *     tags: [AI]
+ *     parameters:
+ *       - in: path
+ *         name: provider
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/AIProviderInput'
+ *     responses:
+ *       200:
+ *         description: Provider updated
+ *       404:
+ *         description: Provider not found
+ *       409:
+ *         description: Provider is configured through environment variables
+ *   delete:
+ *     summary: Delete a runtime AI provider
+ *     description: Requires the ai:admin scope.
+ *     tags: [AI]
+ *     parameters:
+ *       - in: path
+ *         name: provider
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Provider deleted
+ *       404:
+ *         description: Provider not found
+ *       409:
+ *         description: Provider is configured through environment variables
+ */
+router.get('/providers/:provider', validate(schemas.aiProviderName, 'params'), AIController.getProvider);
+router.patch('/providers/:provider', requireScope('ai:admin'), requireDeviceAccess(), validate(schemas.aiProviderName, 'params'), validate(schemas.updateAIProvider, 'body'), AIController.updateProvider);
+router.delete('/providers/:provider', requireScope('ai:admin'), requireDeviceAccess(), validate(schemas.aiProviderName, 'params'), AIController.deleteProvider);
+
+/**
+ * @swagger
+ * /api/v1/ai/providers/{provider}/models:
+ *   get:
+ *     summary: List the models an AI provider serves
+ *     description: Calls the provider's OpenAI-compatible /models endpoint.
+ *     tags: [AI]
+ *     parameters:
+ *       - in: path
+ *         name: provider
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Models of the provider
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     provider:
+ *                       type: string
+ *                     models:
+ *                       type: array
+ *                       items:
  *                         type: object
  *                         properties:
- *                           provider:
+ *                           id:
  *                             type: string
- *                           model:
+ *                           ownedBy:
  *                             type: string
- *                           available:
- *                             type: boolean
- *       500:
- *         description: Internal server error
+ *                           created:
+ *                             type: integer
+ *       404:
+ *         description: Provider not found
+ *       502:
+ *         description: The provider failed or could not be reached
  */
-router.get('/providers', AIController.getProviders);
+router.get('/providers/:provider/models', validate(schemas.aiProviderName, 'params'), AIController.getProviderModels);
 
 /**
  * @swagger
@@ -56,8 +279,7 @@ router.get('/providers', AIController.getProviders);
  *         required: true
  *         schema:
  *           type: string
- *           enum: [openai, openrouter, xai, custom]
- *         description: AI provider name
+ *         description: AI provider name, for example openai, openrouter, xai, custom or a registered provider
  *     responses:
  *       200:
  *         description: Provider test result
@@ -83,4 +305,247 @@ router.get('/providers', AIController.getProviders);
  */
 router.post('/providers/:provider/test', AIController.testProvider);
 
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     AIUsageTotals:
+ *       type: object
+ *       properties:
+ *         promptTokens:
+ *           type: integer
+ *         completionTokens:
+ *           type: integer
+ *         totalTokens:
+ *           type: integer
+ *         cost:
+ *           type: number
+ *           description: Estimated cost in USD, from the price table
+ *         requests:
+ *           type: integer
+ *     AIBudgetInput:
+ *       type: object
+ *       description: At least one of monthlyTokenLimit and monthlyCostLimit is required
+ *       properties:
+ *         monthlyTokenLimit:
+ *           type: integer
+ *           example: 5000000
+ *         monthlyCostLimit:
+ *           type: number
+ *           description: USD per UTC month
+ *           example: 50
+ *         action:
+ *           type: string
+ *           enum: [block, downgrade]
+ *           default: block
+ *         downgradeProvider:
+ *           type: string
+ *           description: Required when action is downgrade
+ *           example: "ollama"
+ *         downgradeModel:
+ *           type: string
+ *           description: Model of the downgrade provider (its default when not set)
+ *     AIPrice:
+ *       type: object
+ *       required: [provider, promptPer1k, completionPer1k]
+ *       properties:
+ *         provider:
+ *           type: string
+ *           example: "openai"
+ *         model:
+ *           type: string
+ *           description: Applies to every model of the provider when not set
+ *           example: "gpt-4o-mini"
+ *         promptPer1k:
+ *           type: number
+ *           example: 0.00015
+ *         completionPer1k:
+ *           type: number
+ *           example: 0.0006
+ * /api/v1/ai/usage:
+ *   get:
+ *     summary: Get AI token usage and estimated cost
+ *     description: Requires the ai:admin scope. Defaults to the current UTC month.
+ *     tags: [AI]
+ *     parameters:
+ *       - in: query
+ *         name: from
+ *         schema:
+ *           type: string
+ *           format: date
+ *         description: First UTC day (YYYY-MM-DD)
+ *       - in: query
+ *         name: to
+ *         schema:
+ *           type: string
+ *           format: date
+ *         description: Last UTC day (YYYY-MM-DD), at most 366 days after from
+ *       - in: query
+ *         name: groupBy
+ *         schema:
+ *           type: string
+ *           enum: [apiKey, device, provider]
+ *           default: provider
+ *       - in: query
+ *         name: id
+ *         schema:
+ *           type: string
+ *         description: Only this API key ID, device ID or provider
+ *     responses:
+ *       200:
+ *         description: Usage report
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     from:
+ *                       type: string
+ *                     to:
+ *                       type: string
+ *                     groupBy:
+ *                       type: string
+ *                     totals:
+ *                       $ref: '#/components/schemas/AIUsageTotals'
+ *                     items:
+ *                       type: array
+ *                       items:
+ *                         allOf:
+ *                           - $ref: '#/components/schemas/AIUsageTotals'
+ *                           - type: object
+ *                             properties:
+ *                               id:
+ *                                 type: string
+ *                     daily:
+ *                       type: array
+ *                       items:
+ *                         allOf:
+ *                           - $ref: '#/components/schemas/AIUsageTotals'
+ *                           - type: object
+ *                             properties:
+ *                               date:
+ *                                 type: string
+ *       400:
+ *         description: Invalid date range
+ */
+router.get('/usage', requireScope('ai:admin'), requireDeviceAccess(), validate(schemas.aiUsageReport, 'query'), AIUsageController.getUsageReport);
+
+/**
+ * @swagger
+ * /api/v1/ai/budgets:
+ *   get:
+ *     summary: List AI budgets with this month's usage
+ *     description: Requires the ai:admin scope.
+ *     tags: [AI]
+ *     responses:
+ *       200:
+ *         description: Budgets
+ */
+router.get('/budgets', requireScope('ai:admin'), requireDeviceAccess(), AIUsageController.listBudgets);
+
+/**
+ * @swagger
+ * /api/v1/ai/budgets/{scope}/{id}:
+ *   put:
+ *     summary: Set the monthly AI budget of an API key, device or provider
+ *     description: Requires the ai:admin scope. Replaces an existing budget for the same target.
+ *     tags: [AI]
+ *     parameters:
+ *       - in: path
+ *         name: scope
+ *         required: true
+ *         schema:
+ *           type: string
+ *           enum: [apiKey, device, provider]
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: API key ID, device ID or provider name
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/AIBudgetInput'
+ *     responses:
+ *       200:
+ *         description: Budget saved
+ *       400:
+ *         description: Invalid budget or unknown downgrade provider
+ *   delete:
+ *     summary: Delete an AI budget
+ *     description: Requires the ai:admin scope.
+ *     tags: [AI]
+ *     parameters:
+ *       - in: path
+ *         name: scope
+ *         required: true
+ *         schema:
+ *           type: string
+ *           enum: [apiKey, device, provider]
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Budget deleted
+ *       404:
+ *         description: Budget not found
+ */
+router.put('/budgets/:scope/:id', requireScope('ai:admin'), requireDeviceAccess(), validate(schemas.aiBudgetTarget, 'params'), validate(schemas.setAIBudget, 'body'), AIUsageController.setBudget);
+router.delete('/budgets/:scope/:id', requireScope('ai:admin'), requireDeviceAccess(), validate(schemas.aiBudgetTarget, 'params'), AIUsageController.deleteBudget);
+
+/**
+ * @swagger
+ * /api/v1/ai/prices:
+ *   get:
+ *     summary: Get the AI price table
+ *     description: Requires the ai:admin scope.
+ *     tags: [AI]
+ *     responses:
+ *       200:
+ *         description: Price table
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/AIPrice'
+ *   put:
+ *     summary: Replace the AI price table
+ *     description: Requires the ai:admin scope. Costs already recorded are not recalculated.
+ *     tags: [AI]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [prices]
+ *             properties:
+ *               prices:
+ *                 type: array
+ *                 items:
+ *                   $ref: '#/components/schemas/AIPrice'
+ *     responses:
+ *       200:
+ *         description: Price table saved
+ */
+router.get('/prices', requireScope('ai:admin'), requireDeviceAccess(), AIUsageController.getPrices);
+router.put('/prices', requireScope('ai:admin'), requireDeviceAccess(), validate(schemas.setAIPrices, 'body'), AIUsageController.setPrices);
+
 export default router;
@@ -1,9 +1,12 @@
 import { Router } from 'express';
 import * as AnalyticsController from '../controllers/analytics.controller';
-import { validate } from '../middlewares';
+import { validate, requireScope } from '../middlewares';
 
 const router = Router({ mergeParams: true });
 
+// All analytics routes require the analytics:read scope
+router.use(requireScope('analytics:read'));
+
 /**
  * @swagger
  * /api/v1/devices/{id}/analytics/dashboard:
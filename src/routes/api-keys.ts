@@ -0,0 +1,265 @@
+import { Router } from 'express';
+import { ApiKeyController } from '../controllers';
+import { validate, adminRateLimiter, requireScope, requireDeviceAccess } from '../middlewares';
+import { schemas } from '../config/validation';
+
+const router = Router();
+
+// Key management spans every device, so device-restricted keys can't use it
+router.use(requireScope('keys:admin'), requireDeviceAccess());
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     ApiKey:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: string
+ *           example: "3f9a1c2b4d5e6f70"
+ *         label:
+ *           type: string
+ *           example: "CRM integration"
+ *         scopes:
+ *           type: array
+ *           items:
+ *             type: string
+ *           example: ["devices:read", "messages:send"]
+ *           description: Granted scopes. `*` grants everything and `resource:*` grants every scope of a resource.
+ *         deviceIds:
+ *           type: array
+ *           items:
+ *             type: string
+ *           description: Devices the key may use (all devices when omitted)
+ *         expiresAt:
+ *           type: number
+ *         createdAt:
+ *           type: number
+ *         updatedAt:
+ *           type: number
+ *         lastUsedAt:
+ *           type: number
+ *         rotatedAt:
+ *           type: number
+ */
+
+/**
+ * @swagger
+ * /api/v1/api-keys:
+ *   post:
+ *     summary: Create a scoped API key
+ *     description: The full key is only returned in this response. A key can only grant scopes it holds itself.
+ *     tags: [API Keys]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [label, scopes]
+ *             properties:
+ *               label:
+ *                 type: string
+ *               scopes:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                   enum: ['*', devices:read, devices:write, devices:admin, messages:read, messages:send, chats:read, chats:write, groups:read, groups:write, analytics:read, ai:use, ai:admin, queue:read, queue:admin, cache:admin, webhooks:manage, keys:admin]
+ *               deviceIds:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *               expiresAt:
+ *                 type: string
+ *                 format: date-time
+ *     responses:
+ *       201:
+ *         description: Key created
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 message:
+ *                   type: string
+ *                 data:
+ *                   allOf:
+ *                     - $ref: '#/components/schemas/ApiKey'
+ *                     - type: object
+ *                       properties:
+ *                         apiKey:
+ *                           type: string
+ *                           description: The key to send in x-api-key
+ *       400:
+ *         description: Validation error
+ *       403:
+ *         description: Missing keys:admin or trying to grant scopes the current key lacks
+ *       500:
+ *         description: Internal server error
+ *   get:
+ *     summary: List API keys
+ *     tags: [API Keys]
+ *     responses:
+ *       200:
+ *         description: Keys without secrets
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/ApiKey'
+ *       500:
+ *         description: Internal server error
+ */
+router.post('/',
+  adminRateLimiter,
+  validate(schemas.createApiKey, 'body'),
+  ApiKeyController.createApiKey
+);
+router.get('/', ApiKeyController.listApiKeys);
+
+/**
+ * @swagger
+ * /api/v1/api-keys/{keyId}:
+ *   get:
+ *     summary: Get an API key
+ *     tags: [API Keys]
+ *     parameters:
+ *       - in: path
+ *         name: keyId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Key without secret
+ *       404:
+ *         description: API key not found
+ *       500:
+ *         description: Internal server error
+ *   patch:
+ *     summary: Update an API key
+ *     tags: [API Keys]
+ *     parameters:
+ *       - in: path
+ *         name: keyId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               label:
+ *                 type: string
+ *               scopes:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *               deviceIds:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *               expiresAt:
+ *                 type: string
+ *                 format: date-time
+ *                 nullable: true
+ *                 description: Set to null to remove the expiry
+ *     responses:
+ *       200:
+ *         description: Key updated
+ *       400:
+ *         description: Validation error
+ *       403:
+ *         description: Trying to manage scopes the current key lacks
+ *       404:
+ *         description: API key not found
+ *       500:
+ *         description: Internal server error
+ *   delete:
+ *     summary: Revoke an API key
+ *     tags: [API Keys]
+ *     parameters:
+ *       - in: path
+ *         name: keyId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Key revoked
+ *       403:
+ *         description: Trying to manage scopes the current key lacks
+ *       404:
+ *         description: API key not found
+ *       500:
+ *         description: Internal server error
+ */
+router.get('/:keyId',
+  validate(schemas.apiKeyId, 'params'),
+  ApiKeyController.getApiKey
+);
+router.patch('/:keyId',
+  adminRateLimiter,
+  validate(schemas.apiKeyId, 'params'),
+  validate(schemas.updateApiKey, 'body'),
+  ApiKeyController.updateApiKey
+);
+router.delete('/:keyId',
+  adminRateLimiter,
+  validate(schemas.apiKeyId, 'params'),
+  ApiKeyController.revokeApiKey
+);
+
+/**
+ * @swagger
+ * /api/v1/api-keys/{keyId}/rotate:
+ *   post:
+ *     summary: Rotate an API key's secret
+ *     description: Returns a new key. The old key stops working immediately unless a grace period is given.
+ *     tags: [API Keys]
+ *     parameters:
+ *       - in: path
+ *         name: keyId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               gracePeriodSeconds:
+ *                 type: integer
+ *                 default: 0
+ *                 maximum: 604800
+ *     responses:
+ *       200:
+ *         description: Key rotated, new key in data.apiKey
+ *       403:
+ *         description: Trying to manage scopes the current key lacks
+ *       404:
+ *         description: API key not found
+ *       500:
+ *         description: Internal server error
+ */
+router.post('/:keyId/rotate',
+  adminRateLimiter,
+  validate(schemas.apiKeyId, 'params'),
+  validate(schemas.rotateApiKey, 'body'),
+  ApiKeyController.rotateApiKey
+);
+
+export default router;
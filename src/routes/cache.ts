@@ -1,9 +1,13 @@
 import { Router } from 'express';
 import { CacheController } from '../controllers';
 import { MetricsService } from '../config/metrics';
+import { requireScope } from '../middlewares';
 
 const router = Router();
 
+// All cache routes require the cache:admin scope
+router.use(requireScope('cache:admin'));
+
 /**
  * @swagger
  * /api/v1/cache:
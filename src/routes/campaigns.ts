@@ -0,0 +1,426 @@
+import { Router } from 'express';
+import { CampaignController } from '../controllers';
+import { validate, requireScope, clientOperationRateLimiter } from '../middlewares';
+import { schemas } from '../config/validation';
+
+const router = Router({ mergeParams: true });
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     Campaign:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: string
+ *           example: "cmp_3f9a1c2b4d5e6f70"
+ *         deviceId:
+ *           type: string
+ *         name:
+ *           type: string
+ *         text:
+ *           type: string
+ *           description: Message template with {{variable}} placeholders
+ *         media:
+ *           type: object
+ *           properties:
+ *             mimetype:
+ *               type: string
+ *             filename:
+ *               type: string
+ *         status:
+ *           type: string
+ *           enum: [running, paused, completed, cancelled]
+ *         totalRecipients:
+ *           type: number
+ *         blockedReason:
+ *           type: string
+ *           description: Why the campaign is currently held back, e.g. device health protection
+ *         stats:
+ *           type: object
+ *           description: Recipient count per status (single campaign only)
+ *           properties:
+ *             pending:
+ *               type: number
+ *             queued:
+ *               type: number
+ *             sent:
+ *               type: number
+ *             delivered:
+ *               type: number
+ *             read:
+ *               type: number
+ *             failed:
+ *               type: number
+ *             cancelled:
+ *               type: number
+ *         createdAt:
+ *           type: number
+ *         updatedAt:
+ *           type: number
+ *         completedAt:
+ *           type: number
+ *
+ *     CampaignRecipient:
+ *       type: object
+ *       properties:
+ *         index:
+ *           type: number
+ *         to:
+ *           type: string
+ *           example: "1234567890@c.us"
+ *         variables:
+ *           type: object
+ *           additionalProperties:
+ *             type: string
+ *         status:
+ *           type: string
+ *           enum: [pending, queued, sent, delivered, read, failed, cancelled]
+ *         queueId:
+ *           type: string
+ *         messageId:
+ *           type: string
+ *           description: WhatsApp message ID once sent
+ *         error:
+ *           type: string
+ *         updatedAt:
+ *           type: number
+ */
+
+/**
+ * @swagger
+ * /api/v1/devices/{id}/campaigns:
+ *   post:
+ *     summary: Create a broadcast campaign
+ *     description: |
+ *       Sends a templated message to every recipient through the message queue. Provide recipients either as
+ *       `recipients` (JSON) or `csv` (header row with a `to` or `phone` column, other columns become variables).
+ *       Duplicate recipients are dropped and every recipient must have a value for each `{{variable}}` in the text.
+ *     tags: [Campaigns]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Device ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [name]
+ *             properties:
+ *               name:
+ *                 type: string
+ *                 example: "November appointment reminders"
+ *               text:
+ *                 type: string
+ *                 description: Message text, or media caption when media is set
+ *                 example: "Hi {{name}}, see you on {{date}}!"
+ *               media:
+ *                 type: object
+ *                 properties:
+ *                   mimetype:
+ *                     type: string
+ *                   data:
+ *                     type: string
+ *                     description: Base64 encoded media data
+ *                   filename:
+ *                     type: string
+ *               recipients:
+ *                 type: array
+ *                 items:
+ *                   type: object
+ *                   required: [to]
+ *                   properties:
+ *                     to:
+ *                       type: string
+ *                     variables:
+ *                       type: object
+ *                       additionalProperties:
+ *                         type: string
+ *               csv:
+ *                 type: string
+ *                 example: "to,name,date\n1234567890,Ana,Monday"
+ *               paused:
+ *                 type: boolean
+ *                 default: false
+ *                 description: Create the campaign paused and start it later with /resume
+ *     responses:
+ *       201:
+ *         description: Campaign created
+ *       400:
+ *         description: Validation error, invalid CSV or missing template variables
+ *       404:
+ *         description: Device not found
+ *       500:
+ *         description: Internal server error
+ *   get:
+ *     summary: List campaigns for a device
+ *     tags: [Campaigns]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Device ID
+ *     responses:
+ *       200:
+ *         description: Campaigns, newest first
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/Campaign'
+ *       500:
+ *         description: Internal server error
+ */
+router.post('/',
+  requireScope('messages:send'),
+  clientOperationRateLimiter,
+  validate(schemas.createCampaign, 'body'),
+  CampaignController.createCampaign
+);
+router.get('/', requireScope('messages:read'), CampaignController.listCampaigns);
+
+/**
+ * @swagger
+ * /api/v1/devices/{id}/campaigns/{campaignId}:
+ *   get:
+ *     summary: Get a campaign with recipient counts per status
+ *     tags: [Campaigns]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Device ID
+ *       - in: path
+ *         name: campaignId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Campaign
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   $ref: '#/components/schemas/Campaign'
+ *       404:
+ *         description: Campaign not found
+ *       500:
+ *         description: Internal server error
+ *   delete:
+ *     summary: Delete a completed or cancelled campaign
+ *     tags: [Campaigns]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Device ID
+ *       - in: path
+ *         name: campaignId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Campaign deleted
+ *       404:
+ *         description: Campaign not found
+ *       409:
+ *         description: Campaign is still running or paused
+ *       500:
+ *         description: Internal server error
+ */
+router.get('/:campaignId',
+  requireScope('messages:read'),
+  validate(schemas.campaignId, 'params'),
+  CampaignController.getCampaign
+);
+router.delete('/:campaignId',
+  requireScope('messages:send'),
+  validate(schemas.campaignId, 'params'),
+  CampaignController.deleteCampaign
+);
+
+/**
+ * @swagger
+ * /api/v1/devices/{id}/campaigns/{campaignId}/recipients:
+ *   get:
+ *     summary: Get per-recipient status
+ *     tags: [Campaigns]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Device ID
+ *       - in: path
+ *         name: campaignId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [pending, queued, sent, delivered, read, failed, cancelled]
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 100
+ *           maximum: 1000
+ *       - in: query
+ *         name: offset
+ *         schema:
+ *           type: integer
+ *           default: 0
+ *     responses:
+ *       200:
+ *         description: Recipients in list order
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/CampaignRecipient'
+ *                 pagination:
+ *                   type: object
+ *       404:
+ *         description: Campaign not found
+ *       500:
+ *         description: Internal server error
+ */
+router.get('/:campaignId/recipients',
+  requireScope('messages:read'),
+  validate(schemas.campaignId, 'params'),
+  validate(schemas.campaignRecipients, 'query'),
+  CampaignController.getCampaignRecipients
+);
+
+/**
+ * @swagger
+ * /api/v1/devices/{id}/campaigns/{campaignId}/pause:
+ *   post:
+ *     summary: Pause a running campaign
+ *     description: No new recipients are queued. The few already in the message queue are still sent.
+ *     tags: [Campaigns]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Device ID
+ *       - in: path
+ *         name: campaignId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Campaign paused
+ *       404:
+ *         description: Campaign not found
+ *       409:
+ *         description: Campaign is not running
+ *       500:
+ *         description: Internal server error
+ *
+ * /api/v1/devices/{id}/campaigns/{campaignId}/resume:
+ *   post:
+ *     summary: Resume a paused campaign
+ *     tags: [Campaigns]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Device ID
+ *       - in: path
+ *         name: campaignId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Campaign running
+ *       404:
+ *         description: Campaign not found
+ *       409:
+ *         description: Campaign is not paused
+ *       500:
+ *         description: Internal server error
+ *
+ * /api/v1/devices/{id}/campaigns/{campaignId}/cancel:
+ *   post:
+ *     summary: Cancel a campaign
+ *     description: Recipients that were not queued yet are marked cancelled.
+ *     tags: [Campaigns]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Device ID
+ *       - in: path
+ *         name: campaignId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Campaign cancelled
+ *       404:
+ *         description: Campaign not found
+ *       409:
+ *         description: Campaign already completed or cancelled
+ *       500:
+ *         description: Internal server error
+ */
+router.post('/:campaignId/pause',
+  requireScope('messages:send'),
+  validate(schemas.campaignId, 'params'),
+  CampaignController.pauseCampaign
+);
+router.post('/:campaignId/resume',
+  requireScope('messages:send'),
+  validate(schemas.campaignId, 'params'),
+  CampaignController.resumeCampaign
+);
+router.post('/:campaignId/cancel',
+  requireScope('messages:send'),
+  validate(schemas.campaignId, 'params'),
+  CampaignController.cancelCampaign
+);
+
+export default router;
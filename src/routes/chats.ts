@@ -1,6 +1,6 @@
 import { Router } from 'express';
 import { ChatController, AIController } from '../controllers';
-import { validate } from '../middlewares';
+import { validate, requireScope } from '../middlewares';
 import { schemas } from '../config/validation';
 
 const router = Router({ mergeParams: true });
@@ -77,7 +77,7 @@ const router = Router({ mergeParams: true });
  *       500:
  *         description: Internal server error
  */
-router.get('/', validate(schemas.listChats, 'query'), ChatController.listChats);
+router.get('/', requireScope('chats:read'), validate(schemas.listChats, 'query'), ChatController.listChats);
 
 /**
  * @swagger
@@ -163,7 +163,7 @@ router.get('/', validate(schemas.listChats, 'query'), ChatController.listChats);
  *       500:
  *         description: Internal server error
  */
-router.post('/', validate(schemas.sendChatMessage), ChatController.sendMessage);
+router.post('/', requireScope('messages:send'), validate(schemas.sendChatMessage), ChatController.sendMessage);
 
 /**
  * @swagger
@@ -192,7 +192,7 @@ router.post('/', validate(schemas.sendChatMessage), ChatController.sendMessage);
  *       500:
  *         description: Internal server error
  */
-router.get('/:chatId', validate(schemas.chatId, 'params'), ChatController.getChatById);
+router.get('/:chatId', requireScope('chats:read'), validate(schemas.chatId, 'params'), ChatController.getChatById);
 
 /**
  * @swagger
@@ -221,7 +221,7 @@ router.get('/:chatId', validate(schemas.chatId, 'params'), ChatController.getCha
  *       500:
  *         description: Internal server error
  */
-router.delete('/:chatId', validate(schemas.chatId, 'params'), ChatController.deleteChat);
+router.delete('/:chatId', requireScope('chats:write'), validate(schemas.chatId, 'params'), ChatController.deleteChat);
 
 /**
  * @swagger
@@ -250,7 +250,7 @@ router.delete('/:chatId', validate(schemas.chatId, 'params'), ChatController.del
  *       500:
  *         description: Internal server error
  */
-router.post('/:chatId/clear', validate(schemas.chatId, 'params'), ChatController.clearChat);
+router.post('/:chatId/clear', requireScope('chats:write'), validate(schemas.chatId, 'params'), ChatController.clearChat);
 
 /**
  * @swagger
@@ -279,7 +279,7 @@ router.post('/:chatId/clear', validate(schemas.chatId, 'params'), ChatController
  *       500:
  *         description: Internal server error
  */
-router.post('/:chatId/archive', validate(schemas.chatId, 'params'), ChatController.archiveChat);
+router.post('/:chatId/archive', requireScope('chats:write'), validate(schemas.chatId, 'params'), ChatController.archiveChat);
 
 /**
  * @swagger
@@ -308,7 +308,7 @@ router.post('/:chatId/archive', validate(schemas.chatId, 'params'), ChatControll
  *       500:
  *         description: Internal server error
  */
-router.post('/:chatId/unarchive', validate(schemas.chatId, 'params'), ChatController.unarchiveChat);
+router.post('/:chatId/unarchive', requireScope('chats:write'), validate(schemas.chatId, 'params'), ChatController.unarchiveChat);
 
 /**
  * @swagger
@@ -432,7 +432,8 @@ router.post('/:chatId/unarchive', validate(schemas.chatId, 'params'), ChatContro
  *       500:
  *         description: Internal server error
  */
-router.get('/:chatId/messages', 
+router.get('/:chatId/messages',
+  requireScope('messages:read'),
   validate(schemas.chatId, 'params'), 
   validate(schemas.fetchChatMessages, 'query'), 
   ChatController.fetchMessages
@@ -482,6 +483,7 @@ router.get('/:chatId/messages',
  *         description: Internal server error
  */
 router.post('/:chatId/messages/forward',
+  requireScope('messages:send'),
   validate(schemas.chatId, 'params'),
   validate(schemas.forwardMessage, 'body'),
   ChatController.forwardMessage
@@ -555,7 +557,7 @@ router.post('/:chatId/messages/forward',
  *       500:
  *         description: Internal server error
  */
-router.get('/search', validate(schemas.searchChats, 'query'), ChatController.searchChats);
+router.get('/search', requireScope('chats:read'), validate(schemas.searchChats, 'query'), ChatController.searchChats);
 
 /**
  * @swagger
@@ -601,6 +603,7 @@ router.get('/search', validate(schemas.searchChats, 'query'), ChatController.sea
  *         description: Internal server error
  */
 router.post('/:chatId/messages/delete',
+  requireScope('messages:send'),
   validate(schemas.chatId, 'params'),
   validate(schemas.deleteMessage, 'body'),
   ChatController.deleteMessage
@@ -659,7 +662,7 @@ router.post('/:chatId/messages/delete',
  *       500:
  *         description: Internal server error
  */
-router.post('/location', ChatController.sendLocation);
+router.post('/location', requireScope('messages:send'), ChatController.sendLocation);
 
 /**
  * @swagger
@@ -725,7 +728,8 @@ router.post('/location', ChatController.sendLocation);
  *       500:
  *         description: Internal server error
  */
-router.post('/:chatId/markRead', 
+router.post('/:chatId/markRead',
+  requireScope('chats:write'),
   validate(schemas.chatId, 'params'), 
   ChatController.markChatAsRead
 );
@@ -797,6 +801,7 @@ router.post('/:chatId/markRead',
  *         description: Internal server error
  */
 router.post('/:chatId/messages/:messageId/markRead',
+  requireScope('chats:write'),
   validate(schemas.chatId, 'params'),
   ChatController.markMessageAsRead
 );
@@ -837,9 +842,131 @@ router.post('/:chatId/messages/:messageId/markRead',
  *         description: Internal server error
  */
 router.post('/:chatId/analyze',
+  requireScope('ai:use'),
   validate(schemas.chatId, 'params'),
   validate(schemas.analyzeChatAI, 'body'),
   AIController.analyzeChat
 );
 
+/**
+ * @swagger
+ * /api/v1/devices/{id}/chats/{chatId}/analyze/stream:
+ *   post:
+ *     summary: Analyze a chat with AI, streamed as Server-Sent Events
+ *     description: |
+ *       Takes the same body as /analyze and answers with `text/event-stream`. Each event's data is JSON
+ *       with a `type` of `start`, `chunk` (with the new `content`), `complete` (with the full `content`
+ *       and `usage`) or `error`. Closing the connection cancels the completion at the provider.
+ *       Validation and device errors are returned as JSON before the stream starts.
+ *     tags: [Chats, AI]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Device ID
+ *       - in: path
+ *         name: chatId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Chat ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/analyzeChatAI'
+ *     responses:
+ *       200:
+ *         description: Event stream
+ *         content:
+ *           text/event-stream:
+ *             schema:
+ *               type: string
+ *               example: "data: {\"type\":\"chunk\",\"content\":\"The conversation\"}"
+ *       400:
+ *         description: Invalid request data or device not ready
+ *       404:
+ *         description: Device not found
+ *       500:
+ *         description: Internal server error
+ */
+router.post('/:chatId/analyze/stream',
+  requireScope('ai:use'),
+  validate(schemas.chatId, 'params'),
+  validate(schemas.analyzeChatAI, 'body'),
+  AIController.analyzeChatStream
+);
+
+/**
+ * @swagger
+ * /api/v1/devices/{id}/chats/{chatId}/extract:
+ *   post:
+ *     summary: Extract structured data from a chat with AI
+ *     description: |
+ *       Returns data matching the given JSON Schema, such as orders, addresses or appointment requests.
+ *       Answers that aren't valid JSON or don't match the schema are sent back to the model with the
+ *       errors, up to AI_EXTRACTION_MAX_ATTEMPTS times. With `chunked`, conversations too long for one
+ *       request are split, extracted part by part and merged.
+ *     tags: [Chats, AI]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Device ID
+ *       - in: path
+ *         name: chatId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Chat ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/extractChatData'
+ *           example:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 orders:
+ *                   type: array
+ *                   items:
+ *                     type: object
+ *                     properties:
+ *                       product:
+ *                         type: string
+ *                       quantity:
+ *                         type: integer
+ *                     required: [product, quantity]
+ *               required: [orders]
+ *             since: "2026-10-18T00:00:00Z"
+ *     responses:
+ *       200:
+ *         description: Extracted data, in `data.data`. `data.truncated` is true when older messages of the `since` window were left out
+ *       400:
+ *         description: Invalid request data, unsupported JSON Schema or device not ready
+ *       404:
+ *         description: Device not found
+ *       413:
+ *         description: The conversation is too long for one request, or needs too many chunks
+ *       422:
+ *         description: The model's answer did not match the schema after all attempts
+ *       429:
+ *         description: AI budget used up
+ *       500:
+ *         description: Internal server error
+ */
+router.post('/:chatId/extract',
+  requireScope('ai:use'),
+  validate(schemas.chatId, 'params'),
+  validate(schemas.extractChatData, 'body'),
+  AIController.extractChatData
+);
+
 export default router;
@@ -1,6 +1,6 @@
 import { Router } from 'express';
 import { DeviceController } from '../controllers';
-import { validate } from '../middlewares';
+import { validate, requireScope, requireDeviceAccess, forwardToDeviceOwner } from '../middlewares';
 import { schemas } from '../config/validation';
 import messageRoutes from './messages';
 import groupRoutes from './groups';
@@ -8,24 +8,72 @@ import chatRoutes from './chats';
 import analyticsRoutes from './analytics';
 import mentionsGroupsRoutes from './mentions-groups';
 import mediaRoutes from './media';
+import scheduledMessageRoutes from './scheduled-messages';
+import campaignRoutes from './campaigns';
+import ruleRoutes from './rules';
+import aiAgentRoutes from './ai-agent';
+import digestRoutes from './digests';
+import translationRoutes from './translation';
+import recipientPolicyRoutes from './recipient-policy';
+import reconnectRoutes from './reconnect';
 
 const router = Router();
 
 // --- Main API v1 Routes ---
 
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     DeviceProfile:
+ *       type: object
+ *       properties:
+ *         name:
+ *           type: string
+ *           example: Support line
+ *         labels:
+ *           type: array
+ *           items:
+ *             type: string
+ *           example: [support, eu]
+ *         metadata:
+ *           type: object
+ *           additionalProperties:
+ *             type: string
+ *           description: Free-form string values, e.g. team, purpose or webhook profile
+ *           example: { "team": "support", "purpose": "inbound" }
+ *         owner:
+ *           type: string
+ *           description: Who the device belongs to; defaults to the ID of the API key that created it
+ *           example: team-support
+ */
+
 /**
  * @swagger
  * /api/v1/devices:
  *   post:
  *     summary: Create a new WhatsApp device
  *     tags: [Devices]
+ *     requestBody:
+ *       required: false
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/DeviceProfile'
  *     responses:
  *       201:
  *         description: Device created successfully
+ *       400:
+ *         description: Invalid name, labels, metadata or owner
  *       500:
  *         description: Internal server error
  */
-router.post('/', DeviceController.createDevice);
+router.post('/',
+  requireScope('devices:write'),
+  requireDeviceAccess(),
+  validate(schemas.createDevice, 'body'),
+  DeviceController.createDevice
+);
 
 /**
  * @swagger
@@ -33,13 +81,34 @@ router.post('/', DeviceController.createDevice);
  *   get:
  *     summary: List all devices
  *     tags: [Devices]
+ *     parameters:
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [initializing, qr, ready, disconnected, error]
+ *       - in: query
+ *         name: label
+ *         description: Only devices with this label; repeat for devices with all of the labels
+ *         schema:
+ *           type: array
+ *           items:
+ *             type: string
+ *         style: form
+ *         explode: true
+ *       - in: query
+ *         name: owner
+ *         schema:
+ *           type: string
  *     responses:
  *       200:
  *         description: List of devices
+ *       400:
+ *         description: Invalid filter
  *       500:
  *         description: Internal server error
  */
-router.get('/', DeviceController.listDevices);
+router.get('/', requireScope('devices:read'), validate(schemas.listDevices, 'query'), DeviceController.listDevices);
 
 /**
  * @swagger
@@ -51,7 +120,13 @@ router.get('/', DeviceController.listDevices);
  *       200:
  *         description: All devices deleted
  */
-router.delete('/delete-all', DeviceController.deleteAllDevices);
+router.delete('/delete-all', requireScope('devices:admin'), requireDeviceAccess(), DeviceController.deleteAllDevices);
+
+// Everything below acts on a single device, so check the key may use it
+router.use('/:id', requireDeviceAccess('id'));
+
+// In a cluster, calls for a device another node runs are handled by that node
+router.use('/:id', forwardToDeviceOwner);
 
 /**
  * @swagger
@@ -73,7 +148,7 @@ router.delete('/delete-all', DeviceController.deleteAllDevices);
  *       500:
  *         description: Internal server error
  */
-router.get('/:id/status', validate(schemas.deviceId, 'params'), DeviceController.getDeviceStatus);
+router.get('/:id/status', requireScope('devices:read'), validate(schemas.deviceId, 'params'), DeviceController.getDeviceStatus);
 
 // Chat routes for each device
 router.use('/:id/chats', chatRoutes);
@@ -84,6 +159,30 @@ router.use('/:id/messages', messageRoutes);
 // Media routes - Download and manage media files from messages
 router.use('/:id/messages', mediaRoutes);
 
+// Scheduled messages - List, reschedule and cancel messages queued with sendAt
+router.use('/:id/scheduled', scheduledMessageRoutes);
+
+// Broadcast campaigns - Fan a templated message out to many recipients with per-recipient tracking
+router.use('/:id/campaigns', campaignRoutes);
+
+// Auto-reply rules - Declarative responders that run on inbound messages
+router.use('/:id/rules', ruleRoutes);
+
+// AI agent - Answer inbound messages with the configured AI provider
+router.use('/:id/ai-agent', aiAgentRoutes);
+
+// Chat digests - Scheduled AI summaries of chosen chats
+router.use('/:id/digests', digestRoutes);
+
+// Translation - Per-chat translation of inbound and outbound messages
+router.use('/:id/translation', translationRoutes);
+
+// Recipient policy - Per-recipient limits and quiet hours applied by the message queue
+router.use('/:id/recipient-policy', recipientPolicyRoutes);
+
+// Reconnection - Automatic restarts of disconnected or hung clients, and their policy
+router.use('/:id/reconnect', reconnectRoutes);
+
 // Group routes for each device
 router.use('/:id/groups', groupRoutes);
 
@@ -160,7 +259,7 @@ router.use('/:id/analytics', analyticsRoutes);
  *       500:
  *         description: Internal server error
  */
-router.post('/:id/contacts', validate(schemas.deviceId, 'params'), validate(schemas.getContacts, 'body'), DeviceController.getContacts);
+router.post('/:id/contacts', requireScope('devices:read'), validate(schemas.deviceId, 'params'), validate(schemas.getContacts, 'body'), DeviceController.getContacts);
 
 /**
  * @swagger
@@ -182,7 +281,46 @@ router.post('/:id/contacts', validate(schemas.deviceId, 'params'), validate(sche
  *       500:
  *         description: Internal server error
  */
-router.delete('/:id', validate(schemas.deviceId, 'params'), DeviceController.deleteDevice);
+router.delete('/:id', requireScope('devices:write'), validate(schemas.deviceId, 'params'), DeviceController.deleteDevice);
+
+/**
+ * @swagger
+ * /api/v1/devices/{id}:
+ *   patch:
+ *     summary: Change the name, labels, metadata or owner of a device
+ *     description: |
+ *       Fields left out are kept. labels replaces the device's labels; metadata is merged into the device's
+ *       metadata, and keys set to null are removed. Set name or owner to null to clear them.
+ *     tags: [Devices]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/DeviceProfile'
+ *           example: { "labels": ["support"], "metadata": { "purpose": null } }
+ *     responses:
+ *       200:
+ *         description: Device updated
+ *       400:
+ *         description: Invalid name, labels, metadata or owner
+ *       404:
+ *         description: Device not found
+ *       500:
+ *         description: Internal server error
+ */
+router.patch('/:id',
+  requireScope('devices:write'),
+  validate(schemas.deviceId, 'params'),
+  validate(schemas.updateDevice, 'body'),
+  DeviceController.updateDevice
+);
 
 /**
  * @swagger
@@ -202,7 +340,7 @@ router.delete('/:id', validate(schemas.deviceId, 'params'), DeviceController.del
  *       404:
  *         description: Device not found
  */
-router.get('/:id', validate(schemas.deviceId, 'params'), DeviceController.getDevice);
+router.get('/:id', requireScope('devices:read'), validate(schemas.deviceId, 'params'), DeviceController.getDevice);
 
 /**
  * @swagger
@@ -222,7 +360,7 @@ router.get('/:id', validate(schemas.deviceId, 'params'), DeviceController.getDev
  *       404:
  *         description: Device not found or no QR code
  */
-router.get('/:id/qr', validate(schemas.deviceId, 'params'), DeviceController.getDeviceQR);
+router.get('/:id/qr', requireScope('devices:read'), validate(schemas.deviceId, 'params'), DeviceController.getDeviceQR);
 
 /**
  * @swagger
@@ -247,6 +385,73 @@ router.get('/:id/qr', validate(schemas.deviceId, 'params'), DeviceController.get
  *       404:
  *         description: Device not found or no QR code
  */
-router.get('/:id/qr.png', validate(schemas.deviceId, 'params'), DeviceController.getDeviceQRImage);
+router.get('/:id/qr.png', requireScope('devices:read'), validate(schemas.deviceId, 'params'), DeviceController.getDeviceQRImage);
+
+/**
+ * @swagger
+ * /api/v1/devices/{id}/pair:
+ *   post:
+ *     summary: Get a pairing code instead of a QR code
+ *     description: |
+ *       Links the device from the phone itself: in WhatsApp, Linked devices > Link a device > Link with phone number instead,
+ *       then enter the code. Only available while the device waits for login (status qr). The code expires after about
+ *       three minutes; request a new one to refresh it. It is also emitted as a pairing-code event on the device's socket namespace.
+ *     tags: [Devices]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [phoneNumber]
+ *             properties:
+ *               phoneNumber:
+ *                 type: string
+ *                 description: Number of the phone that links the device, in international format
+ *                 example: "+34 600 111 222"
+ *     responses:
+ *       200:
+ *         description: Pairing code
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     deviceId:
+ *                       type: string
+ *                     pairingCode:
+ *                       type: string
+ *                       example: ABCD1234
+ *                     phoneNumber:
+ *                       type: string
+ *                       example: "34600111222"
+ *                     expiresAt:
+ *                       type: integer
+ *       400:
+ *         description: Invalid phone number
+ *       404:
+ *         description: Device not found
+ *       409:
+ *         description: Device isn't waiting for login
+ *       500:
+ *         description: Internal server error
+ */
+router.post('/:id/pair',
+  requireScope('devices:write'),
+  validate(schemas.deviceId, 'params'),
+  validate(schemas.pairDevice, 'body'),
+  DeviceController.pairDevice
+);
 
 export default router;
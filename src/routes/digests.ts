@@ -0,0 +1,410 @@
+import { Router } from 'express';
+import { DigestController } from '../controllers';
+import { validate, requireScope } from '../middlewares';
+import { schemas } from '../config/validation';
+
+const router = Router({ mergeParams: true });
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     DigestScheduleSettings:
+ *       type: object
+ *       properties:
+ *         name:
+ *           type: string
+ *           example: "Team groups"
+ *         chatIds:
+ *           type: array
+ *           items:
+ *             type: string
+ *           description: Chat or group IDs; phone numbers are accepted for private chats
+ *           example: ["120363025555555555@g.us", "1234567890"]
+ *         cron:
+ *           type: string
+ *           default: "0 8 * * *"
+ *           description: When to make the digest, as a 5-field cron expression in the server's time zone
+ *         periodHours:
+ *           type: integer
+ *           default: 24
+ *           maximum: 168
+ *           description: How many hours of messages each digest covers
+ *         messageLimit:
+ *           type: integer
+ *           default: 300
+ *           maximum: 1000
+ *           description: Most recent messages fetched per chat
+ *         prompt:
+ *           type: string
+ *           description: Extra instructions for the summary, e.g. "Focus on open tasks"
+ *         includeMetadata:
+ *           type: boolean
+ *           default: false
+ *           description: Send message timestamps to the AI provider
+ *         provider:
+ *           type: string
+ *           description: Defaults to AI_PROVIDER
+ *         model:
+ *           type: string
+ *         targetChatId:
+ *           type: string
+ *           nullable: true
+ *           description: Send the digest to this chat
+ *         webhookUrl:
+ *           type: string
+ *           nullable: true
+ *           description: POST the digest to this URL
+ *         webhookSecret:
+ *           type: string
+ *           nullable: true
+ *           description: Signs webhook deliveries (X-Webhook-Signature)
+ *         skipEmpty:
+ *           type: boolean
+ *           default: true
+ *           description: Don't deliver digests of periods without messages
+ *         enabled:
+ *           type: boolean
+ *           default: true
+ *     DigestSchedule:
+ *       allOf:
+ *         - $ref: '#/components/schemas/DigestScheduleSettings'
+ *         - type: object
+ *           properties:
+ *             id:
+ *               type: string
+ *               example: "schedule_3f9a1c2b4d5e6f70"
+ *             deviceId:
+ *               type: string
+ *             nextRunAt:
+ *               type: integer
+ *             lastRunAt:
+ *               type: integer
+ *             lastDigestId:
+ *               type: string
+ *             lastError:
+ *               type: string
+ *             createdAt:
+ *               type: integer
+ *             updatedAt:
+ *               type: integer
+ *     Digest:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: string
+ *           example: "digest_8c1d2e3f4a5b6c7d"
+ *         deviceId:
+ *           type: string
+ *         scheduleId:
+ *           type: string
+ *         name:
+ *           type: string
+ *         periodStart:
+ *           type: integer
+ *         periodEnd:
+ *           type: integer
+ *         chats:
+ *           type: array
+ *           items:
+ *             type: object
+ *             properties:
+ *               chatId:
+ *                 type: string
+ *               name:
+ *                 type: string
+ *               messageCount:
+ *                 type: integer
+ *               summary:
+ *                 type: string
+ *               error:
+ *                 type: string
+ *         text:
+ *           type: string
+ *           description: The delivered message, with a section per chat
+ *         delivery:
+ *           type: object
+ *           properties:
+ *             queueId:
+ *               type: string
+ *             webhookStatus:
+ *               type: integer
+ *             errors:
+ *               type: array
+ *               items:
+ *                 type: string
+ *         createdAt:
+ *           type: integer
+ *
+ * /api/v1/devices/{id}/digests/schedules:
+ *   get:
+ *     summary: List digest schedules
+ *     tags: [Digests]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Device ID
+ *     responses:
+ *       200:
+ *         description: Schedules, oldest first
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/DigestSchedule'
+ *       500:
+ *         description: Internal server error
+ *   post:
+ *     summary: Create a digest schedule
+ *     tags: [Digests]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Device ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             allOf:
+ *               - $ref: '#/components/schemas/DigestScheduleSettings'
+ *               - type: object
+ *                 required: [name, chatIds]
+ *     responses:
+ *       201:
+ *         description: Schedule created
+ *       400:
+ *         description: Invalid schedule or AI provider not configured
+ *       404:
+ *         description: Device not found
+ *       500:
+ *         description: Internal server error
+ */
+router.get('/schedules', requireScope('ai:use'), DigestController.listSchedules);
+router.post('/schedules',
+  requireScope('ai:use'),
+  validate(schemas.createDigestSchedule, 'body'),
+  DigestController.createSchedule
+);
+
+/**
+ * @swagger
+ * /api/v1/devices/{id}/digests/schedules/{scheduleId}:
+ *   get:
+ *     summary: Get a digest schedule
+ *     tags: [Digests]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Device ID
+ *       - in: path
+ *         name: scheduleId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: The schedule
+ *       404:
+ *         description: Schedule not found
+ *   patch:
+ *     summary: Update a digest schedule
+ *     description: Send null for targetChatId, webhookUrl or webhookSecret to remove them.
+ *     tags: [Digests]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Device ID
+ *       - in: path
+ *         name: scheduleId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/DigestScheduleSettings'
+ *     responses:
+ *       200:
+ *         description: Schedule updated
+ *       400:
+ *         description: Invalid schedule or AI provider not configured
+ *       404:
+ *         description: Schedule not found
+ *   delete:
+ *     summary: Delete a digest schedule
+ *     description: Digests the schedule already made are kept.
+ *     tags: [Digests]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Device ID
+ *       - in: path
+ *         name: scheduleId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Schedule deleted
+ *       404:
+ *         description: Schedule not found
+ */
+router.get('/schedules/:scheduleId',
+  requireScope('ai:use'),
+  validate(schemas.digestScheduleId, 'params'),
+  DigestController.getSchedule
+);
+router.patch('/schedules/:scheduleId',
+  requireScope('ai:use'),
+  validate(schemas.digestScheduleId, 'params'),
+  validate(schemas.updateDigestSchedule, 'body'),
+  DigestController.updateSchedule
+);
+router.delete('/schedules/:scheduleId',
+  requireScope('ai:use'),
+  validate(schemas.digestScheduleId, 'params'),
+  DigestController.deleteSchedule
+);
+
+/**
+ * @swagger
+ * /api/v1/devices/{id}/digests/schedules/{scheduleId}/run:
+ *   post:
+ *     summary: Make and deliver a digest now
+ *     description: Waits until the digest is made. The next scheduled run is unchanged.
+ *     tags: [Digests]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Device ID
+ *       - in: path
+ *         name: scheduleId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: The digest
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   $ref: '#/components/schemas/Digest'
+ *       404:
+ *         description: Schedule not found
+ *       409:
+ *         description: Device not found or not ready
+ *       500:
+ *         description: Internal server error
+ */
+router.post('/schedules/:scheduleId/run',
+  requireScope('ai:use'),
+  validate(schemas.digestScheduleId, 'params'),
+  DigestController.runSchedule
+);
+
+/**
+ * @swagger
+ * /api/v1/devices/{id}/digests:
+ *   get:
+ *     summary: List stored digests, newest first
+ *     tags: [Digests]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Device ID
+ *       - in: query
+ *         name: scheduleId
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 20
+ *           maximum: 100
+ *     responses:
+ *       200:
+ *         description: Digests
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/Digest'
+ *       500:
+ *         description: Internal server error
+ *
+ * /api/v1/devices/{id}/digests/{digestId}:
+ *   get:
+ *     summary: Get a stored digest
+ *     tags: [Digests]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Device ID
+ *       - in: path
+ *         name: digestId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: The digest
+ *       404:
+ *         description: Digest not found
+ */
+router.get('/',
+  requireScope('messages:read'),
+  validate(schemas.listDigests, 'query'),
+  DigestController.listDigests
+);
+router.get('/:digestId',
+  requireScope('messages:read'),
+  validate(schemas.digestId, 'params'),
+  DigestController.getDigest
+);
+
+export default router;
@@ -1,10 +1,13 @@
 import { Router } from 'express';
 import { GroupsController } from '../controllers/groups.controller';
-import { validate } from '../middlewares';
+import { validate, requireScope } from '../middlewares';
 import { schemas } from '../config/validation';
 
 const router = Router({ mergeParams: true }); // mergeParams to access parent route params
 
+// All groups routes require the groups:write scope
+router.use(requireScope('groups:write'));
+
 /**
  * @swagger
  * /api/v1/devices/{id}/groups/{groupId}/join:
@@ -136,13 +139,40 @@ router.post('/:groupId/leave',
   GroupsController.leaveGroup
 );
 
-// Future stub endpoints
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     GroupParticipantResult:
+ *       type: object
+ *       properties:
+ *         participantId:
+ *           type: string
+ *           example: "1234567890@c.us"
+ *         status:
+ *           type: string
+ *           enum: [added, already_member, invite_sent, privacy_blocked, not_on_whatsapp, recently_left, group_full, removed, promoted, demoted, not_a_member, unchanged, failed]
+ *         code:
+ *           type: integer
+ *           nullable: true
+ *           description: WhatsApp result code for the participant
+ *         message:
+ *           type: string
+ *         inviteSent:
+ *           type: boolean
+ *           description: Whether a private group invite was sent instead (add only)
+ */
+
 /**
  * @swagger
  * /api/v1/devices/{id}/groups/{groupId}/participants/add:
  *   post:
- *     summary: Add participants to a group (Future stub)
- *     tags: [Groups, Future]
+ *     summary: Add participants to a group
+ *     description: |
+ *       Adds each participant and reports the outcome per participant. Participants whose
+ *       privacy settings prevent being added receive a private invite instead when
+ *       `autoSendInvite` is enabled. The device must be a group admin.
+ *     tags: [Groups]
  *     parameters:
  *       - in: path
  *         name: id
@@ -156,12 +186,64 @@ router.post('/:groupId/leave',
  *         schema:
  *           type: string
  *         description: Group ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [participants]
+ *             properties:
+ *               participants:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                 description: Phone numbers or contact IDs
+ *                 example: ["1234567890", "0987654321@c.us"]
+ *               autoSendInvite:
+ *                 type: boolean
+ *                 default: true
+ *                 description: Send a private invite to participants who can't be added directly
+ *               inviteComment:
+ *                 type: string
+ *                 description: Comment attached to private invites
  *     responses:
- *       501:
- *         description: Not implemented yet
+ *       200:
+ *         description: Per-participant results
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     deviceId:
+ *                       type: string
+ *                     groupId:
+ *                       type: string
+ *                     results:
+ *                       type: array
+ *                       items:
+ *                         $ref: '#/components/schemas/GroupParticipantResult'
+ *                     summary:
+ *                       type: object
+ *                       additionalProperties:
+ *                         type: integer
+ *                       description: Count of participants per status
+ *       400:
+ *         description: Device not ready, not a group admin, or validation error
+ *       404:
+ *         description: Device or group not found
+ *       500:
+ *         description: Internal server error
  */
 router.post('/:groupId/participants/add', 
   validate(schemas.groupId, 'params'), 
+  validate(schemas.addGroupParticipants, 'body'), 
   GroupsController.addParticipants
 );
 
@@ -169,8 +251,8 @@ router.post('/:groupId/participants/add',
  * @swagger
  * /api/v1/devices/{id}/groups/{groupId}/participants/remove:
  *   post:
- *     summary: Remove participants from a group (Future stub)
- *     tags: [Groups, Future]
+ *     summary: Remove participants from a group
+ *     tags: [Groups]
  *     parameters:
  *       - in: path
  *         name: id
@@ -184,21 +266,212 @@ router.post('/:groupId/participants/add',
  *         schema:
  *           type: string
  *         description: Group ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [participants]
+ *             properties:
+ *               participants:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                 description: Phone numbers or contact IDs
+ *                 example: ["1234567890", "0987654321@c.us"]
  *     responses:
- *       501:
- *         description: Not implemented yet
+ *       200:
+ *         description: Per-participant results (status is removed or not_a_member)
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     deviceId:
+ *                       type: string
+ *                     groupId:
+ *                       type: string
+ *                     results:
+ *                       type: array
+ *                       items:
+ *                         $ref: '#/components/schemas/GroupParticipantResult'
+ *                     summary:
+ *                       type: object
+ *                       additionalProperties:
+ *                         type: integer
+ *                       description: Count of participants per status
+ *       400:
+ *         description: Device not ready, not a group admin, or validation error
+ *       404:
+ *         description: Device or group not found
+ *       500:
+ *         description: Internal server error
  */
 router.post('/:groupId/participants/remove', 
   validate(schemas.groupId, 'params'), 
+  validate(schemas.groupParticipants, 'body'), 
   GroupsController.removeParticipants
 );
 
+/**
+ * @swagger
+ * /api/v1/devices/{id}/groups/{groupId}/participants/promote:
+ *   post:
+ *     summary: Promote participants to group admins
+ *     tags: [Groups]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Device ID
+ *       - in: path
+ *         name: groupId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Group ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [participants]
+ *             properties:
+ *               participants:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                 description: Phone numbers or contact IDs
+ *                 example: ["1234567890", "0987654321@c.us"]
+ *     responses:
+ *       200:
+ *         description: Per-participant promote results (status is promoted, not_a_member or unchanged)
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     deviceId:
+ *                       type: string
+ *                     groupId:
+ *                       type: string
+ *                     results:
+ *                       type: array
+ *                       items:
+ *                         $ref: '#/components/schemas/GroupParticipantResult'
+ *                     summary:
+ *                       type: object
+ *                       additionalProperties:
+ *                         type: integer
+ *                       description: Count of participants per status
+ *       400:
+ *         description: Device not ready, not a group admin, or validation error
+ *       404:
+ *         description: Device or group not found
+ *       500:
+ *         description: Internal server error
+ */
+router.post('/:groupId/participants/promote', 
+  validate(schemas.groupId, 'params'), 
+  validate(schemas.groupParticipants, 'body'), 
+  GroupsController.promoteParticipants
+);
+
+/**
+ * @swagger
+ * /api/v1/devices/{id}/groups/{groupId}/participants/demote:
+ *   post:
+ *     summary: Demote group admins to regular participants
+ *     tags: [Groups]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Device ID
+ *       - in: path
+ *         name: groupId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Group ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [participants]
+ *             properties:
+ *               participants:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                 description: Phone numbers or contact IDs
+ *                 example: ["1234567890", "0987654321@c.us"]
+ *     responses:
+ *       200:
+ *         description: Per-participant demote results (status is demoted, not_a_member or unchanged)
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     deviceId:
+ *                       type: string
+ *                     groupId:
+ *                       type: string
+ *                     results:
+ *                       type: array
+ *                       items:
+ *                         $ref: '#/components/schemas/GroupParticipantResult'
+ *                     summary:
+ *                       type: object
+ *                       additionalProperties:
+ *                         type: integer
+ *                       description: Count of participants per status
+ *       400:
+ *         description: Device not ready, not a group admin, or validation error
+ *       404:
+ *         description: Device or group not found
+ *       500:
+ *         description: Internal server error
+ */
+router.post('/:groupId/participants/demote', 
+  validate(schemas.groupId, 'params'), 
+  validate(schemas.groupParticipants, 'body'), 
+  GroupsController.demoteParticipants
+);
+
 /**
  * @swagger
  * /api/v1/devices/{id}/groups/{groupId}/subject:
  *   put:
- *     summary: Set group subject/name (Future stub)
- *     tags: [Groups, Future]
+ *     summary: Set group subject/name
+ *     tags: [Groups]
  *     parameters:
  *       - in: path
  *         name: id
@@ -212,12 +485,31 @@ router.post('/:groupId/participants/remove',
  *         schema:
  *           type: string
  *         description: Group ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [subject]
+ *             properties:
+ *               subject:
+ *                 type: string
+ *                 maxLength: 100
+ *                 example: "Community Announcements"
  *     responses:
- *       501:
- *         description: Not implemented yet
+ *       200:
+ *         description: Group subject updated
+ *       400:
+ *         description: Device not ready, not a group admin, or validation error
+ *       404:
+ *         description: Device or group not found
+ *       500:
+ *         description: Internal server error
  */
 router.put('/:groupId/subject', 
   validate(schemas.groupId, 'params'), 
+  validate(schemas.groupSubject, 'body'), 
   GroupsController.setGroupSubject
 );
 
@@ -225,8 +517,8 @@ router.put('/:groupId/subject',
  * @swagger
  * /api/v1/devices/{id}/groups/{groupId}/description:
  *   put:
- *     summary: Set group description (Future stub)
- *     tags: [Groups, Future]
+ *     summary: Set group description
+ *     tags: [Groups]
  *     parameters:
  *       - in: path
  *         name: id
@@ -240,13 +532,82 @@ router.put('/:groupId/subject',
  *         schema:
  *           type: string
  *         description: Group ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [description]
+ *             properties:
+ *               description:
+ *                 type: string
+ *                 maxLength: 2048
+ *                 description: New description (empty string clears it)
  *     responses:
- *       501:
- *         description: Not implemented yet
+ *       200:
+ *         description: Group description updated
+ *       400:
+ *         description: Device not ready, not a group admin, or validation error
+ *       404:
+ *         description: Device or group not found
+ *       500:
+ *         description: Internal server error
  */
 router.put('/:groupId/description', 
   validate(schemas.groupId, 'params'), 
+  validate(schemas.groupDescription, 'body'), 
   GroupsController.setGroupDescription
 );
 
+/**
+ * @swagger
+ * /api/v1/devices/{id}/groups/{groupId}/settings:
+ *   put:
+ *     summary: Update group settings
+ *     tags: [Groups]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Device ID
+ *       - in: path
+ *         name: groupId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Group ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               announce:
+ *                 type: boolean
+ *                 description: Only admins can send messages
+ *               editInfoAdminsOnly:
+ *                 type: boolean
+ *                 description: Only admins can edit group subject, description and picture
+ *     responses:
+ *       200:
+ *         description: Group settings updated
+ *       403:
+ *         description: Device lacks admin rights for the group
+ *       400:
+ *         description: Device not ready, not a group admin, or validation error
+ *       404:
+ *         description: Device or group not found
+ *       500:
+ *         description: Internal server error
+ */
+router.put('/:groupId/settings', 
+  validate(schemas.groupId, 'params'), 
+  validate(schemas.groupSettings, 'body'), 
+  GroupsController.updateGroupSettings
+);
+
 export default router;
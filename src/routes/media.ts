@@ -1,10 +1,13 @@
 import { Router } from 'express';
-import { downloadMedia, getMediaThumbnail, getMediaInfo } from '../controllers/media.controller';
-import { validate } from '../middlewares';
+import { downloadMedia, getMediaThumbnail, getMediaInfo, getTranscript, transcribeMessage } from '../controllers/media.controller';
+import { validate, requireScope } from '../middlewares';
 import { schemas } from '../config/validation';
 
 const router = Router({ mergeParams: true }); // mergeParams to access device ID from parent route
 
+// All media routes require the messages:read scope
+router.use(requireScope('messages:read'));
+
 /**
  * @swagger
  * /api/v1/devices/{id}/messages/{messageId}/media/download:
@@ -200,4 +203,120 @@ router.get('/:messageId/media/thumbnail', getMediaThumbnail);
  */
 router.get('/:messageId/media/info', getMediaInfo);
 
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     Transcript:
+ *       type: object
+ *       properties:
+ *         messageId:
+ *           type: string
+ *         deviceId:
+ *           type: string
+ *         chatId:
+ *           type: string
+ *         text:
+ *           type: string
+ *           example: "Hi, can we move tomorrow's delivery to 3pm?"
+ *         language:
+ *           type: string
+ *           example: "en"
+ *         duration:
+ *           type: number
+ *           description: Length of the recording in seconds, when WhatsApp reports it
+ *         backend:
+ *           type: string
+ *           description: The backend that made the transcript, or "index" when it was read from the message index
+ *           example: "openai"
+ *         model:
+ *           type: string
+ *           example: "whisper-1"
+ *         createdAt:
+ *           type: integer
+ *
+ * /api/v1/devices/{id}/messages/{messageId}/transcript:
+ *   get:
+ *     summary: Get the transcript of a voice note or audio message
+ *     description: Only returns transcripts that were already made.
+ *     tags: [Media]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Device ID
+ *       - in: path
+ *         name: messageId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Message ID of the voice note
+ *     responses:
+ *       200:
+ *         description: The transcript
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   $ref: '#/components/schemas/Transcript'
+ *       404:
+ *         description: Device not found or message not transcribed
+ *   post:
+ *     summary: Transcribe a voice note or audio message
+ *     description: |
+ *       Answers with the stored transcript when there is one, unless `force` is set.
+ *       Needs the ai:use scope besides messages:read.
+ *     tags: [Media]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Device ID
+ *       - in: path
+ *         name: messageId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Message ID of the voice note
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/transcribeMessage'
+ *     responses:
+ *       200:
+ *         description: The transcript
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   $ref: '#/components/schemas/Transcript'
+ *       400:
+ *         description: Device not ready or message is not a voice note or audio message
+ *       404:
+ *         description: Device or message not found
+ *       502:
+ *         description: The transcription backend failed or the recording is too long
+ *       503:
+ *         description: Transcription is not configured
+ */
+router.get('/:messageId/transcript', getTranscript);
+router.post('/:messageId/transcript',
+  requireScope('ai:use'),
+  validate(schemas.transcribeMessage, 'body'),
+  transcribeMessage
+);
+
 export default router;
@@ -1,6 +1,6 @@
 import { Router } from 'express';
 import * as MentionsGroupsController from '../controllers/mentions-groups.controller';
-import { validate } from '../middlewares';
+import { validate, requireScope } from '../middlewares';
 import { schemas } from '../config/validation';
 
 const router = Router({ mergeParams: true });
@@ -37,7 +37,7 @@ const router = Router({ mergeParams: true });
  *       400:
  *         description: Device not ready
  */
-router.get('/groups', MentionsGroupsController.getGroups);
+router.get('/groups', requireScope('groups:read'), MentionsGroupsController.getGroups);
 
 /**
  * @swagger
@@ -64,7 +64,7 @@ router.get('/groups', MentionsGroupsController.getGroups);
  *       400:
  *         description: Device not ready or chat is not a group
  */
-router.get('/groups/:groupId/participants', MentionsGroupsController.getGroupParticipants);
+router.get('/groups/:groupId/participants', requireScope('groups:read'), MentionsGroupsController.getGroupParticipants);
 
 /**
  * @swagger
@@ -97,7 +97,8 @@ router.get('/groups/:groupId/participants', MentionsGroupsController.getGroupPar
  *       400:
  *         description: Invalid request or device not ready
  */
-router.post('/groups/:groupId/mention', 
+router.post('/groups/:groupId/mention',
+  requireScope('messages:send'),
   validate(schemas.mentionGroupMessage, 'body'),
   MentionsGroupsController.mentionUsersInGroup
 );
@@ -127,7 +128,8 @@ router.post('/groups/:groupId/mention',
  *       400:
  *         description: Invalid request or device not ready
  */
-router.post('/mentions/send', 
+router.post('/mentions/send',
+  requireScope('messages:send'),
   validate(schemas.mentionMessage, 'body'),
   MentionsGroupsController.sendMentionMessage
 );
@@ -163,6 +165,6 @@ router.post('/mentions/send',
  *       400:
  *         description: Device not ready
  */
-router.get('/contacts/mentionable', MentionsGroupsController.getMentionableContacts);
+router.get('/contacts/mentionable', requireScope('devices:read'), MentionsGroupsController.getMentionableContacts);
 
 export default router;
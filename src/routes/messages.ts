@@ -1,6 +1,6 @@
 import { Router } from 'express';
 import * as MessageController from '../controllers/message.controller';
-import { validate } from '../middlewares';
+import { validate, requireScope } from '../middlewares';
 import { schemas } from '../config/validation';
 
 const router = Router({ mergeParams: true });
@@ -85,19 +85,32 @@ const router = Router({ mergeParams: true });
  *                 type: boolean
  *                 default: true
  *                 description: Show typing indicator (when using queue)
+ *               sendAt:
+ *                 type: string
+ *                 description: Schedule the message instead of sending it now. A future ISO 8601 timestamp, or a 5-field cron expression (server time zone) for a recurring message. Manage it via /devices/{id}/scheduled.
+ *                 example: "0 9 * * 1-5"
+ *               translateTo:
+ *                 type: string
+ *                 description: Translate the text or caption with the AI provider before it is queued. A language code, or "auto" for the chat's customer language (see /devices/{id}/translation). The original text is kept for audit. Needs the ai:use scope.
+ *                 example: "es"
  *     responses:
  *       201:
  *         description: Message sent immediately (useQueue=false)
  *       202:
- *         description: Message queued successfully (useQueue=true)
+ *         description: Message queued or scheduled successfully (useQueue=true or sendAt set)
  *       400:
- *         description: Invalid request or device not ready
+ *         description: Invalid request, device not ready, or no language known for translateTo "auto"
+ *       403:
+ *         description: translateTo needs the ai:use scope
  *       429:
- *         description: Device health protection - sending blocked
+ *         description: Device health protection - sending blocked, or AI budget exceeded
+ *       502:
+ *         description: Translation failed
  *       500:
  *         description: Failed to send message
  */
-router.post('/send', 
+router.post('/send',
+  requireScope('messages:send'),
   validate(schemas.sendUnifiedMessage, 'body'),
   MessageController.sendMessage
 );
@@ -146,7 +159,8 @@ router.post('/send',
  *       404:
  *         description: Message not found
  */
-router.post('/forward', 
+router.post('/forward',
+  requireScope('messages:send'),
   validate(schemas.forwardUnifiedMessage, 'body'),
   MessageController.forwardMessage
 );
@@ -189,7 +203,8 @@ router.post('/forward',
  *       404:
  *         description: Message not found
  */
-router.post('/delete', 
+router.post('/delete',
+  requireScope('messages:send'),
   validate(schemas.deleteUnifiedMessage, 'body'),
   MessageController.deleteMessage
 );
@@ -201,7 +216,13 @@ router.post('/delete',
  *     summary: Search messages across chats with enhanced media details
  *     description: |
  *       Search for messages across all chats or within a specific chat.
- *       Returns enhanced message objects with complete media information including:
+ *
+ *       When the message store is configured, the search runs against the persistent message index:
+ *       full-text search over message text and media filenames, all filters below and cursor
+ *       pagination. `query` is optional there, so filters alone can be used to list messages.
+ *
+ *       Without a message store only `query`, `chatId` and `limit` apply and the most recent
+ *       messages of recent chats are scanned. Results then include enhanced message objects with:
  *       - Download URLs for media files
  *       - Media metadata (type, duration, dimensions)
  *       - Location details for location messages
@@ -217,10 +238,9 @@ router.post('/delete',
  *         description: Device ID
  *       - in: query
  *         name: query
- *         required: true
  *         schema:
  *           type: string
- *         description: Search query text
+ *         description: Search text. Required without a message store. Supports "quoted phrases", OR and -exclusions with the index.
  *         example: "photo"
  *       - in: query
  *         name: limit
@@ -236,6 +256,43 @@ router.post('/delete',
  *           type: string
  *         description: Optional chat ID to search within specific chat
  *         example: "923009401404@c.us"
+ *       - in: query
+ *         name: sender
+ *         schema:
+ *           type: string
+ *         description: Sender ID, e.g. a group participant (index only)
+ *       - in: query
+ *         name: from
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *         description: Only messages sent at or after this time (index only)
+ *       - in: query
+ *         name: to
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *         description: Only messages sent at or before this time (index only)
+ *       - in: query
+ *         name: hasMedia
+ *         schema:
+ *           type: boolean
+ *         description: Only messages with (true) or without (false) media (index only)
+ *       - in: query
+ *         name: type
+ *         schema:
+ *           type: string
+ *         description: WhatsApp message type, e.g. chat, image, document, ptt (index only)
+ *       - in: query
+ *         name: fromMe
+ *         schema:
+ *           type: boolean
+ *         description: Only sent (true) or received (false) messages (index only)
+ *       - in: query
+ *         name: cursor
+ *         schema:
+ *           type: string
+ *         description: pagination.nextCursor from the previous page (index only)
  *     responses:
  *       200:
  *         description: Search results with enhanced message details
@@ -244,7 +301,7 @@ router.post('/delete',
  *             schema:
  *               $ref: '#/components/schemas/MediaSearchResponse'
  *       400:
- *         description: Invalid search query
+ *         description: Invalid search query or cursor
  *         content:
  *           application/json:
  *             schema:
@@ -256,7 +313,11 @@ router.post('/delete',
  *             schema:
  *               $ref: '#/components/schemas/ErrorResponse'
  */
-router.get('/search', MessageController.searchMessages);
+router.get('/search',
+  requireScope('messages:read'),
+  validate(schemas.searchMessages, 'query'),
+  MessageController.searchMessages
+);
 
 /**
  * @swagger
@@ -280,6 +341,78 @@ router.get('/search', MessageController.searchMessages);
  *       200:
  *         description: Status information
  */
-router.get('/status', MessageController.getMessageStatus);
+router.get('/status', requireScope('messages:read'), MessageController.getMessageStatus);
+
+/**
+ * @swagger
+ * /api/v1/devices/{id}/messages/{messageId}/status:
+ *   get:
+ *     summary: Get the delivery status timeline of a sent message
+ *     description: |
+ *       Every ack WhatsApp reports for the message (sent, delivered, read, played, error) with the time it was
+ *       first reached. Accepts the WhatsApp message ID or the queue ID returned by /messages/send.
+ *     tags: [Messages]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Device ID
+ *       - in: path
+ *         name: messageId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: WhatsApp message ID or queue ID
+ *     responses:
+ *       200:
+ *         description: Status timeline
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     messageId:
+ *                       type: string
+ *                     deviceId:
+ *                       type: string
+ *                     chatId:
+ *                       type: string
+ *                     queueId:
+ *                       type: string
+ *                     status:
+ *                       type: string
+ *                       enum: [pending, sent, delivered, read, played, error]
+ *                     ack:
+ *                       type: number
+ *                     timeline:
+ *                       type: array
+ *                       items:
+ *                         type: object
+ *                         properties:
+ *                           status:
+ *                             type: string
+ *                           ack:
+ *                             type: number
+ *                           timestamp:
+ *                             type: number
+ *                     updatedAt:
+ *                       type: number
+ *       404:
+ *         description: No delivery status recorded for this message
+ *       500:
+ *         description: Internal server error
+ */
+router.get('/:messageId/status',
+  requireScope('messages:read'),
+  validate(schemas.messageStatusTimeline, 'params'),
+  MessageController.getMessageStatusTimeline
+);
 
 export default router;
@@ -0,0 +1,253 @@
+import { Router } from 'express';
+import { PoolController } from '../controllers';
+import { validate, requireScope, requireDeviceAccess } from '../middlewares';
+import { schemas } from '../config/validation';
+
+const router = Router();
+
+// Pools span devices, so keys restricted to some devices can't use them
+router.use(requireDeviceAccess());
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     DevicePool:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: string
+ *           example: "pool_3f9a1c2b4d5e6f70"
+ *         name:
+ *           type: string
+ *           example: "Support numbers"
+ *         deviceIds:
+ *           type: array
+ *           items:
+ *             type: string
+ *           example: ["device-1", "device-2", "device-3"]
+ *         sticky:
+ *           type: boolean
+ *           default: true
+ *           description: Keep sending to a recipient from the device that last did, while it can send
+ *         createdAt:
+ *           type: integer
+ *         updatedAt:
+ *           type: integer
+ *     PoolDeviceStatus:
+ *       type: object
+ *       properties:
+ *         deviceId:
+ *           type: string
+ *         status:
+ *           type: string
+ *           description: Device status, or "missing" when the device doesn't exist
+ *         available:
+ *           type: boolean
+ *           description: Ready and passing the device health check
+ *         reason:
+ *           type: string
+ *           description: Why the device can't take messages
+ *         score:
+ *           type: integer
+ *           description: Device health score, 0-100
+ *         messagesInLast60s:
+ *           type: integer
+ */
+
+/**
+ * @swagger
+ * /api/v1/pools:
+ *   get:
+ *     summary: List device pools
+ *     tags: [Device Pools]
+ *     responses:
+ *       200:
+ *         description: Pools, oldest first
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/DevicePool'
+ *       500:
+ *         description: Internal server error
+ *   post:
+ *     summary: Create a device pool
+ *     tags: [Device Pools]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - name
+ *               - deviceIds
+ *             properties:
+ *               name:
+ *                 type: string
+ *               deviceIds:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *               sticky:
+ *                 type: boolean
+ *                 default: true
+ *     responses:
+ *       201:
+ *         description: Pool created
+ *       400:
+ *         description: Invalid pool or unknown device
+ *       500:
+ *         description: Internal server error
+ */
+router.get('/', requireScope('devices:read'), PoolController.listPools);
+router.post('/',
+  requireScope('devices:write'),
+  validate(schemas.createDevicePool, 'body'),
+  PoolController.createPool
+);
+
+/**
+ * @swagger
+ * /api/v1/pools/{poolId}:
+ *   get:
+ *     summary: Get a device pool with the state of its devices
+ *     tags: [Device Pools]
+ *     parameters:
+ *       - in: path
+ *         name: poolId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: The pool, with a devices array of PoolDeviceStatus
+ *       404:
+ *         description: Device pool not found
+ *       500:
+ *         description: Internal server error
+ *   patch:
+ *     summary: Update a device pool
+ *     tags: [Device Pools]
+ *     parameters:
+ *       - in: path
+ *         name: poolId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               name:
+ *                 type: string
+ *               deviceIds:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *               sticky:
+ *                 type: boolean
+ *     responses:
+ *       200:
+ *         description: Pool updated
+ *       400:
+ *         description: Invalid pool or unknown device
+ *       404:
+ *         description: Device pool not found
+ *       500:
+ *         description: Internal server error
+ *   delete:
+ *     summary: Delete a device pool
+ *     description: Messages already queued stay with the device they were given.
+ *     tags: [Device Pools]
+ *     parameters:
+ *       - in: path
+ *         name: poolId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Pool deleted
+ *       404:
+ *         description: Device pool not found
+ *       500:
+ *         description: Internal server error
+ */
+router.get('/:poolId',
+  requireScope('devices:read'),
+  validate(schemas.devicePoolId, 'params'),
+  PoolController.getPool
+);
+router.patch('/:poolId',
+  requireScope('devices:write'),
+  validate(schemas.devicePoolId, 'params'),
+  validate(schemas.updateDevicePool, 'body'),
+  PoolController.updatePool
+);
+router.delete('/:poolId',
+  requireScope('devices:write'),
+  validate(schemas.devicePoolId, 'params'),
+  PoolController.deletePool
+);
+
+/**
+ * @swagger
+ * /api/v1/pools/{poolId}/messages/send:
+ *   post:
+ *     summary: Send a message from the healthiest device of a pool
+ *     description: |
+ *       Takes the same body as /devices/{id}/messages/send. The recipient's previous device is kept when the pool is
+ *       sticky and that device is ready and healthy. Otherwise the pool's ready, healthy devices are ranked: devices
+ *       under the per-minute rate limit first, then by health score, then by messages sent in the last minute.
+ *       Queued messages move to another pool device if theirs disconnects.
+ *     tags: [Device Pools]
+ *     parameters:
+ *       - in: path
+ *         name: poolId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - to
+ *             properties:
+ *               to:
+ *                 type: string
+ *               text:
+ *                 type: string
+ *     responses:
+ *       201:
+ *         description: Message sent immediately (useQueue=false); data.pool has the device that sent it
+ *       202:
+ *         description: Message queued or scheduled; data.pool has the device it was given
+ *       404:
+ *         description: Device pool not found
+ *       503:
+ *         description: No device in the pool can send right now
+ *       500:
+ *         description: Failed to send message
+ */
+router.post('/:poolId/messages/send',
+  requireScope('messages:send'),
+  validate(schemas.devicePoolId, 'params'),
+  validate(schemas.sendUnifiedMessage, 'body'),
+  PoolController.sendMessage
+);
+
+export default router;
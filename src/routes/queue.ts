@@ -1,6 +1,8 @@
 import { Router } from 'express';
 import * as QueueController from '../controllers/queue.controller';
 import { clientOperationRateLimiter, adminRateLimiter } from '../middlewares/rateLimiter';
+import { requireScope, requireDeviceAccess } from '../middlewares/auth';
+import { validate, schemas } from '../config/validation';
 
 const router = Router();
 
@@ -94,7 +96,7 @@ const router = Router();
  *       500:
  *         description: Internal server error
  */
-router.get('/status', clientOperationRateLimiter, QueueController.getQueueStatus);
+router.get('/status', requireScope('queue:read'), clientOperationRateLimiter, QueueController.getQueueStatus);
 
 /**
  * @swagger
@@ -125,7 +127,7 @@ router.get('/status', clientOperationRateLimiter, QueueController.getQueueStatus
  *       500:
  *         description: Internal server error
  */
-router.post('/clear', adminRateLimiter, QueueController.clearQueue);
+router.post('/clear', requireScope('queue:admin'), requireDeviceAccess(), adminRateLimiter, QueueController.clearQueue);
 
 /**
  * @swagger
@@ -167,7 +169,277 @@ router.post('/clear', adminRateLimiter, QueueController.clearQueue);
  *       500:
  *         description: Internal server error
  */
-router.put('/config', adminRateLimiter, QueueController.updateQueueConfig);
+router.put('/config', requireScope('queue:admin'), requireDeviceAccess(), adminRateLimiter, QueueController.updateQueueConfig);
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     DeadLetter:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: string
+ *           example: "dlq_3f9a1c2b4d5e6f70"
+ *         message:
+ *           type: object
+ *           description: The queued message as it was when it failed, with its attemptHistory
+ *         error:
+ *           type: string
+ *           description: Error of the last attempt
+ *         deviceState:
+ *           type: object
+ *           description: The sending device when the message failed
+ *           properties:
+ *             status:
+ *               type: string
+ *               description: Device status, or "missing" when the device didn't exist
+ *             phoneNumber:
+ *               type: string
+ *             lastSeen:
+ *               type: integer
+ *             healthStatus:
+ *               type: string
+ *             healthScore:
+ *               type: integer
+ *             messagesInLast60s:
+ *               type: integer
+ *         failedAt:
+ *           type: integer
+ *     DeadLetterFilter:
+ *       type: object
+ *       description: Pick dead letters by ID, device or age; all must be true to pick every dead letter
+ *       properties:
+ *         ids:
+ *           type: array
+ *           items:
+ *             type: string
+ *         deviceId:
+ *           type: string
+ *         before:
+ *           type: string
+ *           format: date-time
+ *           description: Failed before this time
+ *         all:
+ *           type: boolean
+ */
+
+/**
+ * @swagger
+ * /api/v1/queue/dead-letters:
+ *   get:
+ *     summary: List messages that failed every attempt
+ *     description: Most recent first. Media content is left out of the list.
+ *     tags: [Queue Management]
+ *     parameters:
+ *       - in: query
+ *         name: deviceId
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: before
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 100
+ *       - in: query
+ *         name: offset
+ *         schema:
+ *           type: integer
+ *           default: 0
+ *     responses:
+ *       200:
+ *         description: Dead letters with pagination
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/DeadLetter'
+ *       500:
+ *         description: Internal server error
+ */
+router.get('/queue/dead-letters',
+  requireScope('queue:read'),
+  requireDeviceAccess(),
+  clientOperationRateLimiter,
+  validate(schemas.listDeadLetters, 'query'),
+  QueueController.listDeadLetters
+);
+
+/**
+ * @swagger
+ * /api/v1/queue/dead-letters/retry:
+ *   post:
+ *     summary: Queue again every dead letter matching a filter (Admin only)
+ *     tags: [Queue Management]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             allOf:
+ *               - $ref: '#/components/schemas/DeadLetterFilter'
+ *               - type: object
+ *                 properties:
+ *                   targetDeviceId:
+ *                     type: string
+ *                     description: Send from this device instead of the one that failed
+ *     responses:
+ *       202:
+ *         description: Dead letters queued again; data.retried has how many
+ *       400:
+ *         description: No filter or unknown target device
+ *       500:
+ *         description: Internal server error
+ */
+router.post('/queue/dead-letters/retry',
+  requireScope('queue:admin'),
+  requireDeviceAccess(),
+  adminRateLimiter,
+  validate(schemas.retryDeadLetters, 'body'),
+  QueueController.retryDeadLetters
+);
+
+/**
+ * @swagger
+ * /api/v1/queue/dead-letters/purge:
+ *   post:
+ *     summary: Delete every dead letter matching a filter (Admin only)
+ *     tags: [Queue Management]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/DeadLetterFilter'
+ *     responses:
+ *       200:
+ *         description: Dead letters deleted; data.purged has how many
+ *       400:
+ *         description: No filter
+ *       500:
+ *         description: Internal server error
+ */
+router.post('/queue/dead-letters/purge',
+  requireScope('queue:admin'),
+  requireDeviceAccess(),
+  adminRateLimiter,
+  validate(schemas.purgeDeadLetters, 'body'),
+  QueueController.purgeDeadLetters
+);
+
+/**
+ * @swagger
+ * /api/v1/queue/dead-letters/{deadLetterId}:
+ *   get:
+ *     summary: Get a dead letter with its attempt history and device state
+ *     tags: [Queue Management]
+ *     parameters:
+ *       - in: path
+ *         name: deadLetterId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: The dead letter
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   $ref: '#/components/schemas/DeadLetter'
+ *       404:
+ *         description: Dead letter not found
+ *       500:
+ *         description: Internal server error
+ *   delete:
+ *     summary: Delete a dead letter (Admin only)
+ *     tags: [Queue Management]
+ *     parameters:
+ *       - in: path
+ *         name: deadLetterId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Dead letter deleted
+ *       404:
+ *         description: Dead letter not found
+ *       500:
+ *         description: Internal server error
+ */
+router.get('/queue/dead-letters/:deadLetterId',
+  requireScope('queue:read'),
+  requireDeviceAccess(),
+  clientOperationRateLimiter,
+  validate(schemas.deadLetterId, 'params'),
+  QueueController.getDeadLetter
+);
+router.delete('/queue/dead-letters/:deadLetterId',
+  requireScope('queue:admin'),
+  requireDeviceAccess(),
+  adminRateLimiter,
+  validate(schemas.deadLetterId, 'params'),
+  QueueController.purgeDeadLetter
+);
+
+/**
+ * @swagger
+ * /api/v1/queue/dead-letters/{deadLetterId}/retry:
+ *   post:
+ *     summary: Queue a dead letter again (Admin only)
+ *     description: |
+ *       The message is queued as a one-off send with fresh attempts; its attempt history is kept. Retries of
+ *       recurring or campaign messages are not part of the series or campaign anymore.
+ *     tags: [Queue Management]
+ *     parameters:
+ *       - in: path
+ *         name: deadLetterId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               targetDeviceId:
+ *                 type: string
+ *                 description: Send from this device instead of the one that failed
+ *     responses:
+ *       202:
+ *         description: Queued again; data.queueId is the message's queue ID
+ *       400:
+ *         description: Unknown target device
+ *       404:
+ *         description: Dead letter not found
+ *       500:
+ *         description: Internal server error
+ */
+router.post('/queue/dead-letters/:deadLetterId/retry',
+  requireScope('queue:admin'),
+  requireDeviceAccess(),
+  adminRateLimiter,
+  validate(schemas.deadLetterId, 'params'),
+  validate(schemas.retryDeadLetter, 'body'),
+  QueueController.retryDeadLetter
+);
 
 /**
  * @swagger
@@ -199,7 +471,7 @@ router.put('/config', adminRateLimiter, QueueController.updateQueueConfig);
  *       500:
  *         description: Internal server error
  */
-router.get('/devices/:id/health', clientOperationRateLimiter, QueueController.getDeviceHealth);
+router.get('/devices/:id/health', requireScope('queue:read'), requireDeviceAccess('id'), clientOperationRateLimiter, QueueController.getDeviceHealth);
 
 /**
  * @swagger
@@ -264,7 +536,7 @@ router.get('/devices/:id/health', clientOperationRateLimiter, QueueController.ge
  *       500:
  *         description: Internal server error
  */
-router.get('/devices/:id/queue-status', clientOperationRateLimiter, QueueController.getDeviceQueueStatus);
+router.get('/devices/:id/queue-status', requireScope('queue:read'), requireDeviceAccess('id'), clientOperationRateLimiter, QueueController.getDeviceQueueStatus);
 
 /**
  * @swagger
@@ -304,7 +576,7 @@ router.get('/devices/:id/queue-status', clientOperationRateLimiter, QueueControl
  *       500:
  *         description: Internal server error
  */
-router.post('/devices/:id/warmup', clientOperationRateLimiter, QueueController.startDeviceWarmup);
+router.post('/devices/:id/warmup', requireScope('queue:admin'), requireDeviceAccess('id'), clientOperationRateLimiter, QueueController.startDeviceWarmup);
 
 /**
  * @swagger
@@ -348,7 +620,7 @@ router.post('/devices/:id/warmup', clientOperationRateLimiter, QueueController.s
  *       500:
  *         description: Internal server error
  */
-router.get('/health/devices', clientOperationRateLimiter, QueueController.getAllDevicesHealth);
+router.get('/health/devices', requireScope('queue:read'), requireDeviceAccess(), clientOperationRateLimiter, QueueController.getAllDevicesHealth);
 
 /**
  * @swagger
@@ -381,7 +653,7 @@ router.get('/health/devices', clientOperationRateLimiter, QueueController.getAll
  *       500:
  *         description: Internal server error
  */
-router.get('/health/attention', clientOperationRateLimiter, QueueController.getDevicesNeedingAttention);
+router.get('/health/attention', requireScope('queue:read'), requireDeviceAccess(), clientOperationRateLimiter, QueueController.getDevicesNeedingAttention);
 
 /**
  * @swagger
@@ -463,6 +735,6 @@ router.get('/health/attention', clientOperationRateLimiter, QueueController.getD
  *       500:
  *         description: Internal server error
  */
-router.get('/blocking-prevention/dashboard', clientOperationRateLimiter, QueueController.getBlockingPreventionDashboard);
+router.get('/blocking-prevention/dashboard', requireScope('queue:read'), requireDeviceAccess(), clientOperationRateLimiter, QueueController.getBlockingPreventionDashboard);
 
 export default router;
@@ -0,0 +1,317 @@
+import { Router } from 'express';
+import { RecipientPolicyController } from '../controllers';
+import { validate, requireScope } from '../middlewares';
+import { schemas } from '../config/validation';
+
+const router = Router({ mergeParams: true });
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     RecipientPolicy:
+ *       type: object
+ *       properties:
+ *         deviceId:
+ *           type: string
+ *         enabled:
+ *           type: boolean
+ *         action:
+ *           type: string
+ *           enum: [defer, reject]
+ *           description: What the queue does with a message that breaks a rule. Messages that waiting wouldn't help are always rejected.
+ *         neverRepliedLimit:
+ *           type: integer
+ *           description: Messages to a recipient who has never replied
+ *           example: 2
+ *         newConversationsPerDay:
+ *           type: integer
+ *           description: Recipients the device writes to for the first time, per day in the policy timezone
+ *           example: 20
+ *         unansweredLimit:
+ *           type: integer
+ *           description: Messages in a row without an answer before the cooldown applies
+ *           example: 3
+ *         unansweredCooldownMinutes:
+ *           type: integer
+ *           description: Wait after the last unanswered message
+ *           example: 1440
+ *         quietHours:
+ *           type: object
+ *           description: HH:mm in the recipient's timezone; end may be before start
+ *           properties:
+ *             start:
+ *               type: string
+ *               example: "21:00"
+ *             end:
+ *               type: string
+ *               example: "09:00"
+ *         timezone:
+ *           type: string
+ *           description: For recipients whose timezone is unknown, and the day of newConversationsPerDay
+ *           example: "Europe/Madrid"
+ *         createdAt:
+ *           type: integer
+ *         updatedAt:
+ *           type: integer
+ *     PolicyRecipient:
+ *       type: object
+ *       properties:
+ *         chatId:
+ *           type: string
+ *           example: "34600111222@c.us"
+ *         sent:
+ *           type: integer
+ *         unanswered:
+ *           type: integer
+ *           description: Messages sent since the recipient last wrote
+ *         firstSentAt:
+ *           type: integer
+ *         lastSentAt:
+ *           type: integer
+ *         lastReplyAt:
+ *           type: integer
+ *         timezone:
+ *           type: string
+ *           description: Set through the API, else guessed from the calling code, else the policy timezone
+ *         policyDecision:
+ *           type: object
+ *           nullable: true
+ *           description: What the queue would do with a message to this recipient now; null when it would be sent
+ *           properties:
+ *             code:
+ *               type: string
+ *               enum: [NEVER_REPLIED_LIMIT, NEW_CONVERSATION_LIMIT, UNANSWERED_COOLDOWN, QUIET_HOURS]
+ *             reason:
+ *               type: string
+ *             action:
+ *               type: string
+ *               enum: [defer, reject]
+ *             retryAt:
+ *               type: integer
+ */
+
+/**
+ * @swagger
+ * /api/v1/devices/{id}/recipient-policy:
+ *   get:
+ *     summary: Get the device's recipient policy
+ *     tags: [Recipient Policy]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Device ID
+ *     responses:
+ *       200:
+ *         description: Recipient policy
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   $ref: '#/components/schemas/RecipientPolicy'
+ *       404:
+ *         description: Recipient policy is not configured for this device
+ *       500:
+ *         description: Internal server error
+ *   put:
+ *     summary: Create or replace the device's recipient policy
+ *     tags: [Recipient Policy]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Device ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             description: Rules left out don't apply. unansweredLimit and unansweredCooldownMinutes go together.
+ *             properties:
+ *               enabled:
+ *                 type: boolean
+ *                 default: true
+ *               action:
+ *                 type: string
+ *                 enum: [defer, reject]
+ *                 default: defer
+ *               neverRepliedLimit:
+ *                 type: integer
+ *               newConversationsPerDay:
+ *                 type: integer
+ *               unansweredLimit:
+ *                 type: integer
+ *               unansweredCooldownMinutes:
+ *                 type: integer
+ *               quietHours:
+ *                 type: object
+ *                 properties:
+ *                   start:
+ *                     type: string
+ *                   end:
+ *                     type: string
+ *               timezone:
+ *                 type: string
+ *                 default: UTC
+ *     responses:
+ *       200:
+ *         description: Recipient policy set
+ *       400:
+ *         description: Invalid policy
+ *       404:
+ *         description: Device not found
+ *       500:
+ *         description: Internal server error
+ *   patch:
+ *     summary: Change some rules of the device's recipient policy
+ *     tags: [Recipient Policy]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Device ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             description: Same fields as PUT; a rule set to null is removed
+ *             example: { "quietHours": null, "newConversationsPerDay": 30 }
+ *     responses:
+ *       200:
+ *         description: Recipient policy updated
+ *       400:
+ *         description: Invalid policy
+ *       404:
+ *         description: Recipient policy is not configured for this device
+ *       500:
+ *         description: Internal server error
+ *   delete:
+ *     summary: Remove the device's recipient policy
+ *     description: Recipient history is kept, so a new policy applies to it right away.
+ *     tags: [Recipient Policy]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Device ID
+ *     responses:
+ *       200:
+ *         description: Recipient policy removed
+ *       404:
+ *         description: Recipient policy is not configured for this device
+ *       500:
+ *         description: Internal server error
+ */
+router.get('/', requireScope('queue:read'), RecipientPolicyController.getPolicy);
+router.put('/',
+  requireScope('queue:admin'),
+  validate(schemas.setRecipientPolicy, 'body'),
+  RecipientPolicyController.setPolicy
+);
+router.patch('/',
+  requireScope('queue:admin'),
+  validate(schemas.updateRecipientPolicy, 'body'),
+  RecipientPolicyController.updatePolicy
+);
+router.delete('/', requireScope('queue:admin'), RecipientPolicyController.deletePolicy);
+
+/**
+ * @swagger
+ * /api/v1/devices/{id}/recipient-policy/recipients/{chatId}:
+ *   get:
+ *     summary: Get a recipient's history and whether a message to them would be sent now
+ *     tags: [Recipient Policy]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Device ID
+ *       - in: path
+ *         name: chatId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Chat ID or phone number
+ *     responses:
+ *       200:
+ *         description: Recipient
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   $ref: '#/components/schemas/PolicyRecipient'
+ *       500:
+ *         description: Internal server error
+ *   patch:
+ *     summary: Set the timezone quiet hours use for a recipient
+ *     tags: [Recipient Policy]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Device ID
+ *       - in: path
+ *         name: chatId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Chat ID or phone number
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - timezone
+ *             properties:
+ *               timezone:
+ *                 type: string
+ *                 nullable: true
+ *                 description: IANA timezone, or null to guess it from the phone number again
+ *                 example: "America/New_York"
+ *     responses:
+ *       200:
+ *         description: Recipient updated
+ *       400:
+ *         description: Invalid timezone
+ *       500:
+ *         description: Internal server error
+ */
+router.get('/recipients/:chatId',
+  requireScope('queue:read'),
+  validate(schemas.policyRecipient, 'params'),
+  RecipientPolicyController.getRecipient
+);
+router.patch('/recipients/:chatId',
+  requireScope('queue:admin'),
+  validate(schemas.policyRecipient, 'params'),
+  validate(schemas.updatePolicyRecipient, 'body'),
+  RecipientPolicyController.updateRecipient
+);
+
+export default router;
@@ -0,0 +1,223 @@
+import { Router } from 'express';
+import { ReconnectController } from '../controllers';
+import { validate, requireScope } from '../middlewares';
+import { schemas } from '../config/validation';
+
+const router = Router({ mergeParams: true });
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     ReconnectPolicy:
+ *       type: object
+ *       properties:
+ *         deviceId:
+ *           type: string
+ *         custom:
+ *           type: boolean
+ *           description: Whether the device has its own settings, or follows the RECONNECT_* defaults
+ *         enabled:
+ *           type: boolean
+ *         maxAttempts:
+ *           type: integer
+ *           description: Restarts in a row before giving up, 0 for no limit
+ *           example: 10
+ *         initialDelay:
+ *           type: integer
+ *           description: Wait before the first restart (ms)
+ *           example: 5000
+ *         maxDelay:
+ *           type: integer
+ *           description: Longest wait between restarts (ms)
+ *           example: 300000
+ *         multiplier:
+ *           type: number
+ *           description: Each restart waits this many times longer than the one before
+ *           example: 2
+ *         hangTimeout:
+ *           type: integer
+ *           description: How long a client may stay initializing, or a ready page stay unresponsive, before it is restarted (ms); 0 to never
+ *           example: 300000
+ *         reconnectOnLogout:
+ *           type: boolean
+ *           description: Restart logged out devices too, so they show a new QR code
+ *         updatedAt:
+ *           type: integer
+ *     ReconnectStatus:
+ *       type: object
+ *       properties:
+ *         deviceId:
+ *           type: string
+ *         status:
+ *           type: string
+ *           description: Device status
+ *         attempts:
+ *           type: integer
+ *           description: Restarts since the device was last ready
+ *         trigger:
+ *           type: string
+ *           enum: [disconnected, init_failed, hung, unresponsive, manual]
+ *         reason:
+ *           type: string
+ *           example: NAVIGATION
+ *         lastAttemptAt:
+ *           type: integer
+ *         nextAttemptAt:
+ *           type: integer
+ *           description: Set while a restart is pending
+ *         gaveUp:
+ *           type: boolean
+ *           description: maxAttempts was reached; only a manual reconnect restarts the device now
+ *         policy:
+ *           $ref: '#/components/schemas/ReconnectPolicy'
+ */
+
+/**
+ * @swagger
+ * /api/v1/devices/{id}/reconnect:
+ *   get:
+ *     summary: Get the device's reconnection status
+ *     tags: [Reconnection]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Device ID
+ *     responses:
+ *       200:
+ *         description: Reconnection status
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   $ref: '#/components/schemas/ReconnectStatus'
+ *       404:
+ *         description: Device not found
+ *       500:
+ *         description: Internal server error
+ *   post:
+ *     summary: Restart the device's WhatsApp client now
+ *     description: Also restarts devices the supervisor gave up on, and starts their attempt count over.
+ *     tags: [Reconnection]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Device ID
+ *     responses:
+ *       202:
+ *         description: Device is reconnecting
+ *       404:
+ *         description: Device not found
+ *       500:
+ *         description: Internal server error
+ */
+router.get('/', requireScope('devices:read'), ReconnectController.getStatus);
+router.post('/', requireScope('devices:write'), ReconnectController.reconnect);
+
+/**
+ * @swagger
+ * /api/v1/devices/{id}/reconnect/policy:
+ *   get:
+ *     summary: Get the device's reconnect policy
+ *     tags: [Reconnection]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Device ID
+ *     responses:
+ *       200:
+ *         description: Reconnect policy, the defaults when the device has none of its own
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   $ref: '#/components/schemas/ReconnectPolicy'
+ *       500:
+ *         description: Internal server error
+ *   put:
+ *     summary: Set the device's own reconnect policy
+ *     description: Replaces the device's settings; settings left out follow the RECONNECT_* defaults.
+ *     tags: [Reconnection]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Device ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               enabled:
+ *                 type: boolean
+ *               maxAttempts:
+ *                 type: integer
+ *               initialDelay:
+ *                 type: integer
+ *               maxDelay:
+ *                 type: integer
+ *               multiplier:
+ *                 type: number
+ *               hangTimeout:
+ *                 type: integer
+ *               reconnectOnLogout:
+ *                 type: boolean
+ *             example: { "maxAttempts": 0, "maxDelay": 900000 }
+ *     responses:
+ *       200:
+ *         description: Reconnect policy set
+ *       400:
+ *         description: Invalid policy
+ *       404:
+ *         description: Device not found
+ *       500:
+ *         description: Internal server error
+ *   delete:
+ *     summary: Remove the device's own reconnect policy
+ *     description: The device follows the RECONNECT_* defaults again.
+ *     tags: [Reconnection]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Device ID
+ *     responses:
+ *       200:
+ *         description: Reconnect policy removed
+ *       404:
+ *         description: Device has no reconnect policy of its own
+ *       500:
+ *         description: Internal server error
+ */
+router.get('/policy', requireScope('devices:read'), ReconnectController.getPolicy);
+router.put('/policy',
+  requireScope('devices:admin'),
+  validate(schemas.setReconnectPolicy, 'body'),
+  ReconnectController.setPolicy
+);
+router.delete('/policy', requireScope('devices:admin'), ReconnectController.deletePolicy);
+
+export default router;
@@ -0,0 +1,456 @@
+import { Router } from 'express';
+import { AutoReplyController } from '../controllers';
+import { validate, requireScope } from '../middlewares';
+import { schemas } from '../config/validation';
+
+const router = Router({ mergeParams: true });
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     AutoReplyConditions:
+ *       type: object
+ *       description: Every condition that is set must match. List conditions match when any entry matches.
+ *       properties:
+ *         senders:
+ *           type: array
+ *           items:
+ *             type: string
+ *           description: Phone numbers or chat IDs of senders (the participant in groups)
+ *         chats:
+ *           type: array
+ *           items:
+ *             type: string
+ *           description: Phone numbers, chat IDs or group IDs
+ *         chatType:
+ *           type: string
+ *           enum: [private, group]
+ *         keywords:
+ *           type: array
+ *           items:
+ *             type: string
+ *           description: Case-insensitive; the message must contain at least one
+ *         pattern:
+ *           type: string
+ *           description: Case-insensitive regular expression. Capture groups are available to templates as {{1}}, {{2}} or by name.
+ *         messageTypes:
+ *           type: array
+ *           items:
+ *             type: string
+ *           example: ["chat", "image"]
+ *         businessHours:
+ *           type: object
+ *           required: [timezone, start, end]
+ *           properties:
+ *             timezone:
+ *               type: string
+ *               example: "Europe/Berlin"
+ *             days:
+ *               type: array
+ *               items:
+ *                 type: integer
+ *                 minimum: 0
+ *                 maximum: 6
+ *               default: [1, 2, 3, 4, 5]
+ *               description: 0 is Sunday
+ *             start:
+ *               type: string
+ *               example: "09:00"
+ *             end:
+ *               type: string
+ *               example: "17:30"
+ *             when:
+ *               type: string
+ *               enum: [open, closed]
+ *               default: open
+ *               description: Match during (open) or outside (closed) business hours
+ *
+ *     AutoReplyAction:
+ *       type: object
+ *       required: [type]
+ *       properties:
+ *         type:
+ *           type: string
+ *           enum: [reply, forward, tag, webhook]
+ *         template:
+ *           type: string
+ *           description: Reply text (required for reply), or replacement text for forward. Supports {{name}}, {{phone}}, {{chatId}}, {{body}}, {{keyword}} and regex groups.
+ *         quote:
+ *           type: boolean
+ *           description: Quote the incoming message in the reply
+ *         to:
+ *           type: string
+ *           description: Chat to forward to (forward)
+ *         tag:
+ *           type: string
+ *           description: Tag to add to the chat (tag)
+ *         url:
+ *           type: string
+ *           description: URL to POST the message to (webhook)
+ *         secret:
+ *           type: string
+ *           description: Signs the webhook request with X-Webhook-Signature (webhook)
+ *
+ *     AutoReplyRule:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: string
+ *           example: "rule_3f9a1c2b4d5e6f70"
+ *         deviceId:
+ *           type: string
+ *         name:
+ *           type: string
+ *         enabled:
+ *           type: boolean
+ *         priority:
+ *           type: integer
+ *           description: Lower runs first
+ *         stopOnMatch:
+ *           type: boolean
+ *           description: Skip the remaining rules once this one matches
+ *         cooldownSeconds:
+ *           type: integer
+ *           description: Minimum time between two runs of this rule in the same chat
+ *         conditions:
+ *           $ref: '#/components/schemas/AutoReplyConditions'
+ *         actions:
+ *           type: array
+ *           items:
+ *             $ref: '#/components/schemas/AutoReplyAction'
+ *         matchCount:
+ *           type: integer
+ *         lastMatchedAt:
+ *           type: number
+ *         createdAt:
+ *           type: number
+ *         updatedAt:
+ *           type: number
+ */
+
+/**
+ * @swagger
+ * /api/v1/devices/{id}/rules:
+ *   post:
+ *     summary: Create an auto-reply rule
+ *     description: Rules run on every inbound message. Replies and forwards are sent through the message queue.
+ *     tags: [Auto-reply Rules]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Device ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [name, actions]
+ *             properties:
+ *               name:
+ *                 type: string
+ *                 example: "Out of office"
+ *               enabled:
+ *                 type: boolean
+ *                 default: true
+ *               priority:
+ *                 type: integer
+ *                 default: 100
+ *               stopOnMatch:
+ *                 type: boolean
+ *                 default: true
+ *               cooldownSeconds:
+ *                 type: integer
+ *                 default: 60
+ *               conditions:
+ *                 $ref: '#/components/schemas/AutoReplyConditions'
+ *               actions:
+ *                 type: array
+ *                 items:
+ *                   $ref: '#/components/schemas/AutoReplyAction'
+ *     responses:
+ *       201:
+ *         description: Rule created
+ *       400:
+ *         description: Validation error
+ *       404:
+ *         description: Device not found
+ *       409:
+ *         description: The device already has the maximum number of rules
+ *       500:
+ *         description: Internal server error
+ *   get:
+ *     summary: List auto-reply rules in evaluation order
+ *     tags: [Auto-reply Rules]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Device ID
+ *     responses:
+ *       200:
+ *         description: Rules
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/AutoReplyRule'
+ *       500:
+ *         description: Internal server error
+ */
+router.post('/',
+  requireScope('messages:send'),
+  validate(schemas.createAutoReplyRule, 'body'),
+  AutoReplyController.createRule
+);
+router.get('/', requireScope('messages:read'), AutoReplyController.listRules);
+
+/**
+ * @swagger
+ * /api/v1/devices/{id}/rules/test:
+ *   post:
+ *     summary: Dry-run rules against a sample message
+ *     description: |
+ *       Shows which rules would match and the actions they would take, with templates filled in.
+ *       Nothing is sent and cooldowns are not started. Without `ruleId` or `rule`, the enabled rules are
+ *       evaluated in order until one with stopOnMatch matches.
+ *     tags: [Auto-reply Rules]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Device ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [message]
+ *             properties:
+ *               message:
+ *                 type: object
+ *                 required: [from]
+ *                 properties:
+ *                   from:
+ *                     type: string
+ *                     example: "1234567890"
+ *                   chatId:
+ *                     type: string
+ *                     description: Group ID for group messages; defaults to the sender's chat
+ *                   name:
+ *                     type: string
+ *                   body:
+ *                     type: string
+ *                     example: "What are your opening hours?"
+ *                   type:
+ *                     type: string
+ *                     default: chat
+ *               at:
+ *                 type: string
+ *                 format: date-time
+ *                 description: Evaluate business hours at this time instead of now
+ *               ruleId:
+ *                 type: string
+ *                 description: Test only this rule, even if disabled
+ *               rule:
+ *                 type: object
+ *                 description: Test an unsaved rule definition (same fields as create)
+ *     responses:
+ *       200:
+ *         description: Evaluation result per rule, with failedCondition for rules that did not match
+ *       404:
+ *         description: Rule not found
+ *       500:
+ *         description: Internal server error
+ */
+router.post('/test',
+  requireScope('messages:read'),
+  validate(schemas.testAutoReplyRules, 'body'),
+  AutoReplyController.testRules
+);
+
+/**
+ * @swagger
+ * /api/v1/devices/{id}/rules/tags:
+ *   get:
+ *     summary: List chats tagged by rules
+ *     tags: [Auto-reply Rules]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Device ID
+ *       - in: query
+ *         name: tag
+ *         schema:
+ *           type: string
+ *         description: Only chats with this tag
+ *     responses:
+ *       200:
+ *         description: Map of chat ID to tags
+ *       500:
+ *         description: Internal server error
+ *
+ * /api/v1/devices/{id}/rules/tags/{chatId}/{tag}:
+ *   delete:
+ *     summary: Remove a tag from a chat
+ *     tags: [Auto-reply Rules]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Device ID
+ *       - in: path
+ *         name: chatId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: tag
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Tag removed
+ *       404:
+ *         description: Tag not found on this chat
+ *       500:
+ *         description: Internal server error
+ */
+router.get('/tags',
+  requireScope('messages:read'),
+  validate(schemas.chatTags, 'query'),
+  AutoReplyController.getChatTags
+);
+router.delete('/tags/:chatId/:tag',
+  requireScope('messages:send'),
+  validate(schemas.chatTag, 'params'),
+  AutoReplyController.removeChatTag
+);
+
+/**
+ * @swagger
+ * /api/v1/devices/{id}/rules/{ruleId}:
+ *   get:
+ *     summary: Get an auto-reply rule
+ *     tags: [Auto-reply Rules]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Device ID
+ *       - in: path
+ *         name: ruleId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Rule
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   $ref: '#/components/schemas/AutoReplyRule'
+ *       404:
+ *         description: Rule not found
+ *       500:
+ *         description: Internal server error
+ *   patch:
+ *     summary: Update an auto-reply rule
+ *     description: Accepts the same fields as create. `conditions` and `actions` replace the existing ones as a whole.
+ *     tags: [Auto-reply Rules]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Device ID
+ *       - in: path
+ *         name: ruleId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *     responses:
+ *       200:
+ *         description: Rule updated
+ *       400:
+ *         description: Validation error
+ *       404:
+ *         description: Rule not found
+ *       500:
+ *         description: Internal server error
+ *   delete:
+ *     summary: Delete an auto-reply rule
+ *     tags: [Auto-reply Rules]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Device ID
+ *       - in: path
+ *         name: ruleId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Rule deleted
+ *       404:
+ *         description: Rule not found
+ *       500:
+ *         description: Internal server error
+ */
+router.get('/:ruleId',
+  requireScope('messages:read'),
+  validate(schemas.autoReplyRuleId, 'params'),
+  AutoReplyController.getRule
+);
+router.patch('/:ruleId',
+  requireScope('messages:send'),
+  validate(schemas.autoReplyRuleId, 'params'),
+  validate(schemas.updateAutoReplyRule, 'body'),
+  AutoReplyController.updateRule
+);
+router.delete('/:ruleId',
+  requireScope('messages:send'),
+  validate(schemas.autoReplyRuleId, 'params'),
+  AutoReplyController.deleteRule
+);
+
+export default router;
@@ -0,0 +1,189 @@
+import { Router } from 'express';
+import { ScheduledMessageController } from '../controllers';
+import { validate, requireScope } from '../middlewares';
+import { schemas } from '../config/validation';
+
+const router = Router({ mergeParams: true });
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     ScheduledMessage:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: string
+ *           description: Queue ID returned when the message was scheduled
+ *           example: "msg_1760860800000_k3j9x2a1b"
+ *         deviceId:
+ *           type: string
+ *         to:
+ *           type: string
+ *           example: "1234567890@c.us"
+ *         type:
+ *           type: string
+ *           enum: [text, media]
+ *         content:
+ *           type: string
+ *         hasMedia:
+ *           type: boolean
+ *         priority:
+ *           type: string
+ *           enum: [high, normal, low]
+ *         scheduledAt:
+ *           type: number
+ *           description: Next send time (epoch ms)
+ *         recurrence:
+ *           type: string
+ *           description: Cron expression for recurring messages
+ *           example: "0 9 * * 1-5"
+ *         occurrences:
+ *           type: number
+ *           description: How many occurrences have been sent so far
+ *         attempts:
+ *           type: number
+ *         createdAt:
+ *           type: number
+ */
+
+/**
+ * @swagger
+ * /api/v1/devices/{id}/scheduled:
+ *   get:
+ *     summary: List pending scheduled messages
+ *     tags: [Scheduled Messages]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Device ID
+ *     responses:
+ *       200:
+ *         description: Scheduled messages, soonest first
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/ScheduledMessage'
+ *       500:
+ *         description: Internal server error
+ */
+router.get('/', requireScope('messages:read'), ScheduledMessageController.listScheduledMessages);
+
+/**
+ * @swagger
+ * /api/v1/devices/{id}/scheduled/{queueId}:
+ *   get:
+ *     summary: Get a scheduled message
+ *     tags: [Scheduled Messages]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Device ID
+ *       - in: path
+ *         name: queueId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Scheduled message
+ *       404:
+ *         description: Scheduled message not found
+ *       500:
+ *         description: Internal server error
+ *   patch:
+ *     summary: Reschedule a pending message
+ *     description: Replaces the send time. Passing a cron expression makes the message recurring, passing a timestamp makes it a one-off.
+ *     tags: [Scheduled Messages]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Device ID
+ *       - in: path
+ *         name: queueId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [sendAt]
+ *             properties:
+ *               sendAt:
+ *                 type: string
+ *                 description: Future ISO 8601 timestamp or 5-field cron expression
+ *                 example: "2026-11-01T09:00:00Z"
+ *     responses:
+ *       200:
+ *         description: Message rescheduled
+ *       400:
+ *         description: Validation error
+ *       404:
+ *         description: Scheduled message not found
+ *       409:
+ *         description: Message is already being sent
+ *       500:
+ *         description: Internal server error
+ *   delete:
+ *     summary: Cancel a scheduled message
+ *     description: Cancelling a recurring message stops all future occurrences.
+ *     tags: [Scheduled Messages]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Device ID
+ *       - in: path
+ *         name: queueId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Scheduled message cancelled
+ *       404:
+ *         description: Scheduled message not found
+ *       409:
+ *         description: Message is already being sent
+ *       500:
+ *         description: Internal server error
+ */
+router.get('/:queueId',
+  requireScope('messages:read'),
+  validate(schemas.scheduledMessageId, 'params'),
+  ScheduledMessageController.getScheduledMessage
+);
+router.patch('/:queueId',
+  requireScope('messages:send'),
+  validate(schemas.scheduledMessageId, 'params'),
+  validate(schemas.rescheduleMessage, 'body'),
+  ScheduledMessageController.rescheduleMessage
+);
+router.delete('/:queueId',
+  requireScope('messages:send'),
+  validate(schemas.scheduledMessageId, 'params'),
+  ScheduledMessageController.cancelScheduledMessage
+);
+
+export default router;
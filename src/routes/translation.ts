@@ -0,0 +1,283 @@
+import { Router } from 'express';
+import { TranslationController } from '../controllers';
+import { validate, requireScope } from '../middlewares';
+import { schemas } from '../config/validation';
+
+const router = Router({ mergeParams: true });
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     TranslationChat:
+ *       type: object
+ *       properties:
+ *         chatId:
+ *           type: string
+ *           example: "34600111222@c.us"
+ *         enabled:
+ *           type: boolean
+ *         language:
+ *           type: string
+ *           description: The team's language; inbound messages are translated into it
+ *           example: "en"
+ *         customerLanguage:
+ *           type: string
+ *           description: Language used for translateTo "auto"; the detected language when unset
+ *           example: "es"
+ *         detectedLanguage:
+ *           type: string
+ *           description: Language of the last inbound message
+ *           example: "es"
+ *         detectedAt:
+ *           type: integer
+ *         provider:
+ *           type: string
+ *           description: Defaults to AI_PROVIDER
+ *         model:
+ *           type: string
+ *         updatedAt:
+ *           type: integer
+ *     GlossaryEntry:
+ *       type: object
+ *       required:
+ *         - term
+ *       properties:
+ *         term:
+ *           type: string
+ *           example: "SuperWidget Pro"
+ *         translations:
+ *           type: object
+ *           additionalProperties:
+ *             type: string
+ *           description: Spelling by language code; the term is kept as is in other languages
+ *           example: { "es": "SuperWidget Pro", "de": "SuperWidget Pro" }
+ */
+
+/**
+ * @swagger
+ * /api/v1/devices/{id}/translation/chats:
+ *   get:
+ *     summary: List chats with translation settings
+ *     tags: [Translation]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Device ID
+ *     responses:
+ *       200:
+ *         description: Chats, most recently changed first
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/TranslationChat'
+ *       503:
+ *         description: Redis is disabled
+ *       500:
+ *         description: Internal server error
+ */
+router.get('/chats', requireScope('ai:use'), TranslationController.listChats);
+
+/**
+ * @swagger
+ * /api/v1/devices/{id}/translation/chats/{chatId}:
+ *   get:
+ *     summary: Get a chat's translation settings and detected language
+ *     tags: [Translation]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Device ID
+ *       - in: path
+ *         name: chatId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Chat ID or phone number
+ *     responses:
+ *       200:
+ *         description: Translation settings
+ *       404:
+ *         description: Translation is not set up for this chat
+ *       503:
+ *         description: Redis is disabled
+ *       500:
+ *         description: Internal server error
+ *   patch:
+ *     summary: Set up translation for a chat, or change its settings
+ *     tags: [Translation]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Device ID
+ *       - in: path
+ *         name: chatId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Chat ID or phone number
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               enabled:
+ *                 type: boolean
+ *                 description: New settings are enabled unless this is false
+ *               language:
+ *                 type: string
+ *                 description: Required the first time
+ *                 example: "en"
+ *               customerLanguage:
+ *                 type: string
+ *                 nullable: true
+ *                 description: null goes back to the detected language
+ *               provider:
+ *                 type: string
+ *               model:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Settings updated
+ *       400:
+ *         description: Invalid settings, missing language or AI provider not configured
+ *       503:
+ *         description: Redis is disabled
+ *       500:
+ *         description: Internal server error
+ *   delete:
+ *     summary: Stop translating a chat
+ *     description: Stored translations are kept.
+ *     tags: [Translation]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Device ID
+ *       - in: path
+ *         name: chatId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Chat ID or phone number
+ *     responses:
+ *       200:
+ *         description: Settings removed
+ *       404:
+ *         description: Translation is not set up for this chat
+ *       503:
+ *         description: Redis is disabled
+ *       500:
+ *         description: Internal server error
+ */
+router.get('/chats/:chatId',
+  requireScope('ai:use'),
+  validate(schemas.translationChat, 'params'),
+  TranslationController.getChat
+);
+router.patch('/chats/:chatId',
+  requireScope('ai:use'),
+  validate(schemas.translationChat, 'params'),
+  validate(schemas.updateTranslationChat, 'body'),
+  TranslationController.updateChat
+);
+router.delete('/chats/:chatId',
+  requireScope('ai:use'),
+  validate(schemas.translationChat, 'params'),
+  TranslationController.deleteChat
+);
+
+/**
+ * @swagger
+ * /api/v1/devices/{id}/translation/glossary:
+ *   get:
+ *     summary: Get the product names glossary
+ *     tags: [Translation]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Device ID
+ *     responses:
+ *       200:
+ *         description: Glossary entries
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/GlossaryEntry'
+ *       503:
+ *         description: Redis is disabled
+ *       500:
+ *         description: Internal server error
+ *   put:
+ *     summary: Replace the product names glossary
+ *     description: Used for every translated chat of the device, in both directions. An empty list removes it.
+ *     tags: [Translation]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Device ID
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - entries
+ *             properties:
+ *               entries:
+ *                 type: array
+ *                 maxItems: 200
+ *                 items:
+ *                   $ref: '#/components/schemas/GlossaryEntry'
+ *     responses:
+ *       200:
+ *         description: Glossary updated
+ *       400:
+ *         description: Invalid glossary
+ *       503:
+ *         description: Redis is disabled
+ *       500:
+ *         description: Internal server error
+ */
+router.get('/glossary', requireScope('ai:use'), TranslationController.getGlossary);
+router.put('/glossary',
+  requireScope('ai:use'),
+  validate(schemas.setTranslationGlossary, 'body'),
+  TranslationController.setGlossary
+);
+
+export default router;
@@ -3,6 +3,9 @@ import deviceRoutes from '../devices';
 import aiRoutes from '../ai';
 import queueRoutes from '../queue';
 import cacheRoutes from '../cache';
+import webhookRoutes from '../webhooks';
+import apiKeyRoutes from '../api-keys';
+import poolRoutes from '../pools';
 
 const router = Router();
 
@@ -22,6 +25,15 @@ router.use('/devices', deviceRoutes);
 // AI routes
 router.use('/ai', aiRoutes);
 
+// Device pools - Send from the healthiest of several devices, with failover
+router.use('/pools', poolRoutes);
+
+// Webhook subscription routes
+router.use('/webhooks', webhookRoutes);
+
+// API key management routes
+router.use('/api-keys', apiKeyRoutes);
+
 // Queue management and health monitoring routes
 router.use('/', queueRoutes);
 
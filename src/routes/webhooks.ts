@@ -0,0 +1,382 @@
+import { Router } from 'express';
+import { WebhookController } from '../controllers';
+import { validate, clientOperationRateLimiter, requireScope, requireDeviceAccess } from '../middlewares';
+import { schemas } from '../config/validation';
+
+const router = Router();
+
+// Subscriptions can cover every device, so device-restricted keys can't manage them
+router.use(requireScope('webhooks:manage'), requireDeviceAccess());
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     WebhookSubscription:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: string
+ *           example: "wh_3f9a1c2b4d5e6f70"
+ *         url:
+ *           type: string
+ *           format: uri
+ *         secret:
+ *           type: string
+ *           description: HMAC signing secret. Returned in full only on creation, masked elsewhere.
+ *         events:
+ *           type: array
+ *           items:
+ *             type: string
+ *             enum: [message, message_ack, device_state, group_update, message_transcribed]
+ *         deviceIds:
+ *           type: array
+ *           items:
+ *             type: string
+ *           description: Only deliver events from these devices (all devices when omitted)
+ *         description:
+ *           type: string
+ *         active:
+ *           type: boolean
+ *         createdAt:
+ *           type: number
+ *         updatedAt:
+ *           type: number
+ *
+ *     WebhookDelivery:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: string
+ *           example: "dlv_8c7b6a5d4e3f2a10"
+ *         subscriptionId:
+ *           type: string
+ *         event:
+ *           type: string
+ *           enum: [message, message_ack, device_state, group_update, message_transcribed]
+ *         deviceId:
+ *           type: string
+ *         payload:
+ *           type: object
+ *           description: The exact JSON body sent to the subscriber
+ *         status:
+ *           type: string
+ *           enum: [pending, delivered, failed]
+ *         attempts:
+ *           type: array
+ *           items:
+ *             type: object
+ *             properties:
+ *               attemptedAt:
+ *                 type: number
+ *               statusCode:
+ *                 type: number
+ *               error:
+ *                 type: string
+ *               durationMs:
+ *                 type: number
+ *         nextAttemptAt:
+ *           type: number
+ *         createdAt:
+ *           type: number
+ *         deliveredAt:
+ *           type: number
+ *         replayOf:
+ *           type: string
+ *           description: ID of the delivery this one replays
+ */
+
+/**
+ * @swagger
+ * /api/v1/webhooks:
+ *   post:
+ *     summary: Create a webhook subscription
+ *     tags: [Webhooks]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [url, events]
+ *             properties:
+ *               url:
+ *                 type: string
+ *                 format: uri
+ *                 example: "https://example.com/whatsapp/events"
+ *               events:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                   enum: [message, message_ack, device_state, group_update, message_transcribed]
+ *               secret:
+ *                 type: string
+ *                 description: Signing secret (generated when omitted)
+ *               deviceIds:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *               description:
+ *                 type: string
+ *               active:
+ *                 type: boolean
+ *                 default: true
+ *     responses:
+ *       201:
+ *         description: Subscription created
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 message:
+ *                   type: string
+ *                 data:
+ *                   $ref: '#/components/schemas/WebhookSubscription'
+ *       400:
+ *         description: Validation error
+ *       500:
+ *         description: Internal server error
+ *   get:
+ *     summary: List webhook subscriptions
+ *     tags: [Webhooks]
+ *     responses:
+ *       200:
+ *         description: Subscriptions with masked secrets
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/WebhookSubscription'
+ *       500:
+ *         description: Internal server error
+ */
+router.post('/',
+  clientOperationRateLimiter,
+  validate(schemas.createWebhook, 'body'),
+  WebhookController.createWebhook
+);
+router.get('/', WebhookController.listWebhooks);
+
+/**
+ * @swagger
+ * /api/v1/webhooks/{webhookId}:
+ *   get:
+ *     summary: Get a webhook subscription
+ *     tags: [Webhooks]
+ *     parameters:
+ *       - in: path
+ *         name: webhookId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Subscription with masked secret
+ *       404:
+ *         description: Webhook not found
+ *       500:
+ *         description: Internal server error
+ *   patch:
+ *     summary: Update a webhook subscription
+ *     tags: [Webhooks]
+ *     parameters:
+ *       - in: path
+ *         name: webhookId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               url:
+ *                 type: string
+ *                 format: uri
+ *               events:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                   enum: [message, message_ack, device_state, group_update, message_transcribed]
+ *               secret:
+ *                 type: string
+ *               deviceIds:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *               description:
+ *                 type: string
+ *               active:
+ *                 type: boolean
+ *     responses:
+ *       200:
+ *         description: Subscription updated
+ *       400:
+ *         description: Validation error
+ *       404:
+ *         description: Webhook not found
+ *       500:
+ *         description: Internal server error
+ *   delete:
+ *     summary: Delete a webhook subscription and its delivery log
+ *     tags: [Webhooks]
+ *     parameters:
+ *       - in: path
+ *         name: webhookId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Subscription deleted
+ *       404:
+ *         description: Webhook not found
+ *       500:
+ *         description: Internal server error
+ */
+router.get('/:webhookId',
+  validate(schemas.webhookId, 'params'),
+  WebhookController.getWebhook
+);
+router.patch('/:webhookId',
+  clientOperationRateLimiter,
+  validate(schemas.webhookId, 'params'),
+  validate(schemas.updateWebhook, 'body'),
+  WebhookController.updateWebhook
+);
+router.delete('/:webhookId',
+  clientOperationRateLimiter,
+  validate(schemas.webhookId, 'params'),
+  WebhookController.deleteWebhook
+);
+
+/**
+ * @swagger
+ * /api/v1/webhooks/{webhookId}/test:
+ *   post:
+ *     summary: Send a test event to a webhook
+ *     description: Queues a signed device_state event with `data.test = true`, ignoring the subscription's event and device filters.
+ *     tags: [Webhooks]
+ *     parameters:
+ *       - in: path
+ *         name: webhookId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       202:
+ *         description: Test event queued
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 message:
+ *                   type: string
+ *                 data:
+ *                   $ref: '#/components/schemas/WebhookDelivery'
+ *       404:
+ *         description: Webhook not found
+ *       500:
+ *         description: Internal server error
+ */
+router.post('/:webhookId/test',
+  clientOperationRateLimiter,
+  validate(schemas.webhookId, 'params'),
+  WebhookController.testWebhook
+);
+
+/**
+ * @swagger
+ * /api/v1/webhooks/{webhookId}/deliveries:
+ *   get:
+ *     summary: Get the delivery log for a webhook
+ *     tags: [Webhooks]
+ *     parameters:
+ *       - in: path
+ *         name: webhookId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 50
+ *           maximum: 200
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [pending, delivered, failed]
+ *     responses:
+ *       200:
+ *         description: Deliveries, newest first
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/WebhookDelivery'
+ *       404:
+ *         description: Webhook not found
+ *       500:
+ *         description: Internal server error
+ */
+router.get('/:webhookId/deliveries',
+  validate(schemas.webhookId, 'params'),
+  validate(schemas.webhookDeliveries, 'query'),
+  WebhookController.getWebhookDeliveries
+);
+
+/**
+ * @swagger
+ * /api/v1/webhooks/{webhookId}/deliveries/{deliveryId}/replay:
+ *   post:
+ *     summary: Replay a webhook delivery
+ *     description: Queues the original payload again as a new delivery with a fresh signature.
+ *     tags: [Webhooks]
+ *     parameters:
+ *       - in: path
+ *         name: webhookId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: deliveryId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       202:
+ *         description: Delivery queued for replay
+ *       404:
+ *         description: Webhook or delivery not found
+ *       500:
+ *         description: Internal server error
+ */
+router.post('/:webhookId/deliveries/:deliveryId/replay',
+  clientOperationRateLimiter,
+  validate(schemas.webhookDeliveryId, 'params'),
+  WebhookController.replayWebhookDelivery
+);
+
+export default router;
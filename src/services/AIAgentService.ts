@@ -0,0 +1,512 @@
+import crypto from 'crypto';
+import { Message } from 'whatsapp-web.js';
+import { getRedisClient } from '../config/redis';
+import logger, { logInfo, logError, logWarn } from '../config/logger';
+import { AIService, AIMessage } from './AIService';
+import { MessageQueueService } from './MessageQueueService';
+
+export type AIAgentMode = 'auto' | 'draft';
+
+export interface AIAgentPricing {
+  promptPer1k: number; // USD per 1000 prompt tokens
+  completionPer1k: number; // USD per 1000 completion tokens
+}
+
+export interface AIAgentSettings {
+  enabled: boolean; // Answer in every chat unless a chat is switched off
+  mode: AIAgentMode;
+  systemPrompt: string;
+  knowledge?: string;
+  contextMessages: number;
+  provider?: string;
+  model?: string;
+  maxTokens: number;
+  temperature: number;
+  includeGroups: boolean;
+  handoffKeyword?: string;
+  handoffMessage?: string;
+  dailyTokenLimit?: number;
+  dailyCostLimit?: number;
+  pricing?: AIAgentPricing;
+}
+
+export interface AIAgentConfig extends AIAgentSettings {
+  deviceId: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export type AIAgentConfigInput = Pick<AIAgentSettings, 'systemPrompt'> & Partial<AIAgentSettings>;
+
+export interface AIAgentChatState {
+  chatId: string;
+  enabled?: boolean; // Overrides the device setting when set
+  handedOff?: boolean;
+  handedOffAt?: number;
+  updatedAt: number;
+}
+
+export interface AIAgentUsage {
+  date: string; // UTC day, YYYY-MM-DD
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  cost: number;
+  completions: number;
+}
+
+export interface AIAgentDraft {
+  id: string;
+  deviceId: string;
+  chatId: string;
+  inReplyTo: string;
+  incomingBody: string;
+  text: string;
+  model?: string;
+  usage: Pick<AIAgentUsage, 'promptTokens' | 'completionTokens' | 'totalTokens' | 'cost'>;
+  createdAt: number;
+}
+
+export interface AgentHistoryMessage {
+  fromMe: boolean;
+  body: string;
+  author?: string; // Sender name, used in group chats
+}
+
+export interface AIAgentDraftApproveResult {
+  status: 'approved' | 'not_found';
+  queueId?: string;
+  draft?: AIAgentDraft;
+}
+
+export type AIAgentDraftListener = (draft: AIAgentDraft) => void;
+
+export interface AIAgentServiceConfig {
+  draftTtl: number;
+  usageRetentionDays: number;
+}
+
+const DEFAULT_CONFIG: AIAgentServiceConfig = {
+  draftTtl: parseInt(process.env.AI_AGENT_DRAFT_TTL || '86400'), // 1 day, in seconds
+  usageRetentionDays: parseInt(process.env.AI_AGENT_USAGE_RETENTION_DAYS || '30'),
+};
+
+const DEFAULT_SETTINGS: Omit<AIAgentSettings, 'systemPrompt'> = {
+  enabled: false,
+  mode: 'draft',
+  contextMessages: 10,
+  maxTokens: 500,
+  temperature: 0.3,
+  includeGroups: false,
+};
+
+/**
+ * Build the completion request: system prompt and knowledge first, then the conversation
+ * with the device's own messages as the assistant's turns
+ */
+export function buildAgentPrompt(
+  settings: Pick<AIAgentSettings, 'systemPrompt' | 'knowledge'>,
+  history: AgentHistoryMessage[]
+): AIMessage[] {
+  let system = settings.systemPrompt;
+  if (settings.knowledge) {
+    system += `\n\nUse the following information when it is relevant to the question:\n${settings.knowledge}`;
+  }
+
+  return [
+    { role: 'system', content: system },
+    ...history
+      .filter(message => message.body.trim())
+      .map<AIMessage>(message => ({
+        role: message.fromMe ? 'assistant' : 'user',
+        content: !message.fromMe && message.author ? `${message.author}: ${message.body}` : message.body,
+      })),
+  ];
+}
+
+/**
+ * Whole-word, case-insensitive match, so "human" doesn't trigger on "humanity"
+ */
+export function containsHandoffKeyword(body: string, keyword?: string): boolean {
+  if (!keyword || !body) return false;
+  const escaped = keyword.trim().replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  return new RegExp(`(?<![\\p{L}\\p{N}])${escaped}(?![\\p{L}\\p{N}])`, 'iu').test(body);
+}
+
+/**
+ * Chat settings win over the device setting; a chat that was handed off stays silent until resumed
+ */
+export function isAgentActiveForChat(
+  settings: Pick<AIAgentSettings, 'enabled' | 'includeGroups'>,
+  chat: Pick<AIAgentChatState, 'enabled' | 'handedOff'> | null,
+  isGroup: boolean
+): boolean {
+  if (chat?.handedOff) return false;
+  if (chat?.enabled !== undefined) return chat.enabled;
+  return settings.enabled && (!isGroup || settings.includeGroups);
+}
+
+export function calculateCost(pricing: AIAgentPricing | undefined, promptTokens: number, completionTokens: number): number {
+  if (!pricing) return 0;
+  return (promptTokens / 1000) * pricing.promptPer1k + (completionTokens / 1000) * pricing.completionPer1k;
+}
+
+/**
+ * @returns The cap that today's usage has reached, or null when another completion is allowed
+ */
+export function getExceededCap(
+  settings: Pick<AIAgentSettings, 'dailyTokenLimit' | 'dailyCostLimit'>,
+  usage: Pick<AIAgentUsage, 'totalTokens' | 'cost'>
+): 'tokens' | 'cost' | null {
+  if (settings.dailyTokenLimit && usage.totalTokens >= settings.dailyTokenLimit) return 'tokens';
+  if (settings.dailyCostLimit && usage.cost >= settings.dailyCostLimit) return 'cost';
+  return null;
+}
+
+const toUsageDate = (at: Date): string => at.toISOString().slice(0, 10);
+
+export class AIAgentService {
+  private static instance: AIAgentService;
+  private redisClient;
+  private config: AIAgentServiceConfig;
+  private draftListeners: AIAgentDraftListener[] = [];
+  // The newest message of each chat that arrived while it was being answered, by device and chat ID
+  private followUps = new Map<string, Message>();
+
+  // Redis keys with specific prefixes to avoid conflicts
+  private readonly CONFIG_KEY = 'whatsapp:ai_agent_config';
+  private readonly CHATS_KEY = 'whatsapp:ai_agent_chats';
+  private readonly DRAFTS_KEY = 'whatsapp:ai_agent_drafts';
+  private readonly USAGE_KEY = 'whatsapp:ai_agent_usage';
+  private readonly LOCK_KEY = 'whatsapp:ai_agent_lock';
+
+  private constructor() {
+    this.redisClient = getRedisClient();
+    this.config = { ...DEFAULT_CONFIG };
+  }
+
+  public static getInstance(): AIAgentService {
+    if (!AIAgentService.instance) {
+      AIAgentService.instance = new AIAgentService();
+    }
+    return AIAgentService.instance;
+  }
+
+  /**
+   * Register a listener for new drafts, e.g. to notify the people who approve them
+   */
+  public onDraftCreated(listener: AIAgentDraftListener): void {
+    this.draftListeners.push(listener);
+  }
+
+  public async getAgentConfig(deviceId: string): Promise<AIAgentConfig | null> {
+    const data = await this.redisClient.hget(this.CONFIG_KEY, deviceId);
+    return data ? JSON.parse(data) : null;
+  }
+
+  /**
+   * Create or replace the device's agent configuration
+   */
+  public async setAgentConfig(deviceId: string, input: AIAgentConfigInput): Promise<AIAgentConfig> {
+    const existing = await this.getAgentConfig(deviceId);
+    const now = Date.now();
+    const config: AIAgentConfig = {
+      ...DEFAULT_SETTINGS,
+      ...input,
+      deviceId,
+      createdAt: existing?.createdAt ?? now,
+      updatedAt: now,
+    };
+
+    await this.redisClient.hset(this.CONFIG_KEY, deviceId, JSON.stringify(config));
+    logInfo(`AI agent configured for device ${deviceId} (${config.enabled ? 'enabled' : 'disabled'}, ${config.mode} mode)`);
+
+    return config;
+  }
+
+  /**
+   * @returns The updated configuration, or null when the device has none
+   */
+  public async updateAgentConfig(deviceId: string, updates: Partial<AIAgentSettings>): Promise<AIAgentConfig | null> {
+    const existing = await this.getAgentConfig(deviceId);
+    if (!existing) return null;
+
+    const config: AIAgentConfig = { ...existing, ...updates, updatedAt: Date.now() };
+    await this.redisClient.hset(this.CONFIG_KEY, deviceId, JSON.stringify(config));
+
+    return config;
+  }
+
+  /**
+   * Remove the configuration together with chat settings and pending drafts. Usage history is kept.
+   */
+  public async deleteAgentConfig(deviceId: string): Promise<boolean> {
+    const removed = await this.redisClient.hdel(this.CONFIG_KEY, deviceId);
+    await this.redisClient.del(`${this.CHATS_KEY}:${deviceId}`, `${this.DRAFTS_KEY}:${deviceId}`);
+    return removed > 0;
+  }
+
+  public async listChats(deviceId: string): Promise<AIAgentChatState[]> {
+    const records = await this.redisClient.hvals(`${this.CHATS_KEY}:${deviceId}`);
+    return records.map(record => JSON.parse(record)).sort((a, b) => b.updatedAt - a.updatedAt);
+  }
+
+  public async getChat(deviceId: string, chatId: string): Promise<AIAgentChatState | null> {
+    const data = await this.redisClient.hget(`${this.CHATS_KEY}:${deviceId}`, chatId);
+    return data ? JSON.parse(data) : null;
+  }
+
+  /**
+   * Switch the agent on or off for one chat, or resume it after a handoff.
+   * Passing enabled: null goes back to the device setting.
+   */
+  public async updateChat(
+    deviceId: string,
+    chatId: string,
+    updates: { enabled?: boolean | null; handedOff?: boolean }
+  ): Promise<AIAgentChatState> {
+    const existing = await this.getChat(deviceId, chatId);
+    const chat: AIAgentChatState = { ...existing, chatId, updatedAt: Date.now() };
+
+    if (updates.enabled === null) {
+      delete chat.enabled;
+    } else if (updates.enabled !== undefined) {
+      chat.enabled = updates.enabled;
+    }
+
+    if (updates.handedOff === false) {
+      delete chat.handedOff;
+      delete chat.handedOffAt;
+    } else if (updates.handedOff && !chat.handedOff) {
+      chat.handedOff = true;
+      chat.handedOffAt = Date.now();
+    }
+
+    await this.saveChat(deviceId, chat);
+    return chat;
+  }
+
+  public async getUsage(deviceId: string, at: Date = new Date()): Promise<AIAgentUsage> {
+    const date = toUsageDate(at);
+    const fields = await this.redisClient.hgetall(`${this.USAGE_KEY}:${deviceId}:${date}`);
+
+    return {
+      date,
+      promptTokens: parseInt(fields.promptTokens || '0'),
+      completionTokens: parseInt(fields.completionTokens || '0'),
+      totalTokens: parseInt(fields.totalTokens || '0'),
+      cost: parseFloat(fields.cost || '0'),
+      completions: parseInt(fields.completions || '0'),
+    };
+  }
+
+  /**
+   * Pending drafts, oldest first. Drafts older than AI_AGENT_DRAFT_TTL are dropped.
+   */
+  public async listDrafts(deviceId: string, chatId?: string): Promise<AIAgentDraft[]> {
+    const key = `${this.DRAFTS_KEY}:${deviceId}`;
+    const cutoff = Date.now() - this.config.draftTtl * 1000;
+    const drafts: AIAgentDraft[] = [];
+
+    for (const record of await this.redisClient.hvals(key)) {
+      const draft: AIAgentDraft = JSON.parse(record);
+      if (draft.createdAt < cutoff) {
+        await this.redisClient.hdel(key, draft.id);
+      } else if (!chatId || draft.chatId === chatId) {
+        drafts.push(draft);
+      }
+    }
+
+    return drafts.sort((a, b) => a.createdAt - b.createdAt);
+  }
+
+  /**
+   * Send a draft through the message queue, optionally with edited text
+   */
+  public async approveDraft(deviceId: string, draftId: string, text?: string): Promise<AIAgentDraftApproveResult> {
+    const key = `${this.DRAFTS_KEY}:${deviceId}`;
+    const data = await this.redisClient.hget(key, draftId);
+    if (!data) {
+      return { status: 'not_found' };
+    }
+
+    // HDEL decides which of two concurrent approvals gets to send
+    if ((await this.redisClient.hdel(key, draftId)) === 0) {
+      return { status: 'not_found' };
+    }
+
+    const draft: AIAgentDraft = JSON.parse(data);
+    const queueId = await this.queueReply(deviceId, draft.chatId, text ?? draft.text, draft.inReplyTo);
+    logInfo(`AI agent draft ${draftId} approved on device ${deviceId}`);
+
+    return { status: 'approved', queueId, draft: { ...draft, text: text ?? draft.text } };
+  }
+
+  public async rejectDraft(deviceId: string, draftId: string): Promise<boolean> {
+    return (await this.redisClient.hdel(`${this.DRAFTS_KEY}:${deviceId}`, draftId)) > 0;
+  }
+
+  /**
+   * Answer an inbound message when the agent is active for its chat. Never throws, so it is safe
+   * to call from WhatsApp client event handlers.
+   */
+  public async handleIncomingMessage(deviceId: string, message: Message): Promise<void> {
+    try {
+      if (message.fromMe || message.isStatus || message.from === 'status@broadcast') return;
+      if (message.type !== 'chat' || !message.body) return;
+
+      const config = await this.getAgentConfig(deviceId);
+      if (!config) return;
+
+      const chatId = message.from;
+      const chat = await this.getChat(deviceId, chatId);
+      if (!isAgentActiveForChat(config, chat, chatId.endsWith('@g.us'))) return;
+
+      if (containsHandoffKeyword(message.body, config.handoffKeyword)) {
+        await this.handOff(deviceId, chatId, config);
+        return;
+      }
+
+      const exceeded = getExceededCap(config, await this.getUsage(deviceId));
+      if (exceeded) {
+        logWarn(`AI agent on device ${deviceId} reached its daily ${exceeded} limit; not answering`);
+        return;
+      }
+
+      // One completion per chat at a time. Messages arriving meanwhile get one more answer afterwards,
+      // since the running one was built from the history before them
+      const chatKey = `${deviceId}:${chatId}`;
+      const lockKey = `${this.LOCK_KEY}:${chatKey}`;
+      const locked = await this.redisClient.set(lockKey, Date.now().toString(), 'EX', 120, 'NX');
+      if (locked !== 'OK') {
+        this.followUps.set(chatKey, message);
+        logger.debug(`AI agent is already answering a chat on device ${deviceId}; answering the new message afterwards`);
+        return;
+      }
+
+      try {
+        await this.answer(deviceId, config, message);
+      } finally {
+        await this.redisClient.del(lockKey);
+
+        const followUp = this.followUps.get(chatKey);
+        if (followUp) {
+          this.followUps.delete(chatKey);
+          await this.handleIncomingMessage(deviceId, followUp);
+        }
+      }
+    } catch (error) {
+      logError(`AI agent failed to answer a message on device ${deviceId}:`, error);
+    }
+  }
+
+  private async answer(deviceId: string, config: AIAgentConfig, message: Message): Promise<void> {
+    const chatId = message.from;
+    const history = await this.fetchHistory(message, config.contextMessages);
+
+    const response = await AIService.getInstance().generateCompletion({
+      messages: buildAgentPrompt(config, history),
+      provider: config.provider,
+      model: config.model,
+      max_tokens: config.maxTokens,
+      temperature: config.temperature,
+      context: { deviceId },
+    });
+
+    const promptTokens = response.usage?.prompt_tokens || 0;
+    const completionTokens = response.usage?.completion_tokens || 0;
+    const cost = calculateCost(config.pricing, promptTokens, completionTokens);
+    await this.recordUsage(deviceId, promptTokens, completionTokens, cost);
+
+    const text = response.choices[0]?.message?.content?.trim();
+    if (!text) {
+      logWarn(`AI agent on device ${deviceId} got an empty completion`);
+      return;
+    }
+
+    if (config.mode === 'auto') {
+      await this.queueReply(deviceId, chatId, text, message.id._serialized);
+      logInfo(`AI agent answered a message on device ${deviceId}`);
+      return;
+    }
+
+    // A newer message makes earlier drafts for the chat stale
+    for (const stale of await this.listDrafts(deviceId, chatId)) {
+      await this.rejectDraft(deviceId, stale.id);
+    }
+
+    const draft: AIAgentDraft = {
+      id: `draft_${crypto.randomBytes(8).toString('hex')}`,
+      deviceId,
+      chatId,
+      inReplyTo: message.id._serialized,
+      incomingBody: message.body,
+      text,
+      model: response.model || config.model,
+      usage: { promptTokens, completionTokens, totalTokens: promptTokens + completionTokens, cost },
+      createdAt: Date.now(),
+    };
+    await this.redisClient.hset(`${this.DRAFTS_KEY}:${deviceId}`, draft.id, JSON.stringify(draft));
+    this.draftListeners.forEach(listener => listener(draft));
+    logInfo(`AI agent drafted answer ${draft.id} on device ${deviceId}`);
+  }
+
+  /**
+   * The last messages of the chat, ending with the one being answered
+   */
+  private async fetchHistory(message: Message, limit: number): Promise<AgentHistoryMessage[]> {
+    const chat = await message.getChat();
+    const messages = await chat.fetchMessages({ limit });
+
+    if (!messages.some(m => m.id._serialized === message.id._serialized)) {
+      messages.push(message);
+    }
+
+    return messages.map(m => ({
+      fromMe: m.fromMe,
+      body: m.body || '',
+      author: chat.isGroup ? (m as any)._data?.notifyName || (m.author || m.from).split('@')[0] : undefined,
+    }));
+  }
+
+  private async handOff(deviceId: string, chatId: string, config: AIAgentConfig): Promise<void> {
+    await this.updateChat(deviceId, chatId, { handedOff: true });
+
+    for (const draft of await this.listDrafts(deviceId, chatId)) {
+      await this.rejectDraft(deviceId, draft.id);
+    }
+
+    if (config.handoffMessage) {
+      await this.queueReply(deviceId, chatId, config.handoffMessage);
+    }
+
+    logInfo(`AI agent handed a chat off to a human on device ${deviceId}`);
+  }
+
+  private async queueReply(deviceId: string, chatId: string, text: string, quotedMessageId?: string): Promise<string> {
+    return MessageQueueService.getInstance().queueMessage({
+      deviceId,
+      to: chatId,
+      type: 'text',
+      content: text,
+      options: quotedMessageId ? { quotedMessageId } : {},
+      priority: 'normal',
+      maxAttempts: 3,
+    });
+  }
+
+  private async recordUsage(deviceId: string, promptTokens: number, completionTokens: number, cost: number): Promise<void> {
+    const key = `${this.USAGE_KEY}:${deviceId}:${toUsageDate(new Date())}`;
+
+    await this.redisClient.hincrby(key, 'promptTokens', promptTokens);
+    await this.redisClient.hincrby(key, 'completionTokens', completionTokens);
+    await this.redisClient.hincrby(key, 'totalTokens', promptTokens + completionTokens);
+    await this.redisClient.hincrbyfloat(key, 'cost', cost);
+    await this.redisClient.hincrby(key, 'completions', 1);
+    await this.redisClient.expire(key, this.config.usageRetentionDays * 86400);
+  }
+
+  private async saveChat(deviceId: string, chat: AIAgentChatState): Promise<void> {
+    await this.redisClient.hset(`${this.CHATS_KEY}:${deviceId}`, chat.chatId, JSON.stringify(chat));
+  }
+}
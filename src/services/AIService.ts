@@ -1,5 +1,9 @@
 import axios from 'axios';
+import { StringDecoder } from 'string_decoder';
 import { logger } from '../config';
+import { env } from '../config/env';
+import { getRedisClient } from '../config/redis';
+import { AIUsageService, AIUsageContext, AIBudgetExceededError } from './AIUsageService';
 
 export interface AIMessage {
   role: 'system' | 'user' | 'assistant';
@@ -13,6 +17,7 @@ export interface AIRequest {
   temperature?: number;
   stream?: boolean;
   provider?: string;
+  context?: AIUsageContext; // Who the completion is for, for usage accounting and budgets
 }
 
 export interface AIResponse {
@@ -30,6 +35,15 @@ export interface AIResponse {
   };
   model?: string;
   created?: number;
+  provider?: string; // The provider that answered, which may be a fallback
+}
+
+export interface AIStreamChunk {
+  content: string;
+  finishReason?: string;
+  usage?: AIResponse['usage'];
+  model?: string;
+  provider?: string;
 }
 
 export interface AIProviderConfig {
@@ -39,14 +53,134 @@ export interface AIProviderConfig {
   maxTokens: number;
   temperature: number;
   headers?: Record<string, string>;
+  // Ask for token usage in the last stream chunk; not every OpenAI-compatible server accepts this
+  streamUsage?: boolean;
+  timeout?: number;
+  fallback?: string[]; // Providers to try, in order, when this one fails
+}
+
+/**
+ * An OpenAI-compatible provider registered through the API and stored in Redis
+ */
+export interface AIProviderDefinition {
+  name: string;
+  baseUrl: string;
+  apiKey?: string;
+  model: string;
+  maxTokens?: number;
+  temperature?: number;
+  timeout?: number; // ms
+  headers?: Record<string, string>;
+  streamUsage?: boolean;
+  fallback?: string[];
+  createdAt: number;
+  updatedAt: number;
+}
+
+export type AIProviderInput = Omit<AIProviderDefinition, 'createdAt' | 'updatedAt'>;
+
+/**
+ * Public view of a provider. Never contains the API key or headers, which may hold secrets.
+ */
+export interface AIProviderSummary {
+  provider: string;
+  source: 'env' | 'runtime';
+  baseUrl: string;
+  model: string;
+  maxTokens: number;
+  temperature: number;
+  timeout: number;
+  fallback: string[];
+  hasApiKey: boolean;
+  available: boolean;
+  createdAt?: number;
+  updatedAt?: number;
+}
+
+export interface AIModelInfo {
+  id: string;
+  ownedBy?: string;
+  created?: number;
+}
+
+export interface AIProviderUpdateResult {
+  status: 'updated' | 'not_found' | 'read_only';
+  provider?: AIProviderSummary;
+}
+
+const DEFAULT_TIMEOUT = 60000; // 60 seconds
+const PROVIDER_CACHE_TTL = 30000; // Reload runtime providers from Redis at most every 30 seconds
+
+/**
+ * Providers to try for a request: the requested one, then its own fallback list or the default one.
+ * Fallbacks are not followed further, and unknown or repeated names are skipped.
+ */
+export function buildProviderChain(
+  primary: string,
+  providers: Map<string, Pick<AIProviderConfig, 'fallback'>>,
+  defaultFallback: string[]
+): string[] {
+  const fallback = providers.get(primary)?.fallback ?? defaultFallback;
+  return [primary, ...fallback].filter((name, index, chain) => providers.has(name) && chain.indexOf(name) === index);
+}
+
+/**
+ * Split buffered Server-Sent Events text into the data of each complete event.
+ * Comment lines (": keep-alive") are dropped; an incomplete trailing event is returned as rest.
+ */
+export function parseSSEBuffer(buffer: string): { events: string[]; rest: string } {
+  const blocks = buffer.replace(/\r\n/g, '\n').split('\n\n');
+  const rest = blocks.pop() || '';
+
+  const events = blocks
+    .map(block => block
+      .split('\n')
+      .filter(line => line.startsWith('data:'))
+      .map(line => line.slice(5).replace(/^ /, ''))
+      .join('\n'))
+    .filter(data => data.length > 0);
+
+  return { events, rest };
+}
+
+/**
+ * Parse the data of one OpenAI-compatible stream event
+ * @returns The chunk, or null for the final [DONE] event
+ * @throws Error when the provider reports an error inside the stream
+ */
+export function parseStreamChunk(data: string): AIStreamChunk | null {
+  if (data.trim() === '[DONE]') return null;
+
+  const parsed = JSON.parse(data);
+  if (parsed.error) {
+    throw new Error(`AI completion failed: ${parsed.error.message || JSON.stringify(parsed.error)}`);
+  }
+
+  const choice = parsed.choices?.[0];
+  return {
+    content: choice?.delta?.content || '',
+    finishReason: choice?.finish_reason || undefined,
+    usage: parsed.usage || undefined,
+    model: parsed.model,
+  };
 }
 
 export class AIService {
   private static instance: AIService;
+  private envProviders: Map<string, AIProviderConfig> = new Map();
+  private runtimeProviders: Map<string, AIProviderDefinition> = new Map();
   private providers: Map<string, AIProviderConfig> = new Map();
+  private redisClient;
+  private loadedAt = 0;
+  private readonly defaultFallback = (process.env.AI_FALLBACK_PROVIDERS || '').split(',').map(name => name.trim()).filter(Boolean);
+
+  // Redis keys with specific prefixes to avoid conflicts
+  private readonly PROVIDERS_KEY = 'whatsapp:ai_providers';
 
   private constructor() {
+    this.redisClient = env.REDIS_ENABLED ? getRedisClient() : null;
     this.initializeProviders();
+    this.loadRuntimeProviders().catch(error => logger.error('Failed to load AI providers from Redis:', error));
   }
 
   public static getInstance(): AIService {
@@ -59,7 +193,7 @@ export class AIService {
   private initializeProviders(): void {
     // OpenAI
     if (process.env.OPENAI_API_KEY) {
-      this.providers.set('openai', {
+      this.envProviders.set('openai', {
         apiKey: process.env.OPENAI_API_KEY,
         baseUrl: 'https://api.openai.com/v1',
         model: process.env.OPENAI_MODEL || 'gpt-4o-mini',
@@ -68,13 +202,14 @@ export class AIService {
         headers: {
           'Content-Type': 'application/json',
           'Authorization': `Bearer ${process.env.OPENAI_API_KEY}`
-        }
+        },
+        streamUsage: true
       });
     }
 
     // OpenRouter
     if (process.env.OPENROUTER_API_KEY) {
-      this.providers.set('openrouter', {
+      this.envProviders.set('openrouter', {
         apiKey: process.env.OPENROUTER_API_KEY,
         baseUrl: 'https://openrouter.ai/api/v1',
         model: process.env.OPENROUTER_MODEL || 'meta-llama/llama-3.1-8b-instruct:free',
@@ -85,13 +220,14 @@ export class AIService {
           'Authorization': `Bearer ${process.env.OPENROUTER_API_KEY}`,
           'HTTP-Referer': process.env.OPENROUTER_SITE_URL || 'https://localhost:3000',
           'X-Title': process.env.OPENROUTER_APP_NAME || 'WhatsApp AI Analyzer'
-        }
+        },
+        streamUsage: true
       });
     }
 
     // X.AI (Grok)
     if (process.env.X_API_KEY) {
-      this.providers.set('xai', {
+      this.envProviders.set('xai', {
         apiKey: process.env.X_API_KEY,
         baseUrl: 'https://api.x.ai/v1',
         model: process.env.X_MODEL || 'grok-3-mini',
@@ -100,13 +236,14 @@ export class AIService {
         headers: {
           'Content-Type': 'application/json',
           'Authorization': `Bearer ${process.env.X_API_KEY}`
-        }
+        },
+        streamUsage: true
       });
     }
 
     // Custom provider (configurable via env vars)
     if (process.env.AI_API_KEY && process.env.AI_BASE_URL) {
-      this.providers.set('custom', {
+      this.envProviders.set('custom', {
         apiKey: process.env.AI_API_KEY,
         baseUrl: process.env.AI_BASE_URL,
         model: process.env.AI_MODEL || 'default',
@@ -119,7 +256,60 @@ export class AIService {
       });
     }
 
-    logger.info(`Initialized AI providers: ${Array.from(this.providers.keys()).join(', ')}`);
+    this.rebuildProviders();
+    logger.info(`Initialized AI providers: ${Array.from(this.envProviders.keys()).join(', ')}`);
+  }
+
+  /**
+   * Load the providers registered through the API. Runtime providers can't shadow env providers.
+   */
+  private async loadRuntimeProviders(): Promise<void> {
+    if (!this.redisClient) return;
+
+    const records = await this.redisClient.hvals(this.PROVIDERS_KEY);
+    this.runtimeProviders = new Map(records.map(record => {
+      const definition: AIProviderDefinition = JSON.parse(record);
+      return [definition.name, definition];
+    }));
+    this.loadedAt = Date.now();
+    this.rebuildProviders();
+  }
+
+  /**
+   * Pick up providers changed by other instances
+   */
+  private async refreshProviders(): Promise<void> {
+    if (Date.now() - this.loadedAt > PROVIDER_CACHE_TTL) {
+      await this.loadRuntimeProviders();
+    }
+  }
+
+  private rebuildProviders(): void {
+    this.providers = new Map(this.envProviders);
+    this.runtimeProviders.forEach((definition, name) => {
+      if (!this.envProviders.has(name)) {
+        this.providers.set(name, this.toProviderConfig(definition));
+      }
+    });
+  }
+
+  private toProviderConfig(definition: AIProviderDefinition): AIProviderConfig {
+    return {
+      apiKey: definition.apiKey || '',
+      baseUrl: definition.baseUrl.replace(/\/+$/, ''),
+      model: definition.model,
+      maxTokens: definition.maxTokens ?? parseInt(process.env.AI_MAX_TOKENS || '4000'),
+      temperature: definition.temperature ?? parseFloat(process.env.AI_TEMPERATURE || '0.1'),
+      headers: {
+        'Content-Type': 'application/json',
+        // Local servers such as Ollama don't need a key
+        ...(definition.apiKey ? { 'Authorization': `Bearer ${definition.apiKey}` } : {}),
+        ...definition.headers
+      },
+      streamUsage: definition.streamUsage,
+      timeout: definition.timeout,
+      fallback: definition.fallback
+    };
   }
 
   private getProvider(providerName?: string): AIProviderConfig {
@@ -135,15 +325,48 @@ export class AIService {
     return config;
   }
 
+  private getProviderChain(providerName?: string): string[] {
+    const primary = providerName || process.env.AI_PROVIDER || 'openrouter';
+    this.getProvider(primary); // Throws when the requested provider is not configured
+    return buildProviderChain(primary, this.providers, this.defaultFallback);
+  }
+
+  /**
+   * Generate a completion, trying the provider's fallbacks in order when it fails or times out.
+   * A model given in the request only applies to the requested provider; fallbacks use their own default.
+   */
   public async generateCompletion(request: AIRequest): Promise<AIResponse> {
-    const provider = this.getProvider(request.provider);
+    if (request.stream) {
+      return this.collectStream(request);
+    }
+
+    await this.refreshProviders();
+    request = await this.applyBudgets(request);
+    const chain = this.getProviderChain(request.provider);
+
+    let lastError = new Error('No AI provider configured');
+    for (const [index, name] of chain.entries()) {
+      try {
+        return await this.requestCompletion(name, { ...request, model: index === 0 ? request.model : undefined });
+      } catch (error: any) {
+        lastError = error;
+        if (index < chain.length - 1) {
+          logger.warn(`AI provider '${name}' failed, falling back to '${chain[index + 1]}': ${error.message}`);
+        }
+      }
+    }
+    throw lastError;
+  }
+
+  private async requestCompletion(providerName: string, request: AIRequest): Promise<AIResponse> {
+    const provider = this.getProvider(providerName);
     
     const payload = {
       messages: request.messages,
       model: request.model || provider.model,
       max_tokens: request.max_tokens || provider.maxTokens,
       temperature: request.temperature !== undefined ? request.temperature : provider.temperature,
-      stream: request.stream || false
+      stream: false
     };
 
     try {
@@ -152,16 +375,17 @@ export class AIService {
         payload,
         {
           headers: provider.headers,
-          timeout: 60000 // 60 second timeout
+          timeout: provider.timeout || DEFAULT_TIMEOUT
         }
       );
 
-      logger.info(`AI completion successful - Provider: ${request.provider || process.env.AI_PROVIDER}, Model: ${payload.model}, Tokens: ${response.data.usage?.total_tokens || 'unknown'}`);
+      logger.info(`AI completion successful - Provider: ${providerName}, Model: ${payload.model}, Tokens: ${response.data.usage?.total_tokens || 'unknown'}`);
+      await this.recordUsage(providerName, payload.model, response.data.usage, request.context);
       
-      return response.data;
+      return { ...response.data, provider: providerName };
     } catch (error: any) {
       logger.error('AI completion failed:', {
-        provider: request.provider || process.env.AI_PROVIDER,
+        provider: providerName,
         model: payload.model,
         error: error.response?.data || error.message
       });
@@ -169,6 +393,166 @@ export class AIService {
     }
   }
 
+  /**
+   * Stream a completion token by token. Aborting the signal cancels the request to the provider.
+   * Fallback providers are tried until one starts streaming; errors after that end the stream.
+   */
+  public async *streamCompletion(request: AIRequest, signal?: AbortSignal): AsyncGenerator<AIStreamChunk> {
+    await this.refreshProviders();
+    request = await this.applyBudgets(request);
+    const chain = this.getProviderChain(request.provider);
+
+    let opened: { name: string; model: string; data: AsyncIterable<Buffer> } | undefined;
+    let lastError = new Error('No AI provider configured');
+    for (const [index, name] of chain.entries()) {
+      try {
+        opened = await this.openStream(name, { ...request, model: index === 0 ? request.model : undefined }, signal);
+        break;
+      } catch (error: any) {
+        if (axios.isCancel(error)) throw error;
+        lastError = error;
+        if (index < chain.length - 1) {
+          logger.warn(`AI provider '${name}' failed, falling back to '${chain[index + 1]}': ${error.message}`);
+        }
+      }
+    }
+    if (!opened) throw lastError;
+
+    // A multi-byte character can be split across network chunks
+    const decoder = new StringDecoder('utf8');
+    let buffer = '';
+    let usage: AIResponse['usage'];
+    let done = false;
+    let completed = false;
+
+    try {
+      for await (const data of opened.data) {
+        const { events, rest } = parseSSEBuffer(buffer + decoder.write(data));
+        buffer = rest;
+
+        for (const event of events) {
+          const chunk = parseStreamChunk(event);
+          if (!chunk) {
+            done = true;
+            break;
+          }
+          usage = chunk.usage || usage;
+          yield { ...chunk, provider: opened.name };
+        }
+        if (done) break;
+      }
+      completed = true;
+    } finally {
+      logger.info(`AI stream ${completed ? 'completed' : 'ended early'} - Provider: ${opened.name}, Model: ${opened.model}, Tokens: ${usage?.total_tokens || 'unknown'}`);
+      // Cancelled and failed streams count too. Without usage from the provider they are only counted as a request
+      await this.recordUsage(opened.name, opened.model, usage, request.context);
+    }
+  }
+
+  /**
+   * Apply the budgets of the request's API key, device and provider.
+   * Throws AIBudgetExceededError when one blocks, or moves the request to the downgrade provider.
+   */
+  private async applyBudgets(request: AIRequest): Promise<AIRequest> {
+    const provider = request.provider || process.env.AI_PROVIDER || 'openrouter';
+    const decision = await AIUsageService.getInstance().checkBudgets(request.context, provider);
+
+    if (decision.action === 'block') {
+      throw new AIBudgetExceededError(decision.budget, decision.exceeded);
+    }
+    if (decision.action === 'downgrade') {
+      return { ...request, provider: decision.provider, model: decision.model };
+    }
+    return request;
+  }
+
+  private async recordUsage(provider: string, model: string, usage: AIResponse['usage'], context?: AIUsageContext): Promise<void> {
+    await AIUsageService.getInstance().recordUsage({
+      provider,
+      model,
+      promptTokens: usage?.prompt_tokens || 0,
+      completionTokens: usage?.completion_tokens || 0,
+      context,
+    });
+  }
+
+  private async openStream(
+    providerName: string,
+    request: AIRequest,
+    signal?: AbortSignal
+  ): Promise<{ name: string; model: string; data: AsyncIterable<Buffer> }> {
+    const provider = this.getProvider(providerName);
+
+    const payload = {
+      messages: request.messages,
+      model: request.model || provider.model,
+      max_tokens: request.max_tokens || provider.maxTokens,
+      temperature: request.temperature !== undefined ? request.temperature : provider.temperature,
+      stream: true,
+      ...(provider.streamUsage ? { stream_options: { include_usage: true } } : {})
+    };
+
+    try {
+      const response = await axios.post(`${provider.baseUrl}/chat/completions`, payload, {
+        headers: provider.headers,
+        responseType: 'stream',
+        signal,
+        timeout: provider.timeout || DEFAULT_TIMEOUT // Time without data
+      });
+      return { name: providerName, model: payload.model, data: response.data };
+    } catch (error: any) {
+      if (axios.isCancel(error)) throw error;
+
+      const details = error.response?.data ? await this.readErrorStream(error.response.data) : error.message;
+      logger.error('AI stream failed:', {
+        provider: providerName,
+        model: payload.model,
+        error: details
+      });
+      throw new Error(`AI completion failed: ${details}`);
+    }
+  }
+
+  private async collectStream(request: AIRequest): Promise<AIResponse> {
+    let content = '';
+    let finishReason: string | undefined;
+    let usage: AIResponse['usage'];
+    let model: string | undefined;
+    let provider: string | undefined;
+
+    for await (const chunk of this.streamCompletion(request)) {
+      content += chunk.content;
+      finishReason = chunk.finishReason || finishReason;
+      usage = chunk.usage || usage;
+      model = chunk.model || model;
+      provider = chunk.provider;
+    }
+
+    return {
+      choices: [{ message: { role: 'assistant', content }, finish_reason: finishReason }],
+      usage,
+      model,
+      created: Math.floor(Date.now() / 1000),
+      provider
+    };
+  }
+
+  /**
+   * Error bodies arrive as a stream when streaming was requested
+   */
+  private async readErrorStream(stream: any): Promise<string> {
+    try {
+      let body = '';
+      for await (const data of stream) {
+        body += data.toString();
+      }
+      const parsed = JSON.parse(body);
+      return parsed.error?.message || body;
+    } catch {
+      return 'Unknown error';
+    }
+  }
+
   public getAvailableProviders(): string[] {
     return Array.from(this.providers.keys());
   }
@@ -185,19 +569,112 @@ export class AIService {
     };
   }
 
+  /**
+   * Every configured provider, env providers first
+   */
+  public async listProviders(): Promise<AIProviderSummary[]> {
+    await this.loadRuntimeProviders();
+    return Array.from(this.providers.keys()).map(name => this.getProviderSummary(name));
+  }
+
+  public async getProviderDetails(name: string): Promise<AIProviderSummary | null> {
+    await this.refreshProviders();
+    return this.providers.has(name) ? this.getProviderSummary(name) : null;
+  }
+
+  /**
+   * Register an OpenAI-compatible provider
+   * @returns null when the name is already taken
+   */
+  public async createProvider(input: AIProviderInput): Promise<AIProviderSummary | null> {
+    const redis = this.requireRedis();
+    await this.loadRuntimeProviders();
+    if (this.envProviders.has(input.name)) return null;
+
+    const now = Date.now();
+    const definition: AIProviderDefinition = { ...input, createdAt: now, updatedAt: now };
+    const added = await redis.hsetnx(this.PROVIDERS_KEY, input.name, JSON.stringify(definition));
+    if (!added) return null;
+
+    this.runtimeProviders.set(input.name, definition);
+    this.rebuildProviders();
+    logger.info(`AI provider '${input.name}' registered (${definition.baseUrl})`);
+
+    return this.getProviderSummary(input.name);
+  }
+
+  /**
+   * Update a runtime provider. Env providers are read-only.
+   */
+  public async updateProvider(name: string, updates: Partial<Omit<AIProviderInput, 'name'>>): Promise<AIProviderUpdateResult> {
+    const redis = this.requireRedis();
+    if (this.envProviders.has(name)) {
+      return { status: 'read_only' };
+    }
+
+    const data = await redis.hget(this.PROVIDERS_KEY, name);
+    if (!data) {
+      return { status: 'not_found' };
+    }
+
+    const definition: AIProviderDefinition = { ...JSON.parse(data), ...updates, name, updatedAt: Date.now() };
+    await redis.hset(this.PROVIDERS_KEY, name, JSON.stringify(definition));
+
+    this.runtimeProviders.set(name, definition);
+    this.rebuildProviders();
+
+    return { status: 'updated', provider: this.getProviderSummary(name) };
+  }
+
+  public async deleteProvider(name: string): Promise<'deleted' | 'not_found' | 'read_only'> {
+    const redis = this.requireRedis();
+    if (this.envProviders.has(name)) {
+      return 'read_only';
+    }
+
+    const removed = await redis.hdel(this.PROVIDERS_KEY, name);
+    this.runtimeProviders.delete(name);
+    this.rebuildProviders();
+
+    return removed > 0 ? 'deleted' : 'not_found';
+  }
+
+  /**
+   * Ask the provider which models it serves, using the OpenAI-compatible /models endpoint
+   */
+  public async listModels(providerName: string): Promise<AIModelInfo[]> {
+    await this.refreshProviders();
+    const provider = this.getProvider(providerName);
+
+    try {
+      const response = await axios.get(`${provider.baseUrl}/models`, {
+        headers: provider.headers,
+        timeout: Math.min(provider.timeout || DEFAULT_TIMEOUT, 15000)
+      });
+
+      // Ollama's native API answers with `models` and `name` instead of `data` and `id`
+      const models: any[] = response.data?.data || response.data?.models || [];
+      return models
+        .map(model => ({ id: model.id || model.name, ownedBy: model.owned_by, created: model.created }))
+        .filter(model => model.id)
+        .sort((a, b) => a.id.localeCompare(b.id));
+    } catch (error: any) {
+      throw new Error(`Failed to list models: ${error.response?.data?.error?.message || error.message}`);
+    }
+  }
+
   public async testProvider(providerName?: string): Promise<{ success: boolean; response?: string; error?: string }> {
     try {
-      const testRequest: AIRequest = {
+      await this.refreshProviders();
+      // Test the provider itself, without falling back to another one
+      const response = await this.requestCompletion(providerName || process.env.AI_PROVIDER || 'openrouter', {
         messages: [
           { role: 'system', content: 'You are a test assistant. Respond with exactly: "Test successful"' },
           { role: 'user', content: 'Test connection' }
         ],
-        provider: providerName,
         max_tokens: 50,
         temperature: 0
-      };
-
-      const response = await this.generateCompletion(testRequest);
+      });
       const content = response.choices[0]?.message?.content?.trim();
       
       return {
@@ -211,4 +688,31 @@ export class AIService {
       };
     }
   }
+
+  private getProviderSummary(name: string): AIProviderSummary {
+    const config = this.getProvider(name);
+    const definition = this.runtimeProviders.get(name);
+
+    return {
+      provider: name,
+      source: this.envProviders.has(name) ? 'env' : 'runtime',
+      baseUrl: config.baseUrl,
+      model: config.model,
+      maxTokens: config.maxTokens,
+      temperature: config.temperature,
+      timeout: config.timeout || DEFAULT_TIMEOUT,
+      fallback: buildProviderChain(name, this.providers, this.defaultFallback).slice(1),
+      hasApiKey: !!config.apiKey,
+      available: true,
+      createdAt: this.envProviders.has(name) ? undefined : definition?.createdAt,
+      updatedAt: this.envProviders.has(name) ? undefined : definition?.updatedAt
+    };
+  }
+
+  private requireRedis() {
+    if (!this.redisClient) {
+      throw new Error('Runtime AI providers require Redis');
+    }
+    return this.redisClient;
+  }
 }
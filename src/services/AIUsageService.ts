@@ -0,0 +1,433 @@
+import { getRedisClient } from '../config/redis';
+import { env } from '../config/env';
+import logger, { logWarn } from '../config/logger';
+import { MetricsService } from '../config/metrics';
+
+/**
+ * Who a completion is made for. Completions without an API key, like those of the AI agent,
+ * are only counted for their device and provider.
+ */
+export interface AIUsageContext {
+  apiKeyId?: string;
+  deviceId?: string;
+}
+
+export type AIUsageDimension = 'apiKey' | 'device' | 'provider';
+
+export interface AIUsageTotals {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  cost: number; // Estimated USD, from the price table at the time of the completion
+  requests: number;
+}
+
+export interface AIUsageRecord {
+  provider: string;
+  model: string;
+  promptTokens: number;
+  completionTokens: number;
+  context?: AIUsageContext;
+}
+
+export interface AIPrice {
+  provider: string;
+  model?: string; // Applies to every model of the provider when not set
+  promptPer1k: number; // USD per 1000 prompt tokens
+  completionPer1k: number; // USD per 1000 completion tokens
+}
+
+export type AIBudgetAction = 'block' | 'downgrade';
+
+export interface AIBudgetSettings {
+  monthlyTokenLimit?: number;
+  monthlyCostLimit?: number;
+  action: AIBudgetAction;
+  downgradeProvider?: string; // Used instead of the requested provider when action is downgrade
+  downgradeModel?: string;
+}
+
+export interface AIBudget extends AIBudgetSettings {
+  scope: AIUsageDimension;
+  id: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface AIBudgetStatus extends AIBudget {
+  month: string;
+  usage: AIUsageTotals;
+  exceeded: 'tokens' | 'cost' | null;
+}
+
+export type AIBudgetDecision =
+  | { action: 'allow' }
+  | { action: 'block'; budget: AIBudget; exceeded: 'tokens' | 'cost' }
+  | { action: 'downgrade'; budget: AIBudget; exceeded: 'tokens' | 'cost'; provider: string; model?: string };
+
+export interface AIUsageReportItem extends AIUsageTotals {
+  id: string;
+}
+
+export interface AIUsageReport {
+  from: string;
+  to: string;
+  groupBy: AIUsageDimension;
+  totals: AIUsageTotals;
+  items: AIUsageReportItem[];
+  daily: Array<AIUsageTotals & { date: string }>;
+}
+
+export interface AIUsageReportQuery {
+  from: string;
+  to: string;
+  groupBy: AIUsageDimension;
+  id?: string;
+}
+
+interface AIUsageServiceConfig {
+  retentionDays: number;
+}
+
+const DEFAULT_CONFIG: AIUsageServiceConfig = {
+  retentionDays: parseInt(process.env.AI_USAGE_RETENTION_DAYS || '90'),
+};
+
+const MONTHLY_RETENTION_SECONDS = 400 * 86400; // Keep monthly totals for a bit over a year
+
+/**
+ * Raised when a budget with the block action has been used up
+ */
+export class AIBudgetExceededError extends Error {
+  constructor(public readonly budget: AIBudget, public readonly exceeded: 'tokens' | 'cost') {
+    super(`AI ${exceeded === 'tokens' ? 'token' : 'cost'} budget exceeded for ${budget.scope} ${budget.id}`);
+    this.name = 'AIBudgetExceededError';
+  }
+}
+
+export const emptyUsageTotals = (): AIUsageTotals => ({
+  promptTokens: 0,
+  completionTokens: 0,
+  totalTokens: 0,
+  cost: 0,
+  requests: 0,
+});
+
+/**
+ * The price of a model: an entry for the exact model wins over the provider's default entry
+ */
+export function findPrice(prices: AIPrice[], provider: string, model: string): AIPrice | undefined {
+  return prices.find(price => price.provider === provider && price.model === model)
+    || prices.find(price => price.provider === provider && !price.model);
+}
+
+export function estimateCost(price: AIPrice | undefined, promptTokens: number, completionTokens: number): number {
+  if (!price) return 0;
+  return (promptTokens / 1000) * price.promptPer1k + (completionTokens / 1000) * price.completionPer1k;
+}
+
+/**
+ * @returns The limit that this month's usage has reached, or null when the budget has room left
+ */
+export function getExceededBudgetLimit(
+  budget: Pick<AIBudgetSettings, 'monthlyTokenLimit' | 'monthlyCostLimit'>,
+  usage: Pick<AIUsageTotals, 'totalTokens' | 'cost'>
+): 'tokens' | 'cost' | null {
+  if (budget.monthlyTokenLimit && usage.totalTokens >= budget.monthlyTokenLimit) return 'tokens';
+  if (budget.monthlyCostLimit && usage.cost >= budget.monthlyCostLimit) return 'cost';
+  return null;
+}
+
+/**
+ * Decide what to do with a completion given the budgets that apply to it.
+ * Any used-up blocking budget blocks. Otherwise the first used-up downgrading budget picks the provider,
+ * unless the request already goes to that provider.
+ */
+export function decideBudgetAction(
+  budgets: Array<{ budget: AIBudget; usage: Pick<AIUsageTotals, 'totalTokens' | 'cost'> }>,
+  provider: string
+): AIBudgetDecision {
+  let downgrade: AIBudgetDecision = { action: 'allow' };
+
+  for (const { budget, usage } of budgets) {
+    const exceeded = getExceededBudgetLimit(budget, usage);
+    if (!exceeded) continue;
+
+    if (budget.action === 'block' || !budget.downgradeProvider) {
+      return { action: 'block', budget, exceeded };
+    }
+    if (downgrade.action === 'allow' && budget.downgradeProvider !== provider) {
+      downgrade = { action: 'downgrade', budget, exceeded, provider: budget.downgradeProvider, model: budget.downgradeModel };
+    }
+  }
+
+  return downgrade;
+}
+
+/**
+ * Read hash fields written by recordUsage, named {id}:{counter}, into totals per ID
+ */
+export function parseUsageFields(fields: Record<string, string>): Map<string, AIUsageTotals> {
+  const totals = new Map<string, AIUsageTotals>();
+
+  for (const [field, value] of Object.entries(fields)) {
+    // IDs can contain colons, counters can't
+    const separator = field.lastIndexOf(':');
+    const id = field.slice(0, separator);
+    const counter = field.slice(separator + 1) as keyof AIUsageTotals;
+    if (separator <= 0 || !(counter in emptyUsageTotals())) continue;
+
+    const entry = totals.get(id) || emptyUsageTotals();
+    entry[counter] = counter === 'cost' ? parseFloat(value) : parseInt(value);
+    totals.set(id, entry);
+  }
+
+  return totals;
+}
+
+export const addUsageTotals = (target: AIUsageTotals, usage: AIUsageTotals): AIUsageTotals => {
+  target.promptTokens += usage.promptTokens;
+  target.completionTokens += usage.completionTokens;
+  target.totalTokens += usage.totalTokens;
+  target.cost += usage.cost;
+  target.requests += usage.requests;
+  return target;
+};
+
+const toUsageDate = (at: Date): string => at.toISOString().slice(0, 10);
+const toUsageMonth = (at: Date): string => at.toISOString().slice(0, 7);
+
+/**
+ * Every UTC day from one YYYY-MM-DD date to another, both included
+ */
+export function listUsageDates(from: string, to: string): string[] {
+  const dates: string[] = [];
+  for (let day = new Date(`${from}T00:00:00Z`); toUsageDate(day) <= to; day.setUTCDate(day.getUTCDate() + 1)) {
+    dates.push(toUsageDate(day));
+  }
+  return dates;
+}
+
+/**
+ * Token and cost accounting for AI completions, per API key, device and provider,
+ * with daily and monthly rollups and monthly budgets
+ */
+export class AIUsageService {
+  private static instance: AIUsageService;
+  private redisClient;
+  private config: AIUsageServiceConfig;
+
+  // Redis keys with specific prefixes to avoid conflicts
+  private readonly DAILY_KEY = 'whatsapp:ai_usage';
+  private readonly MONTHLY_KEY = 'whatsapp:ai_usage_month';
+  private readonly BUDGETS_KEY = 'whatsapp:ai_budgets';
+  private readonly PRICES_KEY = 'whatsapp:ai_prices';
+
+  private constructor() {
+    // Without Redis, usage is only exported as metrics and budgets can't be set
+    this.redisClient = env.REDIS_ENABLED ? getRedisClient() : null;
+    this.config = { ...DEFAULT_CONFIG };
+  }
+
+  public static getInstance(): AIUsageService {
+    if (!AIUsageService.instance) {
+      AIUsageService.instance = new AIUsageService();
+    }
+    return AIUsageService.instance;
+  }
+
+  /**
+   * Count a completion. Never throws; accounting must not fail a completion that already succeeded.
+   */
+  public async recordUsage(record: AIUsageRecord): Promise<void> {
+    try {
+      const { provider, model, promptTokens, completionTokens, context = {} } = record;
+      const cost = estimateCost(findPrice(await this.getPrices(), provider, model), promptTokens, completionTokens);
+
+      MetricsService.recordAIUsage(
+        { provider, model, apiKeyId: context.apiKeyId, deviceId: context.deviceId },
+        promptTokens,
+        completionTokens,
+        cost
+      );
+
+      if (!this.redisClient) return;
+
+      const now = new Date();
+      const ids: Array<[AIUsageDimension, string | undefined]> = [
+        ['apiKey', context.apiKeyId],
+        ['device', context.deviceId],
+        ['provider', provider],
+      ];
+      const pipeline = this.redisClient.pipeline();
+
+      for (const [dimension, id] of ids) {
+        if (!id) continue;
+
+        for (const [key, ttl] of [
+          [`${this.DAILY_KEY}:${toUsageDate(now)}:${dimension}`, this.config.retentionDays * 86400],
+          [`${this.MONTHLY_KEY}:${toUsageMonth(now)}:${dimension}`, MONTHLY_RETENTION_SECONDS],
+        ] as Array<[string, number]>) {
+          pipeline.hincrby(key, `${id}:promptTokens`, promptTokens);
+          pipeline.hincrby(key, `${id}:completionTokens`, completionTokens);
+          pipeline.hincrby(key, `${id}:totalTokens`, promptTokens + completionTokens);
+          pipeline.hincrbyfloat(key, `${id}:cost`, cost);
+          pipeline.hincrby(key, `${id}:requests`, 1);
+          pipeline.expire(key, ttl);
+        }
+      }
+
+      await pipeline.exec();
+    } catch (error) {
+      logger.error('Failed to record AI usage:', error);
+    }
+  }
+
+  /**
+   * Check the monthly budgets of the API key, device and provider of a completion
+   */
+  public async checkBudgets(context: AIUsageContext | undefined, provider: string): Promise<AIBudgetDecision> {
+    if (!this.redisClient) return { action: 'allow' };
+
+    try {
+      return await this.decideBudgets(context, provider);
+    } catch (error) {
+      // Don't stop completions because Redis is unavailable
+      logger.error('Failed to check AI budgets:', error);
+      return { action: 'allow' };
+    }
+  }
+
+  private async decideBudgets(context: AIUsageContext | undefined, provider: string): Promise<AIBudgetDecision> {
+    const redis = this.requireRedis();
+    const targets: Array<[AIUsageDimension, string | undefined]> = [
+      ['apiKey', context?.apiKeyId],
+      ['device', context?.deviceId],
+      ['provider', provider],
+    ];
+    const candidates = targets.filter((target): target is [AIUsageDimension, string] => !!target[1]);
+
+    const records = await redis.hmget(this.BUDGETS_KEY, ...candidates.map(([scope, id]) => `${scope}:${id}`));
+    const budgets = records.filter((record): record is string => !!record).map(record => JSON.parse(record) as AIBudget);
+    if (budgets.length === 0) return { action: 'allow' };
+
+    const usage = await Promise.all(budgets.map(budget => this.getMonthlyUsage(budget.scope, budget.id)));
+    const decision = decideBudgetAction(budgets.map((budget, index) => ({ budget, usage: usage[index] })), provider);
+
+    if (decision.action !== 'allow') {
+      logWarn(`AI budget for ${decision.budget.scope} ${decision.budget.id} exceeded (${decision.exceeded}), ${decision.action === 'block' ? 'blocking' : `downgrading to ${decision.provider}`}`);
+      MetricsService.incrementAIBudgetExceeded(decision.budget.scope, decision.action);
+    }
+
+    return decision;
+  }
+
+  public async getMonthlyUsage(dimension: AIUsageDimension, id: string, at: Date = new Date()): Promise<AIUsageTotals> {
+    const redis = this.requireRedis();
+    const counters = Object.keys(emptyUsageTotals());
+    const fields = await redis.hmget(`${this.MONTHLY_KEY}:${toUsageMonth(at)}:${dimension}`, ...counters.map(counter => `${id}:${counter}`));
+
+    return parseUsageFields(Object.fromEntries(
+      counters.map((counter, index) => [`${id}:${counter}`, fields[index]]).filter(([, value]) => value !== null)
+    )).get(id) || emptyUsageTotals();
+  }
+
+  /**
+   * Usage between two UTC days, both included, grouped by API key, device or provider
+   */
+  public async getReport(query: AIUsageReportQuery): Promise<AIUsageReport> {
+    const redis = this.requireRedis();
+    const dates = listUsageDates(query.from, query.to);
+
+    const pipeline = redis.pipeline();
+    dates.forEach(date => pipeline.hgetall(`${this.DAILY_KEY}:${date}:${query.groupBy}`));
+    const results = (await pipeline.exec()) || [];
+
+    const totals = emptyUsageTotals();
+    const items = new Map<string, AIUsageReportItem>();
+    const daily = dates.map((date, index) => {
+      const [error, fields] = results[index] || [];
+      const day = { date, ...emptyUsageTotals() };
+      if (error || !fields) return day;
+
+      parseUsageFields(fields as Record<string, string>).forEach((usage, id) => {
+        if (query.id && id !== query.id) return;
+
+        if (!items.has(id)) items.set(id, { id, ...emptyUsageTotals() });
+        addUsageTotals(items.get(id) as AIUsageReportItem, usage);
+        addUsageTotals(day, usage);
+      });
+      addUsageTotals(totals, day);
+      return day;
+    });
+
+    return {
+      from: query.from,
+      to: query.to,
+      groupBy: query.groupBy,
+      totals,
+      items: Array.from(items.values()).sort((a, b) => b.totalTokens - a.totalTokens),
+      daily,
+    };
+  }
+
+  public async listBudgets(): Promise<AIBudgetStatus[]> {
+    const redis = this.requireRedis();
+    const records = await redis.hvals(this.BUDGETS_KEY);
+    const month = toUsageMonth(new Date());
+
+    return Promise.all(records.map(async record => {
+      const budget: AIBudget = JSON.parse(record);
+      const usage = await this.getMonthlyUsage(budget.scope, budget.id);
+      return { ...budget, month, usage, exceeded: getExceededBudgetLimit(budget, usage) };
+    }));
+  }
+
+  /**
+   * Create or replace the budget of an API key, device or provider
+   */
+  public async setBudget(scope: AIUsageDimension, id: string, settings: AIBudgetSettings): Promise<AIBudget> {
+    const redis = this.requireRedis();
+    const existing = await redis.hget(this.BUDGETS_KEY, `${scope}:${id}`);
+    const now = Date.now();
+
+    const budget: AIBudget = {
+      ...settings,
+      scope,
+      id,
+      createdAt: existing ? JSON.parse(existing).createdAt : now,
+      updatedAt: now,
+    };
+    await redis.hset(this.BUDGETS_KEY, `${scope}:${id}`, JSON.stringify(budget));
+
+    return budget;
+  }
+
+  public async deleteBudget(scope: AIUsageDimension, id: string): Promise<boolean> {
+    const redis = this.requireRedis();
+    return (await redis.hdel(this.BUDGETS_KEY, `${scope}:${id}`)) > 0;
+  }
+
+  public async getPrices(): Promise<AIPrice[]> {
+    if (!this.redisClient) return [];
+
+    const data = await this.redisClient.get(this.PRICES_KEY);
+    return data ? JSON.parse(data) : [];
+  }
+
+  /**
+   * Replace the price table. Changes apply to completions from now on; recorded costs stay as they are.
+   */
+  public async setPrices(prices: AIPrice[]): Promise<AIPrice[]> {
+    const redis = this.requireRedis();
+    await redis.set(this.PRICES_KEY, JSON.stringify(prices));
+    return prices;
+  }
+
+  private requireRedis() {
+    if (!this.redisClient) {
+      throw new Error('AI usage reports and budgets require Redis');
+    }
+    return this.redisClient;
+  }
+}
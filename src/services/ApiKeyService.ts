@@ -0,0 +1,311 @@
+import crypto from 'crypto';
+import { getRedisClient } from '../config/redis';
+import { logInfo, logWarn } from '../config/logger';
+
+export const API_KEY_SCOPES = [
+  'devices:read',
+  'devices:write',
+  'devices:admin',
+  'messages:read',
+  'messages:send',
+  'chats:read',
+  'chats:write',
+  'groups:read',
+  'groups:write',
+  'analytics:read',
+  'ai:use',
+  'ai:admin',
+  'queue:read',
+  'queue:admin',
+  'cache:admin',
+  'webhooks:manage',
+  'keys:admin',
+] as const;
+
+type ScopeResource<S> = S extends `${infer R}:${string}` ? R : never;
+
+export type ApiKeyScope = typeof API_KEY_SCOPES[number] | `${ScopeResource<typeof API_KEY_SCOPES[number]>}:*` | '*';
+
+/**
+ * Every scope a key can be granted, including `*` and per-resource wildcards
+ */
+export const GRANTABLE_API_KEY_SCOPES: ApiKeyScope[] = [
+  '*',
+  ...Array.from(new Set(API_KEY_SCOPES.map(scope => `${scope.split(':')[0]}:*` as ApiKeyScope))),
+  ...API_KEY_SCOPES,
+];
+
+/**
+ * Public view of an API key. Never contains secret material.
+ */
+export interface ApiKeyInfo {
+  id: string;
+  label: string;
+  scopes: ApiKeyScope[];
+  deviceIds?: string[]; // Empty or undefined means all devices
+  expiresAt?: number;
+  createdAt: number;
+  updatedAt: number;
+  lastUsedAt?: number;
+  rotatedAt?: number;
+}
+
+/**
+ * Stored API key record
+ */
+interface ApiKeyRecord extends Omit<ApiKeyInfo, 'lastUsedAt'> {
+  secretHash: string;
+  previousSecretHash?: string; // Still accepted until previousSecretExpiresAt after a rotation
+  previousSecretExpiresAt?: number;
+}
+
+export type ApiKeyAuthResult =
+  | { valid: true; key: ApiKeyInfo }
+  | { valid: false; reason: 'invalid' | 'expired' };
+
+const KEY_PREFIX = 'wak';
+const LAST_USED_UPDATE_INTERVAL = 60000; // Only persist lastUsedAt once a minute per key
+
+/**
+ * The key configured through the API_KEY environment variable. It keeps full
+ * access so existing deployments work unchanged and can bootstrap scoped keys.
+ */
+export const ROOT_API_KEY: ApiKeyInfo = {
+  id: 'root',
+  label: 'API_KEY environment variable',
+  scopes: ['*'],
+  createdAt: 0,
+  updatedAt: 0,
+};
+
+export function hashApiKeySecret(secret: string): string {
+  return crypto.createHash('sha256').update(secret).digest('hex');
+}
+
+/**
+ * Check whether a set of scopes grants the required scope. Supports the
+ * global `*` scope and per-resource wildcards such as `messages:*`.
+ */
+export function hasScope(scopes: ApiKeyScope[], required: ApiKeyScope): boolean {
+  const [resource] = required.split(':');
+  return scopes.some(scope => scope === '*' || scope === required || scope === `${resource}:*`);
+}
+
+/**
+ * Check whether a key may act on a device
+ */
+export function canAccessDevice(key: ApiKeyInfo, deviceId: string): boolean {
+  return !key.deviceIds || key.deviceIds.length === 0 || key.deviceIds.includes(deviceId);
+}
+
+export function isDeviceRestricted(key: ApiKeyInfo): boolean {
+  return !!key.deviceIds && key.deviceIds.length > 0;
+}
+
+export class ApiKeyService {
+  private static instance: ApiKeyService;
+  private redisClient;
+
+  // Redis keys with specific prefixes to avoid conflicts
+  private readonly KEYS_KEY = 'whatsapp:api_keys';
+  // Kept apart from the records, so authentication never writes a record back over a revoke, rotation or update
+  private readonly LAST_USED_KEY = 'whatsapp:api_keys:last_used';
+
+  private constructor() {
+    this.redisClient = getRedisClient();
+  }
+
+  public static getInstance(): ApiKeyService {
+    if (!ApiKeyService.instance) {
+      ApiKeyService.instance = new ApiKeyService();
+    }
+    return ApiKeyService.instance;
+  }
+
+  /**
+   * Create a key. The returned `apiKey` is the only time the secret is available.
+   */
+  public async createKey(
+    input: Pick<ApiKeyInfo, 'label' | 'scopes'> & Partial<Pick<ApiKeyInfo, 'deviceIds' | 'expiresAt'>>
+  ): Promise<{ key: ApiKeyInfo; apiKey: string }> {
+    const now = Date.now();
+    const id = crypto.randomBytes(8).toString('hex');
+    const secret = crypto.randomBytes(24).toString('hex');
+
+    const record: ApiKeyRecord = {
+      id,
+      label: input.label,
+      scopes: input.scopes,
+      deviceIds: input.deviceIds,
+      expiresAt: input.expiresAt,
+      createdAt: now,
+      updatedAt: now,
+      secretHash: hashApiKeySecret(secret),
+    };
+
+    await this.saveRecord(record);
+    logInfo(`API key created: ${id} (${record.label}) with scopes ${record.scopes.join(', ')}`);
+
+    return { key: this.toInfo(record), apiKey: this.formatKey(id, secret) };
+  }
+
+  public async getKey(keyId: string): Promise<ApiKeyInfo | null> {
+    const [record, lastUsedAt] = await Promise.all([
+      this.getRecord(keyId),
+      this.redisClient.hget(this.LAST_USED_KEY, keyId),
+    ]);
+    return record ? this.toInfo(record, lastUsedAt) : null;
+  }
+
+  public async listKeys(): Promise<ApiKeyInfo[]> {
+    const [all, lastUsed] = await Promise.all([
+      this.redisClient.hgetall(this.KEYS_KEY),
+      this.redisClient.hgetall(this.LAST_USED_KEY),
+    ]);
+    return Object.values(all)
+      .map(data => JSON.parse(data) as ApiKeyRecord)
+      .map(record => this.toInfo(record, lastUsed[record.id]))
+      .sort((a, b) => a.createdAt - b.createdAt);
+  }
+
+  public async updateKey(
+    keyId: string,
+    updates: Partial<Pick<ApiKeyInfo, 'label' | 'scopes' | 'deviceIds'>> & { expiresAt?: number | null }
+  ): Promise<ApiKeyInfo | null> {
+    const record = await this.getRecord(keyId);
+    if (!record) {
+      return null;
+    }
+
+    const { expiresAt, ...rest } = updates;
+    const updated: ApiKeyRecord = {
+      ...record,
+      ...rest,
+      id: record.id,
+      // null clears the expiry, undefined leaves it unchanged
+      expiresAt: expiresAt === null ? undefined : expiresAt ?? record.expiresAt,
+      updatedAt: Date.now(),
+    };
+
+    await this.saveRecord(updated);
+    logInfo(`API key updated: ${keyId}`);
+
+    return this.toInfo(updated, await this.redisClient.hget(this.LAST_USED_KEY, keyId));
+  }
+
+  /**
+   * Revoke a key immediately
+   */
+  public async revokeKey(keyId: string): Promise<boolean> {
+    const removed = await this.redisClient.hdel(this.KEYS_KEY, keyId);
+    await this.redisClient.hdel(this.LAST_USED_KEY, keyId);
+    if (removed > 0) {
+      logInfo(`API key revoked: ${keyId}`);
+    }
+    return removed > 0;
+  }
+
+  /**
+   * Issue a new secret for a key. The old secret keeps working for
+   * `gracePeriodMs` so clients can be switched over without downtime.
+   */
+  public async rotateKey(keyId: string, gracePeriodMs: number = 0): Promise<{ key: ApiKeyInfo; apiKey: string } | null> {
+    const record = await this.getRecord(keyId);
+    if (!record) {
+      return null;
+    }
+
+    const now = Date.now();
+    const secret = crypto.randomBytes(24).toString('hex');
+    const rotated: ApiKeyRecord = {
+      ...record,
+      secretHash: hashApiKeySecret(secret),
+      previousSecretHash: gracePeriodMs > 0 ? record.secretHash : undefined,
+      previousSecretExpiresAt: gracePeriodMs > 0 ? now + gracePeriodMs : undefined,
+      rotatedAt: now,
+      updatedAt: now,
+    };
+
+    await this.saveRecord(rotated);
+    logInfo(`API key rotated: ${keyId} (grace period ${gracePeriodMs}ms)`);
+
+    return {
+      key: this.toInfo(rotated, await this.redisClient.hget(this.LAST_USED_KEY, keyId)),
+      apiKey: this.formatKey(keyId, secret),
+    };
+  }
+
+  /**
+   * Resolve a presented key to its record, checking the secret and expiry
+   */
+  public async authenticate(apiKey: string): Promise<ApiKeyAuthResult> {
+    const parsed = this.parseKey(apiKey);
+    if (!parsed) {
+      return { valid: false, reason: 'invalid' };
+    }
+
+    const [record, storedLastUsedAt] = await Promise.all([
+      this.getRecord(parsed.id),
+      this.redisClient.hget(this.LAST_USED_KEY, parsed.id),
+    ]);
+    if (!record) {
+      return { valid: false, reason: 'invalid' };
+    }
+
+    const now = Date.now();
+    const presentedHash = hashApiKeySecret(parsed.secret);
+    const matchesCurrent = this.safeEqual(presentedHash, record.secretHash);
+    const matchesPrevious = !!record.previousSecretHash
+      && !!record.previousSecretExpiresAt
+      && record.previousSecretExpiresAt > now
+      && this.safeEqual(presentedHash, record.previousSecretHash);
+
+    if (!matchesCurrent && !matchesPrevious) {
+      return { valid: false, reason: 'invalid' };
+    }
+
+    if (record.expiresAt && record.expiresAt <= now) {
+      logWarn(`Expired API key used: ${record.id}`);
+      return { valid: false, reason: 'expired' };
+    }
+
+    const key = this.toInfo(record, storedLastUsedAt);
+    if (!key.lastUsedAt || now - key.lastUsedAt > LAST_USED_UPDATE_INTERVAL) {
+      key.lastUsedAt = now;
+      // Best effort, authentication shouldn't fail because of it
+      this.redisClient.hset(this.LAST_USED_KEY, record.id, now.toString())
+        .catch((error: Error) => logWarn(`Failed to record use of API key ${record.id}: ${error.message}`));
+    }
+
+    return { valid: true, key };
+  }
+
+  private async getRecord(keyId: string): Promise<ApiKeyRecord | null> {
+    const data = await this.redisClient.hget(this.KEYS_KEY, keyId);
+    return data ? JSON.parse(data) : null;
+  }
+
+  private async saveRecord(record: ApiKeyRecord): Promise<void> {
+    await this.redisClient.hset(this.KEYS_KEY, record.id, JSON.stringify(record));
+  }
+
+  private toInfo(record: ApiKeyRecord, lastUsedAt?: string | null): ApiKeyInfo {
+    const { secretHash, previousSecretHash, previousSecretExpiresAt, ...info } = record;
+    return lastUsedAt ? { ...info, lastUsedAt: parseInt(lastUsedAt) } : info;
+  }
+
+  private formatKey(id: string, secret: string): string {
+    return `${KEY_PREFIX}_${id}_${secret}`;
+  }
+
+  private parseKey(apiKey: string): { id: string; secret: string } | null {
+    const match = /^wak_([a-f0-9]{16})_([a-f0-9]{48})$/.exec(apiKey);
+    return match ? { id: match[1], secret: match[2] } : null;
+  }
+
+  private safeEqual(a: string, b: string): boolean {
+    const bufferA = Buffer.from(a);
+    const bufferB = Buffer.from(b);
+    return bufferA.length === bufferB.length && crypto.timingSafeEqual(bufferA, bufferB);
+  }
+}
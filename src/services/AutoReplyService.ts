@@ -0,0 +1,534 @@
+import crypto from 'crypto';
+import { Message } from 'whatsapp-web.js';
+import { getRedisClient } from '../config/redis';
+import logger, { logInfo, logError, logWarn } from '../config/logger';
+import { MessageQueueService } from './MessageQueueService';
+import { buildMessageWebhookData, postSignedWebhook } from './WebhookService';
+import { renderCampaignTemplate } from './CampaignService';
+
+export type AutoReplyActionType = 'reply' | 'forward' | 'tag' | 'webhook';
+
+export const AUTO_REPLY_ACTION_TYPES: AutoReplyActionType[] = ['reply', 'forward', 'tag', 'webhook'];
+
+export type AutoReplyAction =
+  | { type: 'reply'; template: string; quote?: boolean }
+  | { type: 'forward'; to: string; template?: string }
+  | { type: 'tag'; tag: string }
+  | { type: 'webhook'; url: string; secret?: string };
+
+export interface BusinessHours {
+  timezone: string; // IANA name, e.g. Europe/Berlin
+  days: number[]; // 0 = Sunday ... 6 = Saturday
+  start: string; // HH:mm
+  end: string; // HH:mm, may be before start for overnight hours
+  when: 'open' | 'closed';
+}
+
+export interface AutoReplyConditions {
+  senders?: string[];
+  chats?: string[];
+  chatType?: 'private' | 'group';
+  keywords?: string[];
+  pattern?: string;
+  messageTypes?: string[];
+  businessHours?: BusinessHours;
+}
+
+export interface AutoReplyRule {
+  id: string;
+  deviceId: string;
+  name: string;
+  enabled: boolean;
+  priority: number; // Lower runs first
+  stopOnMatch: boolean;
+  cooldownSeconds: number; // Per chat
+  conditions: AutoReplyConditions;
+  actions: AutoReplyAction[];
+  createdAt: number;
+  updatedAt: number;
+  matchCount?: number;
+  lastMatchedAt?: number;
+}
+
+export type AutoReplyRuleInput = Pick<AutoReplyRule, 'name' | 'conditions' | 'actions'> &
+  Partial<Pick<AutoReplyRule, 'enabled' | 'priority' | 'stopOnMatch' | 'cooldownSeconds'>>;
+
+/**
+ * The parts of an inbound message that rules look at
+ */
+export interface AutoReplyMessage {
+  messageId?: string;
+  chatId: string;
+  from: string; // Sender, the participant in groups
+  name?: string;
+  body: string;
+  type: string;
+  isGroup: boolean;
+  hasMedia?: boolean;
+}
+
+export interface RuleEvaluation {
+  matched: boolean;
+  failedCondition?: keyof AutoReplyConditions;
+  variables: Record<string, string>;
+}
+
+export interface AutoReplyRuleUpdateResult {
+  status: 'updated' | 'not_found';
+  rule?: AutoReplyRule;
+}
+
+export interface AutoReplyConfig {
+  maxRulesPerDevice: number;
+  webhookTimeout: number;
+}
+
+const DEFAULT_CONFIG: AutoReplyConfig = {
+  maxRulesPerDevice: parseInt(process.env.AUTO_REPLY_MAX_RULES || '100'),
+  webhookTimeout: parseInt(process.env.AUTO_REPLY_WEBHOOK_TIMEOUT || '5000'), // 5 seconds
+};
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+/**
+ * Address lists accept full chat IDs or plain phone numbers
+ */
+function matchesAddress(entries: string[], id: string): boolean {
+  const user = id.split('@')[0];
+  return entries.some(entry => (entry.includes('@') ? entry === id : entry.replace(/\D/g, '') === user));
+}
+
+const toMinutes = (time: string): number => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+/**
+ * Check whether a point in time falls within business hours, evaluated in their timezone
+ */
+export function isWithinBusinessHours(hours: Omit<BusinessHours, 'when'>, at: Date): boolean {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: hours.timezone,
+    weekday: 'short',
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23',
+  }).formatToParts(at);
+  const part = (type: string) => parts.find(p => p.type === type)?.value || '';
+
+  const day = WEEKDAYS.indexOf(part('weekday'));
+  const minutes = parseInt(part('hour')) * 60 + parseInt(part('minute'));
+  const start = toMinutes(hours.start);
+  const end = toMinutes(hours.end);
+
+  if (start <= end) {
+    return hours.days.includes(day) && minutes >= start && minutes < end;
+  }
+  // Overnight hours belong to the day they start on
+  if (minutes >= start) {
+    return hours.days.includes(day);
+  }
+  return minutes < end && hours.days.includes((day + 6) % 7);
+}
+
+/**
+ * Evaluate a rule's conditions against a message. Every condition that is set must match;
+ * list conditions match when any entry does.
+ */
+export function evaluateRule(rule: Pick<AutoReplyRule, 'conditions'>, message: AutoReplyMessage, at: Date = new Date()): RuleEvaluation {
+  const { conditions } = rule;
+  const variables: Record<string, string> = {
+    name: message.name || message.from.split('@')[0],
+    phone: message.from.split('@')[0],
+    chatId: message.chatId,
+    body: message.body,
+    type: message.type,
+  };
+  const fail = (failedCondition: keyof AutoReplyConditions): RuleEvaluation => ({ matched: false, failedCondition, variables });
+
+  if (conditions.senders?.length && !matchesAddress(conditions.senders, message.from)) return fail('senders');
+  if (conditions.chats?.length && !matchesAddress(conditions.chats, message.chatId)) return fail('chats');
+  if (conditions.chatType && (conditions.chatType === 'group') !== message.isGroup) return fail('chatType');
+  if (conditions.messageTypes?.length && !conditions.messageTypes.includes(message.type)) return fail('messageTypes');
+
+  if (conditions.keywords?.length) {
+    const body = message.body.toLowerCase();
+    const keyword = conditions.keywords.find(k => body.includes(k.toLowerCase()));
+    if (!keyword) return fail('keywords');
+    variables.keyword = keyword;
+  }
+
+  if (conditions.pattern) {
+    const match = new RegExp(conditions.pattern, 'i').exec(message.body);
+    if (!match) return fail('pattern');
+    // Capture groups are available to templates as {{1}}, {{2}}, ... and named groups by name
+    match.forEach((value, index) => {
+      if (index > 0) variables[index.toString()] = value ?? '';
+    });
+    Object.entries(match.groups || {}).forEach(([name, value]) => {
+      variables[name] = value ?? '';
+    });
+  }
+
+  if (conditions.businessHours) {
+    const open = isWithinBusinessHours(conditions.businessHours, at);
+    if (open !== (conditions.businessHours.when === 'open')) return fail('businessHours');
+  }
+
+  return { matched: true, variables };
+}
+
+/**
+ * Fill in templates so a dry run shows exactly what would be sent
+ */
+export function renderActions(actions: AutoReplyAction[], variables: Record<string, string>): AutoReplyAction[] {
+  return actions.map(action => {
+    if (action.type === 'reply') return { ...action, template: renderCampaignTemplate(action.template, variables) };
+    if (action.type === 'forward' && action.template) return { ...action, template: renderCampaignTemplate(action.template, variables) };
+    if (action.type === 'tag') return { ...action, tag: renderCampaignTemplate(action.tag, variables) };
+    return action;
+  });
+}
+
+export function sortRules(rules: AutoReplyRule[]): AutoReplyRule[] {
+  return [...rules].sort((a, b) => a.priority - b.priority || a.createdAt - b.createdAt);
+}
+
+export class AutoReplyService {
+  private static instance: AutoReplyService;
+  private redisClient;
+  private config: AutoReplyConfig;
+
+  // Redis keys with specific prefixes to avoid conflicts
+  private readonly RULES_KEY = 'whatsapp:auto_reply_rules';
+  private readonly STATS_KEY = 'whatsapp:auto_reply_stats';
+  private readonly COOLDOWN_KEY = 'whatsapp:auto_reply_cooldown';
+  private readonly CHAT_TAGS_KEY = 'whatsapp:chat_tags';
+
+  private constructor() {
+    this.redisClient = getRedisClient();
+    this.config = { ...DEFAULT_CONFIG };
+  }
+
+  public static getInstance(): AutoReplyService {
+    if (!AutoReplyService.instance) {
+      AutoReplyService.instance = new AutoReplyService();
+    }
+    return AutoReplyService.instance;
+  }
+
+  public getConfig(): AutoReplyConfig {
+    return { ...this.config };
+  }
+
+  /**
+   * @throws Error when the device already has the maximum number of rules
+   */
+  public async createRule(deviceId: string, input: AutoReplyRuleInput): Promise<AutoReplyRule> {
+    const count = await this.redisClient.hlen(this.getRulesKey(deviceId));
+    if (count >= this.config.maxRulesPerDevice) {
+      throw new Error(`A device can have at most ${this.config.maxRulesPerDevice} rules`);
+    }
+
+    const now = Date.now();
+    const rule: AutoReplyRule = {
+      enabled: true,
+      priority: 100,
+      stopOnMatch: true,
+      cooldownSeconds: 60,
+      ...input,
+      id: `rule_${crypto.randomBytes(8).toString('hex')}`,
+      deviceId,
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    await this.saveRule(rule);
+    logInfo(`Auto-reply rule ${rule.id} created for device ${deviceId}`);
+
+    return rule;
+  }
+
+  /**
+   * Rules in evaluation order, with match statistics
+   */
+  public async listRules(deviceId: string): Promise<AutoReplyRule[]> {
+    const [records, stats] = await Promise.all([
+      this.redisClient.hvals(this.getRulesKey(deviceId)),
+      this.redisClient.hgetall(`${this.STATS_KEY}:${deviceId}`),
+    ]);
+
+    return sortRules(records.map(record => this.withStats(JSON.parse(record), stats)));
+  }
+
+  public async getRule(deviceId: string, ruleId: string): Promise<AutoReplyRule | null> {
+    const data = await this.redisClient.hget(this.getRulesKey(deviceId), ruleId);
+    if (!data) return null;
+
+    const stats = await this.redisClient.hgetall(`${this.STATS_KEY}:${deviceId}`);
+    return this.withStats(JSON.parse(data), stats);
+  }
+
+  public async updateRule(deviceId: string, ruleId: string, updates: Partial<AutoReplyRuleInput>): Promise<AutoReplyRuleUpdateResult> {
+    const existing = await this.getRule(deviceId, ruleId);
+    if (!existing) {
+      return { status: 'not_found' };
+    }
+
+    const { matchCount, lastMatchedAt, ...stored } = existing;
+    const rule: AutoReplyRule = { ...stored, ...updates, updatedAt: Date.now() };
+    await this.saveRule(rule);
+
+    return { status: 'updated', rule: { ...rule, matchCount, lastMatchedAt } };
+  }
+
+  public async deleteRule(deviceId: string, ruleId: string): Promise<boolean> {
+    const removed = await this.redisClient.hdel(this.getRulesKey(deviceId), ruleId);
+    await this.redisClient.hdel(`${this.STATS_KEY}:${deviceId}`, `${ruleId}:matches`, `${ruleId}:last`);
+    return removed > 0;
+  }
+
+  /**
+   * Evaluate rules without running any action. Disabled rules are evaluated too when tested by ID.
+   */
+  public async testRules(
+    deviceId: string,
+    message: AutoReplyMessage,
+    options: { at?: Date; ruleId?: string; rule?: AutoReplyRuleInput } = {}
+  ): Promise<Array<{ ruleId?: string; name: string; enabled: boolean; matched: boolean; failedCondition?: string; cooldownActive?: boolean; actions?: AutoReplyAction[] }>> {
+    let rules: Array<Pick<AutoReplyRule, 'name' | 'conditions' | 'actions'> & Partial<AutoReplyRule>>;
+    if (options.rule) {
+      rules = [{ ...options.rule, enabled: true }];
+    } else if (options.ruleId) {
+      const rule = await this.getRule(deviceId, options.ruleId);
+      rules = rule ? [rule] : [];
+    } else {
+      rules = (await this.listRules(deviceId)).filter(rule => rule.enabled);
+    }
+
+    const results = [];
+    for (const rule of rules) {
+      const evaluation = evaluateRule(rule, message, options.at);
+      const cooldownActive = evaluation.matched && rule.id
+        ? (await this.redisClient.exists(this.getCooldownKey(deviceId, rule.id, message.chatId))) === 1
+        : undefined;
+
+      results.push({
+        ruleId: rule.id,
+        name: rule.name,
+        enabled: rule.enabled !== false,
+        matched: evaluation.matched,
+        failedCondition: evaluation.failedCondition,
+        cooldownActive,
+        actions: evaluation.matched ? renderActions(rule.actions, evaluation.variables) : undefined,
+      });
+
+      if (evaluation.matched && rule.stopOnMatch !== false && !options.ruleId && !options.rule) break;
+    }
+
+    return results;
+  }
+
+  /**
+   * Run the device's rules for an inbound message. Never throws, so it is safe
+   * to call from WhatsApp client event handlers.
+   */
+  public async handleIncomingMessage(deviceId: string, message: Message): Promise<void> {
+    try {
+      if (message.fromMe || message.isStatus || message.from === 'status@broadcast') return;
+
+      const rules = (await this.listRules(deviceId)).filter(rule => rule.enabled);
+      if (rules.length === 0) return;
+
+      const input: AutoReplyMessage = {
+        messageId: message.id._serialized,
+        chatId: message.from,
+        from: message.author || message.from,
+        name: (message as any)._data?.notifyName,
+        body: message.body || '',
+        type: message.type,
+        isGroup: message.from.endsWith('@g.us'),
+        hasMedia: message.hasMedia,
+      };
+
+      for (const rule of rules) {
+        const evaluation = evaluateRule(rule, input);
+        if (!evaluation.matched) continue;
+
+        // SET NX doubles as the per-chat cooldown and as a guard against running a rule twice
+        const cooldownKey = this.getCooldownKey(deviceId, rule.id, input.chatId);
+        const acquired = rule.cooldownSeconds > 0
+          ? await this.redisClient.set(cooldownKey, Date.now().toString(), 'EX', rule.cooldownSeconds, 'NX')
+          : 'OK';
+
+        if (acquired === 'OK') {
+          await this.recordMatch(deviceId, rule.id);
+          await this.runActions(deviceId, rule, message, input, evaluation.variables);
+        } else {
+          logger.debug(`Auto-reply rule ${rule.id} matched in cooldown for chat on device ${deviceId}`);
+        }
+
+        if (rule.stopOnMatch) break;
+      }
+    } catch (error) {
+      logError(`Failed to run auto-reply rules for device ${deviceId}:`, error);
+    }
+  }
+
+  /**
+   * Tags set on a device's chats by rules, optionally only chats with a given tag
+   */
+  public async getChatTags(deviceId: string, tag?: string): Promise<Record<string, string[]>> {
+    const all = await this.redisClient.hgetall(`${this.CHAT_TAGS_KEY}:${deviceId}`);
+    const tags: Record<string, string[]> = {};
+
+    for (const [chatId, value] of Object.entries(all)) {
+      const chatTags: string[] = JSON.parse(value);
+      if (!tag || chatTags.includes(tag)) {
+        tags[chatId] = chatTags;
+      }
+    }
+    return tags;
+  }
+
+  public async removeChatTag(deviceId: string, chatId: string, tag: string): Promise<boolean> {
+    const key = `${this.CHAT_TAGS_KEY}:${deviceId}`;
+    const current: string[] = JSON.parse((await this.redisClient.hget(key, chatId)) || '[]');
+    if (!current.includes(tag)) return false;
+
+    const remaining = current.filter(t => t !== tag);
+    if (remaining.length > 0) {
+      await this.redisClient.hset(key, chatId, JSON.stringify(remaining));
+    } else {
+      await this.redisClient.hdel(key, chatId);
+    }
+    return true;
+  }
+
+  private async runActions(
+    deviceId: string,
+    rule: AutoReplyRule,
+    message: Message,
+    input: AutoReplyMessage,
+    variables: Record<string, string>
+  ): Promise<void> {
+    const queueService = MessageQueueService.getInstance();
+
+    for (const action of renderActions(rule.actions, variables)) {
+      try {
+        switch (action.type) {
+          case 'reply':
+            await queueService.queueMessage({
+              deviceId,
+              to: input.chatId,
+              type: 'text',
+              content: action.template,
+              options: action.quote ? { quotedMessageId: input.messageId } : {},
+              priority: 'normal',
+              maxAttempts: 3,
+            });
+            break;
+
+          case 'forward':
+            if (message.hasMedia) {
+              const media = await message.downloadMedia();
+              await queueService.queueMessage({
+                deviceId,
+                to: action.to,
+                type: 'media',
+                content: action.template ?? message.body ?? '',
+                mediaBase64: media.data,
+                mediaType: media.mimetype,
+                options: { caption: action.template ?? message.body ?? '' },
+                priority: 'normal',
+                maxAttempts: 3,
+              });
+            } else {
+              await queueService.queueMessage({
+                deviceId,
+                to: action.to,
+                type: 'text',
+                content: action.template ?? message.body,
+                options: {},
+                priority: 'normal',
+                maxAttempts: 3,
+              });
+            }
+            break;
+
+          case 'tag':
+            await this.addChatTag(deviceId, input.chatId, action.tag);
+            break;
+
+          case 'webhook':
+            await this.callWebhook(deviceId, rule, action, message);
+            break;
+        }
+      } catch (error) {
+        logError(`Auto-reply rule ${rule.id} failed to run its ${action.type} action on device ${deviceId}:`, error);
+      }
+    }
+
+    logInfo(`Auto-reply rule ${rule.id} ran ${rule.actions.length} action(s) on device ${deviceId}`);
+  }
+
+  /**
+   * Single delivery attempt. Use a webhook subscription when retries are needed.
+   */
+  private async callWebhook(
+    deviceId: string,
+    rule: AutoReplyRule,
+    action: Extract<AutoReplyAction, { type: 'webhook' }>,
+    message: Message
+  ): Promise<void> {
+    const status = await postSignedWebhook(action.url, {
+      event: 'auto_reply_rule',
+      deviceId,
+      ruleId: rule.id,
+      ruleName: rule.name,
+      timestamp: Date.now(),
+      data: buildMessageWebhookData(message),
+    }, { secret: action.secret, timeout: this.config.webhookTimeout });
+
+    if (status < 200 || status >= 300) {
+      logWarn(`Auto-reply rule ${rule.id} webhook returned ${status}`);
+    }
+  }
+
+  private async addChatTag(deviceId: string, chatId: string, tag: string): Promise<void> {
+    if (!tag) return;
+
+    const key = `${this.CHAT_TAGS_KEY}:${deviceId}`;
+    const current: string[] = JSON.parse((await this.redisClient.hget(key, chatId)) || '[]');
+    if (!current.includes(tag)) {
+      await this.redisClient.hset(key, chatId, JSON.stringify([...current, tag]));
+    }
+  }
+
+  private async recordMatch(deviceId: string, ruleId: string): Promise<void> {
+    const key = `${this.STATS_KEY}:${deviceId}`;
+    await this.redisClient.hincrby(key, `${ruleId}:matches`, 1);
+    await this.redisClient.hset(key, `${ruleId}:last`, Date.now().toString());
+  }
+
+  private withStats(rule: AutoReplyRule, stats: Record<string, string>): AutoReplyRule {
+    const last = stats[`${rule.id}:last`];
+    return {
+      ...rule,
+      matchCount: parseInt(stats[`${rule.id}:matches`] || '0'),
+      lastMatchedAt: last ? parseInt(last) : undefined,
+    };
+  }
+
+  private async saveRule(rule: AutoReplyRule): Promise<void> {
+    await this.redisClient.hset(this.getRulesKey(rule.deviceId), rule.id, JSON.stringify(rule));
+  }
+
+  private getRulesKey(deviceId: string): string {
+    return `${this.RULES_KEY}:${deviceId}`;
+  }
+
+  private getCooldownKey(deviceId: string, ruleId: string, chatId: string): string {
+    return `${this.COOLDOWN_KEY}:${deviceId}:${ruleId}:${chatId}`;
+  }
+}
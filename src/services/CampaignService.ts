@@ -0,0 +1,552 @@
+import crypto from 'crypto';
+import { getRedisClient } from '../config/redis';
+import logger, { logInfo, logError, logWarn } from '../config/logger';
+import { DeviceManager } from './DeviceManager';
+import { DeviceHealthService } from './DeviceHealthService';
+import { MessageQueueService, QueuedMessageResult } from './MessageQueueService';
+import { ClusterService } from './ClusterService';
+
+export type CampaignStatus = 'running' | 'paused' | 'completed' | 'cancelled';
+
+export type CampaignRecipientStatus = 'pending' | 'queued' | 'sent' | 'delivered' | 'read' | 'failed' | 'cancelled';
+
+export const CAMPAIGN_RECIPIENT_STATUSES: CampaignRecipientStatus[] = [
+  'pending', 'queued', 'sent', 'delivered', 'read', 'failed', 'cancelled',
+];
+
+export interface CampaignMedia {
+  mimetype: string;
+  data: string;
+  filename?: string;
+}
+
+export interface Campaign {
+  id: string;
+  deviceId: string;
+  name: string;
+  text: string;
+  media?: CampaignMedia;
+  status: CampaignStatus;
+  totalRecipients: number;
+  // Why the last dispatch attempt was held back, e.g. device health protection
+  blockedReason?: string;
+  createdAt: number;
+  updatedAt: number;
+  completedAt?: number;
+}
+
+export interface CampaignRecipientInput {
+  to: string;
+  variables?: Record<string, string>;
+}
+
+export interface CampaignRecipient extends CampaignRecipientInput {
+  index: number;
+  status: CampaignRecipientStatus;
+  queueId?: string;
+  messageId?: string;
+  error?: string;
+  updatedAt: number;
+}
+
+export type CampaignStats = Record<CampaignRecipientStatus, number>;
+
+export interface CampaignUpdateResult {
+  status: 'updated' | 'not_found' | 'invalid_state';
+  campaign?: Campaign;
+}
+
+export interface CampaignConfig {
+  maxRecipients: number;
+  maxInFlight: number;
+  trackingTtl: number;
+}
+
+const DEFAULT_CONFIG: CampaignConfig = {
+  maxRecipients: parseInt(process.env.CAMPAIGN_MAX_RECIPIENTS || '5000'),
+  maxInFlight: parseInt(process.env.CAMPAIGN_MAX_IN_FLIGHT || '3'),
+  trackingTtl: parseInt(process.env.CAMPAIGN_TRACKING_TTL || '604800'), // 7 days, in seconds
+};
+
+// Recipient statuses only move forward, so a late "sent" never overwrites "read"
+const STATUS_RANK: Record<CampaignRecipientStatus, number> = {
+  pending: 0,
+  queued: 1,
+  sent: 2,
+  delivered: 3,
+  read: 4,
+  failed: 5,
+  cancelled: 5,
+};
+
+const TEMPLATE_VARIABLE = /\{\{\s*([\w.-]+)\s*\}\}/g;
+
+/**
+ * Replace {{variable}} placeholders with the recipient's values
+ */
+export function renderCampaignTemplate(template: string, variables: Record<string, string> = {}): string {
+  return template.replace(TEMPLATE_VARIABLE, (_match, name: string) => variables[name] ?? '');
+}
+
+/**
+ * List the template variables a recipient is missing
+ */
+export function findMissingVariables(template: string, variables: Record<string, string> = {}): string[] {
+  const missing = new Set<string>();
+  for (const [, name] of template.matchAll(TEMPLATE_VARIABLE)) {
+    if (variables[name] === undefined || variables[name] === '') {
+      missing.add(name);
+    }
+  }
+  return Array.from(missing);
+}
+
+/**
+ * Parse a recipient CSV. The header row must contain a `to` (or `phone`) column;
+ * every other column becomes a template variable.
+ */
+export function parseRecipientsCsv(csv: string): CampaignRecipientInput[] {
+  const rows = parseCsvRows(csv).filter(row => row.some(cell => cell.trim() !== ''));
+  if (rows.length === 0) {
+    throw new Error('CSV is empty');
+  }
+
+  const header = rows[0].map(cell => cell.trim());
+  const toColumn = header.findIndex(name => ['to', 'phone'].includes(name.toLowerCase()));
+  if (toColumn === -1) {
+    throw new Error('CSV header must contain a "to" or "phone" column');
+  }
+
+  return rows.slice(1).map(row => {
+    const variables: Record<string, string> = {};
+    header.forEach((name, i) => {
+      if (i !== toColumn && name) {
+        variables[name] = (row[i] || '').trim();
+      }
+    });
+    return { to: (row[toColumn] || '').trim(), variables };
+  });
+}
+
+/**
+ * Split CSV text into rows, honouring quoted fields with embedded commas, quotes and newlines
+ */
+function parseCsvRows(csv: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < csv.length; i++) {
+    const char = csv[i];
+
+    if (inQuotes) {
+      if (char === '"' && csv[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && csv[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+
+  row.push(cell);
+  rows.push(row);
+  return rows;
+}
+
+/**
+ * Map a whatsapp-web.js ack (MessageAck) to a recipient status
+ */
+export function mapAckToRecipientStatus(ack: number): CampaignRecipientStatus | null {
+  switch (ack) {
+    case -1: // ACK_ERROR
+      return 'failed';
+    case 1: // ACK_SERVER
+      return 'sent';
+    case 2: // ACK_DEVICE
+      return 'delivered';
+    case 3: // ACK_READ
+    case 4: // ACK_PLAYED
+      return 'read';
+    default:
+      return null;
+  }
+}
+
+export class CampaignService {
+  private static instance: CampaignService;
+  private redisClient;
+  private deviceManager;
+  private isProcessing = false;
+  private config: CampaignConfig;
+
+  // Redis keys with specific prefixes to avoid conflicts
+  private readonly CAMPAIGNS_KEY = 'whatsapp:campaigns';
+  private readonly RECIPIENTS_KEY = 'whatsapp:campaign_recipients';
+  private readonly CURSOR_KEY = 'whatsapp:campaign_cursor';
+  private readonly MESSAGE_KEY = 'whatsapp:campaign_msg';
+
+  private constructor() {
+    this.redisClient = getRedisClient();
+    this.deviceManager = DeviceManager.getInstance();
+    this.config = { ...DEFAULT_CONFIG };
+    MessageQueueService.getInstance().onMessageProcessed(result => this.handleQueueResult(result));
+    this.startProcessing();
+  }
+
+  public static getInstance(): CampaignService {
+    if (!CampaignService.instance) {
+      CampaignService.instance = new CampaignService();
+    }
+    return CampaignService.instance;
+  }
+
+  public getConfig(): CampaignConfig {
+    return { ...this.config };
+  }
+
+  /**
+   * Create a campaign and start fanning it out. Recipients must already be validated.
+   */
+  public async createCampaign(input: {
+    deviceId: string;
+    name: string;
+    text: string;
+    media?: CampaignMedia;
+    recipients: CampaignRecipientInput[];
+    paused?: boolean;
+  }): Promise<Campaign> {
+    const now = Date.now();
+    const campaign: Campaign = {
+      id: `cmp_${crypto.randomBytes(8).toString('hex')}`,
+      deviceId: input.deviceId,
+      name: input.name,
+      text: input.text,
+      media: input.media,
+      status: input.paused ? 'paused' : 'running',
+      totalRecipients: input.recipients.length,
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    const recipientFields: string[] = [];
+    input.recipients.forEach((recipient, index) => {
+      const record: CampaignRecipient = { ...recipient, index, status: 'pending', updatedAt: now };
+      recipientFields.push(index.toString(), JSON.stringify(record));
+    });
+
+    await this.redisClient.hset(`${this.RECIPIENTS_KEY}:${campaign.id}`, ...recipientFields);
+    await this.redisClient.set(`${this.CURSOR_KEY}:${campaign.id}`, '0');
+    await this.saveCampaign(campaign);
+
+    logInfo(`Campaign ${campaign.id} created for device ${this.deviceManager.getFormattedDeviceId(campaign.deviceId)} with ${campaign.totalRecipients} recipient(s)`);
+    return campaign;
+  }
+
+  public async getCampaign(deviceId: string, campaignId: string): Promise<Campaign | null> {
+    const data = await this.redisClient.hget(this.CAMPAIGNS_KEY, campaignId);
+    if (!data) return null;
+
+    const campaign: Campaign = JSON.parse(data);
+    return campaign.deviceId === deviceId ? campaign : null;
+  }
+
+  /**
+   * List a device's campaigns, newest first
+   */
+  public async listCampaigns(deviceId: string): Promise<Campaign[]> {
+    const all = await this.redisClient.hvals(this.CAMPAIGNS_KEY);
+    return all
+      .map(data => JSON.parse(data) as Campaign)
+      .filter(campaign => campaign.deviceId === deviceId)
+      .sort((a, b) => b.createdAt - a.createdAt);
+  }
+
+  public async getRecipients(campaignId: string): Promise<CampaignRecipient[]> {
+    const all = await this.redisClient.hvals(`${this.RECIPIENTS_KEY}:${campaignId}`);
+    return all
+      .map(data => JSON.parse(data) as CampaignRecipient)
+      .sort((a, b) => a.index - b.index);
+  }
+
+  public async getStats(campaignId: string): Promise<CampaignStats> {
+    const stats = Object.fromEntries(CAMPAIGN_RECIPIENT_STATUSES.map(status => [status, 0])) as CampaignStats;
+    for (const recipient of await this.getRecipients(campaignId)) {
+      stats[recipient.status]++;
+    }
+    return stats;
+  }
+
+  public async pauseCampaign(deviceId: string, campaignId: string): Promise<CampaignUpdateResult> {
+    return this.transition(deviceId, campaignId, ['running'], 'paused');
+  }
+
+  public async resumeCampaign(deviceId: string, campaignId: string): Promise<CampaignUpdateResult> {
+    return this.transition(deviceId, campaignId, ['paused'], 'running');
+  }
+
+  /**
+   * Cancel a campaign. Recipients that were not handed to the message queue yet are marked cancelled;
+   * the few already queued are still sent.
+   */
+  public async cancelCampaign(deviceId: string, campaignId: string): Promise<CampaignUpdateResult> {
+    const result = await this.transition(deviceId, campaignId, ['running', 'paused'], 'cancelled');
+    if (result.status !== 'updated') return result;
+
+    // Move the cursor past the end so no other dispatcher can claim more recipients
+    const claimedUpTo = (await this.redisClient.getset(`${this.CURSOR_KEY}:${campaignId}`, result.campaign!.totalRecipients.toString())) || '0';
+    for (let index = parseInt(claimedUpTo); index < result.campaign!.totalRecipients; index++) {
+      await this.updateRecipient(campaignId, index, { status: 'cancelled' });
+    }
+
+    return result;
+  }
+
+  private async transition(
+    deviceId: string,
+    campaignId: string,
+    from: CampaignStatus[],
+    to: CampaignStatus
+  ): Promise<CampaignUpdateResult> {
+    const campaign = await this.getCampaign(deviceId, campaignId);
+    if (!campaign) return { status: 'not_found' };
+    if (!from.includes(campaign.status)) return { status: 'invalid_state', campaign };
+
+    const updated: Campaign = {
+      ...campaign,
+      status: to,
+      blockedReason: undefined,
+      completedAt: to === 'cancelled' ? Date.now() : campaign.completedAt,
+      updatedAt: Date.now(),
+    };
+    await this.saveCampaign(updated);
+
+    logInfo(`Campaign ${campaignId} ${campaign.status} -> ${to}`);
+    return { status: 'updated', campaign: updated };
+  }
+
+  /**
+   * Delete a finished campaign together with its recipients
+   */
+  public async deleteCampaign(deviceId: string, campaignId: string): Promise<CampaignUpdateResult> {
+    const campaign = await this.getCampaign(deviceId, campaignId);
+    if (!campaign) return { status: 'not_found' };
+    if (campaign.status === 'running' || campaign.status === 'paused') return { status: 'invalid_state', campaign };
+
+    await this.redisClient.hdel(this.CAMPAIGNS_KEY, campaignId);
+    await this.redisClient.del(`${this.RECIPIENTS_KEY}:${campaignId}`, `${this.CURSOR_KEY}:${campaignId}`);
+
+    logInfo(`Campaign ${campaignId} deleted`);
+    return { status: 'updated', campaign };
+  }
+
+  /**
+   * Update a recipient from a WhatsApp message ack. Never throws, so it is
+   * safe to call from WhatsApp client event handlers.
+   */
+  public async handleMessageAck(messageId: string, ack: number): Promise<void> {
+    try {
+      const status = mapAckToRecipientStatus(ack);
+      if (!status) return;
+
+      const reference = await this.redisClient.get(`${this.MESSAGE_KEY}:${messageId}`);
+      if (!reference) return;
+
+      const [campaignId, index] = reference.split(':');
+      await this.updateRecipient(campaignId, parseInt(index), {
+        status,
+        error: status === 'failed' ? 'Message delivery failed' : undefined,
+      });
+    } catch (error) {
+      logError(`Failed to record campaign ack for message ${messageId}:`, error);
+    }
+  }
+
+  private async handleQueueResult(result: QueuedMessageResult): Promise<void> {
+    const reference = result.message.campaign;
+    if (!reference) return;
+
+    if (result.success) {
+      if (result.sentMessageId) {
+        await this.redisClient.set(
+          `${this.MESSAGE_KEY}:${result.sentMessageId}`,
+          `${reference.campaignId}:${reference.recipientIndex}`,
+          'EX',
+          this.config.trackingTtl
+        );
+      }
+      await this.updateRecipient(reference.campaignId, reference.recipientIndex, {
+        status: 'sent',
+        messageId: result.sentMessageId,
+      });
+    } else {
+      await this.updateRecipient(reference.campaignId, reference.recipientIndex, {
+        status: 'failed',
+        error: result.error,
+      });
+    }
+  }
+
+  private async updateRecipient(
+    campaignId: string,
+    index: number,
+    updates: Partial<Pick<CampaignRecipient, 'status' | 'queueId' | 'messageId' | 'error'>>
+  ): Promise<void> {
+    const key = `${this.RECIPIENTS_KEY}:${campaignId}`;
+    const data = await this.redisClient.hget(key, index.toString());
+    if (!data) return;
+
+    const recipient: CampaignRecipient = JSON.parse(data);
+    if (updates.status && STATUS_RANK[updates.status] < STATUS_RANK[recipient.status]) {
+      return;
+    }
+
+    await this.redisClient.hset(key, index.toString(), JSON.stringify({
+      ...recipient,
+      ...Object.fromEntries(Object.entries(updates).filter(([, value]) => value !== undefined)),
+      updatedAt: Date.now(),
+    }));
+  }
+
+  private async saveCampaign(campaign: Campaign): Promise<void> {
+    await this.redisClient.hset(this.CAMPAIGNS_KEY, campaign.id, JSON.stringify(campaign));
+  }
+
+  /**
+   * Start feeding running campaigns into the message queue
+   */
+  private startProcessing(): void {
+    if (this.isProcessing) return;
+
+    this.isProcessing = true;
+    logInfo('Campaign dispatcher started');
+
+    // Dispatch every 2 seconds
+    const processInterval = setInterval(async () => {
+      try {
+        await this.processCampaigns();
+      } catch (error) {
+        logError('Error dispatching campaigns:', error);
+      }
+    }, 2000);
+
+    // Cleanup on process exit
+    process.on('SIGINT', () => {
+      clearInterval(processInterval);
+      this.isProcessing = false;
+      logInfo('Campaign dispatcher stopped');
+    });
+  }
+
+  private async processCampaigns(): Promise<void> {
+    const all = await this.redisClient.hvals(this.CAMPAIGNS_KEY);
+    const running = all
+      .map(data => JSON.parse(data) as Campaign)
+      .filter(campaign => campaign.status === 'running');
+
+    for (const campaign of running) {
+      try {
+        await this.dispatchCampaign(campaign);
+      } catch (error) {
+        logError(`Error dispatching campaign ${campaign.id}:`, error);
+      }
+    }
+  }
+
+  /**
+   * Hand the next recipients to the message queue, keeping at most maxInFlight queued at once
+   * so pausing takes effect quickly and device health is re-checked before every message.
+   */
+  private async dispatchCampaign(campaign: Campaign): Promise<void> {
+    const recipients = await this.getRecipients(campaign.id);
+    const cursor = parseInt((await this.redisClient.get(`${this.CURSOR_KEY}:${campaign.id}`)) || '0');
+    const inFlight = recipients.filter(recipient => recipient.status === 'queued').length;
+
+    if (cursor >= campaign.totalRecipients) {
+      if (inFlight === 0) {
+        await this.updateRunningCampaign(campaign, { status: 'completed', blockedReason: undefined, completedAt: Date.now() });
+        logInfo(`Campaign ${campaign.id} completed`);
+      }
+      return;
+    }
+
+    const device = this.deviceManager.getDevice(campaign.deviceId);
+    // The node running the device dispatches its campaigns
+    if (!device && await ClusterService.getInstance().isOwnedElsewhere(campaign.deviceId)) return;
+    if (!device || device.status !== 'ready') {
+      await this.setBlockedReason(campaign, 'Device is not ready');
+      return;
+    }
+
+    const messageQueueService = MessageQueueService.getInstance();
+    const healthService = DeviceHealthService.getInstance();
+
+    for (let slot = inFlight; slot < this.config.maxInFlight; slot++) {
+      const safetyCheck = await healthService.isSafeToSendMessage(campaign.deviceId);
+      if (!safetyCheck.safe) {
+        await this.setBlockedReason(campaign, safetyCheck.reason);
+        return;
+      }
+
+      // INCR claims the recipient so concurrent dispatchers never queue it twice
+      const index = (await this.redisClient.incr(`${this.CURSOR_KEY}:${campaign.id}`)) - 1;
+      if (index >= campaign.totalRecipients) break;
+
+      const recipient = recipients[index];
+      const text = renderCampaignTemplate(campaign.text, recipient.variables);
+
+      const queueId = await messageQueueService.queueMessage({
+        deviceId: campaign.deviceId,
+        to: recipient.to,
+        type: campaign.media ? 'media' : 'text',
+        content: text,
+        mediaBase64: campaign.media?.data,
+        mediaType: campaign.media?.mimetype,
+        options: campaign.media && text ? { caption: text } : undefined,
+        priority: 'low',
+        maxAttempts: 3,
+        campaign: { campaignId: campaign.id, recipientIndex: index },
+      });
+
+      await this.updateRecipient(campaign.id, index, { status: 'queued', queueId });
+      logger.debug(`Campaign ${campaign.id} queued recipient ${index + 1}/${campaign.totalRecipients} as ${queueId}`);
+    }
+
+    await this.setBlockedReason(campaign, undefined);
+  }
+
+  private async setBlockedReason(campaign: Campaign, reason: string | undefined): Promise<void> {
+    if (campaign.blockedReason === reason) return;
+
+    await this.updateRunningCampaign(campaign, { blockedReason: reason });
+    if (reason) {
+      logWarn(`Campaign ${campaign.id} held back: ${reason}`);
+    }
+  }
+
+  /**
+   * Re-read before writing so a concurrent pause or cancel isn't overwritten
+   */
+  private async updateRunningCampaign(campaign: Campaign, updates: Partial<Campaign>): Promise<void> {
+    const current = await this.getCampaign(campaign.deviceId, campaign.id);
+    if (!current || current.status !== 'running') return;
+
+    await this.saveCampaign({ ...current, ...updates, updatedAt: Date.now() });
+  }
+}
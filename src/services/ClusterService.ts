@@ -0,0 +1,277 @@
+import crypto from 'crypto';
+import os from 'os';
+import { getRedisClient } from '../config/redis';
+import { env } from '../config/env';
+import { logInfo, logWarn, logError } from '../config/logger';
+
+export interface ClusterNode {
+  id: string;
+  url: string; // Where other nodes forward API calls for this node's devices
+  startedAt: number;
+  heartbeatAt: number;
+  devices: number;
+}
+
+export interface ClusterConfig {
+  enabled: boolean;
+  nodeId: string;
+  nodeUrl: string;
+  leaseTtl: number; // ms; a node that misses heartbeats this long loses its devices
+  heartbeatInterval: number; // ms
+  maxDevices: number; // Devices one node runs at most, 0 for no limit
+  forwardTimeout: number; // ms
+}
+
+export type ClusterListener = () => void | Promise<void>;
+export type DeviceLeaseListener = (deviceId: string) => void | Promise<void>;
+
+const DEFAULT_CONFIG: ClusterConfig = {
+  enabled: process.env.CLUSTER_ENABLED === 'true',
+  nodeId: process.env.CLUSTER_NODE_ID || `${os.hostname()}-${crypto.randomBytes(3).toString('hex')}`,
+  nodeUrl: process.env.CLUSTER_NODE_URL || `http://${os.hostname()}:${process.env.PORT || '3000'}`,
+  leaseTtl: parseInt(process.env.CLUSTER_LEASE_TTL || '30000'), // 30 seconds
+  heartbeatInterval: parseInt(process.env.CLUSTER_HEARTBEAT_INTERVAL || '10000'), // 10 seconds
+  maxDevices: parseInt(process.env.CLUSTER_MAX_DEVICES || '0'),
+  forwardTimeout: parseInt(process.env.CLUSTER_FORWARD_TIMEOUT || '60000'), // 1 minute
+};
+
+// Header set on API calls forwarded to the owner of a device; forwarded calls are never forwarded again
+export const FORWARDED_BY_HEADER = 'x-bridge-forwarded-by';
+
+// Extend a lease only while this node still holds it
+const RENEW_LEASE_SCRIPT = `
+if redis.call('get', KEYS[1]) == ARGV[1] then
+  return redis.call('pexpire', KEYS[1], ARGV[2])
+end
+return 0`;
+
+// Give a lease up only if this node still holds it
+const RELEASE_LEASE_SCRIPT = `
+if redis.call('get', KEYS[1]) == ARGV[1] then
+  return redis.call('del', KEYS[1])
+end
+return 0`;
+
+/**
+ * Device ownership across bridge instances. Each device runs on the one node holding its lease in Redis.
+ * Nodes renew their leases on every heartbeat; when a node stops, its leases expire and the other nodes
+ * take its devices over. With clustering disabled the single process owns every device.
+ */
+export class ClusterService {
+  private static instance: ClusterService;
+  private redisClient;
+  private config: ClusterConfig;
+  private ownedDevices = new Set<string>();
+  private startedAt = Date.now();
+  private heartbeatTimer: NodeJS.Timeout | null = null;
+  private heartbeatListeners: ClusterListener[] = [];
+  private lostListeners: DeviceLeaseListener[] = [];
+
+  // Redis keys with specific prefixes to avoid conflicts
+  private readonly NODES_KEY = 'whatsapp:cluster:nodes';
+  private readonly LEASE_KEY = 'whatsapp:cluster:lease';
+
+  private constructor() {
+    this.config = { ...DEFAULT_CONFIG };
+    if (this.config.enabled && !env.REDIS_ENABLED) {
+      logWarn('CLUSTER_ENABLED needs Redis, running as a single node');
+      this.config.enabled = false;
+    }
+    this.redisClient = this.config.enabled ? getRedisClient() : null;
+  }
+
+  public static getInstance(): ClusterService {
+    if (!ClusterService.instance) {
+      ClusterService.instance = new ClusterService();
+    }
+    return ClusterService.instance;
+  }
+
+  public isEnabled(): boolean {
+    return this.config.enabled;
+  }
+
+  public getNodeId(): string {
+    return this.config.nodeId;
+  }
+
+  public getConfig(): ClusterConfig {
+    return { ...this.config };
+  }
+
+  /**
+   * Register this node and start heartbeats
+   */
+  public async start(): Promise<void> {
+    if (!this.redisClient || this.heartbeatTimer) return;
+
+    await this.saveNode();
+    this.heartbeatTimer = setInterval(() => {
+      this.heartbeat().catch(error => logError('Cluster heartbeat failed:', error));
+    }, this.config.heartbeatInterval);
+
+    logInfo(`Cluster node ${this.config.nodeId} started at ${this.config.nodeUrl}`);
+  }
+
+  /**
+   * Stop heartbeats, give up every lease and leave the cluster, so other nodes take the devices over right away
+   */
+  public async stop(): Promise<void> {
+    if (!this.redisClient) return;
+
+    if (this.heartbeatTimer) {
+      clearInterval(this.heartbeatTimer);
+      this.heartbeatTimer = null;
+    }
+    for (const deviceId of Array.from(this.ownedDevices)) {
+      await this.releaseDevice(deviceId);
+    }
+    await this.redisClient.hdel(this.NODES_KEY, this.config.nodeId);
+    logInfo(`Cluster node ${this.config.nodeId} left the cluster`);
+  }
+
+  /**
+   * Called after every heartbeat, once leases are renewed
+   */
+  public onHeartbeat(listener: ClusterListener): void {
+    this.heartbeatListeners.push(listener);
+  }
+
+  /**
+   * Called when another node took a device over, e.g. after this node missed heartbeats. Stop running it.
+   */
+  public onDeviceLost(listener: DeviceLeaseListener): void {
+    this.lostListeners.push(listener);
+  }
+
+  /**
+   * Take the lease of a device nobody holds
+   * @returns Whether this node owns the device now
+   */
+  public async acquireDevice(deviceId: string): Promise<boolean> {
+    if (!this.redisClient) return true;
+    if (this.ownedDevices.has(deviceId)) return true;
+
+    const acquired = await this.redisClient.set(this.leaseKey(deviceId), this.config.nodeId, 'PX', this.config.leaseTtl, 'NX');
+    if (!acquired) {
+      // Leases held by this node survive a restart with the same CLUSTER_NODE_ID
+      if ((await this.redisClient.get(this.leaseKey(deviceId))) !== this.config.nodeId) return false;
+      await this.redisClient.pexpire(this.leaseKey(deviceId), this.config.leaseTtl);
+    }
+
+    this.ownedDevices.add(deviceId);
+    return true;
+  }
+
+  public async releaseDevice(deviceId: string): Promise<void> {
+    if (!this.redisClient) return;
+
+    this.ownedDevices.delete(deviceId);
+    await this.redisClient.eval(RELEASE_LEASE_SCRIPT, 1, this.leaseKey(deviceId), this.config.nodeId);
+  }
+
+  /**
+   * The node running a device, or null when nobody does
+   */
+  public async getDeviceOwner(deviceId: string): Promise<ClusterNode | null> {
+    if (!this.redisClient) return null;
+
+    const nodeId = await this.redisClient.get(this.leaseKey(deviceId));
+    if (!nodeId) return null;
+
+    const data = await this.redisClient.hget(this.NODES_KEY, nodeId);
+    // A lease outlives the node entry only briefly; forwarding still needs the node's URL
+    return data ? JSON.parse(data) : { id: nodeId, url: '', startedAt: 0, heartbeatAt: 0, devices: 0 };
+  }
+
+  /**
+   * Whether another live node runs the device, so work for it is left to that node
+   */
+  public async isOwnedElsewhere(deviceId: string): Promise<boolean> {
+    if (!this.redisClient || this.ownedDevices.has(deviceId)) return false;
+
+    const nodeId = await this.redisClient.get(this.leaseKey(deviceId));
+    return !!nodeId && nodeId !== this.config.nodeId;
+  }
+
+  public getOwnedDevices(): string[] {
+    return Array.from(this.ownedDevices);
+  }
+
+  /**
+   * Whether this node may take more devices over. Devices created through this node are always run by it.
+   */
+  public hasCapacity(): boolean {
+    return this.config.maxDevices === 0 || this.ownedDevices.size < this.config.maxDevices;
+  }
+
+  /**
+   * Nodes that sent a heartbeat within the lease TTL
+   */
+  public async listNodes(): Promise<ClusterNode[]> {
+    if (!this.redisClient) return [];
+
+    const now = Date.now();
+    return (await this.redisClient.hvals(this.NODES_KEY))
+      .map(data => JSON.parse(data) as ClusterNode)
+      .filter(node => now - node.heartbeatAt < this.config.leaseTtl)
+      .sort((a, b) => a.startedAt - b.startedAt);
+  }
+
+  private async heartbeat(): Promise<void> {
+    if (!this.redisClient) return;
+
+    for (const deviceId of Array.from(this.ownedDevices)) {
+      const renewed = await this.redisClient.eval(RENEW_LEASE_SCRIPT, 1, this.leaseKey(deviceId), this.config.nodeId, this.config.leaseTtl);
+      if (renewed) continue;
+
+      logWarn(`Cluster node ${this.config.nodeId} lost the lease of device ${deviceId}`);
+      this.ownedDevices.delete(deviceId);
+      await this.notify(this.lostListeners.map(listener => () => listener(deviceId)));
+    }
+
+    await this.saveNode();
+    await this.pruneNodes();
+    await this.notify(this.heartbeatListeners);
+  }
+
+  private async saveNode(): Promise<void> {
+    const node: ClusterNode = {
+      id: this.config.nodeId,
+      url: this.config.nodeUrl,
+      startedAt: this.startedAt,
+      heartbeatAt: Date.now(),
+      devices: this.ownedDevices.size,
+    };
+    await this.redisClient!.hset(this.NODES_KEY, node.id, JSON.stringify(node));
+  }
+
+  /**
+   * Forget nodes that stopped without leaving the cluster
+   */
+  private async pruneNodes(): Promise<void> {
+    const cutoff = Date.now() - 10 * this.config.leaseTtl;
+    const stale = (await this.redisClient!.hvals(this.NODES_KEY))
+      .map(data => JSON.parse(data) as ClusterNode)
+      .filter(node => node.heartbeatAt < cutoff)
+      .map(node => node.id);
+
+    if (stale.length > 0) {
+      await this.redisClient!.hdel(this.NODES_KEY, ...stale);
+    }
+  }
+
+  private async notify(listeners: (() => void | Promise<void>)[]): Promise<void> {
+    for (const listener of listeners) {
+      try {
+        await listener();
+      } catch (error) {
+        logError('Error in cluster listener:', error);
+      }
+    }
+  }
+
+  private leaseKey(deviceId: string): string {
+    return `${this.LEASE_KEY}:${deviceId}`;
+  }
+}
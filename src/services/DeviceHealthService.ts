@@ -20,10 +20,13 @@ export interface DeviceHealth {
 
 export interface DeviceActivityLog {
   timestamp: number;
-  action: 'message_sent' | 'message_failed' | 'connected' | 'disconnected' | 'qr_generated' | 'authenticated';
+  action: 'message_sent' | 'message_failed' | 'connected' | 'disconnected' | 'qr_generated' | 'authenticated'
+    | 'reconnect_attempt' | 'reconnect_gave_up';
   success: boolean;
   responseTime?: number;
   error?: string;
+  attempt?: number; // Restarts in a row, for reconnect_* actions
+  reason?: string; // What caused the restart, for reconnect_* actions
 }
 
 export class DeviceHealthService {
@@ -1,5 +1,5 @@
 
-import { Client, LocalAuth } from 'whatsapp-web.js';
+import { Client, GroupNotification } from 'whatsapp-web.js';
 import { getRedisClient } from '../config/redis';
 import { env } from '../config/env';
 import logger, { logError, logInfo } from '../config/logger';
@@ -7,83 +7,196 @@ import { v4 as uuidv4 } from 'uuid';
 import { Redis } from 'ioredis';
 import {
   emitQRCode,
+  emitPairingCode,
   emitDeviceReady,
   emitDeviceAuthenticated,
   emitMessage,
+  emitMessageTranslated,
   emitDeviceState,
   emitDeviceDisconnected,
+  emitMessageAck,
+  emitAIDraft,
 } from '../sockets';
 import { AnalyticsService } from './AnalyticsService';
 import { DeviceHealthService } from './DeviceHealthService';
+import { WebhookService, buildMessageWebhookData, buildGroupWebhookData } from './WebhookService';
+import { CampaignService } from './CampaignService';
+import { MessageStatusService } from './MessageStatusService';
+import { MessageStoreService } from './MessageStoreService';
+import { AutoReplyService } from './AutoReplyService';
+import { AIAgentService } from './AIAgentService';
+import { TranscriptionService } from './TranscriptionService';
+import { TranslationService } from './TranslationService';
+import { DevicePoolService } from './DevicePoolService';
+import { RecipientPolicyService } from './RecipientPolicyService';
+import { SessionStoreService } from './SessionStoreService';
+import { ClusterService } from './ClusterService';
+import { DeviceSupervisorService } from './DeviceSupervisorService';
 import { cacheInbound, cacheOutbound } from './messageCache';
 import { convertToLightMessageMeta, shouldCacheMessage } from '../utils/messageUtils';
+import { mapAckStatus } from '../utils/messageAnalytics';
 import { redactMessageContent, redactPhoneNumber } from '../utils/logSanitizer';
 import fs from 'fs';
 import path from 'path';
 
 const DEVICES_SET_KEY = 'whatsapp:devices';
 const DEVICE_KEY_PREFIX = 'whatsapp:device:';
-const AUTH_KEY_PREFIX = 'whatsapp:auth:';
 
-// Custom Redis store for LocalAuth
-class RedisStore {
-    private redisClient: Redis;
-    private keyPrefix: string;
-
-    constructor(redisClient: Redis, keyPrefix: string = 'whatsapp:auth:') {
-        this.redisClient = redisClient;
-        this.keyPrefix = keyPrefix;
-    }
-
-    async sessionExists(options: any): Promise<boolean> {
-        const key = `${this.keyPrefix}${options.clientId}`;
-        const exists = await this.redisClient.exists(key);
-        return exists === 1;
-    }
-
-    async save(options: any): Promise<void> {
-        const key = `${this.keyPrefix}${options.clientId}`;
-        await this.redisClient.set(key, JSON.stringify(options.session));
-    }
-
-    async extract(options: any): Promise<any> {
-        const key = `${this.keyPrefix}${options.clientId}`;
-        const data = await this.redisClient.get(key);
-        return data ? JSON.parse(data) : null;
-    }
-
-    async delete(options: any): Promise<void> {
-        const key = `${this.keyPrefix}${options.clientId}`;
-        await this.redisClient.del(key);
-    }
-}
+// WhatsApp accepts a pairing code for about three minutes
+const PAIRING_CODE_TTL = 3 * 60 * 1000;
 
 export interface Device {
     id: string;
     client: Client;
     status: 'initializing' | 'qr' | 'ready' | 'disconnected' | 'error';
     qrCode?: string;
+    pairingCode?: string; // Alternative to scanning qrCode, for the phone number it was requested for
+    pairingCodeExpiresAt?: number;
     phoneNumber?: string;
     clientName?: string;
+    name?: string;
+    labels?: string[];
+    metadata?: Record<string, string>; // Free-form, e.g. team, purpose or webhook profile
+    owner?: string;
     createdAt: number;
     lastSeen: number;
 }
 
+/**
+ * What API clients set on a device, as opposed to what WhatsApp reports
+ */
+export interface DeviceProfile {
+    name?: string;
+    labels?: string[];
+    metadata?: Record<string, string>;
+    owner?: string;
+}
+
+/**
+ * Changes to a device profile: null clears name or owner, and metadata keys set to null are removed
+ */
+export interface DeviceProfileUpdate {
+    name?: string | null;
+    labels?: string[];
+    metadata?: Record<string, string | null>;
+    owner?: string | null;
+}
+
+export interface DeviceFilter {
+    status?: Device['status'];
+    labels?: string[]; // Devices with all of these labels
+    owner?: string;
+}
+
+export type StoredDevice = Omit<Device, 'client' | 'qrCode' | 'pairingCode' | 'pairingCodeExpiresAt'>;
+
+export interface PairingCodeResult {
+    status: 'requested' | 'not_found' | 'not_pairable';
+    pairingCode?: string;
+    expiresAt?: number;
+    error?: string;
+}
+
+/**
+ * Read a device from its Redis hash; labels and metadata are stored as JSON
+ */
+function parseStoredDevice(id: string, deviceData: Record<string, string>): StoredDevice {
+    return {
+        id,
+        status: deviceData.status as Device['status'],
+        createdAt: parseInt(deviceData.createdAt),
+        lastSeen: parseInt(deviceData.lastSeen),
+        phoneNumber: deviceData.phoneNumber || undefined,
+        clientName: deviceData.clientName || undefined,
+        name: deviceData.name || undefined,
+        labels: deviceData.labels ? JSON.parse(deviceData.labels) : undefined,
+        metadata: deviceData.metadata ? JSON.parse(deviceData.metadata) : undefined,
+        owner: deviceData.owner || undefined,
+    };
+}
+
+/**
+ * Redis hash fields for the profile fields that are set
+ */
+function serializeDeviceProfile(device: DeviceProfile): Record<string, string> {
+    const fields: Record<string, string> = {};
+    if (device.name) fields.name = device.name;
+    if (device.labels?.length) fields.labels = JSON.stringify(device.labels);
+    if (device.metadata && Object.keys(device.metadata).length > 0) fields.metadata = JSON.stringify(device.metadata);
+    if (device.owner) fields.owner = device.owner;
+    return fields;
+}
+
+/**
+ * Redis hash fields of profile fields that are unset, to remove from the hash
+ */
+function clearedProfileFields(device: DeviceProfile): string[] {
+    const fields = serializeDeviceProfile(device);
+    return ['name', 'labels', 'metadata', 'owner'].filter(field => !(field in fields));
+}
+
+function applyProfileUpdate(device: DeviceProfile, changes: DeviceProfileUpdate): void {
+    if (changes.name !== undefined) device.name = changes.name || undefined;
+    if (changes.owner !== undefined) device.owner = changes.owner || undefined;
+    if (changes.labels !== undefined) device.labels = [...new Set(changes.labels)];
+
+    if (changes.metadata !== undefined) {
+        const metadata = { ...device.metadata };
+        for (const [key, value] of Object.entries(changes.metadata)) {
+            if (value === null) {
+                delete metadata[key];
+            } else {
+                metadata[key] = value;
+            }
+        }
+        device.metadata = metadata;
+    }
+}
+
+export function matchesDeviceFilter(device: StoredDevice, filter: DeviceFilter): boolean {
+    if (filter.status && device.status !== filter.status) return false;
+    if (filter.owner && device.owner !== filter.owner) return false;
+    if (filter.labels?.length && !filter.labels.every(label => device.labels?.includes(label))) return false;
+    return true;
+}
+
 export class DeviceManager {
     private static instance: DeviceManager;
     private devices: Map<string, Device>;
     private redisClient: Redis | null;
-    private redisStore: RedisStore | null;
+    private sessionStore: SessionStoreService;
+    private cluster: ClusterService;
 
     private constructor() {
         this.devices = new Map();
+        this.sessionStore = SessionStoreService.getInstance();
+        this.cluster = ClusterService.getInstance();
+
+        // Take over devices of nodes that stopped, and stop devices another node took over
+        this.cluster.onHeartbeat(() => this.adoptOrphanedDevices());
+        this.cluster.onDeviceLost(deviceId => this.stopDevice(deviceId));
         
         if (env.REDIS_ENABLED) {
             this.redisClient = getRedisClient();
-            this.redisStore = new RedisStore(this.redisClient);
+
+            AIAgentService.getInstance().onDraftCreated(draft => emitAIDraft({
+                deviceId: draft.deviceId,
+                draftId: draft.id,
+                chatId: draft.chatId,
+                inReplyTo: draft.inReplyTo,
+                text: draft.text,
+                timestamp: draft.createdAt,
+            }));
+
+            TranscriptionService.getInstance().onTranscribed(transcript => WebhookService.getInstance().dispatch('message_transcribed', transcript.deviceId, {
+                messageId: transcript.messageId,
+                chatId: transcript.chatId,
+                text: transcript.text,
+                language: transcript.language,
+                duration: transcript.duration,
+            }));
         } else {
             this.redisClient = null;
-            this.redisStore = null;
             logger.info('DeviceManager initialized without Redis (Redis disabled)');
         }
     }
@@ -120,15 +233,12 @@ export class DeviceManager {
         return DeviceManager.instance;
     }
 
-    public async createDevice(): Promise<Device> {
+    public async createDevice(profile: DeviceProfile = {}): Promise<Device> {
         const deviceId = uuidv4();
+        await this.cluster.acquireDevice(deviceId);
 
         const client = new Client({
-            authStrategy: new LocalAuth({
-                clientId: deviceId,
-                // @ts-ignore
-                store: this.redisStore,
-            }),
+            authStrategy: this.sessionStore.createAuthStrategy(deviceId),
             puppeteer: {
                 headless: true,
                 args: ['--no-sandbox', '--disable-setuid-sandbox'],
@@ -139,6 +249,7 @@ export class DeviceManager {
             id: deviceId,
             client,
             status: 'initializing',
+            ...profile,
             createdAt: Date.now(),
             lastSeen: Date.now(),
         };
@@ -157,6 +268,8 @@ export class DeviceManager {
             device.status = 'error';
             this.updateDeviceInRedis(device);
             emitDeviceState(deviceId, 'error');
+            WebhookService.getInstance().dispatch('device_state', deviceId, { status: 'error', error: err.message });
+            DeviceSupervisorService.getInstance().handleInitFailed(deviceId, err.message);
         });
 
         return device;
@@ -170,6 +283,99 @@ export class DeviceManager {
         return Array.from(this.devices.values());
     }
 
+    /**
+     * A device as last saved to Redis, wherever it runs
+     */
+    public async getStoredDevice(id: string): Promise<StoredDevice | null> {
+        if (!this.redisClient) return null;
+
+        const deviceData = await this.redisClient.hgetall(`${DEVICE_KEY_PREFIX}${id}`);
+        if (!deviceData.id) return null;
+
+        return parseStoredDevice(id, deviceData);
+    }
+
+    /**
+     * Change the name, labels, metadata or owner of a device
+     * @returns The updated device, or null if it doesn't exist
+     */
+    public async updateDevice(id: string, changes: DeviceProfileUpdate): Promise<StoredDevice | null> {
+        const device = this.devices.get(id);
+        if (device) {
+            applyProfileUpdate(device, changes);
+            if (this.redisClient) await this.updateDeviceInRedis(device);
+
+            const { client, qrCode, pairingCode, pairingCodeExpiresAt, ...stored } = device;
+            return stored;
+        }
+
+        // Devices that don't run anywhere are only kept in Redis
+        const stored = await this.getStoredDevice(id);
+        if (!stored) return null;
+
+        applyProfileUpdate(stored, changes);
+        await this.redisClient!.hset(`${DEVICE_KEY_PREFIX}${id}`, serializeDeviceProfile(stored));
+
+        const cleared = clearedProfileFields(stored);
+        if (cleared.length > 0) {
+            await this.redisClient!.hdel(`${DEVICE_KEY_PREFIX}${id}`, ...cleared);
+        }
+        return stored;
+    }
+
+    /**
+     * Ask WhatsApp for a code that links the device when entered on the phone with this number,
+     * instead of scanning the QR code. A new request replaces the previous code.
+     * @param phoneNumber - International format, digits only
+     */
+    public async requestPairingCode(id: string, phoneNumber: string): Promise<PairingCodeResult> {
+        const device = this.devices.get(id);
+        if (!device) return { status: 'not_found' };
+
+        if (device.status !== 'qr') {
+            return { status: 'not_pairable', error: `Device is ${device.status}; pairing codes are only available while it waits for login` };
+        }
+
+        const pairingCode = await device.client.requestPairingCode(phoneNumber);
+        const expiresAt = Date.now() + PAIRING_CODE_TTL;
+        device.pairingCode = pairingCode;
+        device.pairingCodeExpiresAt = expiresAt;
+
+        logInfo(`Pairing code requested for device ${this.getDeviceDisplayId(device)} and ${redactPhoneNumber(phoneNumber)}`);
+        emitPairingCode(id, pairingCode, phoneNumber, expiresAt);
+
+        return { status: 'requested', pairingCode, expiresAt };
+    }
+
+    /**
+     * Stop running a device on this node, leaving its data and session in place for the node that runs it next
+     */
+    public async stopDevice(id: string): Promise<void> {
+        const device = this.devices.get(id);
+        if (!device) return;
+
+        this.devices.delete(id);
+        DeviceSupervisorService.getInstance().forget(id);
+        try {
+            await device.client.destroy();
+        } catch (error) {
+            logError(`Error destroying WhatsApp client for device ${id}:`, error);
+        }
+        logInfo(`Device ${this.getDeviceDisplayId(device)} stopped on this node`);
+    }
+
+    /**
+     * Stop every device on this node and give up their leases, so other nodes take them over
+     */
+    public async releaseAllDevices(): Promise<void> {
+        const deviceIds = Array.from(this.devices.keys());
+        for (const id of deviceIds) {
+            await this.stopDevice(id);
+        }
+        await this.cluster.stop();
+        logInfo(`Released ${deviceIds.length} device(s) to the cluster`);
+    }
+
 
     public async deleteDevice(id: string): Promise<void> {
         const device = this.devices.get(id);
@@ -185,6 +391,7 @@ export class DeviceManager {
             
             // Remove from in-memory devices
             this.devices.delete(id);
+            DeviceSupervisorService.getInstance().forget(id);
             
             // Remove from Redis devices set
             await this.redisClient.srem(DEVICES_SET_KEY, id);
@@ -192,8 +399,9 @@ export class DeviceManager {
             // Remove device data from Redis
             await this.redisClient.del(`${DEVICE_KEY_PREFIX}${id}`);
             
-            // Clean up authentication data
-            await this.redisStore.delete({ clientId: id });
+            // Clean up the session, locally and in the session store
+            await this.sessionStore.deleteSession(id);
+            await this.cluster.releaseDevice(id);
             
             // Clean up related analytics and health data
             await this.cleanupDeviceRelatedData(id);
@@ -208,7 +416,8 @@ export class DeviceManager {
             // Still perform Redis cleanup in case device exists only in Redis
             await this.redisClient.srem(DEVICES_SET_KEY, id);
             await this.redisClient.del(`${DEVICE_KEY_PREFIX}${id}`);
-            await this.redisStore.delete({ clientId: id });
+            await this.sessionStore.deleteSession(id);
+            await this.cluster.releaseDevice(id);
             await this.cleanupDeviceRelatedData(id);
         }
     }
@@ -226,27 +435,16 @@ export class DeviceManager {
         logInfo(`Deleted ${deviceIds.length} devices`);
     }
 
-    public async listDevices(): Promise<Partial<Device>[]> {
+    public async listDevices(filter: DeviceFilter = {}): Promise<StoredDevice[]> {
         const deviceIds = await this.redisClient.smembers(DEVICES_SET_KEY);
-        const devices: Partial<Device>[] = [];
+        const devices: StoredDevice[] = [];
         for (const id of deviceIds) {
             const deviceData = await this.redisClient.hgetall(`${DEVICE_KEY_PREFIX}${id}`);
-            const device: Partial<Device> = {
-                id,
-                status: deviceData.status as Device['status'],
-                createdAt: parseInt(deviceData.createdAt),
-                lastSeen: parseInt(deviceData.lastSeen),
-            };
-            
-            // Include phone number and name if they exist
-            if (deviceData.phoneNumber) {
-                device.phoneNumber = deviceData.phoneNumber;
-            }
-            if (deviceData.clientName) {
-                device.clientName = deviceData.clientName;
+            const device = parseStoredDevice(id, deviceData);
+
+            if (matchesDeviceFilter(device, filter)) {
+                devices.push(device);
             }
-            
-            devices.push(device);
         }
         return devices;
     }
@@ -269,59 +467,140 @@ export class DeviceManager {
         
         for (const deviceId of deviceIds) {
             try {
-                const deviceData = await this.redisClient.hgetall(`${DEVICE_KEY_PREFIX}${deviceId}`);
-                
-                if (!deviceData.id) {
-                    logError(`No device data found for ${deviceId}, skipping`);
+                // In a cluster, devices another node runs are left to it
+                if (!this.cluster.hasCapacity() || !(await this.cluster.acquireDevice(deviceId))) {
+                    logInfo(`Device ${deviceId} is left to another cluster node`);
                     continue;
                 }
 
-                // Create WhatsApp client with existing auth data
-                const client = new Client({
-                    authStrategy: new LocalAuth({
-                        clientId: deviceId,
-                        // @ts-ignore
-                        store: this.redisStore,
-                    }),
-                    puppeteer: {
-                        headless: true,
-                        args: ['--no-sandbox', '--disable-setuid-sandbox'],
-                    },
-                });
+                if (!(await this.restoreDevice(deviceId))) {
+                    await this.cluster.releaseDevice(deviceId);
+                }
+            } catch (err: any) {
+                logError(`Error restoring device ${deviceId}:`, err);
+                await this.cluster.releaseDevice(deviceId);
+            }
+        }
+    }
 
-                const device: Device = {
-                    id: deviceId,
-                    client,
-                    status: 'initializing', // Will update when client connects
-                    createdAt: parseInt(deviceData.createdAt),
-                    lastSeen: parseInt(deviceData.lastSeen),
-                    phoneNumber: deviceData.phoneNumber || undefined,
-                    clientName: deviceData.clientName || undefined,
-                };
-
-                this.devices.set(deviceId, device);
-                this.attachEventListeners(device);
-
-                // Initialize the client
-                client.initialize().catch(err => {
-                    logError(`WhatsApp client initialization failed for device ${this.getDeviceDisplayId(device)}:`, {
-                        deviceId: deviceId,
-                        error: err.message,
-                        errorType: err.name,
-                        stack: err.stack
-                    });
-                    device.status = 'error';
-                    this.updateDeviceInRedis(device);
-                    emitDeviceState(deviceId, 'error');
-                });
+    /**
+     * Start devices whose node stopped without handing them over, once their lease expired
+     */
+    private async adoptOrphanedDevices(): Promise<void> {
+        const deviceIds = await this.redisClient!.smembers(DEVICES_SET_KEY);
 
-        logInfo(`Device restoration initiated for ${this.getDeviceDisplayId(device)}`);
+        for (const deviceId of deviceIds) {
+            if (this.devices.has(deviceId)) continue;
+            if (!this.cluster.hasCapacity()) return;
+            if (!(await this.cluster.acquireDevice(deviceId))) continue;
+
+            logInfo(`Taking over device ${deviceId} from a stopped cluster node`);
+            try {
+                if (!(await this.restoreDevice(deviceId))) {
+                    await this.cluster.releaseDevice(deviceId);
+                }
             } catch (err: any) {
-                logError(`Error restoring device ${deviceId}:`, err);
+                logError(`Error taking over device ${deviceId}:`, err);
+                await this.cluster.releaseDevice(deviceId);
             }
         }
     }
 
+    /**
+     * Start a device saved in Redis on this node
+     * @returns Whether the device was found
+     */
+    private async restoreDevice(deviceId: string): Promise<boolean> {
+        const deviceData = await this.redisClient!.hgetall(`${DEVICE_KEY_PREFIX}${deviceId}`);
+        
+        if (!deviceData.id) {
+            logError(`No device data found for ${deviceId}, skipping`);
+            return false;
+        }
+
+        // Create WhatsApp client with existing auth data
+        const client = new Client({
+            authStrategy: this.sessionStore.createAuthStrategy(deviceId),
+            puppeteer: {
+                headless: true,
+                args: ['--no-sandbox', '--disable-setuid-sandbox'],
+            },
+        });
+
+        const device: Device = {
+            ...parseStoredDevice(deviceId, deviceData),
+            client,
+            status: 'initializing', // Will update when client connects
+        };
+
+        this.devices.set(deviceId, device);
+        this.attachEventListeners(device);
+
+        // Initialize the client
+        client.initialize().catch(err => {
+            logError(`WhatsApp client initialization failed for device ${this.getDeviceDisplayId(device)}:`, {
+                deviceId: deviceId,
+                error: err.message,
+                errorType: err.name,
+                stack: err.stack
+            });
+            device.status = 'error';
+            this.updateDeviceInRedis(device);
+            emitDeviceState(deviceId, 'error');
+            WebhookService.getInstance().dispatch('device_state', deviceId, { status: 'error', error: err.message });
+            DeviceSupervisorService.getInstance().handleInitFailed(deviceId, err.message);
+        });
+
+        logInfo(`Device restoration initiated for ${this.getDeviceDisplayId(device)}`);
+        return true;
+    }
+
+    /**
+     * Replace a device's WhatsApp client with a new one that logs in with the saved session
+     * @returns Whether the device runs on this node
+     */
+    public async restartDevice(id: string): Promise<boolean> {
+        const device = this.devices.get(id);
+        if (!device) return false;
+
+        const previous = device.client;
+        // Events of the old client must not reach the restarted device
+        previous.removeAllListeners();
+        try {
+            // A hung page may never finish closing
+            await Promise.race([previous.destroy(), new Promise(resolve => setTimeout(resolve, 30000))]);
+        } catch (error) {
+            logError(`Error destroying WhatsApp client for device ${id}:`, error);
+        }
+        if (this.devices.get(id) !== device) return false;
+
+        device.client = new Client({
+            authStrategy: this.sessionStore.createAuthStrategy(id),
+            puppeteer: {
+                headless: true,
+                args: ['--no-sandbox', '--disable-setuid-sandbox'],
+            },
+        });
+        device.status = 'initializing';
+        device.qrCode = undefined;
+        device.lastSeen = Date.now();
+        await this.updateDeviceInRedis(device);
+        emitDeviceState(id, 'initializing');
+        this.attachEventListeners(device);
+
+        logInfo(`Restarting WhatsApp client of device ${this.getDeviceDisplayId(device)}`);
+        device.client.initialize().catch(err => {
+            logError(`WhatsApp client restart failed for device ${this.getDeviceDisplayId(device)}:`, err);
+            device.status = 'error';
+            this.updateDeviceInRedis(device);
+            emitDeviceState(id, 'error');
+            WebhookService.getInstance().dispatch('device_state', id, { status: 'error', error: err.message });
+            DeviceSupervisorService.getInstance().handleInitFailed(id, err.message);
+        });
+
+        return true;
+    }
+
     private attachEventListeners(device: Device): void {
         const { client, id } = device;
         
@@ -332,6 +611,17 @@ export class DeviceManager {
         }
         
         const healthService = DeviceHealthService.getInstance();
+        const webhookService = WebhookService.getInstance();
+        const messageStatusService = MessageStatusService.getInstance();
+        const messageStore = MessageStoreService.getInstance();
+
+        // Record a delivery status transition and push it to Socket.IO clients when it is new
+        const trackMessageStatus = async (messageId: string, chatId: string, ack: number) => {
+            const transition = await messageStatusService.recordAck(id, messageId, chatId, ack);
+            if (transition) {
+                emitMessageAck({ deviceId: id, messageId, chatId, ...transition });
+            }
+        };
 
         client.on('qr', async (qr) => {
             logInfo(`QR code generated for device ${this.getDeviceDisplayId(device)}`);
@@ -363,7 +653,13 @@ export class DeviceManager {
                 device.status = 'ready';
                 device.lastSeen = Date.now();
                 await this.updateDeviceInRedis(device);
+                DeviceSupervisorService.getInstance().handleReady(id);
                 emitDeviceReady(id);
+                webhookService.dispatch('device_state', id, {
+                    status: 'ready',
+                    phoneNumber: device.phoneNumber || null,
+                    clientName: device.clientName || null,
+                });
                 
                 // Cache existing messages from recent chats
                 await this.cacheExistingMessages(device);
@@ -381,7 +677,9 @@ export class DeviceManager {
                 device.status = 'ready';
                 device.lastSeen = Date.now();
                 await this.updateDeviceInRedis(device);
+                DeviceSupervisorService.getInstance().handleReady(id);
                 emitDeviceReady(id);
+                webhookService.dispatch('device_state', id, { status: 'ready' });
                 
                 // Cache existing messages even if device info extraction failed
                 await this.cacheExistingMessages(device);
@@ -399,6 +697,8 @@ export class DeviceManager {
         client.on('authenticated', async () => {
             logInfo(`Device authentication successful for ${this.getDeviceDisplayId(device)}`);
             device.lastSeen = Date.now();
+            device.pairingCode = undefined;
+            device.pairingCodeExpiresAt = undefined;
             this.updateDeviceInRedis(device);
             
             // Get phone number and client name if available
@@ -420,12 +720,29 @@ export class DeviceManager {
             });
         });
 
+        // Emitted once, when the first backup of a new session reaches the session store
+        client.on('remote_session_saved', () => {
+            logInfo(`Session of device ${this.getDeviceDisplayId(device)} saved to the ${this.sessionStore.getStoreName()} store, it can now be restored on another host`);
+        });
+
         client.on('message', async (message) => {
             // Log message reception at debug level to reduce noise
             logger.debug(`Message received on device ${this.getDeviceDisplayId(device)} from ${redactPhoneNumber(message.from)} | Length: ${message.body?.length || 0} chars`);
             device.lastSeen = Date.now();
             this.updateDeviceInRedis(device);
             emitMessage(id, message);
+            // In translated chats the translation follows once the AI provider answers
+            TranslationService.getInstance().handleIncomingMessage(id, message)
+                .then(translation => translation && emitMessageTranslated(translation))
+                .catch(error => logError(`Failed to emit translation of message ${message.id._serialized} on device ${this.getDeviceDisplayId(device)}:`, error));
+            webhookService.dispatch('message', id, buildMessageWebhookData(message));
+            await messageStore.saveMessage(id, message);
+            AutoReplyService.getInstance().handleIncomingMessage(id, message);
+            AIAgentService.getInstance().handleIncomingMessage(id, message);
+            TranscriptionService.getInstance().handleIncomingMessage(id, message);
+            if (this.redisClient) {
+                RecipientPolicyService.getInstance().handleIncomingMessage(id, message);
+            }
             
             // Invalidate chat cache when message received
             try {
@@ -465,6 +782,11 @@ export class DeviceManager {
                 logger.debug(`Message sent from device ${this.getDeviceDisplayId(device)} to ${redactPhoneNumber(message.to)} | Length: ${message.body?.length || 0} chars`);
                 device.lastSeen = Date.now();
                 this.updateDeviceInRedis(device);
+                await trackMessageStatus(message.id._serialized, message.to, message.ack);
+                await messageStore.saveMessage(id, message);
+                if (this.redisClient) {
+                    RecipientPolicyService.getInstance().handleOutgoingMessage(id, message);
+                }
                 
                 // Cache outbound message
                 if (shouldCacheMessage(message)) {
@@ -479,12 +801,29 @@ export class DeviceManager {
             }
         });
 
+        client.on('message_ack', async (message, ack) => {
+            await trackMessageStatus(message.id._serialized, message.to, ack);
+            webhookService.dispatch('message_ack', id, {
+                messageId: message.id._serialized,
+                chatId: message.to,
+                ack,
+                status: mapAckStatus(ack),
+            });
+            CampaignService.getInstance().handleMessageAck(message.id._serialized, ack);
+        });
+
         client.on('disconnected', async (reason) => {
             logInfo(`Device disconnection detected for ${this.getDeviceDisplayId(device)} | Reason: ${reason}`);
             device.status = 'disconnected';
             device.lastSeen = Date.now();
             this.updateDeviceInRedis(device);
             emitDeviceDisconnected(id, reason);
+            webhookService.dispatch('device_state', id, { status: 'disconnected', reason });
+
+            // Hand pending pool messages to the other devices of their pool
+            if (this.redisClient) {
+                DevicePoolService.getInstance().handleDeviceDisconnected(id);
+            }
             
             // Log health activity
             await healthService.logActivity(id, {
@@ -493,6 +832,9 @@ export class DeviceManager {
                 success: false,
                 error: reason
             });
+
+            // Restart the client, unless the phone logged the device out
+            DeviceSupervisorService.getInstance().handleDisconnected(id, reason);
         });
 
         client.on('change_state', (state) => {
@@ -500,7 +842,16 @@ export class DeviceManager {
             device.lastSeen = Date.now();
             this.updateDeviceInRedis(device);
             emitDeviceState(id, state);
+            webhookService.dispatch('device_state', id, { status: device.status, state });
         });
+
+        // Group membership and settings changes
+        const groupEvents = ['group_join', 'group_leave', 'group_update', 'group_admin_changed'] as const;
+        for (const groupEvent of groupEvents) {
+            client.on(groupEvent, (notification: GroupNotification) => {
+                webhookService.dispatch('group_update', id, buildGroupWebhookData(groupEvent, notification));
+            });
+        }
     }
 
     /**
@@ -593,8 +944,14 @@ export class DeviceManager {
         if (device.clientName) {
             deviceData.clientName = device.clientName;
         }
+        Object.assign(deviceData, serializeDeviceProfile(device));
         
         await this.redisClient.hset(`${DEVICE_KEY_PREFIX}${device.id}`, deviceData);
+
+        const cleared = clearedProfileFields(device);
+        if (cleared.length > 0) {
+            await this.redisClient!.hdel(`${DEVICE_KEY_PREFIX}${device.id}`, ...cleared);
+        }
     }
 
     /**
@@ -0,0 +1,240 @@
+import crypto from 'crypto';
+import { getRedisClient } from '../config/redis';
+import { logInfo, logError } from '../config/logger';
+import { DeviceManager, Device } from './DeviceManager';
+import { DeviceHealthService } from './DeviceHealthService';
+import { MessageQueueService, QueuedMessage } from './MessageQueueService';
+import { ClusterService } from './ClusterService';
+
+export interface DevicePoolSettings {
+  name: string;
+  deviceIds: string[];
+  sticky: boolean; // Keep sending to a recipient from the device that last did
+}
+
+export interface DevicePool extends DevicePoolSettings {
+  id: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export type DevicePoolInput = Pick<DevicePoolSettings, 'name' | 'deviceIds'> & Partial<DevicePoolSettings>;
+
+export interface PoolDeviceCandidate {
+  deviceId: string;
+  score: number; // DeviceHealthService score, 0-100
+  messagesInLast60s: number;
+}
+
+export interface PoolDeviceStatus extends Partial<PoolDeviceCandidate> {
+  deviceId: string;
+  status: string; // Device status, or 'missing' when the device doesn't exist
+  available: boolean;
+  reason?: string; // Why the device can't take messages
+}
+
+export interface PoolSelection {
+  status: 'selected' | 'not_found' | 'unavailable';
+  deviceId?: string;
+  sticky?: boolean; // The recipient's previous device was kept
+  reason?: string;
+}
+
+export interface DevicePoolServiceConfig {
+  stickyTtl: number; // Seconds
+  messagesPerMinute: number; // Devices at this rate are picked last
+}
+
+const DEFAULT_CONFIG: DevicePoolServiceConfig = {
+  stickyTtl: parseInt(process.env.DEVICE_POOL_STICKY_TTL || '2592000'), // 30 days
+  messagesPerMinute: parseInt(process.env.MESSAGES_PER_MINUTE || '10'), // Same limit as the message queue
+};
+
+/**
+ * Order candidates from best to worst: devices under the per-minute limit first, then by health score,
+ * then by how many messages they sent in the last minute
+ */
+export function rankPoolDevices(candidates: PoolDeviceCandidate[], messagesPerMinute: number): PoolDeviceCandidate[] {
+  return [...candidates].sort((a, b) => {
+    const aLimited = a.messagesInLast60s >= messagesPerMinute ? 1 : 0;
+    const bLimited = b.messagesInLast60s >= messagesPerMinute ? 1 : 0;
+    return aLimited - bLimited || b.score - a.score || a.messagesInLast60s - b.messagesInLast60s;
+  });
+}
+
+/**
+ * Groups of devices for the same business. Sends addressed to a pool go out from its healthiest ready device,
+ * and pending messages move to another member when a device disconnects.
+ */
+export class DevicePoolService {
+  private static instance: DevicePoolService;
+  private redisClient;
+  private config: DevicePoolServiceConfig;
+
+  // Redis keys with specific prefixes to avoid conflicts
+  private readonly POOLS_KEY = 'whatsapp:device_pools';
+  private readonly STICKY_KEY = 'whatsapp:device_pool_sticky';
+
+  private constructor() {
+    this.redisClient = getRedisClient();
+    this.config = { ...DEFAULT_CONFIG };
+  }
+
+  public static getInstance(): DevicePoolService {
+    if (!DevicePoolService.instance) {
+      DevicePoolService.instance = new DevicePoolService();
+    }
+    return DevicePoolService.instance;
+  }
+
+  public async createPool(input: DevicePoolInput): Promise<DevicePool> {
+    const now = Date.now();
+    const pool: DevicePool = {
+      sticky: true,
+      ...input,
+      id: `pool_${crypto.randomBytes(8).toString('hex')}`,
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    await this.redisClient.hset(this.POOLS_KEY, pool.id, JSON.stringify(pool));
+    logInfo(`Device pool ${pool.id} created with ${pool.deviceIds.length} device(s)`);
+
+    return pool;
+  }
+
+  public async getPool(poolId: string): Promise<DevicePool | null> {
+    const data = await this.redisClient.hget(this.POOLS_KEY, poolId);
+    return data ? JSON.parse(data) : null;
+  }
+
+  public async listPools(): Promise<DevicePool[]> {
+    const all = await this.redisClient.hvals(this.POOLS_KEY);
+    return all.map(data => JSON.parse(data) as DevicePool).sort((a, b) => a.createdAt - b.createdAt);
+  }
+
+  public async updatePool(poolId: string, updates: Partial<DevicePoolSettings>): Promise<DevicePool | null> {
+    const pool = await this.getPool(poolId);
+    if (!pool) return null;
+
+    const updated: DevicePool = { ...pool, ...updates, updatedAt: Date.now() };
+    await this.redisClient.hset(this.POOLS_KEY, poolId, JSON.stringify(updated));
+
+    return updated;
+  }
+
+  /**
+   * Delete a pool. Messages already queued stay with the device they were given.
+   */
+  public async deletePool(poolId: string): Promise<boolean> {
+    const removed = await this.redisClient.hdel(this.POOLS_KEY, poolId);
+    if (removed === 0) return false;
+
+    await this.redisClient.del(`${this.STICKY_KEY}:${poolId}`);
+    return true;
+  }
+
+  /**
+   * Whether each member can take messages right now, with the numbers used to pick one
+   */
+  public async getPoolStatus(pool: DevicePool): Promise<PoolDeviceStatus[]> {
+    const deviceManager = DeviceManager.getInstance();
+    const healthService = DeviceHealthService.getInstance();
+    const queueService = MessageQueueService.getInstance();
+    const cluster = ClusterService.getInstance();
+
+    const statuses: PoolDeviceStatus[] = [];
+    for (const deviceId of pool.deviceIds) {
+      let device: Pick<Device, 'status'> | null | undefined = deviceManager.getDevice(deviceId);
+      if (!device && await cluster.isOwnedElsewhere(deviceId)) {
+        // Another node runs this member; its messages are queued here and sent by that node
+        device = await deviceManager.getStoredDevice(deviceId);
+      }
+      if (!device) {
+        statuses.push({ deviceId, status: 'missing', available: false, reason: 'Device not found' });
+        continue;
+      }
+      if (device.status !== 'ready') {
+        statuses.push({ deviceId, status: device.status, available: false, reason: `Device is ${device.status}` });
+        continue;
+      }
+
+      try {
+        const [health, safety, rate] = await Promise.all([
+          healthService.getDeviceHealth(deviceId),
+          healthService.isSafeToSendMessage(deviceId),
+          queueService.getDeviceStatus(deviceId),
+        ]);
+
+        statuses.push({
+          deviceId,
+          status: device.status,
+          available: safety.safe,
+          reason: safety.reason,
+          score: health?.score ?? 0,
+          messagesInLast60s: rate.messagesInLast60s,
+        });
+      } catch (error) {
+        logError(`Failed to check pool device ${deviceId}:`, error);
+        statuses.push({ deviceId, status: device.status, available: false, reason: 'Health check failed' });
+      }
+    }
+
+    return statuses;
+  }
+
+  /**
+   * Pick the device a message to recipient goes out from: the recipient's previous device when the pool is
+   * sticky and that device can still send, otherwise the best ranked available member
+   * @param excludeDeviceId - A member that must not be picked, such as one that just disconnected
+   */
+  public async selectDevice(poolId: string, recipient: string, excludeDeviceId?: string): Promise<PoolSelection> {
+    const pool = await this.getPool(poolId);
+    if (!pool) return { status: 'not_found' };
+
+    const statuses = await this.getPoolStatus(pool);
+    const available = statuses.filter(status => status.available && status.deviceId !== excludeDeviceId);
+
+    if (available.length === 0) {
+      const reasons = statuses.map(status => `${status.deviceId}: ${status.deviceId === excludeDeviceId ? 'excluded' : status.reason}`);
+      return { status: 'unavailable', reason: `No device in the pool can send right now (${reasons.join('; ')})` };
+    }
+
+    if (!pool.sticky) {
+      const [best] = rankPoolDevices(available as PoolDeviceCandidate[], this.config.messagesPerMinute);
+      return { status: 'selected', deviceId: best.deviceId, sticky: false };
+    }
+
+    // Assignments are forgotten once the pool hasn't sent anything for stickyTtl
+    const stickyKey = `${this.STICKY_KEY}:${poolId}`;
+    const previous = await this.redisClient.hget(stickyKey, recipient);
+    const kept = !!previous && available.some(status => status.deviceId === previous);
+    const deviceId = kept ? previous! : rankPoolDevices(available as PoolDeviceCandidate[], this.config.messagesPerMinute)[0].deviceId;
+
+    if (!kept) {
+      await this.redisClient.hset(stickyKey, recipient, deviceId);
+    }
+    await this.redisClient.expire(stickyKey, this.config.stickyTtl);
+
+    return { status: 'selected', deviceId, sticky: kept };
+  }
+
+  /**
+   * Move the pending pool messages of a device that disconnected to other members of their pool. Never throws.
+   * Messages that find no other device stay queued for the disconnected one.
+   */
+  public async handleDeviceDisconnected(deviceId: string): Promise<void> {
+    try {
+      const moved = await MessageQueueService.getInstance().moveDeviceMessages(deviceId, async (message: QueuedMessage) => {
+        const selection = await this.selectDevice(message.poolId!, message.to, deviceId);
+        return selection.deviceId || null;
+      });
+
+      if (moved > 0) {
+        logInfo(`Moved ${moved} queued message(s) from disconnected device ${deviceId} to other pool devices`);
+      }
+    } catch (error) {
+      logError(`Failed to move queued messages of disconnected device ${deviceId}:`, error);
+    }
+  }
+}
@@ -0,0 +1,354 @@
+import { getRedisClient } from '../config/redis';
+import { env } from '../config/env';
+import { logInfo, logWarn, logError } from '../config/logger';
+import { DeviceManager } from './DeviceManager';
+import { DeviceHealthService } from './DeviceHealthService';
+import { WebhookService } from './WebhookService';
+
+export interface ReconnectPolicySettings {
+  enabled: boolean;
+  maxAttempts: number; // Restarts in a row before giving up, 0 for no limit
+  initialDelay: number; // ms before the first restart
+  maxDelay: number; // ms
+  multiplier: number; // Each restart waits this many times longer than the one before
+  hangTimeout: number; // ms a client may stay initializing, or a page stay unresponsive, before it is restarted; 0 to never
+  reconnectOnLogout: boolean; // Restart logged out devices too, so they show a new QR code
+}
+
+export interface ReconnectPolicy extends ReconnectPolicySettings {
+  deviceId: string;
+  custom: boolean; // Whether the device has its own settings, or follows the defaults
+  updatedAt?: number;
+}
+
+export type ReconnectPolicyInput = Partial<ReconnectPolicySettings>;
+
+export type ReconnectTrigger = 'disconnected' | 'init_failed' | 'hung' | 'unresponsive' | 'manual';
+
+/**
+ * Restarts of one device since it was last ready
+ */
+export interface ReconnectState {
+  deviceId: string;
+  attempts: number;
+  trigger?: ReconnectTrigger; // What caused the last restart, or the pending one
+  reason?: string;
+  lastAttemptAt?: number;
+  nextAttemptAt?: number; // Set while a restart is pending
+  gaveUp: boolean; // maxAttempts was reached; only a manual reconnect restarts the device now
+}
+
+export interface DeviceSupervisorConfig {
+  checkInterval: number; // ms between checks for hung clients
+  probeTimeout: number; // ms a ready page has to answer
+}
+
+const DEFAULT_CONFIG: DeviceSupervisorConfig = {
+  checkInterval: parseInt(process.env.RECONNECT_CHECK_INTERVAL || '30000'), // 30 seconds
+  probeTimeout: parseInt(process.env.RECONNECT_PROBE_TIMEOUT || '20000'), // 20 seconds
+};
+
+const DEFAULT_SETTINGS: ReconnectPolicySettings = {
+  enabled: process.env.RECONNECT_ENABLED !== 'false',
+  maxAttempts: parseInt(process.env.RECONNECT_MAX_ATTEMPTS || '10'),
+  initialDelay: parseInt(process.env.RECONNECT_INITIAL_DELAY || '5000'), // 5 seconds
+  maxDelay: parseInt(process.env.RECONNECT_MAX_DELAY || '300000'), // 5 minutes
+  multiplier: parseFloat(process.env.RECONNECT_MULTIPLIER || '2'),
+  hangTimeout: parseInt(process.env.RECONNECT_HANG_TIMEOUT || '300000'), // 5 minutes
+  reconnectOnLogout: process.env.RECONNECT_ON_LOGOUT === 'true',
+};
+
+// Disconnect reasons meaning the phone unlinked the device; other reasons are worth a restart
+const LOGOUT_REASONS = ['LOGOUT', 'UNPAIRED', 'UNPAIRED_IDLE'];
+
+/**
+ * Whether a device was logged out, or lost its connection for a reason a restart may fix
+ */
+export function classifyDisconnectReason(reason: string): 'logout' | 'transient' {
+  return LOGOUT_REASONS.includes(String(reason).toUpperCase()) ? 'logout' : 'transient';
+}
+
+/**
+ * Wait before a restart: exponential in the attempt number, capped at maxDelay, with up to 20% jitter
+ * so devices that dropped together don't all restart at once
+ * @param attempt - 1 for the first restart
+ */
+export function getReconnectDelay(policy: ReconnectPolicySettings, attempt: number, random: () => number = Math.random): number {
+  const delay = Math.min(policy.maxDelay, policy.initialDelay * Math.pow(policy.multiplier, Math.max(0, attempt - 1)));
+  return Math.round(Math.min(policy.maxDelay, delay * (0.8 + 0.4 * random())));
+}
+
+/**
+ * Restarts WhatsApp clients that disconnected, failed to start or hung, with exponential backoff.
+ * State is kept per node: each node supervises the devices it runs.
+ */
+export class DeviceSupervisorService {
+  private static instance: DeviceSupervisorService;
+  private redisClient;
+  private config: DeviceSupervisorConfig;
+  private states = new Map<string, ReconnectState>();
+  private timers = new Map<string, NodeJS.Timeout>();
+  private statusSince = new Map<string, { status: string; since: number }>();
+  private checkInterval?: NodeJS.Timeout;
+
+  // Redis keys with specific prefixes to avoid conflicts
+  private readonly POLICY_KEY = 'whatsapp:reconnect_policy';
+
+  private constructor() {
+    this.redisClient = env.REDIS_ENABLED ? getRedisClient() : null;
+    this.config = { ...DEFAULT_CONFIG };
+  }
+
+  public static getInstance(): DeviceSupervisorService {
+    if (!DeviceSupervisorService.instance) {
+      DeviceSupervisorService.instance = new DeviceSupervisorService();
+    }
+    return DeviceSupervisorService.instance;
+  }
+
+  /**
+   * Start checking for hung clients
+   */
+  public start(): void {
+    if (this.checkInterval) return;
+
+    this.checkInterval = setInterval(() => {
+      this.checkDevices().catch(error => logError('Error checking devices for hung clients:', error));
+    }, this.config.checkInterval);
+
+    // Cleanup on process exit
+    process.on('SIGINT', () => {
+      if (this.checkInterval) {
+        clearInterval(this.checkInterval);
+      }
+      this.timers.forEach(timer => clearTimeout(timer));
+      logInfo('Device supervisor stopped');
+    });
+
+    logInfo('Device supervisor started');
+  }
+
+  /**
+   * The device's own settings over the defaults
+   */
+  public async getPolicy(deviceId: string): Promise<ReconnectPolicy> {
+    const data = this.redisClient ? await this.redisClient.hget(this.POLICY_KEY, deviceId) : null;
+    const custom = data ? JSON.parse(data) : null;
+    return { ...DEFAULT_SETTINGS, ...custom, deviceId, custom: !!custom };
+  }
+
+  /**
+   * Replace the device's own settings; settings left out follow the defaults
+   */
+  public async setPolicy(deviceId: string, input: ReconnectPolicyInput): Promise<ReconnectPolicy> {
+    if (!this.redisClient) throw new Error('Reconnect policies need Redis');
+
+    await this.redisClient.hset(this.POLICY_KEY, deviceId, JSON.stringify({ ...input, updatedAt: Date.now() }));
+    logInfo(`Reconnect policy set for device ${deviceId}`);
+
+    return this.getPolicy(deviceId);
+  }
+
+  /**
+   * Go back to the default settings
+   * @returns Whether the device had its own settings
+   */
+  public async deletePolicy(deviceId: string): Promise<boolean> {
+    if (!this.redisClient) return false;
+    return (await this.redisClient.hdel(this.POLICY_KEY, deviceId)) > 0;
+  }
+
+  public getState(deviceId: string): ReconnectState {
+    return { ...(this.states.get(deviceId) || { deviceId, attempts: 0, gaveUp: false }) };
+  }
+
+  /**
+   * Called when WhatsApp disconnects a device. Logged out devices aren't restarted unless the policy says so.
+   */
+  public async handleDisconnected(deviceId: string, reason: string): Promise<void> {
+    try {
+      if (classifyDisconnectReason(reason) === 'logout' && !(await this.getPolicy(deviceId)).reconnectOnLogout) {
+        logInfo(`Device ${deviceId} was logged out (${reason}), not reconnecting`);
+        this.cancel(deviceId);
+        return;
+      }
+      await this.schedule(deviceId, 'disconnected', reason);
+    } catch (error) {
+      logError(`Failed to schedule reconnection of device ${deviceId}:`, error);
+    }
+  }
+
+  /**
+   * Called when `client.initialize()` rejects
+   */
+  public async handleInitFailed(deviceId: string, error: string): Promise<void> {
+    try {
+      await this.schedule(deviceId, 'init_failed', error);
+    } catch (err) {
+      logError(`Failed to schedule reconnection of device ${deviceId}:`, err);
+    }
+  }
+
+  /**
+   * Called when a device is ready; the next disconnection starts the backoff over
+   */
+  public handleReady(deviceId: string): void {
+    const state = this.states.get(deviceId);
+    if (state && state.attempts > 0) {
+      logInfo(`Device ${deviceId} reconnected after ${state.attempts} attempt(s)`);
+    }
+    this.cancel(deviceId);
+  }
+
+  /**
+   * Restart a device now, also after the supervisor gave up on it
+   * @returns Whether the device runs on this node
+   */
+  public async reconnectNow(deviceId: string): Promise<boolean> {
+    if (!DeviceManager.getInstance().getDevice(deviceId)) return false;
+
+    this.cancel(deviceId);
+    await this.attempt(deviceId, 'manual', 'Requested through the API');
+    return true;
+  }
+
+  /**
+   * Forget a device that was deleted or stopped on this node
+   */
+  public forget(deviceId: string): void {
+    this.cancel(deviceId);
+    this.statusSince.delete(deviceId);
+  }
+
+  private async schedule(deviceId: string, trigger: ReconnectTrigger, reason: string): Promise<void> {
+    if (this.timers.has(deviceId)) return;
+
+    const policy = await this.getPolicy(deviceId);
+    if (!policy.enabled) return;
+
+    const state = this.getState(deviceId);
+    if (state.gaveUp) return;
+
+    if (policy.maxAttempts > 0 && state.attempts >= policy.maxAttempts) {
+      this.states.set(deviceId, { ...state, trigger, reason, nextAttemptAt: undefined, gaveUp: true });
+      logWarn(`Giving up on reconnecting device ${deviceId} after ${state.attempts} attempt(s): ${reason}`);
+      await this.logAttempt(deviceId, 'reconnect_gave_up', false, state.attempts, `${trigger}: ${reason}`);
+      WebhookService.getInstance().dispatch('device_state', deviceId, {
+        status: DeviceManager.getInstance().getDevice(deviceId)?.status ?? 'error',
+        reconnect: 'gave_up',
+        attempts: state.attempts,
+        reason,
+      });
+      return;
+    }
+
+    // A hung client has waited long enough already
+    const delay = trigger === 'hung' || trigger === 'unresponsive' ? 0 : getReconnectDelay(policy, state.attempts + 1);
+    this.states.set(deviceId, { ...state, trigger, reason, nextAttemptAt: Date.now() + delay });
+    logInfo(`Reconnecting device ${deviceId} in ${Math.round(delay / 1000)}s (attempt ${state.attempts + 1}, ${trigger}: ${reason})`);
+
+    this.timers.set(deviceId, setTimeout(() => {
+      this.timers.delete(deviceId);
+      this.attempt(deviceId, trigger, reason).catch(error => logError(`Reconnection of device ${deviceId} failed:`, error));
+    }, delay));
+  }
+
+  private async attempt(deviceId: string, trigger: ReconnectTrigger, reason: string): Promise<void> {
+    const previous = this.getState(deviceId);
+    const state: ReconnectState = {
+      deviceId,
+      attempts: trigger === 'manual' ? 1 : previous.attempts + 1,
+      trigger,
+      reason,
+      lastAttemptAt: Date.now(),
+      gaveUp: false,
+    };
+    this.states.set(deviceId, state);
+    this.statusSince.delete(deviceId);
+
+    try {
+      const restarted = await DeviceManager.getInstance().restartDevice(deviceId);
+      if (!restarted) {
+        this.forget(deviceId);
+        return;
+      }
+      await this.logAttempt(deviceId, 'reconnect_attempt', true, state.attempts, `${trigger}: ${reason}`);
+    } catch (error: any) {
+      logError(`Failed to restart device ${deviceId}:`, error);
+      await this.logAttempt(deviceId, 'reconnect_attempt', false, state.attempts, `${trigger}: ${reason}`, error.message);
+      await this.schedule(deviceId, 'init_failed', error.message);
+    }
+  }
+
+  /**
+   * Restart clients stuck initializing for longer than hangTimeout, and ready clients whose page stopped answering
+   */
+  private async checkDevices(): Promise<void> {
+    const now = Date.now();
+
+    await Promise.all(DeviceManager.getInstance().getAllDevices().map(async device => {
+      const seen = this.statusSince.get(device.id);
+      if (!seen || seen.status !== device.status) {
+        this.statusSince.set(device.id, { status: device.status, since: now });
+        return;
+      }
+      if (this.timers.has(device.id)) return;
+
+      const policy = await this.getPolicy(device.id);
+      if (!policy.enabled || policy.hangTimeout <= 0) return;
+
+      if (device.status === 'initializing' && now - seen.since > policy.hangTimeout) {
+        await this.schedule(device.id, 'hung', `Client still initializing after ${Math.round((now - seen.since) / 1000)}s`);
+      } else if (device.status === 'ready' && now - seen.since > policy.hangTimeout && !(await this.probe(device.client))) {
+        await this.schedule(device.id, 'unresponsive', `Page didn't answer within ${this.config.probeTimeout / 1000}s`);
+      }
+    }));
+  }
+
+  /**
+   * Whether the page of a ready client still answers
+   */
+  private async probe(client: { getState(): Promise<unknown> }): Promise<boolean> {
+    let timer: NodeJS.Timeout | undefined;
+    const timeout = new Promise<boolean>(resolve => {
+      timer = setTimeout(() => resolve(false), this.config.probeTimeout);
+    });
+
+    try {
+      return await Promise.race([client.getState().then(() => true, () => false), timeout]);
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  private cancel(deviceId: string): void {
+    const timer = this.timers.get(deviceId);
+    if (timer) {
+      clearTimeout(timer);
+      this.timers.delete(deviceId);
+    }
+    this.states.delete(deviceId);
+  }
+
+  private async logAttempt(
+    deviceId: string,
+    action: 'reconnect_attempt' | 'reconnect_gave_up',
+    success: boolean,
+    attempt: number,
+    reason: string,
+    error?: string
+  ): Promise<void> {
+    try {
+      await DeviceHealthService.getInstance().logActivity(deviceId, {
+        timestamp: Date.now(),
+        action,
+        success,
+        error,
+        attempt,
+        reason,
+      });
+    } catch (err) {
+      logError(`Failed to record reconnection of device ${deviceId}:`, err);
+    }
+  }
+}
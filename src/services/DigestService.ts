@@ -0,0 +1,465 @@
+import crypto from 'crypto';
+import { getRedisClient } from '../config/redis';
+import logger, { logInfo, logError, logWarn } from '../config/logger';
+import { getNextCronOccurrence } from '../utils/cron';
+import { formatMessagesForAI } from '../utils/chatAnalysis';
+import { AIService, AIMessage } from './AIService';
+import { DeviceManager } from './DeviceManager';
+import { MessageQueueService } from './MessageQueueService';
+import { ClusterService } from './ClusterService';
+import { TranscriptionService } from './TranscriptionService';
+import { postSignedWebhook } from './WebhookService';
+
+export interface DigestScheduleSettings {
+  name: string;
+  chatIds: string[];
+  cron: string; // When to run, in the server's time zone
+  periodHours: number; // How far back each digest looks
+  messageLimit: number; // Most recent messages fetched per chat
+  prompt?: string; // Extra instructions for the summary
+  includeMetadata: boolean;
+  provider?: string;
+  model?: string;
+  targetChatId?: string; // Send the digest to this chat
+  webhookUrl?: string; // POST the digest to this URL
+  webhookSecret?: string;
+  skipEmpty: boolean; // Don't deliver digests of periods without messages
+  enabled: boolean;
+}
+
+export interface DigestSchedule extends DigestScheduleSettings {
+  id: string;
+  deviceId: string;
+  nextRunAt?: number;
+  lastRunAt?: number;
+  lastDigestId?: string;
+  lastError?: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export type DigestScheduleInput = Pick<DigestScheduleSettings, 'name' | 'chatIds'> & Partial<DigestScheduleSettings>;
+
+export interface DigestChatSection {
+  chatId: string;
+  name: string;
+  messageCount: number;
+  summary?: string;
+  error?: string;
+}
+
+export interface DigestDelivery {
+  queueId?: string; // Set when the digest was queued to the target chat
+  webhookStatus?: number;
+  errors?: string[];
+}
+
+export interface Digest {
+  id: string;
+  deviceId: string;
+  scheduleId: string;
+  name: string;
+  periodStart: number;
+  periodEnd: number;
+  chats: DigestChatSection[];
+  text: string;
+  delivery: DigestDelivery;
+  createdAt: number;
+}
+
+export interface DigestScheduleUpdateResult {
+  status: 'updated' | 'not_found';
+  schedule?: DigestSchedule;
+}
+
+export interface DigestRunResult {
+  status: 'created' | 'not_found' | 'device_not_ready';
+  digest?: Digest;
+  error?: string;
+}
+
+export interface DigestServiceConfig {
+  maxStored: number;
+  webhookTimeout: number;
+}
+
+const DEFAULT_CONFIG: DigestServiceConfig = {
+  maxStored: parseInt(process.env.DIGEST_MAX_STORED || '100'), // Per device
+  webhookTimeout: parseInt(process.env.DIGEST_WEBHOOK_TIMEOUT || '10000'), // 10 seconds
+};
+
+const DEFAULT_SETTINGS: Omit<DigestScheduleSettings, 'name' | 'chatIds'> = {
+  cron: '0 8 * * *',
+  periodHours: 24,
+  messageLimit: 300,
+  includeMetadata: false,
+  skipEmpty: true,
+  enabled: true,
+};
+
+const DIGEST_PROMPT = `You write short digests of WhatsApp chats for busy people who did not read them.
+Summarize the conversation in plain text, without JSON or markdown headings:
+- the main topics, in a few bullet points starting with "•"
+- decisions that were made and open questions
+- anything that needs the reader's attention, such as questions addressed to them or deadlines
+Write in the language of the conversation. Leave out greetings and small talk.`;
+
+/**
+ * Build the completion request for one chat's part of a digest
+ */
+export function buildDigestMessages(
+  chatName: string,
+  messages: any[],
+  settings: Pick<DigestScheduleSettings, 'prompt' | 'includeMetadata'>
+): AIMessage[] {
+  return [
+    {
+      role: 'system',
+      content: settings.prompt ? `${DIGEST_PROMPT}\n\n${settings.prompt}` : DIGEST_PROMPT,
+    },
+    {
+      role: 'user',
+      content: `Summarize these messages from "${chatName}":\n\n${formatMessagesForAI(messages, settings.includeMetadata)}`,
+    },
+  ];
+}
+
+/**
+ * Put the chat summaries together into the message that is delivered
+ */
+export function composeDigestText(name: string, sections: DigestChatSection[], periodHours: number): string {
+  const parts = sections.map(section => {
+    if (section.error) return `*${section.name}*\nCould not be summarized: ${section.error}`;
+    if (section.messageCount === 0) return `*${section.name}*\nNo new messages.`;
+    return `*${section.name}* (${section.messageCount} message${section.messageCount === 1 ? '' : 's'})\n${section.summary}`;
+  });
+
+  return [`*${name}* - last ${periodHours} hour${periodHours === 1 ? '' : 's'}`, ...parts].join('\n\n');
+}
+
+/**
+ * Scheduled AI summaries of a set of chats, delivered to a chat or webhook and kept for the API
+ */
+export class DigestService {
+  private static instance: DigestService;
+  private redisClient;
+  private config: DigestServiceConfig;
+  private isProcessing = false;
+
+  // Redis keys with specific prefixes to avoid conflicts
+  private readonly SCHEDULES_KEY = 'whatsapp:digest_schedules';
+  private readonly DIGESTS_KEY = 'whatsapp:digests';
+  private readonly LOCK_KEY = 'whatsapp:digest_lock';
+
+  private constructor() {
+    this.redisClient = getRedisClient();
+    this.config = { ...DEFAULT_CONFIG };
+    this.startProcessing();
+  }
+
+  public static getInstance(): DigestService {
+    if (!DigestService.instance) {
+      DigestService.instance = new DigestService();
+    }
+    return DigestService.instance;
+  }
+
+  public async createSchedule(deviceId: string, input: DigestScheduleInput): Promise<DigestSchedule> {
+    const settings: DigestScheduleSettings = { ...DEFAULT_SETTINGS, ...input };
+    const nextRunAt = getNextCronOccurrence(settings.cron);
+    if (!nextRunAt) {
+      throw new Error(`Schedule "${settings.cron}" never matches a future time`);
+    }
+
+    const now = Date.now();
+    const schedule: DigestSchedule = {
+      ...settings,
+      id: `schedule_${crypto.randomBytes(8).toString('hex')}`,
+      deviceId,
+      nextRunAt: settings.enabled ? nextRunAt : undefined,
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    await this.saveSchedule(schedule);
+    logInfo(`Digest schedule ${schedule.id} created for device ${deviceId}, next run at ${new Date(nextRunAt).toISOString()}`);
+
+    return schedule;
+  }
+
+  public async getSchedule(deviceId: string, scheduleId: string): Promise<DigestSchedule | null> {
+    const data = await this.redisClient.hget(this.SCHEDULES_KEY, scheduleId);
+    if (!data) return null;
+
+    const schedule: DigestSchedule = JSON.parse(data);
+    return schedule.deviceId === deviceId ? schedule : null;
+  }
+
+  public async listSchedules(deviceId: string): Promise<DigestSchedule[]> {
+    const all = await this.redisClient.hvals(this.SCHEDULES_KEY);
+
+    return all
+      .map(data => JSON.parse(data) as DigestSchedule)
+      .filter(schedule => schedule.deviceId === deviceId)
+      .sort((a, b) => a.createdAt - b.createdAt);
+  }
+
+  public async updateSchedule(
+    deviceId: string,
+    scheduleId: string,
+    updates: Partial<DigestScheduleSettings>
+  ): Promise<DigestScheduleUpdateResult> {
+    const schedule = await this.getSchedule(deviceId, scheduleId);
+    if (!schedule) return { status: 'not_found' };
+
+    const updated: DigestSchedule = { ...schedule, ...updates, updatedAt: Date.now() };
+
+    if (updates.cron !== undefined || updates.enabled !== undefined) {
+      const nextRunAt = getNextCronOccurrence(updated.cron);
+      if (!nextRunAt) {
+        throw new Error(`Schedule "${updated.cron}" never matches a future time`);
+      }
+      updated.nextRunAt = updated.enabled ? nextRunAt : undefined;
+    }
+
+    await this.saveSchedule(updated);
+    return { status: 'updated', schedule: updated };
+  }
+
+  /**
+   * Delete a schedule. Digests it already made are kept.
+   */
+  public async deleteSchedule(deviceId: string, scheduleId: string): Promise<boolean> {
+    const schedule = await this.getSchedule(deviceId, scheduleId);
+    if (!schedule) return false;
+
+    await this.redisClient.hdel(this.SCHEDULES_KEY, scheduleId);
+    return true;
+  }
+
+  /**
+   * Stored digests of a device, newest first
+   */
+  public async listDigests(deviceId: string, options: { scheduleId?: string; limit?: number } = {}): Promise<Digest[]> {
+    const all = await this.redisClient.lrange(`${this.DIGESTS_KEY}:${deviceId}`, 0, -1);
+
+    return all
+      .map(data => JSON.parse(data) as Digest)
+      .filter(digest => !options.scheduleId || digest.scheduleId === options.scheduleId)
+      .slice(0, options.limit || all.length);
+  }
+
+  public async getDigest(deviceId: string, digestId: string): Promise<Digest | null> {
+    const digests = await this.listDigests(deviceId);
+    return digests.find(digest => digest.id === digestId) || null;
+  }
+
+  /**
+   * Make and deliver a digest now, outside of the schedule
+   */
+  public async runSchedule(deviceId: string, scheduleId: string): Promise<DigestRunResult> {
+    const schedule = await this.getSchedule(deviceId, scheduleId);
+    if (!schedule) return { status: 'not_found' };
+
+    const device = DeviceManager.getInstance().getDevice(deviceId);
+    if (!device || device.status !== 'ready') {
+      return { status: 'device_not_ready', error: device ? `Device is not ready. Current status: ${device.status}` : 'Device not found' };
+    }
+
+    return { status: 'created', digest: await this.runAndRecord(schedule) };
+  }
+
+  private async runAndRecord(schedule: DigestSchedule): Promise<Digest> {
+    try {
+      const digest = await this.makeDigest(schedule);
+      await this.patchSchedule(schedule.id, { lastRunAt: digest.createdAt, lastDigestId: digest.id, lastError: undefined });
+      return digest;
+    } catch (error: any) {
+      await this.patchSchedule(schedule.id, { lastRunAt: Date.now(), lastError: error.message });
+      throw error;
+    }
+  }
+
+  private async makeDigest(schedule: DigestSchedule): Promise<Digest> {
+    const device = DeviceManager.getInstance().getDevice(schedule.deviceId);
+    if (!device || device.status !== 'ready') {
+      throw new Error(device ? `Device is not ready. Current status: ${device.status}` : 'Device not found');
+    }
+
+    const periodEnd = Date.now();
+    const periodStart = periodEnd - schedule.periodHours * 60 * 60 * 1000;
+    const chats: DigestChatSection[] = [];
+
+    // One completion per chat keeps each prompt small and lets one failing chat not spoil the rest
+    for (const chatId of schedule.chatIds) {
+      let name = chatId;
+      try {
+        const chat = await device.client.getChatById(chatId);
+        name = chat.name || chatId;
+
+        const recent = (await chat.fetchMessages({ limit: schedule.messageLimit }))
+          .filter(message => message.timestamp * 1000 >= periodStart);
+        const messages = (await TranscriptionService.getInstance().addTranscripts(schedule.deviceId, recent))
+          .filter(message => message.body || (message as any).transcript);
+        if (messages.length === 0) {
+          chats.push({ chatId, name, messageCount: 0 });
+          continue;
+        }
+
+        const response = await AIService.getInstance().generateCompletion({
+          messages: buildDigestMessages(name, messages, schedule),
+          provider: schedule.provider,
+          model: schedule.model,
+          temperature: 0.2,
+          context: { deviceId: schedule.deviceId },
+        });
+        chats.push({ chatId, name, messageCount: messages.length, summary: response.choices[0]?.message?.content?.trim() || '' });
+      } catch (error: any) {
+        logError(`Digest ${schedule.id} could not summarize a chat on device ${schedule.deviceId}:`, error);
+        chats.push({ chatId, name, messageCount: 0, error: error.message });
+      }
+    }
+
+    const digest: Digest = {
+      id: `digest_${crypto.randomBytes(8).toString('hex')}`,
+      deviceId: schedule.deviceId,
+      scheduleId: schedule.id,
+      name: schedule.name,
+      periodStart,
+      periodEnd,
+      chats,
+      text: composeDigestText(schedule.name, chats, schedule.periodHours),
+      delivery: {},
+      createdAt: Date.now(),
+    };
+
+    const isEmpty = chats.every(chat => chat.messageCount === 0 && !chat.error);
+    if (!isEmpty || !schedule.skipEmpty) {
+      digest.delivery = await this.deliver(schedule, digest);
+    }
+
+    const key = `${this.DIGESTS_KEY}:${schedule.deviceId}`;
+    await this.redisClient.lpush(key, JSON.stringify(digest));
+    await this.redisClient.ltrim(key, 0, this.config.maxStored - 1);
+
+    logInfo(`Digest ${digest.id} made for schedule ${schedule.id} on device ${schedule.deviceId}`);
+    return digest;
+  }
+
+  private async deliver(schedule: DigestSchedule, digest: Digest): Promise<DigestDelivery> {
+    const delivery: DigestDelivery = {};
+    const errors: string[] = [];
+
+    if (schedule.targetChatId) {
+      try {
+        delivery.queueId = await MessageQueueService.getInstance().queueMessage({
+          deviceId: schedule.deviceId,
+          to: schedule.targetChatId,
+          type: 'text',
+          content: digest.text,
+          options: {},
+          priority: 'normal',
+          maxAttempts: 3,
+        });
+      } catch (error: any) {
+        errors.push(`Chat: ${error.message}`);
+      }
+    }
+
+    if (schedule.webhookUrl) {
+      try {
+        delivery.webhookStatus = await this.callWebhook(schedule, digest);
+        if (delivery.webhookStatus < 200 || delivery.webhookStatus >= 300) {
+          errors.push(`Webhook returned ${delivery.webhookStatus}`);
+        }
+      } catch (error: any) {
+        errors.push(`Webhook: ${error.message}`);
+      }
+    }
+
+    if (errors.length > 0) {
+      logWarn(`Digest ${digest.id} was not fully delivered: ${errors.join('; ')}`);
+      delivery.errors = errors;
+    }
+    return delivery;
+  }
+
+  /**
+   * Single delivery attempt. Digests are stored either way and can be fetched from the API.
+   */
+  private async callWebhook(schedule: DigestSchedule, digest: Digest): Promise<number> {
+    return postSignedWebhook(schedule.webhookUrl!, {
+      event: 'digest',
+      deviceId: schedule.deviceId,
+      scheduleId: schedule.id,
+      timestamp: Date.now(),
+      data: { ...digest, delivery: undefined },
+    }, { secret: schedule.webhookSecret, timeout: this.config.webhookTimeout });
+  }
+
+  private async saveSchedule(schedule: DigestSchedule): Promise<void> {
+    await this.redisClient.hset(this.SCHEDULES_KEY, schedule.id, JSON.stringify(schedule));
+  }
+
+  /**
+   * Change some fields of a schedule without overwriting concurrent edits to the others
+   */
+  private async patchSchedule(scheduleId: string, fields: Partial<DigestSchedule>): Promise<void> {
+    const data = await this.redisClient.hget(this.SCHEDULES_KEY, scheduleId);
+    if (!data) return; // Deleted meanwhile
+
+    await this.saveSchedule({ ...JSON.parse(data), ...fields });
+  }
+
+  /**
+   * Start running due digest schedules
+   */
+  private startProcessing(): void {
+    if (this.isProcessing) return;
+
+    this.isProcessing = true;
+    logInfo('Digest scheduler started');
+
+    // Schedules have minute resolution
+    const processInterval = setInterval(async () => {
+      try {
+        await this.processSchedules();
+      } catch (error) {
+        logError('Error running digest schedules:', error);
+      }
+    }, 30000);
+
+    // Cleanup on process exit
+    process.on('SIGINT', () => {
+      clearInterval(processInterval);
+      this.isProcessing = false;
+      logInfo('Digest scheduler stopped');
+    });
+  }
+
+  private async processSchedules(): Promise<void> {
+    const now = Date.now();
+    const due = (await this.redisClient.hvals(this.SCHEDULES_KEY))
+      .map(data => JSON.parse(data) as DigestSchedule)
+      .filter(schedule => schedule.enabled && schedule.nextRunAt && schedule.nextRunAt <= now);
+
+    for (const schedule of due) {
+      // The node running the device makes its digests
+      if (!DeviceManager.getInstance().getDevice(schedule.deviceId)
+        && await ClusterService.getInstance().isOwnedElsewhere(schedule.deviceId)) continue;
+
+      // Only one instance runs each occurrence
+      const lock = await this.redisClient.set(`${this.LOCK_KEY}:${schedule.id}:${schedule.nextRunAt}`, '1', 'EX', 3600, 'NX');
+      if (!lock) continue;
+
+      // Move on to the next occurrence first, so a failing digest isn't retried every cycle
+      await this.patchSchedule(schedule.id, { nextRunAt: getNextCronOccurrence(schedule.cron) ?? undefined });
+
+      try {
+        await this.runAndRecord(schedule);
+      } catch (error) {
+        logger.error(`Digest schedule ${schedule.id} failed on device ${schedule.deviceId}:`, error);
+      }
+    }
+  }
+}
@@ -0,0 +1,239 @@
+import { logInfo, logWarn } from '../config/logger';
+import { formatMessagesForAI } from '../utils/chatAnalysis';
+import { JsonSchema, validateJsonSchema } from '../utils/jsonSchema';
+import { AIService, AIMessage, AIResponse } from './AIService';
+import { AIUsageContext } from './AIUsageService';
+
+export interface ExtractionOptions {
+  schema: JsonSchema;
+  instructions?: string; // What to extract, in addition to the schema
+  includeMetadata: boolean;
+  chunked: boolean; // Split conversations that don't fit in one request
+  provider?: string;
+  model?: string;
+  context?: AIUsageContext;
+}
+
+export interface ExtractionChunk {
+  periodStart?: number;
+  periodEnd?: number;
+  messageCount: number;
+  data: any;
+}
+
+export interface ExtractionResult {
+  status: 'extracted' | 'invalid' | 'too_long';
+  data?: any;
+  errors?: string[]; // Why the last answer was rejected
+  answer?: string; // The last answer, when it was rejected
+  attempts: number;
+  messageCount: number;
+  chunks?: ExtractionChunk[]; // Per-chunk results, when the conversation was split
+  chunkCount?: number;
+  provider?: string;
+  model?: string;
+  usage: NonNullable<AIResponse['usage']>;
+}
+
+export interface ExtractionServiceConfig {
+  maxAttempts: number;
+  chunkChars: number;
+  maxChunks: number;
+}
+
+const DEFAULT_CONFIG: ExtractionServiceConfig = {
+  maxAttempts: parseInt(process.env.AI_EXTRACTION_MAX_ATTEMPTS || '3'), // Per request, including retries
+  chunkChars: parseInt(process.env.AI_EXTRACTION_CHUNK_CHARS || '24000'), // About 6000 tokens
+  maxChunks: parseInt(process.env.AI_EXTRACTION_MAX_CHUNKS || '20'),
+};
+
+const EXTRACTION_PROMPT = `You extract structured data from WhatsApp conversations.
+Answer with a single JSON value that matches the JSON Schema below, and nothing else: no markdown, no code fences, no comments.
+Only use information found in the conversation. Leave out optional fields you can't fill, and use empty arrays when nothing matches.`;
+
+/**
+ * Build the completion request for extracting data from one part of a conversation
+ */
+export function buildExtractionMessages(schema: JsonSchema, conversation: string, instructions?: string): AIMessage[] {
+  return [
+    {
+      role: 'system',
+      content: `${EXTRACTION_PROMPT}${instructions ? `\n\n${instructions}` : ''}\n\nJSON Schema:\n${JSON.stringify(schema)}`,
+    },
+    {
+      role: 'user',
+      content: `Extract the data from this conversation:\n\n${conversation || '(no messages)'}`,
+    },
+  ];
+}
+
+/**
+ * Build the completion request for combining the results of a conversation's chunks
+ */
+export function buildMergeMessages(schema: JsonSchema, partials: any[], instructions?: string): AIMessage[] {
+  return [
+    {
+      role: 'system',
+      content: `${EXTRACTION_PROMPT}${instructions ? `\n\n${instructions}` : ''}\n\nJSON Schema:\n${JSON.stringify(schema)}`,
+    },
+    {
+      role: 'user',
+      content: `A long conversation was split into consecutive parts, oldest first, and the data was extracted from each part.
+Combine these results into one value for the whole conversation. Keep every distinct item, merge duplicates, and let later parts win when they contradict earlier ones:
+
+${partials.map((partial, i) => `Part ${i + 1}:\n${JSON.stringify(partial)}`).join('\n\n')}`,
+    },
+  ];
+}
+
+/**
+ * Parse a model's answer as JSON, tolerating code fences and text around the value
+ */
+export function parseJsonAnswer(answer: string): { value?: any; error?: string } {
+  const text = answer.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '');
+
+  try {
+    return { value: JSON.parse(text) };
+  } catch {
+    // Fall back to the outermost object or array
+    const start = text.search(/[[{]/);
+    const end = Math.max(text.lastIndexOf('}'), text.lastIndexOf(']'));
+    if (start !== -1 && end > start) {
+      try {
+        return { value: JSON.parse(text.slice(start, end + 1)) };
+      } catch {
+        // Reported below
+      }
+    }
+    return { error: 'The answer is not valid JSON' };
+  }
+}
+
+/**
+ * Split messages, oldest first, into consecutive chunks whose formatted text fits in maxChars.
+ * A message longer than maxChars gets a chunk of its own.
+ */
+export function chunkMessages(messages: any[], includeMetadata: boolean, maxChars: number): any[][] {
+  const chunks: any[][] = [];
+  let current: any[] = [];
+  let size = 0;
+
+  for (const message of messages) {
+    const length = formatMessagesForAI([message], includeMetadata).length + 1;
+    if (current.length > 0 && size + length > maxChars) {
+      chunks.push(current);
+      current = [];
+      size = 0;
+    }
+    current.push(message);
+    size += length;
+  }
+
+  if (current.length > 0) chunks.push(current);
+  return chunks;
+}
+
+const emptyUsage = (): ExtractionResult['usage'] => ({ prompt_tokens: 0, completion_tokens: 0, total_tokens: 0 });
+
+/**
+ * Schema-validated data extraction from chat messages, split into chunks for long conversations
+ */
+export class ExtractionService {
+  private static instance: ExtractionService;
+  private config: ExtractionServiceConfig;
+
+  private constructor() {
+    this.config = { ...DEFAULT_CONFIG };
+  }
+
+  public static getInstance(): ExtractionService {
+    if (!ExtractionService.instance) {
+      ExtractionService.instance = new ExtractionService();
+    }
+    return ExtractionService.instance;
+  }
+
+  /**
+   * Extract data matching options.schema from messages, oldest first
+   */
+  public async extract(messages: any[], options: ExtractionOptions): Promise<ExtractionResult> {
+    const chunks = chunkMessages(messages, options.includeMetadata, this.config.chunkChars);
+    const result: ExtractionResult = { status: 'extracted', attempts: 0, messageCount: messages.length, usage: emptyUsage() };
+
+    if (chunks.length > 1 && (!options.chunked || chunks.length > this.config.maxChunks)) {
+      return { ...result, status: 'too_long', chunkCount: chunks.length };
+    }
+
+    if (chunks.length <= 1) {
+      const conversation = formatMessagesForAI(chunks[0] || [], options.includeMetadata);
+      return this.completeJson(buildExtractionMessages(options.schema, conversation, options.instructions), options, result);
+    }
+
+    result.chunks = [];
+    for (const [i, chunk] of chunks.entries()) {
+      const conversation = formatMessagesForAI(chunk, options.includeMetadata);
+      await this.completeJson(buildExtractionMessages(options.schema, conversation, options.instructions), options, result);
+
+      if (result.status === 'invalid') {
+        logWarn(`Structured extraction gave up on chunk ${i + 1} of ${chunks.length}`);
+        return { ...result, errors: result.errors!.map(error => `Chunk ${i + 1}: ${error}`) };
+      }
+      result.chunks.push({
+        periodStart: chunk[0].timestamp ? chunk[0].timestamp * 1000 : undefined,
+        periodEnd: chunk[chunk.length - 1].timestamp ? chunk[chunk.length - 1].timestamp * 1000 : undefined,
+        messageCount: chunk.length,
+        data: result.data,
+      });
+    }
+
+    logInfo(`Merging structured extraction of ${chunks.length} chunks (${messages.length} messages)`);
+    return this.completeJson(buildMergeMessages(options.schema, result.chunks.map(chunk => chunk.data), options.instructions), options, result);
+  }
+
+  /**
+   * Ask for JSON until the answer matches the schema, showing the model what was wrong after each failed attempt.
+   * Updates and returns result.
+   */
+  private async completeJson(messages: AIMessage[], options: ExtractionOptions, result: ExtractionResult): Promise<ExtractionResult> {
+    let conversation = messages;
+
+    for (let attempt = 1; attempt <= this.config.maxAttempts; attempt++) {
+      const response = await AIService.getInstance().generateCompletion({
+        messages: conversation,
+        provider: options.provider,
+        model: options.model,
+        temperature: 0,
+        context: options.context,
+      });
+
+      result.attempts++;
+      result.provider = response.provider;
+      result.model = response.model;
+      if (response.usage) {
+        result.usage.prompt_tokens += response.usage.prompt_tokens || 0;
+        result.usage.completion_tokens += response.usage.completion_tokens || 0;
+        result.usage.total_tokens += response.usage.total_tokens || 0;
+      }
+
+      const answer = response.choices[0]?.message?.content || '';
+      const parsed = parseJsonAnswer(answer);
+      const errors = parsed.error ? [parsed.error] : validateJsonSchema(options.schema, parsed.value);
+
+      if (errors.length === 0) {
+        return Object.assign(result, { status: 'extracted', data: parsed.value, errors: undefined, answer: undefined });
+      }
+
+      Object.assign(result, { status: 'invalid', data: undefined, errors, answer });
+      conversation = [
+        ...conversation,
+        { role: 'assistant', content: answer },
+        {
+          role: 'user',
+          content: `Your answer does not match the JSON Schema:\n${errors.slice(0, 20).map(error => `- ${error}`).join('\n')}\nAnswer again with only the corrected JSON.`,
+        },
+      ];
+    }
+
+    return result;
+  }
+}
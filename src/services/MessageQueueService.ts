@@ -1,8 +1,14 @@
+import crypto from 'crypto';
 import { getRedisClient } from '../config/redis';
 import logger, { logInfo, logError, logWarn } from '../config/logger';
 import { DeviceManager } from './DeviceManager';
 import { MessageMedia, MessageSendOptions } from 'whatsapp-web.js';
 import { redactMessageContent, redactPhoneNumber, getMessageLogMetadata } from '../utils/logSanitizer';
+import { getNextCronOccurrence } from '../utils/cron';
+import { OutgoingTranslation } from './TranslationService';
+import { DeviceHealthService } from './DeviceHealthService';
+import { RecipientPolicyService, RecipientPolicyCode, RecipientPolicyDecision } from './RecipientPolicyService';
+import { ClusterService } from './ClusterService';
 
 export interface QueuedMessage {
   id: string;
@@ -19,6 +25,80 @@ export interface QueuedMessage {
   maxAttempts: number;
   createdAt: number;
   delay?: number;
+  // Set for messages queued with an explicit send time, which can be listed, rescheduled and cancelled
+  scheduled?: boolean;
+  // Cron expression for recurring messages; the same queue id is reused for every occurrence
+  recurrence?: string;
+  occurrences?: number;
+  // Set for messages fanned out by a broadcast campaign
+  campaign?: { campaignId: string; recipientIndex: number };
+  // Set when content was translated before queueing; the original is kept for audit once the message is sent
+  translation?: OutgoingTranslation;
+  // Set for messages sent through a device pool, which can move to another pool device
+  poolId?: string;
+  // One entry per failed send, kept across retries
+  attemptHistory?: QueuedMessageAttempt[];
+  // Set when a recipient policy held the message back
+  deferral?: { code: RecipientPolicyCode; reason: string; until: number };
+}
+
+export interface QueuedMessageAttempt {
+  attempt: number;
+  at: number;
+  error: string;
+}
+
+export interface DeadLetterDeviceState {
+  status: string; // Device status, or 'missing' when the device doesn't exist
+  phoneNumber?: string;
+  lastSeen?: number;
+  healthStatus?: string;
+  healthScore?: number;
+  messagesInLast60s?: number;
+}
+
+/**
+ * A queued message that failed every attempt, as it was when it failed
+ */
+export interface DeadLetter {
+  id: string;
+  message: QueuedMessage;
+  error: string; // Error of the last attempt
+  code?: RecipientPolicyCode; // Set when a recipient policy refused the message
+  deviceState: DeadLetterDeviceState;
+  failedAt: number;
+}
+
+export interface DeadLetterFilter {
+  ids?: string[];
+  deviceId?: string;
+  before?: number; // Failed before this timestamp
+}
+
+export interface DeadLetterRetryResult {
+  status: 'retried' | 'not_found';
+  queueId?: string;
+}
+
+export interface QueuedMessageResult {
+  message: QueuedMessage;
+  success: boolean;
+  sentMessageId?: string;
+  error?: string;
+}
+
+export type QueuedMessageListener = (result: QueuedMessageResult) => void | Promise<void>;
+
+export type DeadLetterListener = (deadLetter: DeadLetter) => void;
+
+export interface MessageSchedule {
+  sendAt?: number;
+  recurrence?: string;
+}
+
+export interface ScheduledMessageUpdateResult {
+  status: 'updated' | 'not_found' | 'sending';
+  message?: QueuedMessage;
 }
 
 export interface MessageQueueConfig {
@@ -37,6 +117,9 @@ export interface MessageQueueConfig {
   // Human-like behavior
   typingDelay: boolean;
   readReceiptDelay: boolean;
+
+  // How long failed messages are kept in the dead-letter queue
+  deadLetterRetentionDays: number;
 }
 
 const DEFAULT_CONFIG: MessageQueueConfig = {
@@ -48,20 +131,37 @@ const DEFAULT_CONFIG: MessageQueueConfig = {
   burstLimit: parseInt(process.env.MESSAGE_BURST_LIMIT || '3'),
   typingDelay: process.env.ENABLE_TYPING_DELAY !== 'false',
   readReceiptDelay: process.env.ENABLE_READ_RECEIPT_DELAY !== 'false',
+  deadLetterRetentionDays: parseInt(process.env.MESSAGE_DEAD_LETTER_RETENTION_DAYS || '30'),
 };
 
+// Move a dead letter back to the queue in one step, unless another request retried or purged it meanwhile
+const REQUEUE_DEAD_LETTER_SCRIPT = `
+if redis.call('hdel', KEYS[1], ARGV[1]) == 0 then
+  return 0
+end
+redis.call('zrem', KEYS[2], ARGV[1])
+redis.call('zadd', KEYS[3], ARGV[2], ARGV[3])
+return 1`;
+
 export class MessageQueueService {
   private static instance: MessageQueueService;
   private redisClient;
   private deviceManager;
   private isProcessing = false;
   private config: MessageQueueConfig;
+  private listeners: QueuedMessageListener[] = [];
+  private deadLetterListeners: DeadLetterListener[] = [];
   
   // Redis keys with specific prefixes to avoid conflicts
   private readonly QUEUE_KEY = 'whatsapp:msg_queue';
   private readonly PROCESSING_KEY = 'whatsapp:msg_processing';
   private readonly DEVICE_RATE_KEY = 'whatsapp:device_rate';
   private readonly DEVICE_LAST_MESSAGE_KEY = 'whatsapp:device_last_msg';
+  // Queue id -> current queue member for scheduled messages, so they can be found again after a restart
+  private readonly SCHEDULED_KEY = 'whatsapp:msg_scheduled';
+  // Dead letter id -> dead letter, with an index sorted by failure time for listing and pruning
+  private readonly DEAD_LETTER_KEY = 'whatsapp:msg_dead_letters';
+  private readonly DEAD_LETTER_INDEX_KEY = 'whatsapp:msg_dead_letter_index';
 
   private constructor() {
     this.redisClient = getRedisClient();
@@ -79,9 +179,37 @@ export class MessageQueueService {
 
   /**
    * Add a message to the queue
+   * @param schedule - Optional explicit send time or cron recurrence; skips the human-like delay
    */
-  public async queueMessage(message: Omit<QueuedMessage, 'id' | 'scheduledAt' | 'attempts' | 'createdAt'>): Promise<string> {
+  public async queueMessage(
+    message: Omit<QueuedMessage, 'id' | 'scheduledAt' | 'attempts' | 'createdAt' | 'scheduled' | 'recurrence' | 'occurrences'>,
+    schedule?: MessageSchedule
+  ): Promise<string> {
     const messageId = `msg_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+
+    if (schedule?.sendAt || schedule?.recurrence) {
+      const sendAt = schedule.recurrence ? getNextCronOccurrence(schedule.recurrence) : schedule.sendAt!;
+      if (!sendAt) {
+        throw new Error(`Recurrence "${schedule.recurrence}" never matches a future time`);
+      }
+
+      const scheduledMessage: QueuedMessage = {
+        ...message,
+        id: messageId,
+        scheduledAt: sendAt,
+        attempts: 0,
+        createdAt: Date.now(),
+        scheduled: true,
+        recurrence: schedule.recurrence,
+        occurrences: 0,
+      };
+
+      await this.enqueue(scheduledMessage);
+
+      logInfo(`Message scheduled: ${messageId} for device ${this.deviceManager.getFormattedDeviceId(message.deviceId)} at ${new Date(sendAt).toISOString()}${schedule.recurrence ? ` (recurring: ${schedule.recurrence})` : ''}`);
+
+      return messageId;
+    }
     
     // Calculate delay based on device's recent activity
     const delay = await this.calculateDelay(message.deviceId);
@@ -96,13 +224,172 @@ export class MessageQueueService {
     };
 
     // Add to Redis sorted set (sorted by scheduledAt)
-    await this.redisClient.zadd(this.QUEUE_KEY, queuedMessage.scheduledAt, JSON.stringify(queuedMessage));
+    await this.enqueue(queuedMessage);
     
     logInfo(`Message queued: ${messageId} for device ${this.deviceManager.getFormattedDeviceId(message.deviceId)} with ${delay}ms delay`);
     
     return messageId;
   }
 
+  /**
+   * Add a message to the sorted set and keep the scheduled index pointing at its current member
+   */
+  private async enqueue(message: QueuedMessage): Promise<void> {
+    const member = JSON.stringify(message);
+    await this.redisClient.zadd(this.QUEUE_KEY, message.scheduledAt, member);
+
+    if (message.scheduled) {
+      await this.redisClient.hset(this.SCHEDULED_KEY, message.id, member);
+    }
+  }
+
+  /**
+   * Queue the next occurrence of a recurring message, or drop a finished one from the scheduled index
+   */
+  private async completeScheduledMessage(message: QueuedMessage): Promise<void> {
+    if (!message.scheduled) return;
+
+    // Cancelled while it was being sent
+    const stillScheduled = await this.redisClient.hexists(this.SCHEDULED_KEY, message.id);
+    if (!stillScheduled) return;
+
+    const nextAt = message.recurrence ? getNextCronOccurrence(message.recurrence) : null;
+    if (!nextAt) {
+      await this.redisClient.hdel(this.SCHEDULED_KEY, message.id);
+      return;
+    }
+
+    await this.enqueue({
+      ...message,
+      scheduledAt: nextAt,
+      attempts: 0,
+      occurrences: (message.occurrences || 0) + 1,
+    });
+    logInfo(`Recurring message ${message.id} next occurrence at ${new Date(nextAt).toISOString()}`);
+  }
+
+  /**
+   * List pending scheduled messages for a device, soonest first
+   */
+  public async getScheduledMessages(deviceId: string): Promise<QueuedMessage[]> {
+    const members = await this.redisClient.hvals(this.SCHEDULED_KEY);
+
+    return members
+      .map(member => JSON.parse(member) as QueuedMessage)
+      .filter(message => message.deviceId === deviceId)
+      .sort((a, b) => a.scheduledAt - b.scheduledAt);
+  }
+
+  /**
+   * Get a scheduled message by queue id
+   */
+  public async getScheduledMessage(deviceId: string, queueId: string): Promise<QueuedMessage | null> {
+    const member = await this.redisClient.hget(this.SCHEDULED_KEY, queueId);
+    if (!member) return null;
+
+    const message: QueuedMessage = JSON.parse(member);
+    return message.deviceId === deviceId ? message : null;
+  }
+
+  /**
+   * Move a scheduled message to a new send time and/or recurrence
+   */
+  public async rescheduleScheduledMessage(
+    deviceId: string,
+    queueId: string,
+    schedule: MessageSchedule
+  ): Promise<ScheduledMessageUpdateResult> {
+    const member = await this.redisClient.hget(this.SCHEDULED_KEY, queueId);
+    if (!member) return { status: 'not_found' };
+
+    const message: QueuedMessage = JSON.parse(member);
+    if (message.deviceId !== deviceId) return { status: 'not_found' };
+
+    const recurrence = schedule.recurrence;
+    const sendAt = recurrence ? getNextCronOccurrence(recurrence) : schedule.sendAt;
+    if (!sendAt) {
+      throw new Error(`Recurrence "${recurrence}" never matches a future time`);
+    }
+
+    // The queue worker already picked it up
+    const removed = await this.redisClient.zrem(this.QUEUE_KEY, member);
+    if (removed === 0) return { status: 'sending' };
+
+    const updated: QueuedMessage = { ...message, scheduledAt: sendAt, recurrence, attempts: 0 };
+    await this.enqueue(updated);
+
+    logInfo(`Scheduled message ${queueId} moved to ${new Date(sendAt).toISOString()}${recurrence ? ` (recurring: ${recurrence})` : ''}`);
+    return { status: 'updated', message: updated };
+  }
+
+  /**
+   * Cancel a scheduled message. Cancelling a recurring message stops all future occurrences.
+   */
+  public async cancelScheduledMessage(deviceId: string, queueId: string): Promise<'cancelled' | 'not_found' | 'sending'> {
+    const member = await this.redisClient.hget(this.SCHEDULED_KEY, queueId);
+    if (!member) return 'not_found';
+
+    const message: QueuedMessage = JSON.parse(member);
+    if (message.deviceId !== deviceId) return 'not_found';
+
+    const removed = await this.redisClient.zrem(this.QUEUE_KEY, member);
+
+    // A one-off message that is already being sent can't be stopped
+    if (removed === 0 && !message.recurrence) return 'sending';
+
+    await this.redisClient.hdel(this.SCHEDULED_KEY, queueId);
+    logInfo(`Scheduled message ${queueId} cancelled`);
+    return 'cancelled';
+  }
+
+  /**
+   * Move a device's pending pool messages to other devices
+   * @param pickDevice - Returns the device a message moves to, or null to leave it where it is
+   * @returns How many messages moved
+   */
+  public async moveDeviceMessages(
+    deviceId: string,
+    pickDevice: (message: QueuedMessage) => Promise<string | null>
+  ): Promise<number> {
+    const members = await this.redisClient.zrange(this.QUEUE_KEY, 0, -1);
+    let moved = 0;
+
+    for (const member of members) {
+      const message: QueuedMessage = JSON.parse(member);
+      if (message.deviceId !== deviceId || !message.poolId) continue;
+
+      const target = await pickDevice(message);
+      if (!target || target === deviceId) continue;
+
+      // Skip messages that were sent, cancelled or rescheduled meanwhile
+      const removed = await this.redisClient.zrem(this.QUEUE_KEY, member);
+      if (!removed) continue;
+
+      await this.enqueue({ ...message, deviceId: target });
+      logInfo(`Queued message ${message.id} moved from device ${this.deviceManager.getFormattedDeviceId(deviceId)} to ${this.deviceManager.getFormattedDeviceId(target)}`);
+      moved++;
+    }
+
+    return moved;
+  }
+
+  /**
+   * Register a listener that is told when a queued message is sent or finally fails
+   */
+  public onMessageProcessed(listener: QueuedMessageListener): void {
+    this.listeners.push(listener);
+  }
+
+  private async notifyListeners(result: QueuedMessageResult): Promise<void> {
+    for (const listener of this.listeners) {
+      try {
+        await listener(result);
+      } catch (error) {
+        logError(`Queued message listener failed for ${result.message.id}:`, error);
+      }
+    }
+  }
+
   /**
    * Calculate human-like delay based on device activity
    */
@@ -196,39 +483,76 @@ export class MessageQueueService {
     });
   }
 
+  /**
+   * Collect up to `limit` due messages (score <= now) this node sends. In a cluster, pages past
+   * messages of devices other nodes run so they can't keep this node's messages from being picked.
+   */
+  private async getDueMessages(now: number, limit: number): Promise<Array<{ data: string; message: QueuedMessage }>> {
+    const cluster = ClusterService.getInstance();
+    const pageSize = cluster.isEnabled() ? limit * 10 : limit;
+    const due: Array<{ data: string; message: QueuedMessage }> = [];
+
+    for (let offset = 0; due.length < limit; offset += pageSize) {
+      const page = await this.redisClient.zrangebyscore(
+        this.QUEUE_KEY,
+        '-inf',
+        now.toString(),
+        'LIMIT',
+        String(offset),
+        String(pageSize)
+      );
+
+      for (const data of page) {
+        if (due.length >= limit) break;
+
+        try {
+          const message: QueuedMessage = JSON.parse(data);
+          if (!this.deviceManager.getDevice(message.deviceId) && await cluster.isOwnedElsewhere(message.deviceId)) {
+            // The node running the device sends it
+            continue;
+          }
+          due.push({ data, message });
+        } catch (error) {
+          logError('Error reading queued message:', error);
+        }
+      }
+
+      if (page.length < pageSize) break;
+    }
+
+    return due;
+  }
+
   /**
    * Process messages from the queue
    */
   private async processQueue(): Promise<void> {
-    const now = Date.now();
-    
-    // Get messages that are ready to be sent (score <= now)
-    const messages = await this.redisClient.zrangebyscore(
-      this.QUEUE_KEY, 
-      '-inf', 
-      now.toString(), 
-      'LIMIT', 
-      '0', 
-      '5' // Process up to 5 messages at a time
-    );
+    const batchSize = 5; // Process up to 5 messages at a time
+    const messages = await this.getDueMessages(Date.now(), batchSize);
 
-    if (messages.length === 0) return;
-
-    for (const messageData of messages) {
+    for (const { data: messageData, message } of messages) {
       try {
-        const message: QueuedMessage = JSON.parse(messageData);
-        
         // Check if device is ready
         const device = this.deviceManager.getDevice(message.deviceId);
+
         if (!device || device.status !== 'ready') {
           // Remove from current position and reschedule for later
-          await this.redisClient.zrem(this.QUEUE_KEY, messageData);
-          await this.rescheduleMessage(message, 30000); // 30 seconds later
+          const removed = await this.redisClient.zrem(this.QUEUE_KEY, messageData);
+          if (removed) {
+            await this.rescheduleMessage(message, 30000); // 30 seconds later
+          }
           continue;
         }
 
-        // Remove from queue before processing
-        await this.redisClient.zrem(this.QUEUE_KEY, messageData);
+        // Remove from queue before processing; skip it if it was cancelled or rescheduled meanwhile
+        const removed = await this.redisClient.zrem(this.QUEUE_KEY, messageData);
+        if (!removed) continue;
+
+        const decision = await RecipientPolicyService.getInstance().checkMessage(message.deviceId, message.to);
+        if (decision) {
+          await this.holdBackMessage(message, decision);
+          continue;
+        }
         
         // Add to processing set
         await this.redisClient.sadd(this.PROCESSING_KEY, message.id);
@@ -288,6 +612,9 @@ export class MessageQueueService {
 
       const messageMetadata = getMessageLogMetadata(message.content, message.type);
       logInfo(`Message sent successfully: ${message.id} to ${redactPhoneNumber(message.to)} from device ${this.deviceManager.getFormattedDeviceId(message.deviceId)} | Type: ${messageMetadata.type} | Length: ${messageMetadata.length} chars`);
+
+      await this.completeScheduledMessage(message);
+      await this.notifyListeners({ message, success: true, sentMessageId: sentMessage?.id?._serialized });
       
     } catch (error: any) {
       const messageMetadata = getMessageLogMetadata(message.content, message.type);
@@ -302,25 +629,51 @@ export class MessageQueueService {
         hasContent: messageMetadata.hasContent
       });
       
+      message.attemptHistory = [
+        ...(message.attemptHistory || []),
+        { attempt: message.attempts + 1, at: Date.now(), error: error.message },
+      ];
+
       // Retry logic
       if (message.attempts < message.maxAttempts) {
         message.attempts++;
         message.scheduledAt = Date.now() + this.config.retryDelay * message.attempts;
         
-        await this.redisClient.zadd(this.QUEUE_KEY, message.scheduledAt, JSON.stringify(message));
+        await this.enqueue(message);
         logInfo(`Message ${message.id} rescheduled for retry (attempt ${message.attempts}/${message.maxAttempts})`);
       } else {
         logError(`Message ${message.id} failed after ${message.maxAttempts} attempts`);
+        await this.addDeadLetter(message, error.message);
+        await this.completeScheduledMessage(message);
+        await this.notifyListeners({ message, success: false, error: error.message });
       }
     }
   }
 
+  /**
+   * Defer a message a recipient policy doesn't allow yet, or move it to the dead-letter queue
+   */
+  private async holdBackMessage(message: QueuedMessage, decision: RecipientPolicyDecision): Promise<void> {
+    if (decision.action === 'defer') {
+      message.deferral = { code: decision.code, reason: decision.reason, until: decision.retryAt! };
+      message.scheduledAt = decision.retryAt!;
+      await this.enqueue(message);
+      logInfo(`Message ${message.id} deferred by recipient policy until ${new Date(decision.retryAt!).toISOString()} (${decision.code})`);
+      return;
+    }
+
+    logWarn(`Message ${message.id} rejected by recipient policy (${decision.code}): ${decision.reason}`);
+    await this.addDeadLetter(message, decision.reason, decision.code);
+    await this.completeScheduledMessage(message);
+    await this.notifyListeners({ message, success: false, error: `${decision.code}: ${decision.reason}` });
+  }
+
   /**
    * Reschedule a message for later processing
    */
   private async rescheduleMessage(message: QueuedMessage, delayMs: number): Promise<void> {
     message.scheduledAt = Date.now() + delayMs;
-    await this.redisClient.zadd(this.QUEUE_KEY, message.scheduledAt, JSON.stringify(message));
+    await this.enqueue(message);
     logInfo(`Message ${message.id} rescheduled for ${delayMs}ms later`);
   }
 
@@ -331,6 +684,175 @@ export class MessageQueueService {
     return new Promise(resolve => setTimeout(resolve, ms));
   }
 
+  /**
+   * Register a listener that is told when a message lands in the dead-letter queue
+   */
+  public onDeadLetter(listener: DeadLetterListener): void {
+    this.deadLetterListeners.push(listener);
+  }
+
+  /**
+   * Keep a message that failed every attempt, with the state of its device. Never throws.
+   */
+  private async addDeadLetter(message: QueuedMessage, error: string, code?: RecipientPolicyCode): Promise<void> {
+    try {
+      const deadLetter: DeadLetter = {
+        id: `dlq_${crypto.randomBytes(8).toString('hex')}`,
+        message,
+        error,
+        code,
+        deviceState: await this.getDeadLetterDeviceState(message.deviceId),
+        failedAt: Date.now(),
+      };
+
+      await this.redisClient.hset(this.DEAD_LETTER_KEY, deadLetter.id, JSON.stringify(deadLetter));
+      await this.redisClient.zadd(this.DEAD_LETTER_INDEX_KEY, deadLetter.failedAt, deadLetter.id);
+      await this.pruneDeadLetters();
+
+      logWarn(`Message ${message.id} moved to the dead-letter queue as ${deadLetter.id}`);
+
+      for (const listener of this.deadLetterListeners) {
+        listener(deadLetter);
+      }
+    } catch (deadLetterError) {
+      logError(`Failed to move message ${message.id} to the dead-letter queue:`, deadLetterError);
+    }
+  }
+
+  private async getDeadLetterDeviceState(deviceId: string): Promise<DeadLetterDeviceState> {
+    const device = this.deviceManager.getDevice(deviceId);
+    if (!device) return { status: 'missing' };
+
+    const state: DeadLetterDeviceState = { status: device.status, phoneNumber: device.phoneNumber, lastSeen: device.lastSeen };
+
+    try {
+      const [health, messagesInLast60s] = await Promise.all([
+        DeviceHealthService.getInstance().getDeviceHealth(deviceId),
+        this.getDeviceMessageCount(deviceId),
+      ]);
+      return { ...state, healthStatus: health?.status, healthScore: health?.score, messagesInLast60s };
+    } catch (error) {
+      logError(`Failed to read the health of device ${deviceId} for a dead letter:`, error);
+      return state;
+    }
+  }
+
+  /**
+   * Drop dead letters older than the retention period
+   */
+  private async pruneDeadLetters(): Promise<void> {
+    const cutoff = Date.now() - this.config.deadLetterRetentionDays * 24 * 60 * 60 * 1000;
+    const expired = await this.redisClient.zrangebyscore(this.DEAD_LETTER_INDEX_KEY, '-inf', cutoff);
+    if (expired.length === 0) return;
+
+    await this.redisClient.hdel(this.DEAD_LETTER_KEY, ...expired);
+    await this.redisClient.zremrangebyscore(this.DEAD_LETTER_INDEX_KEY, '-inf', cutoff);
+  }
+
+  /**
+   * List dead letters matching a filter, most recent first
+   */
+  public async getDeadLetters(filter: DeadLetterFilter = {}): Promise<DeadLetter[]> {
+    const ids = filter.ids ?? await this.redisClient.zrevrange(this.DEAD_LETTER_INDEX_KEY, 0, -1);
+    if (ids.length === 0) return [];
+
+    const values = await this.redisClient.hmget(this.DEAD_LETTER_KEY, ...ids);
+
+    return values
+      .filter((value): value is string => !!value)
+      .map(value => JSON.parse(value) as DeadLetter)
+      .filter(deadLetter => !filter.deviceId || deadLetter.message.deviceId === filter.deviceId)
+      .filter(deadLetter => !filter.before || deadLetter.failedAt < filter.before)
+      .sort((a, b) => b.failedAt - a.failedAt);
+  }
+
+  public async getDeadLetter(id: string): Promise<DeadLetter | null> {
+    const data = await this.redisClient.hget(this.DEAD_LETTER_KEY, id);
+    return data ? JSON.parse(data) : null;
+  }
+
+  /**
+   * Queue a dead letter again as a one-off send with fresh attempts. Its attempt history is kept.
+   * @param deviceId - Send from this device instead of the one that failed
+   */
+  public async retryDeadLetter(id: string, deviceId?: string): Promise<DeadLetterRetryResult> {
+    const deadLetter = await this.getDeadLetter(id);
+    if (!deadLetter) return { status: 'not_found' };
+
+    const targetDeviceId = deviceId || deadLetter.message.deviceId;
+    const delay = await this.calculateDelay(targetDeviceId);
+
+    // Recurring series and campaigns moved on when the message failed, so the retry is not part of them
+    const { scheduled, recurrence, occurrences, campaign, deferral, ...message } = deadLetter.message;
+    const retry: QueuedMessage = {
+      ...message,
+      deviceId: targetDeviceId,
+      scheduledAt: Date.now() + delay,
+      attempts: 0,
+      delay,
+    };
+
+    const requeued = await this.redisClient.eval(
+      REQUEUE_DEAD_LETTER_SCRIPT,
+      3,
+      this.DEAD_LETTER_KEY,
+      this.DEAD_LETTER_INDEX_KEY,
+      this.QUEUE_KEY,
+      id,
+      retry.scheduledAt,
+      JSON.stringify(retry)
+    );
+    if (!requeued) return { status: 'not_found' };
+
+    logInfo(`Dead letter ${id} queued again as message ${message.id} on device ${this.deviceManager.getFormattedDeviceId(targetDeviceId)}`);
+
+    return { status: 'retried', queueId: message.id };
+  }
+
+  /**
+   * Retry every dead letter matching a filter
+   * @returns How many were queued again
+   */
+  public async retryDeadLetters(filter: DeadLetterFilter, deviceId?: string): Promise<number> {
+    const deadLetters = await this.getDeadLetters(filter);
+    let retried = 0;
+
+    for (const deadLetter of deadLetters) {
+      const result = await this.retryDeadLetter(deadLetter.id, deviceId);
+      if (result.status === 'retried') retried++;
+    }
+
+    return retried;
+  }
+
+  public async purgeDeadLetter(id: string): Promise<boolean> {
+    const removed = await this.redisClient.hdel(this.DEAD_LETTER_KEY, id);
+    await this.redisClient.zrem(this.DEAD_LETTER_INDEX_KEY, id);
+    return removed > 0;
+  }
+
+  /**
+   * Delete every dead letter matching a filter, or all of them when the filter is empty
+   * @returns How many were deleted
+   */
+  public async purgeDeadLetters(filter: DeadLetterFilter = {}): Promise<number> {
+    if (!filter.ids && !filter.deviceId && !filter.before) {
+      const count = await this.redisClient.zcard(this.DEAD_LETTER_INDEX_KEY);
+      await this.redisClient.del(this.DEAD_LETTER_KEY, this.DEAD_LETTER_INDEX_KEY);
+      logInfo(`Purged ${count} dead letters`);
+      return count;
+    }
+
+    const ids = (await this.getDeadLetters(filter)).map(deadLetter => deadLetter.id);
+    if (ids.length === 0) return 0;
+
+    await this.redisClient.hdel(this.DEAD_LETTER_KEY, ...ids);
+    await this.redisClient.zrem(this.DEAD_LETTER_INDEX_KEY, ...ids);
+    logInfo(`Purged ${ids.length} dead letters`);
+
+    return ids.length;
+  }
+
   /**
    * Get queue status
    */
@@ -387,6 +909,7 @@ export class MessageQueueService {
     const count = await this.redisClient.zcard(this.QUEUE_KEY);
     await this.redisClient.del(this.QUEUE_KEY);
     await this.redisClient.del(this.PROCESSING_KEY);
+    await this.redisClient.del(this.SCHEDULED_KEY);
     logInfo(`Cleared ${count} messages from queue`);
     return count;
   }
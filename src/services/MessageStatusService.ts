@@ -0,0 +1,158 @@
+import { getRedisClient } from '../config/redis';
+import { logError } from '../config/logger';
+import { MessageQueueService, QueuedMessageResult } from './MessageQueueService';
+import { MessageAckStatus } from '../types/message.types';
+import { mapAckStatus } from '../utils/messageAnalytics';
+
+export interface MessageStatusTransition {
+  status: MessageAckStatus;
+  ack: number;
+  timestamp: number;
+}
+
+export interface MessageStatusTimeline {
+  messageId: string;
+  deviceId: string;
+  chatId?: string;
+  queueId?: string;
+  status: MessageAckStatus;
+  ack: number;
+  timeline: MessageStatusTransition[];
+  updatedAt: number;
+}
+
+const ACK_BY_STATUS: Record<MessageAckStatus, number> = {
+  error: -1,
+  pending: 0,
+  sent: 1,
+  delivered: 2,
+  read: 3,
+  played: 4,
+};
+
+const STATUS_FIELD_PREFIX = 'status:';
+
+/**
+ * Build a timeline from the stored hash. Each status is kept once with the time it was first reached,
+ * so duplicate acks don't add entries.
+ */
+export function buildStatusTimeline(
+  deviceId: string,
+  messageId: string,
+  fields: Record<string, string>
+): MessageStatusTimeline | null {
+  const timeline: MessageStatusTransition[] = Object.entries(fields)
+    .filter(([field]) => field.startsWith(STATUS_FIELD_PREFIX))
+    .map(([field, timestamp]) => {
+      const status = field.slice(STATUS_FIELD_PREFIX.length) as MessageAckStatus;
+      return { status, ack: ACK_BY_STATUS[status], timestamp: parseInt(timestamp) };
+    })
+    .sort((a, b) => a.timestamp - b.timestamp || a.ack - b.ack);
+
+  if (timeline.length === 0) {
+    return null;
+  }
+
+  // Acks can race each other, so the current status is the furthest one reached rather than the
+  // last one recorded. An error only wins when nothing happened after it.
+  const progress = timeline.filter(entry => entry.status !== 'error');
+  const furthest = progress.reduce<MessageStatusTransition | null>((best, entry) => (!best || entry.ack > best.ack ? entry : best), null);
+  const latest = timeline[timeline.length - 1];
+  const current = latest.status === 'error' || !furthest ? latest : furthest;
+
+  return {
+    messageId,
+    deviceId,
+    chatId: fields.chatId,
+    queueId: fields.queueId,
+    status: current.status,
+    ack: current.ack,
+    timeline,
+    updatedAt: latest.timestamp,
+  };
+}
+
+export class MessageStatusService {
+  private static instance: MessageStatusService;
+  private redisClient;
+  private readonly ttl = parseInt(process.env.MESSAGE_STATUS_TTL || '2592000'); // 30 days, in seconds
+
+  // Redis keys with specific prefixes to avoid conflicts
+  private readonly STATUS_KEY = 'whatsapp:msg_status';
+  private readonly QUEUE_REF_KEY = 'whatsapp:msg_status_queue';
+
+  private constructor() {
+    this.redisClient = getRedisClient();
+    MessageQueueService.getInstance().onMessageProcessed(result => this.handleQueueResult(result));
+  }
+
+  public static getInstance(): MessageStatusService {
+    if (!MessageStatusService.instance) {
+      MessageStatusService.instance = new MessageStatusService();
+    }
+    return MessageStatusService.instance;
+  }
+
+  /**
+   * Record an ack for a sent message. Never throws, so it is safe to call from
+   * WhatsApp client event handlers.
+   * @returns The new transition, or null when this status was already recorded
+   */
+  public async recordAck(
+    deviceId: string,
+    messageId: string,
+    chatId: string,
+    ack: number
+  ): Promise<MessageStatusTransition | null> {
+    try {
+      const key = this.getStatusKey(deviceId, messageId);
+      const status = mapAckStatus(ack);
+      const timestamp = Date.now();
+
+      // HSETNX keeps the first time each status was reached
+      const added = await this.redisClient.hsetnx(key, `${STATUS_FIELD_PREFIX}${status}`, timestamp.toString());
+      await this.redisClient.hsetnx(key, 'chatId', chatId);
+      await this.redisClient.expire(key, this.ttl);
+
+      return added ? { status, ack: ACK_BY_STATUS[status], timestamp } : null;
+    } catch (error) {
+      logError(`Failed to record ack ${ack} for message ${messageId}:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Get the status timeline for a WhatsApp message ID, or for the queue ID returned by /messages/send
+   */
+  public async getTimeline(deviceId: string, id: string): Promise<MessageStatusTimeline | null> {
+    let messageId = id;
+    if (id.startsWith('msg_')) {
+      const resolved = await this.redisClient.get(`${this.QUEUE_REF_KEY}:${deviceId}:${id}`);
+      if (!resolved) return null;
+      messageId = resolved;
+    }
+
+    const fields = await this.redisClient.hgetall(this.getStatusKey(deviceId, messageId));
+    return buildStatusTimeline(deviceId, messageId, fields);
+  }
+
+  /**
+   * Link queued messages to the WhatsApp message they became, so callers can look them up by queue ID
+   */
+  private async handleQueueResult(result: QueuedMessageResult): Promise<void> {
+    if (!result.success || !result.sentMessageId) return;
+
+    const { id: queueId, deviceId } = result.message;
+    await this.redisClient.set(`${this.QUEUE_REF_KEY}:${deviceId}:${queueId}`, result.sentMessageId, 'EX', this.ttl);
+
+    // The send call returning means the message exists at least as pending, even before any ack arrives
+    const key = this.getStatusKey(deviceId, result.sentMessageId);
+    await this.redisClient.hset(key, 'queueId', queueId, 'chatId', result.message.to);
+    await this.redisClient.hsetnx(key, `${STATUS_FIELD_PREFIX}pending`, Date.now().toString());
+    await this.redisClient.expire(key, this.ttl);
+  }
+
+  private getStatusKey(deviceId: string, messageId: string): string {
+    return `${this.STATUS_KEY}:${deviceId}:${messageId}`;
+  }
+}
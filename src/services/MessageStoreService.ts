@@ -0,0 +1,424 @@
+import { Pool } from 'pg';
+import { Client, Message } from 'whatsapp-web.js';
+import { logInfo, logError, logWarn } from '../config/logger';
+
+export interface StoredMessage {
+  deviceId: string;
+  messageId: string;
+  chatId: string;
+  sender: string;
+  fromMe: boolean;
+  type: string;
+  body: string;
+  hasMedia: boolean;
+  mediaMimetype?: string;
+  mediaFilename?: string;
+  mediaSize?: number;
+  isForwarded: boolean;
+  quotedMessageId?: string;
+  transcript?: string; // Set once a voice note or audio message is transcribed
+  timestamp: number; // ms
+}
+
+export interface MessageSearchFilters {
+  query?: string;
+  chatId?: string;
+  sender?: string;
+  from?: Date;
+  to?: Date;
+  hasMedia?: boolean;
+  type?: string;
+  fromMe?: boolean;
+  limit: number;
+  cursor?: string;
+}
+
+export interface MessageSearchPage {
+  messages: StoredMessage[];
+  nextCursor: string | null;
+}
+
+/**
+ * Versioned schema migrations for the message store. Append new entries,
+ * never edit applied ones.
+ */
+const MESSAGE_STORE_MIGRATIONS: Array<{ version: number; name: string; up: (table: string) => string }> = [
+  {
+    version: 1,
+    name: 'create_message_store_table',
+    up: (table) => `
+      CREATE TABLE IF NOT EXISTS ${table} (
+        device_id         TEXT NOT NULL,
+        message_id        TEXT NOT NULL,
+        chat_id           TEXT NOT NULL,
+        sender            TEXT NOT NULL,
+        from_me           BOOLEAN NOT NULL DEFAULT FALSE,
+        type              TEXT NOT NULL,
+        body              TEXT NOT NULL DEFAULT '',
+        has_media         BOOLEAN NOT NULL DEFAULT FALSE,
+        media_mimetype    TEXT,
+        media_filename    TEXT,
+        media_size        BIGINT,
+        is_forwarded      BOOLEAN NOT NULL DEFAULT FALSE,
+        quoted_message_id TEXT,
+        sent_at           TIMESTAMPTZ NOT NULL,
+        indexed_at        TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+        search_vector     TSVECTOR GENERATED ALWAYS AS (
+          to_tsvector('simple', body || ' ' || COALESCE(media_filename, ''))
+        ) STORED,
+        PRIMARY KEY (device_id, message_id)
+      );
+      CREATE INDEX IF NOT EXISTS ${table}_device_sent_at_idx ON ${table} (device_id, sent_at DESC, message_id DESC);
+      CREATE INDEX IF NOT EXISTS ${table}_chat_sent_at_idx ON ${table} (device_id, chat_id, sent_at DESC);
+      CREATE INDEX IF NOT EXISTS ${table}_search_idx ON ${table} USING GIN (search_vector);
+    `,
+  },
+  {
+    version: 2,
+    name: 'add_transcript',
+    // Generated columns can't be altered, so the search vector is rebuilt with the transcript
+    up: (table) => `
+      ALTER TABLE ${table} ADD COLUMN IF NOT EXISTS transcript TEXT;
+      ALTER TABLE ${table} DROP COLUMN IF EXISTS search_vector;
+      ALTER TABLE ${table} ADD COLUMN search_vector TSVECTOR GENERATED ALWAYS AS (
+        to_tsvector('simple', body || ' ' || COALESCE(media_filename, '') || ' ' || COALESCE(transcript, ''))
+      ) STORED;
+      CREATE INDEX IF NOT EXISTS ${table}_search_idx ON ${table} USING GIN (search_vector);
+    `,
+  },
+];
+
+/**
+ * Columns written per row, in insert order
+ */
+const MESSAGE_STORE_COLUMNS = [
+  'device_id', 'message_id', 'chat_id', 'sender', 'from_me', 'type', 'body', 'has_media',
+  'media_mimetype', 'media_filename', 'media_size', 'is_forwarded', 'quoted_message_id', 'sent_at',
+];
+
+/**
+ * Extract the indexed fields from a whatsapp-web.js message
+ */
+export function toStoredMessage(message: Message, deviceId: string): StoredMessage {
+  const data = (message as any)._data || {};
+
+  return {
+    deviceId,
+    messageId: message.id._serialized,
+    chatId: message.fromMe ? message.to : message.from,
+    // In groups the author is the participant, the chat is the group
+    sender: message.author || message.from,
+    fromMe: !!message.fromMe,
+    type: message.type || 'chat',
+    body: message.body || '',
+    hasMedia: !!message.hasMedia,
+    mediaMimetype: message.hasMedia ? data.mimetype : undefined,
+    mediaFilename: message.hasMedia ? data.filename : undefined,
+    mediaSize: message.hasMedia && data.size ? Number(data.size) : undefined,
+    isForwarded: !!message.isForwarded,
+    quotedMessageId: data.quotedStanzaID || undefined,
+    timestamp: (message.timestamp || Math.floor(Date.now() / 1000)) * 1000,
+  };
+}
+
+/**
+ * Cursors point at the last returned message, ordered by time and then message ID
+ */
+export function encodeMessageCursor(message: Pick<StoredMessage, 'timestamp' | 'messageId'>): string {
+  return Buffer.from(`${message.timestamp}|${message.messageId}`).toString('base64url');
+}
+
+export function decodeMessageCursor(cursor: string): { timestamp: number; messageId: string } | null {
+  const decoded = Buffer.from(cursor, 'base64url').toString('utf8');
+  const separator = decoded.indexOf('|');
+  const timestamp = parseInt(decoded.slice(0, separator));
+
+  if (separator <= 0 || isNaN(timestamp) || separator === decoded.length - 1) {
+    return null;
+  }
+  return { timestamp, messageId: decoded.slice(separator + 1) };
+}
+
+/**
+ * Build the search statement. One extra row is fetched to tell whether there is a next page.
+ * @throws Error when the cursor is malformed
+ */
+export function buildMessageSearchQuery(
+  table: string,
+  deviceId: string,
+  filters: MessageSearchFilters
+): { text: string; values: any[] } {
+  const values: any[] = [deviceId];
+  const conditions = ['device_id = $1'];
+  const where = (sql: string, ...params: any[]) => {
+    let clause = sql;
+    for (const param of params) {
+      values.push(param);
+      clause = clause.replace('?', `$${values.length}`);
+    }
+    conditions.push(clause);
+  };
+
+  if (filters.query) where(`search_vector @@ websearch_to_tsquery('simple', ?)`, filters.query);
+  if (filters.chatId) where('chat_id = ?', filters.chatId);
+  if (filters.sender) where('sender = ?', filters.sender);
+  if (filters.from) where('sent_at >= ?', filters.from);
+  if (filters.to) where('sent_at <= ?', filters.to);
+  if (filters.hasMedia !== undefined) where('has_media = ?', filters.hasMedia);
+  if (filters.type) where('type = ?', filters.type);
+  if (filters.fromMe !== undefined) where('from_me = ?', filters.fromMe);
+
+  if (filters.cursor) {
+    const cursor = decodeMessageCursor(filters.cursor);
+    if (!cursor) {
+      throw new Error('Invalid cursor');
+    }
+    where('(sent_at, message_id) < (?, ?)', new Date(cursor.timestamp), cursor.messageId);
+  }
+
+  values.push(filters.limit + 1);
+  return {
+    text: `SELECT * FROM ${table} WHERE ${conditions.join(' AND ')} ORDER BY sent_at DESC, message_id DESC LIMIT $${values.length}`,
+    values,
+  };
+}
+
+const fromRow = (row: any): StoredMessage => ({
+  deviceId: row.device_id,
+  messageId: row.message_id,
+  chatId: row.chat_id,
+  sender: row.sender,
+  fromMe: row.from_me,
+  type: row.type,
+  body: row.body,
+  hasMedia: row.has_media,
+  mediaMimetype: row.media_mimetype || undefined,
+  mediaFilename: row.media_filename || undefined,
+  mediaSize: row.media_size !== null && row.media_size !== undefined ? Number(row.media_size) : undefined,
+  isForwarded: row.is_forwarded,
+  quotedMessageId: row.quoted_message_id || undefined,
+  transcript: row.transcript ?? undefined,
+  timestamp: new Date(row.sent_at).getTime(),
+});
+
+export class MessageStoreService {
+  private static instance: MessageStoreService;
+  private readonly pool: Pool | null = null;
+  private readonly tableName = process.env.MESSAGE_STORE_TABLE || 'whatsapp_message_store';
+  private migrationPromise: Promise<void> | null = null;
+
+  private constructor() {
+    const connectionString = process.env.MESSAGE_STORE_URL || process.env.POSTGRES_URL || process.env.DATABASE_URL;
+    if (process.env.MESSAGE_STORE_ENABLED === 'false' || !connectionString) {
+      logInfo('Message store disabled, search and message lookups fall back to scanning recent chats');
+      return;
+    }
+
+    if (!/^[a-z_][a-z0-9_]*$/i.test(this.tableName)) {
+      throw new Error(`Invalid message store table name: ${this.tableName}`);
+    }
+
+    this.pool = new Pool({
+      connectionString,
+      max: parseInt(process.env.MESSAGE_STORE_POOL_SIZE || '5'),
+    });
+    this.pool.on('error', (error) => {
+      logError('Message store idle client error:', error);
+    });
+
+    // Cleanup on process exit
+    process.on('SIGINT', () => {
+      this.pool?.end().catch(() => undefined);
+    });
+  }
+
+  public static getInstance(): MessageStoreService {
+    if (!MessageStoreService.instance) {
+      MessageStoreService.instance = new MessageStoreService();
+    }
+    return MessageStoreService.instance;
+  }
+
+  public isEnabled(): boolean {
+    return this.pool !== null;
+  }
+
+  /**
+   * Index a message. Never throws, so it is safe to call from WhatsApp client
+   * event handlers. Messages that are already indexed are left untouched.
+   */
+  public async saveMessage(deviceId: string, message: Message): Promise<void> {
+    if (!this.pool || message.type === 'broadcast_notification' || message.type === 'revoked') return;
+
+    try {
+      await this.ensureSchema();
+
+      const stored = toStoredMessage(message, deviceId);
+      const placeholders = MESSAGE_STORE_COLUMNS.map((_, index) => `$${index + 1}`).join(', ');
+      await this.pool.query(
+        `INSERT INTO ${this.tableName} (${MESSAGE_STORE_COLUMNS.join(', ')})
+         VALUES (${placeholders})
+         ON CONFLICT (device_id, message_id) DO NOTHING`,
+        [
+          stored.deviceId,
+          stored.messageId,
+          stored.chatId,
+          stored.sender,
+          stored.fromMe,
+          stored.type,
+          stored.body,
+          stored.hasMedia,
+          stored.mediaMimetype ?? null,
+          stored.mediaFilename ?? null,
+          stored.mediaSize ?? null,
+          stored.isForwarded,
+          stored.quotedMessageId ?? null,
+          new Date(stored.timestamp),
+        ]
+      );
+    } catch (error) {
+      logError(`Failed to index message for device ${deviceId}:`, error);
+    }
+  }
+
+  /**
+   * Full-text search with filters, newest first
+   * @throws Error when the store is disabled or the cursor is malformed
+   */
+  public async searchMessages(deviceId: string, filters: MessageSearchFilters): Promise<MessageSearchPage> {
+    const pool = this.requirePool();
+    await this.ensureSchema();
+
+    const { text, values } = buildMessageSearchQuery(this.tableName, deviceId, filters);
+    const { rows } = await pool.query(text, values);
+    const messages = rows.slice(0, filters.limit).map(fromRow);
+
+    return {
+      messages,
+      nextCursor: rows.length > filters.limit ? encodeMessageCursor(messages[messages.length - 1]) : null,
+    };
+  }
+
+  /**
+   * Store the transcript of an indexed message, making it searchable
+   */
+  public async setTranscript(deviceId: string, messageId: string, transcript: string): Promise<void> {
+    if (!this.pool) return;
+    await this.ensureSchema();
+
+    await this.pool.query(
+      `UPDATE ${this.tableName} SET transcript = $3 WHERE device_id = $1 AND message_id = $2`,
+      [deviceId, messageId, transcript]
+    );
+  }
+
+  public async getMessage(deviceId: string, messageId: string): Promise<StoredMessage | null> {
+    if (!this.pool) return null;
+    await this.ensureSchema();
+
+    const { rows } = await this.pool.query(
+      `SELECT * FROM ${this.tableName} WHERE device_id = $1 AND message_id = $2`,
+      [deviceId, messageId]
+    );
+    return rows.length > 0 ? fromRow(rows[0]) : null;
+  }
+
+  /**
+   * Resolve a live message object by ID. The index tells which chat the message is in,
+   * so only that chat is loaded; without an index hit the most recent chats are scanned.
+   */
+  public async findMessage(
+    deviceId: string,
+    client: Client,
+    messageId: string,
+    chatId?: string
+  ): Promise<Message | null> {
+    const stored = await this.getMessage(deviceId, messageId).catch(error => {
+      logWarn(`Message store lookup failed for ${messageId}, scanning chats instead: ${error.message}`);
+      return null;
+    });
+
+    if (stored) {
+      const message = await client.getMessageById(messageId).catch(() => null);
+      if (message) return message;
+    }
+
+    const targetChatId = stored?.chatId || chatId;
+    if (targetChatId) {
+      const chat = await client.getChatById(targetChatId);
+      const messages = await chat.fetchMessages({ limit: stored ? 1000 : 100 });
+      return messages.find(msg => msg.id._serialized === messageId) || null;
+    }
+
+    const chats = await client.getChats();
+    for (const chat of chats.slice(0, 20)) {
+      try {
+        const messages = await chat.fetchMessages({ limit: 50 });
+        const message = messages.find(msg => msg.id._serialized === messageId);
+        if (message) return message;
+      } catch (error) {
+        continue;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Apply pending schema migrations once per process. Concurrent instances are
+   * serialized with an advisory lock and applied versions are recorded.
+   */
+  private async ensureSchema(): Promise<void> {
+    // Retry on the next call if the migration failed
+    this.migrationPromise = this.migrationPromise || this.migrate().catch(error => {
+      this.migrationPromise = null;
+      throw error;
+    });
+    await this.migrationPromise;
+  }
+
+  private async migrate(): Promise<void> {
+    const client = await this.requirePool().connect();
+    const migrationsTable = `${this.tableName}_schema_migrations`;
+
+    try {
+      await client.query('BEGIN');
+      await client.query('SELECT pg_advisory_xact_lock(hashtext($1))', [migrationsTable]);
+      await client.query(`
+        CREATE TABLE IF NOT EXISTS ${migrationsTable} (
+          version    INTEGER PRIMARY KEY,
+          name       TEXT NOT NULL,
+          applied_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+        )
+      `);
+
+      const { rows } = await client.query<{ version: number }>(`SELECT version FROM ${migrationsTable}`);
+      const applied = new Set(rows.map(row => row.version));
+
+      for (const migration of MESSAGE_STORE_MIGRATIONS) {
+        if (applied.has(migration.version)) continue;
+
+        await client.query(migration.up(this.tableName));
+        await client.query(
+          `INSERT INTO ${migrationsTable} (version, name) VALUES ($1, $2)`,
+          [migration.version, migration.name]
+        );
+        logInfo(`Message store: applied migration ${migration.version}_${migration.name}`);
+      }
+
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK').catch(() => undefined);
+      logError('Message store migration failed:', error);
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  private requirePool(): Pool {
+    if (!this.pool) {
+      throw new Error('Message store is not configured');
+    }
+    return this.pool;
+  }
+}
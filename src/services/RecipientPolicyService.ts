@@ -0,0 +1,401 @@
+import { Message } from 'whatsapp-web.js';
+import { getRedisClient } from '../config/redis';
+import { logInfo, logError } from '../config/logger';
+
+export type RecipientPolicyCode = 'NEVER_REPLIED_LIMIT' | 'NEW_CONVERSATION_LIMIT' | 'UNANSWERED_COOLDOWN' | 'QUIET_HOURS';
+
+export interface RecipientPolicySettings {
+  enabled: boolean;
+  // What the queue does with a message that breaks a rule; messages that waiting wouldn't help are always rejected
+  action: 'defer' | 'reject';
+  neverRepliedLimit?: number; // Messages to a recipient who has never replied
+  newConversationsPerDay?: number; // Recipients the device writes to for the first time
+  unansweredLimit?: number; // Messages in a row without an answer before the cooldown applies
+  unansweredCooldownMinutes?: number; // Wait after the last of them
+  quietHours?: { start: string; end: string }; // HH:mm in the recipient's timezone, end may be before start
+  timezone: string; // IANA name for recipients whose timezone is unknown, and the day of newConversationsPerDay
+}
+
+export interface RecipientPolicy extends RecipientPolicySettings {
+  deviceId: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export type RecipientPolicyInput = Partial<RecipientPolicySettings>;
+
+/**
+ * What the device knows about a private chat, from the messages it sent and received
+ */
+export interface RecipientState {
+  chatId: string;
+  sent: number;
+  unanswered: number; // Messages sent since the recipient last wrote
+  firstSentAt?: number;
+  lastSentAt?: number;
+  lastReplyAt?: number; // Last message from the recipient
+  timezone?: string; // Set through the API; guessed from the phone number otherwise
+}
+
+export interface RecipientPolicyViolation {
+  code: RecipientPolicyCode;
+  reason: string;
+  retryAt?: number; // When the message could go out; unset when waiting wouldn't help
+}
+
+export interface RecipientPolicyDecision extends RecipientPolicyViolation {
+  action: 'defer' | 'reject';
+}
+
+export interface RecipientPolicyConfig {
+  stateTtl: number; // Seconds
+}
+
+const DEFAULT_CONFIG: RecipientPolicyConfig = {
+  stateTtl: parseInt(process.env.RECIPIENT_POLICY_STATE_TTL || '7776000'), // 90 days
+};
+
+const DEFAULT_SETTINGS: RecipientPolicySettings = {
+  enabled: true,
+  action: 'defer',
+  timezone: 'UTC',
+};
+
+const MINUTES_PER_DAY = 24 * 60;
+
+// Calling codes of countries with a single timezone, or one most of their people live in
+const CALLING_CODE_TIMEZONES: Record<string, string> = {
+  '20': 'Africa/Cairo',
+  '27': 'Africa/Johannesburg',
+  '30': 'Europe/Athens',
+  '31': 'Europe/Amsterdam',
+  '32': 'Europe/Brussels',
+  '33': 'Europe/Paris',
+  '34': 'Europe/Madrid',
+  '36': 'Europe/Budapest',
+  '39': 'Europe/Rome',
+  '40': 'Europe/Bucharest',
+  '41': 'Europe/Zurich',
+  '43': 'Europe/Vienna',
+  '44': 'Europe/London',
+  '45': 'Europe/Copenhagen',
+  '46': 'Europe/Stockholm',
+  '47': 'Europe/Oslo',
+  '48': 'Europe/Warsaw',
+  '49': 'Europe/Berlin',
+  '51': 'America/Lima',
+  '52': 'America/Mexico_City',
+  '53': 'America/Havana',
+  '54': 'America/Argentina/Buenos_Aires',
+  '55': 'America/Sao_Paulo',
+  '56': 'America/Santiago',
+  '57': 'America/Bogota',
+  '58': 'America/Caracas',
+  '60': 'Asia/Kuala_Lumpur',
+  '62': 'Asia/Jakarta',
+  '63': 'Asia/Manila',
+  '64': 'Pacific/Auckland',
+  '65': 'Asia/Singapore',
+  '66': 'Asia/Bangkok',
+  '81': 'Asia/Tokyo',
+  '82': 'Asia/Seoul',
+  '84': 'Asia/Ho_Chi_Minh',
+  '86': 'Asia/Shanghai',
+  '90': 'Europe/Istanbul',
+  '91': 'Asia/Kolkata',
+  '92': 'Asia/Karachi',
+  '212': 'Africa/Casablanca',
+  '233': 'Africa/Accra',
+  '234': 'Africa/Lagos',
+  '254': 'Africa/Nairobi',
+  '351': 'Europe/Lisbon',
+  '353': 'Europe/Dublin',
+  '593': 'America/Guayaquil',
+  '880': 'Asia/Dhaka',
+  '966': 'Asia/Riyadh',
+  '971': 'Asia/Dubai',
+  '972': 'Asia/Jerusalem',
+};
+
+const toMinutes = (time: string): number => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+/**
+ * Policies only apply to private chats
+ */
+export function isPolicyRecipient(chatId: string): boolean {
+  return chatId.endsWith('@c.us');
+}
+
+/**
+ * Guess a recipient's timezone from the calling code of their number
+ */
+export function guessRecipientTimezone(chatId: string): string | undefined {
+  const number = chatId.split('@')[0];
+  for (const length of [3, 2]) {
+    const timezone = CALLING_CODE_TIMEZONES[number.slice(0, length)];
+    if (timezone) return timezone;
+  }
+  return undefined;
+}
+
+/**
+ * Minutes since midnight at a point in time, in a timezone
+ */
+export function getLocalMinutes(timezone: string, at: number): number {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: timezone,
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23',
+  }).formatToParts(new Date(at));
+  const part = (type: string) => parseInt(parts.find(p => p.type === type)?.value || '0');
+
+  return part('hour') * 60 + part('minute');
+}
+
+/**
+ * Check a message to a recipient against a policy. Rules are checked from the one that waiting can't fix
+ * to the shortest wait, and the first one broken is returned.
+ */
+export function evaluateRecipientPolicy(
+  policy: RecipientPolicySettings,
+  state: RecipientState | null,
+  context: { timezone: string; newConversationsToday: number; at: number }
+): RecipientPolicyViolation | null {
+  const { at } = context;
+  const sent = state?.sent || 0;
+  const replied = !!state?.lastReplyAt;
+
+  if (policy.neverRepliedLimit !== undefined && !replied && sent >= policy.neverRepliedLimit) {
+    return {
+      code: 'NEVER_REPLIED_LIMIT',
+      reason: `Recipient never replied to the ${sent} message(s) already sent (limit ${policy.neverRepliedLimit})`,
+    };
+  }
+
+  if (policy.newConversationsPerDay !== undefined && !replied && sent === 0 && context.newConversationsToday >= policy.newConversationsPerDay) {
+    return {
+      code: 'NEW_CONVERSATION_LIMIT',
+      reason: `Device already started ${context.newConversationsToday} new conversation(s) today (limit ${policy.newConversationsPerDay})`,
+      retryAt: at + (MINUTES_PER_DAY - getLocalMinutes(policy.timezone, at)) * 60 * 1000,
+    };
+  }
+
+  if (policy.unansweredLimit !== undefined && policy.unansweredCooldownMinutes && state?.lastSentAt && state.unanswered >= policy.unansweredLimit) {
+    const cooldownEndsAt = state.lastSentAt + policy.unansweredCooldownMinutes * 60 * 1000;
+    if (at < cooldownEndsAt) {
+      return {
+        code: 'UNANSWERED_COOLDOWN',
+        reason: `${state.unanswered} message(s) in a row without an answer; waiting ${policy.unansweredCooldownMinutes} minutes after the last one`,
+        retryAt: cooldownEndsAt,
+      };
+    }
+  }
+
+  if (policy.quietHours) {
+    const minutes = getLocalMinutes(context.timezone, at);
+    const start = toMinutes(policy.quietHours.start);
+    const end = toMinutes(policy.quietHours.end);
+    const quiet = start <= end ? minutes >= start && minutes < end : minutes >= start || minutes < end;
+
+    if (quiet) {
+      return {
+        code: 'QUIET_HOURS',
+        reason: `Quiet hours ${policy.quietHours.start}-${policy.quietHours.end} in ${context.timezone}`,
+        retryAt: at + ((end - minutes + MINUTES_PER_DAY) % MINUTES_PER_DAY) * 60 * 1000,
+      };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Per-device rules on how often and when recipients are written to, checked by the message queue before each send
+ */
+export class RecipientPolicyService {
+  private static instance: RecipientPolicyService;
+  private redisClient;
+  private config: RecipientPolicyConfig;
+
+  // Redis keys with specific prefixes to avoid conflicts
+  private readonly POLICY_KEY = 'whatsapp:recipient_policy';
+  private readonly STATE_KEY = 'whatsapp:recipient_state';
+  private readonly NEW_CONVERSATIONS_KEY = 'whatsapp:recipient_new_conversations';
+
+  private constructor() {
+    this.redisClient = getRedisClient();
+    this.config = { ...DEFAULT_CONFIG };
+  }
+
+  public static getInstance(): RecipientPolicyService {
+    if (!RecipientPolicyService.instance) {
+      RecipientPolicyService.instance = new RecipientPolicyService();
+    }
+    return RecipientPolicyService.instance;
+  }
+
+  public async getPolicy(deviceId: string): Promise<RecipientPolicy | null> {
+    const data = await this.redisClient.hget(this.POLICY_KEY, deviceId);
+    return data ? JSON.parse(data) : null;
+  }
+
+  public async setPolicy(deviceId: string, input: RecipientPolicyInput): Promise<RecipientPolicy> {
+    const existing = await this.getPolicy(deviceId);
+    const now = Date.now();
+    const policy: RecipientPolicy = {
+      ...DEFAULT_SETTINGS,
+      ...input,
+      deviceId,
+      createdAt: existing?.createdAt ?? now,
+      updatedAt: now,
+    };
+
+    await this.redisClient.hset(this.POLICY_KEY, deviceId, JSON.stringify(policy));
+    logInfo(`Recipient policy set for device ${deviceId} (${policy.enabled ? 'enabled' : 'disabled'}, ${policy.action} on violation)`);
+
+    return policy;
+  }
+
+  /**
+   * @param updates - Rules set to null are removed
+   * @returns The updated policy, or null when the device has none
+   */
+  public async updatePolicy(deviceId: string, updates: { [K in keyof RecipientPolicySettings]?: RecipientPolicySettings[K] | null }): Promise<RecipientPolicy | null> {
+    const existing = await this.getPolicy(deviceId);
+    if (!existing) return null;
+
+    const policy = { ...existing, ...updates, updatedAt: Date.now() } as RecipientPolicy;
+    for (const key of Object.keys(updates) as (keyof RecipientPolicySettings)[]) {
+      if (updates[key] === null) delete policy[key];
+    }
+
+    await this.redisClient.hset(this.POLICY_KEY, deviceId, JSON.stringify(policy));
+    return policy;
+  }
+
+  /**
+   * Remove the policy. Recipient history is kept, so a new policy applies to it right away.
+   */
+  public async deletePolicy(deviceId: string): Promise<boolean> {
+    return (await this.redisClient.hdel(this.POLICY_KEY, deviceId)) > 0;
+  }
+
+  public async getRecipient(deviceId: string, chatId: string): Promise<RecipientState | null> {
+    const data = await this.redisClient.hget(`${this.STATE_KEY}:${deviceId}`, chatId);
+    return data ? JSON.parse(data) : null;
+  }
+
+  /**
+   * Set the timezone quiet hours use for a recipient, or go back to guessing it with null
+   */
+  public async setRecipientTimezone(deviceId: string, chatId: string, timezone: string | null): Promise<RecipientState> {
+    const state = (await this.getRecipient(deviceId, chatId)) || { chatId, sent: 0, unanswered: 0 };
+    if (timezone) {
+      state.timezone = timezone;
+    } else {
+      delete state.timezone;
+    }
+
+    await this.saveRecipient(deviceId, state);
+    return state;
+  }
+
+  /**
+   * The recipient's own timezone, else the one of their calling code, else the policy's
+   */
+  public getRecipientTimezone(policy: RecipientPolicySettings, chatId: string, state: RecipientState | null): string {
+    return state?.timezone || guessRecipientTimezone(chatId) || policy.timezone;
+  }
+
+  /**
+   * Check whether a message may go out to a recipient now. Sends go ahead when the policy can't be read.
+   */
+  public async checkMessage(deviceId: string, to: string, at: number = Date.now()): Promise<RecipientPolicyDecision | null> {
+    const chatId = to.includes('@') ? to : `${to}@c.us`;
+    if (!isPolicyRecipient(chatId)) return null;
+
+    try {
+      const policy = await this.getPolicy(deviceId);
+      if (!policy?.enabled) return null;
+
+      const state = await this.getRecipient(deviceId, chatId);
+      const newConversationsToday = policy.newConversationsPerDay !== undefined
+        ? parseInt((await this.redisClient.get(this.newConversationsKey(deviceId, policy.timezone, at))) || '0')
+        : 0;
+
+      const violation = evaluateRecipientPolicy(policy, state, {
+        timezone: this.getRecipientTimezone(policy, chatId, state),
+        newConversationsToday,
+        at,
+      });
+      if (!violation) return null;
+
+      return { ...violation, action: policy.action === 'defer' && violation.retryAt ? 'defer' : 'reject' };
+    } catch (error) {
+      logError(`Failed to check recipient policy of device ${deviceId}:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Record a reply from a recipient. Never throws.
+   */
+  public async handleIncomingMessage(deviceId: string, message: Message): Promise<void> {
+    if (message.fromMe || !isPolicyRecipient(message.from)) return;
+
+    try {
+      const state = (await this.getRecipient(deviceId, message.from)) || { chatId: message.from, sent: 0, unanswered: 0 };
+      await this.saveRecipient(deviceId, { ...state, unanswered: 0, lastReplyAt: Date.now() });
+    } catch (error) {
+      logError(`Failed to record reply for recipient policy of device ${deviceId}:`, error);
+    }
+  }
+
+  /**
+   * Record a message the device sent, from the API, the queue or the phone. Never throws.
+   */
+  public async handleOutgoingMessage(deviceId: string, message: Message): Promise<void> {
+    if (!message.fromMe || !isPolicyRecipient(message.to)) return;
+
+    try {
+      const now = Date.now();
+      const state = (await this.getRecipient(deviceId, message.to)) || { chatId: message.to, sent: 0, unanswered: 0 };
+
+      if (state.sent === 0 && !state.lastReplyAt) {
+        const policy = await this.getPolicy(deviceId);
+        const key = this.newConversationsKey(deviceId, policy?.timezone || DEFAULT_SETTINGS.timezone, now);
+        await this.redisClient.incr(key);
+        await this.redisClient.expire(key, 2 * 24 * 60 * 60);
+      }
+
+      await this.saveRecipient(deviceId, {
+        ...state,
+        sent: state.sent + 1,
+        unanswered: state.unanswered + 1,
+        firstSentAt: state.firstSentAt ?? now,
+        lastSentAt: now,
+      });
+    } catch (error) {
+      logError(`Failed to record sent message for recipient policy of device ${deviceId}:`, error);
+    }
+  }
+
+  private async saveRecipient(deviceId: string, state: RecipientState): Promise<void> {
+    const key = `${this.STATE_KEY}:${deviceId}`;
+    await this.redisClient.hset(key, state.chatId, JSON.stringify(state));
+    // Recipient history is forgotten once the device hasn't talked to anyone for stateTtl
+    await this.redisClient.expire(key, this.config.stateTtl);
+  }
+
+  /**
+   * Counter of new conversations for the day it is at `at` in the policy's timezone
+   */
+  private newConversationsKey(deviceId: string, timezone: string, at: number): string {
+    const day = new Intl.DateTimeFormat('en-CA', { timeZone: timezone, year: 'numeric', month: '2-digit', day: '2-digit' }).format(new Date(at));
+    return `${this.NEW_CONVERSATIONS_KEY}:${deviceId}:${day}`;
+  }
+}
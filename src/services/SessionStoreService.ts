@@ -0,0 +1,413 @@
+import axios from 'axios';
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { AuthStrategy, LocalAuth, RemoteAuth, Store } from 'whatsapp-web.js';
+import { getRedisClient } from '../config/redis';
+import { env } from '../config/env';
+import { logInfo, logError } from '../config/logger';
+
+/**
+ * Where session archives are kept. Add an implementation and a case in createSessionBackend to support another one.
+ */
+export interface SessionBackend {
+  readonly name: string;
+  exists(session: string): Promise<boolean>;
+  read(session: string): Promise<Buffer | null>;
+  write(session: string, data: Buffer): Promise<void>;
+  delete(session: string): Promise<void>;
+}
+
+export interface S3SessionConfig {
+  endpoint?: string; // Defaults to AWS for the region
+  region: string;
+  bucket?: string;
+  accessKeyId?: string;
+  secretAccessKey?: string;
+  prefix: string;
+  forcePathStyle: boolean; // Bucket in the path rather than the host name, as MinIO expects
+}
+
+export interface SessionStoreConfig {
+  store: string; // 'local', 'redis', 'file' or 's3'
+  dataPath: string; // Browser profiles of running devices
+  backupInterval: number; // ms, at least a minute
+  encryptionKey?: string;
+  filePath: string;
+  s3: S3SessionConfig;
+  timeout: number;
+}
+
+const DEFAULT_CONFIG: SessionStoreConfig = {
+  store: process.env.SESSION_STORE || 'local',
+  dataPath: process.env.SESSION_DATA_PATH || './.wwebjs_auth',
+  backupInterval: parseInt(process.env.SESSION_BACKUP_INTERVAL || '300000'), // 5 minutes
+  encryptionKey: process.env.SESSION_ENCRYPTION_KEY || undefined,
+  filePath: process.env.SESSION_FILE_PATH || './session-backups',
+  s3: {
+    endpoint: process.env.SESSION_S3_ENDPOINT || undefined,
+    region: process.env.SESSION_S3_REGION || 'us-east-1',
+    bucket: process.env.SESSION_S3_BUCKET,
+    accessKeyId: process.env.SESSION_S3_ACCESS_KEY_ID,
+    secretAccessKey: process.env.SESSION_S3_SECRET_ACCESS_KEY,
+    prefix: process.env.SESSION_S3_PREFIX || 'sessions/',
+    forcePathStyle: process.env.SESSION_S3_FORCE_PATH_STYLE !== 'false',
+  },
+  timeout: parseInt(process.env.SESSION_STORE_TIMEOUT || '60000'),
+};
+
+const MIN_BACKUP_INTERVAL = 60000; // RemoteAuth rejects shorter intervals
+
+// Encrypted archives start with this, plain ones with the zip signature "PK"
+const ENCRYPTED_MAGIC = Buffer.from('WWSE1');
+const IV_LENGTH = 12;
+const TAG_LENGTH = 16;
+
+const deriveKey = (secret: string): Buffer => crypto.createHash('sha256').update(secret).digest();
+
+/**
+ * Encrypt a session archive with AES-256-GCM
+ */
+export function encryptSessionArchive(data: Buffer, secret: string): Buffer {
+  const iv = crypto.randomBytes(IV_LENGTH);
+  const cipher = crypto.createCipheriv('aes-256-gcm', deriveKey(secret), iv);
+  const encrypted = Buffer.concat([cipher.update(data), cipher.final()]);
+
+  return Buffer.concat([ENCRYPTED_MAGIC, iv, cipher.getAuthTag(), encrypted]);
+}
+
+export function isEncryptedSessionArchive(data: Buffer): boolean {
+  return data.subarray(0, ENCRYPTED_MAGIC.length).equals(ENCRYPTED_MAGIC);
+}
+
+/**
+ * Decrypt a session archive. Plain archives, saved before a key was set, are returned as they are.
+ * @throws Error when the archive is encrypted and the key is missing or wrong
+ */
+export function decryptSessionArchive(data: Buffer, secret?: string): Buffer {
+  if (!isEncryptedSessionArchive(data)) return data;
+  if (!secret) {
+    throw new Error('Session archive is encrypted, set SESSION_ENCRYPTION_KEY to restore it');
+  }
+
+  const ivStart = ENCRYPTED_MAGIC.length;
+  const tagStart = ivStart + IV_LENGTH;
+  const dataStart = tagStart + TAG_LENGTH;
+  const decipher = crypto.createDecipheriv('aes-256-gcm', deriveKey(secret), data.subarray(ivStart, tagStart));
+  decipher.setAuthTag(data.subarray(tagStart, dataStart));
+
+  try {
+    return Buffer.concat([decipher.update(data.subarray(dataStart)), decipher.final()]);
+  } catch {
+    throw new Error('Session archive could not be decrypted, check SESSION_ENCRYPTION_KEY');
+  }
+}
+
+/**
+ * Archives in Redis, next to the rest of the device data
+ */
+export class RedisSessionBackend implements SessionBackend {
+  readonly name = 'redis';
+  private readonly redisClient = getRedisClient();
+
+  constructor(private readonly keyPrefix: string = 'whatsapp:auth:') {}
+
+  async exists(session: string): Promise<boolean> {
+    return (await this.redisClient.exists(`${this.keyPrefix}${session}`)) === 1;
+  }
+
+  async read(session: string): Promise<Buffer | null> {
+    return this.redisClient.getBuffer(`${this.keyPrefix}${session}`);
+  }
+
+  async write(session: string, data: Buffer): Promise<void> {
+    await this.redisClient.set(`${this.keyPrefix}${session}`, data);
+  }
+
+  async delete(session: string): Promise<void> {
+    await this.redisClient.del(`${this.keyPrefix}${session}`);
+  }
+}
+
+/**
+ * Archives in a directory, for a volume shared between hosts
+ */
+export class FileSessionBackend implements SessionBackend {
+  readonly name = 'file';
+
+  constructor(private readonly directory: string) {}
+
+  private filePath(session: string): string {
+    return path.join(this.directory, `${session}.zip`);
+  }
+
+  async exists(session: string): Promise<boolean> {
+    return fs.existsSync(this.filePath(session));
+  }
+
+  async read(session: string): Promise<Buffer | null> {
+    try {
+      return await fs.promises.readFile(this.filePath(session));
+    } catch (error: any) {
+      if (error.code === 'ENOENT') return null;
+      throw error;
+    }
+  }
+
+  async write(session: string, data: Buffer): Promise<void> {
+    await fs.promises.mkdir(this.directory, { recursive: true });
+    // Write next to the archive and rename, so a crash never leaves half an archive behind
+    const temporary = `${this.filePath(session)}.tmp`;
+    await fs.promises.writeFile(temporary, data);
+    await fs.promises.rename(temporary, this.filePath(session));
+  }
+
+  async delete(session: string): Promise<void> {
+    await fs.promises.rm(this.filePath(session), { force: true });
+  }
+}
+
+/**
+ * Archives in an S3 bucket, or any server with the same API such as MinIO. Requests are signed with AWS Signature Version 4.
+ */
+export class S3SessionBackend implements SessionBackend {
+  readonly name = 's3';
+
+  constructor(private readonly config: S3SessionConfig, private readonly timeout: number) {}
+
+  private objectUrl(session: string): URL {
+    const { region, bucket, prefix, forcePathStyle } = this.config;
+    const endpoint = new URL(this.config.endpoint || `https://s3.${region}.amazonaws.com`);
+    const key = `${prefix}${session}.zip`.split('/').map(encodeURIComponent).join('/');
+    const basePath = endpoint.pathname.replace(/\/$/, '');
+
+    if (forcePathStyle) {
+      return new URL(`${endpoint.protocol}//${endpoint.host}${basePath}/${bucket}/${key}`);
+    }
+    return new URL(`${endpoint.protocol}//${bucket}.${endpoint.host}${basePath}/${key}`);
+  }
+
+  private async request(method: 'GET' | 'HEAD' | 'PUT' | 'DELETE', session: string, body?: Buffer) {
+    const url = this.objectUrl(session);
+    const headers = signS3Request({
+      method,
+      url,
+      body: body || Buffer.alloc(0),
+      region: this.config.region,
+      accessKeyId: this.config.accessKeyId!,
+      secretAccessKey: this.config.secretAccessKey!,
+      date: new Date(),
+    });
+
+    return axios.request({
+      method,
+      url: url.toString(),
+      headers: body ? { ...headers, 'Content-Type': 'application/zip' } : headers,
+      data: body,
+      responseType: 'arraybuffer',
+      timeout: this.timeout,
+      maxBodyLength: Infinity,
+      maxContentLength: Infinity,
+      validateStatus: status => (status >= 200 && status < 300) || status === 404,
+    });
+  }
+
+  async exists(session: string): Promise<boolean> {
+    return (await this.request('HEAD', session)).status !== 404;
+  }
+
+  async read(session: string): Promise<Buffer | null> {
+    const response = await this.request('GET', session);
+    return response.status === 404 ? null : Buffer.from(response.data);
+  }
+
+  async write(session: string, data: Buffer): Promise<void> {
+    await this.request('PUT', session, data);
+  }
+
+  async delete(session: string): Promise<void> {
+    await this.request('DELETE', session);
+  }
+}
+
+/**
+ * Headers that authenticate an S3 request with AWS Signature Version 4
+ */
+export function signS3Request(request: {
+  method: string;
+  url: URL;
+  body: Buffer;
+  region: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+  date: Date;
+}): Record<string, string> {
+  const sha256 = (data: string | Buffer) => crypto.createHash('sha256').update(data).digest('hex');
+  const hmac = (key: string | Buffer, data: string) => crypto.createHmac('sha256', key).update(data).digest();
+
+  const amzDate = request.date.toISOString().replace(/[:-]|\.\d{3}/g, '');
+  const day = amzDate.slice(0, 8);
+  const payloadHash = sha256(request.body);
+  const headers: Record<string, string> = {
+    'host': request.url.host,
+    'x-amz-content-sha256': payloadHash,
+    'x-amz-date': amzDate,
+  };
+  const signedHeaders = Object.keys(headers).sort();
+
+  const canonicalRequest = [
+    request.method,
+    request.url.pathname,
+    request.url.searchParams.toString(),
+    ...signedHeaders.map(name => `${name}:${headers[name]}`),
+    '',
+    signedHeaders.join(';'),
+    payloadHash,
+  ].join('\n');
+  const scope = `${day}/${request.region}/s3/aws4_request`;
+  const stringToSign = ['AWS4-HMAC-SHA256', amzDate, scope, sha256(canonicalRequest)].join('\n');
+
+  let signingKey = hmac(`AWS4${request.secretAccessKey}`, day);
+  for (const part of [request.region, 's3', 'aws4_request']) {
+    signingKey = hmac(signingKey, part);
+  }
+  const signature = crypto.createHmac('sha256', signingKey).update(stringToSign).digest('hex');
+
+  // Host is set by the HTTP client
+  return {
+    'x-amz-content-sha256': payloadHash,
+    'x-amz-date': amzDate,
+    'Authorization': `AWS4-HMAC-SHA256 Credential=${request.accessKeyId}/${scope}, SignedHeaders=${signedHeaders.join(';')}, Signature=${signature}`,
+  };
+}
+
+/**
+ * Create the configured backend, or null when sessions stay on local disk
+ * @throws Error when the store is unknown or misconfigured
+ */
+export function createSessionBackend(config: SessionStoreConfig): SessionBackend | null {
+  switch (config.store) {
+    case 'local':
+      return null;
+    case 'redis':
+      if (!env.REDIS_ENABLED) {
+        throw new Error('SESSION_STORE=redis requires REDIS_ENABLED=true');
+      }
+      return new RedisSessionBackend();
+    case 'file':
+      return new FileSessionBackend(path.resolve(config.filePath));
+    case 's3':
+      if (!config.s3.bucket || !config.s3.accessKeyId || !config.s3.secretAccessKey) {
+        throw new Error('SESSION_STORE=s3 requires SESSION_S3_BUCKET, SESSION_S3_ACCESS_KEY_ID and SESSION_S3_SECRET_ACCESS_KEY');
+      }
+      return new S3SessionBackend(config.s3, config.timeout);
+    default:
+      throw new Error(`Unknown session store "${config.store}", use "local", "redis", "file" or "s3"`);
+  }
+}
+
+/**
+ * Where WhatsApp sessions live. With the default local store each device keeps its browser profile on disk (LocalAuth).
+ * Any other store backs the profile up as a zip archive through RemoteAuth, so a device restores on another host
+ * without scanning the QR code again.
+ *
+ * The service is the RemoteAuth store: RemoteAuth writes `<session>.zip` to the working directory before save,
+ * and unpacks the file written to `path` after extract.
+ */
+export class SessionStoreService implements Store {
+  private static instance: SessionStoreService;
+  private config: SessionStoreConfig;
+  private backend: SessionBackend | null;
+
+  private constructor() {
+    this.config = { ...DEFAULT_CONFIG };
+    // A misconfigured store must not quietly fall back to local disk, where sessions would be lost
+    this.backend = createSessionBackend(this.config);
+
+    if (this.backend) {
+      logInfo(`Sessions are backed up to the ${this.backend.name} store every ${Math.round(this.getBackupInterval() / 1000)}s${this.config.encryptionKey ? ', encrypted' : ''}`);
+    }
+  }
+
+  public static getInstance(): SessionStoreService {
+    if (!SessionStoreService.instance) {
+      SessionStoreService.instance = new SessionStoreService();
+    }
+    return SessionStoreService.instance;
+  }
+
+  public getStoreName(): string {
+    return this.backend?.name || 'local';
+  }
+
+  /**
+   * The auth strategy for a device's client
+   */
+  public createAuthStrategy(deviceId: string): AuthStrategy {
+    if (!this.backend) {
+      return new LocalAuth({ clientId: deviceId, dataPath: this.config.dataPath });
+    }
+
+    return new RemoteAuth({
+      clientId: deviceId,
+      dataPath: this.config.dataPath,
+      store: this,
+      backupSyncIntervalMs: this.getBackupInterval(),
+    });
+  }
+
+  /**
+   * Remove a device's session from the store and from local disk. Never throws.
+   */
+  public async deleteSession(deviceId: string): Promise<void> {
+    const directories = [`session-${deviceId}`, `RemoteAuth-${deviceId}`, `wwebjs_temp_session_${deviceId}`];
+
+    try {
+      if (this.backend) {
+        await this.backend.delete(`RemoteAuth-${deviceId}`);
+      }
+      for (const directory of directories) {
+        await fs.promises.rm(path.join(path.resolve(this.config.dataPath), directory), { recursive: true, force: true });
+      }
+    } catch (error) {
+      logError(`Failed to delete session of device ${deviceId}:`, error);
+    }
+  }
+
+  async sessionExists(options: { session: string }): Promise<boolean> {
+    return this.requireBackend().exists(options.session);
+  }
+
+  async save(options: { session: string }): Promise<void> {
+    const archive = await fs.promises.readFile(path.resolve(`${options.session}.zip`));
+    const data = this.config.encryptionKey ? encryptSessionArchive(archive, this.config.encryptionKey) : archive;
+
+    await this.requireBackend().write(options.session, data);
+    logInfo(`Session ${options.session} backed up to the ${this.getStoreName()} store (${data.length} bytes)`);
+  }
+
+  async extract(options: { session: string; path: string }): Promise<void> {
+    const data = await this.requireBackend().read(options.session);
+    if (!data) {
+      throw new Error(`Session ${options.session} not found in the ${this.getStoreName()} store`);
+    }
+
+    await fs.promises.writeFile(options.path, decryptSessionArchive(data, this.config.encryptionKey));
+    logInfo(`Session ${options.session} restored from the ${this.getStoreName()} store`);
+  }
+
+  async delete(options: { session: string }): Promise<void> {
+    await this.requireBackend().delete(options.session);
+  }
+
+  private getBackupInterval(): number {
+    return Math.max(this.config.backupInterval, MIN_BACKUP_INTERVAL);
+  }
+
+  private requireBackend(): SessionBackend {
+    if (!this.backend) {
+      throw new Error('Sessions are kept on local disk, there is no session store');
+    }
+    return this.backend;
+  }
+}
@@ -0,0 +1,343 @@
+import axios from 'axios';
+import { Message } from 'whatsapp-web.js';
+import { getRedisClient } from '../config/redis';
+import { env } from '../config/env';
+import { logInfo, logError } from '../config/logger';
+import { MessageStoreService } from './MessageStoreService';
+
+export interface Transcript {
+  messageId: string;
+  deviceId: string;
+  chatId: string;
+  text: string;
+  language?: string;
+  duration?: number; // Seconds, when WhatsApp reports it
+  backend: string;
+  model?: string;
+  createdAt: number;
+}
+
+export interface TranscriptionRequest {
+  audio: Buffer;
+  mimetype: string;
+  filename: string;
+  language?: string;
+}
+
+export interface TranscriptionOutput {
+  text: string;
+  language?: string;
+}
+
+/**
+ * A speech-to-text server. Add an implementation and a case in createTranscriptionBackend to support another one.
+ */
+export interface TranscriptionBackend {
+  readonly name: string;
+  readonly model?: string;
+  transcribe(request: TranscriptionRequest): Promise<TranscriptionOutput>;
+}
+
+export interface TranscriptionServiceConfig {
+  backend: string; // 'openai', 'whisper-cpp' or empty to disable
+  baseUrl?: string;
+  apiKey?: string;
+  model: string;
+  language?: string;
+  auto: boolean; // Transcribe inbound voice notes as they arrive
+  maxDuration: number; // Seconds; longer recordings are not transcribed
+  timeout: number;
+  cacheTtl: number; // Seconds
+}
+
+export type TranscriptListener = (transcript: Transcript) => void;
+
+const DEFAULT_CONFIG: TranscriptionServiceConfig = {
+  backend: process.env.TRANSCRIPTION_BACKEND || '',
+  baseUrl: process.env.TRANSCRIPTION_BASE_URL,
+  apiKey: process.env.TRANSCRIPTION_API_KEY || process.env.OPENAI_API_KEY,
+  model: process.env.TRANSCRIPTION_MODEL || 'whisper-1',
+  language: process.env.TRANSCRIPTION_LANGUAGE || undefined,
+  auto: process.env.TRANSCRIPTION_AUTO === 'true',
+  maxDuration: parseInt(process.env.TRANSCRIPTION_MAX_DURATION || '600'), // 10 minutes
+  timeout: parseInt(process.env.TRANSCRIPTION_TIMEOUT || '120000'), // 2 minutes
+  cacheTtl: parseInt(process.env.TRANSCRIPTION_CACHE_TTL || '2592000'), // 30 days
+};
+
+const AUDIO_TYPES = ['ptt', 'audio'];
+
+/**
+ * Voice notes (ptt) and audio files can be transcribed
+ */
+export function isTranscribable(message: { type?: string; hasMedia?: boolean }): boolean {
+  return !!message.hasMedia && AUDIO_TYPES.includes(message.type || '');
+}
+
+/**
+ * The file name sent to the backend. Servers pick the decoder by extension.
+ */
+export function getAudioFilename(mimetype: string): string {
+  const type = mimetype.split(';')[0].trim().toLowerCase();
+  const extensions: Record<string, string> = {
+    'audio/ogg': 'ogg',
+    'audio/opus': 'ogg',
+    'audio/mpeg': 'mp3',
+    'audio/mp3': 'mp3',
+    'audio/mp4': 'm4a',
+    'audio/aac': 'm4a',
+    'audio/x-m4a': 'm4a',
+    'audio/wav': 'wav',
+    'audio/x-wav': 'wav',
+    'audio/webm': 'webm',
+    'audio/amr': 'amr',
+  };
+  return `audio.${extensions[type] || 'ogg'}`;
+}
+
+/**
+ * OpenAI's /audio/transcriptions endpoint, or any server that implements it
+ */
+export class OpenAITranscriptionBackend implements TranscriptionBackend {
+  readonly name = 'openai';
+
+  constructor(
+    private readonly baseUrl: string,
+    readonly model: string,
+    private readonly apiKey: string | undefined,
+    private readonly timeout: number
+  ) {}
+
+  async transcribe(request: TranscriptionRequest): Promise<TranscriptionOutput> {
+    const form = new FormData();
+    form.append('file', new Blob([request.audio], { type: request.mimetype }), request.filename);
+    form.append('model', this.model);
+    form.append('response_format', 'json');
+    if (request.language) form.append('language', request.language);
+
+    const response = await axios.post(`${this.baseUrl.replace(/\/$/, '')}/audio/transcriptions`, form, {
+      headers: this.apiKey ? { 'Authorization': `Bearer ${this.apiKey}` } : {},
+      timeout: this.timeout,
+    });
+
+    return { text: String(response.data?.text ?? '').trim(), language: response.data?.language || request.language };
+  }
+}
+
+/**
+ * The whisper.cpp example server. Start it with --convert so it accepts WhatsApp's Ogg/Opus voice notes.
+ */
+export class WhisperCppTranscriptionBackend implements TranscriptionBackend {
+  readonly name = 'whisper-cpp';
+
+  constructor(
+    private readonly baseUrl: string,
+    private readonly timeout: number
+  ) {}
+
+  async transcribe(request: TranscriptionRequest): Promise<TranscriptionOutput> {
+    const form = new FormData();
+    form.append('file', new Blob([request.audio], { type: request.mimetype }), request.filename);
+    form.append('response_format', 'json');
+    form.append('temperature', '0');
+    if (request.language) form.append('language', request.language);
+
+    const response = await axios.post(`${this.baseUrl.replace(/\/$/, '')}/inference`, form, { timeout: this.timeout });
+
+    if (response.data?.error) {
+      throw new Error(`whisper.cpp: ${response.data.error}`);
+    }
+    return { text: String(response.data?.text ?? '').trim(), language: request.language };
+  }
+}
+
+/**
+ * Create the configured backend, or null when transcription is disabled
+ * @throws Error when the backend is unknown
+ */
+export function createTranscriptionBackend(config: TranscriptionServiceConfig): TranscriptionBackend | null {
+  switch (config.backend) {
+    case '':
+      return null;
+    case 'openai':
+      return new OpenAITranscriptionBackend(config.baseUrl || 'https://api.openai.com/v1', config.model, config.apiKey, config.timeout);
+    case 'whisper-cpp':
+      return new WhisperCppTranscriptionBackend(config.baseUrl || 'http://127.0.0.1:8080', config.timeout);
+    default:
+      throw new Error(`Unknown transcription backend "${config.backend}", use "openai" or "whisper-cpp"`);
+  }
+}
+
+/**
+ * Speech-to-text for voice notes and audio messages. Transcripts are cached by message ID
+ * and written to the message index so they can be searched.
+ */
+export class TranscriptionService {
+  private static instance: TranscriptionService;
+  private redisClient;
+  private config: TranscriptionServiceConfig;
+  private backend: TranscriptionBackend | null;
+  private inFlight = new Map<string, Promise<Transcript>>();
+  private listeners: TranscriptListener[] = [];
+
+  // Redis keys with specific prefixes to avoid conflicts
+  private readonly TRANSCRIPT_KEY = 'whatsapp:transcript';
+
+  private constructor() {
+    // Without Redis, transcripts are only kept in the message index
+    this.redisClient = env.REDIS_ENABLED ? getRedisClient() : null;
+    this.config = { ...DEFAULT_CONFIG };
+    try {
+      this.backend = createTranscriptionBackend(this.config);
+    } catch (error) {
+      logError('Transcription disabled:', error);
+      this.backend = null;
+    }
+
+    if (this.backend) {
+      logInfo(`Transcription enabled with the ${this.backend.name} backend${this.config.auto ? ', voice notes are transcribed as they arrive' : ''}`);
+    }
+  }
+
+  public static getInstance(): TranscriptionService {
+    if (!TranscriptionService.instance) {
+      TranscriptionService.instance = new TranscriptionService();
+    }
+    return TranscriptionService.instance;
+  }
+
+  public isEnabled(): boolean {
+    return this.backend !== null;
+  }
+
+  /**
+   * Called with every new transcript, whether it was made automatically or on demand
+   */
+  public onTranscribed(listener: TranscriptListener): void {
+    this.listeners.push(listener);
+  }
+
+  /**
+   * The stored transcript of a message, without transcribing it
+   */
+  public async getTranscript(deviceId: string, messageId: string): Promise<Transcript | null> {
+    try {
+      if (this.redisClient) {
+        const data = await this.redisClient.get(`${this.TRANSCRIPT_KEY}:${deviceId}:${messageId}`);
+        if (data) return JSON.parse(data);
+      }
+
+      const stored = await MessageStoreService.getInstance().getMessage(deviceId, messageId);
+      if (stored?.transcript !== undefined) {
+        return {
+          messageId,
+          deviceId,
+          chatId: stored.chatId,
+          text: stored.transcript,
+          backend: 'index',
+          createdAt: stored.timestamp,
+        };
+      }
+    } catch (error) {
+      logError(`Failed to look up the transcript of message ${messageId}:`, error);
+    }
+    return null;
+  }
+
+  /**
+   * Transcribe a voice note or audio message, reusing the stored transcript unless force is set
+   * @throws Error when transcription is disabled, the message has no audio or the backend fails
+   */
+  public async transcribeMessage(deviceId: string, message: Message, options: { force?: boolean } = {}): Promise<Transcript> {
+    const messageId = message.id._serialized;
+
+    if (!options.force) {
+      const cached = await this.getTranscript(deviceId, messageId);
+      if (cached) return cached;
+    }
+
+    // Concurrent requests for the same message share one transcription
+    const key = `${deviceId}:${messageId}`;
+    let pending = this.inFlight.get(key);
+    if (!pending) {
+      pending = this.transcribe(deviceId, message).finally(() => this.inFlight.delete(key));
+      this.inFlight.set(key, pending);
+    }
+    return pending;
+  }
+
+  /**
+   * Set `transcript` on the voice notes and audio messages that have a stored one, so AI prompts can include them.
+   * Nothing is transcribed here, since a fetched history can hold thousands of voice notes; automatic transcription
+   * covers them as they arrive and the transcript endpoint on demand.
+   */
+  public async addTranscripts<T extends Message>(deviceId: string, messages: T[]): Promise<T[]> {
+    await Promise.all(messages.filter(isTranscribable).map(async message => {
+      const transcript = await this.getTranscript(deviceId, message.id._serialized);
+      if (transcript) (message as any).transcript = transcript.text;
+    }));
+    return messages;
+  }
+
+  /**
+   * Transcribe inbound voice notes when automatic transcription is on. Never throws.
+   */
+  public async handleIncomingMessage(deviceId: string, message: Message): Promise<void> {
+    if (!this.config.auto || !this.backend || message.type !== 'ptt' || !message.hasMedia) return;
+
+    try {
+      await this.transcribeMessage(deviceId, message);
+    } catch (error) {
+      logError(`Failed to transcribe voice note ${message.id._serialized} on device ${deviceId}:`, error);
+    }
+  }
+
+  private async transcribe(deviceId: string, message: Message): Promise<Transcript> {
+    if (!this.backend) {
+      throw new Error('Transcription is not configured');
+    }
+    if (!isTranscribable(message)) {
+      throw new Error('Message is not a voice note or audio message');
+    }
+
+    const duration = Number((message as any).duration || (message as any)._data?.duration) || undefined;
+    if (duration && duration > this.config.maxDuration) {
+      throw new Error(`Recording is ${duration} seconds long, more than the ${this.config.maxDuration} seconds allowed`);
+    }
+
+    const media = await message.downloadMedia();
+    if (!media?.data) {
+      throw new Error('Failed to download the recording');
+    }
+
+    const started = Date.now();
+    const mimetype = media.mimetype || 'audio/ogg';
+    const output = await this.backend.transcribe({
+      audio: Buffer.from(media.data, 'base64'),
+      mimetype,
+      filename: getAudioFilename(mimetype),
+      language: this.config.language,
+    });
+
+    const transcript: Transcript = {
+      messageId: message.id._serialized,
+      deviceId,
+      chatId: message.fromMe ? message.to : message.from,
+      text: output.text,
+      language: output.language,
+      duration,
+      backend: this.backend.name,
+      model: this.backend.model,
+      createdAt: Date.now(),
+    };
+
+    if (this.redisClient) {
+      await this.redisClient.set(`${this.TRANSCRIPT_KEY}:${deviceId}:${transcript.messageId}`, JSON.stringify(transcript), 'EX', this.config.cacheTtl);
+    }
+    await MessageStoreService.getInstance().setTranscript(deviceId, transcript.messageId, transcript.text);
+
+    logInfo(`Transcribed message ${transcript.messageId} on device ${deviceId} in ${Date.now() - started}ms`);
+    this.listeners.forEach(listener => listener(transcript));
+
+    return transcript;
+  }
+}
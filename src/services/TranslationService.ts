@@ -0,0 +1,445 @@
+import { Message } from 'whatsapp-web.js';
+import { getRedisClient } from '../config/redis';
+import { env } from '../config/env';
+import { logInfo, logError, logWarn } from '../config/logger';
+import { AIService, AIMessage } from './AIService';
+import { AIUsageContext } from './AIUsageService';
+import { MessageQueueService, QueuedMessageResult } from './MessageQueueService';
+import { parseJsonAnswer } from './ExtractionService';
+
+export interface TranslationChatSettings {
+  chatId: string;
+  enabled: boolean;
+  language: string; // The team's language; inbound messages are translated into it
+  customerLanguage?: string; // Outbound language for translateTo: "auto"; the detected language when unset
+  detectedLanguage?: string; // Language of the last inbound message
+  detectedAt?: number;
+  provider?: string;
+  model?: string;
+  updatedAt: number;
+}
+
+export interface TranslationChatSettingsInput {
+  enabled?: boolean;
+  language?: string;
+  customerLanguage?: string | null; // null goes back to the detected language
+  provider?: string;
+  model?: string;
+}
+
+export interface GlossaryEntry {
+  term: string; // A product or brand name, as written in messages
+  translations?: Record<string, string>; // By language code; the term is kept as is in other languages
+}
+
+/**
+ * A translated message. The original text is kept for audit.
+ */
+export interface Translation {
+  messageId: string;
+  deviceId: string;
+  chatId: string;
+  direction: 'inbound' | 'outbound';
+  original: string;
+  text: string;
+  from?: string; // Detected language of the original
+  to: string;
+  provider?: string;
+  model?: string;
+  createdAt: number;
+}
+
+/**
+ * The result of translating text before it is sent, kept on the queued message until it has a WhatsApp ID
+ */
+export interface OutgoingTranslation {
+  text: string;
+  original: string;
+  from?: string;
+  to: string;
+  provider?: string;
+  model?: string;
+}
+
+export interface TranslationServiceConfig {
+  maxLength: number; // Inbound messages longer than this are not translated
+  recordTtl: number; // Seconds
+}
+
+const DEFAULT_CONFIG: TranslationServiceConfig = {
+  maxLength: parseInt(process.env.TRANSLATION_MAX_LENGTH || '4000'),
+  recordTtl: parseInt(process.env.TRANSLATION_RECORD_TTL || '7776000'), // 90 days
+};
+
+const TRANSLATABLE_TYPES = ['chat', 'image', 'video', 'document'];
+
+// Record the detected language only while the chat still has settings, so it can't bring a deleted chat back
+const SAVE_DETECTED_LANGUAGE_SCRIPT = `
+if redis.call('hexists', KEYS[1], ARGV[1]) == 1 then
+  return redis.call('hset', KEYS[2], ARGV[1], ARGV[2])
+end
+return 0`;
+
+const TRANSLATION_PROMPT = `You translate WhatsApp messages for a customer support team.
+Detect the language of the message and translate it into the target language. Keep the tone, emojis, line breaks, numbers, links and formatting.
+If the message is already in the target language, return it unchanged.
+Answer with a single JSON object and nothing else: {"language": "<ISO 639-1 code of the message>", "translation": "<translated message>"}`;
+
+/**
+ * Glossary instructions for one target language, or an empty string when there is no glossary
+ */
+export function formatGlossary(glossary: GlossaryEntry[], language: string): string {
+  if (glossary.length === 0) return '';
+
+  const lines = glossary.map(entry => {
+    const translation = entry.translations?.[language];
+    return translation ? `- "${entry.term}" becomes "${translation}"` : `- "${entry.term}" stays "${entry.term}"`;
+  });
+  return `Glossary of product names. Use these exact spellings and never translate them otherwise:\n${lines.join('\n')}`;
+}
+
+/**
+ * Build the completion request for translating one message
+ */
+export function buildTranslationMessages(text: string, language: string, glossary: GlossaryEntry[]): AIMessage[] {
+  const glossaryText = formatGlossary(glossary, language);
+
+  return [
+    {
+      role: 'system',
+      content: `${TRANSLATION_PROMPT}${glossaryText ? `\n\n${glossaryText}` : ''}`,
+    },
+    {
+      role: 'user',
+      content: `Target language: ${language}\n\nMessage:\n${text}`,
+    },
+  ];
+}
+
+/**
+ * Read the model's answer, or null when it is not a translation
+ */
+export function parseTranslationAnswer(answer: string): { language?: string; translation: string } | null {
+  const { value } = parseJsonAnswer(answer);
+  if (!value || typeof value !== 'object' || typeof value.translation !== 'string') {
+    return null;
+  }
+
+  const language = typeof value.language === 'string' ? value.language.trim().toLowerCase() : '';
+  return { language: language || undefined, translation: value.translation };
+}
+
+/**
+ * Compare language codes by their primary subtag, so "pt-BR" matches "pt"
+ */
+export function isSameLanguage(a: string | undefined, b: string | undefined): boolean {
+  return !!a && !!b && a.split('-')[0].toLowerCase() === b.split('-')[0].toLowerCase();
+}
+
+/**
+ * Per-chat translation of inbound and outbound messages with the configured AI provider.
+ * Inbound messages keep their body and get a translation next to it; outbound messages are
+ * sent translated and keep the original text for audit.
+ */
+export class TranslationService {
+  private static instance: TranslationService;
+  private redisClient;
+  private config: TranslationServiceConfig;
+
+  // Redis keys with specific prefixes to avoid conflicts
+  private readonly CHATS_KEY = 'whatsapp:translation_chats';
+  // Kept apart from the settings, so inbound messages never write settings back over an update or delete
+  private readonly DETECTED_KEY = 'whatsapp:translation_detected';
+  private readonly GLOSSARY_KEY = 'whatsapp:translation_glossary';
+  private readonly TRANSLATION_KEY = 'whatsapp:translation';
+
+  private constructor() {
+    // Settings live in Redis, so translation is off without it
+    this.redisClient = env.REDIS_ENABLED ? getRedisClient() : null;
+    this.config = { ...DEFAULT_CONFIG };
+
+    if (this.redisClient) {
+      MessageQueueService.getInstance().onMessageProcessed(result => this.handleQueueResult(result));
+    }
+  }
+
+  public static getInstance(): TranslationService {
+    if (!TranslationService.instance) {
+      TranslationService.instance = new TranslationService();
+    }
+    return TranslationService.instance;
+  }
+
+  public isEnabled(): boolean {
+    return this.redisClient !== null;
+  }
+
+  public async listChats(deviceId: string): Promise<TranslationChatSettings[]> {
+    if (!this.redisClient) return [];
+
+    const [records, detected] = await Promise.all([
+      this.redisClient.hvals(`${this.CHATS_KEY}:${deviceId}`),
+      this.redisClient.hgetall(`${this.DETECTED_KEY}:${deviceId}`),
+    ]);
+    return records
+      .map(record => JSON.parse(record) as TranslationChatSettings)
+      .map(chat => this.withDetectedLanguage(chat, detected[chat.chatId]))
+      .sort((a, b) => b.updatedAt - a.updatedAt);
+  }
+
+  public async getChat(deviceId: string, chatId: string): Promise<TranslationChatSettings | null> {
+    if (!this.redisClient) return null;
+
+    const [data, detected] = await Promise.all([
+      this.redisClient.hget(`${this.CHATS_KEY}:${deviceId}`, chatId),
+      this.redisClient.hget(`${this.DETECTED_KEY}:${deviceId}`, chatId),
+    ]);
+    return data ? this.withDetectedLanguage(JSON.parse(data), detected) : null;
+  }
+
+  /**
+   * Create or update a chat's settings. New settings are enabled unless enabled is false; the detected language is kept.
+   * @throws Error when the chat has no settings yet and no language is given
+   */
+  public async updateChat(deviceId: string, chatId: string, updates: TranslationChatSettingsInput): Promise<TranslationChatSettings> {
+    const existing = await this.getChat(deviceId, chatId);
+    const { customerLanguage, ...rest } = updates;
+    const language = updates.language || existing?.language;
+    if (!language) {
+      throw new Error('A language is required to enable translation for a chat');
+    }
+
+    const chat: TranslationChatSettings = {
+      enabled: true,
+      ...existing,
+      ...rest,
+      chatId,
+      language,
+      updatedAt: Date.now(),
+    };
+
+    if (customerLanguage === null) {
+      delete chat.customerLanguage;
+    } else if (customerLanguage !== undefined) {
+      chat.customerLanguage = customerLanguage;
+    }
+
+    await this.saveChat(deviceId, chat);
+    return chat;
+  }
+
+  public async deleteChat(deviceId: string, chatId: string): Promise<boolean> {
+    if (!this.redisClient) return false;
+
+    const removed = await this.redisClient.hdel(`${this.CHATS_KEY}:${deviceId}`, chatId);
+    await this.redisClient.hdel(`${this.DETECTED_KEY}:${deviceId}`, chatId);
+    return removed > 0;
+  }
+
+  public async getGlossary(deviceId: string): Promise<GlossaryEntry[]> {
+    if (!this.redisClient) return [];
+
+    const data = await this.redisClient.get(`${this.GLOSSARY_KEY}:${deviceId}`);
+    return data ? JSON.parse(data) : [];
+  }
+
+  /**
+   * Replace the device's glossary; an empty list removes it
+   */
+  public async setGlossary(deviceId: string, glossary: GlossaryEntry[]): Promise<GlossaryEntry[]> {
+    if (!this.redisClient) {
+      throw new Error('Translation needs Redis');
+    }
+
+    if (glossary.length === 0) {
+      await this.redisClient.del(`${this.GLOSSARY_KEY}:${deviceId}`);
+    } else {
+      await this.redisClient.set(`${this.GLOSSARY_KEY}:${deviceId}`, JSON.stringify(glossary));
+    }
+    return glossary;
+  }
+
+  /**
+   * The stored translation of a message, inbound or outbound
+   */
+  public async getTranslation(deviceId: string, messageId: string): Promise<Translation | null> {
+    if (!this.redisClient) return null;
+
+    try {
+      const data = await this.redisClient.get(`${this.TRANSLATION_KEY}:${deviceId}:${messageId}`);
+      return data ? JSON.parse(data) : null;
+    } catch (error) {
+      logError(`Failed to look up the translation of message ${messageId}:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * The language translateTo: "auto" sends in: the chat's customer language, or else the detected one
+   */
+  public async getCustomerLanguage(deviceId: string, chatId: string): Promise<string | undefined> {
+    const chat = await this.getChat(deviceId, chatId);
+    return chat?.customerLanguage || chat?.detectedLanguage;
+  }
+
+  /**
+   * Translate text before it is sent. Uses the chat's provider and model when it has settings.
+   * @throws Error when the AI request fails or the answer is not a translation
+   */
+  public async translateOutgoing(
+    deviceId: string,
+    chatId: string,
+    text: string,
+    language: string,
+    context?: AIUsageContext
+  ): Promise<OutgoingTranslation> {
+    const chat = await this.getChat(deviceId, chatId);
+    const result = await this.translate(deviceId, text, language, chat, context);
+
+    return {
+      text: result.translation,
+      original: text,
+      from: result.language,
+      to: language,
+      provider: result.provider,
+      model: result.model,
+    };
+  }
+
+  /**
+   * Keep the original of a translated message once it has been sent
+   */
+  public async saveOutgoing(deviceId: string, messageId: string, chatId: string, translation: OutgoingTranslation): Promise<Translation> {
+    const record: Translation = {
+      messageId,
+      deviceId,
+      chatId,
+      direction: 'outbound',
+      original: translation.original,
+      text: translation.text,
+      from: translation.from,
+      to: translation.to,
+      provider: translation.provider,
+      model: translation.model,
+      createdAt: Date.now(),
+    };
+
+    await this.saveTranslation(record);
+    return record;
+  }
+
+  /**
+   * Translate an inbound message when its chat has translation on, and remember the customer's language.
+   * Never throws.
+   * @returns The translation, or null when the message was not translated
+   */
+  public async handleIncomingMessage(deviceId: string, message: Message): Promise<Translation | null> {
+    if (!this.redisClient || message.fromMe || message.isStatus || !message.body) return null;
+
+    try {
+      const chat = await this.getChat(deviceId, message.from);
+      if (!chat?.enabled) return null;
+
+      // Text and captions only; other types can carry a thumbnail or file name in body
+      if (!TRANSLATABLE_TYPES.includes(message.type)) return null;
+
+      if (message.body.length > this.config.maxLength) {
+        logWarn(`Message ${message.id._serialized} is longer than ${this.config.maxLength} characters; not translating it`);
+        return null;
+      }
+
+      const result = await this.translate(deviceId, message.body, chat.language, chat, { deviceId });
+
+      if (result.language && result.language !== chat.detectedLanguage) {
+        await this.redisClient.eval(
+          SAVE_DETECTED_LANGUAGE_SCRIPT,
+          2,
+          `${this.CHATS_KEY}:${deviceId}`,
+          `${this.DETECTED_KEY}:${deviceId}`,
+          chat.chatId,
+          JSON.stringify({ detectedLanguage: result.language, detectedAt: Date.now() })
+        );
+      }
+
+      if (isSameLanguage(result.language, chat.language)) return null;
+
+      const translation: Translation = {
+        messageId: message.id._serialized,
+        deviceId,
+        chatId: message.from,
+        direction: 'inbound',
+        original: message.body,
+        text: result.translation,
+        from: result.language,
+        to: chat.language,
+        provider: result.provider,
+        model: result.model,
+        createdAt: Date.now(),
+      };
+      await this.saveTranslation(translation);
+
+      return translation;
+    } catch (error) {
+      logError(`Failed to translate message ${message.id._serialized} on device ${deviceId}:`, error);
+      return null;
+    }
+  }
+
+  private async translate(
+    deviceId: string,
+    text: string,
+    language: string,
+    chat: TranslationChatSettings | null,
+    context?: AIUsageContext
+  ): Promise<{ language?: string; translation: string; provider?: string; model?: string }> {
+    const glossary = await this.getGlossary(deviceId);
+
+    const response = await AIService.getInstance().generateCompletion({
+      messages: buildTranslationMessages(text, language, glossary),
+      provider: chat?.provider,
+      model: chat?.model,
+      temperature: 0,
+      context: context || { deviceId },
+    });
+
+    const parsed = parseTranslationAnswer(response.choices[0]?.message?.content || '');
+    if (!parsed) {
+      throw new Error('The AI provider did not answer with a translation');
+    }
+
+    return { ...parsed, provider: response.provider, model: response.model };
+  }
+
+  /**
+   * Record the original of queued messages that were translated, under the ID WhatsApp gave them
+   */
+  private async handleQueueResult(result: QueuedMessageResult): Promise<void> {
+    const { message } = result;
+    if (!message.translation || !result.success || !result.sentMessageId) return;
+
+    await this.saveOutgoing(message.deviceId, result.sentMessageId, message.to, message.translation);
+    logInfo(`Kept the original of translated message ${result.sentMessageId} on device ${message.deviceId}`);
+  }
+
+  private async saveChat(deviceId: string, chat: TranslationChatSettings): Promise<void> {
+    if (!this.redisClient) {
+      throw new Error('Translation needs Redis');
+    }
+    const { detectedLanguage, detectedAt, ...settings } = chat;
+    await this.redisClient.hset(`${this.CHATS_KEY}:${deviceId}`, chat.chatId, JSON.stringify(settings));
+  }
+
+  private withDetectedLanguage(chat: TranslationChatSettings, detected?: string | null): TranslationChatSettings {
+    return detected ? { ...chat, ...JSON.parse(detected) } : chat;
+  }
+
+  private async saveTranslation(translation: Translation): Promise<void> {
+    if (!this.redisClient) return;
+    await this.redisClient.set(
+      `${this.TRANSLATION_KEY}:${translation.deviceId}:${translation.messageId}`,
+      JSON.stringify(translation),
+      'EX',
+      this.config.recordTtl
+    );
+  }
+}
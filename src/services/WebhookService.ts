@@ -0,0 +1,548 @@
+import crypto from 'crypto';
+import axios from 'axios';
+import { GroupNotification, Message } from 'whatsapp-web.js';
+import { getRedisClient } from '../config/redis';
+import logger, { logInfo, logError, logWarn } from '../config/logger';
+
+export type WebhookEventType = 'message' | 'message_ack' | 'device_state' | 'group_update' | 'message_transcribed';
+
+export const WEBHOOK_EVENT_TYPES: WebhookEventType[] = ['message', 'message_ack', 'device_state', 'group_update', 'message_transcribed'];
+
+export interface WebhookSubscription {
+  id: string;
+  url: string;
+  secret: string;
+  events: WebhookEventType[];
+  deviceIds?: string[]; // Empty or undefined means all devices
+  description?: string;
+  active: boolean;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface WebhookDeliveryAttempt {
+  attemptedAt: number;
+  statusCode?: number;
+  error?: string;
+  durationMs: number;
+}
+
+export interface WebhookDelivery {
+  id: string;
+  subscriptionId: string;
+  event: WebhookEventType;
+  deviceId: string;
+  payload: WebhookPayload;
+  status: 'pending' | 'delivered' | 'failed';
+  attempts: WebhookDeliveryAttempt[];
+  nextAttemptAt?: number;
+  createdAt: number;
+  deliveredAt?: number;
+  replayOf?: string;
+}
+
+export interface WebhookPayload {
+  id: string;
+  event: WebhookEventType;
+  deviceId: string;
+  timestamp: number;
+  data: any;
+}
+
+export interface WebhookConfig {
+  maxAttempts: number;
+  retryBaseDelay: number;
+  retryMaxDelay: number;
+  timeout: number;
+  deliveryLogSize: number;
+  visibilityTimeout: number;
+}
+
+const DEFAULT_CONFIG: WebhookConfig = {
+  maxAttempts: parseInt(process.env.WEBHOOK_MAX_ATTEMPTS || '8'),
+  retryBaseDelay: parseInt(process.env.WEBHOOK_RETRY_BASE_DELAY || '5000'), // 5 seconds
+  retryMaxDelay: parseInt(process.env.WEBHOOK_RETRY_MAX_DELAY || '3600000'), // 1 hour
+  timeout: parseInt(process.env.WEBHOOK_TIMEOUT || '10000'), // 10 seconds
+  deliveryLogSize: parseInt(process.env.WEBHOOK_DELIVERY_LOG_SIZE || '200'),
+  visibilityTimeout: parseInt(process.env.WEBHOOK_VISIBILITY_TIMEOUT || '60000'), // 1 minute
+};
+
+// Claim a due outbox entry by moving it to the end of the visibility timeout, so it comes due
+// again if the instance delivering it stops before the attempt is recorded
+const CLAIM_OUTBOX_ENTRY_SCRIPT = `
+local score = redis.call('zscore', KEYS[1], ARGV[1])
+if score and tonumber(score) <= tonumber(ARGV[2]) then
+  redis.call('zadd', KEYS[1], ARGV[3], ARGV[1])
+  return 1
+end
+return 0`;
+
+/**
+ * Compute the HMAC-SHA256 signature sent in the X-Webhook-Signature header.
+ * Receivers verify it by hashing `${timestamp}.${rawBody}` with their secret.
+ */
+export function signWebhookPayload(secret: string, timestamp: number, body: string): string {
+  const digest = crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+  return `sha256=${digest}`;
+}
+
+/**
+ * POST a payload once, signed like subscription deliveries when a secret is given, for features that
+ * take a plain webhook URL instead of a subscription. There are no retries.
+ * @returns The response status
+ */
+export async function postSignedWebhook(
+  url: string,
+  payload: { event: string; [key: string]: unknown },
+  options: { secret?: string; timeout: number }
+): Promise<number> {
+  const body = JSON.stringify(payload);
+  const timestamp = Math.floor(Date.now() / 1000);
+
+  const response = await axios.post(url, body, {
+    headers: {
+      'Content-Type': 'application/json',
+      'User-Agent': 'WhatsAPI-Bridge-Webhook/1.0',
+      'X-Webhook-Event': payload.event,
+      'X-Webhook-Timestamp': timestamp.toString(),
+      ...(options.secret ? { 'X-Webhook-Signature': signWebhookPayload(options.secret, timestamp, body) } : {}),
+    },
+    timeout: options.timeout,
+    validateStatus: () => true,
+  });
+
+  return response.status;
+}
+
+/**
+ * Exponential backoff for the given (1-based) attempt number, capped at maxDelay
+ */
+export function getRetryDelay(attempt: number, baseDelay: number, maxDelay: number): number {
+  return Math.min(baseDelay * Math.pow(2, Math.max(attempt - 1, 0)), maxDelay);
+}
+
+/**
+ * Check whether a subscription wants a given event from a given device
+ */
+export function subscriptionMatches(
+  subscription: WebhookSubscription,
+  event: WebhookEventType,
+  deviceId: string
+): boolean {
+  if (!subscription.active || !subscription.events.includes(event)) {
+    return false;
+  }
+  return !subscription.deviceIds || subscription.deviceIds.length === 0 || subscription.deviceIds.includes(deviceId);
+}
+
+/**
+ * Build the `data` section of a message webhook from a whatsapp-web.js message
+ */
+export function buildMessageWebhookData(message: Message): Record<string, any> {
+  return {
+    messageId: message.id._serialized,
+    chatId: message.fromMe ? message.to : message.from,
+    from: message.from,
+    to: message.to,
+    author: message.author || null,
+    body: message.body || '',
+    type: message.type,
+    timestamp: message.timestamp * 1000,
+    fromMe: message.fromMe,
+    hasMedia: message.hasMedia,
+    isForwarded: message.isForwarded || false,
+    hasQuotedMsg: message.hasQuotedMsg || false,
+    mentionedIds: message.mentionedIds || [],
+  };
+}
+
+/**
+ * Build the `data` section of a group_update webhook from a group notification
+ */
+export function buildGroupWebhookData(
+  action: 'group_join' | 'group_leave' | 'group_update' | 'group_admin_changed',
+  notification: GroupNotification
+): Record<string, any> {
+  return {
+    action,
+    type: notification.type,
+    groupId: notification.chatId,
+    author: notification.author || null,
+    recipientIds: notification.recipientIds || [],
+    body: notification.body || '',
+    timestamp: notification.timestamp * 1000,
+  };
+}
+
+export class WebhookService {
+  private static instance: WebhookService;
+  private redisClient;
+  private isProcessing = false;
+  private config: WebhookConfig;
+
+  // Redis keys with specific prefixes to avoid conflicts
+  private readonly SUBSCRIPTIONS_KEY = 'whatsapp:webhooks';
+  private readonly OUTBOX_KEY = 'whatsapp:webhook_outbox';
+  private readonly DELIVERIES_KEY = 'whatsapp:webhook_deliveries';
+  private readonly DELIVERY_INDEX_KEY = 'whatsapp:webhook_delivery_index';
+
+  private constructor() {
+    this.redisClient = getRedisClient();
+    this.config = { ...DEFAULT_CONFIG };
+    this.startProcessing();
+  }
+
+  public static getInstance(): WebhookService {
+    if (!WebhookService.instance) {
+      WebhookService.instance = new WebhookService();
+    }
+    return WebhookService.instance;
+  }
+
+  /**
+   * Create a new subscription. A signing secret is generated when none is given.
+   */
+  public async createSubscription(
+    input: Pick<WebhookSubscription, 'url' | 'events'> & Partial<Pick<WebhookSubscription, 'secret' | 'deviceIds' | 'description' | 'active'>>
+  ): Promise<WebhookSubscription> {
+    const now = Date.now();
+    const subscription: WebhookSubscription = {
+      id: `wh_${crypto.randomBytes(8).toString('hex')}`,
+      url: input.url,
+      secret: input.secret || crypto.randomBytes(32).toString('hex'),
+      events: input.events,
+      deviceIds: input.deviceIds,
+      description: input.description,
+      active: input.active !== undefined ? input.active : true,
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    await this.redisClient.hset(this.SUBSCRIPTIONS_KEY, subscription.id, JSON.stringify(subscription));
+    logInfo(`Webhook subscription created: ${subscription.id} for events ${subscription.events.join(', ')}`);
+
+    return subscription;
+  }
+
+  public async getSubscription(subscriptionId: string): Promise<WebhookSubscription | null> {
+    const data = await this.redisClient.hget(this.SUBSCRIPTIONS_KEY, subscriptionId);
+    return data ? JSON.parse(data) : null;
+  }
+
+  public async listSubscriptions(): Promise<WebhookSubscription[]> {
+    const all = await this.redisClient.hgetall(this.SUBSCRIPTIONS_KEY);
+    return Object.values(all)
+      .map(data => JSON.parse(data) as WebhookSubscription)
+      .sort((a, b) => a.createdAt - b.createdAt);
+  }
+
+  public async updateSubscription(
+    subscriptionId: string,
+    updates: Partial<Pick<WebhookSubscription, 'url' | 'secret' | 'events' | 'deviceIds' | 'description' | 'active'>>
+  ): Promise<WebhookSubscription | null> {
+    const existing = await this.getSubscription(subscriptionId);
+    if (!existing) {
+      return null;
+    }
+
+    const updated: WebhookSubscription = {
+      ...existing,
+      ...updates,
+      id: existing.id,
+      createdAt: existing.createdAt,
+      updatedAt: Date.now(),
+    };
+
+    await this.redisClient.hset(this.SUBSCRIPTIONS_KEY, subscriptionId, JSON.stringify(updated));
+    logInfo(`Webhook subscription updated: ${subscriptionId}`);
+
+    return updated;
+  }
+
+  /**
+   * Delete a subscription together with its delivery log and pending deliveries
+   */
+  public async deleteSubscription(subscriptionId: string): Promise<boolean> {
+    const removed = await this.redisClient.hdel(this.SUBSCRIPTIONS_KEY, subscriptionId);
+    if (removed === 0) {
+      return false;
+    }
+
+    const deliveryIds = await this.redisClient.zrange(`${this.DELIVERY_INDEX_KEY}:${subscriptionId}`, 0, -1);
+    if (deliveryIds.length > 0) {
+      await this.redisClient.zrem(this.OUTBOX_KEY, ...deliveryIds.map(id => this.getOutboxMember(subscriptionId, id)));
+    }
+    await this.redisClient.del(`${this.DELIVERIES_KEY}:${subscriptionId}`, `${this.DELIVERY_INDEX_KEY}:${subscriptionId}`);
+
+    logInfo(`Webhook subscription deleted: ${subscriptionId}`);
+    return true;
+  }
+
+  /**
+   * Fan an event out to all matching subscriptions. Never throws, so it is
+   * safe to call from WhatsApp client event handlers.
+   */
+  public async dispatch(event: WebhookEventType, deviceId: string, data: any): Promise<void> {
+    try {
+      const subscriptions = await this.listSubscriptions();
+      const matching = subscriptions.filter(s => subscriptionMatches(s, event, deviceId));
+      if (matching.length === 0) {
+        return;
+      }
+
+      const payload: WebhookPayload = {
+        id: `evt_${crypto.randomBytes(8).toString('hex')}`,
+        event,
+        deviceId,
+        timestamp: Date.now(),
+        data,
+      };
+
+      for (const subscription of matching) {
+        await this.enqueueDelivery(subscription.id, payload);
+      }
+
+      logger.debug(`Webhook event ${event} from device ${deviceId} queued for ${matching.length} subscription(s)`);
+    } catch (error) {
+      logError(`Failed to dispatch webhook event ${event} for device ${deviceId}:`, error);
+    }
+  }
+
+  /**
+   * Get the delivery log for a subscription, newest first
+   */
+  public async getDeliveries(
+    subscriptionId: string,
+    options: { limit?: number; status?: WebhookDelivery['status'] } = {}
+  ): Promise<WebhookDelivery[]> {
+    const limit = options.limit || 50;
+    const deliveryIds = await this.redisClient.zrevrange(`${this.DELIVERY_INDEX_KEY}:${subscriptionId}`, 0, -1);
+    if (deliveryIds.length === 0) {
+      return [];
+    }
+
+    const records = await this.redisClient.hmget(`${this.DELIVERIES_KEY}:${subscriptionId}`, ...deliveryIds);
+    return records
+      .filter((record): record is string => !!record)
+      .map(record => JSON.parse(record) as WebhookDelivery)
+      .filter(delivery => !options.status || delivery.status === options.status)
+      .slice(0, limit);
+  }
+
+  public async getDelivery(subscriptionId: string, deliveryId: string): Promise<WebhookDelivery | null> {
+    const data = await this.redisClient.hget(`${this.DELIVERIES_KEY}:${subscriptionId}`, deliveryId);
+    return data ? JSON.parse(data) : null;
+  }
+
+  /**
+   * Re-send a previous delivery's payload as a new delivery
+   */
+  public async replayDelivery(subscriptionId: string, deliveryId: string): Promise<WebhookDelivery | null> {
+    const original = await this.getDelivery(subscriptionId, deliveryId);
+    if (!original) {
+      return null;
+    }
+
+    const replay = await this.enqueueDelivery(subscriptionId, original.payload, original.id);
+    logInfo(`Webhook delivery ${deliveryId} replayed as ${replay.id} for subscription ${subscriptionId}`);
+
+    return replay;
+  }
+
+  /**
+   * Send a test event to a subscription, bypassing its event and device filters
+   */
+  public async sendTestEvent(subscriptionId: string): Promise<WebhookDelivery> {
+    return this.enqueueDelivery(subscriptionId, {
+      id: `evt_${crypto.randomBytes(8).toString('hex')}`,
+      event: 'device_state',
+      deviceId: 'test',
+      timestamp: Date.now(),
+      data: { test: true, message: 'Webhook test event' },
+    });
+  }
+
+  private async enqueueDelivery(subscriptionId: string, payload: WebhookPayload, replayOf?: string): Promise<WebhookDelivery> {
+    const now = Date.now();
+    const delivery: WebhookDelivery = {
+      id: `dlv_${crypto.randomBytes(8).toString('hex')}`,
+      subscriptionId,
+      event: payload.event,
+      deviceId: payload.deviceId,
+      payload,
+      status: 'pending',
+      attempts: [],
+      nextAttemptAt: now,
+      createdAt: now,
+      replayOf,
+    };
+
+    await this.saveDelivery(delivery);
+    await this.redisClient.zadd(`${this.DELIVERY_INDEX_KEY}:${subscriptionId}`, now, delivery.id);
+    await this.redisClient.zadd(this.OUTBOX_KEY, now, this.getOutboxMember(subscriptionId, delivery.id));
+    await this.trimDeliveryLog(subscriptionId);
+
+    return delivery;
+  }
+
+  private async saveDelivery(delivery: WebhookDelivery): Promise<void> {
+    await this.redisClient.hset(`${this.DELIVERIES_KEY}:${delivery.subscriptionId}`, delivery.id, JSON.stringify(delivery));
+  }
+
+  /**
+   * Keep only the most recent deliveries per subscription
+   */
+  private async trimDeliveryLog(subscriptionId: string): Promise<void> {
+    const indexKey = `${this.DELIVERY_INDEX_KEY}:${subscriptionId}`;
+    const excess = (await this.redisClient.zcard(indexKey)) - this.config.deliveryLogSize;
+    if (excess <= 0) {
+      return;
+    }
+
+    const oldIds = await this.redisClient.zrange(indexKey, 0, excess - 1);
+    await this.redisClient.zrem(indexKey, ...oldIds);
+    await this.redisClient.hdel(`${this.DELIVERIES_KEY}:${subscriptionId}`, ...oldIds);
+    await this.redisClient.zrem(this.OUTBOX_KEY, ...oldIds.map(id => this.getOutboxMember(subscriptionId, id)));
+  }
+
+  private getOutboxMember(subscriptionId: string, deliveryId: string): string {
+    return `${subscriptionId}:${deliveryId}`;
+  }
+
+  /**
+   * Start processing the outbox
+   */
+  private startProcessing(): void {
+    if (this.isProcessing) return;
+
+    this.isProcessing = true;
+    logInfo('Webhook outbox processing started');
+
+    // Process outbox every 2 seconds
+    const processInterval = setInterval(async () => {
+      try {
+        await this.processOutbox();
+      } catch (error) {
+        logError('Error processing webhook outbox:', error);
+      }
+    }, 2000);
+
+    // Cleanup on process exit
+    process.on('SIGINT', () => {
+      clearInterval(processInterval);
+      this.isProcessing = false;
+      logInfo('Webhook outbox processing stopped');
+    });
+  }
+
+  /**
+   * Deliver everything in the outbox that is due
+   */
+  private async processOutbox(): Promise<void> {
+    const due = await this.redisClient.zrangebyscore(this.OUTBOX_KEY, '-inf', Date.now().toString(), 'LIMIT', '0', '20');
+
+    for (const member of due) {
+      // Only one instance claims each entry; it stays in the outbox until the attempt is recorded
+      const now = Date.now();
+      const claimed = await this.redisClient.eval(
+        CLAIM_OUTBOX_ENTRY_SCRIPT, 1, this.OUTBOX_KEY, member, now, now + this.config.visibilityTimeout
+      );
+      if (claimed === 0) continue;
+
+      const [subscriptionId, deliveryId] = member.split(':');
+      try {
+        await this.attemptDelivery(subscriptionId, deliveryId);
+      } catch (error) {
+        logError(`Error delivering webhook ${deliveryId} for subscription ${subscriptionId}:`, error);
+      }
+    }
+  }
+
+  private async attemptDelivery(subscriptionId: string, deliveryId: string): Promise<void> {
+    const [subscription, delivery] = await Promise.all([
+      this.getSubscription(subscriptionId),
+      this.getDelivery(subscriptionId, deliveryId),
+    ]);
+
+    // Gone, or already settled by an attempt that finished just before its instance stopped
+    if (!subscription || !delivery || delivery.status !== 'pending') {
+      await this.redisClient.zrem(this.OUTBOX_KEY, this.getOutboxMember(subscriptionId, deliveryId));
+      return;
+    }
+
+    const body = JSON.stringify(delivery.payload);
+    const timestamp = Math.floor(Date.now() / 1000);
+    const startTime = Date.now();
+    const attempt: WebhookDeliveryAttempt = { attemptedAt: startTime, durationMs: 0 };
+
+    try {
+      const response = await axios.post(subscription.url, body, {
+        headers: {
+          'Content-Type': 'application/json',
+          'User-Agent': 'WhatsAPI-Bridge-Webhook/1.0',
+          'X-Webhook-Id': subscription.id,
+          'X-Webhook-Delivery': delivery.id,
+          'X-Webhook-Event': delivery.event,
+          'X-Webhook-Timestamp': timestamp.toString(),
+          'X-Webhook-Signature': signWebhookPayload(subscription.secret, timestamp, body),
+        },
+        timeout: this.config.timeout,
+        validateStatus: () => true,
+      });
+
+      attempt.statusCode = response.status;
+      if (response.status < 200 || response.status >= 300) {
+        attempt.error = `Non-2xx response: ${response.status}`;
+      }
+    } catch (error: any) {
+      attempt.error = error.code || error.message;
+    }
+
+    attempt.durationMs = Date.now() - startTime;
+    delivery.attempts.push(attempt);
+
+    if (!attempt.error) {
+      delivery.status = 'delivered';
+      delivery.deliveredAt = Date.now();
+      delivery.nextAttemptAt = undefined;
+      logger.debug(`Webhook ${delivery.id} delivered to subscription ${subscriptionId} (${attempt.statusCode})`);
+    } else if (delivery.attempts.length >= this.config.maxAttempts) {
+      delivery.status = 'failed';
+      delivery.nextAttemptAt = undefined;
+      logError(`Webhook ${delivery.id} for subscription ${subscriptionId} failed after ${delivery.attempts.length} attempts: ${attempt.error}`);
+    } else {
+      const retryDelay = getRetryDelay(delivery.attempts.length, this.config.retryBaseDelay, this.config.retryMaxDelay);
+      delivery.nextAttemptAt = Date.now() + retryDelay;
+      logWarn(`Webhook ${delivery.id} for subscription ${subscriptionId} failed (${attempt.error}), retrying in ${retryDelay}ms`);
+    }
+
+    await this.saveDelivery(delivery);
+
+    // Settle the outbox entry only once the attempt is saved
+    const member = this.getOutboxMember(subscriptionId, delivery.id);
+    if (delivery.status === 'pending') {
+      await this.redisClient.zadd(this.OUTBOX_KEY, delivery.nextAttemptAt!, member);
+    } else {
+      await this.redisClient.zrem(this.OUTBOX_KEY, member);
+    }
+  }
+
+  /**
+   * Get outbox status
+   */
+  public async getOutboxStatus(): Promise<{ pending: number; due: number }> {
+    const [pending, due] = await Promise.all([
+      this.redisClient.zcard(this.OUTBOX_KEY),
+      this.redisClient.zcount(this.OUTBOX_KEY, '-inf', Date.now().toString()),
+    ]);
+    return { pending, due };
+  }
+
+  /**
+   * Update configuration
+   */
+  public updateConfig(newConfig: Partial<WebhookConfig>): void {
+    this.config = { ...this.config, ...newConfig };
+    logInfo('Webhook configuration updated', newConfig);
+  }
+}
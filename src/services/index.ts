@@ -2,10 +2,27 @@
 // This file serves as a central export point for all services
 
 export { DeviceManager, Device } from './DeviceManager';
+export { SessionStoreService, SessionBackend } from './SessionStoreService';
+export { ClusterService, ClusterNode } from './ClusterService';
+export { DeviceSupervisorService, ReconnectPolicy, ReconnectState } from './DeviceSupervisorService';
 export { AIService } from './AIService';
 export { AnalyticsService } from './AnalyticsService';
-export { MessageQueueService, QueuedMessage, MessageQueueConfig } from './MessageQueueService';
+export { MessageQueueService, QueuedMessage, QueuedMessageResult, MessageQueueConfig, MessageSchedule, ScheduledMessageUpdateResult, DeadLetter, DeadLetterFilter } from './MessageQueueService';
 export { DeviceHealthService, DeviceHealth, DeviceActivityLog } from './DeviceHealthService';
+export { DevicePoolService, DevicePool, PoolDeviceStatus, PoolSelection } from './DevicePoolService';
+export { RecipientPolicyService, RecipientPolicy, RecipientState, RecipientPolicyDecision } from './RecipientPolicyService';
+export { ApiKeyService, ApiKeyInfo, ApiKeyScope, API_KEY_SCOPES } from './ApiKeyService';
+export { WebhookService, WebhookSubscription, WebhookDelivery, WebhookEventType } from './WebhookService';
+export { CampaignService, Campaign, CampaignRecipient, CampaignRecipientStatus, CampaignStats } from './CampaignService';
+export { MessageStatusService, MessageStatusTimeline, MessageStatusTransition } from './MessageStatusService';
+export { MessageStoreService, StoredMessage, MessageSearchFilters, MessageSearchPage } from './MessageStoreService';
+export { AutoReplyService, AutoReplyRule, AutoReplyRuleInput, AutoReplyAction, AutoReplyConditions, AutoReplyMessage } from './AutoReplyService';
+export { AIUsageService, AIUsageReport, AIBudget, AIBudgetStatus, AIPrice, AIBudgetExceededError } from './AIUsageService';
+export { ExtractionService, ExtractionResult, ExtractionChunk } from './ExtractionService';
+export { TranscriptionService, Transcript, TranscriptionBackend } from './TranscriptionService';
+export { TranslationService, Translation, TranslationChatSettings, GlossaryEntry } from './TranslationService';
+export { DigestService, Digest, DigestSchedule } from './DigestService';
+export { AIAgentService, AIAgentConfig, AIAgentSettings, AIAgentChatState, AIAgentDraft, AIAgentUsage } from './AIAgentService';
 export { 
   cacheInbound, 
   cacheOutbound, 
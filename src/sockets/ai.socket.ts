@@ -0,0 +1,135 @@
+import { Socket } from 'socket.io';
+import { logger } from '../config';
+import { schemas } from '../config/validation';
+import { hasScope } from '../services/ApiKeyService';
+import { AIService } from '../services/AIService';
+import { DeviceManager } from '../services/DeviceManager';
+import { TranscriptionService } from '../services/TranscriptionService';
+import { buildAnalysisMessages } from '../utils/chatAnalysis';
+import {
+  ClientToServerEvents,
+  ServerToClientEvents,
+  InterServerEvents,
+  SocketData,
+  SOCKET_EVENTS,
+  AIAnalyzeRequestPayload,
+  AIStreamEvent,
+} from '../types/socket.types';
+
+type DeviceSocket = Socket<ClientToServerEvents, ServerToClientEvents, InterServerEvents, SocketData>;
+
+const MAX_STREAMS_PER_SOCKET = 3;
+
+/**
+ * Stream chat analyses to a client over its device namespace connection.
+ * The client sends ai-analyze with its own requestId and gets ai-stream events for that requestId
+ * until one of type complete, error or cancelled. ai-cancel or disconnecting stops the completion.
+ */
+export const registerAIStreamHandlers = (socket: DeviceSocket, deviceId: string): void => {
+  const streams = new Map<string, AbortController>();
+
+  socket.on(SOCKET_EVENTS.AI_ANALYZE, async (payload: AIAnalyzeRequestPayload) => {
+    const requestId = typeof payload?.requestId === 'string' ? payload.requestId : '';
+    const chatId = typeof payload?.chatId === 'string' ? payload.chatId : '';
+    const send = (event: AIStreamEvent) => socket.emit(SOCKET_EVENTS.AI_STREAM, {
+      ...event,
+      requestId,
+      deviceId,
+      chatId,
+      timestamp: Date.now(),
+    });
+
+    if (!requestId || requestId.length > 100 || !chatId) {
+      send({ type: 'error', error: 'requestId and chatId are required' });
+      return;
+    }
+    if (!socket.data.apiKey || !hasScope(socket.data.apiKey.scopes, 'ai:use')) {
+      send({ type: 'error', error: 'API key is missing required scope: ai:use' });
+      return;
+    }
+    if (streams.has(requestId)) {
+      send({ type: 'error', error: 'A stream with this requestId is already running' });
+      return;
+    }
+    if (streams.size >= MAX_STREAMS_PER_SOCKET) {
+      send({ type: 'error', error: `At most ${MAX_STREAMS_PER_SOCKET} streams can run at once per connection` });
+      return;
+    }
+
+    // requestId and chatId are not part of the schema and get stripped
+    const { error, value: options } = schemas.analyzeChatAI.validate(payload, { stripUnknown: true });
+    if (error) {
+      send({ type: 'error', error: error.details.map(detail => detail.message).join(', ') });
+      return;
+    }
+    if (options.analysisType === 'custom' && !options.customQuery) {
+      send({ type: 'error', error: 'customQuery is required when analysisType is "custom"' });
+      return;
+    }
+
+    const abortController = new AbortController();
+    streams.set(requestId, abortController);
+
+    try {
+      const device = DeviceManager.getInstance().getDevice(deviceId);
+      if (!device || device.status !== 'ready') {
+        send({ type: 'error', error: device ? `Device is not ready. Current status: ${device.status}` : 'Device not found' });
+        return;
+      }
+
+      const chat = await device.client.getChatById(chatId);
+      const messages = await TranscriptionService.getInstance().addTranscripts(
+        deviceId,
+        await chat.fetchMessages({ limit: options.messageLimit })
+      );
+
+      const aiService = AIService.getInstance();
+      const { provider, model } = aiService.getProviderInfo(options.provider);
+      send({ type: 'start', provider, model: options.model || model });
+
+      let fullResponse = '';
+      let finishReason: string | undefined;
+      let usage;
+      let answeredBy: { provider?: string; model?: string } = {};
+
+      const stream = aiService.streamCompletion({
+        messages: buildAnalysisMessages(messages, options),
+        provider: options.provider,
+        model: options.model,
+        temperature: 0,
+        context: { apiKeyId: socket.data.apiKey.id, deviceId },
+      }, abortController.signal);
+
+      for await (const chunk of stream) {
+        usage = chunk.usage || usage;
+        finishReason = chunk.finishReason || finishReason;
+        // A fallback provider may have answered instead of the requested one
+        answeredBy = { provider: chunk.provider, model: chunk.model || answeredBy.model };
+        if (chunk.content) {
+          fullResponse += chunk.content;
+          send({ type: 'chunk', content: chunk.content });
+        }
+      }
+
+      send({ type: 'complete', content: fullResponse, finishReason, usage, ...answeredBy });
+    } catch (error: any) {
+      if (abortController.signal.aborted) {
+        logger.info(`AI stream ${requestId} cancelled on device ${deviceId}`);
+        send({ type: 'cancelled' });
+      } else {
+        logger.error(`AI stream ${requestId} failed on device ${deviceId}:`, error);
+        send({ type: 'error', error: error.message || 'Failed to analyze chat' });
+      }
+    } finally {
+      streams.delete(requestId);
+    }
+  });
+
+  socket.on(SOCKET_EVENTS.AI_CANCEL, (payload) => {
+    streams.get(payload?.requestId)?.abort();
+  });
+
+  socket.on('disconnect', () => {
+    streams.forEach(controller => controller.abort());
+  });
+};
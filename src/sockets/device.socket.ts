@@ -9,11 +9,18 @@ import {
   SOCKET_EVENTS,
   DeviceStatePayload,
   DeviceQRPayload,
+  DevicePairingCodePayload,
   DeviceReadyPayload,
   DeviceAuthenticatedPayload,
   MessageReceivedPayload,
+  MessageTranslatedPayload,
   DeviceDisconnectedPayload,
+  MessageDeadLetterPayload,
+  AIDraftPayload,
 } from '../types/socket.types';
+import { MessageAckEvent } from '../types/message.types';
+import { Translation } from '../services/TranslationService';
+import { registerAIStreamHandlers } from './ai.socket';
 
 /**
  * Initializes the device namespace and handles connection and authentication.
@@ -53,6 +60,9 @@ export const initializeDeviceNamespace = (
         deviceNamespace.to(deviceId).emit(SOCKET_EVENTS.DEVICE_DISCONNECTED, disconnectedPayload);
       });
 
+      // Chat analyses streamed over this connection
+      registerAIStreamHandlers(socket, deviceId);
+
       // Emit a ready event to the client
       const statePayload: DeviceStatePayload = {
         deviceId,
@@ -81,6 +91,23 @@ export const emitQRCode = (deviceId: string, qr: string): void => {
   }
 };
 
+/**
+ * Emit pairing code event to all clients connected to a specific device namespace
+ */
+export const emitPairingCode = (deviceId: string, pairingCode: string, phoneNumber: string, expiresAt: number): void => {
+  const pairingPayload: DevicePairingCodePayload = {
+    deviceId,
+    pairingCode,
+    phoneNumber,
+    expiresAt,
+    timestamp: Date.now(),
+  };
+
+  if (io) {
+    io.of(`/device/${deviceId}`).emit(SOCKET_EVENTS.DEVICE_PAIRING_CODE, pairingPayload);
+  }
+};
+
 /**
  * Emit ready event to all clients connected to a specific device namespace
  */
@@ -127,6 +154,24 @@ export const emitMessage = (deviceId: string, message: any): void => {
   }
 };
 
+/**
+ * Emit the translation of a received message to all clients connected to a specific device namespace
+ */
+export const emitMessageTranslated = (translation: Translation): void => {
+  const translatedPayload: MessageTranslatedPayload = {
+    deviceId: translation.deviceId,
+    messageId: translation.messageId,
+    chatId: translation.chatId,
+    translatedBody: translation.text,
+    detectedLanguage: translation.from,
+    timestamp: Date.now(),
+  };
+
+  if (io) {
+    io.of(`/device/${translation.deviceId}`).emit(SOCKET_EVENTS.MESSAGE_TRANSLATED, translatedPayload);
+  }
+};
+
 /**
  * Emit device state event to all clients connected to a specific device namespace
  */
@@ -157,3 +202,29 @@ export const emitDeviceDisconnected = (deviceId: string, reason: string): void =
   }
 };
 
+/**
+ * Emit message ack event to all clients connected to a specific device namespace
+ */
+export const emitMessageAck = (payload: MessageAckEvent): void => {
+  if (io) {
+    io.of(`/device/${payload.deviceId}`).emit(SOCKET_EVENTS.MESSAGE_ACK, payload);
+  }
+};
+
+/**
+ * Emit dead-letter event to all clients connected to a specific device namespace
+ */
+export const emitMessageDeadLetter = (payload: MessageDeadLetterPayload): void => {
+  if (io) {
+    io.of(`/device/${payload.deviceId}`).emit(SOCKET_EVENTS.MESSAGE_DEAD_LETTER, payload);
+  }
+};
+
+/**
+ * Emit AI agent draft event to all clients connected to a specific device namespace
+ */
+export const emitAIDraft = (payload: AIDraftPayload): void => {
+  if (io) {
+    io.of(`/device/${payload.deviceId}`).emit(SOCKET_EVENTS.AI_DRAFT, payload);
+  }
+};
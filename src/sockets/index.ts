@@ -4,9 +4,14 @@
 export {
   initializeDeviceNamespace,
   emitQRCode,
+  emitPairingCode,
   emitDeviceReady,
   emitDeviceAuthenticated,
   emitMessage,
+  emitMessageTranslated,
   emitDeviceState,
   emitDeviceDisconnected,
+  emitMessageAck,
+  emitMessageDeadLetter,
+  emitAIDraft,
 } from './device.socket';
@@ -79,15 +79,19 @@ export interface SendVCardRequest {
 
 // Message acknowledgment status
 export type MessageAckStatus = 
+    | 'pending'
     | 'sent' 
     | 'delivered' 
     | 'read' 
+    | 'played'
     | 'error';
 
 // Message acknowledgment event
 export interface MessageAckEvent {
     deviceId: string;
     messageId: string;
+    chatId: string;
+    ack: number;
     status: MessageAckStatus;
     timestamp: number;
 }
@@ -1,5 +1,6 @@
 import { DeviceStatus } from './device.types';
 import { Message, MessageAckEvent, TypingStatusEvent, RecordingStatusEvent } from './message.types';
+import { ApiKeyInfo } from '../services/ApiKeyService';
 
 // Socket event names
 export const SOCKET_EVENTS = {
@@ -14,6 +15,7 @@ export const SOCKET_EVENTS = {
     // Device events
     DEVICE_STATUS: 'device-status',
     DEVICE_QR: 'qr',
+    DEVICE_PAIRING_CODE: 'pairing-code',
     DEVICE_READY: 'ready',
     DEVICE_AUTHENTICATED: 'authenticated',
     DEVICE_DISCONNECTED: 'disconnected',
@@ -27,6 +29,14 @@ export const SOCKET_EVENTS = {
     MESSAGE_SENT: 'message-sent',
     MESSAGE_ACK: 'message-ack',
     MESSAGE_REVOKED: 'message-revoked',
+    MESSAGE_DEAD_LETTER: 'message-dead-letter',
+    MESSAGE_TRANSLATED: 'message-translated',
+    AI_DRAFT: 'ai-draft',
+
+    // AI streaming events
+    AI_ANALYZE: 'ai-analyze',
+    AI_CANCEL: 'ai-cancel',
+    AI_STREAM: 'ai-stream',
     
     // Chat events
     TYPING_STATUS: 'typing-status',
@@ -67,6 +77,14 @@ export interface DeviceQRPayload {
     timestamp: number;
 }
 
+export interface DevicePairingCodePayload {
+    deviceId: string;
+    pairingCode: string; // 8 characters, entered on the phone under Linked devices
+    phoneNumber: string;
+    expiresAt: number;
+    timestamp: number;
+}
+
 export interface DeviceReadyPayload {
     deviceId: string;
     phoneNumber?: string;
@@ -110,6 +128,16 @@ export interface MessageReceivedPayload {
     timestamp: number;
 }
 
+// Sent after the message event, once the translation of a message in a translated chat is ready
+export interface MessageTranslatedPayload {
+    deviceId: string;
+    messageId: string;
+    chatId: string;
+    translatedBody: string;
+    detectedLanguage?: string;
+    timestamp: number;
+}
+
 export interface MessageSentPayload {
     deviceId: string;
     messageId: string;
@@ -173,11 +201,67 @@ export interface DeviceStatePayload {
     timestamp: number;
 }
 
+export interface MessageDeadLetterPayload {
+    deviceId: string;
+    deadLetterId: string;
+    queueId: string;
+    to: string;
+    error: string;
+    attempts: number;
+    timestamp: number;
+}
+
+export interface AIDraftPayload {
+    deviceId: string;
+    draftId: string;
+    chatId: string;
+    inReplyTo: string;
+    text: string;
+    timestamp: number;
+}
+
+export interface AIStreamUsage {
+    prompt_tokens: number;
+    completion_tokens: number;
+    total_tokens: number;
+}
+
+// Events of a streamed AI completion, sent as Server-Sent Events data and in ai-stream Socket.IO events
+export type AIStreamEvent =
+    | { type: 'start'; provider: string; model: string }
+    | { type: 'chunk'; content: string }
+    | { type: 'complete'; content: string; finishReason?: string; usage?: AIStreamUsage; provider?: string; model?: string }
+    | { type: 'error'; error: string }
+    | { type: 'cancelled' };
+
+export interface AIAnalyzeRequestPayload {
+    requestId: string; // Chosen by the client to match ai-stream events and to cancel
+    chatId: string;
+    analysisType?: string;
+    messageLimit?: number;
+    includeMetadata?: boolean;
+    provider?: string;
+    model?: string;
+    customQuery?: string;
+}
+
+export interface AICancelPayload {
+    requestId: string;
+}
+
+export type AIStreamPayload = AIStreamEvent & {
+    requestId: string;
+    deviceId: string;
+    chatId: string;
+    timestamp: number;
+};
+
 // Union type for all socket event payloads
 export type SocketEventPayload = 
     | JoinRoomPayload
     | DeviceStatusPayload
     | DeviceQRPayload
+    | DevicePairingCodePayload
     | DeviceReadyPayload
     | DeviceAuthenticatedPayload
     | DeviceDisconnectedPayload
@@ -185,6 +269,7 @@ export type SocketEventPayload =
     | DeviceDeletedPayload
     | DeviceBatteryPayload
     | MessageReceivedPayload
+    | MessageTranslatedPayload
     | MessageSentPayload
     | MessageAckEvent
     | TypingStatusEvent
@@ -195,12 +280,16 @@ export type SocketEventPayload =
     | ContactChangedPayload
     | ErrorPayload
     | StatusUpdatePayload
-    | DeviceStatePayload;
+    | DeviceStatePayload
+    | MessageDeadLetterPayload
+    | AIDraftPayload
+    | AIStreamPayload;
 
 // Socket server-to-client events
 export interface ServerToClientEvents {
     [SOCKET_EVENTS.DEVICE_STATUS]: (payload: DeviceStatusPayload) => void;
     [SOCKET_EVENTS.DEVICE_QR]: (payload: DeviceQRPayload) => void;
+    [SOCKET_EVENTS.DEVICE_PAIRING_CODE]: (payload: DevicePairingCodePayload) => void;
     [SOCKET_EVENTS.DEVICE_READY]: (payload: DeviceReadyPayload) => void;
     [SOCKET_EVENTS.DEVICE_AUTHENTICATED]: (payload: DeviceAuthenticatedPayload) => void;
     [SOCKET_EVENTS.DEVICE_DISCONNECTED]: (payload: DeviceDisconnectedPayload) => void;
@@ -208,8 +297,10 @@ export interface ServerToClientEvents {
     [SOCKET_EVENTS.DEVICE_DELETED]: (payload: DeviceDeletedPayload) => void;
     [SOCKET_EVENTS.DEVICE_BATTERY]: (payload: DeviceBatteryPayload) => void;
     [SOCKET_EVENTS.MESSAGE_RECEIVED]: (payload: MessageReceivedPayload) => void;
+    [SOCKET_EVENTS.MESSAGE_TRANSLATED]: (payload: MessageTranslatedPayload) => void;
     [SOCKET_EVENTS.MESSAGE_SENT]: (payload: MessageSentPayload) => void;
     [SOCKET_EVENTS.MESSAGE_ACK]: (payload: MessageAckEvent) => void;
+    [SOCKET_EVENTS.MESSAGE_DEAD_LETTER]: (payload: MessageDeadLetterPayload) => void;
     [SOCKET_EVENTS.TYPING_STATUS]: (payload: TypingStatusEvent) => void;
     [SOCKET_EVENTS.RECORDING_STATUS]: (payload: RecordingStatusEvent) => void;
     [SOCKET_EVENTS.GROUP_JOIN]: (payload: GroupJoinPayload) => void;
@@ -219,12 +310,16 @@ export interface ServerToClientEvents {
     [SOCKET_EVENTS.ERROR]: (payload: ErrorPayload) => void;
     [SOCKET_EVENTS.STATUS_UPDATE]: (payload: StatusUpdatePayload) => void;
     [SOCKET_EVENTS.DEVICE_STATE]: (payload: DeviceStatePayload) => void;
+    [SOCKET_EVENTS.AI_DRAFT]: (payload: AIDraftPayload) => void;
+    [SOCKET_EVENTS.AI_STREAM]: (payload: AIStreamPayload) => void;
 }
 
 // Socket client-to-server events
 export interface ClientToServerEvents {
     [SOCKET_EVENTS.JOIN_ROOM]: (payload: JoinRoomPayload) => void;
     [SOCKET_EVENTS.LEAVE_ROOM]: (room: string) => void;
+    [SOCKET_EVENTS.AI_ANALYZE]: (payload: AIAnalyzeRequestPayload) => void;
+    [SOCKET_EVENTS.AI_CANCEL]: (payload: AICancelPayload) => void;
 }
 
 // Socket inter-server events (for scaling)
@@ -235,6 +330,7 @@ export interface InterServerEvents {
 // Socket data stored on connection
 export interface SocketData {
     userId?: string;
+    apiKey?: ApiKeyInfo; // Set by socketAuth
     deviceId?: string;
     rooms: string[];
     connectedAt: number;
@@ -0,0 +1,129 @@
+import { AIMessage } from '../services/AIService';
+
+export interface ChatAnalysisOptions {
+  analysisType: string;
+  includeMetadata: boolean;
+  customQuery?: string;
+}
+
+export const formatMessagesForAI = (messages: any[], includeMetadata: boolean) => {
+  return messages.map(msg => {
+    // In groups, `from` is the group and `author` the participant who sent the message
+    const from = msg.fromMe ? 'Me' : (msg.author || msg.from).split('@')[0];
+    // Voice notes have no body, their transcript is added by TranscriptionService.addTranscripts
+    const body = msg.transcript !== undefined ? `[voice note] ${msg.transcript}` : msg.body;
+    let content = `${from}: ${body}`;
+    if (includeMetadata) {
+      content += ` (timestamp: ${new Date(msg.timestamp * 1000).toISOString()}`;
+      if (msg.isForwarded) content += ', forwarded';
+      if (msg.hasQuotedMsg) content += ', replied';
+      content += ')';
+    }
+    return content;
+  }).join('\n');
+};
+
+export const getAnalysisPrompt = (analysisType: string, customQuery?: string): string => {
+  const basePrompt = `You are WhatsAppAnalyst, an AI assistant specialized in analyzing WhatsApp conversations. Always respond with a structured JSON format.`;
+  
+  // Handle custom queries
+  if (analysisType === 'custom' && customQuery) {
+    return `${basePrompt} Answer the following specific question about the conversation: "${customQuery}". 
+    Provide your response in JSON format like this:
+    {
+      "query": "${customQuery}",
+      "answer": "your detailed answer here",
+      "supporting_evidence": ["specific examples from the conversation"],
+      "confidence_level": "high/medium/low",
+      "additional_insights": "any other relevant observations"
+    }`;
+  }
+  
+  switch (analysisType) {
+    case 'sentiment':
+      return `${basePrompt} Analyze the sentiment and emotional tone of the conversation. Return JSON with:
+      {
+        "overall_sentiment": "positive/negative/neutral",
+        "sentiment_score": -1 to 1,
+        "sentiment_breakdown": {
+          "positive_messages": number,
+          "negative_messages": number,
+          "neutral_messages": number
+        },
+        "emotional_journey": ["sentiment changes over time"],
+        "key_emotional_triggers": ["list of topics that caused sentiment shifts"]
+      }`;
+    
+    case 'summary':
+      return `${basePrompt} Provide a concise summary of the conversation. Return JSON with:
+      {
+        "main_topics": ["list of main discussion topics"],
+        "conversation_purpose": "what was this conversation about",
+        "key_decisions": ["decisions made or actions agreed upon"],
+        "participants": ["who was involved"],
+        "duration_analysis": "conversation flow and timing"
+      }`;
+    
+    case 'issues':
+      return `${basePrompt} Focus on identifying customer service issues and problems. Return JSON with:
+      {
+        "identified_issues": [{
+          "issue": "description",
+          "severity": "low/medium/high",
+          "resolved": true/false,
+          "resolution_quality": "poor/fair/good/excellent"
+        }],
+        "response_effectiveness": {
+          "avg_response_time": "estimated",
+          "completeness_score": 1-10,
+          "helpfulness_score": 1-10
+        },
+        "missed_opportunities": ["what could have been handled better"]
+      }`;
+    
+    default: // comprehensive
+      return `${basePrompt} Provide a comprehensive analysis of this WhatsApp conversation. Return JSON with:
+      {
+        "conversation_summary": {
+          "main_topics": ["list"],
+          "purpose": "overall purpose",
+          "outcome": "what was achieved"
+        },
+        "sentiment_analysis": {
+          "overall_sentiment": "positive/negative/neutral",
+          "sentiment_score": -1 to 1,
+          "emotional_highlights": ["key emotional moments"]
+        },
+        "communication_quality": {
+          "response_time_assessment": "fast/moderate/slow",
+          "clarity_score": 1-10,
+          "professionalism_score": 1-10
+        },
+        "issues_and_resolutions": {
+          "problems_identified": ["list"],
+          "resolution_success": true/false,
+          "outstanding_issues": ["unresolved items"]
+        },
+        "improvement_suggestions": ["actionable recommendations"],
+        "key_metrics": {
+          "total_messages": number,
+          "participants": number,
+          "conversation_length": "estimated duration"
+        }
+      }`;
+  }
+};
+
+/**
+ * Build the completion request for analyzing a chat, shared by the REST and streaming endpoints
+ */
+export const buildAnalysisMessages = (messages: any[], options: ChatAnalysisOptions): AIMessage[] => [
+  {
+    role: 'system',
+    content: getAnalysisPrompt(options.analysisType, options.customQuery)
+  },
+  {
+    role: 'user',
+    content: `Please analyze the following WhatsApp conversation:\n\n${formatMessagesForAI(messages, options.includeMetadata)}`
+  }
+];
@@ -0,0 +1,165 @@
+/**
+ * Minimal cron expression support for recurring scheduled messages
+ * Standard 5-field syntax (minute hour day-of-month month day-of-week), evaluated in the server's local time zone
+ */
+
+interface CronField {
+  min: number;
+  max: number;
+}
+
+interface ParsedCron {
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  anyDayOfMonth: boolean;
+  anyDayOfWeek: boolean;
+}
+
+const FIELDS: CronField[] = [
+  { min: 0, max: 59 }, // minute
+  { min: 0, max: 23 }, // hour
+  { min: 1, max: 31 }, // day of month
+  { min: 1, max: 12 }, // month
+  { min: 0, max: 7 },  // day of week (0 and 7 are Sunday)
+];
+
+const MACROS: Record<string, string> = {
+  '@hourly': '0 * * * *',
+  '@daily': '0 0 * * *',
+  '@midnight': '0 0 * * *',
+  '@weekly': '0 0 * * 0',
+  '@monthly': '0 0 1 * *',
+  '@yearly': '0 0 1 1 *',
+  '@annually': '0 0 1 1 *',
+};
+
+// Give up after five years of candidates, e.g. for "0 0 31 2 *"
+const MAX_SEARCH_MS = 5 * 366 * 24 * 60 * 60 * 1000;
+
+function parseField(value: string, field: CronField, name: string): Set<number> {
+  const result = new Set<number>();
+
+  for (const part of value.split(',')) {
+    if (!/^(\*|\d+(-\d+)?)(\/\d+)?$/.test(part)) {
+      throw new Error(`Invalid value "${part}" in cron ${name} field`);
+    }
+
+    const [range, stepValue] = part.split('/');
+    const step = stepValue === undefined ? 1 : Number(stepValue);
+    if (!Number.isInteger(step) || step < 1) {
+      throw new Error(`Invalid step "${stepValue}" in cron ${name} field`);
+    }
+
+    let start = field.min;
+    let end = field.max;
+    if (range !== '*') {
+      const [from, to] = range.split('-');
+      start = Number(from);
+      end = to === undefined ? (stepValue === undefined ? start : field.max) : Number(to);
+    }
+
+    if (!Number.isInteger(start) || !Number.isInteger(end) || start < field.min || end > field.max || start > end) {
+      throw new Error(`Invalid value "${part}" in cron ${name} field (allowed ${field.min}-${field.max})`);
+    }
+
+    for (let i = start; i <= end; i += step) {
+      result.add(i);
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Parse a cron expression, throwing a descriptive error when it is invalid
+ * @param expression - 5-field cron expression or a macro such as @daily
+ */
+export function parseCronExpression(expression: string): ParsedCron {
+  const normalized = MACROS[expression.trim().toLowerCase()] || expression.trim();
+  const parts = normalized.split(/\s+/);
+
+  if (parts.length !== 5) {
+    throw new Error(`Cron expression must have 5 fields (minute hour day-of-month month day-of-week), got ${parts.length}`);
+  }
+
+  const names = ['minute', 'hour', 'day-of-month', 'month', 'day-of-week'];
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = parts.map((part, i) => parseField(part, FIELDS[i], names[i]));
+
+  // 7 is an alias for Sunday
+  if (daysOfWeek.delete(7)) {
+    daysOfWeek.add(0);
+  }
+
+  return {
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    anyDayOfMonth: parts[2] === '*',
+    anyDayOfWeek: parts[4] === '*',
+  };
+}
+
+/**
+ * Check whether a string is a valid cron expression that will actually fire
+ */
+export function isValidCronExpression(expression: string): boolean {
+  try {
+    return getNextCronOccurrence(expression) !== null;
+  } catch {
+    return false;
+  }
+}
+
+function matchesDay(cron: ParsedCron, date: Date): boolean {
+  const domMatch = cron.daysOfMonth.has(date.getDate());
+  const dowMatch = cron.daysOfWeek.has(date.getDay());
+
+  // Like cron, when both day fields are restricted either one may match
+  if (!cron.anyDayOfMonth && !cron.anyDayOfWeek) {
+    return domMatch || dowMatch;
+  }
+  return domMatch && dowMatch;
+}
+
+/**
+ * Get the next time (epoch ms) strictly after `from` that matches the expression
+ * @returns The next occurrence, or null when the expression never matches
+ */
+export function getNextCronOccurrence(expression: string | ParsedCron, from: number = Date.now()): number | null {
+  const cron = typeof expression === 'string' ? parseCronExpression(expression) : expression;
+
+  const date = new Date(from);
+  date.setSeconds(0, 0);
+  date.setMinutes(date.getMinutes() + 1);
+
+  const limit = from + MAX_SEARCH_MS;
+
+  while (date.getTime() <= limit) {
+    if (!cron.months.has(date.getMonth() + 1)) {
+      date.setMonth(date.getMonth() + 1, 1);
+      date.setHours(0, 0, 0, 0);
+      continue;
+    }
+    if (!matchesDay(cron, date)) {
+      date.setDate(date.getDate() + 1);
+      date.setHours(0, 0, 0, 0);
+      continue;
+    }
+    if (!cron.hours.has(date.getHours())) {
+      date.setHours(date.getHours() + 1, 0, 0, 0);
+      continue;
+    }
+    if (!cron.minutes.has(date.getMinutes())) {
+      date.setMinutes(date.getMinutes() + 1, 0, 0);
+      continue;
+    }
+    return date.getTime();
+  }
+
+  return null;
+}
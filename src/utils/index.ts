@@ -5,6 +5,8 @@ export * from './media';
 export * from './messageAnalytics';
 export * from './messageUtils';
 export * from './joi-to-swagger';
+export * from './cron';
+export * from './jsonSchema';
 // Example:
 // export * from './logger';
 // export * from './validation';
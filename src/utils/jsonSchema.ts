@@ -0,0 +1,166 @@
+/**
+ * Minimal JSON Schema support for validating structured AI output
+ * Covers the keywords that describe plain data: types, properties, arrays, enums, ranges, lengths and patterns
+ */
+
+export type JsonSchema = Record<string, any>;
+
+const TYPES = ['string', 'number', 'integer', 'boolean', 'object', 'array', 'null'];
+
+const KEYWORDS = new Set([
+  'type', 'properties', 'required', 'additionalProperties', 'items', 'enum', 'const', 'anyOf',
+  'minimum', 'maximum', 'exclusiveMinimum', 'exclusiveMaximum', 'minLength', 'maxLength', 'pattern',
+  'minItems', 'maxItems', 'format',
+]);
+
+// Accepted but not checked
+const ANNOTATIONS = new Set(['$schema', '$id', 'title', 'description', 'default', 'examples']);
+
+const FORMATS: Record<string, (value: string) => boolean> = {
+  'date': value => /^\d{4}-\d{2}-\d{2}$/.test(value) && !isNaN(Date.parse(value)),
+  'date-time': value => /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:\d{2})$/.test(value) && !isNaN(Date.parse(value)),
+  'email': value => /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(value),
+};
+
+const isPlainObject = (value: any): boolean => typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const toArray = (value: any): any[] => (Array.isArray(value) ? value : [value]);
+
+const typeOf = (value: any): string => {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+};
+
+const matchesType = (value: any, type: string): boolean => {
+  if (type === 'integer') return Number.isInteger(value);
+  if (type === 'number') return typeof value === 'number' && Number.isFinite(value);
+  return typeOf(value) === type;
+};
+
+/**
+ * Find problems with a schema itself, such as keywords this validator can't check
+ * @returns One message per problem, empty when the schema can be used
+ */
+export function checkJsonSchema(schema: any, path: string = '#'): string[] {
+  if (!isPlainObject(schema)) {
+    return [`${path} must be an object`];
+  }
+
+  const problems: string[] = [];
+
+  for (const keyword of Object.keys(schema)) {
+    if (!KEYWORDS.has(keyword) && !ANNOTATIONS.has(keyword)) {
+      problems.push(`${path}: keyword "${keyword}" is not supported`);
+    }
+  }
+
+  const types: any[] = schema.type === undefined ? [] : toArray(schema.type);
+  for (const type of types) {
+    if (!TYPES.includes(type)) problems.push(`${path}: unknown type "${type}"`);
+  }
+
+  if (schema.properties !== undefined) {
+    if (!isPlainObject(schema.properties)) {
+      problems.push(`${path}/properties must be an object`);
+    } else {
+      for (const [name, property] of Object.entries(schema.properties)) {
+        problems.push(...checkJsonSchema(property, `${path}/properties/${name}`));
+      }
+    }
+  }
+  if (schema.required !== undefined && (!Array.isArray(schema.required) || schema.required.some((name: any) => typeof name !== 'string'))) {
+    problems.push(`${path}/required must be an array of property names`);
+  }
+  if (schema.additionalProperties !== undefined && typeof schema.additionalProperties !== 'boolean') {
+    problems.push(...checkJsonSchema(schema.additionalProperties, `${path}/additionalProperties`));
+  }
+  if (schema.items !== undefined) {
+    problems.push(...checkJsonSchema(schema.items, `${path}/items`));
+  }
+  if (schema.anyOf !== undefined) {
+    if (!Array.isArray(schema.anyOf) || schema.anyOf.length === 0) {
+      problems.push(`${path}/anyOf must be a non-empty array`);
+    } else {
+      schema.anyOf.forEach((option: any, i: number) => problems.push(...checkJsonSchema(option, `${path}/anyOf/${i}`)));
+    }
+  }
+  if (schema.enum !== undefined && !Array.isArray(schema.enum)) {
+    problems.push(`${path}/enum must be an array`);
+  }
+  if (schema.pattern !== undefined) {
+    try {
+      new RegExp(schema.pattern);
+    } catch {
+      problems.push(`${path}/pattern is not a valid regular expression`);
+    }
+  }
+
+  return problems;
+}
+
+/**
+ * Validate a value against a schema that passed checkJsonSchema
+ * @returns One message per violation, with the JSON path of the value, empty when the value is valid
+ */
+export function validateJsonSchema(schema: JsonSchema, value: any, path: string = '$'): string[] {
+  if (schema.type !== undefined) {
+    const types: string[] = toArray(schema.type);
+    if (!types.some(type => matchesType(value, type))) {
+      return [`${path} must be ${types.join(' or ')}, got ${typeOf(value)}`];
+    }
+  }
+
+  const errors: string[] = [];
+
+  if (schema.const !== undefined && JSON.stringify(value) !== JSON.stringify(schema.const)) {
+    errors.push(`${path} must be ${JSON.stringify(schema.const)}`);
+  }
+  if (schema.enum && !schema.enum.some((option: any) => JSON.stringify(option) === JSON.stringify(value))) {
+    errors.push(`${path} must be one of ${schema.enum.map((option: any) => JSON.stringify(option)).join(', ')}`);
+  }
+  if (schema.anyOf && !schema.anyOf.some((option: JsonSchema) => validateJsonSchema(option, value, path).length === 0)) {
+    errors.push(`${path} does not match any of the allowed schemas`);
+  }
+
+  if (typeof value === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) errors.push(`${path} must be at least ${schema.minimum}`);
+    if (schema.maximum !== undefined && value > schema.maximum) errors.push(`${path} must be at most ${schema.maximum}`);
+    if (schema.exclusiveMinimum !== undefined && value <= schema.exclusiveMinimum) errors.push(`${path} must be greater than ${schema.exclusiveMinimum}`);
+    if (schema.exclusiveMaximum !== undefined && value >= schema.exclusiveMaximum) errors.push(`${path} must be less than ${schema.exclusiveMaximum}`);
+  }
+
+  if (typeof value === 'string') {
+    if (schema.minLength !== undefined && value.length < schema.minLength) errors.push(`${path} must have at least ${schema.minLength} characters`);
+    if (schema.maxLength !== undefined && value.length > schema.maxLength) errors.push(`${path} must have at most ${schema.maxLength} characters`);
+    if (schema.pattern !== undefined && !new RegExp(schema.pattern).test(value)) errors.push(`${path} must match ${schema.pattern}`);
+    if (schema.format && FORMATS[schema.format] && !FORMATS[schema.format](value)) errors.push(`${path} must be a valid ${schema.format}`);
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) errors.push(`${path} must have at least ${schema.minItems} items`);
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) errors.push(`${path} must have at most ${schema.maxItems} items`);
+    if (schema.items) {
+      value.forEach((item, i) => errors.push(...validateJsonSchema(schema.items, item, `${path}[${i}]`)));
+    }
+  }
+
+  if (isPlainObject(value)) {
+    for (const name of schema.required || []) {
+      if (value[name] === undefined) errors.push(`${path}.${name} is required`);
+    }
+
+    const properties: Record<string, JsonSchema> = schema.properties || {};
+    for (const [name, propertyValue] of Object.entries(value)) {
+      if (Object.prototype.hasOwnProperty.call(properties, name)) {
+        errors.push(...validateJsonSchema(properties[name], propertyValue, `${path}.${name}`));
+      } else if (schema.additionalProperties === false) {
+        errors.push(`${path}.${name} is not allowed`);
+      } else if (isPlainObject(schema.additionalProperties)) {
+        errors.push(...validateJsonSchema(schema.additionalProperties, propertyValue, `${path}.${name}`));
+      }
+    }
+  }
+
+  return errors;
+}
@@ -1,5 +1,6 @@
 import { Message, Chat } from 'whatsapp-web.js';
 import { LightMessageMeta, MessageEventPayload, MessageCreateEventPayload } from '../types/analytics.types';
+import { MessageAckStatus } from '../types/message.types';
 
 /**
  * Extracts privacy-friendly metadata from a WhatsApp message
@@ -67,26 +68,30 @@ export async function createMessageCreateEventPayload(
 /**
  * Maps WhatsApp Web.js acknowledgment status to readable format
  * 
- * WhatsApp ack values:
- * - 0: ACK_ERROR (error)
- * - 1: ACK_PENDING (sent)
- * - 2: ACK_SERVER (delivered to server)
- * - 3: ACK_DEVICE (delivered to device)
- * - 4: ACK_READ (read by recipient)
+ * WhatsApp ack values (MessageAck):
+ * - -1: ACK_ERROR (error)
+ * - 0: ACK_PENDING (pending, not yet on the server)
+ * - 1: ACK_SERVER (sent, received by the server)
+ * - 2: ACK_DEVICE (delivered to the recipient's device)
+ * - 3: ACK_READ (read by recipient)
+ * - 4: ACK_PLAYED (voice/video message played)
  */
-export function mapAckStatus(ack: number): 'sent' | 'delivered' | 'read' | 'failed' {
+export function mapAckStatus(ack: number): MessageAckStatus {
   switch (ack) {
+    case -1:
+      return 'error';
     case 0:
-      return 'failed';
+      return 'pending';
     case 1:
       return 'sent';
     case 2:
-    case 3:
       return 'delivered';
-    case 4:
+    case 3:
       return 'read';
+    case 4:
+      return 'played';
     default:
-      return 'sent';
+      return 'error';
   }
 }
 
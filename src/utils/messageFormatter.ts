@@ -1,5 +1,7 @@
 import { Message, MessageMedia } from 'whatsapp-web.js';
 import { logError } from '../config/logger';
+import { TranscriptionService, isTranscribable } from '../services/TranscriptionService';
+import { TranslationService } from '../services/TranslationService';
 
 /**
  * Enhanced message interface with media details
@@ -28,6 +30,9 @@ export interface EnhancedMessage {
       height: number;
     };
   };
+  transcript?: string; // For transcribed voice notes and audio
+  translatedBody?: string; // For inbound messages in chats with translation on
+  originalBody?: string; // For outbound messages sent with translateTo, before translation
   location?: {
     latitude: number;
     longitude: number;
@@ -86,6 +91,24 @@ export async function formatMessage(message: Message, deviceId: string): Promise
     }
   }
 
+  // Handle voice note transcripts, only when already made
+  if (isTranscribable(message)) {
+    const transcript = await TranscriptionService.getInstance().getTranscript(deviceId, message.id._serialized);
+    if (transcript) {
+      formatted.transcript = transcript.text;
+    }
+  }
+
+  // Handle translations, only when already made
+  if (message.body) {
+    const translation = await TranslationService.getInstance().getTranslation(deviceId, message.id._serialized);
+    if (translation?.direction === 'inbound') {
+      formatted.translatedBody = translation.text;
+    } else if (translation?.direction === 'outbound') {
+      formatted.originalBody = translation.original;
+    }
+  }
+
   // Handle location messages
   if (message.location) {
     formatted.location = {
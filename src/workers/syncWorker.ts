@@ -3,12 +3,15 @@ import { EventEmitter } from 'events';
 import logger from '../config/logger';
 import { getRedisClient } from '../config/redis';
 import { MetricsService } from '../config/metrics';
+import { Pool } from 'pg';
+import { LightMessageMeta } from '../types/analytics.types';
 
 /**
  * Interface for sync worker configuration
  */
 interface SyncWorkerConfig {
   syncInterval: number;
+  writers: DownstreamWriterType[];
   lockKey: string;
   lockExpiry: number;
   batchSize: number;
@@ -16,22 +19,255 @@ interface SyncWorkerConfig {
   retryDelay: number;
 }
 
+/**
+ * Built-in downstream writers that can be selected via SYNC_WRITERS
+ */
+type DownstreamWriterType = 'postgres' | 'file' | 'webhook';
+
 /**
  * Interface for downstream storage writer
  */
 interface DownstreamWriter {
   write(messages: any[], queueType: 'in' | 'out'): Promise<void>;
+  close?(): Promise<void>;
 }
 
 /**
- * PostgreSQL writer implementation
+ * Versioned schema migrations for the PostgreSQL writer. Append new entries,
+ * never edit applied ones.
+ */
+const POSTGRES_MIGRATIONS: Array<{ version: number; name: string; up: (table: string) => string }> = [
+  {
+    version: 1,
+    name: 'create_messages_table',
+    up: (table) => `
+      CREATE TABLE IF NOT EXISTS ${table} (
+        message_id    TEXT PRIMARY KEY,
+        device_id     TEXT NOT NULL,
+        chat_id       TEXT NOT NULL,
+        sender        TEXT NOT NULL,
+        direction     TEXT NOT NULL CHECK (direction IN ('in', 'out')),
+        type          TEXT NOT NULL,
+        sent_at       TIMESTAMPTZ NOT NULL,
+        from_me       BOOLEAN NOT NULL DEFAULT FALSE,
+        is_group      BOOLEAN NOT NULL DEFAULT FALSE,
+        has_media     BOOLEAN NOT NULL DEFAULT FALSE,
+        is_forwarded  BOOLEAN NOT NULL DEFAULT FALSE,
+        is_reply      BOOLEAN NOT NULL DEFAULT FALSE,
+        mention_count INTEGER,
+        ack_status    TEXT,
+        meta          JSONB NOT NULL DEFAULT '{}'::jsonb,
+        synced_at     TIMESTAMPTZ NOT NULL DEFAULT NOW()
+      );
+      CREATE INDEX IF NOT EXISTS ${table}_device_sent_at_idx ON ${table} (device_id, sent_at DESC);
+      CREATE INDEX IF NOT EXISTS ${table}_chat_sent_at_idx ON ${table} (chat_id, sent_at DESC);
+    `,
+  },
+  {
+    // A message seen by several devices, e.g. in a shared group, is kept once per device
+    version: 2,
+    name: 'key_messages_by_device',
+    up: (table) => `
+      ALTER TABLE ${table} DROP CONSTRAINT IF EXISTS ${table}_pkey;
+      ALTER TABLE ${table} ADD PRIMARY KEY (device_id, message_id);
+    `,
+  },
+];
+
+/**
+ * Columns written per row, in insert order
+ */
+const POSTGRES_COLUMNS = [
+  'message_id', 'device_id', 'chat_id', 'sender', 'direction', 'type', 'sent_at',
+  'from_me', 'is_group', 'has_media', 'is_forwarded', 'is_reply', 'mention_count', 'ack_status', 'meta',
+];
+
+/**
+ * Options for the PostgreSQL writer
+ */
+interface PostgreSQLWriterOptions {
+  connectionString?: string;
+  tableName?: string;
+  autoMigrate?: boolean;
+  insertBatchSize?: number;
+  pool?: Pool;
+}
+
+/**
+ * PostgreSQL writer implementation. Rows are keyed by device and message id, so
+ * re-delivered batches (e.g. after a rollback) are skipped instead of duplicated.
  */
 class PostgreSQLWriter implements DownstreamWriter {
+  private readonly pool: Pool;
+  private readonly ownsPool: boolean;
+  private readonly tableName: string;
+  private readonly autoMigrate: boolean;
+  private readonly insertBatchSize: number;
+  private migrationPromise: Promise<void> | null = null;
+
+  constructor(options: PostgreSQLWriterOptions = {}) {
+    this.tableName = options.tableName || process.env.SYNC_POSTGRES_TABLE || 'whatsapp_messages';
+    if (!/^[a-z_][a-z0-9_]*$/i.test(this.tableName)) {
+      throw new Error(`Invalid PostgreSQL table name: ${this.tableName}`);
+    }
+
+    this.autoMigrate = options.autoMigrate ?? process.env.SYNC_POSTGRES_AUTO_MIGRATE !== 'false';
+    // Keep each INSERT well below PostgreSQL's 65535 bind parameter limit
+    this.insertBatchSize = Math.min(
+      options.insertBatchSize || parseInt(process.env.SYNC_POSTGRES_INSERT_BATCH_SIZE || '500', 10),
+      Math.floor(65535 / POSTGRES_COLUMNS.length)
+    );
+
+    this.ownsPool = !options.pool;
+    this.pool = options.pool || new Pool({
+      connectionString: options.connectionString || process.env.POSTGRES_URL || process.env.DATABASE_URL,
+      max: parseInt(process.env.SYNC_POSTGRES_POOL_SIZE || '5', 10),
+    });
+
+    this.pool.on('error', (error) => {
+      logger.error('[PostgreSQL] Idle client error:', error);
+    });
+  }
+
+  /**
+   * Apply pending schema migrations. Safe to call from several workers at
+   * once: an advisory lock serializes them and applied versions are recorded.
+   */
+  async migrate(): Promise<void> {
+    const client = await this.pool.connect();
+    const migrationsTable = `${this.tableName}_schema_migrations`;
+
+    try {
+      await client.query('BEGIN');
+      await client.query('SELECT pg_advisory_xact_lock(hashtext($1))', [migrationsTable]);
+      await client.query(`
+        CREATE TABLE IF NOT EXISTS ${migrationsTable} (
+          version    INTEGER PRIMARY KEY,
+          name       TEXT NOT NULL,
+          applied_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+        )
+      `);
+
+      const { rows } = await client.query<{ version: number }>(`SELECT version FROM ${migrationsTable}`);
+      const applied = new Set(rows.map(row => row.version));
+
+      for (const migration of POSTGRES_MIGRATIONS) {
+        if (applied.has(migration.version)) continue;
+
+        await client.query(migration.up(this.tableName));
+        await client.query(
+          `INSERT INTO ${migrationsTable} (version, name) VALUES ($1, $2)`,
+          [migration.version, migration.name]
+        );
+        logger.info(`[PostgreSQL] Applied migration ${migration.version}_${migration.name}`);
+      }
+
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK').catch(() => undefined);
+      logger.error('[PostgreSQL] Migration failed:', error);
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
   async write(messages: any[], queueType: 'in' | 'out'): Promise<void> {
-    // TODO: Implement PostgreSQL batch write
-    logger.info(`[PostgreSQL] Writing ${messages.length} messages from ${queueType} queue`);
-    // Simulate async operation
-    await new Promise(resolve => setTimeout(resolve, 10));
+    const rows = this.toRows(messages, queueType);
+    if (rows.length === 0) {
+      return;
+    }
+
+    if (this.autoMigrate) {
+      // Retry the migration on the next batch if this one failed
+      this.migrationPromise = this.migrationPromise || this.migrate().catch(error => {
+        this.migrationPromise = null;
+        throw error;
+      });
+      await this.migrationPromise;
+    }
+
+    const client = await this.pool.connect();
+    let inserted = 0;
+
+    try {
+      await client.query('BEGIN');
+
+      for (let i = 0; i < rows.length; i += this.insertBatchSize) {
+        const chunk = rows.slice(i, i + this.insertBatchSize);
+        const values: any[] = [];
+        const placeholders = chunk.map((row, rowIndex) => {
+          values.push(...row);
+          const offset = rowIndex * POSTGRES_COLUMNS.length;
+          return `(${POSTGRES_COLUMNS.map((_, col) => `$${offset + col + 1}`).join(', ')})`;
+        });
+
+        const result = await client.query(
+          `INSERT INTO ${this.tableName} (${POSTGRES_COLUMNS.join(', ')})
+           VALUES ${placeholders.join(', ')}
+           ON CONFLICT (device_id, message_id) DO NOTHING`,
+          values
+        );
+        inserted += result.rowCount || 0;
+      }
+
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK').catch(() => undefined);
+      logger.error(`[PostgreSQL] Error writing messages from ${queueType} queue:`, error);
+      throw error;
+    } finally {
+      client.release();
+    }
+
+    logger.info(`[PostgreSQL] Written ${inserted} messages from ${queueType} queue (${rows.length - inserted} duplicates skipped)`);
+  }
+
+  async close(): Promise<void> {
+    if (this.ownsPool) {
+      await this.pool.end();
+    }
+  }
+
+  /**
+   * Map LightMessageMeta entries to insert rows, dropping entries without a
+   * message id and duplicates within the batch
+   */
+  private toRows(messages: any[], queueType: 'in' | 'out'): any[][] {
+    const seen = new Set<string>();
+    const rows: any[][] = [];
+
+    for (const message of messages as Partial<LightMessageMeta>[]) {
+      if (!message || typeof message.messageId !== 'string' || !message.chatId) {
+        logger.warn(`[PostgreSQL] Skipping message without messageId/chatId from ${queueType} queue`);
+        continue;
+      }
+      const meta = message.meta || ({} as LightMessageMeta['meta']);
+      const deviceId = meta.deviceId || 'unknown';
+      const key = `${deviceId}:${message.messageId}`;
+      if (seen.has(key)) continue;
+      seen.add(key);
+
+      rows.push([
+        message.messageId,
+        deviceId,
+        message.chatId,
+        message.sender || '',
+        queueType,
+        message.type || 'unknown',
+        new Date(message.timestamp || Date.now()),
+        !!meta.fromMe,
+        !!meta.isGroup,
+        !!meta.hasMedia,
+        !!meta.isForwarded,
+        !!meta.isReply,
+        meta.mentionCount ?? null,
+        meta.ackStatus ?? null,
+        JSON.stringify(meta),
+      ]);
+    }
+
+    return rows;
   }
 }
 
@@ -129,6 +365,10 @@ export class SyncWorker extends EventEmitter {
     // Configuration with defaults
     this.config = {
       syncInterval: parseInt(process.env.SYNC_INTERVAL_MS || '60000', 10),
+      writers: (process.env.SYNC_WRITERS || '')
+        .split(',')
+        .map(type => type.trim())
+        .filter(Boolean) as DownstreamWriterType[],
       lockKey: 'whatsapp:syncLock',
       lockExpiry: parseInt(process.env.SYNC_LOCK_EXPIRY_MS || '300000', 10), // 5 minutes
       batchSize: parseInt(process.env.SYNC_BATCH_SIZE || '100', 10),
@@ -147,11 +387,34 @@ export class SyncWorker extends EventEmitter {
   }
 
   /**
-   * Create default downstream writers based on environment configuration
+   * Create default downstream writers. Explicitly configured writer types win;
+   * otherwise writers are picked from whichever environment variables are set.
    */
   private createDefaultWriters(): DownstreamWriter[] {
     const writers: DownstreamWriter[] = [];
 
+    if (this.config.writers.length > 0) {
+      for (const type of this.config.writers) {
+        switch (type) {
+          case 'postgres':
+            writers.push(new PostgreSQLWriter());
+            break;
+          case 'file':
+            writers.push(new FileWriter(process.env.SYNC_FILE_PATH));
+            break;
+          case 'webhook':
+            if (!process.env.SYNC_WEBHOOK_URL) {
+              throw new Error('SYNC_WEBHOOK_URL is required for the webhook writer');
+            }
+            writers.push(new WebhookWriter(process.env.SYNC_WEBHOOK_URL));
+            break;
+          default:
+            throw new Error(`Unknown sync writer type: ${type}`);
+        }
+      }
+      return writers;
+    }
+
     // PostgreSQL writer
     if (process.env.POSTGRES_URL || process.env.DATABASE_URL) {
       writers.push(new PostgreSQLWriter());
@@ -419,6 +682,15 @@ export class SyncWorker extends EventEmitter {
       logger.error('[SyncWorker] Error cleaning up temporary queues:', error);
     }
 
+    // Close writer connections (e.g. the PostgreSQL pool)
+    for (const writer of this.downstreamWriters) {
+      try {
+        await writer.close?.();
+      } catch (error) {
+        logger.error('[SyncWorker] Error closing downstream writer:', error);
+      }
+    }
+
     // Emit stop event
     this.emit('worker_stopped', { processId: this.processId });
   }
@@ -505,7 +777,7 @@ export async function startSyncWorkerProcess(): Promise<void> {
 }
 
 // Export types and implementations
-export type { SyncWorkerConfig, DownstreamWriter };
+export type { SyncWorkerConfig, DownstreamWriter, DownstreamWriterType, PostgreSQLWriterOptions };
 export { PostgreSQLWriter, FileWriter, WebhookWriter };
 
 // Auto-start if this file is run directly
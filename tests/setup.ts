@@ -117,6 +117,8 @@ jest.mock('../src/services/DeviceManager', () => {
     }),
     deleteDevice: jest.fn().mockResolvedValue(undefined),
     deleteAllDevices: jest.fn().mockResolvedValue(undefined),
+    updateDevice: jest.fn(),
+    requestPairingCode: jest.fn(),
   };
   
   return {
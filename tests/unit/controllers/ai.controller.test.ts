@@ -0,0 +1,82 @@
+import { Request, Response } from 'express';
+
+// The config barrel also loads Socket.IO; the controller only needs the logger
+jest.mock('../../../src/config', () => ({
+  logger: { info: jest.fn(), error: jest.fn(), debug: jest.fn(), warn: jest.fn() },
+}));
+jest.mock('../../../src/services/AIService', () => ({ AIService: { getInstance: jest.fn() } }));
+jest.mock('../../../src/services/AIUsageService', () => ({ AIBudgetExceededError: class extends Error {} }));
+
+const extract = jest.fn();
+jest.mock('../../../src/services/ExtractionService', () => ({
+  ExtractionService: { getInstance: () => ({ extract }) },
+}));
+jest.mock('../../../src/services/TranscriptionService', () => ({
+  TranscriptionService: { getInstance: () => ({ addTranscripts: async (_deviceId: string, messages: unknown[]) => messages }) },
+}));
+
+import { extractChatData } from '../../../src/controllers/ai.controller';
+import { DeviceManager } from '../../../src/services/DeviceManager';
+
+describe('AIController extractChatData', () => {
+  const hour = 3600;
+  const now = Math.floor(Date.now() / 1000);
+  // One message an hour, oldest first, like Chat.fetchMessages returns them
+  const history = Array.from({ length: 10000 }, (_, i) => ({ id: { _serialized: `msg-${i}` }, body: 'Hi', timestamp: now - (9999 - i) * hour }));
+  const fetchMessages = jest.fn(async ({ limit }: { limit: number }) => history.slice(-limit));
+
+  let mockRequest: Partial<Request>;
+  let mockResponse: Partial<Response>;
+
+  beforeEach(() => {
+    (DeviceManager.getInstance().getDevice as jest.Mock).mockReturnValue({
+      id: 'device-1',
+      status: 'ready',
+      client: { getChatById: async () => ({ fetchMessages }) },
+    });
+    extract.mockImplementation(async (messages: unknown[]) => ({ status: 'valid', data: {}, messageCount: messages.length, attempts: 1 }));
+    fetchMessages.mockClear();
+    mockResponse = {
+      status: jest.fn().mockReturnThis(),
+      json: jest.fn().mockReturnThis(),
+    };
+  });
+
+  const request = (body: object) => {
+    mockRequest = {
+      params: { id: 'device-1', chatId: '34600111222@c.us' },
+      body: { schema: { type: 'object', properties: {} }, messageLimit: 100, ...body },
+    };
+    return extractChatData(mockRequest as Request, mockResponse as Response);
+  };
+
+  it('should fetch back to the start of the time window', async () => {
+    await request({ since: new Date((now - 500 * hour) * 1000) });
+
+    expect(extract.mock.calls[0][0]).toHaveLength(501);
+    expect(mockResponse.json).toHaveBeenCalledWith({
+      success: true,
+      data: expect.objectContaining({ messageCount: 501, truncated: false }),
+    });
+  });
+
+  it('should flag a time window with more messages than it fetches', async () => {
+    await request({ since: new Date((now - 8000 * hour) * 1000) });
+
+    expect(fetchMessages).toHaveBeenLastCalledWith({ limit: 5000 });
+    expect(mockResponse.json).toHaveBeenCalledWith({
+      success: true,
+      data: expect.objectContaining({ messageCount: 5000, truncated: true }),
+    });
+  });
+
+  it('should only fetch messageLimit messages without a start', async () => {
+    await request({});
+
+    expect(fetchMessages).toHaveBeenCalledTimes(1);
+    expect(mockResponse.json).toHaveBeenCalledWith({
+      success: true,
+      data: expect.objectContaining({ messageCount: 100, truncated: false }),
+    });
+  });
+});
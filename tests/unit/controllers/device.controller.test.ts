@@ -48,6 +48,40 @@ describe('DeviceController', () => {
       });
     });
 
+    it('should create a named, labelled device owned by the calling API key', async () => {
+      mockRequest.body = { name: 'Support line', labels: ['support'], metadata: { team: 'support' } };
+      (mockRequest as any).apiKey = { id: 'key-1' };
+      mockDeviceManager.createDevice.mockResolvedValue({
+        id: 'test-device-id',
+        status: 'initializing',
+        name: 'Support line',
+        labels: ['support'],
+        metadata: { team: 'support' },
+        owner: 'key-1',
+        createdAt: 1,
+        lastSeen: 1,
+      } as any);
+
+      await DeviceController.createDevice(mockRequest as Request, mockResponse as Response);
+
+      expect(mockDeviceManager.createDevice).toHaveBeenCalledWith({
+        name: 'Support line',
+        labels: ['support'],
+        metadata: { team: 'support' },
+        owner: 'key-1',
+      });
+      expect(mockResponse.json).toHaveBeenCalledWith({
+        success: true,
+        data: expect.objectContaining({
+          deviceId: 'test-device-id',
+          name: 'Support line',
+          labels: ['support'],
+          metadata: { team: 'support' },
+          owner: 'key-1',
+        }),
+      });
+    });
+
     it('should handle errors when creating device', async () => {
       mockDeviceManager.createDevice.mockRejectedValue(new Error('Create device failed'));
 
@@ -62,6 +96,10 @@ describe('DeviceController', () => {
   });
 
   describe('listDevices', () => {
+    beforeEach(() => {
+      mockRequest.query = {};
+    });
+
     it('should list devices successfully', async () => {
       const mockDevices = [
         {
@@ -94,6 +132,19 @@ describe('DeviceController', () => {
       });
     });
 
+    it('should pass the status, label and owner filters on', async () => {
+      mockRequest.query = { status: 'ready', label: ['support', 'eu'], owner: 'team-support' } as any;
+      mockDeviceManager.listDevices.mockResolvedValue([]);
+
+      await DeviceController.listDevices(mockRequest as Request, mockResponse as Response);
+
+      expect(mockDeviceManager.listDevices).toHaveBeenCalledWith({
+        status: 'ready',
+        labels: ['support', 'eu'],
+        owner: 'team-support',
+      });
+    });
+
     it('should handle errors when listing devices', async () => {
       mockDeviceManager.listDevices.mockRejectedValue(new Error('List devices failed'));
 
@@ -134,6 +185,30 @@ describe('DeviceController', () => {
       });
     });
 
+    it('should include the device profile', async () => {
+      mockDeviceManager.getDevice.mockReturnValue({
+        id: 'test-device-id',
+        status: 'ready',
+        lastSeen: 2,
+        name: 'Support',
+        labels: ['support'],
+        metadata: { team: 'support' },
+        owner: 'team-support',
+      } as any);
+
+      await DeviceController.getDeviceStatus(mockRequest as Request, mockResponse as Response);
+
+      expect(mockResponse.json).toHaveBeenCalledWith({
+        success: true,
+        data: expect.objectContaining({
+          name: 'Support',
+          labels: ['support'],
+          metadata: { team: 'support' },
+          owner: 'team-support',
+        }),
+      });
+    });
+
     it('should return 404 when device not found', async () => {
       mockDeviceManager.getDevice.mockReturnValue(undefined);
 
@@ -171,6 +246,99 @@ describe('DeviceController', () => {
     });
   });
 
+  describe('updateDevice', () => {
+    beforeEach(() => {
+      mockRequest.params = { id: 'test-device-id' };
+      mockRequest.body = { labels: ['support'], metadata: { purpose: null } };
+    });
+
+    it('should return the updated device', async () => {
+      mockDeviceManager.updateDevice.mockResolvedValue({
+        id: 'test-device-id',
+        status: 'ready',
+        labels: ['support'],
+        metadata: { team: 'support' },
+        createdAt: 1,
+        lastSeen: 2,
+      });
+
+      await DeviceController.updateDevice(mockRequest as Request, mockResponse as Response);
+
+      expect(mockDeviceManager.updateDevice).toHaveBeenCalledWith('test-device-id', mockRequest.body);
+      expect(mockResponse.json).toHaveBeenCalledWith({
+        success: true,
+        data: {
+          deviceId: 'test-device-id',
+          status: 'ready',
+          createdAt: 1,
+          lastSeen: 2,
+          phoneNumber: null,
+          clientName: null,
+          name: null,
+          labels: ['support'],
+          metadata: { team: 'support' },
+          owner: null,
+        },
+      });
+    });
+
+    it('should return 404 when device not found', async () => {
+      mockDeviceManager.updateDevice.mockResolvedValue(null);
+
+      await DeviceController.updateDevice(mockRequest as Request, mockResponse as Response);
+
+      expect(mockResponse.status).toHaveBeenCalledWith(404);
+    });
+  });
+
+  describe('pairDevice', () => {
+    beforeEach(() => {
+      mockRequest.params = { id: 'test-device-id' };
+      mockRequest.body = { phoneNumber: '34600111222' };
+    });
+
+    it('should return the pairing code', async () => {
+      const expiresAt = Date.now() + 180000;
+      mockDeviceManager.requestPairingCode.mockResolvedValue({ status: 'requested', pairingCode: 'ABCD1234', expiresAt });
+
+      await DeviceController.pairDevice(mockRequest as Request, mockResponse as Response);
+
+      expect(mockDeviceManager.requestPairingCode).toHaveBeenCalledWith('test-device-id', '34600111222');
+      expect(mockResponse.json).toHaveBeenCalledWith({
+        success: true,
+        data: {
+          deviceId: 'test-device-id',
+          pairingCode: 'ABCD1234',
+          phoneNumber: '34600111222',
+          expiresAt,
+        },
+      });
+    });
+
+    it('should return 409 when the device is not waiting for login', async () => {
+      mockDeviceManager.requestPairingCode.mockResolvedValue({
+        status: 'not_pairable',
+        error: 'Device is ready; pairing codes are only available while it waits for login',
+      });
+
+      await DeviceController.pairDevice(mockRequest as Request, mockResponse as Response);
+
+      expect(mockResponse.status).toHaveBeenCalledWith(409);
+    });
+
+    it('should return 404 when device not found', async () => {
+      mockDeviceManager.requestPairingCode.mockResolvedValue({ status: 'not_found' });
+
+      await DeviceController.pairDevice(mockRequest as Request, mockResponse as Response);
+
+      expect(mockResponse.status).toHaveBeenCalledWith(404);
+      expect(mockResponse.json).toHaveBeenCalledWith({
+        success: false,
+        error: 'Device not found',
+      });
+    });
+  });
+
   describe('deleteDevice', () => {
     beforeEach(() => {
       mockRequest.params = { id: 'test-device-id' };
@@ -0,0 +1,159 @@
+import { Request, Response } from 'express';
+import { GroupsController } from '../../../src/controllers/groups.controller';
+import { DeviceManager } from '../../../src/services/DeviceManager';
+
+describe('GroupsController', () => {
+  let mockRequest: Partial<Request>;
+  let mockResponse: Partial<Response>;
+  let mockDeviceManager: jest.Mocked<ReturnType<typeof DeviceManager.getInstance>>;
+  let mockGroup: any;
+
+  beforeEach(() => {
+    mockGroup = {
+      isGroup: true,
+      participants: [
+        { id: { _serialized: '1111111111@c.us' }, isAdmin: false, isSuperAdmin: false },
+        { id: { _serialized: '2222222222@c.us' }, isAdmin: true, isSuperAdmin: false },
+        { id: { _serialized: '3333333333@c.us' }, isAdmin: true, isSuperAdmin: true },
+      ],
+      addParticipants: jest.fn(),
+      removeParticipants: jest.fn().mockResolvedValue({ status: 200 }),
+      promoteParticipants: jest.fn().mockResolvedValue({ status: 200 }),
+      demoteParticipants: jest.fn().mockResolvedValue({ status: 200 }),
+      setSubject: jest.fn().mockResolvedValue(true),
+      setDescription: jest.fn().mockResolvedValue(true),
+      setMessagesAdminsOnly: jest.fn().mockResolvedValue(true),
+      setInfoAdminsOnly: jest.fn().mockResolvedValue(true),
+    };
+
+    mockRequest = {
+      params: { id: 'test-device-id', groupId: '120363000000000000@g.us' },
+      body: {},
+    };
+    mockResponse = {
+      status: jest.fn().mockReturnThis(),
+      json: jest.fn().mockReturnThis(),
+    };
+
+    mockDeviceManager = DeviceManager.getInstance() as jest.Mocked<ReturnType<typeof DeviceManager.getInstance>>;
+    mockDeviceManager.getDevice.mockReturnValue({
+      id: 'test-device-id',
+      status: 'ready',
+      client: {
+        getChatById: jest.fn().mockResolvedValue(mockGroup),
+      },
+    } as any);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('addParticipants', () => {
+    it('should report a result for each participant', async () => {
+      mockRequest.body = {
+        participants: ['4444444444', '1111111111@c.us', '5555555555', '6666666666'],
+        autoSendInvite: true,
+        inviteComment: '',
+      };
+      mockGroup.addParticipants.mockResolvedValue({
+        '4444444444@c.us': { code: 200, message: 'added', isInviteV4Sent: false },
+        '1111111111@c.us': { code: 409, message: 'already member', isInviteV4Sent: false },
+        '5555555555@c.us': { code: 403, message: 'private invite only', isInviteV4Sent: true },
+        '6666666666@c.us': { code: 403, message: 'private invite only', isInviteV4Sent: false },
+      });
+
+      await GroupsController.addParticipants(mockRequest as Request, mockResponse as Response);
+
+      expect(mockGroup.addParticipants).toHaveBeenCalledWith(
+        ['4444444444@c.us', '1111111111@c.us', '5555555555@c.us', '6666666666@c.us'],
+        { autoSendInviteV4: true, comment: '' }
+      );
+      expect(mockResponse.status).toHaveBeenCalledWith(200);
+
+      const { data } = (mockResponse.json as jest.Mock).mock.calls[0][0];
+      expect(data.results.map((r: any) => r.status)).toEqual([
+        'added',
+        'already_member',
+        'invite_sent',
+        'privacy_blocked',
+      ]);
+      expect(data.summary).toEqual({ added: 1, already_member: 1, invite_sent: 1, privacy_blocked: 1 });
+    });
+
+    it('should return 400 when the device is not a group admin', async () => {
+      mockRequest.body = { participants: ['4444444444'] };
+      mockGroup.addParticipants.mockResolvedValue(
+        'AddParticipantsError: You have no admin rights to add a participant to a group'
+      );
+
+      await GroupsController.addParticipants(mockRequest as Request, mockResponse as Response);
+
+      expect(mockResponse.status).toHaveBeenCalledWith(400);
+      expect(mockResponse.json).toHaveBeenCalledWith(
+        expect.objectContaining({
+          success: false,
+          error: 'Device must be a group admin to perform this action',
+        })
+      );
+    });
+
+    it('should return 404 when device not found', async () => {
+      mockRequest.body = { participants: ['4444444444'] };
+      mockDeviceManager.getDevice.mockReturnValue(undefined);
+
+      await GroupsController.addParticipants(mockRequest as Request, mockResponse as Response);
+
+      expect(mockResponse.status).toHaveBeenCalledWith(404);
+      expect(mockResponse.json).toHaveBeenCalledWith({
+        success: false,
+        error: 'Device not found',
+      });
+    });
+  });
+
+  describe('removeParticipants', () => {
+    it('should only remove current members', async () => {
+      mockRequest.body = { participants: ['1111111111', '9999999999'] };
+
+      await GroupsController.removeParticipants(mockRequest as Request, mockResponse as Response);
+
+      expect(mockGroup.removeParticipants).toHaveBeenCalledWith(['1111111111@c.us']);
+      const { data } = (mockResponse.json as jest.Mock).mock.calls[0][0];
+      expect(data.results.map((r: any) => r.status)).toEqual(['removed', 'not_a_member']);
+    });
+  });
+
+  describe('demoteParticipants', () => {
+    it('should not demote the group creator', async () => {
+      mockRequest.body = { participants: ['2222222222', '3333333333'] };
+
+      await GroupsController.demoteParticipants(mockRequest as Request, mockResponse as Response);
+
+      expect(mockGroup.demoteParticipants).toHaveBeenCalledWith(['2222222222@c.us']);
+      const { data } = (mockResponse.json as jest.Mock).mock.calls[0][0];
+      expect(data.results.map((r: any) => r.status)).toEqual(['demoted', 'unchanged']);
+    });
+  });
+
+  describe('updateGroupSettings', () => {
+    it('should apply announce and edit-info settings', async () => {
+      mockRequest.body = { announce: true, editInfoAdminsOnly: false };
+
+      await GroupsController.updateGroupSettings(mockRequest as Request, mockResponse as Response);
+
+      expect(mockGroup.setMessagesAdminsOnly).toHaveBeenCalledWith(true);
+      expect(mockGroup.setInfoAdminsOnly).toHaveBeenCalledWith(false);
+      expect(mockResponse.status).toHaveBeenCalledWith(200);
+    });
+
+    it('should return 403 when WhatsApp rejects the change', async () => {
+      mockRequest.body = { announce: true };
+      mockGroup.setMessagesAdminsOnly.mockResolvedValue(false);
+
+      await GroupsController.updateGroupSettings(mockRequest as Request, mockResponse as Response);
+
+      expect(mockResponse.status).toHaveBeenCalledWith(403);
+    });
+  });
+});
@@ -0,0 +1,92 @@
+import { Request, Response } from 'express';
+
+const devices: Record<string, any> = {};
+const storedDevices: Record<string, any> = {
+  'device-remote': { id: 'device-remote', status: 'ready' },
+};
+const queueMessage = jest.fn(async () => 'msg_1');
+const createPool = jest.fn(async (pool: any) => ({ id: 'pool-1', ...pool }));
+
+jest.mock('../../../src/services', () => ({
+  DeviceManager: {
+    getInstance: () => ({
+      getDevice: (id: string) => devices[id],
+      getStoredDevice: async (id: string) => storedDevices[id] || null,
+      getFormattedDeviceId: (id: string) => id,
+    }),
+  },
+  ClusterService: {
+    getInstance: () => ({ isOwnedElsewhere: async (id: string) => id in storedDevices }),
+  },
+  DevicePoolService: {
+    getInstance: () => ({
+      createPool,
+      selectDevice: async () => ({ status: 'selected', deviceId: 'device-remote', sticky: false }),
+    }),
+  },
+  MessageQueueService: {
+    getInstance: () => ({
+      queueMessage,
+      getQueueStatus: async () => ({ pending: 1, processing: 0 }),
+      getDeviceStatus: async () => ({ messagesInLast60s: 0 }),
+    }),
+  },
+  DeviceHealthService: {
+    getInstance: () => ({ isSafeToSendMessage: async () => ({ safe: true }) }),
+  },
+  MessageStatusService: { getInstance: () => ({}) },
+  MessageStoreService: { getInstance: () => ({}) },
+  TranslationService: { getInstance: () => ({}) },
+  AIBudgetExceededError: class extends Error {},
+}));
+
+jest.mock('../../../src/services/TranslationService', () => ({}));
+jest.mock('../../../src/services/MessageStoreService', () => ({ decodeMessageCursor: jest.fn() }));
+
+import * as PoolController from '../../../src/controllers/pool.controller';
+
+describe('PoolController in a cluster', () => {
+  let mockRequest: Partial<Request>;
+  let mockResponse: Partial<Response>;
+
+  beforeEach(() => {
+    mockResponse = {
+      status: jest.fn().mockReturnThis(),
+      json: jest.fn().mockReturnThis(),
+      locals: {},
+    };
+    jest.clearAllMocks();
+  });
+
+  it('should accept members other nodes run', async () => {
+    mockRequest = { body: { name: 'Support', deviceIds: ['device-remote'] } };
+
+    await PoolController.createPool(mockRequest as Request, mockResponse as Response);
+
+    expect(mockResponse.status).not.toHaveBeenCalledWith(400);
+    expect(createPool).toHaveBeenCalled();
+  });
+
+  it('should reject devices no node has', async () => {
+    mockRequest = { body: { name: 'Support', deviceIds: ['device-unknown'] } };
+
+    await PoolController.createPool(mockRequest as Request, mockResponse as Response);
+
+    expect(mockResponse.status).toHaveBeenCalledWith(400);
+    expect(createPool).not.toHaveBeenCalled();
+  });
+
+  it('should queue a send for a member another node runs', async () => {
+    mockRequest = { params: { poolId: 'pool-1' }, body: { to: '34600111222', text: 'Hello', useQueue: false } };
+
+    await PoolController.sendMessage(mockRequest as Request, mockResponse as Response);
+
+    expect(mockResponse.status).toHaveBeenCalledWith(202);
+    expect(queueMessage).toHaveBeenCalledWith(expect.objectContaining({
+      deviceId: 'device-remote',
+      to: '34600111222@c.us',
+      content: 'Hello',
+      poolId: 'pool-1',
+    }));
+  });
+});
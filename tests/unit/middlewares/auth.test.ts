@@ -0,0 +1,127 @@
+import { Request, Response, NextFunction } from 'express';
+import { apiKeyAuth, requireScope, requireDeviceAccess } from '../../../src/middlewares/auth';
+import { ApiKeyService, ApiKeyInfo, hasScope } from '../../../src/services/ApiKeyService';
+
+jest.mock('../../../src/services/ApiKeyService', () => {
+  const actual = jest.requireActual('../../../src/services/ApiKeyService');
+  const authenticate = jest.fn();
+  return {
+    ...actual,
+    ApiKeyService: { getInstance: () => ({ authenticate }) },
+  };
+});
+
+describe('API key auth middleware', () => {
+  let mockRequest: Partial<Request>;
+  let mockResponse: Partial<Response>;
+  let next: jest.MockedFunction<NextFunction>;
+  const authenticate = ApiKeyService.getInstance().authenticate as jest.Mock;
+
+  const scopedKey: ApiKeyInfo = {
+    id: '0123456789abcdef',
+    label: 'CRM',
+    scopes: ['devices:read', 'messages:*'],
+    deviceIds: ['device-1'],
+    createdAt: 0,
+    updatedAt: 0,
+  };
+
+  beforeEach(() => {
+    mockRequest = { headers: {}, params: {}, method: 'GET', path: '/', originalUrl: '/' };
+    mockResponse = {
+      status: jest.fn().mockReturnThis(),
+      json: jest.fn().mockReturnThis(),
+    };
+    next = jest.fn();
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('apiKeyAuth', () => {
+    it('should treat API_KEY as a root key with every scope', async () => {
+      mockRequest.headers = { 'x-api-key': 'test-api-key' };
+
+      await apiKeyAuth(mockRequest as Request, mockResponse as Response, next);
+
+      expect(next).toHaveBeenCalled();
+      expect(mockRequest.apiKey).toMatchObject({ id: 'root', scopes: ['*'] });
+      expect(authenticate).not.toHaveBeenCalled();
+    });
+
+    it('should attach scoped keys from the key store', async () => {
+      mockRequest.headers = { 'x-api-key': 'wak_scoped' };
+      authenticate.mockResolvedValue({ valid: true, key: scopedKey });
+
+      await apiKeyAuth(mockRequest as Request, mockResponse as Response, next);
+
+      expect(authenticate).toHaveBeenCalledWith('wak_scoped');
+      expect(mockRequest.apiKey).toBe(scopedKey);
+      expect(next).toHaveBeenCalled();
+    });
+
+    it('should reject expired keys', async () => {
+      mockRequest.headers = { 'x-api-key': 'wak_expired' };
+      authenticate.mockResolvedValue({ valid: false, reason: 'expired' });
+
+      await apiKeyAuth(mockRequest as Request, mockResponse as Response, next);
+
+      expect(next).not.toHaveBeenCalled();
+      expect(mockResponse.status).toHaveBeenCalledWith(401);
+      expect(mockResponse.json).toHaveBeenCalledWith(expect.objectContaining({ code: 'EXPIRED_API_KEY' }));
+    });
+  });
+
+  describe('requireScope', () => {
+    it('should allow keys with the scope or a matching wildcard', () => {
+      mockRequest.apiKey = scopedKey;
+
+      requireScope('devices:read', 'messages:send')(mockRequest as Request, mockResponse as Response, next);
+
+      expect(next).toHaveBeenCalled();
+    });
+
+    it('should return 403 when a scope is missing', () => {
+      mockRequest.apiKey = scopedKey;
+
+      requireScope('devices:admin')(mockRequest as Request, mockResponse as Response, next);
+
+      expect(next).not.toHaveBeenCalled();
+      expect(mockResponse.status).toHaveBeenCalledWith(403);
+      expect(mockResponse.json).toHaveBeenCalledWith(expect.objectContaining({ code: 'INSUFFICIENT_SCOPE' }));
+    });
+  });
+
+  describe('requireDeviceAccess', () => {
+    it('should only allow the devices a key is restricted to', () => {
+      mockRequest.apiKey = scopedKey;
+
+      mockRequest.params = { id: 'device-1' };
+      requireDeviceAccess('id')(mockRequest as Request, mockResponse as Response, next);
+      expect(next).toHaveBeenCalledTimes(1);
+
+      mockRequest.params = { id: 'device-2' };
+      requireDeviceAccess('id')(mockRequest as Request, mockResponse as Response, next);
+      expect(next).toHaveBeenCalledTimes(1);
+      expect(mockResponse.status).toHaveBeenCalledWith(403);
+    });
+
+    it('should block restricted keys from routes that span every device', () => {
+      mockRequest.apiKey = scopedKey;
+
+      requireDeviceAccess()(mockRequest as Request, mockResponse as Response, next);
+
+      expect(next).not.toHaveBeenCalled();
+      expect(mockResponse.json).toHaveBeenCalledWith(expect.objectContaining({ code: 'DEVICE_NOT_ALLOWED' }));
+    });
+  });
+
+  describe('hasScope', () => {
+    it('should honour global and resource wildcards', () => {
+      expect(hasScope(['*'], 'keys:admin')).toBe(true);
+      expect(hasScope(['queue:*'], 'queue:admin')).toBe(true);
+      expect(hasScope(['queue:read'], 'queue:admin')).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,189 @@
+import {
+  AIAgentService,
+  buildAgentPrompt,
+  containsHandoffKeyword,
+  isAgentActiveForChat,
+  calculateCost,
+  getExceededCap,
+} from '../../../src/services/AIAgentService';
+
+// The real AIService loads the whole config barrel, including Socket.IO
+const generateCompletion = jest.fn();
+jest.mock('../../../src/services/AIService', () => ({
+  AIService: { getInstance: () => ({ generateCompletion }) },
+}));
+
+const queueMessage = jest.fn(async () => 'msg_queued');
+jest.mock('../../../src/services/MessageQueueService', () => ({
+  MessageQueueService: { getInstance: () => ({ queueMessage }) },
+}));
+
+// In-memory stand-in for the Redis commands used to answer a message
+const strings = new Map<string, string>();
+const hashes = new Map<string, Map<string, string>>();
+const hashFor = (key: string) => {
+  if (!hashes.has(key)) hashes.set(key, new Map());
+  return hashes.get(key)!;
+};
+const fakeRedis = {
+  hget: jest.fn(async (key: string, field: string) => hashFor(key).get(field) ?? null),
+  hgetall: jest.fn(async (key: string) => Object.fromEntries(hashFor(key))),
+  hset: jest.fn(async (key: string, field: string, value: string) => { hashFor(key).set(field, value); return 1; }),
+  hincrby: jest.fn(async () => 1),
+  hincrbyfloat: jest.fn(async () => '1'),
+  expire: jest.fn(async () => 1),
+  set: jest.fn(async (key: string, value: string, ..._args: unknown[]) => {
+    if (strings.has(key)) return null;
+    strings.set(key, value);
+    return 'OK';
+  }),
+  del: jest.fn(async (key: string) => (strings.delete(key) ? 1 : 0)),
+};
+
+jest.mock('../../../src/config/redis', () => ({
+  getRedisClient: () => fakeRedis,
+}));
+
+describe('AIAgentService helpers', () => {
+  describe('buildAgentPrompt', () => {
+    it('should put the knowledge in the system prompt and map the history to roles', () => {
+      const messages = buildAgentPrompt(
+        { systemPrompt: 'You are the bakery assistant.', knowledge: 'Open 8-18, Mon-Sat.' },
+        [
+          { fromMe: false, body: 'Hi' },
+          { fromMe: true, body: 'Hello! How can I help?' },
+          { fromMe: false, body: '' },
+          { fromMe: false, body: 'When are you open?' },
+        ]
+      );
+
+      expect(messages[0].role).toBe('system');
+      expect(messages[0].content).toContain('You are the bakery assistant.');
+      expect(messages[0].content).toContain('Open 8-18, Mon-Sat.');
+      expect(messages.slice(1)).toEqual([
+        { role: 'user', content: 'Hi' },
+        { role: 'assistant', content: 'Hello! How can I help?' },
+        { role: 'user', content: 'When are you open?' },
+      ]);
+    });
+
+    it('should name the sender of group messages', () => {
+      const messages = buildAgentPrompt({ systemPrompt: 'Help.' }, [{ fromMe: false, body: 'Any news?', author: 'Ana' }]);
+
+      expect(messages[0].content).toBe('Help.');
+      expect(messages[1]).toEqual({ role: 'user', content: 'Ana: Any news?' });
+    });
+  });
+
+  describe('containsHandoffKeyword', () => {
+    it('should match whole words regardless of case', () => {
+      expect(containsHandoffKeyword('Can I talk to a HUMAN please?', 'human')).toBe(true);
+      expect(containsHandoffKeyword('human', 'human')).toBe(true);
+      expect(containsHandoffKeyword('for all of humanity', 'human')).toBe(false);
+      expect(containsHandoffKeyword('anything', undefined)).toBe(false);
+    });
+
+    it('should treat the keyword literally', () => {
+      expect(containsHandoffKeyword('please #agent now', '#agent')).toBe(true);
+      expect(containsHandoffKeyword('agent', 'a.ent')).toBe(false);
+    });
+  });
+
+  describe('isAgentActiveForChat', () => {
+    const device = { enabled: true, includeGroups: false };
+
+    it('should follow the device setting without a chat setting', () => {
+      expect(isAgentActiveForChat(device, null, false)).toBe(true);
+      expect(isAgentActiveForChat(device, null, true)).toBe(false);
+      expect(isAgentActiveForChat({ ...device, enabled: false }, null, false)).toBe(false);
+    });
+
+    it('should let a chat setting override the device setting', () => {
+      expect(isAgentActiveForChat({ ...device, enabled: false }, { enabled: true }, false)).toBe(true);
+      expect(isAgentActiveForChat(device, { enabled: true }, true)).toBe(true);
+      expect(isAgentActiveForChat(device, { enabled: false }, false)).toBe(false);
+    });
+
+    it('should stay silent in chats that were handed off', () => {
+      expect(isAgentActiveForChat(device, { enabled: true, handedOff: true }, false)).toBe(false);
+    });
+  });
+
+  describe('daily caps', () => {
+    it('should price prompt and completion tokens separately', () => {
+      expect(calculateCost({ promptPer1k: 0.5, completionPer1k: 1.5 }, 2000, 1000)).toBeCloseTo(2.5);
+      expect(calculateCost(undefined, 2000, 1000)).toBe(0);
+    });
+
+    it('should report the cap that was reached', () => {
+      expect(getExceededCap({}, { totalTokens: 1e9, cost: 1e9 })).toBeNull();
+      expect(getExceededCap({ dailyTokenLimit: 1000 }, { totalTokens: 999, cost: 0 })).toBeNull();
+      expect(getExceededCap({ dailyTokenLimit: 1000 }, { totalTokens: 1000, cost: 0 })).toBe('tokens');
+      expect(getExceededCap({ dailyCostLimit: 2 }, { totalTokens: 10, cost: 2.01 })).toBe('cost');
+    });
+  });
+});
+
+describe('AIAgentService', () => {
+  const chatId = '34600111222@c.us';
+  const history: any[] = [];
+  const inbound = (id: string, body: string) => {
+    const message: any = {
+      id: { _serialized: id },
+      from: chatId,
+      fromMe: false,
+      isStatus: false,
+      type: 'chat',
+      body,
+      getChat: async () => ({ isGroup: false, fetchMessages: async () => [...history] }),
+    };
+    history.push(message);
+    return message;
+  };
+
+  beforeEach(() => {
+    strings.clear();
+    hashes.clear();
+    history.length = 0;
+    queueMessage.mockClear();
+    hashFor('whatsapp:ai_agent_config').set('device-1', JSON.stringify({
+      deviceId: 'device-1',
+      enabled: true,
+      mode: 'auto',
+      systemPrompt: 'You answer for a bakery.',
+      contextMessages: 10,
+      maxTokens: 200,
+      temperature: 0.3,
+      includeGroups: false,
+    }));
+  });
+
+  it('should answer a message that arrived while the chat was being answered', async () => {
+    const prompts: string[] = [];
+    let answerFirst: () => void = () => undefined;
+    generateCompletion.mockImplementation(({ messages }) => {
+      prompts.push(messages[messages.length - 1].content);
+      const completion = { choices: [{ message: { content: `Answer ${prompts.length}` } }], usage: { prompt_tokens: 10, completion_tokens: 5 } };
+      // Hold the first answer until the follow-up has arrived
+      return prompts.length === 1
+        ? new Promise(resolve => { answerFirst = () => resolve(completion); })
+        : Promise.resolve(completion);
+    });
+    const service = AIAgentService.getInstance();
+
+    const answering = service.handleIncomingMessage('device-1', inbound('msg-1', 'Do you have cakes?'));
+    await new Promise(resolve => setImmediate(resolve));
+    await service.handleIncomingMessage('device-1', inbound('msg-2', 'Chocolate ones?'));
+    expect(generateCompletion).toHaveBeenCalledTimes(1);
+
+    answerFirst();
+    await answering;
+
+    expect(prompts).toEqual(['Do you have cakes?', 'Chocolate ones?']);
+    expect(queueMessage).toHaveBeenCalledTimes(2);
+    expect(queueMessage).toHaveBeenLastCalledWith(expect.objectContaining({
+      content: 'Answer 2',
+      options: { quotedMessageId: 'msg-2' },
+    }));
+  });
+});
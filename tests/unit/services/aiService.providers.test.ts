@@ -0,0 +1,39 @@
+// The config barrel also loads Socket.IO; the provider chain only needs the logger
+jest.mock('../../../src/config', () => ({
+  logger: { info: jest.fn(), error: jest.fn(), debug: jest.fn(), warn: jest.fn() },
+}));
+
+import { buildProviderChain } from '../../../src/services/AIService';
+
+describe('AIService provider fallback', () => {
+  const providers = new Map<string, { fallback?: string[] }>([
+    ['ollama', { fallback: ['llamacpp', 'openrouter'] }],
+    ['llamacpp', { fallback: ['ollama'] }],
+    ['openrouter', {}],
+    ['openai', {}],
+  ]);
+
+  it('should try the provider first, then its own fallbacks in order', () => {
+    expect(buildProviderChain('ollama', providers, ['openai'])).toEqual(['ollama', 'llamacpp', 'openrouter']);
+  });
+
+  it('should use the default fallback when the provider has none', () => {
+    expect(buildProviderChain('openrouter', providers, ['openai'])).toEqual(['openrouter', 'openai']);
+  });
+
+  it('should not follow the fallbacks of fallbacks', () => {
+    expect(buildProviderChain('llamacpp', providers, [])).toEqual(['llamacpp', 'ollama']);
+  });
+
+  it('should skip unknown and repeated providers', () => {
+    const chain = buildProviderChain('openai', providers, ['openai', 'removed', 'openrouter', 'openrouter']);
+
+    expect(chain).toEqual(['openai', 'openrouter']);
+  });
+
+  it('should let an empty list turn off the default fallback', () => {
+    const withoutFallback = new Map([...providers, ['openai', { fallback: [] }]]);
+
+    expect(buildProviderChain('openai', withoutFallback, ['openrouter'])).toEqual(['openai']);
+  });
+});
@@ -0,0 +1,135 @@
+// The config barrel also loads Socket.IO; the stream parsers only need the logger
+jest.mock('../../../src/config', () => ({
+  logger: { info: jest.fn(), error: jest.fn(), debug: jest.fn(), warn: jest.fn() },
+}));
+jest.mock('../../../src/config/redis', () => ({
+  getRedisClient: () => ({ hvals: async () => [] }),
+}));
+jest.mock('axios');
+
+const recordUsage = jest.fn();
+jest.mock('../../../src/services/AIUsageService', () => ({
+  AIUsageService: {
+    getInstance: () => ({ checkBudgets: async () => ({ action: 'allow' }), recordUsage }),
+  },
+  AIBudgetExceededError: class extends Error {},
+}));
+
+import axios from 'axios';
+import { AIService, parseSSEBuffer, parseStreamChunk } from '../../../src/services/AIService';
+
+describe('AIService stream parsing', () => {
+  describe('parseSSEBuffer', () => {
+    it('should return complete events and keep the incomplete rest', () => {
+      const { events, rest } = parseSSEBuffer('data: {"a":1}\n\ndata: {"b":2}\n\ndata: {"c"');
+
+      expect(events).toEqual(['{"a":1}', '{"b":2}']);
+      expect(rest).toBe('data: {"c"');
+    });
+
+    it('should drop comments and accept CRLF line endings', () => {
+      const { events, rest } = parseSSEBuffer(': OPENROUTER PROCESSING\r\n\r\ndata: [DONE]\r\n\r\n');
+
+      expect(events).toEqual(['[DONE]']);
+      expect(rest).toBe('');
+    });
+
+    it('should join multi-line data', () => {
+      expect(parseSSEBuffer('data: line one\ndata: line two\n\n').events).toEqual(['line one\nline two']);
+    });
+  });
+
+  describe('parseStreamChunk', () => {
+    it('should read the content delta', () => {
+      expect(parseStreamChunk('{"model":"m","choices":[{"delta":{"content":"Hel"}}]}')).toEqual({
+        content: 'Hel',
+        finishReason: undefined,
+        usage: undefined,
+        model: 'm',
+      });
+    });
+
+    it('should read the finish reason and usage of the last chunks', () => {
+      expect(parseStreamChunk('{"choices":[{"delta":{},"finish_reason":"stop"}]}')).toMatchObject({
+        content: '',
+        finishReason: 'stop',
+      });
+      expect(parseStreamChunk('{"choices":[],"usage":{"prompt_tokens":3,"completion_tokens":4,"total_tokens":7}}')).toMatchObject({
+        content: '',
+        usage: { prompt_tokens: 3, completion_tokens: 4, total_tokens: 7 },
+      });
+    });
+
+    it('should end on [DONE]', () => {
+      expect(parseStreamChunk('[DONE]')).toBeNull();
+    });
+
+    it('should throw errors reported inside the stream', () => {
+      expect(() => parseStreamChunk('{"error":{"message":"Rate limit exceeded"}}')).toThrow('Rate limit exceeded');
+    });
+  });
+});
+
+describe('AIService streamCompletion', () => {
+  const request = {
+    messages: [{ role: 'user' as const, content: 'Summarize the chat' }],
+    provider: 'openai',
+    context: { apiKeyId: 'key-1', deviceId: 'device-1' },
+  };
+  const event = (data: object) => Buffer.from(`data: ${JSON.stringify(data)}\n\n`);
+
+  beforeAll(() => {
+    process.env.OPENAI_API_KEY = 'sk-test';
+  });
+
+  beforeEach(() => {
+    recordUsage.mockClear();
+  });
+
+  const streamFrom = (chunks: AsyncIterable<Buffer>) => {
+    (axios.post as jest.Mock).mockResolvedValue({ data: chunks });
+    return AIService.getInstance().streamCompletion(request);
+  };
+
+  it('should record the usage the provider reports at the end', async () => {
+    const stream = streamFrom((async function* () {
+      yield event({ choices: [{ delta: { content: 'Hi' } }] });
+      yield event({ choices: [], usage: { prompt_tokens: 12, completion_tokens: 3, total_tokens: 15 } });
+      yield Buffer.from('data: [DONE]\n\n');
+    })());
+
+    for await (const _chunk of stream) { /* read to the end */ }
+
+    expect(recordUsage).toHaveBeenCalledWith(expect.objectContaining({
+      provider: 'openai',
+      promptTokens: 12,
+      completionTokens: 3,
+      context: request.context,
+    }));
+  });
+
+  it('should count a stream the client cancels', async () => {
+    const stream = streamFrom((async function* () {
+      yield event({ choices: [{ delta: { content: 'Hi' } }] });
+      yield event({ choices: [{ delta: { content: ' there' } }] });
+    })());
+
+    for await (const _chunk of stream) break;
+
+    expect(recordUsage).toHaveBeenCalledTimes(1);
+    expect(recordUsage).toHaveBeenCalledWith(expect.objectContaining({ provider: 'openai', context: request.context }));
+  });
+
+  it('should count a stream that fails midway', async () => {
+    const stream = streamFrom((async function* () {
+      yield event({ choices: [{ delta: { content: 'Hi' } }] });
+      throw new Error('socket hang up');
+    })());
+
+    await expect((async () => {
+      for await (const _chunk of stream) { /* read until it fails */ }
+    })()).rejects.toThrow('socket hang up');
+
+    expect(recordUsage).toHaveBeenCalledTimes(1);
+  });
+});
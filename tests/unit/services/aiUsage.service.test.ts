@@ -0,0 +1,97 @@
+import {
+  findPrice,
+  estimateCost,
+  getExceededBudgetLimit,
+  decideBudgetAction,
+  parseUsageFields,
+  listUsageDates,
+  AIBudget,
+} from '../../../src/services/AIUsageService';
+
+const budget = (overrides: Partial<AIBudget>): AIBudget => ({
+  scope: 'apiKey',
+  id: 'key_1',
+  action: 'block',
+  createdAt: 0,
+  updatedAt: 0,
+  ...overrides,
+});
+
+describe('AIUsageService helpers', () => {
+  describe('prices', () => {
+    const prices = [
+      { provider: 'openai', promptPer1k: 1, completionPer1k: 2 },
+      { provider: 'openai', model: 'gpt-4o-mini', promptPer1k: 0.15, completionPer1k: 0.6 },
+    ];
+
+    it('should prefer the price of the exact model over the provider default', () => {
+      expect(findPrice(prices, 'openai', 'gpt-4o-mini')?.promptPer1k).toBe(0.15);
+      expect(findPrice(prices, 'openai', 'gpt-4o')?.promptPer1k).toBe(1);
+      expect(findPrice(prices, 'ollama', 'llama3.1:8b')).toBeUndefined();
+    });
+
+    it('should price prompt and completion tokens separately', () => {
+      expect(estimateCost(prices[0], 2000, 1000)).toBeCloseTo(4);
+      expect(estimateCost(undefined, 2000, 1000)).toBe(0);
+    });
+  });
+
+  describe('budgets', () => {
+    it('should report the limit that was reached', () => {
+      expect(getExceededBudgetLimit({ monthlyTokenLimit: 1000 }, { totalTokens: 999, cost: 0 })).toBeNull();
+      expect(getExceededBudgetLimit({ monthlyTokenLimit: 1000 }, { totalTokens: 1000, cost: 0 })).toBe('tokens');
+      expect(getExceededBudgetLimit({ monthlyCostLimit: 5 }, { totalTokens: 0, cost: 5.2 })).toBe('cost');
+    });
+
+    it('should allow completions while every budget has room left', () => {
+      const decision = decideBudgetAction([{ budget: budget({ monthlyTokenLimit: 1000 }), usage: { totalTokens: 10, cost: 0 } }], 'openai');
+
+      expect(decision).toEqual({ action: 'allow' });
+    });
+
+    it('should let a blocking budget win over a downgrading one', () => {
+      const downgrade = budget({ scope: 'device', id: 'device_1', monthlyTokenLimit: 10, action: 'downgrade', downgradeProvider: 'ollama' });
+      const block = budget({ monthlyCostLimit: 1 });
+
+      const decision = decideBudgetAction([
+        { budget: downgrade, usage: { totalTokens: 10, cost: 0 } },
+        { budget: block, usage: { totalTokens: 10, cost: 1 } },
+      ], 'openai');
+
+      expect(decision).toMatchObject({ action: 'block', budget: block, exceeded: 'cost' });
+    });
+
+    it('should downgrade to the budget provider unless the request already uses it', () => {
+      const downgrade = budget({ monthlyTokenLimit: 10, action: 'downgrade', downgradeProvider: 'ollama', downgradeModel: 'llama3.1:8b' });
+      const usage = { totalTokens: 50, cost: 0 };
+
+      expect(decideBudgetAction([{ budget: downgrade, usage }], 'openai')).toMatchObject({
+        action: 'downgrade',
+        provider: 'ollama',
+        model: 'llama3.1:8b',
+      });
+      expect(decideBudgetAction([{ budget: downgrade, usage }], 'ollama')).toEqual({ action: 'allow' });
+    });
+  });
+
+  describe('usage storage', () => {
+    it('should group hash fields by ID, including IDs with colons', () => {
+      const totals = parseUsageFields({
+        'openai:promptTokens': '100',
+        'openai:cost': '0.25',
+        'key:with:colons:requests': '3',
+        'broken': '1',
+        'openai:unknown': '7',
+      });
+
+      expect(totals.get('openai')).toEqual({ promptTokens: 100, completionTokens: 0, totalTokens: 0, cost: 0.25, requests: 0 });
+      expect(totals.get('key:with:colons')?.requests).toBe(3);
+      expect(totals.size).toBe(2);
+    });
+
+    it('should list every day of a range across months', () => {
+      expect(listUsageDates('2026-01-30', '2026-02-02')).toEqual(['2026-01-30', '2026-01-31', '2026-02-01', '2026-02-02']);
+      expect(listUsageDates('2026-03-01', '2026-03-01')).toEqual(['2026-03-01']);
+    });
+  });
+});
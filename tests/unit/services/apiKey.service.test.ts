@@ -0,0 +1,86 @@
+import { ApiKeyService } from '../../../src/services/ApiKeyService';
+
+// In-memory stand-in for the hash commands used by the key store
+const hashes = new Map<string, Map<string, string>>();
+const hashFor = (key: string) => {
+  if (!hashes.has(key)) hashes.set(key, new Map());
+  return hashes.get(key)!;
+};
+
+// While set, reads wait until released, to interleave other calls with an authentication
+let heldReads: Array<() => void> | null = null;
+const afterHeld = async () => {
+  if (heldReads) await new Promise<void>(resolve => heldReads!.push(resolve));
+};
+
+const fakeRedis = {
+  hget: jest.fn(async (key: string, field: string) => {
+    const value = hashFor(key).get(field) ?? null;
+    await afterHeld();
+    return value;
+  }),
+  hgetall: jest.fn(async (key: string) => Object.fromEntries(hashFor(key))),
+  hset: jest.fn(async (key: string, field: string, value: string) => { hashFor(key).set(field, value); return 1; }),
+  hdel: jest.fn(async (key: string, ...fields: string[]) => fields.filter(field => hashFor(key).delete(field)).length),
+};
+
+jest.mock('../../../src/config/redis', () => ({
+  getRedisClient: () => fakeRedis,
+}));
+
+describe('ApiKeyService', () => {
+  const service = ApiKeyService.getInstance();
+
+  beforeEach(() => {
+    hashes.clear();
+    heldReads = null;
+  });
+
+  it('should record when a key was last used', async () => {
+    const { key, apiKey } = await service.createKey({ label: 'CRM', scopes: ['messages:send'] });
+
+    const result = await service.authenticate(apiKey);
+    await new Promise(resolve => setImmediate(resolve));
+
+    expect(result).toMatchObject({ valid: true, key: { id: key.id } });
+    expect((await service.getKey(key.id))?.lastUsedAt).toEqual(expect.any(Number));
+  });
+
+  it('should not bring back a key revoked while it is being authenticated', async () => {
+    const { key, apiKey } = await service.createKey({ label: 'CRM', scopes: ['messages:send'] });
+
+    heldReads = [];
+    const authentication = service.authenticate(apiKey);
+    await new Promise(resolve => setImmediate(resolve));
+
+    const releases = heldReads;
+    heldReads = null;
+    expect(await service.revokeKey(key.id)).toBe(true);
+    releases.forEach(release => release());
+
+    expect((await authentication).valid).toBe(true);
+    await new Promise(resolve => setImmediate(resolve));
+
+    expect(await service.getKey(key.id)).toBeNull();
+    expect(await service.listKeys()).toEqual([]);
+    expect(await service.authenticate(apiKey)).toEqual({ valid: false, reason: 'invalid' });
+  });
+
+  it('should not restore the old secret of a key rotated while it is being authenticated', async () => {
+    const { key, apiKey } = await service.createKey({ label: 'CRM', scopes: ['messages:send'] });
+
+    heldReads = [];
+    const authentication = service.authenticate(apiKey);
+    await new Promise(resolve => setImmediate(resolve));
+
+    const releases = heldReads;
+    heldReads = null;
+    const rotated = await service.rotateKey(key.id);
+    releases.forEach(release => release());
+    await authentication;
+    await new Promise(resolve => setImmediate(resolve));
+
+    expect(await service.authenticate(apiKey)).toEqual({ valid: false, reason: 'invalid' });
+    expect((await service.authenticate(rotated!.apiKey)).valid).toBe(true);
+  });
+});
@@ -0,0 +1,116 @@
+import {
+  evaluateRule,
+  isWithinBusinessHours,
+  renderActions,
+  sortRules,
+  AutoReplyMessage,
+  AutoReplyRule,
+} from '../../../src/services/AutoReplyService';
+
+const message = (overrides: Partial<AutoReplyMessage> = {}): AutoReplyMessage => ({
+  chatId: '1234567890@c.us',
+  from: '1234567890@c.us',
+  name: 'Ana',
+  body: 'Hello, where is my ORDER #4711?',
+  type: 'chat',
+  isGroup: false,
+  ...overrides,
+});
+
+describe('AutoReplyService helpers', () => {
+  describe('evaluateRule', () => {
+    it('should match a rule without conditions', () => {
+      expect(evaluateRule({ conditions: {} }, message()).matched).toBe(true);
+    });
+
+    it('should match senders by phone number or chat ID', () => {
+      expect(evaluateRule({ conditions: { senders: ['+1 234 567 890'] } }, message()).matched).toBe(true);
+      expect(evaluateRule({ conditions: { senders: ['1234567890@c.us'] } }, message()).matched).toBe(true);
+      expect(evaluateRule({ conditions: { senders: ['999'] } }, message())).toMatchObject({
+        matched: false,
+        failedCondition: 'senders',
+      });
+    });
+
+    it('should use the group as chat and the participant as sender', () => {
+      const groupMessage = message({ chatId: '120363@g.us', from: '555@c.us', isGroup: true });
+
+      expect(evaluateRule({ conditions: { chats: ['120363@g.us'], senders: ['555'] } }, groupMessage).matched).toBe(true);
+      expect(evaluateRule({ conditions: { chatType: 'private' } }, groupMessage).failedCondition).toBe('chatType');
+    });
+
+    it('should match keywords ignoring case and expose the keyword', () => {
+      const result = evaluateRule({ conditions: { keywords: ['refund', 'order'] } }, message());
+
+      expect(result.matched).toBe(true);
+      expect(result.variables.keyword).toBe('order');
+      expect(evaluateRule({ conditions: { keywords: ['refund'] } }, message()).failedCondition).toBe('keywords');
+    });
+
+    it('should expose regex capture groups as variables', () => {
+      const result = evaluateRule({ conditions: { pattern: 'order #(?<order>\\d+)' } }, message());
+
+      expect(result.matched).toBe(true);
+      expect(result.variables['1']).toBe('4711');
+      expect(result.variables.order).toBe('4711');
+    });
+
+    it('should filter by message type', () => {
+      expect(evaluateRule({ conditions: { messageTypes: ['image'] } }, message()).failedCondition).toBe('messageTypes');
+      expect(evaluateRule({ conditions: { messageTypes: ['image'] } }, message({ type: 'image' })).matched).toBe(true);
+    });
+
+    it('should match inside or outside business hours', () => {
+      const hours = { timezone: 'UTC', days: [1, 2, 3, 4, 5], start: '09:00', end: '17:00' };
+      const mondayEvening = new Date('2026-10-19T19:00:00Z');
+
+      expect(evaluateRule({ conditions: { businessHours: { ...hours, when: 'closed' } } }, message(), mondayEvening).matched).toBe(true);
+      expect(evaluateRule({ conditions: { businessHours: { ...hours, when: 'open' } } }, message(), mondayEvening).failedCondition)
+        .toBe('businessHours');
+    });
+  });
+
+  describe('isWithinBusinessHours', () => {
+    it('should evaluate hours in the given timezone', () => {
+      const hours = { timezone: 'Asia/Karachi', days: [1], start: '09:00', end: '17:00' };
+
+      // 05:00 UTC is 10:00 in Karachi
+      expect(isWithinBusinessHours(hours, new Date('2026-10-19T05:00:00Z'))).toBe(true);
+      expect(isWithinBusinessHours(hours, new Date('2026-10-19T13:00:00Z'))).toBe(false);
+    });
+
+    it('should attribute overnight hours to the day they start on', () => {
+      const hours = { timezone: 'UTC', days: [5], start: '22:00', end: '06:00' };
+
+      expect(isWithinBusinessHours(hours, new Date('2026-10-23T23:00:00Z'))).toBe(true); // Friday night
+      expect(isWithinBusinessHours(hours, new Date('2026-10-24T05:00:00Z'))).toBe(true); // Saturday early morning
+      expect(isWithinBusinessHours(hours, new Date('2026-10-25T05:00:00Z'))).toBe(false); // Sunday early morning
+    });
+  });
+
+  describe('renderActions', () => {
+    it('should fill in reply, forward and tag templates', () => {
+      const actions = renderActions([
+        { type: 'reply', template: 'Hi {{name}}, order {{1}} is on its way', quote: true },
+        { type: 'forward', to: 'support@g.us', template: '{{phone}}: {{body}}' },
+        { type: 'tag', tag: 'order-{{1}}' },
+        { type: 'webhook', url: 'https://example.com/hook' },
+      ], { name: 'Ana', phone: '1234567890', body: 'Where?', '1': '4711' });
+
+      expect(actions).toEqual([
+        { type: 'reply', template: 'Hi Ana, order 4711 is on its way', quote: true },
+        { type: 'forward', to: 'support@g.us', template: '1234567890: Where?' },
+        { type: 'tag', tag: 'order-4711' },
+        { type: 'webhook', url: 'https://example.com/hook' },
+      ]);
+    });
+  });
+
+  describe('sortRules', () => {
+    it('should order by priority, then creation time', () => {
+      const rule = (id: string, priority: number, createdAt: number) => ({ id, priority, createdAt } as AutoReplyRule);
+
+      expect(sortRules([rule('c', 100, 1), rule('a', 10, 5), rule('b', 100, 0)]).map(r => r.id)).toEqual(['a', 'b', 'c']);
+    });
+  });
+});
@@ -0,0 +1,52 @@
+import {
+  parseRecipientsCsv,
+  renderCampaignTemplate,
+  findMissingVariables,
+  mapAckToRecipientStatus,
+} from '../../../src/services/CampaignService';
+
+describe('CampaignService helpers', () => {
+  describe('parseRecipientsCsv', () => {
+    it('should turn extra columns into template variables', () => {
+      const csv = 'phone,name,date\r\n1234567890,Ana,Monday\r\n0987654321,Ben,Tuesday\r\n';
+
+      expect(parseRecipientsCsv(csv)).toEqual([
+        { to: '1234567890', variables: { name: 'Ana', date: 'Monday' } },
+        { to: '0987654321', variables: { name: 'Ben', date: 'Tuesday' } },
+      ]);
+    });
+
+    it('should handle quoted fields with commas, quotes and blank lines', () => {
+      const csv = 'to,note\n1234567890,"Hello, ""friend""\nsecond line"\n\n';
+
+      expect(parseRecipientsCsv(csv)).toEqual([
+        { to: '1234567890', variables: { note: 'Hello, "friend"\nsecond line' } },
+      ]);
+    });
+
+    it('should require a recipient column', () => {
+      expect(() => parseRecipientsCsv('name,date\nAna,Monday')).toThrow('"to" or "phone"');
+    });
+  });
+
+  describe('templates', () => {
+    it('should render placeholders and report missing variables', () => {
+      const template = 'Hi {{ name }}, see you {{date}}';
+
+      expect(renderCampaignTemplate(template, { name: 'Ana', date: 'Monday' })).toBe('Hi Ana, see you Monday');
+      expect(findMissingVariables(template, { name: 'Ana', date: '' })).toEqual(['date']);
+      expect(findMissingVariables('No variables', {})).toEqual([]);
+    });
+  });
+
+  describe('mapAckToRecipientStatus', () => {
+    it('should map whatsapp-web.js acks to recipient statuses', () => {
+      expect(mapAckToRecipientStatus(-1)).toBe('failed');
+      expect(mapAckToRecipientStatus(0)).toBeNull();
+      expect(mapAckToRecipientStatus(1)).toBe('sent');
+      expect(mapAckToRecipientStatus(2)).toBe('delivered');
+      expect(mapAckToRecipientStatus(3)).toBe('read');
+      expect(mapAckToRecipientStatus(4)).toBe('read');
+    });
+  });
+});
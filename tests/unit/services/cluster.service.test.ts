@@ -0,0 +1,150 @@
+import type { ClusterService as ClusterServiceType } from '../../../src/services/ClusterService';
+
+// In-memory stand-in for the string and hash commands used by leases and node records
+let now = 1_000_000;
+const strings = new Map<string, { value: string; expiresAt: number }>();
+const hashes = new Map<string, Map<string, string>>();
+const hashFor = (key: string) => {
+  if (!hashes.has(key)) hashes.set(key, new Map());
+  return hashes.get(key)!;
+};
+const read = (key: string) => {
+  const entry = strings.get(key);
+  return entry && entry.expiresAt > now ? entry.value : null;
+};
+const fakeRedis = {
+  set: jest.fn(async (key: string, value: string, _px: string, ttl: number, _nx: string) => {
+    if (read(key) !== null) return null;
+    strings.set(key, { value, expiresAt: now + ttl });
+    return 'OK';
+  }),
+  get: jest.fn(async (key: string) => read(key)),
+  pexpire: jest.fn(async (key: string, ttl: number) => {
+    if (read(key) === null) return 0;
+    strings.get(key)!.expiresAt = now + ttl;
+    return 1;
+  }),
+  // Both lease scripts act only while the node still holds the lease
+  eval: jest.fn(async (script: string, _keys: number, key: string, nodeId: string, ttl?: number) => {
+    if (read(key) !== nodeId) return 0;
+    if (script.includes('pexpire')) strings.get(key)!.expiresAt = now + Number(ttl);
+    else strings.delete(key);
+    return 1;
+  }),
+  hset: jest.fn(async (key: string, field: string, value: string) => { hashFor(key).set(field, value); return 1; }),
+  hget: jest.fn(async (key: string, field: string) => hashFor(key).get(field) ?? null),
+  hvals: jest.fn(async (key: string) => Array.from(hashFor(key).values())),
+  hdel: jest.fn(async (key: string, ...fields: string[]) => fields.filter(field => hashFor(key).delete(field)).length),
+};
+
+jest.mock('../../../src/config/redis', () => ({
+  getRedisClient: () => fakeRedis,
+}));
+
+jest.mock('../../../src/config/env', () => ({
+  env: { REDIS_ENABLED: true },
+}));
+
+// Every node is its own module instance, as it would be in its own process
+const startNode = async (nodeId: string): Promise<ClusterServiceType> => {
+  process.env.CLUSTER_ENABLED = 'true';
+  process.env.CLUSTER_NODE_ID = nodeId;
+  process.env.CLUSTER_NODE_URL = `http://${nodeId}:3000`;
+  let node!: ClusterServiceType;
+  jest.isolateModules(() => {
+    node = require('../../../src/services/ClusterService').ClusterService.getInstance();
+  });
+  await node.start();
+  return node;
+};
+
+describe('ClusterService', () => {
+  const nodes: ClusterServiceType[] = [];
+  const heartbeat = (node: ClusterServiceType) => (node as any).heartbeat();
+
+  beforeEach(() => {
+    now = 1_000_000;
+    strings.clear();
+    hashes.clear();
+    jest.spyOn(Date, 'now').mockImplementation(() => now);
+  });
+
+  afterEach(async () => {
+    for (const node of nodes.splice(0)) await node.stop();
+    jest.restoreAllMocks();
+  });
+
+  afterAll(() => {
+    delete process.env.CLUSTER_ENABLED;
+    delete process.env.CLUSTER_NODE_ID;
+    delete process.env.CLUSTER_NODE_URL;
+  });
+
+  const start = async (nodeId: string) => {
+    const node = await startNode(nodeId);
+    nodes.push(node);
+    return node;
+  };
+
+  it('should let one node at a time hold a device', async () => {
+    const first = await start('node-a');
+    const second = await start('node-b');
+
+    expect(await first.acquireDevice('device-1')).toBe(true);
+    expect(await second.acquireDevice('device-1')).toBe(false);
+
+    expect(await first.isOwnedElsewhere('device-1')).toBe(false);
+    expect(await second.isOwnedElsewhere('device-1')).toBe(true);
+    expect(await second.getDeviceOwner('device-1')).toEqual(expect.objectContaining({ id: 'node-a', url: 'http://node-a:3000' }));
+
+    await first.releaseDevice('device-1');
+    expect(await second.getDeviceOwner('device-1')).toBeNull();
+    expect(await second.acquireDevice('device-1')).toBe(true);
+  });
+
+  it('should keep leases alive with heartbeats and hand devices of stopped nodes over', async () => {
+    const first = await start('node-a');
+    const second = await start('node-b');
+    await first.acquireDevice('device-1');
+
+    now += 20000;
+    await heartbeat(first);
+    now += 20000;
+    expect(await second.acquireDevice('device-1')).toBe(false);
+
+    // node-a stops sending heartbeats
+    now += 30000;
+    await heartbeat(second);
+    expect(await second.acquireDevice('device-1')).toBe(true);
+    expect((await second.listNodes()).map(node => node.id)).toEqual(['node-b']);
+  });
+
+  it('should tell the node that missed heartbeats its device was taken over', async () => {
+    const first = await start('node-a');
+    const second = await start('node-b');
+    const lost = jest.fn();
+    first.onDeviceLost(lost);
+    await first.acquireDevice('device-1');
+
+    now += 31000;
+    await second.acquireDevice('device-1');
+    await heartbeat(first);
+
+    expect(lost).toHaveBeenCalledWith('device-1');
+    expect(first.getOwnedDevices()).toEqual([]);
+    expect(await first.isOwnedElsewhere('device-1')).toBe(true);
+  });
+
+  it('should give every lease up when the node stops', async () => {
+    const first = await startNode('node-a');
+    const second = await start('node-b');
+    await first.acquireDevice('device-1');
+    await first.acquireDevice('device-2');
+
+    await first.stop();
+
+    expect(await second.getDeviceOwner('device-1')).toBeNull();
+    expect(await second.getDeviceOwner('device-2')).toBeNull();
+    expect((await second.listNodes()).map(node => node.id)).toEqual(['node-b']);
+  });
+});
@@ -0,0 +1,123 @@
+import { DevicePoolService, rankPoolDevices } from '../../../src/services/DevicePoolService';
+
+// In-memory stand-in for the hash commands used by pools and sticky routing
+const hashes = new Map<string, Map<string, string>>();
+const hashFor = (key: string) => {
+  if (!hashes.has(key)) hashes.set(key, new Map());
+  return hashes.get(key)!;
+};
+const fakeRedis = {
+  hset: jest.fn(async (key: string, field: string, value: string) => { hashFor(key).set(field, value); return 1; }),
+  hget: jest.fn(async (key: string, field: string) => hashFor(key).get(field) ?? null),
+  hvals: jest.fn(async (key: string) => Array.from(hashFor(key).values())),
+  hdel: jest.fn(async (key: string, field: string) => (hashFor(key).delete(field) ? 1 : 0)),
+  del: jest.fn(async (key: string) => (hashes.delete(key) ? 1 : 0)),
+  expire: jest.fn(async () => 1),
+};
+
+jest.mock('../../../src/config/redis', () => ({
+  getRedisClient: () => fakeRedis,
+}));
+
+const devices: Record<string, { id: string; status: string }> = {};
+const health: Record<string, { score: number; safe: boolean }> = {};
+const rates: Record<string, number> = {};
+const moveDeviceMessages = jest.fn();
+
+jest.mock('../../../src/services/DeviceManager', () => ({
+  DeviceManager: { getInstance: () => ({ getDevice: (id: string) => devices[id] }) },
+}));
+jest.mock('../../../src/services/DeviceHealthService', () => ({
+  DeviceHealthService: {
+    getInstance: () => ({
+      getDeviceHealth: async (id: string) => ({ score: health[id].score }),
+      isSafeToSendMessage: async (id: string) => (health[id].safe ? { safe: true } : { safe: false, reason: 'Success rate too low' }),
+    }),
+  },
+}));
+jest.mock('../../../src/services/MessageQueueService', () => ({
+  MessageQueueService: {
+    getInstance: () => ({
+      getDeviceStatus: async (id: string) => ({ messagesInLast60s: rates[id] || 0 }),
+      moveDeviceMessages,
+    }),
+  },
+}));
+
+const addDevice = (id: string, score: number, options: { status?: string; safe?: boolean; rate?: number } = {}) => {
+  devices[id] = { id, status: options.status || 'ready' };
+  health[id] = { score, safe: options.safe ?? true };
+  rates[id] = options.rate || 0;
+};
+
+describe('rankPoolDevices', () => {
+  it('should put devices at the rate limit last, then order by score and recent sends', () => {
+    const ranked = rankPoolDevices([
+      { deviceId: 'busy', score: 100, messagesInLast60s: 10 },
+      { deviceId: 'fair', score: 70, messagesInLast60s: 1 },
+      { deviceId: 'good', score: 90, messagesInLast60s: 5 },
+      { deviceId: 'good-idle', score: 90, messagesInLast60s: 0 },
+    ], 10);
+
+    expect(ranked.map(candidate => candidate.deviceId)).toEqual(['good-idle', 'good', 'fair', 'busy']);
+  });
+});
+
+describe('DevicePoolService', () => {
+  const service = DevicePoolService.getInstance();
+
+  beforeEach(() => {
+    hashes.clear();
+    for (const id of Object.keys(devices)) delete devices[id];
+    moveDeviceMessages.mockReset();
+  });
+
+  it('should pick the healthiest device and keep the recipient on it', async () => {
+    addDevice('device-1', 60);
+    addDevice('device-2', 90);
+    const pool = await service.createPool({ name: 'Support', deviceIds: ['device-1', 'device-2'] });
+
+    expect(await service.selectDevice(pool.id, '111@c.us')).toEqual({ status: 'selected', deviceId: 'device-2', sticky: false });
+
+    // Still device-2 for this recipient, even once device-1 is healthier
+    health['device-1'].score = 100;
+    expect(await service.selectDevice(pool.id, '111@c.us')).toEqual({ status: 'selected', deviceId: 'device-2', sticky: true });
+    expect(await service.selectDevice(pool.id, '222@c.us')).toMatchObject({ deviceId: 'device-1' });
+  });
+
+  it('should move the recipient when their device can no longer send', async () => {
+    addDevice('device-1', 60);
+    addDevice('device-2', 90);
+    const pool = await service.createPool({ name: 'Support', deviceIds: ['device-1', 'device-2'] });
+    await service.selectDevice(pool.id, '111@c.us');
+
+    devices['device-2'].status = 'disconnected';
+
+    expect(await service.selectDevice(pool.id, '111@c.us')).toEqual({ status: 'selected', deviceId: 'device-1', sticky: false });
+  });
+
+  it('should report when no device can send', async () => {
+    addDevice('device-1', 20, { safe: false });
+    const pool = await service.createPool({ name: 'Support', deviceIds: ['device-1', 'device-9'] });
+
+    const selection = await service.selectDevice(pool.id, '111@c.us');
+
+    expect(selection.status).toBe('unavailable');
+    expect(selection.reason).toContain('device-1: Success rate too low');
+    expect(selection.reason).toContain('device-9: Device not found');
+    expect(await service.selectDevice('pool_0000000000000000', '111@c.us')).toEqual({ status: 'not_found' });
+  });
+
+  it('should hand a disconnected device\'s queued messages to another pool device', async () => {
+    addDevice('device-1', 90, { status: 'disconnected' });
+    addDevice('device-2', 50);
+    const pool = await service.createPool({ name: 'Support', deviceIds: ['device-1', 'device-2'] });
+    moveDeviceMessages.mockImplementation(async (_deviceId, pickDevice) => ((await pickDevice({ poolId: pool.id, to: '111@c.us' })) ? 1 : 0));
+
+    await service.handleDeviceDisconnected('device-1');
+
+    expect(moveDeviceMessages).toHaveBeenCalledWith('device-1', expect.any(Function));
+    expect(await moveDeviceMessages.mock.results[0].value).toBe(1);
+    expect(await service.selectDevice(pool.id, '111@c.us')).toMatchObject({ deviceId: 'device-2', sticky: true });
+  });
+});
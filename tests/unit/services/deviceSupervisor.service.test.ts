@@ -0,0 +1,147 @@
+import {
+  classifyDisconnectReason,
+  DeviceSupervisorService,
+  getReconnectDelay,
+  ReconnectPolicySettings,
+} from '../../../src/services/DeviceSupervisorService';
+
+jest.mock('../../../src/config/env', () => ({
+  env: { REDIS_ENABLED: false },
+}));
+
+const restartDevice = jest.fn(async (_deviceId: string) => true);
+const devices: Record<string, any> = {
+  'device-1': { id: 'device-1', status: 'disconnected', client: {} },
+};
+
+jest.mock('../../../src/services/DeviceManager', () => ({
+  DeviceManager: {
+    getInstance: () => ({
+      getDevice: (id: string) => devices[id],
+      getAllDevices: () => Object.values(devices),
+      restartDevice: (id: string) => restartDevice(id),
+    }),
+  },
+}));
+
+const logActivity = jest.fn(async () => undefined);
+jest.mock('../../../src/services/DeviceHealthService', () => ({
+  DeviceHealthService: {
+    getInstance: () => ({ logActivity }),
+  },
+}));
+
+const dispatch = jest.fn();
+jest.mock('../../../src/services/WebhookService', () => ({
+  WebhookService: {
+    getInstance: () => ({ dispatch }),
+  },
+}));
+
+describe('DeviceSupervisorService', () => {
+  const policy: ReconnectPolicySettings = {
+    enabled: true,
+    maxAttempts: 3,
+    initialDelay: 5000,
+    maxDelay: 60000,
+    multiplier: 2,
+    hangTimeout: 300000,
+    reconnectOnLogout: false,
+  };
+
+  describe('getReconnectDelay', () => {
+    it('should double the wait after each attempt up to maxDelay', () => {
+      const noJitter = () => 0.5;
+
+      expect([1, 2, 3, 4, 5, 6].map(attempt => getReconnectDelay(policy, attempt, noJitter)))
+        .toEqual([5000, 10000, 20000, 40000, 60000, 60000]);
+    });
+
+    it('should spread restarts by up to 20% without passing maxDelay', () => {
+      expect(getReconnectDelay(policy, 1, () => 0)).toBe(4000);
+      expect(getReconnectDelay(policy, 1, () => 1)).toBe(6000);
+      expect(getReconnectDelay(policy, 10, () => 1)).toBe(60000);
+    });
+  });
+
+  it('should tell logouts from connection losses', () => {
+    expect(classifyDisconnectReason('LOGOUT')).toBe('logout');
+    expect(classifyDisconnectReason('UNPAIRED')).toBe('logout');
+    expect(classifyDisconnectReason('NAVIGATION')).toBe('transient');
+    expect(classifyDisconnectReason('CONFLICT')).toBe('transient');
+  });
+
+  describe('supervision', () => {
+    const supervisor = DeviceSupervisorService.getInstance();
+
+    beforeEach(() => {
+      jest.useFakeTimers();
+      jest.spyOn(Math, 'random').mockReturnValue(0.5);
+      supervisor.forget('device-1');
+      restartDevice.mockClear();
+      logActivity.mockClear();
+      dispatch.mockClear();
+    });
+
+    afterEach(() => {
+      supervisor.forget('device-1');
+      jest.useRealTimers();
+      jest.restoreAllMocks();
+    });
+
+    it('should restart a disconnected device after the backoff and record the attempt', async () => {
+      await supervisor.handleDisconnected('device-1', 'NAVIGATION');
+      expect(supervisor.getState('device-1')).toMatchObject({ attempts: 0, trigger: 'disconnected', reason: 'NAVIGATION' });
+
+      await jest.advanceTimersByTimeAsync(4999);
+      expect(restartDevice).not.toHaveBeenCalled();
+      await jest.advanceTimersByTimeAsync(1);
+
+      expect(restartDevice).toHaveBeenCalledWith('device-1');
+      expect(supervisor.getState('device-1').attempts).toBe(1);
+      expect(logActivity).toHaveBeenCalledWith('device-1', expect.objectContaining({
+        action: 'reconnect_attempt',
+        success: true,
+        attempt: 1,
+        reason: 'disconnected: NAVIGATION',
+      }));
+    });
+
+    it('should leave logged out devices alone', async () => {
+      await supervisor.handleDisconnected('device-1', 'LOGOUT');
+      await jest.advanceTimersByTimeAsync(60000);
+
+      expect(restartDevice).not.toHaveBeenCalled();
+    });
+
+    it('should give up after maxAttempts until reconnected by hand', async () => {
+      // Every restart fails to start the client; the defaults allow 10 attempts
+      for (let attempt = 1; attempt <= 10; attempt++) {
+        await supervisor.handleInitFailed('device-1', 'Protocol error');
+        await jest.advanceTimersByTimeAsync(300000);
+      }
+      expect(restartDevice).toHaveBeenCalledTimes(10);
+
+      await supervisor.handleInitFailed('device-1', 'Protocol error');
+      expect(supervisor.getState('device-1')).toMatchObject({ attempts: 10, gaveUp: true });
+      expect(logActivity).toHaveBeenLastCalledWith('device-1', expect.objectContaining({ action: 'reconnect_gave_up' }));
+      expect(dispatch).toHaveBeenCalledWith('device_state', 'device-1', expect.objectContaining({ reconnect: 'gave_up' }));
+
+      await supervisor.handleInitFailed('device-1', 'Protocol error');
+      await jest.advanceTimersByTimeAsync(300000);
+      expect(restartDevice).toHaveBeenCalledTimes(10);
+
+      expect(await supervisor.reconnectNow('device-1')).toBe(true);
+      expect(restartDevice).toHaveBeenCalledTimes(11);
+      expect(supervisor.getState('device-1')).toMatchObject({ attempts: 1, trigger: 'manual', gaveUp: false });
+    });
+
+    it('should start the backoff over once the device is ready', async () => {
+      await supervisor.handleDisconnected('device-1', 'NAVIGATION');
+      await jest.advanceTimersByTimeAsync(5000);
+      supervisor.handleReady('device-1');
+
+      expect(supervisor.getState('device-1')).toEqual({ deviceId: 'device-1', attempts: 0, gaveUp: false });
+    });
+  });
+});
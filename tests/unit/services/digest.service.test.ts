@@ -0,0 +1,66 @@
+import { buildDigestMessages, composeDigestText } from '../../../src/services/DigestService';
+
+// The real AIService loads the whole config barrel, including Socket.IO
+jest.mock('../../../src/services/AIService', () => ({
+  AIService: { getInstance: jest.fn() },
+}));
+jest.mock('../../../src/services/DeviceManager', () => ({
+  DeviceManager: { getInstance: jest.fn() },
+}));
+jest.mock('../../../src/services/MessageQueueService', () => ({
+  MessageQueueService: { getInstance: jest.fn() },
+}));
+
+describe('DigestService helpers', () => {
+  describe('buildDigestMessages', () => {
+    const messages = [
+      { fromMe: false, from: '120363025555555555@g.us', author: '15551230001@c.us', body: 'Release on Friday?', timestamp: 1760853600 },
+      { fromMe: true, from: '15551239999@c.us', body: 'Yes, Friday.', timestamp: 1760853660 },
+    ];
+
+    it('should label group messages with their author', () => {
+      const [system, user] = buildDigestMessages('Backend', messages, { includeMetadata: false });
+
+      expect(system.role).toBe('system');
+      expect(user.content).toContain('"Backend"');
+      expect(user.content).toContain('15551230001: Release on Friday?');
+      expect(user.content).toContain('Me: Yes, Friday.');
+      expect(user.content).not.toContain('timestamp');
+    });
+
+    it('should add custom instructions and metadata when asked', () => {
+      const [system, user] = buildDigestMessages('Backend', messages, {
+        prompt: 'Focus on open tasks',
+        includeMetadata: true,
+      });
+
+      expect(system.content).toMatch(/Focus on open tasks$/);
+      expect(user.content).toContain('timestamp: 2025-10-19T06:00:00.000Z');
+    });
+  });
+
+  describe('composeDigestText', () => {
+    it('should give each chat a section, including quiet and failed ones', () => {
+      const text = composeDigestText('Team groups', [
+        { chatId: 'a@g.us', name: 'Backend', messageCount: 2, summary: '• Release moved to Friday' },
+        { chatId: 'b@g.us', name: 'Support', messageCount: 0 },
+        { chatId: 'c@g.us', name: 'c@g.us', messageCount: 0, error: 'Chat not found' },
+      ], 24);
+
+      expect(text).toBe([
+        '*Team groups* - last 24 hours',
+        '*Backend* (2 messages)\n• Release moved to Friday',
+        '*Support*\nNo new messages.',
+        '*c@g.us*\nCould not be summarized: Chat not found',
+      ].join('\n\n'));
+    });
+
+    it('should not pluralize single units', () => {
+      const text = composeDigestText('Hourly', [
+        { chatId: 'a@g.us', name: 'Backend', messageCount: 1, summary: 'One question' },
+      ], 1);
+
+      expect(text).toBe('*Hourly* - last 1 hour\n\n*Backend* (1 message)\nOne question');
+    });
+  });
+});
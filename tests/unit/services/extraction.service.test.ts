@@ -0,0 +1,119 @@
+import { parseJsonAnswer, chunkMessages, buildExtractionMessages } from '../../../src/services/ExtractionService';
+import { checkJsonSchema, validateJsonSchema } from '../../../src/utils/jsonSchema';
+
+// The real AIService loads the whole config barrel, including Socket.IO
+jest.mock('../../../src/services/AIService', () => ({
+  AIService: { getInstance: jest.fn() },
+}));
+
+const orderSchema = {
+  type: 'object',
+  properties: {
+    orders: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          product: { type: 'string', minLength: 1 },
+          quantity: { type: 'integer', minimum: 1 },
+          deliveryDate: { type: 'string', format: 'date' },
+          status: { enum: ['confirmed', 'pending'] },
+        },
+        required: ['product', 'quantity'],
+        additionalProperties: false,
+      },
+    },
+  },
+  required: ['orders'],
+};
+
+describe('ExtractionService helpers', () => {
+  describe('checkJsonSchema', () => {
+    it('should accept the supported keywords', () => {
+      expect(checkJsonSchema(orderSchema)).toEqual([]);
+    });
+
+    it('should reject keywords it cannot check', () => {
+      expect(checkJsonSchema({
+        type: 'object',
+        properties: { address: { $ref: '#/definitions/address' }, tags: { type: 'list' } },
+      })).toEqual([
+        '#/properties/address: keyword "$ref" is not supported',
+        '#/properties/tags: unknown type "list"',
+      ]);
+    });
+  });
+
+  describe('validateJsonSchema', () => {
+    it('should accept a matching value', () => {
+      expect(validateJsonSchema(orderSchema, {
+        orders: [{ product: 'Cake', quantity: 2, deliveryDate: '2026-10-21', status: 'confirmed' }],
+      })).toEqual([]);
+    });
+
+    it('should report every violation with its path', () => {
+      expect(validateJsonSchema(orderSchema, {
+        orders: [
+          { product: '', quantity: '2' },
+          { quantity: 0, deliveryDate: 'tomorrow', status: 'shipped', note: 'fragile' },
+        ],
+      })).toEqual([
+        '$.orders[0].product must have at least 1 characters',
+        '$.orders[0].quantity must be integer, got string',
+        '$.orders[1].product is required',
+        '$.orders[1].quantity must be at least 1',
+        '$.orders[1].deliveryDate must be a valid date',
+        '$.orders[1].status must be one of "confirmed", "pending"',
+        '$.orders[1].note is not allowed',
+      ]);
+    });
+
+    it('should not treat inherited names as declared properties', () => {
+      expect(validateJsonSchema({ type: 'object', additionalProperties: false }, JSON.parse('{"constructor": 1}')))
+        .toEqual(['$.constructor is not allowed']);
+    });
+  });
+
+  describe('parseJsonAnswer', () => {
+    it('should read JSON in code fences or surrounded by text', () => {
+      expect(parseJsonAnswer('```json\n{"orders": []}\n```').value).toEqual({ orders: [] });
+      expect(parseJsonAnswer('Here you go: {"orders": []} Hope it helps!').value).toEqual({ orders: [] });
+      expect(parseJsonAnswer('[1, 2]').value).toEqual([1, 2]);
+    });
+
+    it('should report answers without JSON', () => {
+      expect(parseJsonAnswer('There are no orders.')).toEqual({ error: 'The answer is not valid JSON' });
+      expect(parseJsonAnswer('{"orders": [')).toEqual({ error: 'The answer is not valid JSON' });
+    });
+  });
+
+  describe('chunkMessages', () => {
+    const message = (body: string) => ({ from: '15551230001@c.us', body, timestamp: 1760853600 });
+
+    it('should keep consecutive messages together while they fit', () => {
+      // Each formatted line is "15551230001: xxxxx" plus a newline, 19 characters
+      const messages = ['one__', 'two__', 'three', 'four_'].map(message);
+
+      expect(chunkMessages(messages, false, 40).map(chunk => chunk.map(m => m.body)))
+        .toEqual([['one__', 'two__'], ['three', 'four_']]);
+      expect(chunkMessages(messages, false, 1000)).toHaveLength(1);
+      expect(chunkMessages([], false, 40)).toEqual([]);
+    });
+
+    it('should give a message that is too long a chunk of its own', () => {
+      const messages = [message('short'), message('x'.repeat(100)), message('short')];
+
+      expect(chunkMessages(messages, false, 40).map(chunk => chunk.length)).toEqual([1, 1, 1]);
+    });
+  });
+
+  describe('buildExtractionMessages', () => {
+    it('should put the schema and instructions in the system prompt', () => {
+      const [system, user] = buildExtractionMessages(orderSchema, '15551230001: 2 cakes please', 'Only confirmed orders');
+
+      expect(system.content).toContain('Only confirmed orders');
+      expect(system.content).toContain(JSON.stringify(orderSchema));
+      expect(user.content).toContain('15551230001: 2 cakes please');
+    });
+  });
+});
@@ -0,0 +1,103 @@
+import { MessageQueueService } from '../../../src/services/MessageQueueService';
+
+// In-memory stand-in for the sorted set and hash commands used by the queue
+const zsets = new Map<string, Map<string, number>>();
+const hashes = new Map<string, Map<string, string>>();
+const zsetFor = (key: string) => {
+  if (!zsets.has(key)) zsets.set(key, new Map());
+  return zsets.get(key)!;
+};
+const hashFor = (key: string) => {
+  if (!hashes.has(key)) hashes.set(key, new Map());
+  return hashes.get(key)!;
+};
+const sortedMembers = (key: string) => Array.from(zsetFor(key).entries()).sort((a, b) => a[1] - b[1]);
+const fakeRedis = {
+  zadd: jest.fn(async (key: string, score: number, member: string) => { zsetFor(key).set(member, score); return 1; }),
+  zrem: jest.fn(async (key: string, ...members: string[]) => members.filter(member => zsetFor(key).delete(member)).length),
+  zcard: jest.fn(async (key: string) => zsetFor(key).size),
+  zrangebyscore: jest.fn(async (key: string, min: string, max: string, _limit?: string, offset = '0', count = '-1') => {
+    const members = sortedMembers(key)
+      .filter(([, score]) => (min === '-inf' || score >= Number(min)) && score <= Number(max))
+      .map(([member]) => member);
+    return Number(count) < 0 ? members.slice(Number(offset)) : members.slice(Number(offset), Number(offset) + Number(count));
+  }),
+  hset: jest.fn(async (key: string, field: string, value: string) => { hashFor(key).set(field, value); return 1; }),
+  hget: jest.fn(async (key: string, field: string) => hashFor(key).get(field) ?? null),
+  hexists: jest.fn(async (key: string, field: string) => (hashFor(key).has(field) ? 1 : 0)),
+  hdel: jest.fn(async (key: string, ...fields: string[]) => fields.filter(field => hashFor(key).delete(field)).length),
+  sadd: jest.fn(async () => 1),
+  srem: jest.fn(async () => 1),
+  get: jest.fn(async () => null),
+  set: jest.fn(async () => 'OK'),
+  incr: jest.fn(async () => 1),
+  expire: jest.fn(async () => 1),
+};
+
+jest.mock('../../../src/config/redis', () => ({
+  getRedisClient: () => fakeRedis,
+}));
+
+const sendMessage = jest.fn();
+const devices: Record<string, any> = {
+  'device-local': { id: 'device-local', status: 'ready', client: { sendMessage } },
+};
+
+jest.mock('../../../src/services/DeviceManager', () => ({
+  DeviceManager: {
+    getInstance: () => ({
+      getDevice: (id: string) => devices[id],
+      getFormattedDeviceId: (id: string) => id,
+    }),
+  },
+}));
+jest.mock('../../../src/services/ClusterService', () => ({
+  ClusterService: {
+    getInstance: () => ({
+      isEnabled: () => true,
+      isOwnedElsewhere: async (deviceId: string) => deviceId === 'device-remote',
+    }),
+  },
+}));
+
+describe('MessageQueueService in a cluster', () => {
+  let service: MessageQueueService;
+  const processQueue = () => (service as any).processQueue();
+
+  beforeAll(() => {
+    // Keep the queue worker from polling during tests
+    jest.spyOn(global, 'setInterval').mockReturnValue({} as NodeJS.Timeout);
+    service = MessageQueueService.getInstance();
+    service.updateConfig({ typingDelay: false, minDelay: 0, maxDelay: 0 });
+  });
+
+  beforeEach(() => {
+    zsets.clear();
+    hashes.clear();
+    sendMessage.mockReset();
+    sendMessage.mockResolvedValue({ id: { _serialized: 'true_34600111222@c.us_ABC' } });
+  });
+
+  it('should send its own messages behind a backlog of devices other nodes run', async () => {
+    const queue = zsetFor('whatsapp:msg_queue');
+    for (let i = 0; i < 120; i++) {
+      const remote = { id: `remote-${i}`, deviceId: 'device-remote', to: '34600111222', type: 'text', content: 'Hi', attempts: 0, maxAttempts: 3 };
+      queue.set(JSON.stringify(remote), 1000 + i);
+    }
+    const queueId = await service.queueMessage({
+      deviceId: 'device-local',
+      to: '34600111222',
+      type: 'text',
+      content: 'Hello',
+      priority: 'normal',
+      maxAttempts: 3,
+    }, { sendAt: Date.now() });
+
+    await processQueue();
+
+    expect(sendMessage).toHaveBeenCalledTimes(1);
+    expect(sendMessage).toHaveBeenCalledWith('34600111222@c.us', 'Hello', undefined);
+    expect(Array.from(queue.keys()).some(member => JSON.parse(member).id === queueId)).toBe(false);
+    expect(queue.size).toBe(120);
+  });
+});
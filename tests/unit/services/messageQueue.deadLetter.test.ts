@@ -0,0 +1,169 @@
+import { MessageQueueService } from '../../../src/services/MessageQueueService';
+
+// In-memory stand-in for the sorted set and hash commands used by the queue and dead letters
+const zsets = new Map<string, Map<string, number>>();
+const hashes = new Map<string, Map<string, string>>();
+const zsetFor = (key: string) => {
+  if (!zsets.has(key)) zsets.set(key, new Map());
+  return zsets.get(key)!;
+};
+const hashFor = (key: string) => {
+  if (!hashes.has(key)) hashes.set(key, new Map());
+  return hashes.get(key)!;
+};
+const sortedMembers = (key: string) => Array.from(zsetFor(key).entries()).sort((a, b) => a[1] - b[1]);
+const fakeRedis = {
+  zadd: jest.fn(async (key: string, score: number, member: string) => { zsetFor(key).set(member, score); return 1; }),
+  zrem: jest.fn(async (key: string, ...members: string[]) => members.filter(member => zsetFor(key).delete(member)).length),
+  zcard: jest.fn(async (key: string) => zsetFor(key).size),
+  zrangebyscore: jest.fn(async (key: string, min: string, max: number | string) => sortedMembers(key)
+    .filter(([, score]) => (min === '-inf' || score >= Number(min)) && score <= Number(max))
+    .map(([member]) => member)),
+  zrevrange: jest.fn(async (key: string) => sortedMembers(key).reverse().map(([member]) => member)),
+  zremrangebyscore: jest.fn(async () => 0),
+  hset: jest.fn(async (key: string, field: string, value: string) => { hashFor(key).set(field, value); return 1; }),
+  hget: jest.fn(async (key: string, field: string) => hashFor(key).get(field) ?? null),
+  hmget: jest.fn(async (key: string, ...fields: string[]) => fields.map(field => hashFor(key).get(field) ?? null)),
+  hexists: jest.fn(async (key: string, field: string) => (hashFor(key).has(field) ? 1 : 0)),
+  hdel: jest.fn(async (key: string, ...fields: string[]) => fields.filter(field => hashFor(key).delete(field)).length),
+  del: jest.fn(async (...keys: string[]) => keys.filter(key => zsets.delete(key) || hashes.delete(key)).length),
+  sadd: jest.fn(async () => 1),
+  srem: jest.fn(async () => 1),
+  get: jest.fn(async () => null),
+  set: jest.fn(async () => 'OK'),
+  incr: jest.fn(async () => 1),
+  expire: jest.fn(async () => 1),
+  // The dead-letter requeue script
+  eval: jest.fn(async (_script: string, _numKeys: number, hashKey: string, indexKey: string, queueKey: string, id: string, score: number, member: string) => {
+    if (!hashFor(hashKey).has(id)) return 0;
+    await fakeRedis.zadd(queueKey, score, member);
+    hashFor(hashKey).delete(id);
+    zsetFor(indexKey).delete(id);
+    return 1;
+  }),
+};
+
+jest.mock('../../../src/config/redis', () => ({
+  getRedisClient: () => fakeRedis,
+}));
+
+const sendMessage = jest.fn();
+const devices: Record<string, any> = {
+  'device-1': { id: 'device-1', status: 'ready', phoneNumber: '111', lastSeen: 1000, client: { sendMessage } },
+  'device-2': { id: 'device-2', status: 'ready', client: { sendMessage } },
+};
+
+jest.mock('../../../src/services/DeviceManager', () => ({
+  DeviceManager: {
+    getInstance: () => ({
+      getDevice: (id: string) => devices[id],
+      getFormattedDeviceId: (id: string) => id,
+    }),
+  },
+}));
+jest.mock('../../../src/services/DeviceHealthService', () => ({
+  DeviceHealthService: {
+    getInstance: () => ({ getDeviceHealth: async () => ({ status: 'warning', score: 55 }) }),
+  },
+}));
+
+describe('MessageQueueService dead letters', () => {
+  let service: MessageQueueService;
+  const deadLetterListener = jest.fn();
+  const processQueue = () => (service as any).processQueue();
+
+  beforeAll(() => {
+    // Keep the queue worker from polling during tests
+    jest.spyOn(global, 'setInterval').mockReturnValue({} as NodeJS.Timeout);
+    service = MessageQueueService.getInstance();
+    service.updateConfig({ typingDelay: false, retryDelay: 0, minDelay: 0, maxDelay: 0 });
+    service.onDeadLetter(deadLetterListener);
+  });
+
+  beforeEach(() => {
+    zsets.clear();
+    hashes.clear();
+    sendMessage.mockReset();
+    deadLetterListener.mockClear();
+  });
+
+  const failMessage = async (deviceId = 'device-1') => {
+    sendMessage.mockRejectedValue(new Error('Evaluation failed'));
+    const queueId = await service.queueMessage({
+      deviceId,
+      to: '34600111222',
+      type: 'text',
+      content: 'Hello',
+      priority: 'normal',
+      maxAttempts: 1,
+    }, { sendAt: Date.now() });
+
+    // The first attempt is retried once, the second one is final
+    await processQueue();
+    await processQueue();
+
+    return queueId;
+  };
+
+  it('should keep a message that failed every attempt with its history and device state', async () => {
+    const queueId = await failMessage();
+
+    const [deadLetter] = await service.getDeadLetters();
+
+    expect(deadLetter.id).toMatch(/^dlq_[a-f0-9]{16}$/);
+    expect(deadLetter.error).toBe('Evaluation failed');
+    expect(deadLetter.message.id).toBe(queueId);
+    expect(deadLetter.message.attemptHistory!.map(attempt => attempt.attempt)).toEqual([1, 2]);
+    expect(deadLetter.deviceState).toEqual({
+      status: 'ready',
+      phoneNumber: '111',
+      lastSeen: 1000,
+      healthStatus: 'warning',
+      healthScore: 55,
+      messagesInLast60s: 0,
+    });
+    expect(deadLetterListener).toHaveBeenCalledWith(deadLetter);
+    expect(zsetFor('whatsapp:msg_queue').size).toBe(0);
+  });
+
+  it('should queue a dead letter again on another device with fresh attempts', async () => {
+    const queueId = await failMessage();
+    const [deadLetter] = await service.getDeadLetters();
+
+    expect(await service.retryDeadLetter(deadLetter.id, 'device-2')).toEqual({ status: 'retried', queueId });
+    expect(await service.retryDeadLetter(deadLetter.id)).toEqual({ status: 'not_found' });
+    expect(await service.getDeadLetters()).toEqual([]);
+
+    const [member] = Array.from(zsetFor('whatsapp:msg_queue').keys());
+    expect(JSON.parse(member)).toMatchObject({ id: queueId, deviceId: 'device-2', attempts: 0 });
+    expect(JSON.parse(member).scheduled).toBeUndefined();
+
+    sendMessage.mockResolvedValue({ id: { _serialized: 'true_34600111222@c.us_ABC' } });
+    await processQueue();
+
+    expect(sendMessage).toHaveBeenLastCalledWith('34600111222@c.us', 'Hello', undefined);
+    expect(await service.getDeadLetters()).toEqual([]);
+  });
+
+  it('should keep a dead letter that could not be queued again', async () => {
+    await failMessage();
+    const [deadLetter] = await service.getDeadLetters();
+
+    fakeRedis.zadd.mockRejectedValueOnce(new Error('Connection is closed.'));
+
+    await expect(service.retryDeadLetter(deadLetter.id)).rejects.toThrow('Connection is closed.');
+    expect(await service.getDeadLetters()).toEqual([deadLetter]);
+    expect(zsetFor('whatsapp:msg_queue').size).toBe(0);
+  });
+
+  it('should filter and purge dead letters by device', async () => {
+    await failMessage('device-1');
+    await failMessage('device-2');
+
+    expect(await service.getDeadLetters({ deviceId: 'device-2' })).toHaveLength(1);
+    expect(await service.purgeDeadLetters({ deviceId: 'device-2' })).toBe(1);
+    expect((await service.getDeadLetters()).map(deadLetter => deadLetter.message.deviceId)).toEqual(['device-1']);
+    expect(await service.purgeDeadLetters()).toBe(1);
+    expect(await service.getDeadLetters()).toEqual([]);
+  });
+});
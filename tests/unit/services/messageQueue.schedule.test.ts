@@ -0,0 +1,115 @@
+import { getNextCronOccurrence, isValidCronExpression } from '../../../src/utils/cron';
+import { MessageQueueService } from '../../../src/services/MessageQueueService';
+
+// In-memory stand-in for the sorted set and hash commands used by scheduling
+const zset = new Map<string, number>();
+const hash = new Map<string, string>();
+const fakeRedis = {
+  zadd: jest.fn(async (_key: string, score: number, member: string) => { zset.set(member, score); return 1; }),
+  zrem: jest.fn(async (_key: string, member: string) => (zset.delete(member) ? 1 : 0)),
+  hset: jest.fn(async (_key: string, field: string, value: string) => { hash.set(field, value); return 1; }),
+  hget: jest.fn(async (_key: string, field: string) => hash.get(field) ?? null),
+  hvals: jest.fn(async () => Array.from(hash.values())),
+  hdel: jest.fn(async (_key: string, field: string) => (hash.delete(field) ? 1 : 0)),
+  hexists: jest.fn(async (_key: string, field: string) => (hash.has(field) ? 1 : 0)),
+  get: jest.fn(async () => null),
+};
+
+jest.mock('../../../src/config/redis', () => ({
+  getRedisClient: () => fakeRedis,
+}));
+
+jest.mock('../../../src/services/DeviceManager', () => ({
+  DeviceManager: {
+    getInstance: () => ({
+      getDevice: jest.fn(),
+      getFormattedDeviceId: (id: string) => id,
+    }),
+  },
+}));
+
+describe('cron utilities', () => {
+  it('should find the next matching minute', () => {
+    const from = new Date(2026, 9, 19, 8, 30).getTime(); // Monday 08:30
+
+    expect(getNextCronOccurrence('0 9 * * *', from)).toBe(new Date(2026, 9, 19, 9, 0).getTime());
+    expect(getNextCronOccurrence('*/15 * * * *', from)).toBe(new Date(2026, 9, 19, 8, 45).getTime());
+  });
+
+  it('should skip to the next allowed weekday', () => {
+    const from = new Date(2026, 9, 24, 10, 0).getTime(); // Saturday
+
+    expect(getNextCronOccurrence('0 9 * * 1-5', from)).toBe(new Date(2026, 9, 26, 9, 0).getTime());
+  });
+
+  it('should reject malformed or impossible expressions', () => {
+    expect(isValidCronExpression('@daily')).toBe(true);
+    expect(isValidCronExpression('0 9 * *')).toBe(false);
+    expect(isValidCronExpression('61 * * * *')).toBe(false);
+    expect(isValidCronExpression('0 0 31 2 *')).toBe(false);
+  });
+});
+
+describe('MessageQueueService scheduling', () => {
+  let service: MessageQueueService;
+  const message = {
+    deviceId: 'device-1',
+    to: '1234567890@c.us',
+    type: 'text' as const,
+    content: 'Reminder',
+    priority: 'normal' as const,
+    maxAttempts: 3,
+  };
+
+  beforeAll(() => {
+    // Keep the queue worker from polling during tests
+    jest.spyOn(global, 'setInterval').mockReturnValue({} as NodeJS.Timeout);
+    service = MessageQueueService.getInstance();
+  });
+
+  beforeEach(() => {
+    zset.clear();
+    hash.clear();
+  });
+
+  it('should queue at the requested time and list it for the device', async () => {
+    const sendAt = Date.now() + 60 * 60 * 1000;
+    const queueId = await service.queueMessage(message, { sendAt });
+
+    expect(Array.from(zset.values())).toEqual([sendAt]);
+    expect(await service.getScheduledMessages('device-1')).toEqual([
+      expect.objectContaining({ id: queueId, scheduledAt: sendAt, scheduled: true }),
+    ]);
+    expect(await service.getScheduledMessages('device-2')).toEqual([]);
+  });
+
+  it('should reschedule by replacing the queued entry', async () => {
+    const queueId = await service.queueMessage(message, { sendAt: Date.now() + 60000 });
+    const newTime = Date.now() + 120000;
+
+    const result = await service.rescheduleScheduledMessage('device-1', queueId, { sendAt: newTime });
+
+    expect(result.status).toBe('updated');
+    expect(Array.from(zset.values())).toEqual([newTime]);
+    expect((await service.getScheduledMessage('device-1', queueId))?.scheduledAt).toBe(newTime);
+  });
+
+  it('should cancel pending messages and refuse one-offs already being sent', async () => {
+    const pendingId = await service.queueMessage(message, { sendAt: Date.now() + 60000 });
+    expect(await service.cancelScheduledMessage('device-1', pendingId)).toBe('cancelled');
+    expect(zset.size).toBe(0);
+
+    const sendingId = await service.queueMessage(message, { sendAt: Date.now() + 60000 });
+    zset.clear(); // picked up by the queue worker
+    expect(await service.cancelScheduledMessage('device-1', sendingId)).toBe('sending');
+    expect(await service.cancelScheduledMessage('device-2', sendingId)).toBe('not_found');
+  });
+
+  it('should schedule recurring messages at the next cron occurrence', async () => {
+    const queueId = await service.queueMessage(message, { recurrence: '0 9 * * *' });
+    const scheduled = await service.getScheduledMessage('device-1', queueId);
+
+    expect(scheduled?.recurrence).toBe('0 9 * * *');
+    expect(scheduled?.scheduledAt).toBe(getNextCronOccurrence('0 9 * * *'));
+  });
+});
@@ -0,0 +1,70 @@
+import { buildStatusTimeline } from '../../../src/services/MessageStatusService';
+import { mapAckStatus } from '../../../src/utils/messageAnalytics';
+
+describe('MessageStatusService helpers', () => {
+  describe('mapAckStatus', () => {
+    it('should map whatsapp-web.js acks to statuses', () => {
+      expect(mapAckStatus(-1)).toBe('error');
+      expect(mapAckStatus(0)).toBe('pending');
+      expect(mapAckStatus(1)).toBe('sent');
+      expect(mapAckStatus(2)).toBe('delivered');
+      expect(mapAckStatus(3)).toBe('read');
+      expect(mapAckStatus(4)).toBe('played');
+      expect(mapAckStatus(99)).toBe('error');
+    });
+  });
+
+  describe('buildStatusTimeline', () => {
+    it('should return null when no status was recorded', () => {
+      expect(buildStatusTimeline('device-1', 'msg-1', {})).toBeNull();
+      expect(buildStatusTimeline('device-1', 'msg-1', { chatId: '123@c.us' })).toBeNull();
+    });
+
+    it('should order transitions by time and report the latest status', () => {
+      const timeline = buildStatusTimeline('device-1', 'msg-1', {
+        chatId: '123@c.us',
+        queueId: 'msg_1_abc',
+        'status:read': '3000',
+        'status:pending': '1000',
+        'status:delivered': '2000',
+      });
+
+      expect(timeline).toEqual({
+        messageId: 'msg-1',
+        deviceId: 'device-1',
+        chatId: '123@c.us',
+        queueId: 'msg_1_abc',
+        status: 'read',
+        ack: 3,
+        timeline: [
+          { status: 'pending', ack: 0, timestamp: 1000 },
+          { status: 'delivered', ack: 2, timestamp: 2000 },
+          { status: 'read', ack: 3, timestamp: 3000 },
+        ],
+        updatedAt: 3000,
+      });
+    });
+
+    it('should keep the furthest status when acks arrive out of order', () => {
+      const timeline = buildStatusTimeline('device-1', 'msg-1', {
+        'status:read': '2000',
+        'status:sent': '3000',
+      });
+
+      expect(timeline?.status).toBe('read');
+      expect(timeline?.updatedAt).toBe(3000);
+    });
+
+    it('should only report an error when nothing happened after it', () => {
+      expect(buildStatusTimeline('device-1', 'msg-1', {
+        'status:sent': '1000',
+        'status:error': '2000',
+      })?.status).toBe('error');
+
+      expect(buildStatusTimeline('device-1', 'msg-1', {
+        'status:error': '1000',
+        'status:delivered': '2000',
+      })?.status).toBe('delivered');
+    });
+  });
+});
@@ -0,0 +1,105 @@
+import {
+  toStoredMessage,
+  encodeMessageCursor,
+  decodeMessageCursor,
+  buildMessageSearchQuery,
+} from '../../../src/services/MessageStoreService';
+
+describe('MessageStoreService helpers', () => {
+  describe('toStoredMessage', () => {
+    it('should index a received group message under the group with the participant as sender', () => {
+      const message: any = {
+        id: { _serialized: 'false_123@g.us_ABC' },
+        from: '123@g.us',
+        to: '999@c.us',
+        author: '555@c.us',
+        fromMe: false,
+        type: 'document',
+        body: 'Quarterly report',
+        hasMedia: true,
+        isForwarded: false,
+        timestamp: 1700000000,
+        _data: { mimetype: 'application/pdf', filename: 'report.pdf', size: 2048, quotedStanzaID: 'XYZ' },
+      };
+
+      expect(toStoredMessage(message, 'device-1')).toEqual({
+        deviceId: 'device-1',
+        messageId: 'false_123@g.us_ABC',
+        chatId: '123@g.us',
+        sender: '555@c.us',
+        fromMe: false,
+        type: 'document',
+        body: 'Quarterly report',
+        hasMedia: true,
+        mediaMimetype: 'application/pdf',
+        mediaFilename: 'report.pdf',
+        mediaSize: 2048,
+        isForwarded: false,
+        quotedMessageId: 'XYZ',
+        timestamp: 1700000000000,
+      });
+    });
+
+    it('should index a sent message under the recipient chat', () => {
+      const message: any = {
+        id: { _serialized: 'true_456@c.us_DEF' },
+        from: '999@c.us',
+        to: '456@c.us',
+        fromMe: true,
+        type: 'chat',
+        body: 'Hello',
+        hasMedia: false,
+        timestamp: 1700000000,
+      };
+
+      const stored = toStoredMessage(message, 'device-1');
+      expect(stored.chatId).toBe('456@c.us');
+      expect(stored.sender).toBe('999@c.us');
+      expect(stored.mediaMimetype).toBeUndefined();
+    });
+  });
+
+  describe('cursors', () => {
+    it('should round-trip and reject malformed cursors', () => {
+      const cursor = encodeMessageCursor({ timestamp: 1700000000000, messageId: 'true_456@c.us_D|EF' });
+
+      expect(decodeMessageCursor(cursor)).toEqual({ timestamp: 1700000000000, messageId: 'true_456@c.us_D|EF' });
+      expect(decodeMessageCursor('not-a-cursor')).toBeNull();
+      expect(decodeMessageCursor(Buffer.from('123|').toString('base64url'))).toBeNull();
+    });
+  });
+
+  describe('buildMessageSearchQuery', () => {
+    it('should only filter by device when no filters are given', () => {
+      const { text, values } = buildMessageSearchQuery('messages', 'device-1', { limit: 50 });
+
+      expect(text).toBe('SELECT * FROM messages WHERE device_id = $1 ORDER BY sent_at DESC, message_id DESC LIMIT $2');
+      expect(values).toEqual(['device-1', 51]);
+    });
+
+    it('should number parameters for every filter and the cursor', () => {
+      const from = new Date('2026-01-01T00:00:00Z');
+      const cursor = encodeMessageCursor({ timestamp: 1767225600000, messageId: 'msg-9' });
+
+      const { text, values } = buildMessageSearchQuery('messages', 'device-1', {
+        query: 'invoice -draft',
+        chatId: '123@c.us',
+        from,
+        hasMedia: false,
+        fromMe: true,
+        limit: 10,
+        cursor,
+      });
+
+      expect(text).toContain(`search_vector @@ websearch_to_tsquery('simple', $2)`);
+      expect(text).toContain('chat_id = $3 AND sent_at >= $4 AND has_media = $5 AND from_me = $6');
+      expect(text).toContain('(sent_at, message_id) < ($7, $8)');
+      expect(text).toMatch(/LIMIT \$9$/);
+      expect(values).toEqual(['device-1', 'invoice -draft', '123@c.us', from, false, true, new Date(1767225600000), 'msg-9', 11]);
+    });
+
+    it('should reject malformed cursors', () => {
+      expect(() => buildMessageSearchQuery('messages', 'device-1', { limit: 10, cursor: 'bogus' })).toThrow('Invalid cursor');
+    });
+  });
+});
@@ -0,0 +1,97 @@
+import {
+  evaluateRecipientPolicy,
+  guessRecipientTimezone,
+  RecipientPolicySettings,
+  RecipientState,
+} from '../../../src/services/RecipientPolicyService';
+
+jest.mock('../../../src/config/redis', () => ({
+  getRedisClient: () => ({}),
+}));
+
+describe('RecipientPolicyService helpers', () => {
+  // 2025-10-19 12:00 UTC
+  const noon = Date.UTC(2025, 9, 19, 12, 0);
+  const minutes = (count: number) => count * 60 * 1000;
+
+  const policy = (settings: Partial<RecipientPolicySettings>): RecipientPolicySettings => ({
+    enabled: true,
+    action: 'defer',
+    timezone: 'UTC',
+    ...settings,
+  });
+  const state = (fields: Partial<RecipientState>): RecipientState => ({
+    chatId: '34600111222@c.us',
+    sent: 0,
+    unanswered: 0,
+    ...fields,
+  });
+  const evaluate = (settings: Partial<RecipientPolicySettings>, recipient: RecipientState | null, at = noon, newConversationsToday = 0) =>
+    evaluateRecipientPolicy(policy(settings), recipient, { timezone: 'UTC', newConversationsToday, at });
+
+  it('should cap messages to recipients who never replied', () => {
+    const settings = { neverRepliedLimit: 2 };
+
+    expect(evaluate(settings, state({ sent: 1, unanswered: 1 }))).toBeNull();
+    const violation = evaluate(settings, state({ sent: 2, unanswered: 2 }));
+    expect(violation?.code).toBe('NEVER_REPLIED_LIMIT');
+    expect(violation?.retryAt).toBeUndefined();
+    expect(evaluate(settings, state({ sent: 5, unanswered: 1, lastReplyAt: noon - 1 }))).toBeNull();
+  });
+
+  it('should limit new conversations per day until midnight in the policy timezone', () => {
+    const settings = { newConversationsPerDay: 3 };
+
+    expect(evaluate(settings, null, noon, 2)).toBeNull();
+    expect(evaluate(settings, null, noon, 3)).toEqual(expect.objectContaining({
+      code: 'NEW_CONVERSATION_LIMIT',
+      retryAt: Date.UTC(2025, 9, 20),
+    }));
+    // Recipients already written to are not new conversations
+    expect(evaluate(settings, state({ sent: 1, unanswered: 1 }), noon, 3)).toBeNull();
+  });
+
+  it('should wait out the cooldown after too many unanswered messages', () => {
+    const settings = { unansweredLimit: 3, unansweredCooldownMinutes: 60 };
+    const lastSentAt = noon - minutes(20);
+
+    expect(evaluate(settings, state({ sent: 2, unanswered: 2, lastSentAt }))).toBeNull();
+    expect(evaluate(settings, state({ sent: 3, unanswered: 3, lastSentAt }))).toEqual(expect.objectContaining({
+      code: 'UNANSWERED_COOLDOWN',
+      retryAt: lastSentAt + minutes(60),
+    }));
+    expect(evaluate(settings, state({ sent: 3, unanswered: 3, lastSentAt }), lastSentAt + minutes(60))).toBeNull();
+  });
+
+  it('should hold back messages during quiet hours spanning midnight in the recipient timezone', () => {
+    const settings = { quietHours: { start: '21:00', end: '09:00' } };
+    const inTimezone = (timezone: string, at: number) =>
+      evaluateRecipientPolicy(policy(settings), null, { timezone, newConversationsToday: 0, at });
+
+    expect(inTimezone('UTC', noon)).toBeNull();
+    expect(inTimezone('UTC', Date.UTC(2025, 9, 19, 22, 30))).toEqual(expect.objectContaining({
+      code: 'QUIET_HOURS',
+      retryAt: Date.UTC(2025, 9, 20, 9, 0),
+    }));
+    // Noon in UTC is 21:00 in Tokyo
+    expect(inTimezone('Asia/Tokyo', noon)).toEqual(expect.objectContaining({
+      code: 'QUIET_HOURS',
+      retryAt: noon + minutes(12 * 60),
+    }));
+  });
+
+  it('should report the rule waiting cannot fix before the others', () => {
+    const violation = evaluate(
+      { neverRepliedLimit: 1, quietHours: { start: '00:00', end: '23:59' } },
+      state({ sent: 1, unanswered: 1, lastSentAt: noon - 1 })
+    );
+
+    expect(violation?.code).toBe('NEVER_REPLIED_LIMIT');
+  });
+
+  it('should guess timezones from the calling code', () => {
+    expect(guessRecipientTimezone('34600111222@c.us')).toBe('Europe/Madrid');
+    expect(guessRecipientTimezone('971501234567@c.us')).toBe('Asia/Dubai');
+    expect(guessRecipientTimezone('15550001111@c.us')).toBeUndefined();
+  });
+});
@@ -0,0 +1,105 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  createSessionBackend,
+  decryptSessionArchive,
+  encryptSessionArchive,
+  isEncryptedSessionArchive,
+  signS3Request,
+  SessionStoreConfig,
+} from '../../../src/services/SessionStoreService';
+
+jest.mock('../../../src/config/redis', () => ({
+  getRedisClient: () => ({}),
+}));
+
+describe('SessionStoreService', () => {
+  const archive = Buffer.concat([Buffer.from('PK\u0003\u0004'), Buffer.from('session profile')]);
+
+  describe('archive encryption', () => {
+    it('should encrypt archives so only the same key restores them', () => {
+      const encrypted = encryptSessionArchive(archive, 'secret');
+
+      expect(isEncryptedSessionArchive(encrypted)).toBe(true);
+      expect(encrypted.includes(Buffer.from('session profile'))).toBe(false);
+      expect(decryptSessionArchive(encrypted, 'secret')).toEqual(archive);
+      expect(() => decryptSessionArchive(encrypted, 'other')).toThrow('could not be decrypted');
+      expect(() => decryptSessionArchive(encrypted)).toThrow('set SESSION_ENCRYPTION_KEY');
+    });
+
+    it('should restore archives saved before a key was set', () => {
+      expect(isEncryptedSessionArchive(archive)).toBe(false);
+      expect(decryptSessionArchive(archive, 'secret')).toEqual(archive);
+    });
+  });
+
+  describe('backends', () => {
+    let directory: string;
+    const config = (settings: Partial<SessionStoreConfig>): SessionStoreConfig => ({
+      store: 'local',
+      dataPath: './.wwebjs_auth',
+      backupInterval: 300000,
+      filePath: directory,
+      s3: { region: 'us-east-1', prefix: 'sessions/', forcePathStyle: true },
+      timeout: 1000,
+      ...settings,
+    });
+
+    beforeEach(() => {
+      directory = fs.mkdtempSync(path.join(os.tmpdir(), 'session-store-'));
+    });
+
+    afterEach(() => {
+      fs.rmSync(directory, { recursive: true, force: true });
+    });
+
+    it('should keep sessions on local disk by default', () => {
+      expect(createSessionBackend(config({}))).toBeNull();
+    });
+
+    it('should write, read and delete archives in a directory', async () => {
+      const backend = createSessionBackend(config({ store: 'file' }))!;
+
+      expect(await backend.exists('RemoteAuth-device-1')).toBe(false);
+      expect(await backend.read('RemoteAuth-device-1')).toBeNull();
+
+      await backend.write('RemoteAuth-device-1', archive);
+      expect(await backend.exists('RemoteAuth-device-1')).toBe(true);
+      expect(await backend.read('RemoteAuth-device-1')).toEqual(archive);
+      expect(fs.readdirSync(directory)).toEqual(['RemoteAuth-device-1.zip']);
+
+      await backend.delete('RemoteAuth-device-1');
+      expect(await backend.exists('RemoteAuth-device-1')).toBe(false);
+    });
+
+    it('should reject unknown and incomplete stores', () => {
+      expect(() => createSessionBackend(config({ store: 'ftp' }))).toThrow('Unknown session store "ftp"');
+      expect(() => createSessionBackend(config({ store: 's3' }))).toThrow('requires SESSION_S3_BUCKET');
+    });
+  });
+
+  describe('signS3Request', () => {
+    it('should sign the request with the credential scope of its day and region', () => {
+      const request = {
+        method: 'PUT',
+        url: new URL('http://minio:9000/sessions-bucket/sessions/RemoteAuth-device-1.zip'),
+        body: archive,
+        region: 'us-east-1',
+        accessKeyId: 'minio',
+        secretAccessKey: 'minio-secret',
+        date: new Date('2025-10-19T12:30:00.000Z'),
+      };
+
+      const headers = signS3Request(request);
+
+      expect(headers['x-amz-date']).toBe('20251019T123000Z');
+      expect(headers['x-amz-content-sha256']).toMatch(/^[a-f0-9]{64}$/);
+      expect(headers['Authorization']).toMatch(
+        /^AWS4-HMAC-SHA256 Credential=minio\/20251019\/us-east-1\/s3\/aws4_request, SignedHeaders=host;x-amz-content-sha256;x-amz-date, Signature=[a-f0-9]{64}$/
+      );
+      // Any change to what is signed changes the signature
+      expect(signS3Request({ ...request, method: 'DELETE' })['Authorization']).not.toBe(headers['Authorization']);
+    });
+  });
+});
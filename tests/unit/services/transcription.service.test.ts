@@ -0,0 +1,130 @@
+import axios from 'axios';
+import {
+  TranscriptionService,
+  isTranscribable,
+  getAudioFilename,
+  createTranscriptionBackend,
+  OpenAITranscriptionBackend,
+  WhisperCppTranscriptionBackend,
+  TranscriptionServiceConfig,
+} from '../../../src/services/TranscriptionService';
+import { formatMessagesForAI } from '../../../src/utils/chatAnalysis';
+
+jest.mock('axios');
+
+const storedTranscripts: Record<string, string> = {};
+jest.mock('../../../src/config/redis', () => ({
+  getRedisClient: () => ({ get: async (key: string) => storedTranscripts[key] ?? null }),
+}));
+jest.mock('../../../src/services/MessageStoreService', () => ({
+  MessageStoreService: { getInstance: () => ({ getMessage: async () => null }) },
+}));
+
+const mockedAxios = axios as jest.Mocked<typeof axios>;
+
+const config = (overrides: Partial<TranscriptionServiceConfig>): TranscriptionServiceConfig => ({
+  backend: '',
+  model: 'whisper-1',
+  auto: false,
+  maxDuration: 600,
+  timeout: 1000,
+  cacheTtl: 60,
+  ...overrides,
+});
+
+describe('TranscriptionService helpers', () => {
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should only transcribe voice notes and audio with media', () => {
+    expect(isTranscribable({ type: 'ptt', hasMedia: true })).toBe(true);
+    expect(isTranscribable({ type: 'audio', hasMedia: true })).toBe(true);
+    expect(isTranscribable({ type: 'ptt', hasMedia: false })).toBe(false);
+    expect(isTranscribable({ type: 'video', hasMedia: true })).toBe(false);
+  });
+
+  it('should name the file after the audio format', () => {
+    expect(getAudioFilename('audio/ogg; codecs=opus')).toBe('audio.ogg');
+    expect(getAudioFilename('audio/mpeg')).toBe('audio.mp3');
+    expect(getAudioFilename('application/octet-stream')).toBe('audio.ogg');
+  });
+
+  describe('createTranscriptionBackend', () => {
+    it('should be disabled without a backend', () => {
+      expect(createTranscriptionBackend(config({}))).toBeNull();
+    });
+
+    it('should create the configured backend', () => {
+      expect(createTranscriptionBackend(config({ backend: 'openai' }))).toBeInstanceOf(OpenAITranscriptionBackend);
+      expect(createTranscriptionBackend(config({ backend: 'whisper-cpp' }))).toBeInstanceOf(WhisperCppTranscriptionBackend);
+    });
+
+    it('should reject unknown backends', () => {
+      expect(() => createTranscriptionBackend(config({ backend: 'vosk' }))).toThrow('Unknown transcription backend "vosk"');
+    });
+  });
+
+  describe('backends', () => {
+    const request = { audio: Buffer.from('audio'), mimetype: 'audio/ogg', filename: 'audio.ogg', language: 'en' };
+
+    it('should post to the OpenAI-compatible transcriptions endpoint', async () => {
+      mockedAxios.post.mockResolvedValue({ data: { text: ' Hello there ' } });
+      const backend = new OpenAITranscriptionBackend('http://stt.local/v1/', 'whisper-1', 'key', 1000);
+
+      await expect(backend.transcribe(request)).resolves.toEqual({ text: 'Hello there', language: 'en' });
+
+      const [url, form, options] = mockedAxios.post.mock.calls[0] as [string, FormData, any];
+      expect(url).toBe('http://stt.local/v1/audio/transcriptions');
+      expect(form.get('model')).toBe('whisper-1');
+      expect(form.get('language')).toBe('en');
+      expect((form.get('file') as File).name).toBe('audio.ogg');
+      expect(options.headers.Authorization).toBe('Bearer key');
+    });
+
+    it('should post to the whisper.cpp inference endpoint and surface its errors', async () => {
+      mockedAxios.post.mockResolvedValueOnce({ data: { text: 'Hola' } });
+      const backend = new WhisperCppTranscriptionBackend('http://127.0.0.1:8080', 1000);
+
+      await expect(backend.transcribe(request)).resolves.toEqual({ text: 'Hola', language: 'en' });
+      expect(mockedAxios.post.mock.calls[0][0]).toBe('http://127.0.0.1:8080/inference');
+
+      mockedAxios.post.mockResolvedValueOnce({ data: { error: 'failed to read audio data' } });
+      await expect(backend.transcribe(request)).rejects.toThrow('whisper.cpp: failed to read audio data');
+    });
+  });
+
+  it('should give voice notes their transcript in AI prompts', () => {
+    const text = formatMessagesForAI([
+      { fromMe: false, from: '15551230001@c.us', body: '', transcript: 'Can we move the delivery?' },
+      { fromMe: true, from: '15551239999@c.us', body: 'Sure' },
+    ], false);
+
+    expect(text).toBe('15551230001: [voice note] Can we move the delivery?\nMe: Sure');
+  });
+});
+
+describe('TranscriptionService', () => {
+  const transcribe = jest.fn();
+  const voiceNote = (id: string) => ({
+    id: { _serialized: id },
+    type: 'ptt',
+    hasMedia: true,
+    body: '',
+    downloadMedia: jest.fn(),
+  }) as any;
+
+  it('should only add stored transcripts to fetched messages, even with automatic transcription on', async () => {
+    const service = TranscriptionService.getInstance();
+    (service as any).config = config({ backend: 'openai', auto: true });
+    (service as any).backend = { name: 'openai', transcribe };
+    storedTranscripts['whatsapp:transcript:device-1:msg-1'] = JSON.stringify({ messageId: 'msg-1', text: 'Can we move the delivery?' });
+
+    const [transcribed, untranscribed] = await service.addTranscripts('device-1', [voiceNote('msg-1'), voiceNote('msg-2')]);
+
+    expect(transcribed.transcript).toBe('Can we move the delivery?');
+    expect(untranscribed.transcript).toBeUndefined();
+    expect(untranscribed.downloadMedia).not.toHaveBeenCalled();
+    expect(transcribe).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,165 @@
+// In-memory stand-in for the hash commands and the detected-language script
+const hashes = new Map<string, Map<string, string>>();
+const hashFor = (key: string) => {
+  if (!hashes.has(key)) hashes.set(key, new Map());
+  return hashes.get(key)!;
+};
+const fakeRedis = {
+  hget: jest.fn(async (key: string, field: string) => hashFor(key).get(field) ?? null),
+  hgetall: jest.fn(async (key: string) => Object.fromEntries(hashFor(key))),
+  hvals: jest.fn(async (key: string) => Array.from(hashFor(key).values())),
+  hset: jest.fn(async (key: string, field: string, value: string) => { hashFor(key).set(field, value); return 1; }),
+  hdel: jest.fn(async (key: string, field: string) => (hashFor(key).delete(field) ? 1 : 0)),
+  get: jest.fn(async () => null),
+  set: jest.fn(async () => 'OK'),
+  eval: jest.fn(async (_script: string, _numKeys: number, chatsKey: string, detectedKey: string, chatId: string, value: string) => {
+    if (!hashFor(chatsKey).has(chatId)) return 0;
+    hashFor(detectedKey).set(chatId, value);
+    return 1;
+  }),
+};
+
+jest.mock('../../../src/config/redis', () => ({
+  getRedisClient: () => fakeRedis,
+}));
+jest.mock('../../../src/services/AIService', () => ({ AIService: { getInstance: jest.fn() } }));
+jest.mock('../../../src/services/MessageQueueService', () => ({ MessageQueueService: { getInstance: jest.fn() } }));
+
+import { AIService } from '../../../src/services/AIService';
+import { MessageQueueService } from '../../../src/services/MessageQueueService';
+import {
+  TranslationService,
+  formatGlossary,
+  buildTranslationMessages,
+  parseTranslationAnswer,
+  isSameLanguage,
+  GlossaryEntry,
+} from '../../../src/services/TranslationService';
+
+describe('TranslationService helpers', () => {
+  const glossary: GlossaryEntry[] = [
+    { term: 'SuperWidget Pro' },
+    { term: 'Smart Hub', translations: { es: 'Hub Inteligente' } },
+  ];
+
+  describe('formatGlossary', () => {
+    it('should be empty without entries', () => {
+      expect(formatGlossary([], 'es')).toBe('');
+    });
+
+    it('should keep terms unless they have a translation for the language', () => {
+      const spanish = formatGlossary(glossary, 'es');
+      expect(spanish).toContain('- "SuperWidget Pro" stays "SuperWidget Pro"');
+      expect(spanish).toContain('- "Smart Hub" becomes "Hub Inteligente"');
+
+      expect(formatGlossary(glossary, 'de')).toContain('- "Smart Hub" stays "Smart Hub"');
+    });
+  });
+
+  it('should put the glossary in the system prompt and the message in the user turn', () => {
+    const [system, user] = buildTranslationMessages('Where is my Smart Hub?', 'es', glossary);
+
+    expect(system.role).toBe('system');
+    expect(system.content).toContain('Hub Inteligente');
+    expect(user.content).toBe('Target language: es\n\nMessage:\nWhere is my Smart Hub?');
+
+    expect(buildTranslationMessages('Hi', 'es', [])[0].content).not.toContain('Glossary');
+  });
+
+  describe('parseTranslationAnswer', () => {
+    it('should read the language and translation', () => {
+      expect(parseTranslationAnswer('```json\n{"language": "ES", "translation": "¿Dónde está?"}\n```')).toEqual({
+        language: 'es',
+        translation: '¿Dónde está?',
+      });
+    });
+
+    it('should accept answers without a language', () => {
+      expect(parseTranslationAnswer('{"translation": "Hola"}')).toEqual({ language: undefined, translation: 'Hola' });
+    });
+
+    it('should reject answers that are not a translation', () => {
+      expect(parseTranslationAnswer('Hola')).toBeNull();
+      expect(parseTranslationAnswer('{"language": "es"}')).toBeNull();
+      expect(parseTranslationAnswer('{"translation": 42}')).toBeNull();
+    });
+  });
+
+  it('should compare languages by their primary subtag', () => {
+    expect(isSameLanguage('pt-BR', 'pt')).toBe(true);
+    expect(isSameLanguage('EN', 'en')).toBe(true);
+    expect(isSameLanguage('es', 'en')).toBe(false);
+    expect(isSameLanguage(undefined, 'en')).toBe(false);
+  });
+});
+
+describe('TranslationService', () => {
+  let service: TranslationService;
+  let answer: () => void;
+  const generateCompletion = jest.fn();
+  const message = {
+    id: { _serialized: 'false_34600111222@c.us_ABC' },
+    from: '34600111222@c.us',
+    fromMe: false,
+    isStatus: false,
+    type: 'chat',
+    body: 'Hola, ¿dónde está mi pedido?',
+  } as any;
+
+  beforeAll(() => {
+    (MessageQueueService.getInstance as jest.Mock).mockReturnValue({ onMessageProcessed: jest.fn() });
+    (AIService.getInstance as jest.Mock).mockReturnValue({ generateCompletion });
+    service = TranslationService.getInstance();
+  });
+
+  beforeEach(() => {
+    hashes.clear();
+    // Hold the AI answer until the test changes the chat's settings
+    generateCompletion.mockReset().mockImplementation(() => new Promise(resolve => {
+      answer = () => resolve({
+        choices: [{ message: { content: '{"language": "es", "translation": "Hi, where is my order?"}' } }],
+        provider: 'openai',
+        model: 'gpt-4o-mini',
+      });
+    }));
+  });
+
+  const translateWhile = async (change: () => Promise<unknown>) => {
+    const translating = service.handleIncomingMessage('device-1', message);
+    await new Promise(resolve => setImmediate(resolve));
+    await change();
+    answer();
+    return translating;
+  };
+
+  it('should remember the detected language', async () => {
+    await service.updateChat('device-1', message.from, { language: 'en' });
+
+    const translation = await translateWhile(async () => undefined);
+
+    expect(translation).toMatchObject({ from: 'es', to: 'en', text: 'Hi, where is my order?' });
+    expect(await service.getChat('device-1', message.from)).toMatchObject({ enabled: true, detectedLanguage: 'es' });
+    expect(await service.getCustomerLanguage('device-1', message.from)).toBe('es');
+  });
+
+  it('should not bring back a chat deleted while its message was translated', async () => {
+    await service.updateChat('device-1', message.from, { language: 'en' });
+
+    await translateWhile(() => service.deleteChat('device-1', message.from));
+
+    expect(await service.getChat('device-1', message.from)).toBeNull();
+    expect(await service.listChats('device-1')).toEqual([]);
+  });
+
+  it('should keep settings changed while a message was translated', async () => {
+    await service.updateChat('device-1', message.from, { language: 'en' });
+
+    await translateWhile(() => service.updateChat('device-1', message.from, { enabled: false, language: 'de' }));
+
+    expect(await service.getChat('device-1', message.from)).toMatchObject({
+      enabled: false,
+      language: 'de',
+      detectedLanguage: 'es',
+    });
+  });
+});
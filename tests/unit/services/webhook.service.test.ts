@@ -0,0 +1,185 @@
+import crypto from 'crypto';
+import axios from 'axios';
+import {
+  signWebhookPayload,
+  postSignedWebhook,
+  getRetryDelay,
+  subscriptionMatches,
+  WebhookService,
+  WebhookSubscription,
+} from '../../../src/services/WebhookService';
+
+jest.mock('axios');
+
+// In-memory stand-in for the hash and sorted set commands used by subscriptions and the outbox
+let now = 1_000_000;
+const hashes = new Map<string, Map<string, string>>();
+const zsets = new Map<string, Map<string, number>>();
+const hashFor = (key: string) => {
+  if (!hashes.has(key)) hashes.set(key, new Map());
+  return hashes.get(key)!;
+};
+const zsetFor = (key: string) => {
+  if (!zsets.has(key)) zsets.set(key, new Map());
+  return zsets.get(key)!;
+};
+const fakeRedis = {
+  hset: jest.fn(async (key: string, field: string, value: string) => { hashFor(key).set(field, value); return 1; }),
+  hget: jest.fn(async (key: string, field: string) => hashFor(key).get(field) ?? null),
+  hdel: jest.fn(async (key: string, ...fields: string[]) => fields.filter(field => hashFor(key).delete(field)).length),
+  zadd: jest.fn(async (key: string, score: number, member: string) => { zsetFor(key).set(member, Number(score)); return 1; }),
+  zrem: jest.fn(async (key: string, ...members: string[]) => members.filter(member => zsetFor(key).delete(member)).length),
+  zcard: jest.fn(async (key: string) => zsetFor(key).size),
+  zscore: jest.fn(async (key: string, member: string) => zsetFor(key).get(member)?.toString() ?? null),
+  zrangebyscore: jest.fn(async (key: string, _min: string, max: string) => Array.from(zsetFor(key))
+    .filter(([, score]) => score <= Number(max))
+    .sort((a, b) => a[1] - b[1])
+    .map(([member]) => member)),
+  // The claim script re-scores an entry only while it is due
+  eval: jest.fn(async (_script: string, _keys: number, key: string, member: string, dueBy: number, claimUntil: number) => {
+    const score = zsetFor(key).get(member);
+    if (score === undefined || score > dueBy) return 0;
+    zsetFor(key).set(member, claimUntil);
+    return 1;
+  }),
+};
+
+jest.mock('../../../src/config/redis', () => ({
+  getRedisClient: () => fakeRedis,
+}));
+
+describe('WebhookService', () => {
+  describe('signWebhookPayload', () => {
+    it('should sign the timestamp and body with HMAC-SHA256', () => {
+      const body = JSON.stringify({ id: 'evt_1', event: 'message' });
+      const expected = crypto.createHmac('sha256', 'secret').update(`1700000000.${body}`).digest('hex');
+
+      expect(signWebhookPayload('secret', 1700000000, body)).toBe(`sha256=${expected}`);
+    });
+
+    it('should change when the timestamp changes', () => {
+      const body = '{}';
+      expect(signWebhookPayload('secret', 1, body)).not.toBe(signWebhookPayload('secret', 2, body));
+    });
+  });
+
+  describe('postSignedWebhook', () => {
+    it('should post the payload once with its event and signature', async () => {
+      (axios.post as jest.Mock).mockResolvedValueOnce({ status: 204 });
+      const payload = { event: 'digest', deviceId: 'device-1' };
+
+      expect(await postSignedWebhook('https://example.com/hook', payload, { secret: 'secret', timeout: 1000 })).toBe(204);
+
+      const [url, body, { headers, timeout }] = (axios.post as jest.Mock).mock.lastCall;
+      expect(url).toBe('https://example.com/hook');
+      expect(JSON.parse(body)).toEqual(payload);
+      expect(timeout).toBe(1000);
+      expect(headers['X-Webhook-Event']).toBe('digest');
+      expect(headers['X-Webhook-Signature']).toBe(signWebhookPayload('secret', parseInt(headers['X-Webhook-Timestamp']), body));
+    });
+
+    it('should leave the signature out without a secret', async () => {
+      (axios.post as jest.Mock).mockResolvedValueOnce({ status: 500 });
+
+      expect(await postSignedWebhook('https://example.com/hook', { event: 'auto_reply_rule' }, { timeout: 1000 })).toBe(500);
+      expect((axios.post as jest.Mock).mock.lastCall[2].headers['X-Webhook-Signature']).toBeUndefined();
+    });
+  });
+
+  describe('getRetryDelay', () => {
+    it('should back off exponentially up to the maximum', () => {
+      expect(getRetryDelay(1, 1000, 10000)).toBe(1000);
+      expect(getRetryDelay(2, 1000, 10000)).toBe(2000);
+      expect(getRetryDelay(4, 1000, 10000)).toBe(8000);
+      expect(getRetryDelay(5, 1000, 10000)).toBe(10000);
+    });
+  });
+
+  describe('subscriptionMatches', () => {
+    const subscription: WebhookSubscription = {
+      id: 'wh_1',
+      url: 'https://example.com/hook',
+      secret: 'secret',
+      events: ['message', 'message_ack'],
+      active: true,
+      createdAt: 0,
+      updatedAt: 0,
+    };
+
+    it('should match subscribed events from any device when no devices are set', () => {
+      expect(subscriptionMatches(subscription, 'message', 'device-1')).toBe(true);
+      expect(subscriptionMatches(subscription, 'group_update', 'device-1')).toBe(false);
+    });
+
+    it('should only match the listed devices', () => {
+      const filtered = { ...subscription, deviceIds: ['device-1'] };
+      expect(subscriptionMatches(filtered, 'message', 'device-1')).toBe(true);
+      expect(subscriptionMatches(filtered, 'message', 'device-2')).toBe(false);
+    });
+
+    it('should not match inactive subscriptions', () => {
+      expect(subscriptionMatches({ ...subscription, active: false }, 'message', 'device-1')).toBe(false);
+    });
+  });
+
+  describe('outbox', () => {
+    let service: WebhookService;
+    const post = axios.post as jest.Mock;
+    const processOutbox = () => (service as any).processOutbox();
+    const outbox = () => zsetFor('whatsapp:webhook_outbox');
+
+    beforeAll(() => {
+      // Outbox processing is driven by hand here
+      const setIntervalSpy = jest.spyOn(global, 'setInterval').mockReturnValue(0 as any);
+      service = WebhookService.getInstance();
+      setIntervalSpy.mockRestore();
+    });
+
+    beforeEach(() => {
+      now = 1_000_000;
+      hashes.clear();
+      zsets.clear();
+      post.mockReset();
+      jest.spyOn(Date, 'now').mockImplementation(() => now);
+    });
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it('should keep a delivery in the outbox until its attempt is recorded', async () => {
+      const subscription = await service.createSubscription({ url: 'https://example.com/hook', events: ['device_state'] });
+      const delivery = await service.sendTestEvent(subscription.id);
+
+      // The instance delivering it stops mid-attempt
+      post.mockReturnValueOnce(new Promise(() => undefined));
+      processOutbox();
+      await new Promise(resolve => setImmediate(resolve));
+
+      expect(post).toHaveBeenCalledTimes(1);
+      expect(outbox().get(`${subscription.id}:${delivery.id}`)).toBe(now + 60000);
+      await processOutbox();
+      expect(post).toHaveBeenCalledTimes(1);
+
+      // Once the visibility timeout passes another attempt delivers it
+      now += 60000;
+      post.mockResolvedValueOnce({ status: 200 });
+      await processOutbox();
+
+      expect(post).toHaveBeenCalledTimes(2);
+      expect(outbox().size).toBe(0);
+      expect(await service.getDelivery(subscription.id, delivery.id)).toMatchObject({ status: 'delivered' });
+    });
+
+    it('should reschedule failed attempts', async () => {
+      const subscription = await service.createSubscription({ url: 'https://example.com/hook', events: ['device_state'] });
+      const delivery = await service.sendTestEvent(subscription.id);
+
+      post.mockResolvedValueOnce({ status: 500 });
+      await processOutbox();
+
+      expect(outbox().get(`${subscription.id}:${delivery.id}`)).toBe(now + 5000);
+      expect(await service.getDelivery(subscription.id, delivery.id)).toMatchObject({ status: 'pending' });
+    });
+  });
+});